@@ -10,9 +10,10 @@ import {
 } from '../schemas/activity-log.schema';
 import { ActivityLogSanitizerService } from '../services/activity-log-sanitizer.service';
 import { ActivityLogQueryService } from '../services/activity-log-query.service';
+import { ClsService } from 'nestjs-cls';
 import {
   createMockConfigService,
-  // Removed unused import
+  createMockClsService,
 } from '../../common/__tests__/test-utils';
 
 describe('ActivityLogService', () => {
@@ -21,6 +22,7 @@ describe('ActivityLogService', () => {
   let configService: ConfigService;
   let sanitizerService: ActivityLogSanitizerService;
   let queryService: ActivityLogQueryService;
+  let clsService: ClsService;
 
   const mockActivityLog = {
     _id: 'log-id',
@@ -71,6 +73,9 @@ describe('ActivityLogService', () => {
     mockActivityLogModel.prototype = {
       save: jest.fn().mockResolvedValue(mockActivityLog),
     };
+    mockActivityLogModel.updateMany = jest.fn().mockReturnValue({
+      exec: jest.fn().mockResolvedValue({ modifiedCount: 1 }),
+    });
 
     const module: TestingModule = await Test.createTestingModule({
       providers: [
@@ -93,6 +98,10 @@ describe('ActivityLogService', () => {
           provide: ActivityLogQueryService,
           useValue: mockQueryService,
         },
+        {
+          provide: ClsService,
+          useValue: createMockClsService(),
+        },
       ],
     }).compile();
 
@@ -105,6 +114,7 @@ describe('ActivityLogService', () => {
       ActivityLogSanitizerService,
     );
     queryService = module.get<ActivityLogQueryService>(ActivityLogQueryService);
+    clsService = module.get<ClsService>(ClsService);
   });
 
   afterEach(() => {
@@ -213,6 +223,7 @@ describe('ActivityLogService', () => {
         configService,
         sanitizerService,
         queryService,
+        clsService,
       );
 
       // Reset mocks
@@ -283,6 +294,77 @@ describe('ActivityLogService', () => {
     });
   });
 
+  describe('logEvent', () => {
+    it('should fill the actor and trace ID from the request context', async () => {
+      // Arrange
+      clsService.set('ipAddress', '10.0.0.1');
+      clsService.set('userAgent', 'Test Agent');
+      const logActivitySpy = jest
+        .spyOn(service, 'logActivity')
+        .mockResolvedValueOnce();
+
+      // Act
+      await service.logEvent({
+        userId: 'user-id',
+        actionType: 'REFRESH_TOKEN_REUSE',
+        username: 'test@example.com',
+        resource: { type: 'Session', id: 'family-id' },
+        operationStatus: 'FAILURE',
+        metadata: { reason: 'reuse' },
+      });
+
+      // Assert
+      expect(logActivitySpy).toHaveBeenCalledWith(
+        expect.objectContaining({
+          userId: 'user-id',
+          actionType: 'REFRESH_TOKEN_REUSE',
+          actor: {
+            username: 'test@example.com',
+            ipAddress: '10.0.0.1',
+            userAgent: 'Test Agent',
+          },
+          resource: { type: 'Session', id: 'family-id' },
+          details: { metadata: { reason: 'reuse' } },
+          operationStatus: 'FAILURE',
+          traceId: 'mock-request-id',
+        }),
+      );
+    });
+
+    it('should record the real actor while a user is impersonated', async () => {
+      // Arrange
+      clsService.set('request', {
+        user: {
+          userId: 'user-id',
+          impersonatorId: 'admin-id',
+          impersonatorEmail: 'admin@example.com',
+        },
+      });
+      const logActivitySpy = jest
+        .spyOn(service, 'logActivity')
+        .mockResolvedValueOnce();
+
+      // Act
+      await service.logEvent({
+        userId: 'user-id',
+        actionType: 'API_KEY_CREATED',
+        username: 'test@example.com',
+        resource: { type: 'ApiKey', id: 'api-key-id' },
+      });
+
+      // Assert
+      expect(logActivitySpy).toHaveBeenCalledWith(
+        expect.objectContaining({
+          actor: expect.objectContaining({
+            username: 'test@example.com',
+            impersonatorId: 'admin-id',
+            impersonatorUsername: 'admin@example.com',
+          }) as unknown,
+        }),
+      );
+    });
+  });
+
   describe('queryLogs', () => {
     it('should call queryService.queryLogs with filter and options', async () => {
       // Arrange
@@ -325,4 +407,80 @@ describe('ActivityLogService', () => {
       expect(result).toEqual(expectedResult);
     });
   });
+
+  describe('pseudonymizeUser', () => {
+    it('should replace the personal data of the user and keep the entries', async () => {
+      // Arrange
+      const userId = '507f1f77bcf86cd799439011';
+      const byUser = { userId: new Types.ObjectId(userId) };
+      const aboutUser = { 'resource.type': 'User', 'resource.id': userId };
+
+      // Act
+      await service.pseudonymizeUser(userId, 'erased-user');
+
+      // Assert
+      const updateManySpy = jest.spyOn(activityLogModel, 'updateMany');
+      expect(updateManySpy).toHaveBeenCalledWith(byUser, {
+        $set: {
+          'actor.username': 'erased-user',
+          'actor.ipAddress': 'redacted',
+        },
+        $unset: { 'actor.userAgent': 1 },
+      });
+      expect(updateManySpy).toHaveBeenCalledWith(
+        { 'actor.impersonatorId': userId },
+        { $set: { 'actor.impersonatorUsername': 'erased-user' } },
+      );
+      expect(updateManySpy).toHaveBeenCalledWith(aboutUser, {
+        $set: { 'resource.displayName': 'erased-user' },
+      });
+      expect(updateManySpy).toHaveBeenCalledWith(
+        { $or: [byUser, aboutUser] },
+        {
+          $unset: {
+            'details.entitySnapshot': 1,
+            'details.inputPayloadSummary': 1,
+            'details.metadata': 1,
+          },
+        },
+      );
+      expect(updateManySpy).toHaveBeenCalledWith(
+        {
+          $or: [byUser, aboutUser],
+          'details.changedFields.0': { $exists: true },
+        },
+        {
+          $unset: {
+            'details.changedFields.$[].oldValue': 1,
+            'details.changedFields.$[].newValue': 1,
+          },
+        },
+      );
+    });
+
+    it('should remove the addresses logged by email changes', async () => {
+      // Arrange
+      const userId = '507f1f77bcf86cd799439011';
+      const updateManySpy = jest.spyOn(activityLogModel, 'updateMany');
+
+      // Act
+      await service.pseudonymizeUser(userId, 'erased-user');
+
+      // Assert
+      // EMAIL_CHANGE_REQUESTED and EMAIL_CHANGED keep the addresses in their metadata
+      expect(updateManySpy).toHaveBeenCalledWith(
+        {
+          $or: [
+            { userId: new Types.ObjectId(userId) },
+            { 'resource.type': 'User', 'resource.id': userId },
+          ],
+        },
+        {
+          $unset: expect.objectContaining({
+            'details.metadata': 1,
+          }) as Record<string, unknown>,
+        },
+      );
+    });
+  });
 });
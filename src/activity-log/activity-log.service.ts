@@ -3,11 +3,40 @@ import { InjectModel } from '@nestjs/mongoose';
 import { Model, Types } from 'mongoose';
 import { ActivityLog, ActivityLogDocument } from './schemas';
 import { ConfigService } from '@nestjs/config';
+import { ClsService } from 'nestjs-cls';
 import {
   ActivityLogSanitizerService,
   ActivityLogQueryService,
 } from './services';
 
+/**
+ * Event raised by application code outside of the HTTP request interceptor
+ */
+export interface ActivityEvent {
+  /** Missing for events without a known user, such as logins with an unknown email */
+  userId?: string;
+  actionType: string;
+  username: string;
+  /** Set when the event was caused by an OAuth client */
+  clientId?: string;
+  resource: { type: string; id?: string; displayName?: string };
+  operationStatus?: 'SUCCESS' | 'FAILURE';
+  metadata?: Record<string, unknown>;
+  failureDetails?: { errorCode?: string; message?: string };
+}
+
+/**
+ * Activity log entry as built by application code, with the user ID as a string
+ */
+export type ActivityLogEntry = Omit<Partial<ActivityLog>, 'userId'> & {
+  userId?: string;
+};
+
+/**
+ * Stored instead of the IP addresses of erased users
+ */
+const REDACTED_IP_ADDRESS = 'redacted';
+
 /**
  * Main service for activity logging functionality
  */
@@ -22,6 +51,7 @@ export class ActivityLogService {
     private configService: ConfigService,
     private sanitizerService: ActivityLogSanitizerService,
     private queryService: ActivityLogQueryService,
+    private readonly clsService: ClsService,
   ) {
     // Allow disabling activity logging via configuration
     this.isEnabled = this.configService.get<boolean>(
@@ -34,9 +64,7 @@ export class ActivityLogService {
    * Log an activity asynchronously
    * @param logData Activity log data
    */
-  async logActivity(
-    logData: Partial<ActivityLog> & { userId: string },
-  ): Promise<void> {
+  async logActivity(logData: ActivityLogEntry): Promise<void> {
     if (!this.isEnabled) {
       return;
     }
@@ -47,11 +75,7 @@ export class ActivityLogService {
 
       // Convert string userId to ObjectId
       if (typeof sanitizedLogData.userId === 'string') {
-        // Using type assertion to handle the mongoose type mismatch
-        // eslint-disable-next-line @typescript-eslint/no-unsafe-assignment
-        sanitizedLogData.userId = new Types.ObjectId(
-          sanitizedLogData.userId,
-        ) as any;
+        sanitizedLogData.userId = new Types.ObjectId(sanitizedLogData.userId);
       }
 
       // Create and save the log entry asynchronously
@@ -67,6 +91,39 @@ export class ActivityLogService {
     }
   }
 
+  /**
+   * Log an application event
+   * The actor's IP address, user agent, impersonator and the trace ID are taken from the request context
+   * @param event Event data
+   */
+  async logEvent(event: ActivityEvent): Promise<void> {
+    // Events caused during impersonation also record the real actor
+    const requestUser = this.clsService.get<
+      { user?: Record<string, unknown> } | undefined
+    >('request')?.user;
+
+    await this.logActivity({
+      userId: event.userId,
+      actionType: event.actionType,
+      timestamp: new Date(),
+      actor: {
+        username: event.username,
+        ipAddress: this.clsService.get<string>('ipAddress') || 'unknown',
+        userAgent: this.clsService.get<string>('userAgent'),
+        clientId: event.clientId,
+        impersonatorId: requestUser?.impersonatorId as string | undefined,
+        impersonatorUsername: requestUser?.impersonatorEmail as
+          | string
+          | undefined,
+      },
+      resource: event.resource,
+      details: event.metadata ? { metadata: event.metadata } : undefined,
+      operationStatus: event.operationStatus ?? 'SUCCESS',
+      failureDetails: event.failureDetails,
+      traceId: this.clsService.getId(),
+    });
+  }
+
   /**
    * Query activity logs with pagination
    * @param filter Filter criteria
@@ -83,4 +140,64 @@ export class ActivityLogService {
   ) {
     return this.queryService.queryLogs(filter, options);
   }
+
+  /**
+   * Remove the personal data of a user from the activity logs
+   * The entries are kept, so that the audit trail survives the erasure: the
+   * user's name, email and IP addresses are replaced and the entity snapshots,
+   * payloads, metadata and changed values of the entries by or about the user
+   * are removed
+   * @param userId User ID
+   * @param pseudonym Replaces the username and display name of the user
+   */
+  async pseudonymizeUser(userId: string, pseudonym: string): Promise<void> {
+    const byUser = { userId: new Types.ObjectId(userId) };
+    const aboutUser = { 'resource.type': 'User', 'resource.id': userId };
+
+    await this.activityLogModel
+      .updateMany(byUser, {
+        $set: {
+          'actor.username': pseudonym,
+          'actor.ipAddress': REDACTED_IP_ADDRESS,
+        },
+        $unset: { 'actor.userAgent': 1 },
+      })
+      .exec();
+    await this.activityLogModel
+      .updateMany(
+        { 'actor.impersonatorId': userId },
+        { $set: { 'actor.impersonatorUsername': pseudonym } },
+      )
+      .exec();
+    await this.activityLogModel
+      .updateMany(aboutUser, { $set: { 'resource.displayName': pseudonym } })
+      .exec();
+    await this.activityLogModel
+      .updateMany(
+        { $or: [byUser, aboutUser] },
+        {
+          $unset: {
+            'details.entitySnapshot': 1,
+            'details.inputPayloadSummary': 1,
+            'details.metadata': 1, // Email changes log the old and new addresses
+          },
+        },
+      )
+      .exec();
+    // Array updates fail on entries without changed fields
+    await this.activityLogModel
+      .updateMany(
+        {
+          $or: [byUser, aboutUser],
+          'details.changedFields.0': { $exists: true },
+        },
+        {
+          $unset: {
+            'details.changedFields.$[].oldValue': 1,
+            'details.changedFields.$[].newValue': 1,
+          },
+        },
+      )
+      .exec();
+  }
 }
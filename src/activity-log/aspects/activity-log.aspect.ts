@@ -174,6 +174,10 @@ export class ActivityLogAspect {
             (user.name as string) || (user.email as string) || 'unknown',
           ipAddress: this.clsService.get('ipAddress') || 'unknown',
           userAgent: this.clsService.get('userAgent'),
+          apiKeyId: user.apiKeyId as string | undefined,
+          clientId: user.clientId as string | undefined,
+          impersonatorId: user.impersonatorId as string | undefined,
+          impersonatorUsername: user.impersonatorEmail as string | undefined,
         },
         resource: {
           type: resourceType,
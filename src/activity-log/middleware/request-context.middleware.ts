@@ -1,6 +1,7 @@
 import { Injectable, NestMiddleware, Logger } from '@nestjs/common';
 import { Request, Response, NextFunction } from 'express';
 import { ClsService } from 'nestjs-cls';
+import { RequestUtils } from '../utils';
 
 @Injectable()
 export class RequestContextMiddleware implements NestMiddleware {
@@ -26,7 +27,7 @@ export class RequestContextMiddleware implements NestMiddleware {
       }
 
       // Store request information in CLS context
-      this.clsService.set('ipAddress', this.getClientIp(req));
+      this.clsService.set('ipAddress', RequestUtils.getClientIp(req));
       this.clsService.set('userAgent', req.headers['user-agent']);
       this.clsService.set(
         'requestId',
@@ -43,22 +44,4 @@ export class RequestContextMiddleware implements NestMiddleware {
       next(err);
     }
   }
-
-  private getClientIp(request: Request): string {
-    // Try to get IP from various headers
-    const forwardedFor = request.headers['x-forwarded-for'];
-    if (forwardedFor) {
-      const ips = Array.isArray(forwardedFor)
-        ? forwardedFor[0]
-        : forwardedFor.split(',')[0];
-      return ips.trim();
-    }
-
-    const realIp = request.headers['x-real-ip'];
-    if (realIp) {
-      return Array.isArray(realIp) ? realIp[0] : realIp;
-    }
-
-    return request.ip || 'unknown';
-  }
 }
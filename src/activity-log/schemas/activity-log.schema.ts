@@ -14,6 +14,18 @@ class Actor {
 
   @Prop()
   userAgent?: string;
+
+  @Prop() // Set when the request was authenticated with an API key
+  apiKeyId?: string;
+
+  @Prop() // Set when the request was made by an OAuth client
+  clientId?: string;
+
+  @Prop({ index: true, sparse: true }) // Set when an administrator was impersonating the user
+  impersonatorId?: string;
+
+  @Prop()
+  impersonatorUsername?: string;
 }
 
 @Schema({ _id: false })
@@ -62,6 +74,9 @@ class Details {
 
   @Prop({ type: Object })
   entitySnapshot?: Record<string, any>;
+
+  @Prop({ type: Object })
+  metadata?: Record<string, any>;
 }
 
 @Schema({ _id: false })
@@ -77,11 +92,10 @@ class FailureDetails {
 export class ActivityLog {
   @Prop({
     type: MongooseSchema.Types.ObjectId,
-    required: true,
     index: true,
     ref: 'User',
-  })
-  userId: MongooseSchema.Types.ObjectId;
+  }) // Missing for failed logins with an unknown email
+  userId?: MongooseSchema.Types.ObjectId;
 
   @Prop({
     required: true,
@@ -98,9 +112,42 @@ export class ActivityLog {
       'LOGIN_SUCCESS',
       'LOGIN_FAILURE',
       'LOGOUT',
+      'TOKEN_REFRESH',
       'CREATE_ENTITY',
       'UPDATE_ENTITY',
       'DELETE_ENTITY',
+      'REFRESH_TOKEN_REUSE',
+      'PASSWORD_RESET',
+      'PASSWORD_CHANGE',
+      'MFA_ENROLLMENT_STARTED',
+      'MFA_ENABLED',
+      'MFA_VERIFIED',
+      'MFA_VERIFICATION_FAILED',
+      'MFA_RESET',
+      'API_KEY_CREATED',
+      'API_KEY_REVOKED',
+      'OAUTH_CLIENT_CREATED',
+      'OAUTH_CLIENT_DISABLED',
+      'CLIENT_TOKEN_ISSUED',
+      'CLIENT_AUTH_FAILURE',
+      'EXTERNAL_IDENTITY_LINKED',
+      'IMPERSONATION_STARTED',
+      'IMPERSONATION_ENDED',
+      'REAUTHENTICATED',
+      'REAUTHENTICATION_FAILED',
+      'USER_SUSPENDED',
+      'USER_REACTIVATED',
+      'USER_DELETED',
+      'USER_RESTORED',
+      'USER_PURGED',
+      'USER_DATA_EXPORT_REQUESTED',
+      'USER_DATA_EXPORTED',
+      'USER_DATA_EXPORT_DOWNLOADED',
+      'USER_ERASURE_REQUESTED',
+      'USER_ERASED',
+      'EMAIL_CHANGE_REQUESTED',
+      'EMAIL_CHANGED',
+      'EMAIL_CHANGE_CANCELLED',
     ],
   })
   actionType: string;
@@ -32,8 +32,12 @@ export class ActivityLogSanitizerService {
    * @returns Sanitized log data
    */
   sanitizeLogData(
-    logData: Partial<ActivityLog> & { userId: string | Types.ObjectId },
-  ): Partial<ActivityLog> & { userId: string | Types.ObjectId } {
+    logData: Omit<Partial<ActivityLog>, 'userId'> & {
+      userId?: string | Types.ObjectId;
+    },
+  ): Omit<Partial<ActivityLog>, 'userId'> & {
+    userId?: string | Types.ObjectId;
+  } {
     const sanitized = { ...logData };
 
     // Sanitize details if it's an object
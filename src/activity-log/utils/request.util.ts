@@ -27,6 +27,23 @@ export class RequestUtils {
     return request.ip || 'unknown';
   }
 
+  /**
+   * Read a cookie from a request
+   * Values are returned as sent, without URL decoding
+   * @param request Express request object
+   * @param name Cookie name
+   * @returns Cookie value or undefined if not sent
+   */
+  static getCookie(request: Request, name: string): string | undefined {
+    for (const pair of request.headers.cookie?.split(';') ?? []) {
+      const separator = pair.indexOf('=');
+      if (separator > 0 && pair.slice(0, separator).trim() === name) {
+        return pair.slice(separator + 1).trim();
+      }
+    }
+    return undefined;
+  }
+
   /**
    * Prepare log data from a request
    * @param request Express request object
@@ -58,6 +75,11 @@ export class RequestUtils {
         username: (user.name as string) || (user.email as string) || 'unknown',
         ipAddress,
         userAgent,
+        apiKeyId: user.apiKeyId as string | undefined,
+        clientId: user.clientId as string | undefined,
+        // The real actor, when an administrator is impersonating the user
+        impersonatorId: user.impersonatorId as string | undefined,
+        impersonatorUsername: user.impersonatorEmail as string | undefined,
       },
       resource: {
         type: 'SystemRoute',
@@ -3,6 +3,7 @@ import { AppController } from './app.controller';
 import { AppService } from './app.service';
 import { AuthModule } from './auth';
 import { UsersModule } from './users';
+import { PermissionsModule } from './permissions';
 import { ActivityLogModule } from './activity-log';
 import { CommonModule } from './common';
 import { ConfigModule, ConfigService } from '@nestjs/config';
@@ -89,6 +90,7 @@ import * as path from 'path';
     // Application modules
     CommonModule,
     ActivityLogModule,
+    PermissionsModule,
     AuthModule,
     UsersModule,
   ],
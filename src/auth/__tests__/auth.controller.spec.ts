@@ -7,6 +7,17 @@ import type {
   AuthenticatedRequest,
   RefreshTokenRequest,
 } from '../auth.controller';
+import type {
+  Request as ExpressRequest,
+  Response as ExpressResponse,
+} from 'express';
+import { I18nService } from 'nestjs-i18n';
+import { ClsService } from 'nestjs-cls';
+import { PERMISSIONS_RESOLVER } from '../../common/interfaces';
+import {
+  createMockClsService,
+  createMockI18nService,
+} from '../../common/__tests__/test-utils';
 
 describe('AuthController', () => {
   let controller: AuthController;
@@ -16,6 +27,32 @@ describe('AuthController', () => {
     login: jest.fn(),
     refreshToken: jest.fn(),
     logout: jest.fn(),
+    logoutAll: jest.fn(),
+    endImpersonation: jest.fn(),
+    changePassword: jest.fn(),
+    reauthenticate: jest.fn(),
+    listSessions: jest.fn(),
+    revokeSession: jest.fn(),
+    revokeOtherSessions: jest.fn(),
+    register: jest.fn(),
+    verifyEmail: jest.fn(),
+    resendVerification: jest.fn(),
+    forgotPassword: jest.fn(),
+    resetPassword: jest.fn(),
+    requestMagicLink: jest.fn(),
+    verifyMagicLink: jest.fn(),
+    verifyMfa: jest.fn(),
+    startMfaEnrollment: jest.fn(),
+    confirmMfaEnrollment: jest.fn(),
+    createApiKey: jest.fn(),
+    listApiKeys: jest.fn(),
+    revokeApiKey: jest.fn(),
+    issueClientCredentialsToken: jest.fn(),
+    createOAuthClient: jest.fn(),
+    listOAuthClients: jest.fn(),
+    disableOAuthClient: jest.fn(),
+    startOidcLogin: jest.fn(),
+    completeOidcLogin: jest.fn(),
   };
 
   beforeEach(async () => {
@@ -26,6 +63,18 @@ describe('AuthController', () => {
           provide: AuthService,
           useValue: mockAuthService,
         },
+        {
+          provide: I18nService,
+          useValue: createMockI18nService(),
+        },
+        {
+          provide: ClsService,
+          useValue: createMockClsService(),
+        },
+        {
+          provide: PERMISSIONS_RESOLVER,
+          useValue: { resolvePermissions: jest.fn() },
+        },
       ],
     }).compile();
 
@@ -122,13 +171,163 @@ describe('AuthController', () => {
     });
   });
 
+  describe('register', () => {
+    it('should call authService.register with the registration data', async () => {
+      // Arrange
+      const createUserDto = {
+        name: 'Test User',
+        email: 'test@example.com',
+        password: 'password123',
+        password_confirmation: 'password123',
+      };
+      const mockResponse = {
+        message: 'Registration successful.',
+        user: {
+          id: 'user-id',
+          email: 'test@example.com',
+          name: 'Test User',
+          emailVerified: false,
+        },
+      };
+      jest.spyOn(authService, 'register').mockResolvedValue(mockResponse);
+
+      // Act
+      const result = await controller.register(createUserDto);
+
+      // Assert
+      expect(jest.spyOn(authService, 'register')).toHaveBeenCalledWith(
+        createUserDto,
+      );
+      expect(result).toEqual(mockResponse);
+    });
+  });
+
+  describe('email verification', () => {
+    it('should call authService.verifyEmail with the token', async () => {
+      // Arrange
+      const mockResponse = { message: 'Email address verified.' };
+      jest.spyOn(authService, 'verifyEmail').mockResolvedValue(mockResponse);
+
+      // Act
+      const result = await controller.verifyEmail({ token: 'token' });
+
+      // Assert
+      expect(jest.spyOn(authService, 'verifyEmail')).toHaveBeenCalledWith(
+        'token',
+      );
+      expect(result).toEqual(mockResponse);
+    });
+
+    it('should call authService.resendVerification with the email', async () => {
+      // Arrange
+      const mockResponse = { message: 'A verification email has been sent.' };
+      jest
+        .spyOn(authService, 'resendVerification')
+        .mockResolvedValue(mockResponse);
+
+      // Act
+      const result = await controller.resendVerification({
+        email: 'test@example.com',
+      });
+
+      // Assert
+      expect(
+        jest.spyOn(authService, 'resendVerification'),
+      ).toHaveBeenCalledWith('test@example.com');
+      expect(result).toEqual(mockResponse);
+    });
+  });
+
+  describe('password reset', () => {
+    it('should call authService.forgotPassword with the email', async () => {
+      // Arrange
+      const mockResponse = { message: 'A password reset link has been sent.' };
+      jest.spyOn(authService, 'forgotPassword').mockResolvedValue(mockResponse);
+
+      // Act
+      const result = await controller.forgotPassword({
+        email: 'test@example.com',
+      });
+
+      // Assert
+      expect(jest.spyOn(authService, 'forgotPassword')).toHaveBeenCalledWith(
+        'test@example.com',
+      );
+      expect(result).toEqual(mockResponse);
+    });
+
+    it('should call authService.resetPassword with the token and new password', async () => {
+      // Arrange
+      const mockResponse = { message: 'Your password has been reset.' };
+      jest.spyOn(authService, 'resetPassword').mockResolvedValue(mockResponse);
+
+      // Act
+      const result = await controller.resetPassword({
+        token: 'reset-token',
+        password: 'newpassword',
+        password_confirmation: 'newpassword',
+      });
+
+      // Assert
+      expect(jest.spyOn(authService, 'resetPassword')).toHaveBeenCalledWith(
+        'reset-token',
+        'newpassword',
+      );
+      expect(result).toEqual(mockResponse);
+    });
+  });
+
+  describe('magic link', () => {
+    it('should send a login link to the email', async () => {
+      // Arrange
+      const mockResponse = { message: 'A login link has been sent.' };
+      mockAuthService.requestMagicLink.mockResolvedValue(mockResponse);
+
+      // Act
+      const result = await controller.requestMagicLink({
+        email: 'test@example.com',
+      });
+
+      // Assert
+      expect(mockAuthService.requestMagicLink).toHaveBeenCalledWith(
+        'test@example.com',
+      );
+      expect(result).toBe(mockResponse);
+    });
+
+    it('should log in with the token and the client IP address', async () => {
+      // Arrange
+      const mockResponse = { message: 'Login successful.' };
+      mockAuthService.verifyMagicLink.mockResolvedValue(mockResponse);
+      const request = {
+        headers: { 'x-forwarded-for': '203.0.113.7' },
+      } as unknown as ExpressRequest;
+
+      // Act
+      const result = await controller.verifyMagicLink(
+        { token: 'magic-token' },
+        request,
+      );
+
+      // Assert
+      expect(mockAuthService.verifyMagicLink).toHaveBeenCalledWith(
+        'magic-token',
+        '203.0.113.7',
+      );
+      expect(result).toBe(mockResponse);
+    });
+  });
+
   describe('logout', () => {
-    it('should call authService.logout with userId from request', async () => {
+    it('should call authService.logout with userId and session from request', async () => {
       // Arrange
       const mockUser = {
         userId: 'user-id',
         email: 'test@example.com',
         name: 'Test User',
+        sessionId: 'family-id',
+        tokenId: 'token-id',
+        tokenExpiresAt: 1700000000,
       };
       const mockRequest = { user: mockUser };
       const mockLogoutResponse = {
@@ -143,8 +342,436 @@ describe('AuthController', () => {
 
       // Assert
       const logoutSpy = jest.spyOn(authService, 'logout');
-      expect(logoutSpy).toHaveBeenCalledWith('user-id');
+      expect(logoutSpy).toHaveBeenCalledWith('user-id', 'family-id', {
+        jti: 'token-id',
+        exp: 1700000000,
+      });
       expect(result).toEqual(mockLogoutResponse);
     });
+
+    it('should only end the impersonation when logging out with an impersonation token', async () => {
+      // Arrange
+      const mockRequest = {
+        user: {
+          userId: 'user-id',
+          email: 'test@example.com',
+          name: 'Test User',
+          tokenId: 'token-id',
+          tokenExpiresAt: 1700000000,
+          impersonatorId: 'admin-id',
+        },
+      };
+      const mockResponse = { message: 'Impersonation ended.' };
+      jest
+        .spyOn(authService, 'endImpersonation')
+        .mockResolvedValue(mockResponse);
+
+      // Act
+      const result = await controller.logout(
+        mockRequest as AuthenticatedRequest,
+      );
+
+      // Assert
+      expect(jest.spyOn(authService, 'endImpersonation')).toHaveBeenCalledWith(
+        'user-id',
+        {
+          jti: 'token-id',
+          exp: 1700000000,
+        },
+      );
+      expect(jest.spyOn(authService, 'logout')).not.toHaveBeenCalled();
+      expect(result).toEqual(mockResponse);
+    });
+  });
+
+  describe('changePassword', () => {
+    it('should change the password of the user making the request', async () => {
+      // Arrange
+      const mockRequest = {
+        user: {
+          userId: 'user-id',
+          email: 'test@example.com',
+          name: 'Test',
+          sessionId: 'family-id',
+        },
+      };
+      const mockResponse = {
+        message: 'Password changed.',
+        access_token: 'access',
+        refresh_token: 'refresh',
+        expires_in: 3600,
+      };
+      jest.spyOn(authService, 'changePassword').mockResolvedValue(mockResponse);
+
+      // Act
+      const result = await controller.changePassword(
+        {
+          current_password: 'password',
+          password: 'newpassword',
+          password_confirmation: 'newpassword',
+        },
+        mockRequest as AuthenticatedRequest,
+      );
+
+      // Assert
+      expect(jest.spyOn(authService, 'changePassword')).toHaveBeenCalledWith(
+        'user-id',
+        'family-id',
+        'password',
+        'newpassword',
+      );
+      expect(result).toEqual(mockResponse);
+    });
+  });
+
+  describe('reauthenticate', () => {
+    it('should confirm the identity of the user in the current session', async () => {
+      // Arrange
+      const mockRequest = {
+        user: {
+          userId: 'user-id',
+          email: 'test@example.com',
+          name: 'Test',
+          sessionId: 'family-id',
+        },
+        headers: { 'x-forwarded-for': '203.0.113.7' },
+      } as unknown as AuthenticatedRequest & Omit<ExpressRequest, 'user'>;
+      const mockResponse = {
+        message: 'Identity confirmed.',
+        access_token: 'elevated-token',
+        expires_in: 300,
+      };
+      jest.spyOn(authService, 'reauthenticate').mockResolvedValue(mockResponse);
+
+      // Act
+      const result = await controller.reauthenticate(
+        { password: 'password' },
+        mockRequest,
+      );
+
+      // Assert
+      expect(jest.spyOn(authService, 'reauthenticate')).toHaveBeenCalledWith(
+        'user-id',
+        'family-id',
+        { password: 'password', code: undefined },
+        '203.0.113.7',
+      );
+      expect(result).toEqual(mockResponse);
+    });
+  });
+
+  describe('mfa', () => {
+    const mockRequest = {
+      user: { userId: 'user-id', email: 'test@example.com', name: 'Test' },
+    } as AuthenticatedRequest;
+
+    it('should finish the login with the client IP address', async () => {
+      // Arrange
+      const mockResponse = { message: 'Login successful.' };
+      mockAuthService.verifyMfa.mockResolvedValue(mockResponse);
+      const request = {
+        headers: { 'x-forwarded-for': '203.0.113.7' },
+      } as unknown as ExpressRequest;
+
+      // Act
+      const result = await controller.verifyMfa(
+        { mfa_token: 'mfa-token', code: '123456' },
+        request,
+      );
+
+      // Assert
+      expect(mockAuthService.verifyMfa).toHaveBeenCalledWith(
+        'mfa-token',
+        '123456',
+        '203.0.113.7',
+      );
+      expect(result).toBe(mockResponse);
+    });
+
+    it('should start the enrollment of the user making the request', async () => {
+      // Act
+      await controller.startMfaEnrollment(mockRequest);
+
+      // Assert
+      expect(mockAuthService.startMfaEnrollment).toHaveBeenCalledWith(
+        'user-id',
+        'test@example.com',
+      );
+    });
+
+    it('should confirm the enrollment with the code', async () => {
+      // Act
+      await controller.confirmMfaEnrollment({ code: '123456' }, mockRequest);
+
+      // Assert
+      expect(mockAuthService.confirmMfaEnrollment).toHaveBeenCalledWith(
+        'user-id',
+        'test@example.com',
+        '123456',
+      );
+    });
+  });
+
+  describe('logoutAll', () => {
+    it('should call authService.logoutAll with userId from request', async () => {
+      // Arrange
+      const mockRequest = {
+        user: { userId: 'user-id', email: 'test@example.com', name: 'Test' },
+      };
+      const mockResponse = { message: 'Logged out from all devices.' };
+      jest.spyOn(authService, 'logoutAll').mockResolvedValue(mockResponse);
+
+      // Act
+      const result = await controller.logoutAll(
+        mockRequest as AuthenticatedRequest,
+      );
+
+      // Assert
+      expect(jest.spyOn(authService, 'logoutAll')).toHaveBeenCalledWith(
+        'user-id',
+      );
+      expect(result).toEqual(mockResponse);
+    });
+  });
+
+  describe('sessions', () => {
+    const mockRequest = {
+      user: {
+        userId: 'user-id',
+        email: 'test@example.com',
+        name: 'Test User',
+        roles: ['user'],
+        sessionId: 'family-id',
+      },
+    } as AuthenticatedRequest;
+
+    it('should list the sessions of the current user', async () => {
+      // Arrange
+      const sessions = [
+        {
+          id: 'session-id',
+          device: 'Chrome on Windows',
+          lastUsedAt: new Date(),
+          createdAt: new Date(),
+          expiresAt: new Date(),
+          current: true,
+        },
+      ];
+      mockAuthService.listSessions.mockResolvedValue(sessions);
+
+      // Act
+      const result = await controller.listSessions(mockRequest);
+
+      // Assert
+      expect(mockAuthService.listSessions).toHaveBeenCalledWith(
+        'user-id',
+        'family-id',
+      );
+      expect(result).toBe(sessions);
+    });
+
+    it('should revoke one session of the current user', async () => {
+      // Act
+      await controller.revokeSession('session-id', mockRequest);
+
+      // Assert
+      expect(mockAuthService.revokeSession).toHaveBeenCalledWith(
+        'user-id',
+        'session-id',
+      );
+    });
+
+    it('should revoke the other sessions of the current user', async () => {
+      // Arrange
+      const response = { message: '2 other session(s) revoked.', revoked: 2 };
+      mockAuthService.revokeOtherSessions.mockResolvedValue(response);
+
+      // Act
+      const result = await controller.revokeOtherSessions(mockRequest);
+
+      // Assert
+      expect(mockAuthService.revokeOtherSessions).toHaveBeenCalledWith(
+        'user-id',
+        'family-id',
+      );
+      expect(result).toBe(response);
+    });
+  });
+
+  describe('api keys', () => {
+    const mockRequest = {
+      user: { userId: 'user-id', email: 'test@example.com', name: 'Test' },
+    } as AuthenticatedRequest;
+
+    it('should create an API key for the user making the request', async () => {
+      // Arrange
+      const dto = { name: 'CI', scopes: ['users:read'] };
+
+      // Act
+      await controller.createApiKey(dto, mockRequest);
+
+      // Assert
+      expect(mockAuthService.createApiKey).toHaveBeenCalledWith(
+        'user-id',
+        'test@example.com',
+        dto,
+      );
+    });
+
+    it('should list the API keys of the user making the request', async () => {
+      // Act
+      await controller.listApiKeys(mockRequest);
+
+      // Assert
+      expect(mockAuthService.listApiKeys).toHaveBeenCalledWith('user-id');
+    });
+
+    it('should revoke an API key of the user making the request', async () => {
+      // Act
+      await controller.revokeApiKey('api-key-id', mockRequest);
+
+      // Assert
+      expect(mockAuthService.revokeApiKey).toHaveBeenCalledWith(
+        'user-id',
+        'test@example.com',
+        'api-key-id',
+      );
+    });
+  });
+
+  describe('token', () => {
+    it('should write the token response without the response envelope', async () => {
+      // Arrange
+      const tokenResponse = {
+        access_token: 'client-token',
+        token_type: 'Bearer',
+        expires_in: 3600,
+        scope: 'users:read',
+      };
+      mockAuthService.issueClientCredentialsToken.mockResolvedValue(
+        tokenResponse,
+      );
+      const res = {
+        setHeader: jest.fn(),
+        status: jest.fn().mockReturnThis(),
+        json: jest.fn(),
+      };
+      const body = { grant_type: 'client_credentials' };
+
+      // Act
+      await controller.token(
+        body,
+        'Basic Y2xpZW50LWlkOnNlY3JldA==',
+        res as unknown as ExpressResponse,
+      );
+
+      // Assert
+      expect(mockAuthService.issueClientCredentialsToken).toHaveBeenCalledWith(
+        body,
+        'Basic Y2xpZW50LWlkOnNlY3JldA==',
+      );
+      expect(res.setHeader).toHaveBeenCalledWith('Cache-Control', 'no-store');
+      expect(res.status).toHaveBeenCalledWith(200);
+      expect(res.json).toHaveBeenCalledWith(tokenResponse);
+    });
+  });
+
+  describe('oauth clients', () => {
+    const mockRequest = {
+      user: { userId: 'user-id', email: 'admin@example.com', name: 'Admin' },
+    } as AuthenticatedRequest;
+
+    it('should register a client on behalf of the user making the request', async () => {
+      // Arrange
+      const dto = { name: 'Billing service', scopes: ['users:read'] };
+
+      // Act
+      await controller.createOAuthClient(dto, mockRequest);
+
+      // Assert
+      expect(mockAuthService.createOAuthClient).toHaveBeenCalledWith(
+        'user-id',
+        'admin@example.com',
+        dto,
+      );
+    });
+
+    it('should disable a client', async () => {
+      // Act
+      await controller.disableOAuthClient('client-id', mockRequest);
+
+      // Assert
+      expect(mockAuthService.disableOAuthClient).toHaveBeenCalledWith(
+        'user-id',
+        'admin@example.com',
+        'client-id',
+      );
+    });
+  });
+
+  describe('oidc', () => {
+    it('should redirect to the authorization endpoint of the provider and bind the login to the browser', async () => {
+      // Arrange
+      mockAuthService.startOidcLogin.mockResolvedValue({
+        url: 'https://idp.example.com/authorize?state=abc',
+        stateHash: 'state-hash',
+      });
+      const req = { secure: true };
+      const res = { cookie: jest.fn(), redirect: jest.fn() };
+
+      // Act
+      await controller.startOidcLogin(
+        'google',
+        req as unknown as ExpressRequest,
+        res as unknown as ExpressResponse,
+      );
+
+      // Assert
+      expect(mockAuthService.startOidcLogin).toHaveBeenCalledWith('google');
+      expect(res.cookie).toHaveBeenCalledWith('oidc_state', 'state-hash', {
+        httpOnly: true,
+        secure: true,
+        sameSite: 'lax',
+        maxAge: 600000,
+      });
+      expect(res.redirect).toHaveBeenCalledWith(
+        302,
+        'https://idp.example.com/authorize?state=abc',
+      );
+    });
+
+    it('should finish the login with the callback parameters and the state cookie', async () => {
+      // Arrange
+      const loginResponse = { access_token: 'access-token' };
+      mockAuthService.completeOidcLogin.mockResolvedValue(loginResponse);
+      const req = {
+        secure: false,
+        headers: { cookie: 'theme=dark; oidc_state=state-hash' },
+      };
+      const res = { clearCookie: jest.fn() };
+
+      // Act
+      const result = await controller.completeOidcLogin(
+        'google',
+        req as unknown as ExpressRequest,
+        res as unknown as ExpressResponse,
+        'code',
+        'state',
+      );
+
+      // Assert
+      expect(result).toBe(loginResponse);
+      expect(mockAuthService.completeOidcLogin).toHaveBeenCalledWith('google', {
+        code: 'code',
+        state: 'state',
+        error: undefined,
+        stateHash: 'state-hash',
+      });
+      expect(res.clearCookie).toHaveBeenCalledWith('oidc_state', {
+        httpOnly: true,
+        secure: false,
+        sameSite: 'lax',
+      });
+    });
   });
 });
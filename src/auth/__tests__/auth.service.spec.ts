@@ -3,6 +3,12 @@ import {
   UnauthorizedException,
   ForbiddenException,
   InternalServerErrorException,
+  BadRequestException,
+  NotFoundException,
+  ConflictException,
+  HttpException,
+  HttpStatus,
+  Logger,
 } from '@nestjs/common';
 import { ConfigService } from '@nestjs/config';
 import { I18nService, I18nContext } from 'nestjs-i18n';
@@ -10,7 +16,24 @@ import { AuthService } from '../auth.service';
 import { UsersService } from '../../users/users.service';
 import { UserAuthenticationService } from '../../users/services/user-authentication.service';
 import { TokenService } from '../services/token.service';
+import { SessionService } from '../services/session.service';
+import { TokenRevocationService } from '../services/token-revocation.service';
+import { VerificationTokenService } from '../services/verification-token.service';
+import { LoginThrottleService } from '../services/login-throttle.service';
+import { MfaService } from '../services/mfa.service';
+import { ApiKeyService } from '../services/api-key.service';
+import { OAuthClientService } from '../services/oauth-client.service';
+import { OAuthClientDocument } from '../schemas/oauth-client.schema';
+import { OidcService } from '../services/oidc.service';
+import { ExternalIdentityService } from '../services/external-identity.service';
+import { ExternalIdentityDocument } from '../schemas/external-identity.schema';
+import { OAuthException } from '../exceptions';
+import { SessionRevocationReason, VerificationTokenPurpose } from '../enums';
+import { MailerService } from '../../mailer/mailer.service';
+import { MailTemplate } from '../../mailer/enums';
+import { ActivityLogService } from '../../activity-log/activity-log.service';
 import { UserDocument } from '../../users/schemas/user.schema';
+import { UserStatus } from '../../users/enums';
 import {
   // Import the correct function name
   createMockI18nService,
@@ -22,6 +45,17 @@ describe('AuthService', () => {
   let usersService: UsersService;
   let userAuthService: UserAuthenticationService;
   let tokenService: TokenService;
+  let sessionService: SessionService;
+  let tokenRevocationService: TokenRevocationService;
+  let verificationTokenService: VerificationTokenService;
+  let loginThrottleService: LoginThrottleService;
+  let mfaService: MfaService;
+  let apiKeyService: ApiKeyService;
+  let oauthClientService: OAuthClientService;
+  let oidcService: OidcService;
+  let externalIdentityService: ExternalIdentityService;
+  let mailerService: MailerService;
+  let activityLogService: ActivityLogService;
   let _i18nService: I18nService; // Prefixed with underscore to indicate intentionally unused
   let configService: ConfigService;
 
@@ -30,13 +64,11 @@ describe('AuthService', () => {
     email: 'test@example.com',
     name: 'Test User',
     password_hash: 'hashed_password',
-    hashedRefreshToken: 'hashed_refresh_token',
     toObject: jest.fn().mockReturnValue({
       _id: 'user-id',
       email: 'test@example.com',
       name: 'Test User',
       password_hash: 'hashed_password',
-      hashedRefreshToken: 'hashed_refresh_token',
     }),
   } as unknown as UserDocument;
 
@@ -51,18 +83,108 @@ describe('AuthService', () => {
     const mockUsersService = {
       findOneByEmail: jest.fn(),
       findUserByIdForAuth: jest.fn(),
-      setCurrentRefreshToken: jest.fn(),
       findById: jest.fn(),
+      incrementTokenVersion: jest.fn(),
+      create: jest.fn(),
+      register: jest.fn(),
+      markEmailVerified: jest.fn(),
+      updatePassword: jest.fn(),
+      assertPasswordNotReused: jest.fn(),
+      setPendingEmail: jest.fn(),
+      applyPendingEmail: jest.fn(),
+      clearPendingEmail: jest.fn().mockResolvedValue(false),
     };
 
     const mockUserAuthService = {
+      hashPassword: jest.fn().mockResolvedValue('dummy_hash'),
       comparePasswords: jest.fn(),
-      validateRefreshToken: jest.fn(),
+      hashRefreshToken: jest.fn().mockReturnValue('hashed_refresh_token'),
+      compareRefreshToken: jest.fn(),
+      upgradePasswordHash: jest.fn().mockResolvedValue(false),
     };
 
     const mockTokenService = {
       generateAccessToken: jest.fn(),
       generateRefreshToken: jest.fn(),
+      verifyRefreshToken: jest.fn(),
+      generateMfaToken: jest.fn().mockReturnValue('mfa-token'),
+      getMfaTokenExpiresIn: jest.fn().mockReturnValue(300),
+      verifyMfaToken: jest.fn(),
+      generateClientAccessToken: jest.fn().mockReturnValue('client-token'),
+      getClientTokenExpiresIn: jest.fn().mockReturnValue(3600),
+      generateImpersonationToken: jest
+        .fn()
+        .mockReturnValue('impersonation-token'),
+      getImpersonationTokenExpiresIn: jest.fn().mockReturnValue(900),
+      generateElevatedAccessToken: jest.fn().mockReturnValue('elevated-token'),
+      getElevatedTokenExpiresIn: jest.fn().mockReturnValue(300),
+    };
+
+    const mockSessionService = {
+      create: jest.fn(),
+      findByFamilyId: jest.fn(),
+      rotate: jest.fn(),
+      revokeFamily: jest.fn(),
+      revokeAllForUser: jest.fn(),
+      findActiveByUser: jest.fn(),
+      revokeById: jest.fn(),
+      revokeOthers: jest.fn(),
+    };
+
+    const mockTokenRevocationService = {
+      revoke: jest.fn(),
+    };
+
+    const mockVerificationTokenService = {
+      issue: jest.fn().mockResolvedValue('verification-token'),
+      peek: jest.fn(),
+      consume: jest.fn(),
+      invalidateAll: jest.fn(),
+    };
+
+    const mockLoginThrottleService = {
+      assertNotLocked: jest.fn(),
+      recordFailure: jest.fn(),
+      recordSuccess: jest.fn(),
+    };
+
+    const mockMfaService = {
+      isEnabled: jest.fn().mockResolvedValue(false),
+      verify: jest.fn(),
+      startEnrollment: jest.fn(),
+      confirmEnrollment: jest.fn(),
+    };
+
+    const mockApiKeyService = {
+      create: jest.fn(),
+      findActiveByUser: jest.fn(),
+      revoke: jest.fn(),
+    };
+
+    const mockOAuthClientService = {
+      create: jest.fn(),
+      findAll: jest.fn(),
+      disable: jest.fn(),
+      authenticate: jest.fn(),
+    };
+
+    const mockOidcService = {
+      createAuthorizationUrl: jest.fn(),
+      handleCallback: jest.fn(),
+    };
+
+    const mockExternalIdentityService = {
+      findByProviderSubject: jest.fn().mockResolvedValue(null),
+      link: jest.fn(),
+      recordLogin: jest.fn(),
+    };
+
+    const mockMailerService = {
+      sendTemplate: jest.fn(),
+    };
+
+    const mockActivityLogService = {
+      logEvent: jest.fn(),
     };
 
     // Mock I18nContext.current()
@@ -89,6 +211,50 @@ describe('AuthService', () => {
           provide: TokenService,
           useValue: mockTokenService,
         },
+        {
+          provide: SessionService,
+          useValue: mockSessionService,
+        },
+        {
+          provide: TokenRevocationService,
+          useValue: mockTokenRevocationService,
+        },
+        {
+          provide: VerificationTokenService,
+          useValue: mockVerificationTokenService,
+        },
+        {
+          provide: LoginThrottleService,
+          useValue: mockLoginThrottleService,
+        },
+        {
+          provide: MfaService,
+          useValue: mockMfaService,
+        },
+        {
+          provide: ApiKeyService,
+          useValue: mockApiKeyService,
+        },
+        {
+          provide: OAuthClientService,
+          useValue: mockOAuthClientService,
+        },
+        {
+          provide: OidcService,
+          useValue: mockOidcService,
+        },
+        {
+          provide: ExternalIdentityService,
+          useValue: mockExternalIdentityService,
+        },
+        {
+          provide: MailerService,
+          useValue: mockMailerService,
+        },
+        {
+          provide: ActivityLogService,
+          useValue: mockActivityLogService,
+        },
         {
           provide: I18nService,
           useValue: createMockI18nService(),
@@ -108,6 +274,24 @@ describe('AuthService', () => {
       UserAuthenticationService,
     );
     tokenService = module.get<TokenService>(TokenService);
+    sessionService = module.get<SessionService>(SessionService);
+    tokenRevocationService = module.get<TokenRevocationService>(
+      TokenRevocationService,
+    );
+    verificationTokenService = module.get<VerificationTokenService>(
+      VerificationTokenService,
+    );
+    loginThrottleService =
+      module.get<LoginThrottleService>(LoginThrottleService);
+    mfaService = module.get<MfaService>(MfaService);
+    apiKeyService = module.get<ApiKeyService>(ApiKeyService);
+    oauthClientService = module.get<OAuthClientService>(OAuthClientService);
+    oidcService = module.get<OidcService>(OidcService);
+    externalIdentityService = module.get<ExternalIdentityService>(
+      ExternalIdentityService,
+    );
+    mailerService = module.get<MailerService>(MailerService);
+    activityLogService = module.get<ActivityLogService>(ActivityLogService);
     _i18nService = module.get<I18nService>(I18nService);
     configService = module.get<ConfigService>(ConfigService);
   });
@@ -149,6 +333,124 @@ describe('AuthService', () => {
       );
       expect(result).not.toHaveProperty('password_hash');
       expect(result).not.toHaveProperty('hashedRefreshToken');
+      expect(
+        jest.spyOn(loginThrottleService, 'recordSuccess'),
+      ).toHaveBeenCalledWith('test@example.com');
+    });
+
+    it('should upgrade the password hash after a successful login', async () => {
+      // Arrange
+      jest.spyOn(usersService, 'findOneByEmail').mockResolvedValue(mockUser);
+      jest.spyOn(userAuthService, 'comparePasswords').mockResolvedValue(true);
+
+      // Act
+      await service.validateUser('test@example.com', 'password');
+
+      // Assert
+      expect(
+        jest.spyOn(userAuthService, 'upgradePasswordHash'),
+      ).toHaveBeenCalledWith('user-id', 'password', 'hashed_password');
+    });
+
+    it('should not fail the login when the password hash cannot be upgraded', async () => {
+      // Arrange
+      jest.spyOn(usersService, 'findOneByEmail').mockResolvedValue(mockUser);
+      jest.spyOn(userAuthService, 'comparePasswords').mockResolvedValue(true);
+      jest
+        .spyOn(userAuthService, 'upgradePasswordHash')
+        .mockRejectedValueOnce(new Error('Database error'));
+      const loggerSpy = jest
+        .spyOn(Logger.prototype, 'error')
+        .mockImplementation(() => {});
+
+      // Act
+      const result = await service.validateUser('test@example.com', 'password');
+
+      // Assert
+      expect(result).toEqual(
+        expect.objectContaining({ email: 'test@example.com' }),
+      );
+      expect(loggerSpy).toHaveBeenCalled();
+
+      // Clean up
+      loggerSpy.mockRestore();
+    });
+
+    it('should not upgrade the password hash when the password does not match', async () => {
+      // Arrange
+      jest.spyOn(usersService, 'findOneByEmail').mockResolvedValue(mockUser);
+      jest.spyOn(userAuthService, 'comparePasswords').mockResolvedValue(false);
+
+      // Act & Assert
+      await expect(
+        service.validateUser('test@example.com', 'wrong_password'),
+      ).rejects.toThrow(UnauthorizedException);
+      expect(
+        jest.spyOn(userAuthService, 'upgradePasswordHash'),
+      ).not.toHaveBeenCalled();
+    });
+
+    it('should count the failure and log LOGIN_FAILURE when the password does not match', async () => {
+      // Arrange
+      jest.spyOn(usersService, 'findOneByEmail').mockResolvedValue(mockUser);
+      jest.spyOn(userAuthService, 'comparePasswords').mockResolvedValue(false);
+
+      // Act & Assert
+      await expect(
+        service.validateUser('test@example.com', 'wrong_password', '10.0.0.1'),
+      ).rejects.toThrow(UnauthorizedException);
+      expect(
+        jest.spyOn(loginThrottleService, 'recordFailure'),
+      ).toHaveBeenCalledWith('test@example.com', '10.0.0.1');
+      expect(jest.spyOn(activityLogService, 'logEvent')).toHaveBeenCalledWith(
+        expect.objectContaining({
+          userId: 'user-id',
+          actionType: 'LOGIN_FAILURE',
+          username: 'test@example.com',
+          operationStatus: 'FAILURE',
+        }),
+      );
+    });
+
+    it('should log LOGIN_FAILURE without a user for an unknown email', async () => {
+      // Arrange
+      jest.spyOn(usersService, 'findOneByEmail').mockResolvedValue(null);
+
+      // Act & Assert
+      await expect(
+        service.validateUser('nobody@example.com', 'password', '10.0.0.1'),
+      ).rejects.toThrow(UnauthorizedException);
+      expect(
+        jest.spyOn(loginThrottleService, 'recordFailure'),
+      ).toHaveBeenCalledWith('nobody@example.com', '10.0.0.1');
+      expect(jest.spyOn(activityLogService, 'logEvent')).toHaveBeenCalledWith(
+        expect.objectContaining({
+          userId: undefined,
+          actionType: 'LOGIN_FAILURE',
+          username: 'nobody@example.com',
+        }),
+      );
+    });
+
+    it('should refuse the login without checking the password while locked', async () => {
+      // Arrange
+      jest
+        .spyOn(loginThrottleService, 'assertNotLocked')
+        .mockRejectedValue(
+          new HttpException(
+            { message: 'locked', retryAfter: 60 },
+            HttpStatus.TOO_MANY_REQUESTS,
+          ),
+        );
+
+      // Act & Assert
+      await expect(
+        service.validateUser('test@example.com', 'password', '10.0.0.1'),
+      ).rejects.toThrow(HttpException);
+      expect(jest.spyOn(usersService, 'findOneByEmail')).not.toHaveBeenCalled();
+      expect(
+        jest.spyOn(userAuthService, 'comparePasswords'),
+      ).not.toHaveBeenCalled();
     });
 
     it('should throw UnauthorizedException when user is not found', async () => {
@@ -161,6 +463,10 @@ describe('AuthService', () => {
       ).rejects.toThrow(UnauthorizedException);
       const findOneByEmailSpy = jest.spyOn(usersService, 'findOneByEmail');
       expect(findOneByEmailSpy).toHaveBeenCalledWith('nonexistent@example.com');
+      // A password is still checked, so the response time does not reveal unknown emails
+      expect(
+        jest.spyOn(userAuthService, 'comparePasswords'),
+      ).toHaveBeenCalledWith('password', 'dummy_hash');
     });
 
     it('should throw UnauthorizedException when password does not match', async () => {
@@ -206,7 +512,49 @@ describe('AuthService', () => {
     });
   });
 
+  describe('validateUser with email verification required', () => {
+    beforeEach(() => {
+      jest
+        .spyOn(configService, 'get')
+        .mockImplementation((key: string, defaultValue?: unknown) =>
+          key === 'EMAIL_VERIFICATION_REQUIRED' ? 'true' : defaultValue,
+        );
+      jest.spyOn(userAuthService, 'comparePasswords').mockResolvedValue(true);
+    });
+
+    it('should throw ForbiddenException when the email is not verified', async () => {
+      // Arrange
+      jest.spyOn(usersService, 'findOneByEmail').mockResolvedValue({
+        ...mockUser,
+        emailVerified: false,
+      } as unknown as UserDocument);
+
+      // Act & Assert
+      await expect(
+        service.validateUser('test@example.com', 'password'),
+      ).rejects.toThrow(ForbiddenException);
+    });
+
+    it('should accept accounts with a verified email', async () => {
+      // Arrange
+      jest.spyOn(usersService, 'findOneByEmail').mockResolvedValue({
+        ...mockUser,
+        emailVerified: true,
+      } as unknown as UserDocument);
+
+      // Act
+      const result = await service.validateUser('test@example.com', 'password');
+
+      // Assert
+      expect(result).toEqual(
+        expect.objectContaining({ email: 'test@example.com' }),
+      );
+    });
+  });
+
   describe('getTokens', () => {
+    const session = { familyId: 'family-id', tokenId: 'token-id' };
+
     it('should return tokens when user exists', async () => {
       // Arrange
       jest
@@ -220,7 +568,11 @@ describe('AuthService', () => {
         .mockReturnValue('refresh_token');
 
       // Act
-      const result = await service.getTokens('user-id', 'test@example.com');
+      const result = await service.getTokens(
+        'user-id',
+        'test@example.com',
+        session,
+      );
 
       // Assert
       const findUserByIdForAuthSpy = jest.spyOn(
@@ -232,12 +584,16 @@ describe('AuthService', () => {
         tokenService,
         'generateAccessToken',
       );
-      expect(generateAccessTokenSpy).toHaveBeenCalledWith(mockUser);
+      expect(generateAccessTokenSpy).toHaveBeenCalledWith(
+        mockUser,
+        'family-id',
+        undefined,
+      );
       const generateRefreshTokenSpy = jest.spyOn(
         tokenService,
         'generateRefreshToken',
       );
-      expect(generateRefreshTokenSpy).toHaveBeenCalledWith(mockUser);
+      expect(generateRefreshTokenSpy).toHaveBeenCalledWith(mockUser, session);
       expect(result).toEqual({
         access_token: 'access_token',
         refresh_token: 'refresh_token',
@@ -251,7 +607,7 @@ describe('AuthService', () => {
 
       // Act & Assert
       await expect(
-        service.getTokens('nonexistent-id', 'test@example.com'),
+        service.getTokens('nonexistent-id', 'test@example.com', session),
       ).rejects.toThrow(UnauthorizedException);
       const findUserByIdForAuthSpy = jest.spyOn(
         usersService,
@@ -260,26 +616,41 @@ describe('AuthService', () => {
       expect(findUserByIdForAuthSpy).toHaveBeenCalledWith('nonexistent-id');
     });
 
+    it('should throw UnauthorizedException when the user is suspended', async () => {
+      // Arrange
+      jest.spyOn(usersService, 'findUserByIdForAuth').mockResolvedValue({
+        ...mockUser,
+        status: UserStatus.SUSPENDED,
+      } as UserDocument);
+
+      // Act & Assert
+      await expect(
+        service.getTokens('user-id', 'test@example.com', session),
+      ).rejects.toThrow(UnauthorizedException);
+      expect(
+        jest.spyOn(tokenService, 'generateAccessToken'),
+      ).not.toHaveBeenCalled();
+    });
+
     it('should throw InternalServerErrorException when access token expiration is invalid', async () => {
       // Arrange
       jest.spyOn(configService, 'get').mockReturnValue('invalid');
 
       // Act & Assert
       await expect(
-        service.getTokens('user-id', 'test@example.com'),
+        service.getTokens('user-id', 'test@example.com', session),
       ).rejects.toThrow(InternalServerErrorException);
     });
   });
 
   describe('login', () => {
-    it('should return login response with tokens and user info', async () => {
+    it('should start a new session and return tokens and user info', async () => {
       // Arrange
       jest.spyOn(service, 'getTokens').mockResolvedValue({
         access_token: 'access_token',
         refresh_token: 'refresh_token',
         expires_in: 3600,
       });
-      jest.spyOn(usersService, 'setCurrentRefreshToken').mockResolvedValue();
 
       // Act
       // Create a properly typed user object for the login method
@@ -290,15 +661,25 @@ describe('AuthService', () => {
 
       // Assert
       const getTokensSpy = jest.spyOn(service, 'getTokens');
-      expect(getTokensSpy).toHaveBeenCalledWith('user-id', 'test@example.com');
-      const setCurrentRefreshTokenSpy = jest.spyOn(
-        usersService,
-        'setCurrentRefreshToken',
-      );
-      expect(setCurrentRefreshTokenSpy).toHaveBeenCalledWith(
+      expect(getTokensSpy).toHaveBeenCalledWith('user-id', 'test@example.com', {
+        familyId: expect.any(String) as string,
+        tokenId: expect.any(String) as string,
+      });
+      const [, , session] = getTokensSpy.mock.calls[0];
+      expect(
+        jest.spyOn(userAuthService, 'hashRefreshToken'),
+      ).toHaveBeenCalledWith('refresh_token');
+      expect(jest.spyOn(sessionService, 'create')).toHaveBeenCalledWith(
         'user-id',
-        'refresh_token',
+        session.familyId,
+        { tokenId: session.tokenId, refreshTokenHash: 'hashed_refresh_token' },
       );
+      expect(jest.spyOn(activityLogService, 'logEvent')).toHaveBeenCalledWith({
+        userId: 'user-id',
+        actionType: 'LOGIN_SUCCESS',
+        username: 'test@example.com',
+        resource: { type: 'Session', id: session.familyId },
+      });
       // Use a type for the expected result to avoid unsafe assignment
       type LoginResponse = {
         message: string;
@@ -327,164 +708,308 @@ describe('AuthService', () => {
 
       expect(result).toEqual(expectedResponse);
     });
+
+    it('should return an MFA challenge instead of tokens when MFA is enabled', async () => {
+      // Arrange
+      jest.spyOn(mfaService, 'isEnabled').mockResolvedValue(true);
+      const getTokensSpy = jest.spyOn(service, 'getTokens');
+
+      // Act
+      const result = await service.login(
+        mockUserWithoutSensitiveFields as Omit<
+          UserDocument,
+          'password_hash' | 'hashedRefreshToken'
+        >,
+      );
+
+      // Assert
+      expect(result).toEqual({
+        message: 'translated:translation.AUTH.MFA_REQUIRED',
+        mfa_required: true,
+        mfa_token: 'mfa-token',
+        expires_in: 300,
+      });
+      expect(getTokensSpy).not.toHaveBeenCalled();
+      expect(jest.spyOn(sessionService, 'create')).not.toHaveBeenCalled();
+    });
   });
 
-  describe('refreshToken', () => {
-    it('should return new tokens when refresh token is valid', async () => {
+  describe('verifyMfa', () => {
+    beforeEach(() => {
+      jest.spyOn(tokenService, 'verifyMfaToken').mockReturnValue({
+        sub: 'user-id',
+        username: 'test@example.com',
+        tokenType: 'mfa',
+      });
+      jest.spyOn(usersService, 'findById').mockResolvedValue(mockUser);
+    });
+
+    it('should start a session when the code is valid', async () => {
       // Arrange
-      jest
-        .spyOn(usersService, 'findUserByIdForAuth')
-        .mockResolvedValue(mockUser);
-      jest
-        .spyOn(userAuthService, 'validateRefreshToken')
-        .mockResolvedValue(true);
+      jest.spyOn(mfaService, 'verify').mockResolvedValue('totp');
       jest.spyOn(service, 'getTokens').mockResolvedValue({
-        access_token: 'new_access_token',
-        refresh_token: 'new_refresh_token',
+        access_token: 'access_token',
+        refresh_token: 'refresh_token',
         expires_in: 3600,
       });
-      jest.spyOn(usersService, 'setCurrentRefreshToken').mockResolvedValue();
 
       // Act
-      const result = await service.refreshToken('user-id', 'refresh_token');
+      const result = await service.verifyMfa('mfa-token', '123456', '10.0.0.1');
 
       // Assert
-      const findUserByIdForAuthSpy = jest.spyOn(
-        usersService,
-        'findUserByIdForAuth',
-      );
-      expect(findUserByIdForAuthSpy).toHaveBeenCalledWith('user-id');
-      const validateRefreshTokenSpy = jest.spyOn(
-        userAuthService,
-        'validateRefreshToken',
-      );
-      expect(validateRefreshTokenSpy).toHaveBeenCalledWith(
-        'refresh_token',
+      expect(jest.spyOn(mfaService, 'verify')).toHaveBeenCalledWith(
         'user-id',
+        'test@example.com',
+        '123456',
       );
-      const getTokensSpy = jest.spyOn(service, 'getTokens');
-      expect(getTokensSpy).toHaveBeenCalledWith('user-id', 'test@example.com');
-      const setCurrentRefreshTokenSpy = jest.spyOn(
-        usersService,
-        'setCurrentRefreshToken',
-      );
-      expect(setCurrentRefreshTokenSpy).toHaveBeenCalledWith(
-        'user-id',
-        'new_refresh_token',
+      expect(
+        jest.spyOn(loginThrottleService, 'recordSuccess'),
+      ).toHaveBeenCalledWith('test@example.com');
+      expect(jest.spyOn(sessionService, 'create')).toHaveBeenCalled();
+      expect(result).toEqual(
+        expect.objectContaining({
+          access_token: 'access_token',
+          refresh_token: 'refresh_token',
+        }),
       );
-      // Use a type for the expected result to avoid unsafe assignment
-      type RefreshTokenResponse = {
-        message: string;
-        access_token: string;
-        refresh_token: string;
-        expires_in: number;
-      };
-
-      // Using a string literal for message to avoid unsafe assignment
-      const expectedResponse: RefreshTokenResponse = {
-        message: 'translated:translation.AUTH.REFRESH_SUCCESS', // Match the translated message
-        access_token: 'new_access_token',
-        refresh_token: 'new_refresh_token',
-        expires_in: 3600,
-      };
-
-      expect(result).toEqual(expectedResponse);
     });
 
-    it('should throw ForbiddenException when user is not found', async () => {
+    it('should count a wrong code as a failed login', async () => {
       // Arrange
-      jest.spyOn(usersService, 'findUserByIdForAuth').mockResolvedValue(null);
+      jest.spyOn(mfaService, 'verify').mockResolvedValue(null);
 
       // Act & Assert
       await expect(
-        service.refreshToken('nonexistent-id', 'refresh_token'),
-      ).rejects.toThrow(ForbiddenException);
-      const findUserByIdForAuthSpy = jest.spyOn(
-        usersService,
-        'findUserByIdForAuth',
-      );
-      expect(findUserByIdForAuthSpy).toHaveBeenCalledWith('nonexistent-id');
+        service.verifyMfa('mfa-token', '000000', '10.0.0.1'),
+      ).rejects.toThrow(UnauthorizedException);
+      expect(
+        jest.spyOn(loginThrottleService, 'recordFailure'),
+      ).toHaveBeenCalledWith('test@example.com', '10.0.0.1');
+      expect(jest.spyOn(sessionService, 'create')).not.toHaveBeenCalled();
     });
 
-    it('should throw ForbiddenException when user has no stored refresh token', async () => {
+    it('should refuse the code while the account is locked', async () => {
       // Arrange
-      const userWithoutRefreshToken = {
-        _id: 'user-id',
-        email: 'test@example.com',
-        name: 'Test User',
-        password_hash: 'hashed_password',
-        hashedRefreshToken: null,
-        toObject: jest.fn().mockReturnValue({
-          _id: 'user-id',
-          email: 'test@example.com',
-          name: 'Test User',
-          password_hash: 'hashed_password',
-          hashedRefreshToken: null,
-        }),
-      } as unknown as UserDocument;
-
       jest
-        .spyOn(usersService, 'findUserByIdForAuth')
-        .mockResolvedValue(userWithoutRefreshToken);
+        .spyOn(loginThrottleService, 'assertNotLocked')
+        .mockRejectedValue(
+          new HttpException('locked', HttpStatus.TOO_MANY_REQUESTS),
+        );
 
       // Act & Assert
       await expect(
-        service.refreshToken('user-id', 'refresh_token'),
-      ).rejects.toThrow(ForbiddenException);
-      const findUserByIdForAuthSpy = jest.spyOn(
-        usersService,
-        'findUserByIdForAuth',
-      );
-      expect(findUserByIdForAuthSpy).toHaveBeenCalledWith('user-id');
+        service.verifyMfa('mfa-token', '123456', '10.0.0.1'),
+      ).rejects.toThrow(HttpException);
+      expect(jest.spyOn(mfaService, 'verify')).not.toHaveBeenCalled();
     });
 
-    it('should throw ForbiddenException when refresh token is invalid', async () => {
+    it('should throw UnauthorizedException for an invalid MFA token', async () => {
       // Arrange
-      jest
-        .spyOn(usersService, 'findUserByIdForAuth')
-        .mockResolvedValue(mockUser);
-      jest
-        .spyOn(userAuthService, 'validateRefreshToken')
-        .mockResolvedValue(false);
+      jest.spyOn(tokenService, 'verifyMfaToken').mockReturnValue(null);
 
       // Act & Assert
-      await expect(
-        service.refreshToken('user-id', 'invalid_refresh_token'),
-      ).rejects.toThrow(ForbiddenException);
-      const findUserByIdForAuthSpy = jest.spyOn(
-        usersService,
-        'findUserByIdForAuth',
-      );
-      expect(findUserByIdForAuthSpy).toHaveBeenCalledWith('user-id');
-      const validateRefreshTokenSpy = jest.spyOn(
-        userAuthService,
-        'validateRefreshToken',
-      );
-      expect(validateRefreshTokenSpy).toHaveBeenCalledWith(
-        'invalid_refresh_token',
-        'user-id',
+      await expect(service.verifyMfa('bad-token', '123456')).rejects.toThrow(
+        UnauthorizedException,
       );
+      expect(jest.spyOn(mfaService, 'verify')).not.toHaveBeenCalled();
     });
   });
 
-  describe('logout', () => {
-    it('should clear refresh token and return success message', async () => {
-      // Arrange
-      jest.spyOn(usersService, 'setCurrentRefreshToken').mockResolvedValue();
-
-      // Act
-      const result = await service.logout('user-id');
-
-      // Assert
-      const setCurrentRefreshTokenSpy = jest.spyOn(
-        usersService,
-        'setCurrentRefreshToken',
-      );
-      expect(setCurrentRefreshTokenSpy).toHaveBeenCalledWith('user-id', null);
-      // Use a type for the expected result to avoid unsafe assignment
-      type LogoutResponse = {
-        message: string;
-      };
+  describe('refreshToken', () => {
+    const mockSession = {
+      userId: 'user-id',
+      familyId: 'family-id',
+      currentTokenId: 'token-id',
+      refreshTokenHash: 'hashed_refresh_token',
+      revokedAt: null,
+      createdAt: new Date('2026-01-01T00:00:00.000Z'),
+    };
+
+    beforeEach(() => {
+      jest.spyOn(tokenService, 'verifyRefreshToken').mockReturnValue({
+        username: 'test@example.com',
+        sub: 'user-id',
+        tokenType: 'refresh',
+        fam: 'family-id',
+        jti: 'token-id',
+      });
+      jest
+        .spyOn(sessionService, 'findByFamilyId')
+        .mockResolvedValue(mockSession as never);
+      jest
+        .spyOn(usersService, 'findUserByIdForAuth')
+        .mockResolvedValue(mockUser);
+      jest
+        .spyOn(userAuthService, 'compareRefreshToken')
+        .mockResolvedValue(true);
+      jest.spyOn(service, 'getTokens').mockResolvedValue({
+        access_token: 'new_access_token',
+        refresh_token: 'new_refresh_token',
+        expires_in: 3600,
+      });
+    });
+
+    it('should rotate the refresh token and return new tokens', async () => {
+      // Arrange
+      jest
+        .spyOn(sessionService, 'rotate')
+        .mockResolvedValue(mockSession as never);
+
+      // Act
+      const result = await service.refreshToken('user-id', 'refresh_token');
+
+      // Assert
+      expect(jest.spyOn(sessionService, 'findByFamilyId')).toHaveBeenCalledWith(
+        'family-id',
+      );
+      expect(
+        jest.spyOn(userAuthService, 'compareRefreshToken'),
+      ).toHaveBeenCalledWith('refresh_token', 'hashed_refresh_token');
+      const getTokensSpy = jest.spyOn(service, 'getTokens');
+      expect(getTokensSpy).toHaveBeenCalledWith(
+        'user-id',
+        'test@example.com',
+        {
+          familyId: 'family-id',
+          tokenId: expect.any(String) as string,
+        },
+        mockSession.createdAt,
+      );
+      const [, , session] = getTokensSpy.mock.calls[0];
+      expect(session.tokenId).not.toBe('token-id');
+      expect(jest.spyOn(activityLogService, 'logEvent')).toHaveBeenCalledWith(
+        expect.objectContaining({
+          actionType: 'TOKEN_REFRESH',
+          resource: { type: 'Session', id: 'family-id' },
+        }),
+      );
+      expect(jest.spyOn(sessionService, 'rotate')).toHaveBeenCalledWith(
+        'family-id',
+        'token-id',
+        { tokenId: session.tokenId, refreshTokenHash: 'hashed_refresh_token' },
+      );
+      expect(result).toEqual({
+        message: 'translated:translation.AUTH.REFRESH_SUCCESS',
+        access_token: 'new_access_token',
+        refresh_token: 'new_refresh_token',
+        expires_in: 3600,
+      });
+    });
+
+    it('should throw ForbiddenException when the token has no session claims', async () => {
+      // Arrange
+      jest.spyOn(tokenService, 'verifyRefreshToken').mockReturnValue(null);
+
+      // Act & Assert
+      await expect(
+        service.refreshToken('user-id', 'refresh_token'),
+      ).rejects.toThrow(ForbiddenException);
+      expect(jest.spyOn(sessionService, 'rotate')).not.toHaveBeenCalled();
+    });
+
+    it('should throw ForbiddenException when the session belongs to another user', async () => {
+      // Act & Assert
+      await expect(
+        service.refreshToken('other-user-id', 'refresh_token'),
+      ).rejects.toThrow(ForbiddenException);
+      expect(jest.spyOn(sessionService, 'rotate')).not.toHaveBeenCalled();
+    });
+
+    it('should throw ForbiddenException when the session is revoked', async () => {
+      // Arrange
+      jest
+        .spyOn(sessionService, 'findByFamilyId')
+        .mockResolvedValue({ ...mockSession, revokedAt: new Date() } as never);
+
+      // Act & Assert
+      await expect(
+        service.refreshToken('user-id', 'refresh_token'),
+      ).rejects.toThrow(ForbiddenException);
+      expect(jest.spyOn(sessionService, 'revokeFamily')).not.toHaveBeenCalled();
+    });
+
+    it('should throw ForbiddenException when user is not found', async () => {
+      // Arrange
+      jest.spyOn(usersService, 'findUserByIdForAuth').mockResolvedValue(null);
+
+      // Act & Assert
+      await expect(
+        service.refreshToken('user-id', 'refresh_token'),
+      ).rejects.toThrow(ForbiddenException);
+    });
+
+    it('should revoke the family and log a security event when a rotated token is reused', async () => {
+      // Arrange
+      jest.spyOn(sessionService, 'findByFamilyId').mockResolvedValue({
+        ...mockSession,
+        currentTokenId: 'newer-token-id',
+      } as never);
+
+      // Act & Assert
+      await expect(
+        service.refreshToken('user-id', 'refresh_token'),
+      ).rejects.toThrow(ForbiddenException);
+      expect(jest.spyOn(sessionService, 'revokeFamily')).toHaveBeenCalledWith(
+        'family-id',
+        SessionRevocationReason.TOKEN_REUSE,
+      );
+      expect(jest.spyOn(activityLogService, 'logEvent')).toHaveBeenCalledWith(
+        expect.objectContaining({
+          userId: 'user-id',
+          actionType: 'REFRESH_TOKEN_REUSE',
+          resource: { type: 'Session', id: 'family-id' },
+          operationStatus: 'FAILURE',
+        }),
+      );
+      expect(jest.spyOn(service, 'getTokens')).not.toHaveBeenCalled();
+    });
+
+    it('should treat a token rotated concurrently as reused', async () => {
+      // Arrange
+      jest.spyOn(sessionService, 'rotate').mockResolvedValue(null);
+
+      // Act & Assert
+      await expect(
+        service.refreshToken('user-id', 'refresh_token'),
+      ).rejects.toThrow(ForbiddenException);
+      expect(jest.spyOn(sessionService, 'revokeFamily')).toHaveBeenCalledWith(
+        'family-id',
+        SessionRevocationReason.TOKEN_REUSE,
+      );
+    });
+  });
+
+  describe('logout', () => {
+    it('should revoke the current session and return success message', async () => {
+      // Arrange
+      jest
+        .spyOn(usersService, 'findById')
+        .mockResolvedValue(
+          mockUserWithoutSensitiveFields as unknown as UserDocument,
+        );
+
+      // Act
+      const result = await service.logout('user-id', 'family-id');
+
+      // Assert
+      expect(jest.spyOn(sessionService, 'revokeFamily')).toHaveBeenCalledWith(
+        'family-id',
+        SessionRevocationReason.LOGOUT,
+      );
+      expect(
+        jest.spyOn(sessionService, 'revokeAllForUser'),
+      ).not.toHaveBeenCalled();
+      expect(jest.spyOn(activityLogService, 'logEvent')).toHaveBeenCalledWith({
+        userId: 'user-id',
+        actionType: 'LOGOUT',
+        username: 'test@example.com',
+        resource: { type: 'Session', id: 'family-id' },
+        metadata: { allSessions: false },
+      });
+      // Use a type for the expected result to avoid unsafe assignment
+      type LogoutResponse = {
+        message: string;
+      };
 
       // Using a string literal for message to avoid unsafe assignment
       const expectedResponse: LogoutResponse = {
@@ -493,5 +1018,1405 @@ describe('AuthService', () => {
 
       expect(result).toEqual(expectedResponse);
     });
+
+    it('should revoke all sessions when the token carries no session', async () => {
+      // Arrange
+      jest.spyOn(sessionService, 'revokeAllForUser').mockResolvedValue(2);
+
+      // Act
+      await service.logout('user-id');
+
+      // Assert
+      expect(
+        jest.spyOn(sessionService, 'revokeAllForUser'),
+      ).toHaveBeenCalledWith('user-id', SessionRevocationReason.LOGOUT);
+    });
+
+    it('should revoke the access token used to log out', async () => {
+      // Act
+      await service.logout('user-id', 'family-id', {
+        jti: 'token-id',
+        exp: 1700000000,
+      });
+
+      // Assert
+      expect(jest.spyOn(tokenRevocationService, 'revoke')).toHaveBeenCalledWith(
+        'token-id',
+        1700000000,
+      );
+    });
+  });
+
+  describe('register', () => {
+    it('should create an unverified user and email the verification link', async () => {
+      // Arrange
+      const createUserDto = {
+        name: 'Test User',
+        email: 'test@example.com',
+        password: 'password123',
+        password_confirmation: 'password123',
+      };
+      jest
+        .spyOn(usersService, 'register')
+        .mockResolvedValue(
+          mockUserWithoutSensitiveFields as unknown as UserDocument,
+        );
+
+      // Act
+      const result = await service.register(createUserDto);
+
+      // Assert
+      expect(jest.spyOn(usersService, 'register')).toHaveBeenCalledWith(
+        createUserDto,
+      );
+      expect(
+        jest.spyOn(verificationTokenService, 'issue'),
+      ).toHaveBeenCalledWith(
+        'user-id',
+        VerificationTokenPurpose.EMAIL_VERIFICATION,
+        86400,
+      );
+      expect(jest.spyOn(mailerService, 'sendTemplate')).toHaveBeenCalledWith(
+        'test@example.com',
+        MailTemplate.EMAIL_VERIFICATION,
+        {
+          name: 'Test User',
+          url: 'http://localhost:3000/verify-email?token=verification-token',
+          hours: 24,
+        },
+        { expiresAt: expect.any(Date) as Date },
+      );
+      expect(result).toEqual({
+        message: 'translated:translation.AUTH.REGISTER_SUCCESS',
+        user: {
+          id: 'user-id',
+          email: 'test@example.com',
+          name: 'Test User',
+          emailVerified: false,
+        },
+      });
+    });
+
+    it('should still register the user when the email cannot be sent', async () => {
+      // Arrange
+      jest
+        .spyOn(usersService, 'register')
+        .mockResolvedValue(
+          mockUserWithoutSensitiveFields as unknown as UserDocument,
+        );
+      jest
+        .spyOn(mailerService, 'sendTemplate')
+        .mockRejectedValue(new Error('Database down'));
+
+      // Act
+      const result = await service.register({
+        name: 'Test User',
+        email: 'test@example.com',
+        password: 'password123',
+        password_confirmation: 'password123',
+      });
+
+      // Assert
+      expect(result.message).toBe(
+        'translated:translation.AUTH.REGISTER_SUCCESS',
+      );
+    });
+  });
+
+  describe('verifyEmail', () => {
+    it('should mark the email of the token owner as verified', async () => {
+      // Arrange
+      jest
+        .spyOn(verificationTokenService, 'consume')
+        .mockResolvedValue('user-id');
+
+      // Act
+      const result = await service.verifyEmail('verification-token');
+
+      // Assert
+      expect(
+        jest.spyOn(verificationTokenService, 'consume'),
+      ).toHaveBeenCalledWith(
+        'verification-token',
+        VerificationTokenPurpose.EMAIL_VERIFICATION,
+      );
+      expect(
+        jest.spyOn(usersService, 'markEmailVerified'),
+      ).toHaveBeenCalledWith('user-id');
+      expect(result).toEqual({
+        message: 'translated:translation.AUTH.EMAIL_VERIFIED',
+      });
+    });
+
+    it('should throw BadRequestException when the token is invalid', async () => {
+      // Arrange
+      jest.spyOn(verificationTokenService, 'consume').mockResolvedValue(null);
+
+      // Act & Assert
+      await expect(service.verifyEmail('bad-token')).rejects.toThrow(
+        BadRequestException,
+      );
+      expect(
+        jest.spyOn(usersService, 'markEmailVerified'),
+      ).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('resendVerification', () => {
+    it('should replace the verification link of an unverified user', async () => {
+      // Arrange
+      jest.spyOn(usersService, 'findOneByEmail').mockResolvedValue({
+        ...mockUser,
+        emailVerified: false,
+      } as unknown as UserDocument);
+
+      // Act
+      const result = await service.resendVerification('test@example.com');
+
+      // Assert
+      expect(
+        jest.spyOn(verificationTokenService, 'invalidateAll'),
+      ).toHaveBeenCalledWith(
+        'user-id',
+        VerificationTokenPurpose.EMAIL_VERIFICATION,
+      );
+      expect(jest.spyOn(mailerService, 'sendTemplate')).toHaveBeenCalled();
+      expect(result).toEqual({
+        message: 'translated:translation.AUTH.VERIFICATION_EMAIL_SENT',
+      });
+    });
+
+    it('should answer the same way for unknown emails without sending anything', async () => {
+      // Arrange
+      jest.spyOn(usersService, 'findOneByEmail').mockResolvedValue(null);
+
+      // Act
+      const result = await service.resendVerification('unknown@example.com');
+
+      // Assert
+      expect(jest.spyOn(mailerService, 'sendTemplate')).not.toHaveBeenCalled();
+      expect(result).toEqual({
+        message: 'translated:translation.AUTH.VERIFICATION_EMAIL_SENT',
+      });
+    });
+  });
+
+  describe('forgotPassword', () => {
+    it('should replace the reset link of the user and email it', async () => {
+      // Arrange
+      jest.spyOn(usersService, 'findOneByEmail').mockResolvedValue(mockUser);
+
+      // Act
+      const result = await service.forgotPassword('test@example.com');
+
+      // Assert
+      expect(
+        jest.spyOn(verificationTokenService, 'invalidateAll'),
+      ).toHaveBeenCalledWith(
+        'user-id',
+        VerificationTokenPurpose.PASSWORD_RESET,
+      );
+      expect(
+        jest.spyOn(verificationTokenService, 'issue'),
+      ).toHaveBeenCalledWith(
+        'user-id',
+        VerificationTokenPurpose.PASSWORD_RESET,
+        3600,
+      );
+      expect(jest.spyOn(mailerService, 'sendTemplate')).toHaveBeenCalledWith(
+        'test@example.com',
+        MailTemplate.PASSWORD_RESET,
+        {
+          name: 'Test User',
+          url: 'http://localhost:3000/reset-password?token=verification-token',
+          minutes: 60,
+        },
+        { expiresAt: expect.any(Date) as Date },
+      );
+      expect(result).toEqual({
+        message: 'translated:translation.AUTH.PASSWORD_RESET_EMAIL_SENT',
+      });
+    });
+
+    it('should answer the same way for unknown emails without sending anything', async () => {
+      // Arrange
+      jest.spyOn(usersService, 'findOneByEmail').mockResolvedValue(null);
+
+      // Act
+      const result = await service.forgotPassword('unknown@example.com');
+
+      // Assert
+      expect(jest.spyOn(mailerService, 'sendTemplate')).not.toHaveBeenCalled();
+      expect(result).toEqual({
+        message: 'translated:translation.AUTH.PASSWORD_RESET_EMAIL_SENT',
+      });
+    });
+
+    it('should answer the same way when sending the email fails', async () => {
+      // Arrange
+      jest.spyOn(usersService, 'findOneByEmail').mockResolvedValue(mockUser);
+      jest
+        .spyOn(verificationTokenService, 'issue')
+        .mockRejectedValueOnce(new Error('Database down'));
+
+      // Act
+      const result = await service.forgotPassword('test@example.com');
+
+      // Assert
+      expect(result).toEqual({
+        message: 'translated:translation.AUTH.PASSWORD_RESET_EMAIL_SENT',
+      });
+    });
+  });
+
+  describe('magic link', () => {
+    const enableMagicLink = () =>
+      jest
+        .spyOn(configService, 'get')
+        .mockImplementation((key: string, defaultValue?: unknown) =>
+          key === 'MAGIC_LINK_ENABLED' ? 'true' : defaultValue,
+        );
+
+    it('should refuse both steps while magic-link login is disabled', async () => {
+      // Act & Assert
+      await expect(
+        service.requestMagicLink('test@example.com'),
+      ).rejects.toThrow(NotFoundException);
+      await expect(service.verifyMagicLink('token')).rejects.toThrow(
+        NotFoundException,
+      );
+      expect(jest.spyOn(usersService, 'findOneByEmail')).not.toHaveBeenCalled();
+    });
+
+    it('should replace the login link of the user and email it', async () => {
+      // Arrange
+      enableMagicLink();
+      jest.spyOn(usersService, 'findOneByEmail').mockResolvedValue(mockUser);
+
+      // Act
+      const result = await service.requestMagicLink('test@example.com');
+
+      // Assert
+      expect(
+        jest.spyOn(verificationTokenService, 'invalidateAll'),
+      ).toHaveBeenCalledWith('user-id', VerificationTokenPurpose.MAGIC_LINK);
+      expect(
+        jest.spyOn(verificationTokenService, 'issue'),
+      ).toHaveBeenCalledWith(
+        'user-id',
+        VerificationTokenPurpose.MAGIC_LINK,
+        900,
+      );
+      expect(jest.spyOn(mailerService, 'sendTemplate')).toHaveBeenCalledWith(
+        'test@example.com',
+        MailTemplate.MAGIC_LINK,
+        {
+          name: 'Test User',
+          url: 'http://localhost:3000/magic-link?token=verification-token',
+          minutes: 15,
+        },
+        { expiresAt: expect.any(Date) as Date },
+      );
+      expect(result).toEqual({
+        message: 'translated:translation.AUTH.MAGIC_LINK_SENT',
+      });
+    });
+
+    it('should answer the same way for unknown emails without sending anything', async () => {
+      // Arrange
+      enableMagicLink();
+      jest.spyOn(usersService, 'findOneByEmail').mockResolvedValue(null);
+
+      // Act
+      const result = await service.requestMagicLink('unknown@example.com');
+
+      // Assert
+      expect(jest.spyOn(mailerService, 'sendTemplate')).not.toHaveBeenCalled();
+      expect(result).toEqual({
+        message: 'translated:translation.AUTH.MAGIC_LINK_SENT',
+      });
+    });
+
+    it('should consume the token and log the user in', async () => {
+      // Arrange
+      enableMagicLink();
+      const loginResponse = { message: 'Login successful.' };
+      jest
+        .spyOn(service, 'login')
+        .mockResolvedValue(
+          loginResponse as Awaited<ReturnType<AuthService['login']>>,
+        );
+      jest
+        .spyOn(verificationTokenService, 'consume')
+        .mockResolvedValue('user-id');
+      jest
+        .spyOn(usersService, 'findById')
+        .mockResolvedValue(
+          mockUserWithoutSensitiveFields as Omit<
+            UserDocument,
+            'password_hash' | 'hashedRefreshToken'
+          >,
+        );
+
+      // Act
+      const result = await service.verifyMagicLink('token', '10.0.0.1');
+
+      // Assert
+      expect(
+        jest.spyOn(verificationTokenService, 'consume'),
+      ).toHaveBeenCalledWith('token', VerificationTokenPurpose.MAGIC_LINK);
+      expect(
+        jest.spyOn(loginThrottleService, 'assertNotLocked'),
+      ).toHaveBeenCalledWith('test@example.com', '10.0.0.1');
+      expect(jest.spyOn(service, 'login')).toHaveBeenCalledWith(
+        mockUserWithoutSensitiveFields,
+      );
+      expect(result).toBe(loginResponse);
+    });
+
+    it('should throw UnauthorizedException for an invalid or used token', async () => {
+      // Arrange
+      enableMagicLink();
+      jest.spyOn(verificationTokenService, 'consume').mockResolvedValue(null);
+
+      // Act & Assert
+      await expect(service.verifyMagicLink('token')).rejects.toThrow(
+        UnauthorizedException,
+      );
+    });
+  });
+
+  describe('resetPassword', () => {
+    it('should change the password and revoke every session of the user', async () => {
+      // Arrange
+      jest
+        .spyOn(verificationTokenService, 'consume')
+        .mockResolvedValue('user-id');
+      jest
+        .spyOn(usersService, 'findById')
+        .mockResolvedValue(
+          mockUserWithoutSensitiveFields as unknown as UserDocument,
+        );
+
+      // Act
+      const result = await service.resetPassword('reset-token', 'newpassword');
+
+      // Assert
+      expect(
+        jest.spyOn(verificationTokenService, 'consume'),
+      ).toHaveBeenCalledWith(
+        'reset-token',
+        VerificationTokenPurpose.PASSWORD_RESET,
+      );
+      expect(jest.spyOn(usersService, 'updatePassword')).toHaveBeenCalledWith(
+        'user-id',
+        'newpassword',
+      );
+      expect(
+        jest.spyOn(usersService, 'incrementTokenVersion'),
+      ).toHaveBeenCalledWith('user-id');
+      expect(
+        jest.spyOn(sessionService, 'revokeAllForUser'),
+      ).toHaveBeenCalledWith('user-id', SessionRevocationReason.PASSWORD_RESET);
+      expect(jest.spyOn(activityLogService, 'logEvent')).toHaveBeenCalledWith(
+        expect.objectContaining({
+          userId: 'user-id',
+          actionType: 'PASSWORD_RESET',
+          username: 'test@example.com',
+        }),
+      );
+      expect(result).toEqual({
+        message: 'translated:translation.AUTH.PASSWORD_RESET_SUCCESS',
+      });
+    });
+
+    it('should cancel the pending email change of the user', async () => {
+      // Arrange
+      jest
+        .spyOn(verificationTokenService, 'consume')
+        .mockResolvedValue('user-id');
+      jest
+        .spyOn(usersService, 'findById')
+        .mockResolvedValue(
+          mockUserWithoutSensitiveFields as unknown as UserDocument,
+        );
+      jest.spyOn(usersService, 'clearPendingEmail').mockResolvedValue(true);
+
+      // Act
+      await service.resetPassword('reset-token', 'newpassword');
+
+      // Assert
+      expect(
+        jest.spyOn(verificationTokenService, 'invalidateAll'),
+      ).toHaveBeenCalledWith('user-id', VerificationTokenPurpose.EMAIL_CHANGE);
+      expect(
+        jest.spyOn(usersService, 'clearPendingEmail'),
+      ).toHaveBeenCalledWith('user-id');
+      expect(jest.spyOn(activityLogService, 'logEvent')).toHaveBeenCalledWith(
+        expect.objectContaining({
+          userId: 'user-id',
+          actionType: 'EMAIL_CHANGE_CANCELLED',
+          metadata: { reason: 'password_reset' },
+        }),
+      );
+    });
+
+    it('should keep the token usable when the password was used recently', async () => {
+      // Arrange
+      jest.spyOn(verificationTokenService, 'peek').mockResolvedValue('user-id');
+      jest
+        .spyOn(usersService, 'assertPasswordNotReused')
+        .mockRejectedValue(new BadRequestException('reused'));
+
+      // Act & Assert
+      await expect(
+        service.resetPassword('reset-token', 'oldpassword'),
+      ).rejects.toThrow(BadRequestException);
+      expect(
+        jest.spyOn(usersService, 'assertPasswordNotReused'),
+      ).toHaveBeenCalledWith('user-id', 'oldpassword');
+      expect(
+        jest.spyOn(verificationTokenService, 'consume'),
+      ).not.toHaveBeenCalled();
+      expect(jest.spyOn(usersService, 'updatePassword')).not.toHaveBeenCalled();
+    });
+
+    it('should throw BadRequestException when the token is invalid', async () => {
+      // Arrange
+      jest.spyOn(verificationTokenService, 'consume').mockResolvedValue(null);
+
+      // Act & Assert
+      await expect(
+        service.resetPassword('bad-token', 'newpassword'),
+      ).rejects.toThrow(BadRequestException);
+      expect(jest.spyOn(usersService, 'updatePassword')).not.toHaveBeenCalled();
+      expect(
+        jest.spyOn(sessionService, 'revokeAllForUser'),
+      ).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('requestEmailChange', () => {
+    it('should record the new address and email both addresses', async () => {
+      // Arrange
+      jest
+        .spyOn(usersService, 'findUserByIdForAuth')
+        .mockResolvedValue(mockUser);
+
+      // Act
+      const result = await service.requestEmailChange(
+        'user-id',
+        'New@Example.com',
+      );
+
+      // Assert
+      expect(jest.spyOn(usersService, 'setPendingEmail')).toHaveBeenCalledWith(
+        'user-id',
+        'new@example.com',
+      );
+      expect(
+        jest.spyOn(verificationTokenService, 'invalidateAll'),
+      ).toHaveBeenCalledWith('user-id', VerificationTokenPurpose.EMAIL_CHANGE);
+      expect(
+        jest.spyOn(verificationTokenService, 'issue'),
+      ).toHaveBeenCalledWith(
+        'user-id',
+        VerificationTokenPurpose.EMAIL_CHANGE,
+        3600,
+      );
+      expect(jest.spyOn(mailerService, 'sendTemplate')).toHaveBeenCalledWith(
+        'new@example.com',
+        MailTemplate.EMAIL_CHANGE_CONFIRMATION,
+        {
+          name: 'Test User',
+          url: 'http://localhost:3000/confirm-email?token=verification-token',
+          minutes: 60,
+        },
+        { expiresAt: expect.any(Date) as Date },
+      );
+      expect(jest.spyOn(mailerService, 'sendTemplate')).toHaveBeenCalledWith(
+        'test@example.com',
+        MailTemplate.EMAIL_CHANGE_NOTICE,
+        { name: 'Test User', email: 'new@example.com' },
+      );
+      expect(jest.spyOn(activityLogService, 'logEvent')).toHaveBeenCalledWith(
+        expect.objectContaining({
+          userId: 'user-id',
+          actionType: 'EMAIL_CHANGE_REQUESTED',
+          metadata: { newEmail: 'new@example.com' },
+        }),
+      );
+      expect(result).toEqual({
+        message: 'translated:translation.AUTH.EMAIL_CHANGE_REQUESTED',
+      });
+    });
+
+    it('should refuse the current address', async () => {
+      // Arrange
+      jest
+        .spyOn(usersService, 'findUserByIdForAuth')
+        .mockResolvedValue(mockUser);
+
+      // Act & Assert
+      await expect(
+        service.requestEmailChange('user-id', 'Test@example.com'),
+      ).rejects.toThrow(BadRequestException);
+      expect(
+        jest.spyOn(usersService, 'setPendingEmail'),
+      ).not.toHaveBeenCalled();
+    });
+
+    it('should not send anything when the address is taken', async () => {
+      // Arrange
+      jest
+        .spyOn(usersService, 'findUserByIdForAuth')
+        .mockResolvedValue(mockUser);
+      jest
+        .spyOn(usersService, 'setPendingEmail')
+        .mockRejectedValue(new ConflictException('taken'));
+
+      // Act & Assert
+      await expect(
+        service.requestEmailChange('user-id', 'taken@example.com'),
+      ).rejects.toThrow(ConflictException);
+      expect(
+        jest.spyOn(verificationTokenService, 'issue'),
+      ).not.toHaveBeenCalled();
+      expect(jest.spyOn(mailerService, 'sendTemplate')).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('confirmEmailChange', () => {
+    it('should apply the pending address and log the change', async () => {
+      // Arrange
+      jest.spyOn(verificationTokenService, 'peek').mockResolvedValue('user-id');
+      jest
+        .spyOn(verificationTokenService, 'consume')
+        .mockResolvedValue('user-id');
+      jest.spyOn(usersService, 'applyPendingEmail').mockResolvedValue({
+        previousEmail: 'test@example.com',
+        email: 'new@example.com',
+      });
+
+      // Act
+      const result = await service.confirmEmailChange(
+        'user-id',
+        'change-token',
+      );
+
+      // Assert
+      expect(
+        jest.spyOn(verificationTokenService, 'consume'),
+      ).toHaveBeenCalledWith(
+        'change-token',
+        VerificationTokenPurpose.EMAIL_CHANGE,
+      );
+      expect(jest.spyOn(activityLogService, 'logEvent')).toHaveBeenCalledWith(
+        expect.objectContaining({
+          userId: 'user-id',
+          actionType: 'EMAIL_CHANGED',
+          username: 'new@example.com',
+          metadata: { previousEmail: 'test@example.com' },
+        }),
+      );
+      expect(result).toEqual({
+        message: 'translated:translation.AUTH.EMAIL_CHANGED',
+      });
+    });
+
+    it('should leave the token of another user untouched', async () => {
+      // Arrange
+      jest
+        .spyOn(verificationTokenService, 'peek')
+        .mockResolvedValue('other-user-id');
+
+      // Act & Assert
+      await expect(
+        service.confirmEmailChange('user-id', 'change-token'),
+      ).rejects.toThrow(BadRequestException);
+      expect(
+        jest.spyOn(verificationTokenService, 'consume'),
+      ).not.toHaveBeenCalled();
+      expect(
+        jest.spyOn(usersService, 'applyPendingEmail'),
+      ).not.toHaveBeenCalled();
+    });
+
+    it('should throw BadRequestException when no change is pending', async () => {
+      // Arrange
+      jest.spyOn(verificationTokenService, 'peek').mockResolvedValue('user-id');
+      jest
+        .spyOn(verificationTokenService, 'consume')
+        .mockResolvedValue('user-id');
+      jest.spyOn(usersService, 'applyPendingEmail').mockResolvedValue(null);
+
+      // Act & Assert
+      await expect(
+        service.confirmEmailChange('user-id', 'change-token'),
+      ).rejects.toThrow(BadRequestException);
+      expect(jest.spyOn(activityLogService, 'logEvent')).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('changePassword', () => {
+    const mockSession = {
+      userId: 'user-id',
+      familyId: 'family-id',
+      currentTokenId: 'token-id',
+      revokedAt: null,
+    };
+
+    beforeEach(() => {
+      jest
+        .spyOn(usersService, 'findUserByIdForAuth')
+        .mockResolvedValue(mockUser);
+      jest.spyOn(userAuthService, 'comparePasswords').mockResolvedValue(true);
+      jest.spyOn(service, 'getTokens').mockResolvedValue({
+        access_token: 'new_access_token',
+        refresh_token: 'new_refresh_token',
+        expires_in: 3600,
+      });
+    });
+
+    it('should keep the current session and revoke the others', async () => {
+      // Arrange
+      jest
+        .spyOn(sessionService, 'findByFamilyId')
+        .mockResolvedValue(mockSession as never);
+
+      // Act
+      const result = await service.changePassword(
+        'user-id',
+        'family-id',
+        'password',
+        'newpassword',
+      );
+
+      // Assert
+      expect(jest.spyOn(usersService, 'updatePassword')).toHaveBeenCalledWith(
+        'user-id',
+        'newpassword',
+      );
+      expect(
+        jest.spyOn(usersService, 'incrementTokenVersion'),
+      ).toHaveBeenCalledWith('user-id');
+      expect(jest.spyOn(sessionService, 'revokeOthers')).toHaveBeenCalledWith(
+        'user-id',
+        'family-id',
+        SessionRevocationReason.PASSWORD_CHANGE,
+      );
+      expect(jest.spyOn(sessionService, 'rotate')).toHaveBeenCalledWith(
+        'family-id',
+        'token-id',
+        expect.objectContaining({
+          refreshTokenHash: 'hashed_refresh_token',
+        }),
+      );
+      expect(
+        jest.spyOn(sessionService, 'revokeAllForUser'),
+      ).not.toHaveBeenCalled();
+      expect(jest.spyOn(activityLogService, 'logEvent')).toHaveBeenCalledWith(
+        expect.objectContaining({
+          userId: 'user-id',
+          actionType: 'PASSWORD_CHANGE',
+        }),
+      );
+      expect(result).toEqual({
+        message: 'translated:translation.AUTH.PASSWORD_CHANGED',
+        access_token: 'new_access_token',
+        refresh_token: 'new_refresh_token',
+        expires_in: 3600,
+      });
+    });
+
+    it('should revoke every session when the current one is unknown', async () => {
+      // Act
+      const result = await service.changePassword(
+        'user-id',
+        undefined,
+        'password',
+        'newpassword',
+      );
+
+      // Assert
+      expect(
+        jest.spyOn(sessionService, 'revokeAllForUser'),
+      ).toHaveBeenCalledWith(
+        'user-id',
+        SessionRevocationReason.PASSWORD_CHANGE,
+      );
+      expect(result).toEqual({
+        message: 'translated:translation.AUTH.PASSWORD_CHANGED',
+      });
+    });
+
+    it('should throw BadRequestException when the current password is wrong', async () => {
+      // Arrange
+      jest.spyOn(userAuthService, 'comparePasswords').mockResolvedValue(false);
+
+      // Act & Assert
+      await expect(
+        service.changePassword('user-id', 'family-id', 'wrong', 'newpassword'),
+      ).rejects.toThrow(BadRequestException);
+      expect(jest.spyOn(usersService, 'updatePassword')).not.toHaveBeenCalled();
+      expect(
+        jest.spyOn(usersService, 'incrementTokenVersion'),
+      ).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('logoutAll', () => {
+    it('should invalidate every token of the user', async () => {
+      // Act
+      const result = await service.logoutAll('user-id');
+
+      // Assert
+      expect(
+        jest.spyOn(usersService, 'incrementTokenVersion'),
+      ).toHaveBeenCalledWith('user-id');
+      expect(
+        jest.spyOn(sessionService, 'revokeAllForUser'),
+      ).toHaveBeenCalledWith('user-id', SessionRevocationReason.LOGOUT);
+      expect(jest.spyOn(activityLogService, 'logEvent')).toHaveBeenCalledWith(
+        expect.objectContaining({
+          actionType: 'LOGOUT',
+          metadata: { allSessions: true },
+        }),
+      );
+      expect(result).toEqual({
+        message: 'translated:translation.AUTH.LOGOUT_ALL_SUCCESS',
+      });
+    });
+  });
+
+  describe('reauthenticate', () => {
+    beforeEach(() => {
+      jest
+        .spyOn(sessionService, 'findByFamilyId')
+        .mockResolvedValue({ familyId: 'family-id', revokedAt: null } as never);
+      jest
+        .spyOn(usersService, 'findUserByIdForAuth')
+        .mockResolvedValue(mockUser);
+    });
+
+    it('should return an elevated token when the password is correct', async () => {
+      // Arrange
+      jest.spyOn(userAuthService, 'comparePasswords').mockResolvedValue(true);
+
+      // Act
+      const result = await service.reauthenticate(
+        'user-id',
+        'family-id',
+        { password: 'Password123!' },
+        '10.0.0.1',
+      );
+
+      // Assert
+      expect(
+        jest.spyOn(userAuthService, 'comparePasswords'),
+      ).toHaveBeenCalledWith('Password123!', 'hashed_password');
+      expect(
+        jest.spyOn(tokenService, 'generateElevatedAccessToken'),
+      ).toHaveBeenCalledWith(mockUser, 'family-id');
+      expect(
+        jest.spyOn(loginThrottleService, 'recordSuccess'),
+      ).toHaveBeenCalledWith('test@example.com');
+      expect(jest.spyOn(activityLogService, 'logEvent')).toHaveBeenCalledWith({
+        userId: 'user-id',
+        actionType: 'REAUTHENTICATED',
+        username: 'test@example.com',
+        resource: { type: 'Session', id: 'family-id' },
+        metadata: { method: 'password' },
+      });
+      expect(result).toEqual({
+        message: 'translated:translation.AUTH.REAUTHENTICATED',
+        access_token: 'elevated-token',
+        expires_in: 300,
+      });
+    });
+
+    it('should accept a code from the authenticator app instead', async () => {
+      // Arrange
+      jest.spyOn(mfaService, 'verify').mockResolvedValue('totp');
+
+      // Act
+      await service.reauthenticate('user-id', 'family-id', { code: '123456' });
+
+      // Assert
+      expect(jest.spyOn(mfaService, 'verify')).toHaveBeenCalledWith(
+        'user-id',
+        'test@example.com',
+        '123456',
+      );
+      expect(
+        jest.spyOn(userAuthService, 'comparePasswords'),
+      ).not.toHaveBeenCalled();
+      expect(
+        jest.spyOn(tokenService, 'generateElevatedAccessToken'),
+      ).toHaveBeenCalled();
+    });
+
+    it('should count a wrong password as a failed login', async () => {
+      // Arrange
+      jest.spyOn(userAuthService, 'comparePasswords').mockResolvedValue(false);
+
+      // Act & Assert
+      await expect(
+        service.reauthenticate(
+          'user-id',
+          'family-id',
+          { password: 'wrong' },
+          '10.0.0.1',
+        ),
+      ).rejects.toThrow(UnauthorizedException);
+      expect(
+        jest.spyOn(loginThrottleService, 'recordFailure'),
+      ).toHaveBeenCalledWith('test@example.com', '10.0.0.1');
+      expect(jest.spyOn(activityLogService, 'logEvent')).toHaveBeenCalledWith(
+        expect.objectContaining({
+          actionType: 'REAUTHENTICATION_FAILED',
+          operationStatus: 'FAILURE',
+        }),
+      );
+      expect(
+        jest.spyOn(tokenService, 'generateElevatedAccessToken'),
+      ).not.toHaveBeenCalled();
+    });
+
+    it('should refuse a session that has been revoked', async () => {
+      // Arrange
+      jest
+        .spyOn(sessionService, 'findByFamilyId')
+        .mockResolvedValue({ revokedAt: new Date() } as never);
+
+      // Act & Assert
+      await expect(
+        service.reauthenticate('user-id', 'family-id', { password: 'x' }),
+      ).rejects.toThrow(ForbiddenException);
+    });
+
+    it('should throw BadRequestException when the token carries no session', async () => {
+      // Act & Assert
+      await expect(
+        service.reauthenticate('user-id', undefined, { password: 'x' }),
+      ).rejects.toThrow(BadRequestException);
+    });
+  });
+
+  describe('sessions', () => {
+    it('should list the active sessions of the user', async () => {
+      // Arrange
+      jest.spyOn(sessionService, 'findActiveByUser').mockResolvedValue([]);
+
+      // Act
+      const result = await service.listSessions('user-id', 'family-id');
+
+      // Assert
+      expect(
+        jest.spyOn(sessionService, 'findActiveByUser'),
+      ).toHaveBeenCalledWith('user-id', 'family-id');
+      expect(result).toEqual([]);
+    });
+
+    it('should revoke one session of the user', async () => {
+      // Act
+      await service.revokeSession('user-id', 'session-id');
+
+      // Assert
+      expect(jest.spyOn(sessionService, 'revokeById')).toHaveBeenCalledWith(
+        'user-id',
+        'session-id',
+        SessionRevocationReason.REVOKED_BY_USER,
+      );
+    });
+
+    it('should revoke the other sessions of the user', async () => {
+      // Arrange
+      jest.spyOn(sessionService, 'revokeOthers').mockResolvedValue(2);
+
+      // Act
+      const result = await service.revokeOtherSessions('user-id', 'family-id');
+
+      // Assert
+      expect(jest.spyOn(sessionService, 'revokeOthers')).toHaveBeenCalledWith(
+        'user-id',
+        'family-id',
+        SessionRevocationReason.REVOKED_BY_USER,
+      );
+      expect(result).toEqual({
+        message: 'translated:translation.SESSION.OTHERS_REVOKED',
+        revoked: 2,
+      });
+    });
+
+    it('should throw BadRequestException when the current session is unknown', async () => {
+      // Act & Assert
+      await expect(service.revokeOtherSessions('user-id')).rejects.toThrow(
+        BadRequestException,
+      );
+      expect(jest.spyOn(sessionService, 'revokeOthers')).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('createApiKey', () => {
+    it('should create the key with the parsed expiry and return it once', async () => {
+      // Arrange
+      const apiKey = {
+        id: 'api-key-id',
+        name: 'CI',
+        prefix: 'isk_4f9a2b7c',
+        scopes: ['users:read'],
+        expiresAt: new Date('2030-01-01T00:00:00.000Z'),
+        lastUsedAt: null,
+        createdAt: new Date(),
+      };
+      jest
+        .spyOn(apiKeyService, 'create')
+        .mockResolvedValue({ apiKey, key: 'isk_4f9a2b7c_secret' });
+
+      // Act
+      const result = await service.createApiKey('user-id', 'test@example.com', {
+        name: 'CI',
+        scopes: ['users:read'],
+        expires_at: '2030-01-01T00:00:00.000Z',
+      });
+
+      // Assert
+      expect(jest.spyOn(apiKeyService, 'create')).toHaveBeenCalledWith(
+        'user-id',
+        'test@example.com',
+        {
+          name: 'CI',
+          scopes: ['users:read'],
+          expiresAt: new Date('2030-01-01T00:00:00.000Z'),
+        },
+      );
+      expect(result).toEqual({
+        message: 'translated:translation.API_KEY.CREATED',
+        key: 'isk_4f9a2b7c_secret',
+        apiKey,
+      });
+    });
+  });
+
+  describe('issueClientCredentialsToken', () => {
+    const client = {
+      clientId: 'client-id',
+      name: 'Billing service',
+      scopes: ['users:read', 'roles:read'],
+    } as unknown as OAuthClientDocument;
+
+    const basic = (clientId: string, clientSecret: string) =>
+      `Basic ${Buffer.from(`${clientId}:${clientSecret}`).toString('base64')}`;
+
+    it('should issue a token with every scope of the client authenticated with HTTP Basic', async () => {
+      // Arrange
+      jest.spyOn(oauthClientService, 'authenticate').mockResolvedValue(client);
+
+      // Act
+      const result = await service.issueClientCredentialsToken(
+        { grant_type: 'client_credentials' },
+        basic('client-id', 'client-secret'),
+      );
+
+      // Assert
+      expect(
+        jest.spyOn(oauthClientService, 'authenticate'),
+      ).toHaveBeenCalledWith('client-id', 'client-secret');
+      expect(
+        jest.spyOn(tokenService, 'generateClientAccessToken'),
+      ).toHaveBeenCalledWith('client-id', ['users:read', 'roles:read']);
+      expect(result).toEqual({
+        access_token: 'client-token',
+        token_type: 'Bearer',
+        expires_in: 3600,
+        scope: 'users:read roles:read',
+      });
+      expect(jest.spyOn(activityLogService, 'logEvent')).toHaveBeenCalledWith(
+        expect.objectContaining({
+          actionType: 'CLIENT_TOKEN_ISSUED',
+          clientId: 'client-id',
+        }),
+      );
+    });
+
+    it('should narrow the token to the requested scopes with credentials in the body', async () => {
+      // Arrange
+      jest.spyOn(oauthClientService, 'authenticate').mockResolvedValue(client);
+
+      // Act
+      const result = await service.issueClientCredentialsToken({
+        grant_type: 'client_credentials',
+        client_id: 'client-id',
+        client_secret: 'client-secret',
+        scope: 'users:read',
+      });
+
+      // Assert
+      expect(result.scope).toBe('users:read');
+    });
+
+    it('should reject a grant type other than client_credentials', async () => {
+      // Act & Assert
+      await expect(
+        service.issueClientCredentialsToken({ grant_type: 'password' }),
+      ).rejects.toMatchObject({
+        error: 'unsupported_grant_type',
+      } as Partial<OAuthException>);
+    });
+
+    it('should reject credentials sent both with HTTP Basic and in the body', async () => {
+      // Act & Assert
+      await expect(
+        service.issueClientCredentialsToken(
+          { grant_type: 'client_credentials', client_id: 'client-id' },
+          basic('client-id', 'client-secret'),
+        ),
+      ).rejects.toMatchObject({
+        error: 'invalid_request',
+      } as Partial<OAuthException>);
+      expect(
+        jest.spyOn(oauthClientService, 'authenticate'),
+      ).not.toHaveBeenCalled();
+    });
+
+    it('should answer invalid_client with status 401 and log the failure when the secret is wrong', async () => {
+      // Arrange
+      jest.spyOn(oauthClientService, 'authenticate').mockResolvedValue(null);
+
+      // Act
+      const error = await service
+        .issueClientCredentialsToken(
+          { grant_type: 'client_credentials' },
+          basic('client-id', 'wrong-secret'),
+        )
+        .catch((caught: unknown) => caught);
+
+      // Assert
+      expect(error).toBeInstanceOf(OAuthException);
+      expect((error as OAuthException).error).toBe('invalid_client');
+      expect((error as OAuthException).getStatus()).toBe(
+        HttpStatus.UNAUTHORIZED,
+      );
+      expect(jest.spyOn(activityLogService, 'logEvent')).toHaveBeenCalledWith(
+        expect.objectContaining({
+          actionType: 'CLIENT_AUTH_FAILURE',
+          operationStatus: 'FAILURE',
+        }),
+      );
+    });
+
+    it('should reject a scope the client is not allowed to request', async () => {
+      // Arrange
+      jest.spyOn(oauthClientService, 'authenticate').mockResolvedValue(client);
+
+      // Act & Assert
+      await expect(
+        service.issueClientCredentialsToken(
+          { grant_type: 'client_credentials', scope: 'users:delete' },
+          basic('client-id', 'client-secret'),
+        ),
+      ).rejects.toMatchObject({
+        error: 'invalid_scope',
+      } as Partial<OAuthException>);
+      expect(
+        jest.spyOn(tokenService, 'generateClientAccessToken'),
+      ).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('completeOidcLogin', () => {
+    const claims = {
+      sub: 'provider-subject',
+      email: 'test@example.com',
+      email_verified: true,
+      name: 'Test User',
+    };
+    const loginResponse = { message: 'Login successful.' };
+
+    beforeEach(() => {
+      jest
+        .spyOn(service, 'login')
+        .mockResolvedValue(
+          loginResponse as Awaited<ReturnType<AuthService['login']>>,
+        );
+    });
+
+    it('should log in the user linked to the provider account', async () => {
+      // Arrange
+      const identity = {
+        userId: 'user-id',
+      } as unknown as ExternalIdentityDocument;
+      jest.spyOn(oidcService, 'handleCallback').mockResolvedValue(claims);
+      jest
+        .spyOn(externalIdentityService, 'findByProviderSubject')
+        .mockResolvedValue(identity);
+      jest
+        .spyOn(usersService, 'findById')
+        .mockResolvedValue(
+          mockUserWithoutSensitiveFields as Omit<
+            UserDocument,
+            'password_hash' | 'hashedRefreshToken'
+          >,
+        );
+
+      // Act
+      const result = await service.completeOidcLogin('Google', {
+        code: 'code',
+        state: 'state',
+      });
+
+      // Assert
+      expect(result).toBe(loginResponse);
+      expect(
+        jest.spyOn(externalIdentityService, 'findByProviderSubject'),
+      ).toHaveBeenCalledWith('google', 'provider-subject');
+      expect(
+        jest.spyOn(externalIdentityService, 'recordLogin'),
+      ).toHaveBeenCalledWith(identity);
+      expect(
+        jest.spyOn(externalIdentityService, 'link'),
+      ).not.toHaveBeenCalled();
+    });
+
+    it('should link the provider account to the user with the same email', async () => {
+      // Arrange
+      const verifiedUser = { ...mockUser, emailVerified: true } as UserDocument;
+      jest.spyOn(oidcService, 'handleCallback').mockResolvedValue(claims);
+      jest
+        .spyOn(usersService, 'findOneByEmail')
+        .mockResolvedValue(verifiedUser);
+
+      // Act
+      await service.completeOidcLogin('google', { code: 'code' });
+
+      // Assert
+      expect(jest.spyOn(usersService, 'create')).not.toHaveBeenCalled();
+      expect(jest.spyOn(externalIdentityService, 'link')).toHaveBeenCalledWith(
+        'user-id',
+        'test@example.com',
+        {
+          provider: 'google',
+          subject: 'provider-subject',
+          email: 'test@example.com',
+        },
+        false,
+      );
+      expect(jest.spyOn(service, 'login')).toHaveBeenCalledWith(verifiedUser);
+    });
+
+    it('should refuse to link a user who has not verified the email', async () => {
+      // Arrange
+      jest.spyOn(oidcService, 'handleCallback').mockResolvedValue(claims);
+      jest.spyOn(usersService, 'findOneByEmail').mockResolvedValue({
+        ...mockUser,
+        emailVerified: false,
+      } as UserDocument);
+
+      // Act & Assert
+      await expect(
+        service.completeOidcLogin('google', { code: 'code' }),
+      ).rejects.toThrow(UnauthorizedException);
+      expect(
+        jest.spyOn(externalIdentityService, 'link'),
+      ).not.toHaveBeenCalled();
+      expect(jest.spyOn(service, 'login')).not.toHaveBeenCalled();
+    });
+
+    it('should create a user for an unknown email', async () => {
+      // Arrange
+      jest.spyOn(oidcService, 'handleCallback').mockResolvedValue(claims);
+      jest.spyOn(usersService, 'findOneByEmail').mockResolvedValue(null);
+      jest
+        .spyOn(usersService, 'create')
+        .mockResolvedValue(
+          mockUserWithoutSensitiveFields as Omit<
+            UserDocument,
+            'password_hash' | 'hashedRefreshToken'
+          >,
+        );
+
+      // Act
+      await service.completeOidcLogin('google', { code: 'code' });
+
+      // Assert
+      const [createUserDto] = jest.spyOn(usersService, 'create').mock
+        .calls[0] as [{ email: string; password: string; name: string }];
+      expect(createUserDto).toEqual(
+        expect.objectContaining({
+          email: 'test@example.com',
+          name: 'Test User',
+          password_confirmation: createUserDto.password,
+        }),
+      );
+      expect(jest.spyOn(externalIdentityService, 'link')).toHaveBeenCalledWith(
+        'user-id',
+        'test@example.com',
+        expect.objectContaining({ subject: 'provider-subject' }),
+        true,
+      );
+    });
+
+    it('should refuse an email the provider has not verified', async () => {
+      // Arrange
+      jest
+        .spyOn(oidcService, 'handleCallback')
+        .mockResolvedValue({ ...claims, email_verified: false });
+
+      // Act & Assert
+      await expect(
+        service.completeOidcLogin('google', { code: 'code' }),
+      ).rejects.toThrow(UnauthorizedException);
+      expect(jest.spyOn(usersService, 'findOneByEmail')).not.toHaveBeenCalled();
+      expect(jest.spyOn(service, 'login')).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('impersonate', () => {
+    const targetId = '60d21b4667d0d8992e610c85';
+    const actor = {
+      userId: 'admin-id',
+      email: 'admin@example.com',
+      roles: ['admin', 'user'],
+    };
+
+    beforeEach(() => {
+      jest.spyOn(usersService, 'findById').mockResolvedValue({
+        ...mockUserWithoutSensitiveFields,
+        _id: targetId,
+        roles: ['user'],
+      } as unknown as Omit<
+        UserDocument,
+        'password_hash' | 'hashedRefreshToken'
+      >);
+    });
+
+    it('should issue a token for the user and record who started it', async () => {
+      // Act
+      const result = await service.impersonate(
+        actor,
+        targetId,
+        'Support ticket #42',
+      );
+
+      // Assert
+      expect(
+        jest.spyOn(tokenService, 'generateImpersonationToken'),
+      ).toHaveBeenCalledWith(expect.objectContaining({ _id: targetId }), {
+        userId: 'admin-id',
+        email: 'admin@example.com',
+      });
+      expect(jest.spyOn(activityLogService, 'logEvent')).toHaveBeenCalledWith({
+        userId: 'admin-id',
+        actionType: 'IMPERSONATION_STARTED',
+        username: 'admin@example.com',
+        resource: {
+          type: 'User',
+          id: targetId,
+          displayName: 'test@example.com',
+        },
+        metadata: { reason: 'Support ticket #42', expiresIn: 900 },
+      });
+      expect(result).toEqual({
+        message: 'translated:translation.AUTH.IMPERSONATION_STARTED',
+        access_token: 'impersonation-token',
+        token_type: 'Bearer',
+        expires_in: 900,
+        user: { id: targetId, email: 'test@example.com', name: 'Test User' },
+      });
+    });
+
+    it('should refuse to impersonate oneself', async () => {
+      // Act & Assert
+      await expect(
+        service.impersonate({ ...actor, userId: targetId }, targetId, 'Test'),
+      ).rejects.toThrow(BadRequestException);
+      expect(
+        jest.spyOn(tokenService, 'generateImpersonationToken'),
+      ).not.toHaveBeenCalled();
+    });
+
+    it('should throw NotFoundException for an unknown user', async () => {
+      // Arrange
+      jest.spyOn(usersService, 'findById').mockResolvedValue(null);
+
+      // Act & Assert
+      await expect(
+        service.impersonate(actor, targetId, 'Test'),
+      ).rejects.toThrow(NotFoundException);
+      await expect(
+        service.impersonate(actor, 'not-an-id', 'Test'),
+      ).rejects.toThrow(NotFoundException);
+    });
+
+    it('should throw NotFoundException for an erased user', async () => {
+      // Arrange
+      jest.spyOn(usersService, 'findById').mockResolvedValue({
+        ...mockUserWithoutSensitiveFields,
+        _id: targetId,
+        roles: ['user'],
+        status: UserStatus.ERASED,
+      } as unknown as Omit<
+        UserDocument,
+        'password_hash' | 'hashedRefreshToken'
+      >);
+
+      // Act & Assert
+      await expect(
+        service.impersonate(actor, targetId, 'Test'),
+      ).rejects.toThrow(NotFoundException);
+      expect(
+        jest.spyOn(tokenService, 'generateImpersonationToken'),
+      ).not.toHaveBeenCalled();
+    });
+
+    it('should refuse to impersonate a user with a role the actor lacks', async () => {
+      // Act & Assert
+      await expect(
+        service.impersonate({ ...actor, roles: [] }, targetId, 'Test'),
+      ).rejects.toThrow(ForbiddenException);
+      expect(
+        jest.spyOn(tokenService, 'generateImpersonationToken'),
+      ).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('endImpersonation', () => {
+    it('should revoke the impersonation token without ending the user sessions', async () => {
+      // Arrange
+      jest
+        .spyOn(usersService, 'findById')
+        .mockResolvedValue(
+          mockUserWithoutSensitiveFields as unknown as UserDocument,
+        );
+
+      // Act
+      const result = await service.endImpersonation('user-id', {
+        jti: 'token-id',
+        exp: 1700000000,
+      });
+
+      // Assert
+      expect(jest.spyOn(tokenRevocationService, 'revoke')).toHaveBeenCalledWith(
+        'token-id',
+        1700000000,
+      );
+      expect(
+        jest.spyOn(sessionService, 'revokeAllForUser'),
+      ).not.toHaveBeenCalled();
+      expect(jest.spyOn(activityLogService, 'logEvent')).toHaveBeenCalledWith({
+        userId: 'user-id',
+        actionType: 'IMPERSONATION_ENDED',
+        username: 'test@example.com',
+        resource: {
+          type: 'User',
+          id: 'user-id',
+          displayName: 'test@example.com',
+        },
+      });
+      expect(result).toEqual({
+        message: 'translated:translation.AUTH.IMPERSONATION_ENDED',
+      });
+    });
   });
 });
@@ -0,0 +1,86 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { I18nService } from 'nestjs-i18n';
+import { ClsService } from 'nestjs-cls';
+import { ImpersonationController } from '../impersonation.controller';
+import { AuthService } from '../auth.service';
+import type { AuthenticatedRequest } from '../auth.controller';
+import { PERMISSIONS_RESOLVER } from '../../common/interfaces';
+import {
+  createMockClsService,
+  createMockI18nService,
+} from '../../common/__tests__/test-utils';
+
+describe('ImpersonationController', () => {
+  let controller: ImpersonationController;
+  let authService: AuthService;
+
+  const mockAuthService = {
+    impersonate: jest.fn(),
+  };
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      controllers: [ImpersonationController],
+      providers: [
+        {
+          provide: AuthService,
+          useValue: mockAuthService,
+        },
+        {
+          provide: I18nService,
+          useValue: createMockI18nService(),
+        },
+        {
+          provide: ClsService,
+          useValue: createMockClsService(),
+        },
+        {
+          provide: PERMISSIONS_RESOLVER,
+          useValue: { resolvePermissions: jest.fn() },
+        },
+      ],
+    }).compile();
+
+    controller = module.get<ImpersonationController>(ImpersonationController);
+    authService = module.get<AuthService>(AuthService);
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('should start an impersonation as the user making the request', async () => {
+    // Arrange
+    const mockRequest = {
+      user: {
+        userId: 'admin-id',
+        email: 'admin@example.com',
+        name: 'Admin',
+        roles: ['admin'],
+      },
+    };
+    const mockResponse = {
+      message: 'You are now acting as test@example.com.',
+      access_token: 'impersonation-token',
+      token_type: 'Bearer',
+      expires_in: 900,
+      user: { id: 'user-id', email: 'test@example.com', name: 'Test User' },
+    };
+    jest.spyOn(authService, 'impersonate').mockResolvedValue(mockResponse);
+
+    // Act
+    const result = await controller.impersonate(
+      'user-id',
+      { reason: 'Support ticket #42' },
+      mockRequest as AuthenticatedRequest,
+    );
+
+    // Assert
+    expect(jest.spyOn(authService, 'impersonate')).toHaveBeenCalledWith(
+      { userId: 'admin-id', email: 'admin@example.com', roles: ['admin'] },
+      'user-id',
+      'Support ticket #42',
+    );
+    expect(result).toEqual(mockResponse);
+  });
+});
@@ -0,0 +1,49 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import type { Response as ExpressResponse } from 'express';
+import { JwksController } from '../jwks.controller';
+import { JwtKeyService } from '../services/jwt-key.service';
+
+describe('JwksController', () => {
+  let controller: JwksController;
+
+  const jwks = {
+    keys: [{ kty: 'EC', crv: 'P-256', kid: 'key-id', use: 'sig' }],
+  };
+  const mockJwtKeyService = {
+    getJwks: jest.fn().mockReturnValue(jwks),
+  };
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      controllers: [JwksController],
+      providers: [
+        {
+          provide: JwtKeyService,
+          useValue: mockJwtKeyService,
+        },
+      ],
+    }).compile();
+
+    controller = module.get<JwksController>(JwksController);
+  });
+
+  it('should write the key set without the response envelope', () => {
+    // Arrange
+    const res = {
+      setHeader: jest.fn(),
+      status: jest.fn().mockReturnThis(),
+      json: jest.fn(),
+    };
+
+    // Act
+    controller.getJwks(res as unknown as ExpressResponse);
+
+    // Assert
+    expect(res.setHeader).toHaveBeenCalledWith(
+      'Cache-Control',
+      'public, max-age=300',
+    );
+    expect(res.status).toHaveBeenCalledWith(200);
+    expect(res.json).toHaveBeenCalledWith(jwks);
+  });
+});
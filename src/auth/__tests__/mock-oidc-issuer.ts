@@ -0,0 +1,197 @@
+import { createServer, IncomingMessage, Server, ServerResponse } from 'http';
+import { AddressInfo } from 'net';
+import {
+  createHash,
+  generateKeyPairSync,
+  KeyObject,
+  randomBytes,
+} from 'crypto';
+import { JwtService } from '@nestjs/jwt';
+
+/**
+ * Authorization request waiting for its code to be exchanged
+ */
+interface PendingCode {
+  redirectUri: string;
+  codeChallenge: string;
+  nonce: string;
+  claims: Record<string, unknown>;
+}
+
+/**
+ * Minimal OpenID Connect provider listening on a local port, for tests
+ *
+ * Serves the discovery document, the JWK set and a token endpoint that
+ * checks the client credentials, the redirect URI and the PKCE verifier.
+ * The authorization endpoint is not served: `authorize` plays the part of
+ * the user approving the login and returns the callback parameters.
+ */
+export class MockOidcIssuer {
+  readonly clientId = 'test-client';
+  readonly clientSecret = 'test-secret';
+  readonly kid = 'test-key';
+  issuer = '';
+
+  /** Set to make the token endpoint return this ID token instead of a valid one */
+  idTokenOverride?: string;
+
+  private server?: Server;
+  private readonly privateKey: KeyObject;
+  private readonly publicKey: KeyObject;
+  private readonly codes = new Map<string, PendingCode>();
+  private readonly jwtService = new JwtService();
+
+  constructor() {
+    const { privateKey, publicKey } = generateKeyPairSync('ec', {
+      namedCurve: 'prime256v1',
+    });
+    this.privateKey = privateKey;
+    this.publicKey = publicKey;
+  }
+
+  /**
+   * Start listening on a free local port
+   */
+  async start(): Promise<void> {
+    const server = createServer((req, res) => {
+      void this.handle(req, res);
+    });
+    this.server = server;
+    await new Promise<void>((resolve) =>
+      server.listen(0, '127.0.0.1', resolve),
+    );
+    const { port } = server.address() as AddressInfo;
+    this.issuer = `http://127.0.0.1:${port}`;
+  }
+
+  /**
+   * Stop listening
+   */
+  async stop(): Promise<void> {
+    await new Promise<void>((resolve) => this.server?.close(() => resolve()));
+  }
+
+  /**
+   * Approve an authorization request as the user would
+   * @param authorizationUrl URL the application redirected the user to
+   * @param claims Claims of the ID token to issue
+   * @returns Parameters the provider sends to the callback
+   */
+  authorize(
+    authorizationUrl: string,
+    claims: Record<string, unknown>,
+  ): { code: string; state: string } {
+    const params = new URL(authorizationUrl).searchParams;
+    const code = randomBytes(16).toString('hex');
+    this.codes.set(code, {
+      redirectUri: params.get('redirect_uri') ?? '',
+      codeChallenge: params.get('code_challenge') ?? '',
+      nonce: params.get('nonce') ?? '',
+      claims,
+    });
+    return { code, state: params.get('state') ?? '' };
+  }
+
+  /**
+   * Sign an ID token with the provider key
+   * @param claims Claims of the token
+   * @returns ID token
+   */
+  signIdToken(claims: Record<string, unknown>): string {
+    return this.jwtService.sign(
+      { iss: this.issuer, aud: this.clientId, ...claims },
+      {
+        secret: this.privateKey
+          .export({ type: 'pkcs8', format: 'pem' })
+          .toString(),
+        algorithm: 'ES256',
+        keyid: this.kid,
+        expiresIn: 300,
+      },
+    );
+  }
+
+  /**
+   * Route a request to the endpoint it is for
+   * @param req Request
+   * @param res Response
+   */
+  private async handle(req: IncomingMessage, res: ServerResponse) {
+    const reply = (status: number, body: unknown) => {
+      res.writeHead(status, { 'Content-Type': 'application/json' });
+      res.end(JSON.stringify(body));
+    };
+
+    if (req.url === '/.well-known/openid-configuration') {
+      return reply(200, {
+        issuer: this.issuer,
+        authorization_endpoint: `${this.issuer}/authorize`,
+        token_endpoint: `${this.issuer}/token`,
+        jwks_uri: `${this.issuer}/jwks`,
+      });
+    }
+    if (req.url === '/jwks') {
+      return reply(200, {
+        keys: [
+          {
+            ...this.publicKey.export({ format: 'jwk' }),
+            kid: this.kid,
+            use: 'sig',
+            alg: 'ES256',
+          },
+        ],
+      });
+    }
+    if (req.url === '/token' && req.method === 'POST') {
+      let body = '';
+      for await (const chunk of req) {
+        body += String(chunk);
+      }
+      return reply(...this.exchange(req.headers.authorization, body));
+    }
+    reply(404, { error: 'not_found' });
+  }
+
+  /**
+   * Exchange an authorization code at the token endpoint
+   * @param authorization Authorization header
+   * @param body Form encoded request body
+   * @returns Status and body of the response
+   */
+  private exchange(
+    authorization: string | undefined,
+    body: string,
+  ): [number, unknown] {
+    const expected = `Basic ${Buffer.from(`${this.clientId}:${this.clientSecret}`).toString('base64')}`;
+    if (authorization !== expected) {
+      return [401, { error: 'invalid_client' }];
+    }
+
+    const params = new URLSearchParams(body);
+    const code = params.get('code') ?? '';
+    const pending = this.codes.get(code);
+    this.codes.delete(code);
+    const challenge = createHash('sha256')
+      .update(params.get('code_verifier') ?? '')
+      .digest('base64url');
+    if (
+      params.get('grant_type') !== 'authorization_code' ||
+      !pending ||
+      pending.redirectUri !== params.get('redirect_uri') ||
+      pending.codeChallenge !== challenge
+    ) {
+      return [400, { error: 'invalid_grant' }];
+    }
+
+    return [
+      200,
+      {
+        access_token: randomBytes(16).toString('hex'),
+        token_type: 'Bearer',
+        id_token:
+          this.idTokenOverride ??
+          this.signIdToken({ nonce: pending.nonce, ...pending.claims }),
+      },
+    ];
+  }
+}
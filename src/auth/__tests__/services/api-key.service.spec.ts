@@ -0,0 +1,245 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { getModelToken } from '@nestjs/mongoose';
+import { ConfigService } from '@nestjs/config';
+import { BadRequestException, NotFoundException } from '@nestjs/common';
+import { I18nService, I18nContext } from 'nestjs-i18n';
+import { ApiKeyService } from '../../services/api-key.service';
+import { Model } from 'mongoose';
+import { ApiKey, ApiKeyDocument } from '../../schemas/api-key.schema';
+import { ActivityLogService } from '../../../activity-log/activity-log.service';
+import {
+  createMockConfigService,
+  createMockI18nService,
+} from '../../../common/__tests__/test-utils';
+
+describe('ApiKeyService', () => {
+  let service: ApiKeyService;
+
+  const userId = '507f1f77bcf86cd799439011';
+  const apiKeyId = '507f1f77bcf86cd799439012';
+  const email = 'john@example.com';
+
+  const createQuery = (value: unknown) => ({
+    sort: jest.fn().mockReturnThis(),
+    exec: jest.fn().mockResolvedValue(value),
+  });
+
+  const mockApiKeyModel = {
+    create: jest.fn(),
+    countDocuments: jest.fn(),
+    find: jest.fn(),
+    findOneAndUpdate: jest.fn(),
+    deleteMany: jest.fn(),
+  };
+  const mockActivityLogService = { logEvent: jest.fn() };
+
+  beforeEach(async () => {
+    jest
+      .spyOn(I18nContext, 'current')
+      .mockReturnValue({ lang: 'en' } as I18nContext<unknown>);
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        ApiKeyService,
+        {
+          provide: getModelToken(ApiKey.name),
+          useValue: mockApiKeyModel,
+        },
+        {
+          provide: ConfigService,
+          useValue: createMockConfigService({
+            API_KEY_SECRET: 'api-key-secret',
+            API_KEY_MAX_PER_USER: '2',
+          }),
+        },
+        { provide: ActivityLogService, useValue: mockActivityLogService },
+        { provide: I18nService, useValue: createMockI18nService() },
+      ],
+    }).compile();
+
+    service = module.get<ApiKeyService>(ApiKeyService);
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('should be defined', () => {
+    expect(service).toBeDefined();
+  });
+
+  it('should refuse to start without API_KEY_SECRET', () => {
+    // Act & Assert
+    expect(
+      () =>
+        new ApiKeyService(
+          mockApiKeyModel as unknown as Model<ApiKeyDocument>,
+          createMockConfigService({
+            JWT_ACCESS_SECRET: 'access-secret',
+          }) as unknown as ConfigService,
+          mockActivityLogService as unknown as ActivityLogService,
+          createMockI18nService() as unknown as I18nService,
+        ),
+    ).toThrow('translated:translation.API_KEY.SECRET_NOT_DEFINED');
+  });
+
+  describe('create', () => {
+    it('should store only the hash and prefix and return the full key once', async () => {
+      // Arrange
+      mockApiKeyModel.countDocuments.mockReturnValue(createQuery(0));
+      mockApiKeyModel.create.mockImplementation(
+        (data: Record<string, unknown>) =>
+          Promise.resolve({ ...data, _id: apiKeyId, createdAt: new Date() }),
+      );
+
+      // Act
+      const result = await service.create(userId, email, {
+        name: 'CI',
+        scopes: ['users:read', 'users:read'],
+      });
+
+      // Assert
+      expect(result.key).toMatch(/^isk_[0-9a-f]{8}_[\w-]{43}$/);
+      expect(result.key.startsWith(result.apiKey.prefix)).toBe(true);
+      const [stored] = mockApiKeyModel.create.mock.calls[0] as [
+        Record<string, unknown>,
+      ];
+      expect(stored.keyHash).toMatch(/^[0-9a-f]{64}$/);
+      expect(Object.values(stored)).not.toContain(result.key);
+      expect(result.apiKey).toEqual(
+        expect.objectContaining({
+          id: apiKeyId,
+          name: 'CI',
+          scopes: ['users:read'],
+          expiresAt: null,
+        }),
+      );
+      expect(result.apiKey).not.toHaveProperty('keyHash');
+      expect(mockActivityLogService.logEvent).toHaveBeenCalledWith(
+        expect.objectContaining({
+          actionType: 'API_KEY_CREATED',
+          resource: { type: 'ApiKey', id: apiKeyId, displayName: 'CI' },
+        }),
+      );
+    });
+
+    it('should throw BadRequestException for an expiry in the past', async () => {
+      // Act & Assert
+      await expect(
+        service.create(userId, email, {
+          name: 'CI',
+          scopes: [],
+          expiresAt: new Date(Date.now() - 1000),
+        }),
+      ).rejects.toThrow(BadRequestException);
+      expect(mockApiKeyModel.create).not.toHaveBeenCalled();
+    });
+
+    it('should throw BadRequestException when the user has too many keys', async () => {
+      // Arrange
+      mockApiKeyModel.countDocuments.mockReturnValue(createQuery(2));
+
+      // Act & Assert
+      await expect(
+        service.create(userId, email, { name: 'CI', scopes: [] }),
+      ).rejects.toThrow(BadRequestException);
+      expect(mockApiKeyModel.create).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('authenticate', () => {
+    it('should look the key up by hash and record its use', async () => {
+      // Arrange
+      const apiKey = { _id: apiKeyId, userId };
+      mockApiKeyModel.findOneAndUpdate.mockReturnValue(createQuery(apiKey));
+
+      // Act
+      const result = await service.authenticate(
+        'isk_4f9a2b7c_secret',
+        '10.0.0.1',
+      );
+
+      // Assert
+      expect(result).toBe(apiKey);
+      expect(mockApiKeyModel.findOneAndUpdate).toHaveBeenCalledWith(
+        expect.objectContaining({
+          keyHash: expect.stringMatching(/^[0-9a-f]{64}$/) as string,
+          revokedAt: null,
+        }),
+        {
+          $set: {
+            lastUsedAt: expect.any(Date) as Date,
+            lastUsedIp: '10.0.0.1',
+          },
+        },
+        { new: true },
+      );
+    });
+
+    it('should not query the database for strings that are not API keys', async () => {
+      // Act
+      const result = await service.authenticate('eyJhbGciOiJIUzI1NiJ9');
+
+      // Assert
+      expect(result).toBeNull();
+      expect(mockApiKeyModel.findOneAndUpdate).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('revoke', () => {
+    it('should revoke an active key of the user', async () => {
+      // Arrange
+      mockApiKeyModel.findOneAndUpdate.mockReturnValue(
+        createQuery({ _id: apiKeyId, name: 'CI', prefix: 'isk_4f9a2b7c' }),
+      );
+
+      // Act
+      await service.revoke(userId, email, apiKeyId);
+
+      // Assert
+      expect(mockApiKeyModel.findOneAndUpdate).toHaveBeenCalledWith(
+        { _id: apiKeyId, userId, revokedAt: null },
+        { $set: { revokedAt: expect.any(Date) as Date } },
+        { new: true },
+      );
+      expect(mockActivityLogService.logEvent).toHaveBeenCalledWith(
+        expect.objectContaining({ actionType: 'API_KEY_REVOKED' }),
+      );
+    });
+
+    it('should throw NotFoundException for a key of another user', async () => {
+      // Arrange
+      mockApiKeyModel.findOneAndUpdate.mockReturnValue(createQuery(null));
+
+      // Act & Assert
+      await expect(service.revoke(userId, email, apiKeyId)).rejects.toThrow(
+        NotFoundException,
+      );
+      expect(mockActivityLogService.logEvent).not.toHaveBeenCalled();
+    });
+
+    it('should throw NotFoundException for a malformed ID', async () => {
+      // Act & Assert
+      await expect(service.revoke(userId, email, 'not-an-id')).rejects.toThrow(
+        NotFoundException,
+      );
+      expect(mockApiKeyModel.findOneAndUpdate).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('deleteAllForUser', () => {
+    it('should delete every key of the user', async () => {
+      // Arrange
+      mockApiKeyModel.deleteMany.mockReturnValue(
+        createQuery({ deletedCount: 2 }),
+      );
+
+      // Act
+      const result = await service.deleteAllForUser(userId);
+
+      // Assert
+      expect(result).toBe(2);
+      expect(mockApiKeyModel.deleteMany).toHaveBeenCalledWith({ userId });
+    });
+  });
+});
@@ -0,0 +1,138 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { getModelToken } from '@nestjs/mongoose';
+import { ExternalIdentityService } from '../../services/external-identity.service';
+import { ExternalIdentity } from '../../schemas/external-identity.schema';
+import { ActivityLogService } from '../../../activity-log/activity-log.service';
+
+describe('ExternalIdentityService', () => {
+  let service: ExternalIdentityService;
+
+  const userId = '507f1f77bcf86cd799439011';
+
+  const createQuery = (value: unknown) => ({
+    exec: jest.fn().mockResolvedValue(value),
+  });
+
+  const mockExternalIdentityModel = {
+    create: jest.fn(),
+    findOne: jest.fn(),
+    updateOne: jest.fn(),
+    deleteMany: jest.fn(),
+  };
+  const mockActivityLogService = { logEvent: jest.fn() };
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        ExternalIdentityService,
+        {
+          provide: getModelToken(ExternalIdentity.name),
+          useValue: mockExternalIdentityModel,
+        },
+        { provide: ActivityLogService, useValue: mockActivityLogService },
+      ],
+    }).compile();
+
+    service = module.get<ExternalIdentityService>(ExternalIdentityService);
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('should be defined', () => {
+    expect(service).toBeDefined();
+  });
+
+  describe('findByProviderSubject', () => {
+    it('should look the identity up by provider and subject', async () => {
+      // Arrange
+      const identity = { provider: 'google', subject: 'user-123' };
+      mockExternalIdentityModel.findOne.mockReturnValue(createQuery(identity));
+
+      // Act
+      const result = await service.findByProviderSubject('google', 'user-123');
+
+      // Assert
+      expect(result).toBe(identity);
+      expect(mockExternalIdentityModel.findOne).toHaveBeenCalledWith({
+        provider: 'google',
+        subject: 'user-123',
+      });
+    });
+  });
+
+  describe('link', () => {
+    it('should store the identity and record the link', async () => {
+      // Arrange
+      mockExternalIdentityModel.create.mockImplementation(
+        (data: Record<string, unknown>) => Promise.resolve(data),
+      );
+
+      // Act
+      await service.link(
+        userId,
+        'jane@example.com',
+        { provider: 'google', subject: 'user-123', email: 'jane@example.com' },
+        true,
+      );
+
+      // Assert
+      const [stored] = mockExternalIdentityModel.create.mock.calls[0] as [
+        Record<string, unknown>,
+      ];
+      expect(String(stored.userId)).toBe(userId);
+      expect(stored).toEqual(
+        expect.objectContaining({
+          provider: 'google',
+          subject: 'user-123',
+          lastLoginAt: expect.any(Date) as Date,
+        }),
+      );
+      expect(mockActivityLogService.logEvent).toHaveBeenCalledWith(
+        expect.objectContaining({
+          userId,
+          actionType: 'EXTERNAL_IDENTITY_LINKED',
+          metadata: { provider: 'google', provisioned: true },
+        }),
+      );
+    });
+  });
+
+  describe('recordLogin', () => {
+    it('should update the time of the last login', async () => {
+      // Arrange
+      mockExternalIdentityModel.updateOne.mockReturnValue(createQuery({}));
+
+      // Act
+      await service.recordLogin({
+        _id: 'identity-id',
+      } as unknown as Parameters<typeof service.recordLogin>[0]);
+
+      // Assert
+      expect(mockExternalIdentityModel.updateOne).toHaveBeenCalledWith(
+        { _id: 'identity-id' },
+        { $set: { lastLoginAt: expect.any(Date) as Date } },
+      );
+    });
+  });
+
+  describe('unlinkAllForUser', () => {
+    it('should delete every identity linked to the user', async () => {
+      // Arrange
+      mockExternalIdentityModel.deleteMany.mockReturnValue(
+        createQuery({ deletedCount: 2 }),
+      );
+
+      // Act
+      const result = await service.unlinkAllForUser(userId);
+
+      // Assert
+      expect(result).toBe(2);
+      const [[filter]] = mockExternalIdentityModel.deleteMany.mock.calls as [
+        [{ userId: { toString(): string } }],
+      ];
+      expect(filter.userId.toString()).toBe(userId);
+    });
+  });
+});
@@ -0,0 +1,223 @@
+import { JwtService } from '@nestjs/jwt';
+import { ConfigService } from '@nestjs/config';
+import { I18nService } from 'nestjs-i18n';
+import { generateKeyPairSync } from 'crypto';
+import { mkdtempSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { JwtKeyService } from '../../services/jwt-key.service';
+import {
+  createMockConfigService,
+  createMockI18nService,
+} from '../../../common/__tests__/test-utils';
+
+describe('JwtKeyService', () => {
+  let keyDir: string;
+  const jwtService = new JwtService({ secret: 'module-secret' });
+
+  /**
+   * Write a new key pair to the key directory
+   * @param name File name prefix
+   * @param type Key type
+   * @returns Paths of the private and public key
+   */
+  const writeKeyPair = (name: string, type: 'ec' | 'rsa' = 'ec') => {
+    const { privateKey, publicKey } =
+      type === 'ec'
+        ? generateKeyPairSync('ec', { namedCurve: 'prime256v1' })
+        : generateKeyPairSync('rsa', { modulusLength: 2048 });
+    const privatePath = join(keyDir, `${name}.pem`);
+    const publicPath = join(keyDir, `${name}.pub.pem`);
+    writeFileSync(
+      privatePath,
+      privateKey.export({ type: 'pkcs8', format: 'pem' }),
+    );
+    writeFileSync(
+      publicPath,
+      publicKey.export({ type: 'spki', format: 'pem' }),
+    );
+    return { privatePath, publicPath };
+  };
+
+  const createService = (config: Record<string, string>) =>
+    new JwtKeyService(
+      createMockConfigService(config) as unknown as ConfigService,
+      createMockI18nService() as unknown as I18nService,
+    );
+
+  const readHeader = (token: string) =>
+    JSON.parse(
+      Buffer.from(token.split('.')[0], 'base64url').toString('utf8'),
+    ) as { alg: string; kid?: string };
+
+  beforeAll(() => {
+    keyDir = mkdtempSync(join(tmpdir(), 'jwt-keys-'));
+  });
+
+  afterAll(() => {
+    rmSync(keyDir, { recursive: true, force: true });
+  });
+
+  describe('HS256', () => {
+    it('should sign with JWT_ACCESS_SECRET and publish no keys', () => {
+      // Arrange
+      const service = createService({ JWT_ACCESS_SECRET: 'access-secret' });
+
+      // Act
+      const token = jwtService.sign(
+        { sub: 'user-id' },
+        service.getSignOptions(),
+      );
+
+      // Assert
+      expect(readHeader(token)).toEqual({ alg: 'HS256', typ: 'JWT' });
+      expect(
+        jwtService.verify(token, service.getVerifyOptions(token) ?? {}),
+      ).toEqual(expect.objectContaining({ sub: 'user-id' }));
+      expect(service.getJwks()).toEqual({ keys: [] });
+    });
+
+    it('should throw when JWT_ACCESS_SECRET is not defined', () => {
+      // Act & Assert
+      expect(() => createService({})).toThrow(
+        'translated:translation.AUTH.JWT_ACCESS_SECRET_NOT_DEFINED',
+      );
+    });
+  });
+
+  describe('ES256', () => {
+    it('should sign with the private key and name it in the kid header', () => {
+      // Arrange
+      const { privatePath } = writeKeyPair('current');
+      const service = createService({
+        JWT_ALGORITHM: 'ES256',
+        JWT_PRIVATE_KEY_PATH: privatePath,
+      });
+
+      // Act
+      const token = jwtService.sign(
+        { sub: 'user-id' },
+        service.getSignOptions(),
+      );
+
+      // Assert
+      const header = readHeader(token);
+      const [jwk] = service.getJwks().keys;
+      expect(header.alg).toBe('ES256');
+      expect(header.kid).toBe(jwk.kid);
+      expect(jwk).toEqual(
+        expect.objectContaining({ kty: 'EC', crv: 'P-256', use: 'sig' }),
+      );
+      expect(jwk).not.toHaveProperty('d');
+      expect(
+        jwtService.verify(token, service.getVerifyOptions(token) ?? {}),
+      ).toEqual(expect.objectContaining({ sub: 'user-id' }));
+    });
+
+    it('should keep verifying tokens of the previous key after a rotation', () => {
+      // Arrange
+      const previous = writeKeyPair('previous');
+      const current = writeKeyPair('next');
+      const before = createService({
+        JWT_ALGORITHM: 'ES256',
+        JWT_PRIVATE_KEY_PATH: previous.privatePath,
+      });
+      const oldToken = jwtService.sign(
+        { sub: 'user-id' },
+        before.getSignOptions(),
+      );
+
+      // Act
+      const after = createService({
+        JWT_ALGORITHM: 'ES256',
+        JWT_PRIVATE_KEY_PATH: current.privatePath,
+        JWT_PUBLIC_KEY_PATHS: ` ${previous.publicPath} `,
+      });
+      const newToken = jwtService.sign(
+        { sub: 'user-id' },
+        after.getSignOptions(),
+      );
+
+      // Assert
+      expect(after.getJwks().keys.map((key) => key.kid)).toEqual([
+        readHeader(newToken).kid,
+        readHeader(oldToken).kid,
+      ]);
+      expect(
+        jwtService.verify(oldToken, after.getVerifyOptions(oldToken) ?? {}),
+      ).toEqual(expect.objectContaining({ sub: 'user-id' }));
+    });
+
+    it('should not resolve a key for an unknown kid or an HS256 token', () => {
+      // Arrange
+      const { privatePath } = writeKeyPair('only');
+      const service = createService({
+        JWT_ALGORITHM: 'ES256',
+        JWT_PRIVATE_KEY_PATH: privatePath,
+      });
+      const foreignToken = jwtService.sign(
+        { sub: 'user-id' },
+        { secret: 'module-secret', keyid: 'unknown' },
+      );
+      const hmacToken = jwtService.sign(
+        { sub: 'user-id' },
+        { secret: 'module-secret' },
+      );
+
+      // Act & Assert
+      expect(service.getVerifyOptions(foreignToken)).toBeNull();
+      expect(() =>
+        jwtService.verify<{ sub: string }>(
+          hmacToken,
+          service.getVerifyOptions(hmacToken) ?? {},
+        ),
+      ).toThrow();
+    });
+
+    it('should throw when the key does not match the algorithm', () => {
+      // Arrange
+      const { privatePath } = writeKeyPair('ec-for-rsa');
+
+      // Act & Assert
+      expect(() =>
+        createService({
+          JWT_ALGORITHM: 'RS256',
+          JWT_PRIVATE_KEY_PATH: privatePath,
+        }),
+      ).toThrow('translated:translation.AUTH.JWT_KEY_TYPE_MISMATCH');
+    });
+  });
+
+  describe('RS256', () => {
+    it('should sign and publish an RSA key', () => {
+      // Arrange
+      const { privatePath } = writeKeyPair('rsa', 'rsa');
+      const service = createService({
+        JWT_ALGORITHM: 'rs256',
+        JWT_PRIVATE_KEY_PATH: privatePath,
+      });
+
+      // Act
+      const token = jwtService.sign(
+        { sub: 'user-id' },
+        service.getSignOptions(),
+      );
+
+      // Assert
+      expect(readHeader(token).alg).toBe('RS256');
+      expect(service.getJwks().keys[0]).toEqual(
+        expect.objectContaining({ kty: 'RSA', alg: 'RS256' }),
+      );
+      expect(
+        jwtService.verify(token, service.getVerifyOptions(token) ?? {}),
+      ).toEqual(expect.objectContaining({ sub: 'user-id' }));
+    });
+  });
+
+  it('should throw for an unsupported algorithm', () => {
+    // Act & Assert
+    expect(() => createService({ JWT_ALGORITHM: 'none' })).toThrow(
+      'translated:translation.AUTH.JWT_ALGORITHM_UNSUPPORTED',
+    );
+  });
+});
@@ -0,0 +1,198 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { getModelToken } from '@nestjs/mongoose';
+import { ConfigService } from '@nestjs/config';
+import { HttpException, HttpStatus } from '@nestjs/common';
+import { I18nService, I18nContext } from 'nestjs-i18n';
+import { LoginThrottleService } from '../../services/login-throttle.service';
+import { LoginAttempt } from '../../schemas/login-attempt.schema';
+import {
+  createMockConfigService,
+  createMockI18nService,
+} from '../../../common/__tests__/test-utils';
+
+describe('LoginThrottleService', () => {
+  let service: LoginThrottleService;
+
+  const createQuery = (value: unknown) => ({
+    exec: jest.fn().mockResolvedValue(value),
+  });
+
+  const mockLoginAttemptModel = {
+    find: jest.fn(),
+    findOneAndUpdate: jest.fn(),
+    updateOne: jest.fn(),
+    deleteOne: jest.fn(),
+  };
+
+  beforeEach(async () => {
+    jest
+      .spyOn(I18nContext, 'current')
+      .mockReturnValue({ lang: 'en' } as I18nContext<unknown>);
+    mockLoginAttemptModel.deleteOne.mockReturnValue(
+      createQuery({ deletedCount: 0 }),
+    );
+    mockLoginAttemptModel.updateOne.mockReturnValue(createQuery({}));
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        LoginThrottleService,
+        {
+          provide: getModelToken(LoginAttempt.name),
+          useValue: mockLoginAttemptModel,
+        },
+        {
+          provide: ConfigService,
+          useValue: createMockConfigService({
+            LOGIN_MAX_ATTEMPTS: '3',
+            LOGIN_IP_MAX_ATTEMPTS: '10',
+            LOGIN_LOCKOUT_DURATION: '60',
+            LOGIN_LOCKOUT_MAX_DURATION: '600',
+          }),
+        },
+        {
+          provide: I18nService,
+          useValue: createMockI18nService(),
+        },
+      ],
+    }).compile();
+
+    service = module.get<LoginThrottleService>(LoginThrottleService);
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('assertNotLocked', () => {
+    it('should allow the login when nothing is locked', async () => {
+      // Arrange
+      mockLoginAttemptModel.find.mockReturnValue(createQuery([]));
+
+      // Act & Assert
+      await expect(
+        service.assertNotLocked('Test@Example.com', '10.0.0.1'),
+      ).resolves.toBeUndefined();
+      expect(mockLoginAttemptModel.find).toHaveBeenCalledWith({
+        key: { $in: ['account:test@example.com', 'ip:10.0.0.1'] },
+        lockedUntil: { $gt: expect.any(Date) as Date },
+      });
+    });
+
+    it('should refuse the login with the longest remaining lockout', async () => {
+      // Arrange
+      const now = Date.now();
+      mockLoginAttemptModel.find.mockReturnValue(
+        createQuery([
+          { lockedUntil: new Date(now + 30_000) },
+          { lockedUntil: new Date(now + 120_000) },
+        ]),
+      );
+
+      // Act
+      const error = await service
+        .assertNotLocked('test@example.com', '10.0.0.1')
+        .catch((caught: unknown) => caught);
+
+      // Assert
+      expect(error).toBeInstanceOf(HttpException);
+      const exception = error as HttpException;
+      expect(exception.getStatus()).toBe(HttpStatus.TOO_MANY_REQUESTS);
+      expect(exception.getResponse()).toEqual({
+        message: 'translated:translation.AUTH.ACCOUNT_LOCKED',
+        retryAfter: 120,
+      });
+    });
+
+    it('should not throttle requests without a known IP address', async () => {
+      // Arrange
+      mockLoginAttemptModel.find.mockReturnValue(createQuery([]));
+
+      // Act
+      await service.assertNotLocked('test@example.com', 'unknown');
+
+      // Assert
+      expect(mockLoginAttemptModel.find).toHaveBeenCalledWith(
+        expect.objectContaining({
+          key: { $in: ['account:test@example.com'] },
+        }),
+      );
+    });
+  });
+
+  describe('recordFailure', () => {
+    it('should count the failure for the account and the IP address', async () => {
+      // Arrange
+      mockLoginAttemptModel.findOneAndUpdate.mockReturnValue(
+        createQuery({ failures: 1 }),
+      );
+
+      // Act
+      await service.recordFailure('test@example.com', '10.0.0.1');
+
+      // Assert
+      const keys = mockLoginAttemptModel.findOneAndUpdate.mock.calls.map(
+        ([filter]: [{ key: string }]) => filter.key,
+      );
+      expect(keys).toEqual(['account:test@example.com', 'ip:10.0.0.1']);
+      expect(mockLoginAttemptModel.updateOne).not.toHaveBeenCalled();
+    });
+
+    it('should lock once the threshold is reached', async () => {
+      // Arrange
+      mockLoginAttemptModel.findOneAndUpdate.mockReturnValue(
+        createQuery({ failures: 3 }),
+      );
+      const before = Date.now();
+
+      // Act
+      await service.recordFailure('test@example.com');
+
+      // Assert
+      const [, update] = mockLoginAttemptModel.updateOne.mock.calls[0] as [
+        unknown,
+        { $set: { lockedUntil: Date } },
+      ];
+      const lockoutMs = update.$set.lockedUntil.getTime() - before;
+      expect(lockoutMs).toBeGreaterThanOrEqual(60_000);
+      expect(lockoutMs).toBeLessThan(61_000);
+    });
+
+    it('should double the lockout with every further failure up to the maximum', async () => {
+      // Arrange
+      mockLoginAttemptModel.findOneAndUpdate.mockReturnValue(
+        createQuery({ failures: 5 }),
+      );
+      const before = Date.now();
+
+      // Act
+      await service.recordFailure('test@example.com');
+
+      // Assert
+      const [, update] = mockLoginAttemptModel.updateOne.mock.calls[0] as [
+        unknown,
+        { $set: { lockedUntil: Date } },
+      ];
+      const lockoutMs = update.$set.lockedUntil.getTime() - before;
+      expect(lockoutMs).toBeGreaterThanOrEqual(240_000);
+      expect(lockoutMs).toBeLessThan(241_000);
+    });
+  });
+
+  describe('unlock', () => {
+    it('should forget the failures of the account', async () => {
+      // Arrange
+      mockLoginAttemptModel.deleteOne.mockReturnValue(
+        createQuery({ deletedCount: 1 }),
+      );
+
+      // Act
+      const result = await service.unlock('Test@Example.com');
+
+      // Assert
+      expect(result).toBe(true);
+      expect(mockLoginAttemptModel.deleteOne).toHaveBeenCalledWith({
+        key: 'account:test@example.com',
+      });
+    });
+  });
+});
@@ -0,0 +1,316 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { getModelToken } from '@nestjs/mongoose';
+import { ConfigService } from '@nestjs/config';
+import { BadRequestException, ConflictException } from '@nestjs/common';
+import { I18nService, I18nContext } from 'nestjs-i18n';
+import { MfaService } from '../../services/mfa.service';
+import { MfaCredential } from '../../schemas/mfa-credential.schema';
+import { ActivityLogService } from '../../../activity-log/activity-log.service';
+import { generateTotp, getTotpCounter } from '../../utils';
+import {
+  createMockConfigService,
+  createMockI18nService,
+} from '../../../common/__tests__/test-utils';
+
+describe('MfaService', () => {
+  let service: MfaService;
+
+  const userId = '507f1f77bcf86cd799439011';
+  const email = 'john@example.com';
+
+  const createQuery = (value: unknown) => ({
+    exec: jest.fn().mockResolvedValue(value),
+  });
+
+  const mockMfaCredentialModel = {
+    exists: jest.fn(),
+    findOne: jest.fn(),
+    updateOne: jest.fn(),
+    deleteOne: jest.fn(),
+  };
+  const mockActivityLogService = { logEvent: jest.fn() };
+
+  /**
+   * Start an enrollment and return the secret and the stored credential
+   */
+  const enroll = async () => {
+    mockMfaCredentialModel.exists.mockReturnValue(createQuery(null));
+    mockMfaCredentialModel.updateOne.mockReturnValue(createQuery({}));
+    const { secret } = await service.startEnrollment(userId, email);
+    const [, update] = mockMfaCredentialModel.updateOne.mock.calls[0] as [
+      unknown,
+      { $set: { secret: string } },
+    ];
+    jest.clearAllMocks();
+    return {
+      secret,
+      credential: { _id: 'credential-id', secret: update.$set.secret },
+    };
+  };
+
+  beforeEach(async () => {
+    jest
+      .spyOn(I18nContext, 'current')
+      .mockReturnValue({ lang: 'en' } as I18nContext<unknown>);
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        MfaService,
+        {
+          provide: getModelToken(MfaCredential.name),
+          useValue: mockMfaCredentialModel,
+        },
+        {
+          provide: ConfigService,
+          useValue: createMockConfigService({
+            JWT_ACCESS_SECRET: 'access-secret',
+            MFA_ISSUER: 'IntelliScope',
+          }),
+        },
+        { provide: ActivityLogService, useValue: mockActivityLogService },
+        { provide: I18nService, useValue: createMockI18nService() },
+      ],
+    }).compile();
+
+    service = module.get<MfaService>(MfaService);
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('should be defined', () => {
+    expect(service).toBeDefined();
+  });
+
+  describe('startEnrollment', () => {
+    it('should store the secret encrypted and return the key URI', async () => {
+      // Arrange
+      mockMfaCredentialModel.exists.mockReturnValue(createQuery(null));
+      mockMfaCredentialModel.updateOne.mockReturnValue(createQuery({}));
+
+      // Act
+      const result = await service.startEnrollment(userId, email);
+
+      // Assert
+      expect(result.secret).toMatch(/^[A-Z2-7]{32}$/);
+      expect(result.otpauthUrl).toContain(`secret=${result.secret}`);
+      expect(result.otpauthUrl).toContain('issuer=IntelliScope');
+      const [filter, update, options] = mockMfaCredentialModel.updateOne.mock
+        .calls[0] as [unknown, { $set: { secret: string } }, unknown];
+      expect(filter).toEqual({ userId, enabled: false });
+      expect(update.$set.secret).not.toContain(result.secret);
+      expect(options).toEqual({ upsert: true });
+      expect(mockActivityLogService.logEvent).toHaveBeenCalledWith(
+        expect.objectContaining({ actionType: 'MFA_ENROLLMENT_STARTED' }),
+      );
+    });
+
+    it('should throw ConflictException when MFA is already enabled', async () => {
+      // Arrange
+      mockMfaCredentialModel.exists.mockReturnValue(
+        createQuery({ _id: 'credential-id' }),
+      );
+
+      // Act & Assert
+      await expect(service.startEnrollment(userId, email)).rejects.toThrow(
+        ConflictException,
+      );
+      expect(mockMfaCredentialModel.updateOne).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('confirmEnrollment', () => {
+    it('should enable MFA and return recovery codes', async () => {
+      // Arrange
+      const { secret, credential } = await enroll();
+      mockMfaCredentialModel.findOne.mockReturnValue(createQuery(credential));
+      mockMfaCredentialModel.updateOne.mockReturnValue(createQuery({}));
+      const code = generateTotp(secret, getTotpCounter());
+
+      // Act
+      const recoveryCodes = await service.confirmEnrollment(
+        userId,
+        email,
+        code,
+      );
+
+      // Assert
+      expect(recoveryCodes).toHaveLength(10);
+      expect(recoveryCodes[0]).toMatch(/^[a-z2-7]{5}-[a-z2-7]{5}$/);
+      const [, update] = mockMfaCredentialModel.updateOne.mock.calls[0] as [
+        unknown,
+        { $set: { enabled: boolean; recoveryCodeHashes: string[] } },
+      ];
+      expect(update.$set.enabled).toBe(true);
+      expect(update.$set.recoveryCodeHashes).toHaveLength(10);
+      expect(update.$set.recoveryCodeHashes).not.toContain(recoveryCodes[0]);
+      expect(mockActivityLogService.logEvent).toHaveBeenCalledWith(
+        expect.objectContaining({ actionType: 'MFA_ENABLED' }),
+      );
+    });
+
+    it('should throw BadRequestException for a wrong code', async () => {
+      // Arrange
+      const { secret, credential } = await enroll();
+      mockMfaCredentialModel.findOne.mockReturnValue(createQuery(credential));
+      const code = generateTotp(secret, getTotpCounter() - 10);
+
+      // Act & Assert
+      await expect(
+        service.confirmEnrollment(userId, email, code),
+      ).rejects.toThrow(BadRequestException);
+      expect(mockMfaCredentialModel.updateOne).not.toHaveBeenCalled();
+    });
+
+    it('should throw BadRequestException when no enrollment was started', async () => {
+      // Arrange
+      mockMfaCredentialModel.findOne.mockReturnValue(createQuery(null));
+
+      // Act & Assert
+      await expect(
+        service.confirmEnrollment(userId, email, '123456'),
+      ).rejects.toThrow(BadRequestException);
+    });
+  });
+
+  describe('verify', () => {
+    it('should accept a TOTP code of a time step not used yet', async () => {
+      // Arrange
+      const { secret, credential } = await enroll();
+      mockMfaCredentialModel.findOne.mockReturnValue(createQuery(credential));
+      mockMfaCredentialModel.updateOne.mockReturnValue(
+        createQuery({ modifiedCount: 1 }),
+      );
+      const step = getTotpCounter();
+
+      // Act
+      const result = await service.verify(
+        userId,
+        email,
+        generateTotp(secret, step),
+      );
+
+      // Assert
+      expect(result).toBe('totp');
+      expect(mockMfaCredentialModel.updateOne).toHaveBeenCalledWith(
+        { _id: 'credential-id', lastUsedStep: { $lt: step } },
+        { $set: { lastUsedStep: step } },
+      );
+      expect(mockActivityLogService.logEvent).toHaveBeenCalledWith(
+        expect.objectContaining({
+          actionType: 'MFA_VERIFIED',
+          metadata: { method: 'totp' },
+        }),
+      );
+    });
+
+    it('should reject a TOTP code that was already used', async () => {
+      // Arrange
+      const { secret, credential } = await enroll();
+      mockMfaCredentialModel.findOne.mockReturnValue(createQuery(credential));
+      mockMfaCredentialModel.updateOne.mockReturnValue(
+        createQuery({ modifiedCount: 0 }),
+      );
+
+      // Act
+      const result = await service.verify(
+        userId,
+        email,
+        generateTotp(secret, getTotpCounter()),
+      );
+
+      // Assert
+      expect(result).toBeNull();
+      expect(mockActivityLogService.logEvent).toHaveBeenCalledWith(
+        expect.objectContaining({
+          actionType: 'MFA_VERIFICATION_FAILED',
+          operationStatus: 'FAILURE',
+        }),
+      );
+    });
+
+    it('should consume a recovery code', async () => {
+      // Arrange
+      const { credential } = await enroll();
+      mockMfaCredentialModel.findOne.mockReturnValue(createQuery(credential));
+      mockMfaCredentialModel.updateOne.mockReturnValue(
+        createQuery({ modifiedCount: 1 }),
+      );
+
+      // Act
+      const result = await service.verify(userId, email, 'K7QXM-2VDPA');
+
+      // Assert
+      expect(result).toBe('recovery_code');
+      expect(mockMfaCredentialModel.updateOne).toHaveBeenCalledWith(
+        { _id: 'credential-id' },
+        { $pull: { recoveryCodeHashes: expect.any(String) as string } },
+      );
+    });
+
+    it('should return null when MFA is not enabled', async () => {
+      // Arrange
+      mockMfaCredentialModel.findOne.mockReturnValue(createQuery(null));
+
+      // Act
+      const result = await service.verify(userId, email, '123456');
+
+      // Assert
+      expect(result).toBeNull();
+    });
+  });
+
+  describe('reset', () => {
+    it('should remove the credential and record the administrator', async () => {
+      // Arrange
+      mockMfaCredentialModel.deleteOne.mockReturnValue(
+        createQuery({ deletedCount: 1 }),
+      );
+
+      // Act
+      const result = await service.reset(userId, email, 'admin-id');
+
+      // Assert
+      expect(result).toBe(true);
+      expect(mockMfaCredentialModel.deleteOne).toHaveBeenCalledWith({ userId });
+      expect(mockActivityLogService.logEvent).toHaveBeenCalledWith(
+        expect.objectContaining({
+          actionType: 'MFA_RESET',
+          metadata: { resetBy: 'admin-id' },
+        }),
+      );
+    });
+
+    it('should return false when MFA was not set up', async () => {
+      // Arrange
+      mockMfaCredentialModel.deleteOne.mockReturnValue(
+        createQuery({ deletedCount: 0 }),
+      );
+
+      // Act
+      const result = await service.reset(userId, email, 'admin-id');
+
+      // Assert
+      expect(result).toBe(false);
+      expect(mockActivityLogService.logEvent).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('deleteForUser', () => {
+    it('should delete the credential without logging a reset', async () => {
+      // Arrange
+      mockMfaCredentialModel.deleteOne.mockReturnValue(
+        createQuery({ deletedCount: 1 }),
+      );
+
+      // Act
+      const result = await service.deleteForUser(userId);
+
+      // Assert
+      expect(result).toBe(true);
+      expect(mockMfaCredentialModel.deleteOne).toHaveBeenCalledWith({ userId });
+      expect(mockActivityLogService.logEvent).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,203 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { getModelToken } from '@nestjs/mongoose';
+import { ConfigService } from '@nestjs/config';
+import { NotFoundException } from '@nestjs/common';
+import { I18nService, I18nContext } from 'nestjs-i18n';
+import { OAuthClientService } from '../../services/oauth-client.service';
+import { OAuthClient } from '../../schemas/oauth-client.schema';
+import { ActivityLogService } from '../../../activity-log/activity-log.service';
+import {
+  createMockConfigService,
+  createMockI18nService,
+} from '../../../common/__tests__/test-utils';
+
+describe('OAuthClientService', () => {
+  let service: OAuthClientService;
+
+  const userId = '507f1f77bcf86cd799439011';
+  const recordId = '507f1f77bcf86cd799439012';
+  const email = 'admin@example.com';
+
+  const createQuery = (value: unknown) => ({
+    sort: jest.fn().mockReturnThis(),
+    exec: jest.fn().mockResolvedValue(value),
+  });
+
+  const mockOAuthClientModel = {
+    create: jest.fn(),
+    find: jest.fn(),
+    findOne: jest.fn(),
+    findOneAndUpdate: jest.fn(),
+    updateOne: jest.fn(),
+  };
+  const mockActivityLogService = { logEvent: jest.fn() };
+
+  beforeEach(async () => {
+    jest
+      .spyOn(I18nContext, 'current')
+      .mockReturnValue({ lang: 'en' } as I18nContext<unknown>);
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        OAuthClientService,
+        {
+          provide: getModelToken(OAuthClient.name),
+          useValue: mockOAuthClientModel,
+        },
+        {
+          provide: ConfigService,
+          useValue: createMockConfigService({
+            JWT_ACCESS_SECRET: 'access-secret',
+          }),
+        },
+        { provide: ActivityLogService, useValue: mockActivityLogService },
+        { provide: I18nService, useValue: createMockI18nService() },
+      ],
+    }).compile();
+
+    service = module.get<OAuthClientService>(OAuthClientService);
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('should be defined', () => {
+    expect(service).toBeDefined();
+  });
+
+  /**
+   * Register a client and return the stored record and its secret
+   */
+  const registerClient = async () => {
+    mockOAuthClientModel.create.mockImplementation(
+      (data: Record<string, unknown>) =>
+        Promise.resolve({ ...data, _id: recordId, createdAt: new Date() }),
+    );
+    const result = await service.create(userId, email, {
+      name: 'Billing service',
+      scopes: ['users:read', 'users:read'],
+    });
+    const [stored] = mockOAuthClientModel.create.mock.calls[0] as [
+      Record<string, unknown>,
+    ];
+    return { result, stored };
+  };
+
+  describe('create', () => {
+    it('should store only the hash of the secret and return the secret once', async () => {
+      // Act
+      const { result, stored } = await registerClient();
+
+      // Assert
+      expect(result.client.clientId).toMatch(/^[0-9a-f]{32}$/);
+      expect(result.clientSecret).toMatch(/^[\w-]{43}$/);
+      expect(stored.secretHash).toMatch(/^[0-9a-f]{64}$/);
+      expect(Object.values(stored)).not.toContain(result.clientSecret);
+      expect(result.client).toEqual(
+        expect.objectContaining({
+          id: recordId,
+          name: 'Billing service',
+          scopes: ['users:read'],
+        }),
+      );
+      expect(result.client).not.toHaveProperty('secretHash');
+      expect(mockActivityLogService.logEvent).toHaveBeenCalledWith(
+        expect.objectContaining({
+          actionType: 'OAUTH_CLIENT_CREATED',
+          userId,
+        }),
+      );
+    });
+  });
+
+  describe('authenticate', () => {
+    it('should return the client when the secret matches and record its use', async () => {
+      // Arrange
+      const { result, stored } = await registerClient();
+      mockOAuthClientModel.findOne.mockReturnValue(
+        createQuery({ ...stored, _id: recordId }),
+      );
+      mockOAuthClientModel.updateOne.mockReturnValue(createQuery({}));
+
+      // Act
+      const client = await service.authenticate(
+        result.client.clientId,
+        result.clientSecret,
+      );
+
+      // Assert
+      expect(mockOAuthClientModel.findOne).toHaveBeenCalledWith({
+        clientId: result.client.clientId,
+        disabledAt: null,
+      });
+      expect(client).toEqual(
+        expect.objectContaining({ clientId: result.client.clientId }),
+      );
+      expect(mockOAuthClientModel.updateOne).toHaveBeenCalledWith(
+        { _id: recordId },
+        { $set: { lastUsedAt: expect.any(Date) as Date } },
+      );
+    });
+
+    it('should return null when the secret is wrong', async () => {
+      // Arrange
+      const { result, stored } = await registerClient();
+      mockOAuthClientModel.findOne.mockReturnValue(createQuery(stored));
+
+      // Act
+      const client = await service.authenticate(
+        result.client.clientId,
+        'wrong-secret',
+      );
+
+      // Assert
+      expect(client).toBeNull();
+      expect(mockOAuthClientModel.updateOne).not.toHaveBeenCalled();
+    });
+
+    it('should return null for an unknown or disabled client', async () => {
+      // Arrange
+      mockOAuthClientModel.findOne.mockReturnValue(createQuery(null));
+
+      // Act
+      const client = await service.authenticate('unknown', 'secret');
+
+      // Assert
+      expect(client).toBeNull();
+    });
+  });
+
+  describe('disable', () => {
+    it('should disable the client and log the event', async () => {
+      // Arrange
+      mockOAuthClientModel.findOneAndUpdate.mockReturnValue(
+        createQuery({ clientId: 'client-id', name: 'Billing service' }),
+      );
+
+      // Act
+      await service.disable(userId, email, 'client-id');
+
+      // Assert
+      expect(mockOAuthClientModel.findOneAndUpdate).toHaveBeenCalledWith(
+        { clientId: 'client-id', disabledAt: null },
+        { $set: { disabledAt: expect.any(Date) as Date } },
+        { new: true },
+      );
+      expect(mockActivityLogService.logEvent).toHaveBeenCalledWith(
+        expect.objectContaining({ actionType: 'OAUTH_CLIENT_DISABLED' }),
+      );
+    });
+
+    it('should throw NotFoundException when no active client matches', async () => {
+      // Arrange
+      mockOAuthClientModel.findOneAndUpdate.mockReturnValue(createQuery(null));
+
+      // Act & Assert
+      await expect(service.disable(userId, email, 'client-id')).rejects.toThrow(
+        NotFoundException,
+      );
+      expect(mockActivityLogService.logEvent).not.toHaveBeenCalled();
+    });
+  });
+});
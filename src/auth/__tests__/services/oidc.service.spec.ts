@@ -0,0 +1,305 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { createHash } from 'crypto';
+import { getModelToken } from '@nestjs/mongoose';
+import { ConfigService } from '@nestjs/config';
+import { JwtService } from '@nestjs/jwt';
+import {
+  BadGatewayException,
+  NotFoundException,
+  UnauthorizedException,
+} from '@nestjs/common';
+import { I18nService, I18nContext } from 'nestjs-i18n';
+import { OidcService } from '../../services/oidc.service';
+import { OidcLoginState } from '../../schemas/oidc-login-state.schema';
+import { MockOidcIssuer } from '../mock-oidc-issuer';
+import {
+  createMockConfigService,
+  createMockI18nService,
+} from '../../../common/__tests__/test-utils';
+
+describe('OidcService', () => {
+  let service: OidcService;
+  const issuer = new MockOidcIssuer();
+  const redirectUri = 'http://localhost:3000/api/auth/oidc/test/callback';
+
+  // Login states kept in memory instead of MongoDB
+  let loginStates: Array<Record<string, unknown>>;
+  const mockOidcLoginStateModel = {
+    create: jest.fn((data: Record<string, unknown>) => {
+      loginStates.push(data);
+      return Promise.resolve(data);
+    }),
+    findOneAndDelete: jest.fn(
+      (filter: { state: string; provider: string }) => ({
+        exec: jest.fn(() => {
+          const index = loginStates.findIndex(
+            (loginState) =>
+              loginState.state === filter.state &&
+              loginState.provider === filter.provider &&
+              (loginState.expiresAt as Date) > new Date(),
+          );
+          return Promise.resolve(
+            index === -1 ? null : loginStates.splice(index, 1)[0],
+          );
+        }),
+      }),
+    ),
+  };
+
+  const createService = async (config: Record<string, string> = {}) => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        OidcService,
+        {
+          provide: getModelToken(OidcLoginState.name),
+          useValue: mockOidcLoginStateModel,
+        },
+        {
+          provide: ConfigService,
+          useValue: createMockConfigService({
+            OIDC_PROVIDERS: 'test',
+            OIDC_TEST_ISSUER: issuer.issuer,
+            OIDC_TEST_CLIENT_ID: issuer.clientId,
+            OIDC_TEST_CLIENT_SECRET: issuer.clientSecret,
+            OIDC_TEST_REDIRECT_URI: redirectUri,
+            ...config,
+          }),
+        },
+        { provide: JwtService, useValue: new JwtService() },
+        { provide: I18nService, useValue: createMockI18nService() },
+      ],
+    }).compile();
+
+    return module.get<OidcService>(OidcService);
+  };
+
+  /**
+   * Start a login and approve it at the mock issuer
+   * @param claims Claims of the ID token
+   * @returns Callback parameters, with the hash of the state from the cookie
+   */
+  const approveLogin = async (claims: Record<string, unknown>) => {
+    const { url, stateHash } = await service.createAuthorizationUrl('test');
+    return { ...issuer.authorize(url, claims), stateHash };
+  };
+
+  beforeAll(async () => {
+    await issuer.start();
+  });
+
+  afterAll(async () => {
+    await issuer.stop();
+  });
+
+  beforeEach(async () => {
+    jest
+      .spyOn(I18nContext, 'current')
+      .mockReturnValue({ lang: 'en' } as I18nContext<unknown>);
+    loginStates = [];
+    issuer.idTokenOverride = undefined;
+    service = await createService();
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('should be defined', () => {
+    expect(service).toBeDefined();
+  });
+
+  describe('getProvider', () => {
+    it('should read the provider configuration', () => {
+      // Act
+      const provider = service.getProvider('TEST');
+
+      // Assert
+      expect(provider).toEqual({
+        name: 'test',
+        issuer: issuer.issuer,
+        clientId: issuer.clientId,
+        clientSecret: issuer.clientSecret,
+        redirectUri,
+        scopes: ['openid', 'email', 'profile'],
+      });
+    });
+
+    it('should throw NotFoundException for a provider that is not enabled', async () => {
+      // Arrange
+      service = await createService({ OIDC_PROVIDERS: 'other' });
+
+      // Act & Assert
+      expect(() => service.getProvider('test')).toThrow(NotFoundException);
+    });
+  });
+
+  describe('createAuthorizationUrl', () => {
+    it('should build an authorization request with PKCE and remember its state', async () => {
+      // Act
+      const authorization = await service.createAuthorizationUrl('test');
+      const url = new URL(authorization.url);
+
+      // Assert
+      expect(`${url.origin}${url.pathname}`).toBe(`${issuer.issuer}/authorize`);
+      expect(url.searchParams.get('response_type')).toBe('code');
+      expect(url.searchParams.get('client_id')).toBe(issuer.clientId);
+      expect(url.searchParams.get('redirect_uri')).toBe(redirectUri);
+      expect(url.searchParams.get('scope')).toBe('openid email profile');
+      expect(url.searchParams.get('code_challenge_method')).toBe('S256');
+      expect(loginStates).toEqual([
+        expect.objectContaining({
+          state: url.searchParams.get('state'),
+          nonce: url.searchParams.get('nonce'),
+          provider: 'test',
+        }),
+      ]);
+      expect(loginStates[0].codeVerifier).not.toBe(
+        url.searchParams.get('code_challenge'),
+      );
+      expect(authorization.stateHash).toBe(
+        createHash('sha256')
+          .update(url.searchParams.get('state') as string)
+          .digest('base64url'),
+      );
+    });
+
+    it('should throw BadGatewayException when the discovery document cannot be read', async () => {
+      // Arrange
+      service = await createService({
+        OIDC_TEST_ISSUER: `${issuer.issuer}/unknown`,
+      });
+
+      // Act & Assert
+      await expect(service.createAuthorizationUrl('test')).rejects.toThrow(
+        BadGatewayException,
+      );
+    });
+  });
+
+  describe('handleCallback', () => {
+    it('should exchange the code and return the claims of the ID token', async () => {
+      // Arrange
+      const params = await approveLogin({
+        sub: 'user-123',
+        email: 'jane@example.com',
+        email_verified: true,
+      });
+
+      // Act
+      const claims = await service.handleCallback('test', params);
+
+      // Assert
+      expect(claims).toEqual(
+        expect.objectContaining({
+          sub: 'user-123',
+          email: 'jane@example.com',
+          email_verified: true,
+        }),
+      );
+    });
+
+    it('should only accept a state once', async () => {
+      // Arrange
+      const params = await approveLogin({ sub: 'user-123' });
+      await service.handleCallback('test', params);
+
+      // Act & Assert
+      await expect(service.handleCallback('test', params)).rejects.toThrow(
+        UnauthorizedException,
+      );
+    });
+
+    it('should reject an unknown state', async () => {
+      // Arrange
+      const params = await approveLogin({ sub: 'user-123' });
+
+      // Act & Assert
+      await expect(
+        service.handleCallback('test', { ...params, state: 'forged' }),
+      ).rejects.toThrow(UnauthorizedException);
+    });
+
+    it('should reject a callback without the cookie of the browser that started the login', async () => {
+      // Arrange
+      const params = await approveLogin({ sub: 'user-123' });
+      const other = await approveLogin({ sub: 'attacker' });
+
+      // Act & Assert
+      await expect(
+        service.handleCallback('test', { ...params, stateHash: undefined }),
+      ).rejects.toThrow(UnauthorizedException);
+      await expect(
+        service.handleCallback('test', {
+          ...params,
+          stateHash: other.stateHash,
+        }),
+      ).rejects.toThrow(UnauthorizedException);
+      expect(loginStates).toHaveLength(2);
+    });
+
+    it('should reject a login refused at the provider', async () => {
+      // Arrange
+      const { state, stateHash } = await approveLogin({ sub: 'user-123' });
+
+      // Act & Assert
+      await expect(
+        service.handleCallback('test', {
+          state,
+          stateHash,
+          error: 'access_denied',
+        }),
+      ).rejects.toThrow(UnauthorizedException);
+    });
+
+    it('should reject a code the provider does not accept', async () => {
+      // Arrange
+      const { state, stateHash } = await approveLogin({ sub: 'user-123' });
+
+      // Act & Assert
+      await expect(
+        service.handleCallback('test', {
+          state,
+          stateHash,
+          code: 'unknown-code',
+        }),
+      ).rejects.toThrow(UnauthorizedException);
+    });
+
+    it('should reject an ID token with another nonce', async () => {
+      // Arrange
+      const params = await approveLogin({
+        sub: 'user-123',
+        nonce: 'other-nonce',
+      });
+
+      // Act & Assert
+      await expect(service.handleCallback('test', params)).rejects.toThrow(
+        UnauthorizedException,
+      );
+    });
+
+    it('should reject an ID token issued to another client', async () => {
+      // Arrange
+      const params = await approveLogin({ sub: 'user-123', aud: 'other' });
+
+      // Act & Assert
+      await expect(service.handleCallback('test', params)).rejects.toThrow(
+        UnauthorizedException,
+      );
+    });
+
+    it('should reject an ID token that is not signed by the provider', async () => {
+      // Arrange
+      const params = await approveLogin({ sub: 'user-123' });
+      const [header, payload] = issuer
+        .signIdToken({ sub: 'user-123' })
+        .split('.');
+      issuer.idTokenOverride = `${header}.${payload}.${Buffer.from('forged').toString('base64url')}`;
+
+      // Act & Assert
+      await expect(service.handleCallback('test', params)).rejects.toThrow(
+        UnauthorizedException,
+      );
+    });
+  });
+});
@@ -0,0 +1,380 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { getModelToken } from '@nestjs/mongoose';
+import { ConfigService } from '@nestjs/config';
+import { NotFoundException } from '@nestjs/common';
+import { ClsService } from 'nestjs-cls';
+import { I18nService, I18nContext } from 'nestjs-i18n';
+import { SessionService } from '../../services/session.service';
+import { Session } from '../../schemas/session.schema';
+import { SessionRevocationReason } from '../../enums';
+import {
+  createMockClsService,
+  createMockConfigService,
+  createMockI18nService,
+} from '../../../common/__tests__/test-utils';
+
+describe('SessionService', () => {
+  let service: SessionService;
+  let clsService: ClsService;
+
+  const userId = '507f1f77bcf86cd799439011';
+
+  const createQuery = (value: unknown) => ({
+    sort: jest.fn().mockReturnThis(),
+    exec: jest.fn().mockResolvedValue(value),
+  });
+
+  const saveMock = jest.fn();
+  const mockSessionModel = Object.assign(
+    jest.fn().mockImplementation((data: Record<string, unknown>) => ({
+      ...data,
+      save: saveMock.mockResolvedValue(data),
+    })),
+    {
+      find: jest.fn(),
+      findOne: jest.fn(),
+      findOneAndUpdate: jest.fn(),
+      updateOne: jest.fn(),
+      updateMany: jest.fn(),
+      deleteMany: jest.fn(),
+    },
+  );
+
+  beforeEach(async () => {
+    jest
+      .spyOn(I18nContext, 'current')
+      .mockReturnValue({ lang: 'en' } as I18nContext<unknown>);
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        SessionService,
+        {
+          provide: getModelToken(Session.name),
+          useValue: mockSessionModel,
+        },
+        {
+          provide: ConfigService,
+          useValue: createMockConfigService({
+            JWT_REFRESH_EXPIRATION_TIME: '3600',
+          }),
+        },
+        {
+          provide: ClsService,
+          useValue: createMockClsService(),
+        },
+        {
+          provide: I18nService,
+          useValue: createMockI18nService(),
+        },
+      ],
+    }).compile();
+
+    service = module.get<SessionService>(SessionService);
+    clsService = module.get<ClsService>(ClsService);
+    clsService.set('ipAddress', '10.0.0.1');
+    clsService.set(
+      'userAgent',
+      'Mozilla/5.0 (Windows NT 10.0; Win64; x64) Chrome/120.0 Safari/537.36',
+    );
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('should be defined', () => {
+    expect(service).toBeDefined();
+  });
+
+  describe('create', () => {
+    it('should store the session with the client details of the request', async () => {
+      // Act
+      await service.create(userId, 'family-id', {
+        tokenId: 'token-id',
+        refreshTokenHash: 'hash',
+      });
+
+      // Assert
+      expect(mockSessionModel).toHaveBeenCalledWith(
+        expect.objectContaining({
+          familyId: 'family-id',
+          currentTokenId: 'token-id',
+          refreshTokenHash: 'hash',
+          ipAddress: '10.0.0.1',
+          device: 'Chrome on Windows',
+          expiresAt: expect.any(Date) as Date,
+        }),
+      );
+      expect(saveMock).toHaveBeenCalled();
+    });
+  });
+
+  describe('findActiveByUser', () => {
+    it('should flag the session making the request as current', async () => {
+      // Arrange
+      const now = new Date();
+      mockSessionModel.find.mockReturnValue(
+        createQuery([
+          {
+            _id: 'session-1',
+            familyId: 'family-1',
+            device: 'Chrome on Windows',
+            ipAddress: '10.0.0.1',
+            lastUsedAt: now,
+            createdAt: now,
+            expiresAt: now,
+          },
+          {
+            _id: 'session-2',
+            familyId: 'family-2',
+            device: 'Safari on iOS',
+            lastUsedAt: now,
+            createdAt: now,
+            expiresAt: now,
+          },
+        ]),
+      );
+
+      // Act
+      const result = await service.findActiveByUser(userId, 'family-2');
+
+      // Assert
+      expect(mockSessionModel.find).toHaveBeenCalledWith(
+        expect.objectContaining({ userId, revokedAt: null }),
+      );
+      expect(result.map((session) => [session.id, session.current])).toEqual([
+        ['session-1', false],
+        ['session-2', true],
+      ]);
+      expect(result[0]).not.toHaveProperty('familyId');
+      expect(result[0]).not.toHaveProperty('refreshTokenHash');
+    });
+  });
+
+  describe('rotate', () => {
+    it('should only update the session while the presented token is current', async () => {
+      // Arrange
+      const rotated = { familyId: 'family-id', currentTokenId: 'new-token-id' };
+      mockSessionModel.findOneAndUpdate.mockReturnValue(createQuery(rotated));
+
+      // Act
+      const result = await service.rotate('family-id', 'token-id', {
+        tokenId: 'new-token-id',
+        refreshTokenHash: 'new-hash',
+      });
+
+      // Assert
+      expect(mockSessionModel.findOneAndUpdate).toHaveBeenCalledWith(
+        { familyId: 'family-id', currentTokenId: 'token-id', revokedAt: null },
+        {
+          $set: expect.objectContaining({
+            currentTokenId: 'new-token-id',
+            refreshTokenHash: 'new-hash',
+            lastUsedAt: expect.any(Date) as Date,
+          }) as Record<string, unknown>,
+        },
+        { new: true },
+      );
+      expect(result).toBe(rotated);
+    });
+
+    it('should return null when the token was already rotated', async () => {
+      // Arrange
+      mockSessionModel.findOneAndUpdate.mockReturnValue(createQuery(null));
+
+      // Act
+      const result = await service.rotate('family-id', 'stale-token-id', {
+        tokenId: 'new-token-id',
+        refreshTokenHash: 'new-hash',
+      });
+
+      // Assert
+      expect(result).toBeNull();
+    });
+  });
+
+  describe('revokeFamily', () => {
+    it('should mark the session as revoked', async () => {
+      // Arrange
+      mockSessionModel.updateOne.mockReturnValue(createQuery({}));
+
+      // Act
+      await service.revokeFamily(
+        'family-id',
+        SessionRevocationReason.TOKEN_REUSE,
+      );
+
+      // Assert
+      expect(mockSessionModel.updateOne).toHaveBeenCalledWith(
+        { familyId: 'family-id', revokedAt: null },
+        {
+          $set: {
+            revokedAt: expect.any(Date) as Date,
+            revokedReason: SessionRevocationReason.TOKEN_REUSE,
+          },
+        },
+      );
+    });
+  });
+
+  describe('revokeById', () => {
+    const sessionId = '507f1f77bcf86cd799439012';
+
+    it('should revoke the session when it belongs to the user', async () => {
+      // Arrange
+      mockSessionModel.updateOne.mockReturnValue(
+        createQuery({ matchedCount: 1 }),
+      );
+
+      // Act
+      await service.revokeById(
+        userId,
+        sessionId,
+        SessionRevocationReason.REVOKED_BY_USER,
+      );
+
+      // Assert
+      expect(mockSessionModel.updateOne).toHaveBeenCalledWith(
+        expect.objectContaining({ userId, revokedAt: null }),
+        {
+          $set: {
+            revokedAt: expect.any(Date) as Date,
+            revokedReason: SessionRevocationReason.REVOKED_BY_USER,
+          },
+        },
+      );
+    });
+
+    it('should throw NotFoundException when no active session matches', async () => {
+      // Arrange
+      mockSessionModel.updateOne.mockReturnValue(
+        createQuery({ matchedCount: 0 }),
+      );
+
+      // Act & Assert
+      await expect(
+        service.revokeById(
+          userId,
+          sessionId,
+          SessionRevocationReason.REVOKED_BY_USER,
+        ),
+      ).rejects.toThrow(NotFoundException);
+    });
+
+    it('should throw NotFoundException for a malformed session ID', async () => {
+      // Act & Assert
+      await expect(
+        service.revokeById(
+          userId,
+          'not-an-id',
+          SessionRevocationReason.REVOKED_BY_USER,
+        ),
+      ).rejects.toThrow(NotFoundException);
+      expect(mockSessionModel.updateOne).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('revokeOthers', () => {
+    it('should revoke every active session except the given one', async () => {
+      // Arrange
+      mockSessionModel.updateMany.mockReturnValue(
+        createQuery({ modifiedCount: 1 }),
+      );
+
+      // Act
+      const result = await service.revokeOthers(
+        userId,
+        'family-id',
+        SessionRevocationReason.REVOKED_BY_USER,
+      );
+
+      // Assert
+      expect(result).toBe(1);
+      expect(mockSessionModel.updateMany).toHaveBeenCalledWith(
+        { userId, familyId: { $ne: 'family-id' }, revokedAt: null },
+        expect.anything(),
+      );
+    });
+  });
+
+  describe('revokeAllForUser', () => {
+    it('should revoke every active session of the user', async () => {
+      // Arrange
+      mockSessionModel.updateMany.mockReturnValue(
+        createQuery({ modifiedCount: 2 }),
+      );
+
+      // Act
+      const result = await service.revokeAllForUser(
+        userId,
+        SessionRevocationReason.LOGOUT,
+      );
+
+      // Assert
+      expect(result).toBe(2);
+      expect(mockSessionModel.updateMany).toHaveBeenCalledWith(
+        expect.objectContaining({ revokedAt: null }),
+        {
+          $set: {
+            revokedAt: expect.any(Date) as Date,
+            revokedReason: SessionRevocationReason.LOGOUT,
+          },
+        },
+      );
+    });
+  });
+
+  describe('findAllByUser', () => {
+    it('should list revoked sessions too, without the refresh token details', async () => {
+      // Arrange
+      const now = new Date();
+      mockSessionModel.find.mockReturnValue(
+        createQuery([
+          {
+            _id: 'session-1',
+            familyId: 'family-1',
+            refreshTokenHash: 'hash',
+            device: 'Chrome on Windows',
+            ipAddress: '10.0.0.1',
+            lastUsedAt: now,
+            createdAt: now,
+            expiresAt: now,
+            revokedAt: now,
+            revokedReason: SessionRevocationReason.LOGOUT,
+          },
+        ]),
+      );
+
+      // Act
+      const result = await service.findAllByUser(userId);
+
+      // Assert
+      expect(mockSessionModel.find).toHaveBeenCalledWith({ userId });
+      expect(result).toEqual([
+        expect.objectContaining({
+          id: 'session-1',
+          ipAddress: '10.0.0.1',
+          revokedReason: SessionRevocationReason.LOGOUT,
+        }),
+      ]);
+      expect(result[0]).not.toHaveProperty('familyId');
+      expect(result[0]).not.toHaveProperty('refreshTokenHash');
+    });
+  });
+
+  describe('deleteAllForUser', () => {
+    it('should delete every session of the user', async () => {
+      // Arrange
+      mockSessionModel.deleteMany.mockReturnValue(
+        createQuery({ deletedCount: 3 }),
+      );
+
+      // Act
+      const result = await service.deleteAllForUser(userId);
+
+      // Assert
+      expect(result).toBe(3);
+      expect(mockSessionModel.deleteMany).toHaveBeenCalledWith({ userId });
+    });
+  });
+});
@@ -0,0 +1,68 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { TokenRevocationService } from '../../services/token-revocation.service';
+import { TOKEN_DENYLIST_STORE } from '../../interfaces';
+
+describe('TokenRevocationService', () => {
+  let service: TokenRevocationService;
+
+  const mockDenylistStore = {
+    add: jest.fn(),
+    has: jest.fn(),
+  };
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        TokenRevocationService,
+        {
+          provide: TOKEN_DENYLIST_STORE,
+          useValue: mockDenylistStore,
+        },
+      ],
+    }).compile();
+
+    service = module.get<TokenRevocationService>(TokenRevocationService);
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('revoke', () => {
+    it('should add the token to the denylist until it expires', async () => {
+      // Arrange
+      const exp = Math.floor(Date.now() / 1000) + 3600;
+
+      // Act
+      await service.revoke('token-id', exp);
+
+      // Assert
+      expect(mockDenylistStore.add).toHaveBeenCalledWith(
+        'token-id',
+        new Date(exp * 1000),
+      );
+    });
+
+    it('should skip tokens that have already expired', async () => {
+      // Act
+      await service.revoke('token-id', Math.floor(Date.now() / 1000) - 1);
+
+      // Assert
+      expect(mockDenylistStore.add).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('isRevoked', () => {
+    it('should look the token up in the denylist', async () => {
+      // Arrange
+      mockDenylistStore.has.mockResolvedValue(true);
+
+      // Act
+      const result = await service.isRevoked('token-id');
+
+      // Assert
+      expect(mockDenylistStore.has).toHaveBeenCalledWith('token-id');
+      expect(result).toBe(true);
+    });
+  });
+});
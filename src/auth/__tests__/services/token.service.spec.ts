@@ -2,7 +2,12 @@ import { Test, TestingModule } from '@nestjs/testing';
 import { JwtService } from '@nestjs/jwt';
 import { ConfigService } from '@nestjs/config';
 import { TokenService } from '../../services/token.service';
-import { createMockConfigService } from '../../../common/__tests__/test-utils';
+import { JwtKeyService } from '../../services/jwt-key.service';
+import { I18nService } from 'nestjs-i18n';
+import {
+  createMockConfigService,
+  createMockI18nService,
+} from '../../../common/__tests__/test-utils';
 import { UserDocument } from '../../../users';
 
 describe('TokenService', () => {
@@ -14,6 +19,7 @@ describe('TokenService', () => {
     _id: 'user-id',
     email: 'test@example.com',
     name: 'Test User',
+    roles: ['user'],
   };
 
   const mockJwtService = {
@@ -25,6 +31,7 @@ describe('TokenService', () => {
     const module: TestingModule = await Test.createTestingModule({
       providers: [
         TokenService,
+        JwtKeyService,
         {
           provide: JwtService,
           useValue: mockJwtService,
@@ -38,6 +45,10 @@ describe('TokenService', () => {
             JWT_REFRESH_EXPIRATION_TIME: '604800',
           }),
         },
+        {
+          provide: I18nService,
+          useValue: createMockI18nService(),
+        },
       ],
     }).compile();
 
@@ -60,7 +71,10 @@ describe('TokenService', () => {
       jest.spyOn(jwtService, 'sign').mockReturnValue('access_token');
 
       // Act
-      const result = service.generateAccessToken(mockUser as UserDocument);
+      const result = service.generateAccessToken(
+        mockUser as UserDocument,
+        'family-id',
+      );
 
       // Assert
       const signSpy = jest.spyOn(jwtService, 'sign');
@@ -68,14 +82,90 @@ describe('TokenService', () => {
         {
           username: 'test@example.com',
           sub: 'user-id',
+          roles: ['user'],
+          sid: 'family-id',
+          ver: 0,
+          jti: expect.any(String) as string,
+          auth_time: expect.any(Number) as number,
         },
         {
           secret: 'test-jwt-secret',
+          algorithm: 'HS256',
           expiresIn: 3600,
         },
       );
       expect(result).toBe('access_token');
     });
+
+    it('should keep the time the user entered their credentials', () => {
+      // Act
+      service.generateAccessToken(
+        mockUser as UserDocument,
+        'family-id',
+        new Date('2026-01-01T00:00:00.000Z'),
+      );
+
+      // Assert
+      expect(jest.spyOn(jwtService, 'sign')).toHaveBeenCalledWith(
+        expect.objectContaining({ auth_time: 1767225600 }),
+        expect.anything(),
+      );
+    });
+  });
+
+  describe('generateElevatedAccessToken', () => {
+    it('should sign a short-lived access token of the session authenticated now', () => {
+      // Arrange
+      jest.spyOn(jwtService, 'sign').mockReturnValue('elevated_token');
+      const now = Math.floor(Date.now() / 1000);
+
+      // Act
+      const result = service.generateElevatedAccessToken(
+        mockUser as UserDocument,
+        'family-id',
+      );
+
+      // Assert
+      const [payload, options] = jest.spyOn(jwtService, 'sign').mock
+        .calls[0] as [Record<string, unknown>, Record<string, unknown>];
+      expect(payload).toEqual(
+        expect.objectContaining({ sub: 'user-id', sid: 'family-id' }),
+      );
+      expect(payload.auth_time).toBeGreaterThanOrEqual(now);
+      expect(options.expiresIn).toBe(300);
+      expect(result).toBe('elevated_token');
+    });
+  });
+
+  describe('generateImpersonationToken', () => {
+    it('should sign a short-lived access token naming the real actor', () => {
+      // Arrange
+      jest.spyOn(jwtService, 'sign').mockReturnValue('impersonation_token');
+
+      // Act
+      const result = service.generateImpersonationToken(
+        mockUser as UserDocument,
+        { userId: 'admin-id', email: 'admin@example.com' },
+      );
+
+      // Assert
+      expect(jest.spyOn(jwtService, 'sign')).toHaveBeenCalledWith(
+        {
+          username: 'test@example.com',
+          sub: 'user-id',
+          roles: ['user'],
+          ver: 0,
+          jti: expect.any(String) as string,
+          act: { sub: 'admin-id', username: 'admin@example.com' },
+        },
+        {
+          secret: 'test-jwt-secret',
+          algorithm: 'HS256',
+          expiresIn: 900,
+        },
+      );
+      expect(result).toBe('impersonation_token');
+    });
   });
 
   describe('generateRefreshToken', () => {
@@ -84,7 +174,10 @@ describe('TokenService', () => {
       jest.spyOn(jwtService, 'sign').mockReturnValue('refresh_token');
 
       // Act
-      const result = service.generateRefreshToken(mockUser as UserDocument);
+      const result = service.generateRefreshToken(mockUser as UserDocument, {
+        familyId: 'family-id',
+        tokenId: 'token-id',
+      });
 
       // Assert
       const signSpy = jest.spyOn(jwtService, 'sign');
@@ -93,6 +186,8 @@ describe('TokenService', () => {
           username: 'test@example.com',
           sub: 'user-id',
           tokenType: 'refresh',
+          fam: 'family-id',
+          jti: 'token-id',
         },
         {
           secret: 'test-jwt-refresh-secret',
@@ -119,6 +214,7 @@ describe('TokenService', () => {
       const verifySpy = jest.spyOn(jwtService, 'verify');
       expect(verifySpy).toHaveBeenCalledWith('access_token', {
         secret: 'test-jwt-secret',
+        algorithms: ['HS256'],
       });
       expect(result).toEqual(mockPayload);
     });
@@ -136,6 +232,7 @@ describe('TokenService', () => {
       const verifySpy = jest.spyOn(jwtService, 'verify');
       expect(verifySpy).toHaveBeenCalledWith('invalid_token', {
         secret: 'test-jwt-secret',
+        algorithms: ['HS256'],
       });
       expect(result).toBeNull();
     });
@@ -183,4 +280,120 @@ describe('TokenService', () => {
       expect(result).toBeNull();
     });
   });
+
+  describe('generateMfaToken', () => {
+    it('should sign a short-lived token marked as an MFA token', () => {
+      // Arrange
+      jest.spyOn(jwtService, 'sign').mockReturnValue('mfa_token');
+
+      // Act
+      const result = service.generateMfaToken(mockUser);
+
+      // Assert
+      expect(jest.spyOn(jwtService, 'sign')).toHaveBeenCalledWith(
+        { username: 'test@example.com', sub: 'user-id', tokenType: 'mfa' },
+        { secret: 'test-jwt-secret', expiresIn: 300 },
+      );
+      expect(result).toBe('mfa_token');
+    });
+  });
+
+  describe('generateClientAccessToken', () => {
+    it('should sign an access token carrying the client ID and scopes', () => {
+      // Arrange
+      jest.spyOn(jwtService, 'sign').mockReturnValue('client_token');
+
+      // Act
+      const result = service.generateClientAccessToken('client-id', [
+        'users:read',
+        'roles:read',
+      ]);
+
+      // Assert
+      expect(jest.spyOn(jwtService, 'sign')).toHaveBeenCalledWith(
+        {
+          sub: 'client-id',
+          client_id: 'client-id',
+          scope: 'users:read roles:read',
+          jti: expect.any(String) as string,
+        },
+        { secret: 'test-jwt-secret', algorithm: 'HS256', expiresIn: 3600 },
+      );
+      expect(result).toBe('client_token');
+    });
+  });
+
+  describe('verifyMfaToken', () => {
+    it('should return the payload of an MFA token', () => {
+      // Arrange
+      const mockPayload = {
+        sub: 'user-id',
+        username: 'test@example.com',
+        tokenType: 'mfa',
+      };
+      jest.spyOn(jwtService, 'verify').mockReturnValue(mockPayload);
+
+      // Act
+      const result = service.verifyMfaToken('mfa_token');
+
+      // Assert
+      expect(result).toEqual(mockPayload);
+    });
+
+    it('should return null for other tokens signed with the same secret', () => {
+      // Arrange
+      jest
+        .spyOn(jwtService, 'verify')
+        .mockReturnValue({ sub: 'user-id', username: 'test@example.com' });
+
+      // Act
+      const result = service.verifyMfaToken('access_token');
+
+      // Assert
+      expect(result).toBeNull();
+    });
+  });
+
+  describe('MFA token secret', () => {
+    /**
+     * Create the service with another configuration and access token algorithm
+     * @param config Configuration values
+     * @param algorithm Access token algorithm
+     * @returns Token service
+     */
+    const createService = (config: Record<string, string>, algorithm: string) =>
+      new TokenService(
+        mockJwtService as unknown as JwtService,
+        createMockConfigService(config) as unknown as ConfigService,
+        { getAlgorithm: () => algorithm } as unknown as JwtKeyService,
+        createMockI18nService() as unknown as I18nService,
+      );
+
+    it('should sign MFA tokens with MFA_TOKEN_SECRET when set', () => {
+      // Arrange
+      const mfaService = createService(
+        {
+          JWT_ACCESS_SECRET: 'test-jwt-secret',
+          MFA_TOKEN_SECRET: 'mfa-secret',
+        },
+        'HS256',
+      );
+
+      // Act
+      mfaService.generateMfaToken(mockUser);
+
+      // Assert
+      expect(mockJwtService.sign).toHaveBeenCalledWith(
+        expect.any(Object),
+        expect.objectContaining({ secret: 'mfa-secret' }),
+      );
+    });
+
+    it('should refuse to start with an asymmetric algorithm and no MFA_TOKEN_SECRET', () => {
+      // Act & Assert
+      expect(() =>
+        createService({ JWT_ACCESS_SECRET: 'test-jwt-secret' }, 'RS256'),
+      ).toThrow('translated:translation.AUTH.MFA_TOKEN_SECRET_NOT_DEFINED');
+    });
+  });
 });
@@ -0,0 +1,154 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { getModelToken } from '@nestjs/mongoose';
+import { ConfigService } from '@nestjs/config';
+import { VerificationTokenService } from '../../services/verification-token.service';
+import { VerificationToken } from '../../schemas/verification-token.schema';
+import { VerificationTokenPurpose } from '../../enums';
+import { createMockConfigService } from '../../../common/__tests__/test-utils';
+
+describe('VerificationTokenService', () => {
+  let service: VerificationTokenService;
+
+  const userId = '507f1f77bcf86cd799439011';
+
+  const createQuery = (value: unknown) => ({
+    exec: jest.fn().mockResolvedValue(value),
+  });
+
+  const mockVerificationTokenModel = {
+    create: jest.fn(),
+    findOneAndUpdate: jest.fn(),
+    deleteMany: jest.fn(),
+  };
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        VerificationTokenService,
+        {
+          provide: getModelToken(VerificationToken.name),
+          useValue: mockVerificationTokenModel,
+        },
+        {
+          provide: ConfigService,
+          useValue: createMockConfigService({
+            VERIFICATION_TOKEN_SECRET: 'test-verification-secret',
+          }),
+        },
+      ],
+    }).compile();
+
+    service = module.get<VerificationTokenService>(VerificationTokenService);
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('issue', () => {
+    it('should store only a hash of the token', async () => {
+      // Act
+      const token = await service.issue(
+        userId,
+        VerificationTokenPurpose.EMAIL_VERIFICATION,
+        3600,
+      );
+
+      // Assert
+      const [stored] = mockVerificationTokenModel.create.mock.calls[0] as [
+        Record<string, unknown>,
+      ];
+      expect(token).toMatch(/^[A-Za-z0-9_-]{43}$/);
+      expect(stored.purpose).toBe(VerificationTokenPurpose.EMAIL_VERIFICATION);
+      expect(stored.tokenHash).toMatch(/^[0-9a-f]{64}$/);
+      expect(stored.tokenHash).not.toBe(token);
+      expect((stored.expiresAt as Date).getTime()).toBeGreaterThan(Date.now());
+    });
+  });
+
+  describe('consume', () => {
+    it('should return the user ID of an unused, unexpired token', async () => {
+      // Arrange
+      const token = await service.issue(
+        userId,
+        VerificationTokenPurpose.EMAIL_VERIFICATION,
+        3600,
+      );
+      const [stored] = mockVerificationTokenModel.create.mock.calls[0] as [
+        Record<string, unknown>,
+      ];
+      mockVerificationTokenModel.findOneAndUpdate.mockReturnValue(
+        createQuery({ userId }),
+      );
+
+      // Act
+      const result = await service.consume(
+        token,
+        VerificationTokenPurpose.EMAIL_VERIFICATION,
+      );
+
+      // Assert
+      expect(result).toBe(userId);
+      expect(mockVerificationTokenModel.findOneAndUpdate).toHaveBeenCalledWith(
+        expect.objectContaining({
+          tokenHash: stored.tokenHash,
+          purpose: VerificationTokenPurpose.EMAIL_VERIFICATION,
+          usedAt: null,
+        }),
+        { $set: { usedAt: expect.any(Date) as Date } },
+        { new: true },
+      );
+    });
+
+    it('should return null when no usable token matches', async () => {
+      // Arrange
+      mockVerificationTokenModel.findOneAndUpdate.mockReturnValue(
+        createQuery(null),
+      );
+
+      // Act
+      const result = await service.consume(
+        'unknown-token',
+        VerificationTokenPurpose.EMAIL_VERIFICATION,
+      );
+
+      // Assert
+      expect(result).toBeNull();
+    });
+  });
+
+  describe('invalidateAll', () => {
+    it('should delete the unused tokens of the user', async () => {
+      // Arrange
+      mockVerificationTokenModel.deleteMany.mockReturnValue(createQuery({}));
+
+      // Act
+      await service.invalidateAll(
+        userId,
+        VerificationTokenPurpose.EMAIL_VERIFICATION,
+      );
+
+      // Assert
+      expect(mockVerificationTokenModel.deleteMany).toHaveBeenCalledWith({
+        userId,
+        purpose: VerificationTokenPurpose.EMAIL_VERIFICATION,
+        usedAt: null,
+      });
+    });
+  });
+
+  describe('deleteAllForUser', () => {
+    it('should delete every token of the user', async () => {
+      // Arrange
+      mockVerificationTokenModel.deleteMany.mockReturnValue(createQuery({}));
+
+      // Act
+      await service.deleteAllForUser(userId);
+
+      // Assert
+      expect(mockVerificationTokenModel.deleteMany).toHaveBeenCalledWith({
+        userId,
+      });
+    });
+  });
+});
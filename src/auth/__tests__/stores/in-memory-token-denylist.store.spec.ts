@@ -0,0 +1,39 @@
+import { InMemoryTokenDenylistStore } from '../../stores/in-memory-token-denylist.store';
+
+describe('InMemoryTokenDenylistStore', () => {
+  let store: InMemoryTokenDenylistStore;
+
+  beforeEach(() => {
+    store = new InMemoryTokenDenylistStore();
+  });
+
+  it('should report a revoked token until it expires', async () => {
+    // Arrange
+    await store.add('token-id', new Date(Date.now() + 60_000));
+
+    // Act
+    const result = await store.has('token-id');
+
+    // Assert
+    expect(result).toBe(true);
+  });
+
+  it('should not report unknown tokens', async () => {
+    // Act
+    const result = await store.has('unknown-id');
+
+    // Assert
+    expect(result).toBe(false);
+  });
+
+  it('should forget tokens once they have expired', async () => {
+    // Arrange
+    await store.add('token-id', new Date(Date.now() - 1));
+
+    // Act
+    const result = await store.has('token-id');
+
+    // Assert
+    expect(result).toBe(false);
+  });
+});
@@ -0,0 +1,141 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { UnauthorizedException } from '@nestjs/common';
+import { Request } from 'express';
+import { I18nService, I18nContext } from 'nestjs-i18n';
+import { ApiKeyStrategy } from '../../strategies/api-key.strategy';
+import { ApiKeyService } from '../../services/api-key.service';
+import { UsersService } from '../../../users/users.service';
+import { createMockI18nService } from '../../../common/__tests__/test-utils';
+
+describe('ApiKeyStrategy', () => {
+  let strategy: ApiKeyStrategy;
+
+  const mockApiKeyService = {
+    authenticate: jest.fn(),
+  };
+
+  const mockUsersService = {
+    findById: jest.fn(),
+  };
+
+  const createRequest = (headers: Record<string, string>) =>
+    ({ headers, ip: '10.0.0.1' }) as unknown as Request;
+
+  beforeEach(async () => {
+    jest
+      .spyOn(I18nContext, 'current')
+      .mockReturnValue({ lang: 'en' } as I18nContext<unknown>);
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        ApiKeyStrategy,
+        {
+          provide: ApiKeyService,
+          useValue: mockApiKeyService,
+        },
+        {
+          provide: UsersService,
+          useValue: mockUsersService,
+        },
+        {
+          provide: I18nService,
+          useValue: createMockI18nService(),
+        },
+      ],
+    }).compile();
+
+    strategy = module.get<ApiKeyStrategy>(ApiKeyStrategy);
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('should be defined', () => {
+    expect(strategy).toBeDefined();
+  });
+
+  describe('validate', () => {
+    beforeEach(() => {
+      mockApiKeyService.authenticate.mockResolvedValue({
+        _id: 'api-key-id',
+        userId: 'user-id',
+        scopes: ['users:read'],
+      });
+      mockUsersService.findById.mockResolvedValue({
+        _id: 'user-id',
+        email: 'ci@example.com',
+        name: 'CI',
+        roles: ['admin'],
+      });
+    });
+
+    it('should accept a key from the Authorization header', async () => {
+      // Act
+      const result = await strategy.validate(
+        createRequest({ authorization: 'ApiKey isk_4f9a2b7c_secret' }),
+      );
+
+      // Assert
+      expect(mockApiKeyService.authenticate).toHaveBeenCalledWith(
+        'isk_4f9a2b7c_secret',
+        '10.0.0.1',
+      );
+      expect(result).toEqual({
+        principalType: 'user',
+        userId: 'user-id',
+        email: 'ci@example.com',
+        name: 'CI',
+        roles: ['admin'],
+        apiKeyId: 'api-key-id',
+        scopes: ['users:read'],
+      });
+    });
+
+    it('should accept a key from the X-API-Key header', async () => {
+      // Act
+      await strategy.validate(
+        createRequest({ 'x-api-key': 'isk_4f9a2b7c_secret' }),
+      );
+
+      // Assert
+      expect(mockApiKeyService.authenticate).toHaveBeenCalledWith(
+        'isk_4f9a2b7c_secret',
+        '10.0.0.1',
+      );
+    });
+
+    it('should return null when the request carries no key', async () => {
+      // Act
+      const result = await strategy.validate(
+        createRequest({ authorization: 'Bearer access-token' }),
+      );
+
+      // Assert
+      expect(result).toBeNull();
+      expect(mockApiKeyService.authenticate).not.toHaveBeenCalled();
+    });
+
+    it('should throw UnauthorizedException for an unknown, revoked or expired key', async () => {
+      // Arrange
+      mockApiKeyService.authenticate.mockResolvedValue(null);
+
+      // Act & Assert
+      await expect(
+        strategy.validate(createRequest({ 'x-api-key': 'isk_unknown' })),
+      ).rejects.toThrow(UnauthorizedException);
+    });
+
+    it('should throw UnauthorizedException when the owner no longer exists', async () => {
+      // Arrange
+      mockUsersService.findById.mockResolvedValue(null);
+
+      // Act & Assert
+      await expect(
+        strategy.validate(
+          createRequest({ 'x-api-key': 'isk_4f9a2b7c_secret' }),
+        ),
+      ).rejects.toThrow(UnauthorizedException);
+    });
+  });
+});
@@ -10,10 +10,6 @@ import {
   createMockI18nService,
   createMockConfigService,
 } from '../../../common/__tests__/test-utils';
-import * as bcrypt from 'bcrypt';
-
-jest.mock('bcrypt');
-
 describe('JwtRefreshTokenStrategy', () => {
   let strategy: JwtRefreshTokenStrategy;
   let usersService: UsersService;
@@ -25,7 +21,6 @@ describe('JwtRefreshTokenStrategy', () => {
     _id: 'user-id',
     email: 'test@example.com',
     name: 'Test User',
-    hashedRefreshToken: 'hashed_refresh_token',
   };
 
   const mockUsersService = {
@@ -80,7 +75,9 @@ describe('JwtRefreshTokenStrategy', () => {
   type JwtPayload = {
     sub: string;
     username: string;
-    tokenType: string;
+    tokenType: 'refresh';
+    fam: string;
+    jti: string;
   };
 
   // Create a type for the request with refresh token
@@ -97,6 +94,8 @@ describe('JwtRefreshTokenStrategy', () => {
         sub: 'user-id',
         username: 'test@example.com',
         tokenType: 'refresh',
+        fam: 'family-id',
+        jti: 'token-id',
       };
       const request: Partial<RefreshTokenRequest> = {
         body: { refresh_token: 'refresh_token' },
@@ -104,7 +103,6 @@ describe('JwtRefreshTokenStrategy', () => {
       jest
         .spyOn(usersService, 'findUserByIdForAuth')
         .mockResolvedValue(mockUser as UserDocument);
-      (bcrypt.compare as jest.Mock).mockResolvedValue(true);
 
       // Act
       const result = await strategy.validate(
@@ -118,11 +116,6 @@ describe('JwtRefreshTokenStrategy', () => {
         'findUserByIdForAuth',
       );
       expect(findUserByIdForAuthSpy).toHaveBeenCalledWith('user-id');
-      const bcryptCompareSpy = jest.spyOn(bcrypt, 'compare');
-      expect(bcryptCompareSpy).toHaveBeenCalledWith(
-        'refresh_token',
-        'hashed_refresh_token',
-      );
       expect(result).toEqual({
         userId: 'user-id',
         email: 'test@example.com',
@@ -136,6 +129,8 @@ describe('JwtRefreshTokenStrategy', () => {
         sub: 'user-id',
         username: 'test@example.com',
         tokenType: 'refresh',
+        fam: 'family-id',
+        jti: 'token-id',
       };
       const request: Partial<RefreshTokenRequest> = { body: {} };
 
@@ -151,6 +146,8 @@ describe('JwtRefreshTokenStrategy', () => {
         sub: 'nonexistent-id',
         username: 'test@example.com',
         tokenType: 'refresh',
+        fam: 'family-id',
+        jti: 'token-id',
       };
       const request: Partial<RefreshTokenRequest> = {
         body: { refresh_token: 'refresh_token' },
@@ -167,100 +164,6 @@ describe('JwtRefreshTokenStrategy', () => {
       );
       expect(findUserByIdForAuthSpy).toHaveBeenCalledWith('nonexistent-id');
     });
-
-    it('should throw ForbiddenException when user has no stored refresh token', async () => {
-      // Arrange
-      const payload: JwtPayload = {
-        sub: 'user-id',
-        username: 'test@example.com',
-        tokenType: 'refresh',
-      };
-      const request: Partial<RefreshTokenRequest> = {
-        body: { refresh_token: 'refresh_token' },
-      };
-      const userWithoutRefreshToken: Partial<UserDocument> = {
-        ...mockUser,
-        hashedRefreshToken: null,
-      };
-      jest
-        .spyOn(usersService, 'findUserByIdForAuth')
-        .mockResolvedValue(userWithoutRefreshToken as UserDocument);
-
-      // Act & Assert
-      await expect(
-        strategy.validate(request as RefreshTokenRequest, payload),
-      ).rejects.toThrow(ForbiddenException);
-      const findUserByIdForAuthSpy = jest.spyOn(
-        usersService,
-        'findUserByIdForAuth',
-      );
-      expect(findUserByIdForAuthSpy).toHaveBeenCalledWith('user-id');
-    });
-
-    it('should throw ForbiddenException when refresh token does not match', async () => {
-      // Arrange
-      const payload: JwtPayload = {
-        sub: 'user-id',
-        username: 'test@example.com',
-        tokenType: 'refresh',
-      };
-      const request: Partial<RefreshTokenRequest> = {
-        body: { refresh_token: 'invalid_refresh_token' },
-      };
-      jest
-        .spyOn(usersService, 'findUserByIdForAuth')
-        .mockResolvedValue(mockUser as UserDocument);
-      (bcrypt.compare as jest.Mock).mockResolvedValue(false);
-
-      // Act & Assert
-      await expect(
-        strategy.validate(request as RefreshTokenRequest, payload),
-      ).rejects.toThrow(ForbiddenException);
-      const findUserByIdForAuthSpy = jest.spyOn(
-        usersService,
-        'findUserByIdForAuth',
-      );
-      expect(findUserByIdForAuthSpy).toHaveBeenCalledWith('user-id');
-      const bcryptCompareSpy = jest.spyOn(bcrypt, 'compare');
-      expect(bcryptCompareSpy).toHaveBeenCalledWith(
-        'invalid_refresh_token',
-        'hashed_refresh_token',
-      );
-    });
-
-    it('should throw ForbiddenException when bcrypt.compare throws an error', async () => {
-      // Arrange
-      const payload: JwtPayload = {
-        sub: 'user-id',
-        username: 'test@example.com',
-        tokenType: 'refresh',
-      };
-      const request: Partial<RefreshTokenRequest> = {
-        body: { refresh_token: 'refresh_token' },
-      };
-      jest
-        .spyOn(usersService, 'findUserByIdForAuth')
-        .mockResolvedValue(mockUser as UserDocument);
-      (bcrypt.compare as jest.Mock).mockRejectedValue(
-        new Error('Bcrypt error'),
-      );
-      jest.spyOn(console, 'error').mockImplementation(() => {});
-
-      // Act & Assert
-      await expect(
-        strategy.validate(request as RefreshTokenRequest, payload),
-      ).rejects.toThrow(ForbiddenException);
-      const findUserByIdForAuthSpy = jest.spyOn(
-        usersService,
-        'findUserByIdForAuth',
-      );
-      expect(findUserByIdForAuthSpy).toHaveBeenCalledWith('user-id');
-      const bcryptCompareSpy = jest.spyOn(bcrypt, 'compare');
-      expect(bcryptCompareSpy).toHaveBeenCalledWith(
-        'refresh_token',
-        'hashed_refresh_token',
-      );
-    });
   });
 
   describe('constructor', () => {
@@ -4,7 +4,12 @@ import { ConfigService } from '@nestjs/config';
 import { I18nService, I18nContext } from 'nestjs-i18n';
 import { JwtStrategy } from '../../strategies/jwt.strategy';
 import { UsersService } from '../../../users/users.service';
-import { UserDocument } from '../../../users';
+import { UserDocument, UserStatus } from '../../../users';
+import {
+  JwtKeyService,
+  SessionService,
+  TokenRevocationService,
+} from '../../services';
 import {
   createMockI18nService,
   createMockConfigService,
@@ -13,6 +18,7 @@ import {
 describe('JwtStrategy', () => {
   let strategy: JwtStrategy;
   let usersService: UsersService;
+  let tokenRevocationService: TokenRevocationService;
   let configService: ConfigService;
   let i18nService: I18nService;
 
@@ -20,12 +26,21 @@ describe('JwtStrategy', () => {
     _id: 'user-id',
     email: 'test@example.com',
     name: 'Test User',
+    roles: ['user'],
   };
 
   const mockUsersService = {
     findById: jest.fn(),
   };
 
+  const mockTokenRevocationService = {
+    isRevoked: jest.fn().mockResolvedValue(false),
+  };
+
+  const mockSessionService = {
+    findByFamilyId: jest.fn().mockResolvedValue({ familyId: 'family-id' }),
+  };
+
   beforeEach(async () => {
     // Mock I18nContext.current()
     jest
@@ -35,10 +50,19 @@ describe('JwtStrategy', () => {
     const module: TestingModule = await Test.createTestingModule({
       providers: [
         JwtStrategy,
+        JwtKeyService,
         {
           provide: UsersService,
           useValue: mockUsersService,
         },
+        {
+          provide: TokenRevocationService,
+          useValue: mockTokenRevocationService,
+        },
+        {
+          provide: SessionService,
+          useValue: mockSessionService,
+        },
         {
           provide: ConfigService,
           useValue: createMockConfigService({
@@ -54,6 +78,9 @@ describe('JwtStrategy', () => {
 
     strategy = module.get<JwtStrategy>(JwtStrategy);
     usersService = module.get<UsersService>(UsersService);
+    tokenRevocationService = module.get<TokenRevocationService>(
+      TokenRevocationService,
+    );
     configService = module.get<ConfigService>(ConfigService);
     i18nService = module.get<I18nService>(I18nService);
   });
@@ -69,7 +96,15 @@ describe('JwtStrategy', () => {
   describe('validate', () => {
     it('should return user info when token payload is valid', async () => {
       // Arrange
-      const payload = { sub: 'user-id', username: 'test@example.com' };
+      const payload = {
+        sub: 'user-id',
+        username: 'test@example.com',
+        sid: 'family-id',
+        jti: 'token-id',
+        ver: 0,
+        exp: 1700000000,
+        auth_time: 1699996400,
+      };
       jest
         .spyOn(usersService, 'findById')
         .mockResolvedValue(
@@ -86,10 +121,263 @@ describe('JwtStrategy', () => {
       const findByIdSpy = jest.spyOn(usersService, 'findById');
       expect(findByIdSpy).toHaveBeenCalledWith('user-id');
       expect(result).toEqual({
+        principalType: 'user',
         userId: 'user-id',
         email: 'test@example.com',
         name: 'Test User',
+        roles: ['user'],
+        sessionId: 'family-id',
+        tokenId: 'token-id',
+        tokenExpiresAt: 1700000000,
+        authTime: 1699996400,
       });
+      expect(mockTokenRevocationService.isRevoked).toHaveBeenCalledWith(
+        'token-id',
+      );
+      expect(mockSessionService.findByFamilyId).toHaveBeenCalledWith(
+        'family-id',
+      );
+    });
+
+    it('should take the email from the user rather than from a token issued before an email change', async () => {
+      // Arrange
+      const payload = {
+        sub: 'user-id',
+        username: 'old@example.com',
+        ver: 0,
+      };
+      jest
+        .spyOn(usersService, 'findById')
+        .mockResolvedValue(
+          mockUser as Omit<
+            UserDocument,
+            'password_hash' | 'hashedRefreshToken'
+          >,
+        );
+
+      // Act
+      const result = await strategy.validate(payload);
+
+      // Assert
+      expect(result).toEqual(
+        expect.objectContaining({ email: 'test@example.com' }),
+      );
+    });
+
+    it('should throw UnauthorizedException when the session of the token was revoked', async () => {
+      // Arrange
+      const payload = {
+        sub: 'user-id',
+        username: 'test@example.com',
+        sid: 'family-id',
+        jti: 'token-id',
+      };
+      jest
+        .spyOn(usersService, 'findById')
+        .mockResolvedValue(
+          mockUser as Omit<
+            UserDocument,
+            'password_hash' | 'hashedRefreshToken'
+          >,
+        );
+      mockSessionService.findByFamilyId.mockResolvedValueOnce({
+        familyId: 'family-id',
+        revokedAt: new Date(),
+      });
+
+      // Act & Assert
+      await expect(strategy.validate(payload)).rejects.toThrow(
+        UnauthorizedException,
+      );
+    });
+
+    it('should throw UnauthorizedException when the session of the token no longer exists', async () => {
+      // Arrange
+      const payload = {
+        sub: 'user-id',
+        username: 'test@example.com',
+        sid: 'deleted-family-id',
+      };
+      jest
+        .spyOn(usersService, 'findById')
+        .mockResolvedValue(
+          mockUser as Omit<
+            UserDocument,
+            'password_hash' | 'hashedRefreshToken'
+          >,
+        );
+      mockSessionService.findByFamilyId.mockResolvedValueOnce(null);
+
+      // Act & Assert
+      await expect(strategy.validate(payload)).rejects.toThrow(
+        UnauthorizedException,
+      );
+    });
+
+    it('should expose the real actor of an impersonation token', async () => {
+      // Arrange
+      const payload = {
+        sub: 'user-id',
+        username: 'test@example.com',
+        jti: 'token-id',
+        act: { sub: 'admin-id', username: 'admin@example.com' },
+      };
+      jest
+        .spyOn(usersService, 'findById')
+        .mockResolvedValue(
+          mockUser as Omit<
+            UserDocument,
+            'password_hash' | 'hashedRefreshToken'
+          >,
+        );
+
+      // Act
+      const result = await strategy.validate(payload);
+
+      // Assert
+      expect(jest.spyOn(usersService, 'findById')).toHaveBeenCalledWith(
+        'admin-id',
+      );
+      expect(result).toEqual(
+        expect.objectContaining({
+          userId: 'user-id',
+          sessionId: undefined,
+          impersonatorId: 'admin-id',
+          impersonatorEmail: 'admin@example.com',
+        }),
+      );
+    });
+
+    it('should throw UnauthorizedException when the impersonating user no longer exists', async () => {
+      // Arrange
+      const payload = {
+        sub: 'user-id',
+        username: 'test@example.com',
+        act: { sub: 'deleted-admin-id', username: 'admin@example.com' },
+      };
+      jest
+        .spyOn(usersService, 'findById')
+        .mockResolvedValueOnce(
+          mockUser as Omit<
+            UserDocument,
+            'password_hash' | 'hashedRefreshToken'
+          >,
+        )
+        .mockResolvedValueOnce(null);
+
+      // Act & Assert
+      await expect(strategy.validate(payload)).rejects.toThrow(
+        UnauthorizedException,
+      );
+    });
+
+    it('should throw UnauthorizedException when the impersonating user is suspended', async () => {
+      // Arrange
+      const payload = {
+        sub: 'user-id',
+        username: 'test@example.com',
+        act: { sub: 'admin-id', username: 'admin@example.com' },
+      };
+      jest
+        .spyOn(usersService, 'findById')
+        .mockResolvedValueOnce(
+          mockUser as Omit<
+            UserDocument,
+            'password_hash' | 'hashedRefreshToken'
+          >,
+        )
+        .mockResolvedValueOnce({
+          _id: 'admin-id',
+          status: UserStatus.SUSPENDED,
+        } as Omit<UserDocument, 'password_hash' | 'hashedRefreshToken'>);
+
+      // Act & Assert
+      await expect(strategy.validate(payload)).rejects.toThrow(
+        UnauthorizedException,
+      );
+    });
+
+    it('should throw UnauthorizedException when the user is suspended', async () => {
+      // Arrange
+      const payload = { sub: 'user-id', username: 'test@example.com' };
+      jest.spyOn(usersService, 'findById').mockResolvedValue({
+        ...mockUser,
+        status: UserStatus.SUSPENDED,
+      } as Omit<UserDocument, 'password_hash' | 'hashedRefreshToken'>);
+
+      // Act & Assert
+      await expect(strategy.validate(payload)).rejects.toThrow(
+        UnauthorizedException,
+      );
+    });
+
+    it('should throw UnauthorizedException when the token has been revoked', async () => {
+      // Arrange
+      const payload = {
+        sub: 'user-id',
+        username: 'test@example.com',
+        jti: 'x',
+      };
+      jest
+        .spyOn(usersService, 'findById')
+        .mockResolvedValue(
+          mockUser as Omit<
+            UserDocument,
+            'password_hash' | 'hashedRefreshToken'
+          >,
+        );
+      jest.spyOn(tokenRevocationService, 'isRevoked').mockResolvedValue(true);
+
+      // Act & Assert
+      await expect(strategy.validate(payload)).rejects.toThrow(
+        UnauthorizedException,
+      );
+    });
+
+    it('should throw UnauthorizedException when the token version is outdated', async () => {
+      // Arrange
+      const payload = { sub: 'user-id', username: 'test@example.com', ver: 1 };
+      jest.spyOn(usersService, 'findById').mockResolvedValue({
+        ...mockUser,
+        tokenVersion: 2,
+      } as Omit<UserDocument, 'password_hash' | 'hashedRefreshToken'>);
+
+      // Act & Assert
+      await expect(strategy.validate(payload)).rejects.toThrow(
+        UnauthorizedException,
+      );
+    });
+
+    it('should throw UnauthorizedException for an MFA token', async () => {
+      // Arrange
+      const payload = {
+        sub: 'user-id',
+        username: 'test@example.com',
+        tokenType: 'mfa',
+      };
+
+      // Act & Assert
+      await expect(strategy.validate(payload)).rejects.toThrow(
+        UnauthorizedException,
+      );
+      expect(jest.spyOn(usersService, 'findById')).not.toHaveBeenCalled();
+    });
+
+    it('should leave tokens issued to OAuth clients to the next strategy', async () => {
+      // Arrange
+      const payload = {
+        sub: 'client-id',
+        username: undefined as unknown as string,
+        client_id: 'client-id',
+        scope: 'users:read',
+      };
+
+      // Act
+      const result = await strategy.validate(payload);
+
+      // Assert
+      expect(result).toBeNull();
+      expect(jest.spyOn(usersService, 'findById')).not.toHaveBeenCalled();
     });
 
     it('should throw UnauthorizedException when user is not found', async () => {
@@ -113,7 +401,13 @@ describe('JwtStrategy', () => {
 
       // Act & Assert
       expect(() => {
-        new JwtStrategy(configService, usersService, i18nService);
+        new JwtStrategy(
+          new JwtKeyService(configService, i18nService),
+          usersService,
+          tokenRevocationService,
+          mockSessionService as unknown as SessionService,
+          i18nService,
+        );
       }).toThrow();
     });
   });
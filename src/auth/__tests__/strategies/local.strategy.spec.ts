@@ -1,9 +1,10 @@
 import { Test, TestingModule } from '@nestjs/testing';
 import { UnauthorizedException } from '@nestjs/common';
+import { Request } from 'express';
 import { I18nService, I18nContext } from 'nestjs-i18n';
 import { LocalStrategy } from '../../strategies/local.strategy';
 import { AuthService } from '../../auth.service';
-import { UserDocument } from '../../../users';
+import { UserDocument, UserStatus } from '../../../users';
 import { createMockI18nService } from '../../../common/__tests__/test-utils';
 
 describe('LocalStrategy', () => {
@@ -17,6 +18,11 @@ describe('LocalStrategy', () => {
     name: 'Test User',
   };
 
+  const mockRequest = {
+    headers: { 'x-forwarded-for': '203.0.113.7, 10.0.0.1' },
+    ip: '10.0.0.1',
+  } as unknown as Request;
+
   const mockAuthService = {
     validateUser: jest.fn(),
   };
@@ -55,7 +61,7 @@ describe('LocalStrategy', () => {
   });
 
   describe('validate', () => {
-    it('should return user when credentials are valid', async () => {
+    it('should return user when credentials are valid, passing the client IP', async () => {
       // Arrange
       jest
         .spyOn(authService, 'validateUser')
@@ -67,12 +73,17 @@ describe('LocalStrategy', () => {
         );
 
       // Act
-      const result = await strategy.validate('test@example.com', 'password');
+      const result = await strategy.validate(
+        mockRequest,
+        'test@example.com',
+        'password',
+      );
 
       // Assert
       expect(authService.validateUser).toHaveBeenCalledWith(
         'test@example.com',
         'password',
+        '203.0.113.7',
       );
       expect(result).toEqual(mockUser);
     });
@@ -90,14 +101,28 @@ describe('LocalStrategy', () => {
 
       // Act & Assert
       await expect(
-        strategy.validate('test@example.com', 'wrong_password'),
+        strategy.validate(mockRequest, 'test@example.com', 'wrong_password'),
       ).rejects.toThrow(UnauthorizedException);
       expect(authService.validateUser).toHaveBeenCalledWith(
         'test@example.com',
         'wrong_password',
+        '203.0.113.7',
       );
     });
 
+    it('should throw UnauthorizedException when the user is suspended', async () => {
+      // Arrange
+      jest.spyOn(authService, 'validateUser').mockResolvedValue({
+        ...mockUser,
+        status: UserStatus.SUSPENDED,
+      } as Omit<UserDocument, 'password_hash' | 'hashedRefreshToken'>);
+
+      // Act & Assert
+      await expect(
+        strategy.validate(mockRequest, 'test@example.com', 'password'),
+      ).rejects.toThrow(UnauthorizedException);
+    });
+
     it('should propagate exceptions from authService.validateUser', async () => {
       // Arrange
       const error = new UnauthorizedException('Invalid credentials');
@@ -105,11 +130,12 @@ describe('LocalStrategy', () => {
 
       // Act & Assert
       await expect(
-        strategy.validate('test@example.com', 'password'),
+        strategy.validate(mockRequest, 'test@example.com', 'password'),
       ).rejects.toThrow(error);
       expect(authService.validateUser).toHaveBeenCalledWith(
         'test@example.com',
         'password',
+        '203.0.113.7',
       );
     });
   });
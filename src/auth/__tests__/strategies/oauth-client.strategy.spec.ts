@@ -0,0 +1,109 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { UnauthorizedException } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { I18nService, I18nContext } from 'nestjs-i18n';
+import { OAuthClientStrategy } from '../../strategies/oauth-client.strategy';
+import { OAuthClientService } from '../../services/oauth-client.service';
+import { JwtKeyService } from '../../services/jwt-key.service';
+import {
+  createMockConfigService,
+  createMockI18nService,
+} from '../../../common/__tests__/test-utils';
+
+describe('OAuthClientStrategy', () => {
+  let strategy: OAuthClientStrategy;
+
+  const mockOAuthClientService = {
+    findActiveByClientId: jest.fn(),
+  };
+
+  beforeEach(async () => {
+    jest
+      .spyOn(I18nContext, 'current')
+      .mockReturnValue({ lang: 'en' } as I18nContext<unknown>);
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        OAuthClientStrategy,
+        JwtKeyService,
+        {
+          provide: OAuthClientService,
+          useValue: mockOAuthClientService,
+        },
+        {
+          provide: ConfigService,
+          useValue: createMockConfigService({
+            JWT_ACCESS_SECRET: 'test-jwt-access-secret',
+          }),
+        },
+        {
+          provide: I18nService,
+          useValue: createMockI18nService(),
+        },
+      ],
+    }).compile();
+
+    strategy = module.get<OAuthClientStrategy>(OAuthClientStrategy);
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('should be defined', () => {
+    expect(strategy).toBeDefined();
+  });
+
+  describe('validate', () => {
+    it('should return a service principal with the scopes the client still holds', async () => {
+      // Arrange
+      mockOAuthClientService.findActiveByClientId.mockResolvedValue({
+        clientId: 'client-id',
+        name: 'Billing service',
+        scopes: ['users:read'],
+      });
+
+      // Act
+      const result = await strategy.validate({
+        sub: 'client-id',
+        client_id: 'client-id',
+        scope: 'users:read roles:read',
+      });
+
+      // Assert
+      expect(mockOAuthClientService.findActiveByClientId).toHaveBeenCalledWith(
+        'client-id',
+      );
+      expect(result).toEqual({
+        principalType: 'service',
+        clientId: 'client-id',
+        name: 'Billing service',
+        scopes: ['users:read'],
+      });
+    });
+
+    it("should leave a user's access token to the next strategy", async () => {
+      // Act
+      const result = await strategy.validate({
+        sub: 'user-id',
+        username: 'test@example.com',
+      });
+
+      // Assert
+      expect(result).toBeNull();
+      expect(
+        mockOAuthClientService.findActiveByClientId,
+      ).not.toHaveBeenCalled();
+    });
+
+    it('should throw UnauthorizedException when the client has been disabled', async () => {
+      // Arrange
+      mockOAuthClientService.findActiveByClientId.mockResolvedValue(null);
+
+      // Act & Assert
+      await expect(
+        strategy.validate({ client_id: 'client-id', scope: 'users:read' }),
+      ).rejects.toThrow(UnauthorizedException);
+    });
+  });
+});
@@ -0,0 +1,101 @@
+import {
+  base32Decode,
+  base32Encode,
+  buildOtpauthUri,
+  findTotpCounter,
+  generateTotp,
+  generateTotpSecret,
+} from '../../utils/totp.util';
+
+describe('TOTP utilities', () => {
+  // Secret of the RFC 6238 test vectors
+  const secret = base32Encode(Buffer.from('12345678901234567890', 'ascii'));
+
+  describe('base32', () => {
+    it('should round-trip arbitrary bytes', () => {
+      // Arrange
+      const bytes = Buffer.from([0, 1, 2, 250, 251, 252, 253]);
+
+      // Act
+      const decoded = base32Decode(base32Encode(bytes));
+
+      // Assert
+      expect(decoded.equals(bytes)).toBe(true);
+    });
+
+    it('should ignore case, spaces and padding when decoding', () => {
+      // Act
+      const decoded = base32Decode('mzxw 6ytb==');
+
+      // Assert
+      expect(decoded.toString('ascii')).toBe('fooba');
+    });
+  });
+
+  describe('generateTotpSecret', () => {
+    it('should generate a 160-bit base32 secret', () => {
+      // Act
+      const generated = generateTotpSecret();
+
+      // Assert
+      expect(generated).toMatch(/^[A-Z2-7]{32}$/);
+      expect(base32Decode(generated)).toHaveLength(20);
+    });
+  });
+
+  describe('generateTotp', () => {
+    it('should match the RFC 6238 test vectors', () => {
+      // Act & Assert
+      expect(generateTotp(secret, Math.floor(59 / 30))).toBe('287082');
+      expect(generateTotp(secret, Math.floor(1111111109 / 30))).toBe('081804');
+      expect(generateTotp(secret, Math.floor(2000000000 / 30))).toBe('279037');
+    });
+  });
+
+  describe('findTotpCounter', () => {
+    const time = 1111111109 * 1000;
+    const counter = Math.floor(1111111109 / 30);
+
+    it('should return the time step of a valid code', () => {
+      // Act
+      const result = findTotpCounter(secret, '081804', 1, time);
+
+      // Assert
+      expect(result).toBe(counter);
+    });
+
+    it('should accept the code of the previous time step', () => {
+      // Act
+      const result = findTotpCounter(secret, '081804', 1, time + 30 * 1000);
+
+      // Assert
+      expect(result).toBe(counter);
+    });
+
+    it('should reject codes outside the window', () => {
+      // Act
+      const result = findTotpCounter(secret, '081804', 1, time + 90 * 1000);
+
+      // Assert
+      expect(result).toBeNull();
+    });
+
+    it('should reject malformed codes', () => {
+      // Act & Assert
+      expect(findTotpCounter(secret, '81804', 1, time)).toBeNull();
+      expect(findTotpCounter(secret, 'abcdef', 1, time)).toBeNull();
+    });
+  });
+
+  describe('buildOtpauthUri', () => {
+    it('should build a key URI with the issuer and account', () => {
+      // Act
+      const uri = buildOtpauthUri('IntelliScope', 'john@example.com', 'ABCD');
+
+      // Assert
+      expect(uri).toBe(
+        'otpauth://totp/IntelliScope:john%40example.com?secret=ABCD&issuer=IntelliScope&algorithm=SHA1&digits=6&period=30',
+      );
+    });
+  });
+});
@@ -6,8 +6,15 @@ import {
   UseGuards,
   Request,
   Get,
+  Delete,
+  Param,
   HttpCode,
   HttpStatus,
+  ValidationPipe,
+  UseFilters,
+  Res,
+  Headers,
+  Query,
 } from '@nestjs/common';
 import { AuthService } from './auth.service';
 import { JwtAuthGuard, JwtRefreshTokenGuard, LocalAuthGuard } from './guards';
@@ -16,8 +23,45 @@ import {
   LoginResponseDto,
   TokenResponseDto,
   RefreshTokenDto,
+  SessionResponseDto,
+  VerifyEmailDto,
+  ResendVerificationDto,
+  ForgotPasswordDto,
+  ResetPasswordDto,
+  RequestMagicLinkDto,
+  VerifyMagicLinkDto,
+  ChangePasswordDto,
+  ConfirmMfaDto,
+  VerifyMfaDto,
+  ReauthenticateDto,
+  CreateApiKeyDto,
+  ApiKeyResponseDto,
+  ClientCredentialsTokenDto,
+  ClientCredentialsTokenResponseDto,
+  CreateOAuthClientDto,
+  OAuthClientResponseDto,
 } from './dto';
-import { UserDocument } from '../users';
+import { OAuthExceptionFilter } from './filters';
+import { ServicePrincipal } from './interfaces';
+import {
+  OIDC_LOGIN_STATE_TTL,
+  OIDC_STATE_COOKIE,
+  RECENT_AUTH_MAX_AGE,
+} from './constants';
+import {
+  PermissionsGuard,
+  RequirePermissions,
+  NoImpersonationGuard,
+  RecentAuthGuard,
+  RequireRecentAuth,
+} from '../common';
+import { Permission } from '../permissions/constants';
+import { UserDocument, CreateUserDto } from '../users';
+import { RequestUtils } from '../activity-log';
+import {
+  Request as ExpressRequest,
+  Response as ExpressResponse,
+} from 'express';
 import {
   ApiTags,
   ApiOperation,
@@ -25,6 +69,19 @@ import {
   ApiBearerAuth,
   ApiUnauthorizedResponse,
   ApiOkResponse,
+  ApiParam,
+  ApiNoContentResponse,
+  ApiNotFoundResponse,
+  ApiBadRequestResponse,
+  ApiCreatedResponse,
+  ApiConflictResponse,
+  ApiForbiddenResponse,
+  ApiExtraModels,
+  ApiConsumes,
+  ApiQuery,
+  ApiFoundResponse,
+  ApiBadGatewayResponse,
+  getSchemaPath,
 } from '@nestjs/swagger';
 
 // Interface for request after passing through LocalAuthGuard
@@ -35,12 +92,28 @@ export interface LoginRequest extends Request {
 // Interface for request after passing through JwtAuthGuard
 export interface AuthenticatedRequest extends Request {
   user: {
+    principalType?: 'user';
     userId: string;
     email: string;
     name: string;
+    roles: string[];
+    sessionId?: string;
+    tokenId?: string;
+    tokenExpiresAt?: number;
+    authTime?: number; // Seconds since the epoch, checked by RecentAuthGuard
+    apiKeyId?: string; // Set instead of the session and token when authenticated with an API key
+    scopes?: string[];
+    impersonatorId?: string; // Set when an administrator is acting as the user
+    impersonatorEmail?: string;
   };
 }
 
+// Interface for request after passing through JwtOrApiKeyAuthGuard, which
+// also accepts access tokens issued to OAuth clients
+export interface PrincipalRequest extends Request {
+  user: AuthenticatedRequest['user'] | ServicePrincipal;
+}
+
 // Interface for request after passing through JwtRefreshTokenGuard
 export interface RefreshTokenRequest extends Request {
   user: {
@@ -61,7 +134,14 @@ export class AuthController {
     description: 'User has been successfully logged in',
     type: LoginResponseDto,
   })
+  @ApiOkResponse({
+    description:
+      'Two-factor authentication is enabled: returns `mfa_required` and an `mfa_token` for `POST /auth/mfa/verify`',
+  })
   @ApiUnauthorizedResponse({ description: 'Invalid credentials' })
+  @ApiForbiddenResponse({
+    description: 'Email address not verified (when verification is required)',
+  })
   @UseGuards(LocalAuthGuard)
   @Post('login')
   @HttpCode(HttpStatus.OK)
@@ -69,6 +149,329 @@ export class AuthController {
     return this.authService.login(req.user);
   }
 
+  @ApiOperation({
+    summary: 'Finish a login with the second factor',
+    description:
+      'Accepts a code from the authenticator app or one of the recovery codes.',
+  })
+  @ApiBody({ type: VerifyMfaDto })
+  @ApiOkResponse({
+    description: 'User has been successfully logged in',
+    type: LoginResponseDto,
+  })
+  @ApiUnauthorizedResponse({
+    description: 'The MFA token is invalid or expired, or the code is wrong',
+  })
+  @Post('mfa/verify')
+  @HttpCode(HttpStatus.OK)
+  async verifyMfa(
+    @Body() verifyMfaDto: VerifyMfaDto,
+    @Request() req: ExpressRequest,
+  ) {
+    return this.authService.verifyMfa(
+      verifyMfaDto.mfa_token,
+      verifyMfaDto.code,
+      RequestUtils.getClientIp(req),
+    );
+  }
+
+  @ApiOperation({
+    summary: 'Send a login link by email',
+    description:
+      'Only available when `MAGIC_LINK_ENABLED` is `true`. The link works once and expires after `MAGIC_LINK_TOKEN_TTL` seconds.',
+  })
+  @ApiBody({ type: RequestMagicLinkDto })
+  @ApiOkResponse({
+    description: 'Same response whether or not the account exists',
+  })
+  @ApiNotFoundResponse({ description: 'Magic-link login is disabled' })
+  @Post('magic-link')
+  @HttpCode(HttpStatus.OK)
+  async requestMagicLink(@Body() requestMagicLinkDto: RequestMagicLinkDto) {
+    return this.authService.requestMagicLink(requestMagicLinkDto.email);
+  }
+
+  @ApiOperation({ summary: 'Log in with the token of a login link' })
+  @ApiBody({ type: VerifyMagicLinkDto })
+  @ApiOkResponse({
+    description: 'User has been successfully logged in',
+    type: LoginResponseDto,
+  })
+  @ApiOkResponse({
+    description:
+      'Two-factor authentication is enabled: returns `mfa_required` and an `mfa_token` for `POST /auth/mfa/verify`',
+  })
+  @ApiUnauthorizedResponse({
+    description: 'The token is invalid, expired or already used',
+  })
+  @ApiNotFoundResponse({ description: 'Magic-link login is disabled' })
+  @Post('magic-link/verify')
+  @HttpCode(HttpStatus.OK)
+  async verifyMagicLink(
+    @Body() verifyMagicLinkDto: VerifyMagicLinkDto,
+    @Request() req: ExpressRequest,
+  ) {
+    return this.authService.verifyMagicLink(
+      verifyMagicLinkDto.token,
+      RequestUtils.getClientIp(req),
+    );
+  }
+
+  @ApiOperation({
+    summary: 'Log in with an external OpenID Connect provider',
+    description:
+      'Redirects to the provider, using the authorization code flow with PKCE. The provider sends the user back to `GET /auth/oidc/{provider}/callback`, which only accepts the login in the browser that started it, thanks to an `oidc_state` cookie.',
+  })
+  @ApiParam({
+    name: 'provider',
+    description: 'Provider name',
+    example: 'google',
+  })
+  @ApiFoundResponse({ description: 'Redirect to the provider' })
+  @ApiNotFoundResponse({ description: 'Provider not configured' })
+  @ApiBadGatewayResponse({ description: 'Provider unavailable' })
+  @Get('oidc/:provider/login')
+  async startOidcLogin(
+    @Param('provider') provider: string,
+    @Request() req: ExpressRequest,
+    @Res() res: ExpressResponse,
+  ) {
+    const { url, stateHash } = await this.authService.startOidcLogin(provider);
+    // Lax, so that the cookie comes back with the redirect from the provider
+    res.cookie(OIDC_STATE_COOKIE, stateHash, {
+      httpOnly: true,
+      secure: req.secure,
+      sameSite: 'lax',
+      maxAge: OIDC_LOGIN_STATE_TTL * 1000,
+    });
+    res.redirect(HttpStatus.FOUND, url);
+  }
+
+  @ApiOperation({
+    summary: 'Finish a login with an external OpenID Connect provider',
+    description:
+      'Validates the ID token and logs in the user linked to the provider account. An unknown account is linked to the user with the same email, or to a new user, if the provider verified the email; an existing user must have verified it too.',
+  })
+  @ApiParam({
+    name: 'provider',
+    description: 'Provider name',
+    example: 'google',
+  })
+  @ApiQuery({ name: 'code', required: false })
+  @ApiQuery({ name: 'state', required: false })
+  @ApiQuery({
+    name: 'error',
+    required: false,
+    description: 'Set by the provider when the login was refused',
+  })
+  @ApiOkResponse({
+    description: 'User has been successfully logged in',
+    type: LoginResponseDto,
+  })
+  @ApiOkResponse({
+    description:
+      'Two-factor authentication is enabled: returns `mfa_required` and an `mfa_token` for `POST /auth/mfa/verify`',
+  })
+  @ApiUnauthorizedResponse({
+    description:
+      'The login was refused, expired, started in another browser or cannot be verified, or the email is not verified',
+  })
+  @ApiNotFoundResponse({ description: 'Provider not configured' })
+  @ApiBadGatewayResponse({ description: 'Provider unavailable' })
+  @Get('oidc/:provider/callback')
+  async completeOidcLogin(
+    @Param('provider') provider: string,
+    @Request() req: ExpressRequest,
+    @Res({ passthrough: true }) res: ExpressResponse,
+    @Query('code') code?: string,
+    @Query('state') state?: string,
+    @Query('error') error?: string,
+  ) {
+    const stateHash = RequestUtils.getCookie(req, OIDC_STATE_COOKIE);
+    res.clearCookie(OIDC_STATE_COOKIE, {
+      httpOnly: true,
+      secure: req.secure,
+      sameSite: 'lax',
+    });
+    return this.authService.completeOidcLogin(provider, {
+      code,
+      state,
+      error,
+      stateHash,
+    });
+  }
+
+  @ApiOperation({
+    summary: 'Start setting up two-factor authentication',
+    description:
+      'Returns a TOTP secret and an `otpauth://` URI to add to an authenticator app.',
+  })
+  @ApiOkResponse({
+    description: 'Returns the secret and the URI',
+    schema: {
+      type: 'object',
+      properties: {
+        message: { type: 'string' },
+        secret: { type: 'string', example: 'JBSWY3DPEHPK3PXPJBSWY3DPEHPK3PXP' },
+        otpauth_url: {
+          type: 'string',
+          example:
+            'otpauth://totp/IntelliScope:john.doe%40example.com?secret=JBSWY3DPEHPK3PXPJBSWY3DPEHPK3PXP&issuer=IntelliScope&algorithm=SHA1&digits=6&period=30',
+        },
+      },
+    },
+  })
+  @ApiConflictResponse({
+    description: 'Two-factor authentication is already enabled',
+  })
+  @ApiUnauthorizedResponse({ description: 'Unauthorized' })
+  @ApiForbiddenResponse({
+    description:
+      'Re-authentication required (`code`: `REAUTHENTICATION_REQUIRED`)',
+  })
+  @ApiBearerAuth()
+  @UseGuards(JwtAuthGuard, NoImpersonationGuard, RecentAuthGuard)
+  @RequireRecentAuth(RECENT_AUTH_MAX_AGE)
+  @Post('mfa/enroll')
+  @HttpCode(HttpStatus.OK)
+  async startMfaEnrollment(@Request() req: AuthenticatedRequest) {
+    return this.authService.startMfaEnrollment(req.user.userId, req.user.email);
+  }
+
+  @ApiOperation({
+    summary: 'Enable two-factor authentication',
+    description:
+      'Confirms the setup with a first code. The recovery codes are only returned once.',
+  })
+  @ApiBody({ type: ConfirmMfaDto })
+  @ApiOkResponse({
+    description: 'Returns the recovery codes',
+    schema: {
+      type: 'object',
+      properties: {
+        message: { type: 'string' },
+        recovery_codes: {
+          type: 'array',
+          items: { type: 'string' },
+          example: ['k7qxm-2vdpa', 'f3rtz-8wnhe'],
+        },
+      },
+    },
+  })
+  @ApiBadRequestResponse({
+    description: 'The setup was not started or the code is wrong',
+  })
+  @ApiUnauthorizedResponse({ description: 'Unauthorized' })
+  @ApiForbiddenResponse({
+    description:
+      'Re-authentication required (`code`: `REAUTHENTICATION_REQUIRED`)',
+  })
+  @ApiBearerAuth()
+  @UseGuards(JwtAuthGuard, NoImpersonationGuard, RecentAuthGuard)
+  @RequireRecentAuth(RECENT_AUTH_MAX_AGE)
+  @Post('mfa/enroll/confirm')
+  @HttpCode(HttpStatus.OK)
+  async confirmMfaEnrollment(
+    @Body() confirmMfaDto: ConfirmMfaDto,
+    @Request() req: AuthenticatedRequest,
+  ) {
+    return this.authService.confirmMfaEnrollment(
+      req.user.userId,
+      req.user.email,
+      confirmMfaDto.code,
+    );
+  }
+
+  @ApiOperation({ summary: 'Register a new account' })
+  @ApiBody({ type: CreateUserDto })
+  @ApiCreatedResponse({
+    description:
+      'The account has been created and a verification email has been sent',
+    schema: {
+      type: 'object',
+      properties: {
+        message: {
+          type: 'string',
+          example:
+            'Registration successful. Please check your email to verify your account.',
+        },
+        user: {
+          type: 'object',
+          properties: {
+            id: { type: 'string', example: '60d21b4667d0d8992e610c85' },
+            email: { type: 'string', example: 'john.doe@example.com' },
+            name: { type: 'string', example: 'John Doe' },
+            emailVerified: { type: 'boolean', example: false },
+          },
+        },
+      },
+    },
+  })
+  @ApiConflictResponse({ description: 'Email already exists' })
+  @Post('register')
+  @HttpCode(HttpStatus.CREATED)
+  async register(
+    @Body(new ValidationPipe({ transform: true, whitelist: true }))
+    createUserDto: CreateUserDto,
+  ) {
+    return this.authService.register(createUserDto);
+  }
+
+  @ApiOperation({ summary: 'Verify an email address' })
+  @ApiBody({ type: VerifyEmailDto })
+  @ApiOkResponse({ description: 'The email address has been verified' })
+  @ApiBadRequestResponse({
+    description: 'The token is invalid, expired or already used',
+  })
+  @Post('verify-email')
+  @HttpCode(HttpStatus.OK)
+  async verifyEmail(@Body() verifyEmailDto: VerifyEmailDto) {
+    return this.authService.verifyEmail(verifyEmailDto.token);
+  }
+
+  @ApiOperation({ summary: 'Send a new verification email' })
+  @ApiBody({ type: ResendVerificationDto })
+  @ApiOkResponse({
+    description:
+      'Same response whether or not the account exists or is already verified',
+  })
+  @Post('resend-verification')
+  @HttpCode(HttpStatus.OK)
+  async resendVerification(
+    @Body() resendVerificationDto: ResendVerificationDto,
+  ) {
+    return this.authService.resendVerification(resendVerificationDto.email);
+  }
+
+  @ApiOperation({ summary: 'Send a password reset link' })
+  @ApiBody({ type: ForgotPasswordDto })
+  @ApiOkResponse({
+    description: 'Same response whether or not the account exists',
+  })
+  @Post('forgot-password')
+  @HttpCode(HttpStatus.OK)
+  async forgotPassword(@Body() forgotPasswordDto: ForgotPasswordDto) {
+    return this.authService.forgotPassword(forgotPasswordDto.email);
+  }
+
+  @ApiOperation({ summary: 'Choose a new password with a reset token' })
+  @ApiBody({ type: ResetPasswordDto })
+  @ApiOkResponse({
+    description:
+      'The password has been changed and every session has been revoked',
+  })
+  @ApiBadRequestResponse({
+    description: 'The token is invalid, expired or already used',
+  })
+  @Post('reset-password')
+  @HttpCode(HttpStatus.OK)
+  async resetPassword(@Body() resetPasswordDto: ResetPasswordDto) {
+    return this.authService.resetPassword(
+      resetPasswordDto.token,
+      resetPasswordDto.password,
+    );
+  }
+
   @ApiOperation({ summary: 'Get user profile' })
   @ApiOkResponse({
     description: 'Returns the user profile',
@@ -78,6 +481,15 @@ export class AuthController {
         userId: { type: 'string', example: '60d21b4667d0d8992e610c85' },
         email: { type: 'string', example: 'john.doe@example.com' },
         name: { type: 'string', example: 'John Doe' },
+        roles: {
+          type: 'array',
+          items: { type: 'string' },
+          example: ['user'],
+        },
+        sessionId: {
+          type: 'string',
+          example: '3f2b8c1e-6a4d-4f0e-9b1a-2c7d5e8f9a01',
+        },
       },
     },
   })
@@ -106,7 +518,77 @@ export class AuthController {
     return this.authService.refreshToken(userId, currentRefreshToken);
   }
 
-  @ApiOperation({ summary: 'User logout' })
+  @ApiOperation({
+    summary: 'Change the password of the logged in user',
+    description:
+      'Requires the current password. Every other session is revoked and the current session receives new tokens.',
+  })
+  @ApiBody({ type: ChangePasswordDto })
+  @ApiOkResponse({
+    description: 'The password has been changed',
+    type: TokenResponseDto,
+  })
+  @ApiBadRequestResponse({ description: 'The current password is wrong' })
+  @ApiUnauthorizedResponse({ description: 'Unauthorized' })
+  @ApiBearerAuth()
+  @UseGuards(JwtAuthGuard, NoImpersonationGuard)
+  @Post('change-password')
+  @HttpCode(HttpStatus.OK)
+  async changePassword(
+    @Body() changePasswordDto: ChangePasswordDto,
+    @Request() req: AuthenticatedRequest,
+  ) {
+    return this.authService.changePassword(
+      req.user.userId,
+      req.user.sessionId,
+      changePasswordDto.current_password,
+      changePasswordDto.password,
+    );
+  }
+
+  @ApiOperation({
+    summary: 'Confirm the identity of the logged-in user again',
+    description:
+      'Takes the password, or a code when two-factor authentication is enabled, and returns a short-lived access token for the current session that is accepted by the endpoints answering 403 with the code `REAUTHENTICATION_REQUIRED`.',
+  })
+  @ApiBody({ type: ReauthenticateDto })
+  @ApiOkResponse({
+    description: 'Returns the elevated access token',
+    schema: {
+      type: 'object',
+      properties: {
+        message: { type: 'string', example: 'Identity confirmed.' },
+        access_token: {
+          type: 'string',
+          example: 'eyJhbGciOiJIUzI1NiIsInR5cCI6IkpXVCJ9...',
+        },
+        expires_in: { type: 'number', example: 300 },
+      },
+    },
+  })
+  @ApiBadRequestResponse({
+    description: 'The access token is not tied to a session',
+  })
+  @ApiUnauthorizedResponse({
+    description: 'Unauthorized, or the password or code is wrong',
+  })
+  @ApiBearerAuth()
+  @UseGuards(JwtAuthGuard, NoImpersonationGuard)
+  @Post('reauthenticate')
+  @HttpCode(HttpStatus.OK)
+  async reauthenticate(
+    @Body() reauthenticateDto: ReauthenticateDto,
+    @Request() req: AuthenticatedRequest & Omit<ExpressRequest, 'user'>,
+  ) {
+    return this.authService.reauthenticate(
+      req.user.userId,
+      req.user.sessionId,
+      { password: reauthenticateDto.password, code: reauthenticateDto.code },
+      RequestUtils.getClientIp(req),
+    );
+  }
+
+  @ApiOperation({ summary: 'User logout from the current session' })
   @ApiOkResponse({ description: 'User has been successfully logged out' })
   @ApiUnauthorizedResponse({ description: 'Unauthorized' })
   @ApiBearerAuth()
@@ -114,6 +596,287 @@ export class AuthController {
   @Post('logout')
   @HttpCode(HttpStatus.OK)
   async logout(@Request() req: AuthenticatedRequest) {
-    return this.authService.logout(req.user.userId);
+    // Logging out of an impersonation only ends the impersonation
+    if (req.user.impersonatorId) {
+      return this.authService.endImpersonation(req.user.userId, {
+        jti: req.user.tokenId,
+        exp: req.user.tokenExpiresAt,
+      });
+    }
+    return this.authService.logout(req.user.userId, req.user.sessionId, {
+      jti: req.user.tokenId,
+      exp: req.user.tokenExpiresAt,
+    });
+  }
+
+  @ApiOperation({ summary: 'User logout from every device' })
+  @ApiOkResponse({
+    description:
+      'Every access and refresh token of the user has been invalidated',
+  })
+  @ApiUnauthorizedResponse({ description: 'Unauthorized' })
+  @ApiBearerAuth()
+  @UseGuards(JwtAuthGuard, NoImpersonationGuard)
+  @Post('logout-all')
+  @HttpCode(HttpStatus.OK)
+  async logoutAll(@Request() req: AuthenticatedRequest) {
+    return this.authService.logoutAll(req.user.userId);
+  }
+
+  @ApiOperation({ summary: 'List the devices the user is logged in on' })
+  @ApiOkResponse({
+    description: 'Returns the active sessions, most recently used first',
+    type: [SessionResponseDto],
+  })
+  @ApiUnauthorizedResponse({ description: 'Unauthorized' })
+  @ApiBearerAuth()
+  @UseGuards(JwtAuthGuard)
+  @Get('sessions')
+  async listSessions(@Request() req: AuthenticatedRequest) {
+    return this.authService.listSessions(req.user.userId, req.user.sessionId);
+  }
+
+  @ApiOperation({ summary: "Revoke one of the user's sessions" })
+  @ApiParam({
+    name: 'id',
+    description: 'Session ID',
+    example: '60d21b4667d0d8992e610c85',
+  })
+  @ApiNoContentResponse({ description: 'The session has been revoked' })
+  @ApiNotFoundResponse({ description: 'Session not found' })
+  @ApiUnauthorizedResponse({ description: 'Unauthorized' })
+  @ApiBearerAuth()
+  @UseGuards(JwtAuthGuard, NoImpersonationGuard)
+  @Delete('sessions/:id')
+  @HttpCode(HttpStatus.NO_CONTENT)
+  async revokeSession(
+    @Param('id') id: string,
+    @Request() req: AuthenticatedRequest,
+  ) {
+    await this.authService.revokeSession(req.user.userId, id);
+  }
+
+  @ApiOperation({ summary: 'Revoke every session except the current one' })
+  @ApiOkResponse({
+    description: 'The other sessions have been revoked',
+    schema: {
+      type: 'object',
+      properties: {
+        message: { type: 'string', example: '2 other session(s) revoked.' },
+        revoked: { type: 'number', example: 2 },
+      },
+    },
+  })
+  @ApiBadRequestResponse({
+    description: 'Current session cannot be identified',
+  })
+  @ApiUnauthorizedResponse({ description: 'Unauthorized' })
+  @ApiBearerAuth()
+  @UseGuards(JwtAuthGuard, NoImpersonationGuard)
+  @Post('sessions/revoke-others')
+  @HttpCode(HttpStatus.OK)
+  async revokeOtherSessions(@Request() req: AuthenticatedRequest) {
+    return this.authService.revokeOtherSessions(
+      req.user.userId,
+      req.user.sessionId,
+    );
+  }
+
+  @ApiOperation({
+    summary: 'Create an API key',
+    description:
+      'For machine clients that cannot log in. The key is sent as `Authorization: ApiKey <key>` or `X-API-Key: <key>` and is only returned once.',
+  })
+  @ApiBody({ type: CreateApiKeyDto })
+  @ApiCreatedResponse({
+    description: 'The API key has been created',
+    schema: {
+      type: 'object',
+      properties: {
+        message: { type: 'string' },
+        key: {
+          type: 'string',
+          example: 'isk_4f9a2b7c_Zk3v9QmT1xw8cR2bL5nH7pJ0sD4fG6yA8eU1iO3qW5t',
+        },
+        apiKey: { $ref: getSchemaPath(ApiKeyResponseDto) },
+      },
+    },
+  })
+  @ApiBadRequestResponse({
+    description: 'Invalid scopes or expiry, or too many active keys',
+  })
+  @ApiUnauthorizedResponse({ description: 'Unauthorized' })
+  @ApiForbiddenResponse({
+    description:
+      'Re-authentication required (`code`: `REAUTHENTICATION_REQUIRED`)',
+  })
+  @ApiExtraModels(ApiKeyResponseDto)
+  @ApiBearerAuth()
+  @UseGuards(JwtAuthGuard, NoImpersonationGuard, RecentAuthGuard)
+  @RequireRecentAuth(RECENT_AUTH_MAX_AGE)
+  @Post('api-keys')
+  @HttpCode(HttpStatus.CREATED)
+  async createApiKey(
+    @Body(new ValidationPipe({ transform: true, whitelist: true }))
+    createApiKeyDto: CreateApiKeyDto,
+    @Request() req: AuthenticatedRequest,
+  ) {
+    return this.authService.createApiKey(
+      req.user.userId,
+      req.user.email,
+      createApiKeyDto,
+    );
+  }
+
+  @ApiOperation({ summary: "List the user's active API keys" })
+  @ApiOkResponse({
+    description: 'Returns the active API keys, newest first',
+    type: ApiKeyResponseDto,
+    isArray: true,
+  })
+  @ApiUnauthorizedResponse({ description: 'Unauthorized' })
+  @ApiBearerAuth()
+  @UseGuards(JwtAuthGuard)
+  @Get('api-keys')
+  async listApiKeys(@Request() req: AuthenticatedRequest) {
+    return this.authService.listApiKeys(req.user.userId);
+  }
+
+  @ApiOperation({ summary: "Revoke one of the user's API keys" })
+  @ApiParam({
+    name: 'id',
+    description: 'API key ID',
+    example: '60d21b4667d0d8992e610c85',
+  })
+  @ApiNoContentResponse({ description: 'The API key has been revoked' })
+  @ApiNotFoundResponse({ description: 'API key not found' })
+  @ApiUnauthorizedResponse({ description: 'Unauthorized' })
+  @ApiBearerAuth()
+  @UseGuards(JwtAuthGuard, NoImpersonationGuard)
+  @Delete('api-keys/:id')
+  @HttpCode(HttpStatus.NO_CONTENT)
+  async revokeApiKey(
+    @Param('id') id: string,
+    @Request() req: AuthenticatedRequest,
+  ) {
+    await this.authService.revokeApiKey(req.user.userId, req.user.email, id);
+  }
+
+  @ApiOperation({
+    summary: 'Obtain an access token for a service',
+    description:
+      'OAuth2 client credentials grant (RFC 6749, section 4.4). The client authenticates with HTTP Basic or with `client_id` and `client_secret` in the body. Responses and errors follow RFC 6749 instead of the usual response envelope.',
+  })
+  @ApiConsumes('application/x-www-form-urlencoded', 'application/json')
+  @ApiBody({ type: ClientCredentialsTokenDto })
+  @ApiOkResponse({
+    description: 'Access token issued',
+    type: ClientCredentialsTokenResponseDto,
+  })
+  @ApiBadRequestResponse({
+    description:
+      '`invalid_request`, `unsupported_grant_type` or `invalid_scope`',
+  })
+  @ApiUnauthorizedResponse({
+    description: '`invalid_client`: client authentication failed',
+  })
+  @UseFilters(OAuthExceptionFilter)
+  @Post('token')
+  async token(
+    @Body() body: Record<string, unknown>,
+    @Headers('authorization') authorization: string | undefined,
+    @Res() res: ExpressResponse,
+  ) {
+    const tokenResponse = await this.authService.issueClientCredentialsToken(
+      body ?? {},
+      authorization,
+    );
+
+    // Written directly so the token response is not wrapped like other responses
+    res.setHeader('Cache-Control', 'no-store');
+    res.setHeader('Pragma', 'no-cache');
+    res.status(HttpStatus.OK).json(tokenResponse);
+  }
+
+  @ApiOperation({ summary: 'Register an OAuth client for a service' })
+  @ApiBody({ type: CreateOAuthClientDto })
+  @ApiCreatedResponse({
+    description: 'The OAuth client has been registered',
+    schema: {
+      type: 'object',
+      properties: {
+        message: { type: 'string' },
+        clientSecret: {
+          type: 'string',
+          example: 'q7Vd0s8YpN2cK5mX1wR4tB9zH3jL6fA0eG2uI5oP8kM',
+        },
+        client: { $ref: getSchemaPath(OAuthClientResponseDto) },
+      },
+    },
+  })
+  @ApiBadRequestResponse({ description: 'Invalid name or scopes' })
+  @ApiUnauthorizedResponse({ description: 'Unauthorized' })
+  @ApiForbiddenResponse({ description: 'Insufficient permissions' })
+  @ApiExtraModels(OAuthClientResponseDto)
+  @ApiBearerAuth()
+  @UseGuards(JwtAuthGuard, NoImpersonationGuard, PermissionsGuard)
+  @RequirePermissions(Permission.OAUTH_CLIENTS_MANAGE)
+  @Post('oauth-clients')
+  @HttpCode(HttpStatus.CREATED)
+  async createOAuthClient(
+    @Body(new ValidationPipe({ transform: true, whitelist: true }))
+    createOAuthClientDto: CreateOAuthClientDto,
+    @Request() req: AuthenticatedRequest,
+  ) {
+    return this.authService.createOAuthClient(
+      req.user.userId,
+      req.user.email,
+      createOAuthClientDto,
+    );
+  }
+
+  @ApiOperation({ summary: 'List the registered OAuth clients' })
+  @ApiOkResponse({
+    description: 'Returns the OAuth clients that are not disabled',
+    type: OAuthClientResponseDto,
+    isArray: true,
+  })
+  @ApiUnauthorizedResponse({ description: 'Unauthorized' })
+  @ApiForbiddenResponse({ description: 'Insufficient permissions' })
+  @ApiBearerAuth()
+  @UseGuards(JwtAuthGuard, PermissionsGuard)
+  @RequirePermissions(Permission.OAUTH_CLIENTS_MANAGE)
+  @Get('oauth-clients')
+  async listOAuthClients() {
+    return this.authService.listOAuthClients();
+  }
+
+  @ApiOperation({
+    summary: 'Disable an OAuth client',
+    description: 'Tokens already issued to the client stop working as well.',
+  })
+  @ApiParam({
+    name: 'clientId',
+    description: 'Client ID',
+    example: '3f2b9c1d8e7a6b5c4d3e2f1a0b9c8d7e',
+  })
+  @ApiNoContentResponse({ description: 'The OAuth client has been disabled' })
+  @ApiNotFoundResponse({ description: 'OAuth client not found' })
+  @ApiUnauthorizedResponse({ description: 'Unauthorized' })
+  @ApiForbiddenResponse({ description: 'Insufficient permissions' })
+  @ApiBearerAuth()
+  @UseGuards(JwtAuthGuard, NoImpersonationGuard, PermissionsGuard)
+  @RequirePermissions(Permission.OAUTH_CLIENTS_MANAGE)
+  @Delete('oauth-clients/:clientId')
+  @HttpCode(HttpStatus.NO_CONTENT)
+  async disableOAuthClient(
+    @Param('clientId') clientId: string,
+    @Request() req: AuthenticatedRequest,
+  ) {
+    await this.authService.disableOAuthClient(
+      req.user.userId,
+      req.user.email,
+      clientId,
+    );
   }
 }
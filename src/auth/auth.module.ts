@@ -1,10 +1,14 @@
 // src/auth/auth.module.ts
-import { Module } from '@nestjs/common';
+import { Module, forwardRef } from '@nestjs/common';
 import { AuthService } from './auth.service';
 import { AuthController } from './auth.controller';
+import { JwksController } from './jwks.controller';
+import { ImpersonationController } from './impersonation.controller';
 import { PassportModule } from '@nestjs/passport';
 import { JwtModule } from '@nestjs/jwt';
+import { MongooseModule } from '@nestjs/mongoose';
 import { UsersModule } from '../users';
+import { MailerModule } from '../mailer';
 import { ConfigModule, ConfigService } from '@nestjs/config';
 
 // Import strategies from the strategies folder
@@ -12,10 +16,46 @@ import {
   JwtStrategy,
   JwtRefreshTokenStrategy,
   LocalStrategy,
+  ApiKeyStrategy,
+  OAuthClientStrategy,
 } from './strategies';
 
 // Import services
-import { TokenService } from './services';
+import {
+  TokenService,
+  SessionService,
+  TokenRevocationService,
+  VerificationTokenService,
+  LoginThrottleService,
+  MfaService,
+  ApiKeyService,
+  OAuthClientService,
+  JwtKeyService,
+  OidcService,
+  ExternalIdentityService,
+} from './services';
+import {
+  Session,
+  SessionSchema,
+  RevokedToken,
+  RevokedTokenSchema,
+  VerificationToken,
+  VerificationTokenSchema,
+  LoginAttempt,
+  LoginAttemptSchema,
+  MfaCredential,
+  MfaCredentialSchema,
+  ApiKey,
+  ApiKeySchema,
+  OAuthClient,
+  OAuthClientSchema,
+  OidcLoginState,
+  OidcLoginStateSchema,
+  ExternalIdentity,
+  ExternalIdentitySchema,
+} from './schemas';
+import { TOKEN_DENYLIST_STORE } from './interfaces';
+import { InMemoryTokenDenylistStore, MongoTokenDenylistStore } from './stores';
 
 /**
  * Module for authentication functionality
@@ -23,8 +63,20 @@ import { TokenService } from './services';
 @Module({
   imports: [
     // Import required modules
-    UsersModule,
+    forwardRef(() => UsersModule),
     PassportModule,
+    MongooseModule.forFeature([
+      { name: Session.name, schema: SessionSchema },
+      { name: RevokedToken.name, schema: RevokedTokenSchema },
+      { name: VerificationToken.name, schema: VerificationTokenSchema },
+      { name: LoginAttempt.name, schema: LoginAttemptSchema },
+      { name: MfaCredential.name, schema: MfaCredentialSchema },
+      { name: ApiKey.name, schema: ApiKeySchema },
+      { name: OAuthClient.name, schema: OAuthClientSchema },
+      { name: OidcLoginState.name, schema: OidcLoginStateSchema },
+      { name: ExternalIdentity.name, schema: ExternalIdentitySchema },
+    ]),
+    MailerModule,
     JwtModule.registerAsync({
       imports: [ConfigModule],
       useFactory: (configService: ConfigService) => ({
@@ -45,14 +97,54 @@ import { TokenService } from './services';
     AuthService,
 
     // Specialized services
+    JwtKeyService,
     TokenService,
+    SessionService,
+    TokenRevocationService,
+    VerificationTokenService,
+    LoginThrottleService,
+    MfaService,
+    ApiKeyService,
+    OAuthClientService,
+    OidcService,
+    ExternalIdentityService,
+
+    // Access token denylist, kept in MongoDB unless configured otherwise
+    MongoTokenDenylistStore,
+    {
+      provide: TOKEN_DENYLIST_STORE,
+      useFactory: (
+        configService: ConfigService,
+        mongoStore: MongoTokenDenylistStore,
+      ) =>
+        configService.get<string>('TOKEN_DENYLIST_STORE', 'mongo') === 'memory'
+          ? new InMemoryTokenDenylistStore()
+          : mongoStore,
+      inject: [ConfigService, MongoTokenDenylistStore],
+    },
 
     // Strategies
     JwtStrategy,
     JwtRefreshTokenStrategy,
     LocalStrategy,
+    ApiKeyStrategy,
+    OAuthClientStrategy,
+  ],
+  controllers: [AuthController, JwksController, ImpersonationController],
+  exports: [
+    JwtModule,
+    PassportModule,
+    AuthService,
+    JwtKeyService,
+    TokenService,
+    SessionService,
+    TokenRevocationService,
+    VerificationTokenService,
+    LoginThrottleService,
+    MfaService,
+    ApiKeyService,
+    OAuthClientService,
+    ExternalIdentityService,
   ],
-  controllers: [AuthController],
-  exports: [JwtModule, PassportModule, AuthService, TokenService],
 })
 export class AuthModule {}
@@ -3,16 +3,48 @@ import {
   Injectable,
   UnauthorizedException,
   ForbiddenException,
+  BadRequestException,
+  NotFoundException,
   InternalServerErrorException,
   Logger,
 } from '@nestjs/common';
-import { UsersService } from '../users';
+import { randomBytes, randomUUID } from 'crypto';
+import { Types } from 'mongoose';
+import { UsersService, CreateUserDto } from '../users';
 import { UserAuthenticationService } from '../users/services';
 import { ConfigService } from '@nestjs/config';
-import { UserDocument } from '../users';
+import { UserDocument, UserStatus } from '../users';
 import { I18nService, I18nContext } from 'nestjs-i18n';
 import { safeObjectIdToString } from '../utils';
-import { TokenService } from './services';
+import { ActivityLogService } from '../activity-log';
+import {
+  TokenService,
+  SessionService,
+  TokenRevocationService,
+  VerificationTokenService,
+  LoginThrottleService,
+  MfaService,
+  ApiKeyService,
+  OAuthClientService,
+  OidcService,
+  OidcCallbackParams,
+  OidcAuthorizationRequest,
+  ExternalIdentityService,
+  RefreshTokenSession,
+  ImpersonationActor,
+} from './services';
+import { SessionRevocationReason, VerificationTokenPurpose } from './enums';
+import { MailerService, MailTemplate } from '../mailer';
+import {
+  SessionResponseDto,
+  ApiKeyResponseDto,
+  CreateApiKeyDto,
+  CreateOAuthClientDto,
+  OAuthClientResponseDto,
+  ClientCredentialsTokenResponseDto,
+} from './dto';
+import { OAuthErrorCode, OAuthException } from './exceptions';
+import { parseBasicCredentials } from './utils';
 
 /**
  * Interface for token payload
@@ -28,32 +60,53 @@ export interface TokenPayload {
 @Injectable()
 export class AuthService {
   private readonly logger = new Logger(AuthService.name);
+  private dummyPasswordHash?: Promise<string>;
 
   constructor(
     private usersService: UsersService,
     private userAuthService: UserAuthenticationService,
     private tokenService: TokenService,
+    private sessionService: SessionService,
+    private tokenRevocationService: TokenRevocationService,
+    private verificationTokenService: VerificationTokenService,
+    private loginThrottleService: LoginThrottleService,
+    private mfaService: MfaService,
+    private apiKeyService: ApiKeyService,
+    private oauthClientService: OAuthClientService,
+    private oidcService: OidcService,
+    private externalIdentityService: ExternalIdentityService,
+    private mailerService: MailerService,
     private configService: ConfigService,
+    private readonly activityLogService: ActivityLogService,
     private readonly i18n: I18nService,
   ) {}
 
   /**
    * Validate user credentials
+   * Failed attempts are counted per account and per client IP address, and
+   * logins are refused while either is locked
    * @param email User email
    * @param pass User password
+   * @param ipAddress Client IP address
    * @returns User without sensitive fields
    */
   async validateUser(
     email: string,
     pass: string,
+    ipAddress?: string,
   ): Promise<Omit<UserDocument, 'password_hash' | 'hashedRefreshToken'>> {
+    await this.loginThrottleService.assertNotLocked(email, ipAddress);
+
     const user = await this.usersService.findOneByEmail(email);
     if (!user || !user.password_hash) {
-      throw new UnauthorizedException(
-        this.i18n.t('translation.AUTH.INVALID_CREDENTIALS', {
-          lang: I18nContext.current()?.lang,
-        }),
+      // Take as long as a real password check, so unknown emails cannot be told apart
+      this.dummyPasswordHash ??=
+        this.userAuthService.hashPassword(randomUUID());
+      await this.userAuthService.comparePasswords(
+        pass,
+        await this.dummyPasswordHash,
       );
+      throw await this.loginFailed(email, ipAddress);
     }
 
     // Compare passwords using the authentication service
@@ -63,6 +116,18 @@ export class AuthService {
     );
 
     if (isMatch) {
+      await this.loginThrottleService.recordSuccess(email);
+      await this.upgradePasswordHash(user, pass);
+
+      // Checked after the password so that unverified accounts cannot be probed
+      if (this.isEmailVerificationRequired() && user.emailVerified === false) {
+        throw new ForbiddenException(
+          this.i18n.t('translation.AUTH.EMAIL_NOT_VERIFIED', {
+            lang: I18nContext.current()?.lang,
+          }),
+        );
+      }
+
       // Destructure and ignore unused variables with underscore prefix
       if (typeof user.toObject !== 'function') {
         throw new Error('User object does not have toObject method');
@@ -84,20 +149,23 @@ export class AuthService {
       >;
     }
 
-    throw new UnauthorizedException(
-      this.i18n.t('translation.AUTH.INVALID_CREDENTIALS', {
-        lang: I18nContext.current()?.lang,
-      }),
-    );
+    throw await this.loginFailed(email, ipAddress, user);
   }
 
   /**
    * Generate access and refresh tokens
    * @param userId User ID
    * @param email User email
+   * @param session Session the refresh token is issued for
+   * @param authTime When the user last entered their credentials, defaults to now
    * @returns Token object with access token, refresh token, and expiration
    */
-  async getTokens(userId: string, _email: string) {
+  async getTokens(
+    userId: string,
+    _email: string,
+    session: RefreshTokenSession,
+    authTime?: Date,
+  ) {
     const accessTokenExpiresInStr = this.configService.get<string>(
       'JWT_ACCESS_EXPIRATION_TIME',
       '3600',
@@ -117,17 +185,29 @@ export class AuthService {
 
     // Get the user to generate tokens
     const user = await this.usersService.findUserByIdForAuth(userId);
-    if (!user) {
+    if (!user || user.status === UserStatus.ERASED) {
       throw new UnauthorizedException(
         this.i18n.t('translation.AUTH.USER_NOT_FOUND', {
           lang: I18nContext.current()?.lang,
         }),
       );
     }
+    // Covers every way of logging in, and refreshing
+    if (user.status === UserStatus.SUSPENDED) {
+      throw new UnauthorizedException(
+        this.i18n.t('translation.AUTH.ACCOUNT_SUSPENDED', {
+          lang: I18nContext.current()?.lang,
+        }),
+      );
+    }
 
     // Generate tokens using the token service
-    const accessToken = this.tokenService.generateAccessToken(user);
-    const refreshToken = this.tokenService.generateRefreshToken(user);
+    const accessToken = this.tokenService.generateAccessToken(
+      user,
+      session.familyId,
+      authTime,
+    );
+    const refreshToken = this.tokenService.generateRefreshToken(user, session);
 
     return {
       access_token: accessToken,
@@ -138,78 +218,590 @@ export class AuthService {
 
   /**
    * Login a user
+   * Users with MFA enabled get a short-lived MFA token instead of the tokens,
+   * to be exchanged with a code at `POST /auth/mfa/verify`
    * @param user User without sensitive fields
-   * @returns Login response with tokens and user info
+   * @returns Login response with tokens and user info, or the MFA challenge
    */
   async login(
     user: Omit<UserDocument, 'password_hash' | 'hashedRefreshToken'>,
   ) {
-    // Convert ObjectId to string
-    const userId = safeObjectIdToString(user._id);
+    if (await this.mfaService.isEnabled(safeObjectIdToString(user._id))) {
+      return {
+        message: this.i18n.t('translation.AUTH.MFA_REQUIRED', {
+          lang: I18nContext.current()?.lang,
+        }),
+        mfa_required: true,
+        mfa_token: this.tokenService.generateMfaToken(user),
+        expires_in: this.tokenService.getMfaTokenExpiresIn(),
+      };
+    }
+
+    return this.startSession(user);
+  }
+
+  /**
+   * Finish a login with the second factor
+   * Wrong codes count as failed logins of the account
+   * @param mfaToken MFA token returned by the login
+   * @param code TOTP code or recovery code
+   * @param ipAddress Client IP address
+   * @returns Login response with tokens and user info
+   */
+  async verifyMfa(mfaToken: string, code: string, ipAddress?: string) {
+    const payload = this.tokenService.verifyMfaToken(mfaToken);
+    const user = payload ? await this.usersService.findById(payload.sub) : null;
+    if (!payload || !user) {
+      throw new UnauthorizedException(
+        this.i18n.t('translation.AUTH.MFA_TOKEN_INVALID', {
+          lang: I18nContext.current()?.lang,
+        }),
+      );
+    }
+
+    await this.loginThrottleService.assertNotLocked(user.email, ipAddress);
+    const method = await this.mfaService.verify(payload.sub, user.email, code);
+    if (!method) {
+      await this.loginThrottleService.recordFailure(user.email, ipAddress);
+      throw new UnauthorizedException(
+        this.i18n.t('translation.AUTH.MFA_CODE_INVALID', {
+          lang: I18nContext.current()?.lang,
+        }),
+      );
+    }
+    await this.loginThrottleService.recordSuccess(user.email);
+
+    return this.startSession(user);
+  }
+
+  /**
+   * Send a single-use login link, when magic-link login is enabled
+   *
+   * The response is the same whether or not the account exists, so the
+   * endpoint cannot be used to find out which emails are registered.
+   *
+   * @param email User email
+   * @returns Magic link response
+   */
+  async requestMagicLink(email: string) {
+    this.assertMagicLinkEnabled();
+
+    try {
+      const user = await this.usersService.findOneByEmail(email);
+      if (user) {
+        await this.sendMagicLinkEmail(user);
+      }
+    } catch (error: unknown) {
+      // Failing loudly would reveal that the account exists
+      const err = error as Error;
+      this.logger.error(
+        `Failed to send magic link email: ${err.message}`,
+        err.stack,
+      );
+    }
+
+    return {
+      message: this.i18n.t('translation.AUTH.MAGIC_LINK_SENT', {
+        lang: I18nContext.current()?.lang,
+      }),
+    };
+  }
+
+  /**
+   * Log in with the token of a login link
+   * Locked accounts are refused, and users with MFA enabled still have to
+   * provide their second factor
+   * @param token Token from the magic link email
+   * @param ipAddress Client IP address
+   * @returns Login response with tokens and user info, or the MFA challenge
+   */
+  async verifyMagicLink(token: string, ipAddress?: string) {
+    this.assertMagicLinkEnabled();
+
+    const userId = await this.verificationTokenService.consume(
+      token,
+      VerificationTokenPurpose.MAGIC_LINK,
+    );
+    const user = userId ? await this.usersService.findById(userId) : null;
+    if (!user) {
+      throw new UnauthorizedException(
+        this.i18n.t('translation.AUTH.MAGIC_LINK_INVALID', {
+          lang: I18nContext.current()?.lang,
+        }),
+      );
+    }
+
+    await this.loginThrottleService.assertNotLocked(user.email, ipAddress);
+    return this.login(user);
+  }
 
-    // Generate tokens
-    const tokens = await this.getTokens(userId, user.email);
+  /**
+   * Start enrolling the user in MFA
+   * @param userId User ID
+   * @param email User email
+   * @returns Secret and `otpauth://` URI for the authenticator app
+   */
+  async startMfaEnrollment(userId: string, email: string) {
+    const enrollment = await this.mfaService.startEnrollment(userId, email);
+    return {
+      message: this.i18n.t('translation.AUTH.MFA_ENROLLMENT_STARTED', {
+        lang: I18nContext.current()?.lang,
+      }),
+      secret: enrollment.secret,
+      otpauth_url: enrollment.otpauthUrl,
+    };
+  }
 
-    // Store refresh token
-    await this.usersService.setCurrentRefreshToken(
+  /**
+   * Enable MFA for the user once the first code checks out
+   * @param userId User ID
+   * @param email User email
+   * @param code TOTP code
+   * @returns Response with the recovery codes
+   */
+  async confirmMfaEnrollment(userId: string, email: string, code: string) {
+    const recoveryCodes = await this.mfaService.confirmEnrollment(
       userId,
-      tokens.refresh_token,
+      email,
+      code,
     );
+    return {
+      message: this.i18n.t('translation.AUTH.MFA_ENABLED', {
+        lang: I18nContext.current()?.lang,
+      }),
+      recovery_codes: recoveryCodes,
+    };
+  }
+
+  /**
+   * Register a new user and send the email verification link
+   * @param createUserDto User creation data
+   * @returns Registration response with the created user
+   */
+  async register(createUserDto: CreateUserDto) {
+    const user = await this.usersService.register(createUserDto);
+
+    try {
+      await this.sendVerificationEmail(user);
+    } catch (error: unknown) {
+      // The account exists already; the user can ask for a new email
+      const err = error as Error;
+      this.logger.error(
+        `Failed to send verification email: ${err.message}`,
+        err.stack,
+      );
+    }
 
     return {
-      message: this.i18n.t('translation.AUTH.LOGIN_SUCCESS', {
+      message: this.i18n.t('translation.AUTH.REGISTER_SUCCESS', {
         lang: I18nContext.current()?.lang,
       }),
       user: {
         id: safeObjectIdToString(user._id),
         email: user.email,
         name: user.name,
+        emailVerified: false,
       },
-      ...tokens,
     };
   }
 
   /**
-   * Refresh tokens using a refresh token
+   * Verify the email address of a user
+   * @param token Token from the verification email
+   * @returns Verification response
+   */
+  async verifyEmail(token: string) {
+    const userId = await this.verificationTokenService.consume(
+      token,
+      VerificationTokenPurpose.EMAIL_VERIFICATION,
+    );
+    if (!userId) {
+      throw new BadRequestException(
+        this.i18n.t('translation.AUTH.VERIFICATION_TOKEN_INVALID', {
+          lang: I18nContext.current()?.lang,
+        }),
+      );
+    }
+
+    await this.usersService.markEmailVerified(userId);
+    return {
+      message: this.i18n.t('translation.AUTH.EMAIL_VERIFIED', {
+        lang: I18nContext.current()?.lang,
+      }),
+    };
+  }
+
+  /**
+   * Send a new verification email, invalidating the previous links
+   *
+   * The response is the same whether or not the account exists, so the
+   * endpoint cannot be used to find out which emails are registered.
+   *
+   * @param email User email
+   * @returns Resend response
+   */
+  async resendVerification(email: string) {
+    const user = await this.usersService.findOneByEmail(email);
+    if (user && user.emailVerified === false) {
+      await this.verificationTokenService.invalidateAll(
+        safeObjectIdToString(user._id),
+        VerificationTokenPurpose.EMAIL_VERIFICATION,
+      );
+      await this.sendVerificationEmail(user);
+    }
+
+    return {
+      message: this.i18n.t('translation.AUTH.VERIFICATION_EMAIL_SENT', {
+        lang: I18nContext.current()?.lang,
+      }),
+    };
+  }
+
+  /**
+   * Send a password reset link
+   *
+   * The response is the same whether or not the account exists, so the
+   * endpoint cannot be used to find out which emails are registered.
+   *
+   * @param email User email
+   * @returns Forgot password response
+   */
+  async forgotPassword(email: string) {
+    try {
+      const user = await this.usersService.findOneByEmail(email);
+      if (user) {
+        await this.sendPasswordResetEmail(user);
+      }
+    } catch (error: unknown) {
+      // Failing loudly would reveal that the account exists
+      const err = error as Error;
+      this.logger.error(
+        `Failed to send password reset email: ${err.message}`,
+        err.stack,
+      );
+    }
+
+    return {
+      message: this.i18n.t('translation.AUTH.PASSWORD_RESET_EMAIL_SENT', {
+        lang: I18nContext.current()?.lang,
+      }),
+    };
+  }
+
+  /**
+   * Reset the password of a user
+   * Every session and access token of the user is revoked
+   * @param token Token from the password reset email
+   * @param password New password
+   * @returns Reset response
+   */
+  async resetPassword(token: string, password: string) {
+    // Check the password history first, so a rejected password keeps the link usable
+    const tokenOwnerId = await this.verificationTokenService.peek(
+      token,
+      VerificationTokenPurpose.PASSWORD_RESET,
+    );
+    if (tokenOwnerId) {
+      await this.usersService.assertPasswordNotReused(tokenOwnerId, password);
+    }
+
+    const userId = await this.verificationTokenService.consume(
+      token,
+      VerificationTokenPurpose.PASSWORD_RESET,
+    );
+    const user = userId ? await this.usersService.findById(userId) : null;
+    if (!userId || !user) {
+      throw new BadRequestException(
+        this.i18n.t('translation.AUTH.RESET_TOKEN_INVALID', {
+          lang: I18nContext.current()?.lang,
+        }),
+      );
+    }
+
+    await this.usersService.updatePassword(userId, password);
+    await this.verificationTokenService.invalidateAll(
+      userId,
+      VerificationTokenPurpose.PASSWORD_RESET,
+    );
+    await this.usersService.incrementTokenVersion(userId);
+    await this.sessionService.revokeAllForUser(
+      userId,
+      SessionRevocationReason.PASSWORD_RESET,
+    );
+    await this.activityLogService.logEvent({
+      userId,
+      actionType: 'PASSWORD_RESET',
+      username: user.email,
+      resource: { type: 'User', id: userId, displayName: user.email },
+    });
+
+    // Whoever took over the account may have started moving it to their address
+    await this.verificationTokenService.invalidateAll(
+      userId,
+      VerificationTokenPurpose.EMAIL_CHANGE,
+    );
+    if (await this.usersService.clearPendingEmail(userId)) {
+      await this.activityLogService.logEvent({
+        userId,
+        actionType: 'EMAIL_CHANGE_CANCELLED',
+        username: user.email,
+        resource: { type: 'User', id: userId, displayName: user.email },
+        metadata: { reason: 'password_reset' },
+      });
+    }
+
+    return {
+      message: this.i18n.t('translation.AUTH.PASSWORD_RESET_SUCCESS', {
+        lang: I18nContext.current()?.lang,
+      }),
+    };
+  }
+
+  /**
+   * Change the password of a user after checking the current one
+   *
+   * Every other session is revoked and the access tokens issued so far stop
+   * working. The current session stays logged in with new tokens; when the
+   * request cannot be tied to a session, every session is revoked instead.
+   *
    * @param userId User ID
-   * @param currentRefreshToken Current refresh token
-   * @returns New tokens
+   * @param sessionId Token family ID from the `sid` claim of the access token
+   * @param currentPassword Current password
+   * @param newPassword New password
+   * @returns Change password response, with new tokens for the current session
    */
-  async refreshToken(userId: string, currentRefreshToken: string) {
+  async changePassword(
+    userId: string,
+    sessionId: string | undefined,
+    currentPassword: string,
+    newPassword: string,
+  ) {
     const user = await this.usersService.findUserByIdForAuth(userId);
-    if (!user || !user.hashedRefreshToken) {
-      throw new ForbiddenException(
-        this.i18n.t('translation.AUTH.ACCESS_DENIED', {
+    if (!user) {
+      throw this.accessDenied();
+    }
+
+    const isMatch = await this.userAuthService.comparePasswords(
+      currentPassword,
+      user.password_hash,
+    );
+    if (!isMatch) {
+      throw new BadRequestException(
+        this.i18n.t('translation.AUTH.CURRENT_PASSWORD_INVALID', {
           lang: I18nContext.current()?.lang,
         }),
       );
     }
 
-    // Validate refresh token
-    const isValid = await this.userAuthService.validateRefreshToken(
-      currentRefreshToken,
+    await this.usersService.assertPasswordNotReused(userId, newPassword);
+    await this.usersService.updatePassword(userId, newPassword);
+    await this.usersService.incrementTokenVersion(userId);
+    await this.activityLogService.logEvent({
+      userId,
+      actionType: 'PASSWORD_CHANGE',
+      username: user.email,
+      resource: { type: 'User', id: userId, displayName: user.email },
+    });
+
+    const message = this.i18n.t('translation.AUTH.PASSWORD_CHANGED', {
+      lang: I18nContext.current()?.lang,
+    });
+
+    const session = sessionId
+      ? await this.sessionService.findByFamilyId(sessionId)
+      : null;
+    if (!sessionId || !session || session.revokedAt) {
+      await this.sessionService.revokeAllForUser(
+        userId,
+        SessionRevocationReason.PASSWORD_CHANGE,
+      );
+      return { message };
+    }
+
+    await this.sessionService.revokeOthers(
       userId,
+      sessionId,
+      SessionRevocationReason.PASSWORD_CHANGE,
     );
 
-    if (!isValid) {
-      throw new ForbiddenException(
-        this.i18n.t('translation.AUTH.ACCESS_DENIED', {
+    // Keep the current device logged in with tokens carrying the new token version
+    const tokenId = randomUUID();
+    const tokens = await this.getTokens(userId, user.email, {
+      familyId: sessionId,
+      tokenId,
+    });
+    await this.sessionService.rotate(sessionId, session.currentTokenId, {
+      tokenId,
+      refreshTokenHash: this.userAuthService.hashRefreshToken(
+        tokens.refresh_token,
+      ),
+    });
+
+    return { message, ...tokens };
+  }
+
+  /**
+   * Start changing the email address of a user
+   *
+   * A confirmation link goes to the new address and a notice to the current
+   * one. The address only changes once the link is confirmed; requesting
+   * another change makes the previous links stop working.
+   *
+   * @param userId User ID
+   * @param email New email address
+   * @returns Email change response
+   * @throws BadRequestException if the address is the current one
+   * @throws ConflictException if another user has the address
+   */
+  async requestEmailChange(userId: string, email: string) {
+    const user = await this.usersService.findUserByIdForAuth(userId);
+    if (!user) {
+      throw this.accessDenied();
+    }
+
+    const newEmail = email.toLowerCase();
+    if (newEmail === user.email) {
+      throw new BadRequestException(
+        this.i18n.t('translation.USER.EMAIL_UNCHANGED', {
           lang: I18nContext.current()?.lang,
         }),
       );
     }
 
-    // Convert ObjectId to string
-    const userIdStr = safeObjectIdToString(user._id);
+    await this.usersService.setPendingEmail(userId, newEmail);
+    await this.sendEmailChangeEmails(user, newEmail);
+    await this.activityLogService.logEvent({
+      userId,
+      actionType: 'EMAIL_CHANGE_REQUESTED',
+      username: user.email,
+      resource: { type: 'User', id: userId, displayName: user.email },
+      metadata: { newEmail },
+    });
+
+    return {
+      message: this.i18n.t('translation.AUTH.EMAIL_CHANGE_REQUESTED', {
+        lang: I18nContext.current()?.lang,
+      }),
+    };
+  }
+
+  /**
+   * Apply the pending email change of a user
+   * @param userId User ID, who must own the token
+   * @param token Token from the confirmation email
+   * @returns Email change response
+   * @throws BadRequestException if the token is invalid or belongs to someone else
+   * @throws ConflictException if another user took the address in the meantime
+   */
+  async confirmEmailChange(userId: string, token: string) {
+    // Check the owner first, so a token presented by someone else stays usable
+    const tokenOwnerId = await this.verificationTokenService.peek(
+      token,
+      VerificationTokenPurpose.EMAIL_CHANGE,
+    );
+    const consumed =
+      tokenOwnerId === userId
+        ? await this.verificationTokenService.consume(
+            token,
+            VerificationTokenPurpose.EMAIL_CHANGE,
+          )
+        : null;
+    const change = consumed
+      ? await this.usersService.applyPendingEmail(userId)
+      : null;
+    if (!change) {
+      throw new BadRequestException(
+        this.i18n.t('translation.AUTH.EMAIL_CHANGE_TOKEN_INVALID', {
+          lang: I18nContext.current()?.lang,
+        }),
+      );
+    }
+
+    await this.activityLogService.logEvent({
+      userId,
+      actionType: 'EMAIL_CHANGED',
+      username: change.email,
+      resource: { type: 'User', id: userId, displayName: change.email },
+      metadata: { previousEmail: change.previousEmail },
+    });
+
+    return {
+      message: this.i18n.t('translation.AUTH.EMAIL_CHANGED', {
+        lang: I18nContext.current()?.lang,
+      }),
+    };
+  }
+
+  /**
+   * Refresh tokens using a refresh token
+   *
+   * The presented refresh token is rotated: it must be the current token of
+   * its session and is replaced by a new one. Presenting a token that was
+   * already rotated revokes the whole session.
+   *
+   * @param userId User ID
+   * @param currentRefreshToken Current refresh token
+   * @returns New tokens
+   */
+  async refreshToken(userId: string, currentRefreshToken: string) {
+    const payload = this.tokenService.verifyRefreshToken(currentRefreshToken);
+    if (!payload?.fam || !payload.jti) {
+      throw this.accessDenied();
+    }
+
+    const session = await this.sessionService.findByFamilyId(payload.fam);
+    if (
+      !session ||
+      session.revokedAt ||
+      safeObjectIdToString(session.userId) !== userId
+    ) {
+      throw this.accessDenied();
+    }
+
+    const user = await this.usersService.findUserByIdForAuth(userId);
+    if (!user) {
+      throw this.accessDenied();
+    }
+
+    const isCurrentToken =
+      session.currentTokenId === payload.jti &&
+      (await this.userAuthService.compareRefreshToken(
+        currentRefreshToken,
+        session.refreshTokenHash,
+      ));
+    if (!isCurrentToken) {
+      return this.handleRefreshTokenReuse(user, payload.fam);
+    }
 
-    // Generate new tokens
-    const tokens = await this.getTokens(userIdStr, user.email);
+    // Generate new tokens for the same family; refreshing is not a new login
+    const tokenId = randomUUID();
+    const tokens = await this.getTokens(
+      userId,
+      user.email,
+      { familyId: payload.fam, tokenId },
+      session.createdAt,
+    );
 
-    // Store new refresh token
-    await this.usersService.setCurrentRefreshToken(
-      userIdStr,
-      tokens.refresh_token,
+    const rotatedSession = await this.sessionService.rotate(
+      payload.fam,
+      payload.jti,
+      {
+        tokenId,
+        refreshTokenHash: this.userAuthService.hashRefreshToken(
+          tokens.refresh_token,
+        ),
+      },
     );
+    if (!rotatedSession) {
+      // Another request rotated the same token first
+      return this.handleRefreshTokenReuse(user, payload.fam);
+    }
+    await this.activityLogService.logEvent({
+      userId,
+      actionType: 'TOKEN_REFRESH',
+      username: user.email,
+      resource: { type: 'Session', id: payload.fam },
+    });
 
     return {
       message: this.i18n.t('translation.AUTH.REFRESH_SUCCESS', {
@@ -220,16 +812,961 @@ export class AuthService {
   }
 
   /**
-   * Logout a user
+   * Logout a user from the current session
+   *
+   * Tokens issued before sessions carried an ID cannot be traced back to a
+   * session, so all sessions of the user are revoked instead.
+   *
    * @param userId User ID
+   * @param sessionId Token family ID from the `sid` claim of the access token
+   * @param accessToken `jti` and `exp` claims of the access token, revoked immediately
    * @returns Logout response
    */
-  async logout(userId: string) {
-    await this.usersService.setCurrentRefreshToken(userId, null);
+  async logout(
+    userId: string,
+    sessionId?: string,
+    accessToken?: { jti?: string; exp?: number },
+  ) {
+    if (accessToken?.jti && accessToken.exp) {
+      await this.tokenRevocationService.revoke(
+        accessToken.jti,
+        accessToken.exp,
+      );
+    }
+    if (sessionId) {
+      await this.sessionService.revokeFamily(
+        sessionId,
+        SessionRevocationReason.LOGOUT,
+      );
+    } else {
+      await this.sessionService.revokeAllForUser(
+        userId,
+        SessionRevocationReason.LOGOUT,
+      );
+    }
+    await this.logLogout(userId, sessionId);
+
     return {
       message: this.i18n.t('translation.AUTH.LOGOUT_SUCCESS', {
         lang: I18nContext.current()?.lang,
       }),
     };
   }
+
+  /**
+   * Logout a user from every device
+   *
+   * Bumping the token version invalidates every access token issued so far,
+   * and revoking the sessions invalidates every refresh token.
+   *
+   * @param userId User ID
+   * @returns Logout response
+   */
+  async logoutAll(userId: string) {
+    await this.usersService.incrementTokenVersion(userId);
+    await this.sessionService.revokeAllForUser(
+      userId,
+      SessionRevocationReason.LOGOUT,
+    );
+    await this.logLogout(userId);
+
+    return {
+      message: this.i18n.t('translation.AUTH.LOGOUT_ALL_SUCCESS', {
+        lang: I18nContext.current()?.lang,
+      }),
+    };
+  }
+
+  /**
+   * List the active sessions of a user
+   * @param userId User ID
+   * @param currentSessionId Token family ID of the session making the request
+   * @returns Active sessions
+   */
+  async listSessions(
+    userId: string,
+    currentSessionId?: string,
+  ): Promise<SessionResponseDto[]> {
+    return this.sessionService.findActiveByUser(userId, currentSessionId);
+  }
+
+  /**
+   * Revoke one of the user's own sessions
+   * @param userId User ID
+   * @param sessionId Session ID
+   */
+  async revokeSession(userId: string, sessionId: string): Promise<void> {
+    await this.sessionService.revokeById(
+      userId,
+      sessionId,
+      SessionRevocationReason.REVOKED_BY_USER,
+    );
+  }
+
+  /**
+   * Revoke every session of the user except the current one
+   * @param userId User ID
+   * @param currentSessionId Token family ID of the session making the request
+   * @returns Response with the number of revoked sessions
+   */
+  async revokeOtherSessions(userId: string, currentSessionId?: string) {
+    if (!currentSessionId) {
+      throw new BadRequestException(
+        this.i18n.t('translation.SESSION.CURRENT_UNKNOWN', {
+          lang: I18nContext.current()?.lang,
+        }),
+      );
+    }
+
+    const revoked = await this.sessionService.revokeOthers(
+      userId,
+      currentSessionId,
+      SessionRevocationReason.REVOKED_BY_USER,
+    );
+    return {
+      message: this.i18n.t('translation.SESSION.OTHERS_REVOKED', {
+        lang: I18nContext.current()?.lang,
+        args: { count: revoked },
+      }),
+      revoked,
+    };
+  }
+
+  /**
+   * Confirm the identity of a logged-in user again before a sensitive action
+   * Wrong passwords and codes count as failed logins of the account
+   * @param userId User ID
+   * @param sessionId Token family ID from the `sid` claim of the access token
+   * @param credentials Password, or TOTP code or recovery code of the user
+   * @param ipAddress Client IP address
+   * @returns Response with an elevated access token for the current session
+   */
+  async reauthenticate(
+    userId: string,
+    sessionId: string | undefined,
+    credentials: { password?: string; code?: string },
+    ipAddress?: string,
+  ) {
+    if (!sessionId) {
+      throw new BadRequestException(
+        this.i18n.t('translation.SESSION.CURRENT_UNKNOWN', {
+          lang: I18nContext.current()?.lang,
+        }),
+      );
+    }
+
+    const session = await this.sessionService.findByFamilyId(sessionId);
+    const user = await this.usersService.findUserByIdForAuth(userId);
+    if (!session || session.revokedAt || !user) {
+      throw this.accessDenied();
+    }
+
+    await this.loginThrottleService.assertNotLocked(user.email, ipAddress);
+    const method = credentials.code !== undefined ? 'mfa' : 'password';
+    const isVerified =
+      method === 'mfa'
+        ? (await this.mfaService.verify(
+            userId,
+            user.email,
+            credentials.code ?? '',
+          )) !== null
+        : !!user.password_hash &&
+          (await this.userAuthService.comparePasswords(
+            credentials.password ?? '',
+            user.password_hash,
+          ));
+
+    if (!isVerified) {
+      await this.loginThrottleService.recordFailure(user.email, ipAddress);
+      await this.activityLogService.logEvent({
+        userId,
+        actionType: 'REAUTHENTICATION_FAILED',
+        username: user.email,
+        resource: { type: 'Session', id: sessionId },
+        metadata: { method },
+        operationStatus: 'FAILURE',
+      });
+      throw new UnauthorizedException(
+        this.i18n.t('translation.AUTH.REAUTHENTICATION_FAILED', {
+          lang: I18nContext.current()?.lang,
+        }),
+      );
+    }
+
+    await this.loginThrottleService.recordSuccess(user.email);
+    await this.activityLogService.logEvent({
+      userId,
+      actionType: 'REAUTHENTICATED',
+      username: user.email,
+      resource: { type: 'Session', id: sessionId },
+      metadata: { method },
+    });
+
+    return {
+      message: this.i18n.t('translation.AUTH.REAUTHENTICATED', {
+        lang: I18nContext.current()?.lang,
+      }),
+      access_token: this.tokenService.generateElevatedAccessToken(
+        user,
+        sessionId,
+      ),
+      expires_in: this.tokenService.getElevatedTokenExpiresIn(),
+    };
+  }
+
+  /**
+   * Start a session for a user who passed every authentication step
+   * @param user User without sensitive fields
+   * @returns Login response with tokens and user info
+   */
+  private async startSession(user: {
+    _id: unknown;
+    email: string;
+    name: string;
+  }) {
+    // Convert ObjectId to string
+    const userId = safeObjectIdToString(user._id);
+
+    // Start a new session with its own token family
+    const familyId = randomUUID();
+    const tokenId = randomUUID();
+    const tokens = await this.getTokens(userId, user.email, {
+      familyId,
+      tokenId,
+    });
+
+    await this.sessionService.create(userId, familyId, {
+      tokenId,
+      refreshTokenHash: this.userAuthService.hashRefreshToken(
+        tokens.refresh_token,
+      ),
+    });
+    await this.activityLogService.logEvent({
+      userId,
+      actionType: 'LOGIN_SUCCESS',
+      username: user.email,
+      resource: { type: 'Session', id: familyId },
+    });
+
+    return {
+      message: this.i18n.t('translation.AUTH.LOGIN_SUCCESS', {
+        lang: I18nContext.current()?.lang,
+      }),
+      user: {
+        id: safeObjectIdToString(user._id),
+        email: user.email,
+        name: user.name,
+      },
+      ...tokens,
+    };
+  }
+
+  /**
+   * Create an API key for the user
+   * @param userId User ID
+   * @param email User email
+   * @param createApiKeyDto Name, scopes and expiry of the key
+   * @returns Response with the key, shown only this once
+   */
+  async createApiKey(
+    userId: string,
+    email: string,
+    createApiKeyDto: CreateApiKeyDto,
+  ) {
+    const { apiKey, key } = await this.apiKeyService.create(userId, email, {
+      name: createApiKeyDto.name,
+      scopes: createApiKeyDto.scopes,
+      expiresAt: createApiKeyDto.expires_at
+        ? new Date(createApiKeyDto.expires_at)
+        : undefined,
+    });
+    return {
+      message: this.i18n.t('translation.API_KEY.CREATED', {
+        lang: I18nContext.current()?.lang,
+      }),
+      key,
+      apiKey,
+    };
+  }
+
+  /**
+   * List the active API keys of the user
+   * @param userId User ID
+   * @returns API keys
+   */
+  async listApiKeys(userId: string): Promise<ApiKeyResponseDto[]> {
+    return this.apiKeyService.findActiveByUser(userId);
+  }
+
+  /**
+   * Revoke one of the user's own API keys
+   * @param userId User ID
+   * @param email User email
+   * @param apiKeyId API key ID
+   */
+  async revokeApiKey(
+    userId: string,
+    email: string,
+    apiKeyId: string,
+  ): Promise<void> {
+    await this.apiKeyService.revoke(userId, email, apiKeyId);
+  }
+
+  /**
+   * Issue an access token with the OAuth2 client credentials grant (RFC 6749, section 4.4)
+   * The client authenticates with HTTP Basic or with `client_id` and
+   * `client_secret` in the body, and may narrow its scopes with `scope`
+   * @param params Token request parameters
+   * @param authorization Authorization header of the request
+   * @returns Token response
+   * @throws OAuthException if the request is malformed, the client cannot be authenticated or a scope is not allowed
+   */
+  async issueClientCredentialsToken(
+    params: Record<string, unknown>,
+    authorization?: string,
+  ): Promise<ClientCredentialsTokenResponseDto> {
+    const param = (name: string) =>
+      typeof params[name] === 'string' ? params[name] : undefined;
+
+    const grantType = param('grant_type');
+    if (!grantType) {
+      throw this.oauthError('invalid_request', 'GRANT_TYPE_MISSING');
+    }
+    if (grantType !== 'client_credentials') {
+      throw this.oauthError('unsupported_grant_type', 'GRANT_TYPE_UNSUPPORTED');
+    }
+
+    // Clients must not use more than one authentication method (RFC 6749, section 2.3)
+    const basicCredentials = parseBasicCredentials(authorization);
+    if (
+      basicCredentials &&
+      (param('client_id') !== undefined || param('client_secret') !== undefined)
+    ) {
+      throw this.oauthError('invalid_request', 'MULTIPLE_CLIENT_AUTH');
+    }
+
+    const clientId = basicCredentials?.clientId ?? param('client_id');
+    const clientSecret =
+      basicCredentials?.clientSecret ?? param('client_secret');
+    const client =
+      clientId && clientSecret
+        ? await this.oauthClientService.authenticate(clientId, clientSecret)
+        : null;
+    if (!client) {
+      await this.activityLogService.logEvent({
+        actionType: 'CLIENT_AUTH_FAILURE',
+        username: clientId ?? 'unknown',
+        resource: { type: 'OAuthClient', id: clientId },
+        operationStatus: 'FAILURE',
+        failureDetails: { errorCode: 'invalid_client' },
+      });
+      throw this.oauthError('invalid_client', 'CLIENT_AUTH_FAILED');
+    }
+
+    // Without a scope parameter the token gets every scope of the client
+    const requestedScopes = (param('scope') ?? '').split(' ').filter(Boolean);
+    const scopes =
+      requestedScopes.length > 0
+        ? [...new Set(requestedScopes)]
+        : client.scopes;
+    if (scopes.some((scope) => !client.scopes.includes(scope))) {
+      throw this.oauthError('invalid_scope', 'SCOPE_NOT_ALLOWED');
+    }
+
+    const accessToken = this.tokenService.generateClientAccessToken(
+      client.clientId,
+      scopes,
+    );
+    await this.activityLogService.logEvent({
+      actionType: 'CLIENT_TOKEN_ISSUED',
+      username: client.name,
+      clientId: client.clientId,
+      resource: {
+        type: 'OAuthClient',
+        id: client.clientId,
+        displayName: client.name,
+      },
+      metadata: { scopes },
+    });
+
+    return {
+      access_token: accessToken,
+      token_type: 'Bearer',
+      expires_in: this.tokenService.getClientTokenExpiresIn(),
+      scope: scopes.join(' '),
+    };
+  }
+
+  /**
+   * Register an OAuth client for the client credentials grant
+   * @param userId ID of the user registering the client
+   * @param email User email
+   * @param createOAuthClientDto Name and allowed scopes of the client
+   * @returns Response with the client secret, shown only this once
+   */
+  async createOAuthClient(
+    userId: string,
+    email: string,
+    createOAuthClientDto: CreateOAuthClientDto,
+  ) {
+    const { client, clientSecret } = await this.oauthClientService.create(
+      userId,
+      email,
+      {
+        name: createOAuthClientDto.name,
+        scopes: createOAuthClientDto.scopes,
+      },
+    );
+    return {
+      message: this.i18n.t('translation.OAUTH.CLIENT_CREATED', {
+        lang: I18nContext.current()?.lang,
+      }),
+      clientSecret,
+      client,
+    };
+  }
+
+  /**
+   * List the registered OAuth clients
+   * @returns OAuth clients
+   */
+  async listOAuthClients(): Promise<OAuthClientResponseDto[]> {
+    return this.oauthClientService.findAll();
+  }
+
+  /**
+   * Disable an OAuth client and the tokens issued to it
+   * @param userId ID of the user disabling the client
+   * @param email User email
+   * @param clientId Client ID
+   */
+  async disableOAuthClient(
+    userId: string,
+    email: string,
+    clientId: string,
+  ): Promise<void> {
+    await this.oauthClientService.disable(userId, email, clientId);
+  }
+
+  /**
+   * Start a login with an external OpenID Connect provider
+   * @param provider Provider name
+   * @returns URL of the provider's authorization endpoint to redirect the user
+   * to, and the hash of the state to keep in the browser
+   */
+  async startOidcLogin(provider: string): Promise<OidcAuthorizationRequest> {
+    return this.oidcService.createAuthorizationUrl(provider);
+  }
+
+  /**
+   * Finish a login with an external OpenID Connect provider
+   * An unknown provider account is linked to the user with the same email,
+   * or to a new user; either way the provider must have verified the email,
+   * and an existing user must have verified it too
+   * @param provider Provider name
+   * @param params Parameters the provider sent to the callback
+   * @returns Login response with tokens and user info, or the MFA challenge
+   */
+  async completeOidcLogin(provider: string, params: OidcCallbackParams) {
+    const claims = await this.oidcService.handleCallback(provider, params);
+    const providerName = provider.toLowerCase();
+
+    const identity = await this.externalIdentityService.findByProviderSubject(
+      providerName,
+      claims.sub,
+    );
+    if (identity) {
+      const user = await this.usersService.findById(
+        safeObjectIdToString(identity.userId),
+      );
+      if (!user) {
+        throw this.oidcLoginFailed('USER_NOT_FOUND');
+      }
+      await this.externalIdentityService.recordLogin(identity);
+      return this.login(user);
+    }
+
+    // Only a verified email may be used to find or create the account
+    if (!claims.email || claims.email_verified !== true) {
+      throw this.oidcLoginFailed('EMAIL_NOT_VERIFIED');
+    }
+
+    const existingUser = await this.usersService.findOneByEmail(claims.email);
+    // An unverified account may have been registered by someone else, who
+    // would keep its password once the owner of the address logs in
+    if (existingUser && existingUser.emailVerified !== true) {
+      throw this.oidcLoginFailed('ACCOUNT_EMAIL_NOT_VERIFIED');
+    }
+    // The random password is unusable until the user sets one with a reset link
+    const password = randomBytes(32).toString('base64url');
+    const user =
+      existingUser ??
+      (await this.usersService.create({
+        email: claims.email,
+        name: claims.name || claims.email.split('@')[0],
+        password,
+        password_confirmation: password,
+      }));
+    await this.externalIdentityService.link(
+      safeObjectIdToString(user._id),
+      user.email,
+      { provider: providerName, subject: claims.sub, email: claims.email },
+      !existingUser,
+    );
+
+    return this.login(user);
+  }
+
+  /**
+   * Issue a short-lived access token letting an administrator act as another user
+   * The token carries the administrator in its `act` claim and has no session,
+   * so it cannot be refreshed. Administrators may only impersonate users whose
+   * roles they all hold themselves.
+   * @param actor Administrator starting the impersonation
+   * @param targetId ID of the user to impersonate
+   * @param reason Why the administrator needs to act as the user
+   * @returns Impersonation response with the access token and the impersonated user
+   */
+  async impersonate(
+    actor: ImpersonationActor & { roles?: string[] },
+    targetId: string,
+    reason: string,
+  ) {
+    const lang = I18nContext.current()?.lang;
+    if (targetId === actor.userId) {
+      throw new BadRequestException(
+        this.i18n.t('translation.AUTH.IMPERSONATION_SELF', { lang }),
+      );
+    }
+
+    const target = Types.ObjectId.isValid(targetId)
+      ? await this.usersService.findById(targetId)
+      : null;
+    if (!target || target.status === UserStatus.ERASED) {
+      throw new NotFoundException(
+        this.i18n.t('translation.USER.NOT_FOUND', {
+          lang,
+          args: { id: targetId },
+        }),
+      );
+    }
+
+    const actorRoles = actor.roles ?? [];
+    if ((target.roles ?? []).some((role) => !actorRoles.includes(role))) {
+      throw new ForbiddenException(
+        this.i18n.t('translation.AUTH.IMPERSONATION_ROLE_NOT_HELD', { lang }),
+      );
+    }
+
+    const accessToken = this.tokenService.generateImpersonationToken(target, {
+      userId: actor.userId,
+      email: actor.email,
+    });
+    const expiresIn = this.tokenService.getImpersonationTokenExpiresIn();
+
+    await this.activityLogService.logEvent({
+      userId: actor.userId,
+      actionType: 'IMPERSONATION_STARTED',
+      username: actor.email,
+      resource: { type: 'User', id: targetId, displayName: target.email },
+      metadata: { reason, expiresIn },
+    });
+
+    return {
+      message: this.i18n.t('translation.AUTH.IMPERSONATION_STARTED', {
+        lang,
+        args: { email: target.email },
+      }),
+      access_token: accessToken,
+      token_type: 'Bearer',
+      expires_in: expiresIn,
+      user: {
+        id: targetId,
+        email: target.email,
+        name: target.name,
+      },
+    };
+  }
+
+  /**
+   * End an impersonation by revoking its access token
+   * The impersonated user's own sessions are left untouched
+   * @param userId ID of the impersonated user
+   * @param accessToken `jti` and `exp` claims of the impersonation token
+   * @returns Response confirming the end of the impersonation
+   */
+  async endImpersonation(
+    userId: string,
+    accessToken: { jti?: string; exp?: number },
+  ) {
+    if (accessToken.jti && accessToken.exp) {
+      await this.tokenRevocationService.revoke(
+        accessToken.jti,
+        accessToken.exp,
+      );
+    }
+
+    const user = await this.usersService.findById(userId);
+    await this.activityLogService.logEvent({
+      userId,
+      actionType: 'IMPERSONATION_ENDED',
+      username: user?.email ?? userId,
+      resource: { type: 'User', id: userId, displayName: user?.email },
+    });
+
+    return {
+      message: this.i18n.t('translation.AUTH.IMPERSONATION_ENDED', {
+        lang: I18nContext.current()?.lang,
+      }),
+    };
+  }
+
+  /**
+   * Revoke a session whose refresh token was used twice and record a security event
+   * @param user Owner of the session
+   * @param familyId Token family ID
+   * @throws ForbiddenException always
+   */
+  private async handleRefreshTokenReuse(
+    user: UserDocument,
+    familyId: string,
+  ): Promise<never> {
+    const userId = safeObjectIdToString(user._id);
+    this.logger.warn(
+      `Refresh token reuse detected for user ${userId}, revoking session ${familyId}`,
+    );
+
+    await this.sessionService.revokeFamily(
+      familyId,
+      SessionRevocationReason.TOKEN_REUSE,
+    );
+    await this.activityLogService.logEvent({
+      userId,
+      actionType: 'REFRESH_TOKEN_REUSE',
+      username: user.email,
+      resource: { type: 'Session', id: familyId },
+      operationStatus: 'FAILURE',
+      failureDetails: {
+        errorCode: 'REFRESH_TOKEN_REUSE',
+        message: 'A rotated refresh token was presented again',
+      },
+    });
+
+    throw new ForbiddenException(
+      this.i18n.t('translation.AUTH.REFRESH_TOKEN_REUSED', {
+        lang: I18nContext.current()?.lang,
+      }),
+    );
+  }
+
+  /**
+   * Issue an email verification token and send it to the user
+   * @param user User to send the email to
+   */
+  private async sendVerificationEmail(user: {
+    _id: unknown;
+    email: string;
+    name: string;
+  }): Promise<void> {
+    const ttlSeconds = parseInt(
+      this.configService.get<string>('EMAIL_VERIFICATION_TOKEN_TTL', '86400'),
+      10,
+    );
+    const token = await this.verificationTokenService.issue(
+      safeObjectIdToString(user._id),
+      VerificationTokenPurpose.EMAIL_VERIFICATION,
+      ttlSeconds,
+    );
+    const baseUrl = this.configService.get<string>(
+      'EMAIL_VERIFICATION_URL',
+      'http://localhost:3000/verify-email',
+    );
+
+    await this.mailerService.sendTemplate(
+      user.email,
+      MailTemplate.EMAIL_VERIFICATION,
+      {
+        name: user.name,
+        url: `${baseUrl}?token=${encodeURIComponent(token)}`,
+        hours: Math.round(ttlSeconds / 3600),
+      },
+      { expiresAt: new Date(Date.now() + ttlSeconds * 1000) },
+    );
+  }
+
+  /**
+   * Issue a password reset token and send it to the user
+   * Links sent earlier stop working
+   * @param user User to send the email to
+   */
+  private async sendPasswordResetEmail(user: {
+    _id: unknown;
+    email: string;
+    name: string;
+  }): Promise<void> {
+    const userId = safeObjectIdToString(user._id);
+    const ttlSeconds = parseInt(
+      this.configService.get<string>('PASSWORD_RESET_TOKEN_TTL', '3600'),
+      10,
+    );
+
+    await this.verificationTokenService.invalidateAll(
+      userId,
+      VerificationTokenPurpose.PASSWORD_RESET,
+    );
+    const token = await this.verificationTokenService.issue(
+      userId,
+      VerificationTokenPurpose.PASSWORD_RESET,
+      ttlSeconds,
+    );
+    const baseUrl = this.configService.get<string>(
+      'PASSWORD_RESET_URL',
+      'http://localhost:3000/reset-password',
+    );
+
+    await this.mailerService.sendTemplate(
+      user.email,
+      MailTemplate.PASSWORD_RESET,
+      {
+        name: user.name,
+        url: `${baseUrl}?token=${encodeURIComponent(token)}`,
+        minutes: Math.round(ttlSeconds / 60),
+      },
+      { expiresAt: new Date(Date.now() + ttlSeconds * 1000) },
+    );
+  }
+
+  /**
+   * Issue a login link and email it to the user
+   * Links sent earlier stop working
+   * @param user User to send the link to
+   */
+  private async sendMagicLinkEmail(user: {
+    _id: unknown;
+    email: string;
+    name: string;
+  }): Promise<void> {
+    const userId = safeObjectIdToString(user._id);
+    const ttlSeconds = parseInt(
+      this.configService.get<string>('MAGIC_LINK_TOKEN_TTL', '900'),
+      10,
+    );
+
+    await this.verificationTokenService.invalidateAll(
+      userId,
+      VerificationTokenPurpose.MAGIC_LINK,
+    );
+    const token = await this.verificationTokenService.issue(
+      userId,
+      VerificationTokenPurpose.MAGIC_LINK,
+      ttlSeconds,
+    );
+    const baseUrl = this.configService.get<string>(
+      'MAGIC_LINK_URL',
+      'http://localhost:3000/magic-link',
+    );
+
+    await this.mailerService.sendTemplate(
+      user.email,
+      MailTemplate.MAGIC_LINK,
+      {
+        name: user.name,
+        url: `${baseUrl}?token=${encodeURIComponent(token)}`,
+        minutes: Math.round(ttlSeconds / 60),
+      },
+      { expiresAt: new Date(Date.now() + ttlSeconds * 1000) },
+    );
+  }
+
+  /**
+   * Issue an email change token, send it to the new address and tell the
+   * current address about the change
+   * Links sent earlier stop working
+   * @param user User changing their address
+   * @param newEmail New email address
+   */
+  private async sendEmailChangeEmails(
+    user: { _id: unknown; email: string; name: string },
+    newEmail: string,
+  ): Promise<void> {
+    const userId = safeObjectIdToString(user._id);
+    const ttlSeconds = parseInt(
+      this.configService.get<string>('EMAIL_CHANGE_TOKEN_TTL', '3600'),
+      10,
+    );
+
+    await this.verificationTokenService.invalidateAll(
+      userId,
+      VerificationTokenPurpose.EMAIL_CHANGE,
+    );
+    const token = await this.verificationTokenService.issue(
+      userId,
+      VerificationTokenPurpose.EMAIL_CHANGE,
+      ttlSeconds,
+    );
+    const baseUrl = this.configService.get<string>(
+      'EMAIL_CHANGE_URL',
+      'http://localhost:3000/confirm-email',
+    );
+
+    await this.mailerService.sendTemplate(
+      newEmail,
+      MailTemplate.EMAIL_CHANGE_CONFIRMATION,
+      {
+        name: user.name,
+        url: `${baseUrl}?token=${encodeURIComponent(token)}`,
+        minutes: Math.round(ttlSeconds / 60),
+      },
+      { expiresAt: new Date(Date.now() + ttlSeconds * 1000) },
+    );
+    await this.mailerService.sendTemplate(
+      user.email,
+      MailTemplate.EMAIL_CHANGE_NOTICE,
+      { name: user.name, email: newEmail },
+    );
+  }
+
+  /**
+   * Make sure magic-link login is enabled for this deployment
+   * @throws NotFoundException if it is disabled
+   */
+  private assertMagicLinkEnabled(): void {
+    if (
+      this.configService.get<string>('MAGIC_LINK_ENABLED', 'false') !== 'true'
+    ) {
+      throw new NotFoundException(
+        this.i18n.t('translation.AUTH.MAGIC_LINK_DISABLED', {
+          lang: I18nContext.current()?.lang,
+        }),
+      );
+    }
+  }
+
+  /**
+   * Check whether logging in requires a verified email address
+   * @returns True if unverified accounts are refused
+   */
+  private isEmailVerificationRequired(): boolean {
+    return (
+      this.configService.get<string>('EMAIL_VERIFICATION_REQUIRED', 'false') ===
+      'true'
+    );
+  }
+
+  /**
+   * Record a logout in the activity log
+   * @param userId User ID
+   * @param sessionId Token family ID of the session, or undefined when every session ended
+   */
+  private async logLogout(userId: string, sessionId?: string): Promise<void> {
+    const user = await this.usersService.findById(userId);
+    await this.activityLogService.logEvent({
+      userId,
+      actionType: 'LOGOUT',
+      username: user?.email ?? userId,
+      resource: sessionId
+        ? { type: 'Session', id: sessionId }
+        : { type: 'User', id: userId, displayName: user?.email },
+      metadata: { allSessions: !sessionId },
+    });
+  }
+
+  /**
+   * Hash the password of a user again after a successful login, if the stored
+   * hash uses another algorithm or weaker parameters than configured
+   * A failure is logged and does not fail the login
+   * @param user User who logged in
+   * @param password Plain text password the user logged in with
+   */
+  private async upgradePasswordHash(
+    user: UserDocument,
+    password: string,
+  ): Promise<void> {
+    try {
+      await this.userAuthService.upgradePasswordHash(
+        safeObjectIdToString(user._id),
+        password,
+        user.password_hash,
+      );
+    } catch (error: unknown) {
+      const err = error as Error;
+      this.logger.error(
+        `Failed to upgrade password hash: ${err.message}`,
+        err.stack,
+      );
+    }
+  }
+
+  /**
+   * Record a failed login and build the exception returned to the client
+   * @param email Email the login was attempted for
+   * @param ipAddress Client IP address
+   * @param user User owning the email, if any
+   * @returns UnauthorizedException
+   */
+  private async loginFailed(
+    email: string,
+    ipAddress?: string,
+    user?: UserDocument | null,
+  ): Promise<UnauthorizedException> {
+    await this.loginThrottleService.recordFailure(email, ipAddress);
+
+    const userId = user ? safeObjectIdToString(user._id) : undefined;
+    await this.activityLogService.logEvent({
+      userId,
+      actionType: 'LOGIN_FAILURE',
+      username: email,
+      resource: { type: 'User', id: userId, displayName: email },
+      operationStatus: 'FAILURE',
+      failureDetails: {
+        errorCode: user ? 'INVALID_PASSWORD' : 'UNKNOWN_ACCOUNT',
+      },
+    });
+
+    return new UnauthorizedException(
+      this.i18n.t('translation.AUTH.INVALID_CREDENTIALS', {
+        lang: I18nContext.current()?.lang,
+      }),
+    );
+  }
+
+  /**
+   * Build an access denied exception
+   * @returns ForbiddenException
+   */
+  private accessDenied(): ForbiddenException {
+    return new ForbiddenException(
+      this.i18n.t('translation.AUTH.ACCESS_DENIED', {
+        lang: I18nContext.current()?.lang,
+      }),
+    );
+  }
+
+  /**
+   * Build the exception for an OpenID Connect login that cannot be completed
+   * @param key Translation key of the message, under `OIDC`
+   * @returns UnauthorizedException
+   */
+  private oidcLoginFailed(key: string): UnauthorizedException {
+    return new UnauthorizedException(
+      this.i18n.t(`translation.OIDC.${key}`, {
+        lang: I18nContext.current()?.lang,
+      }),
+    );
+  }
+
+  /**
+   * Build an error of the OAuth2 token endpoint
+   * @param error OAuth2 error code
+   * @param key Translation key of the description, under `OAUTH`
+   * @returns OAuthException
+   */
+  private oauthError(error: OAuthErrorCode, key: string): OAuthException {
+    return new OAuthException(
+      error,
+      this.i18n.t(`translation.OAUTH.${key}`, {
+        lang: I18nContext.current()?.lang,
+      }),
+    );
+  }
 }
@@ -0,0 +1,9 @@
+/**
+ * Marks a string as an API key of this application, e.g. for secret scanners
+ */
+export const API_KEY_PREFIX = 'isk_';
+
+/**
+ * Name of the API key security scheme in the OpenAPI document
+ */
+export const API_KEY_SECURITY = 'api-key';
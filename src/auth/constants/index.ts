@@ -0,0 +1,3 @@
+export * from './api-key.constant';
+export * from './recent-auth.constant';
+export * from './oidc.constant';
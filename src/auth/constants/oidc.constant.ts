@@ -0,0 +1,10 @@
+/**
+ * How long a user has to come back from an OpenID Connect provider (seconds)
+ */
+export const OIDC_LOGIN_STATE_TTL = 600;
+
+/**
+ * Cookie binding an OpenID Connect login to the browser that started it,
+ * holding a hash of the login state
+ */
+export const OIDC_STATE_COOKIE = 'oidc_state';
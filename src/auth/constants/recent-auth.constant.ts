@@ -0,0 +1,5 @@
+/**
+ * How long after entering their credentials users may perform sensitive
+ * actions such as deleting users, creating API keys or changing MFA (seconds)
+ */
+export const RECENT_AUTH_MAX_AGE = 300;
@@ -0,0 +1,54 @@
+// src/auth/dto/api-key-response.dto.ts
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+
+export class ApiKeyResponseDto {
+  @ApiProperty({
+    description: 'The unique identifier of the API key',
+    example: '60d21b4667d0d8992e610c85',
+  })
+  id: string;
+
+  @ApiProperty({
+    description: 'Name telling the user what the key is for',
+    example: 'CI deploy script',
+  })
+  name: string;
+
+  @ApiProperty({
+    description: 'Start of the key, to tell keys apart',
+    example: 'isk_4f9a2b7c',
+  })
+  prefix: string;
+
+  @ApiProperty({
+    description: 'Permissions the key may use',
+    example: ['users:read'],
+  })
+  scopes: string[];
+
+  @ApiPropertyOptional({
+    description: 'When the key stops working, or null if it does not expire',
+    example: '2026-12-31T23:59:59.000Z',
+    nullable: true,
+  })
+  expiresAt: Date | null;
+
+  @ApiPropertyOptional({
+    description: 'When the key was last used',
+    example: '2025-01-01T12:00:00.000Z',
+    nullable: true,
+  })
+  lastUsedAt: Date | null;
+
+  @ApiPropertyOptional({
+    description: 'IP address the key was last used from',
+    example: '203.0.113.10',
+  })
+  lastUsedIp?: string;
+
+  @ApiProperty({
+    description: 'When the key was created',
+    example: '2025-01-01T08:00:00.000Z',
+  })
+  createdAt: Date;
+}
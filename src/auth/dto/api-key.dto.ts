@@ -0,0 +1,57 @@
+import {
+  ArrayUnique,
+  IsArray,
+  IsDateString,
+  IsIn,
+  IsNotEmpty,
+  IsOptional,
+  IsString,
+  MaxLength,
+} from 'class-validator';
+import { i18nValidationMessage } from 'nestjs-i18n';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { Permission } from '../../permissions/constants';
+
+export class CreateApiKeyDto {
+  @ApiProperty({
+    description: 'Name telling the user what the key is for',
+    example: 'CI deploy script',
+    maxLength: 100,
+  })
+  @IsNotEmpty({
+    message: i18nValidationMessage('translation.VALIDATION.NAME_NOT_EMPTY'),
+  })
+  @IsString()
+  @MaxLength(100)
+  readonly name: string;
+
+  @ApiProperty({
+    description:
+      'Permissions the key may use; the user must hold them as well when the key is used',
+    example: ['users:read', 'activity-logs:read'],
+    enum: Permission,
+    isArray: true,
+  })
+  @IsArray()
+  @ArrayUnique()
+  @IsIn(Object.values(Permission), {
+    each: true,
+    message: i18nValidationMessage('translation.VALIDATION.SCOPE_INVALID'),
+  })
+  readonly scopes: string[];
+
+  @ApiPropertyOptional({
+    description:
+      'When the key stops working; keys without expiry work until revoked',
+    example: '2026-12-31T23:59:59.000Z',
+    format: 'date-time',
+  })
+  @IsOptional()
+  @IsDateString(
+    {},
+    {
+      message: i18nValidationMessage('translation.VALIDATION.DATE_INVALID'),
+    },
+  )
+  readonly expires_at?: string;
+}
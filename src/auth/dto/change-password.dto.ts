@@ -0,0 +1,48 @@
+import { IsNotEmpty, IsString } from 'class-validator';
+import { i18nValidationMessage } from 'nestjs-i18n';
+import { ApiProperty } from '@nestjs/swagger';
+import { MeetsPasswordPolicy } from '../../users/validators';
+import { Match } from '../../common/validators';
+
+export class ChangePasswordDto {
+  @ApiProperty({
+    description: 'The current password of the user',
+    example: 'password123',
+  })
+  @IsNotEmpty({
+    message: i18nValidationMessage(
+      'translation.VALIDATION.CURRENT_PASSWORD_NOT_EMPTY',
+    ),
+  })
+  @IsString()
+  readonly current_password: string;
+
+  @ApiProperty({
+    description: 'The new password of the user',
+    example: 'newpassword123',
+    minLength: 8,
+    maxLength: 128,
+  })
+  @IsNotEmpty({
+    message: i18nValidationMessage('translation.VALIDATION.PASSWORD_NOT_EMPTY'),
+  })
+  @IsString()
+  @MeetsPasswordPolicy()
+  readonly password: string;
+
+  @ApiProperty({
+    description: 'Password confirmation that must match the new password',
+    example: 'newpassword123',
+  })
+  @IsNotEmpty({
+    message: i18nValidationMessage(
+      'translation.VALIDATION.PASSWORD_CONFIRMATION_NOT_EMPTY',
+    ),
+  })
+  @Match('password', {
+    message: i18nValidationMessage(
+      'translation.VALIDATION.PASSWORD_CONFIRMATION_MATCH',
+    ),
+  })
+  readonly password_confirmation: string;
+}
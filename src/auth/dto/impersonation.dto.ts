@@ -0,0 +1,17 @@
+import { IsNotEmpty, IsString, MaxLength } from 'class-validator';
+import { i18nValidationMessage } from 'nestjs-i18n';
+import { ApiProperty } from '@nestjs/swagger';
+
+export class ImpersonateUserDto {
+  @ApiProperty({
+    description: 'Why the user is being impersonated, kept in the activity log',
+    example: 'Reproducing support ticket #4521',
+    maxLength: 500,
+  })
+  @IsNotEmpty({
+    message: i18nValidationMessage('translation.VALIDATION.REASON_NOT_EMPTY'),
+  })
+  @IsString()
+  @MaxLength(500)
+  readonly reason: string;
+}
@@ -1,2 +1,14 @@
 export * from './login.dto';
 export * from './auth-response.dto';
+export * from './session-response.dto';
+export * from './verify-email.dto';
+export * from './reset-password.dto';
+export * from './magic-link.dto';
+export * from './change-password.dto';
+export * from './mfa.dto';
+export * from './reauthenticate.dto';
+export * from './api-key.dto';
+export * from './api-key-response.dto';
+export * from './oauth-client.dto';
+export * from './oauth-client-response.dto';
+export * from './impersonation.dto';
@@ -0,0 +1,38 @@
+import { IsNotEmpty, IsString } from 'class-validator';
+import { i18nValidationMessage } from 'nestjs-i18n';
+import { ApiProperty } from '@nestjs/swagger';
+
+export class ConfirmMfaDto {
+  @ApiProperty({
+    description: 'Code currently shown by the authenticator app',
+    example: '492039',
+  })
+  @IsNotEmpty({
+    message: i18nValidationMessage('translation.VALIDATION.MFA_CODE_NOT_EMPTY'),
+  })
+  @IsString()
+  readonly code: string;
+}
+
+export class VerifyMfaDto {
+  @ApiProperty({
+    description: 'MFA token returned by the login',
+    example: 'eyJhbGciOiJIUzI1NiIsInR5cCI6IkpXVCJ9...',
+    format: 'jwt',
+  })
+  @IsNotEmpty({
+    message: i18nValidationMessage('translation.VALIDATION.TOKEN_NOT_EMPTY'),
+  })
+  @IsString()
+  readonly mfa_token: string;
+
+  @ApiProperty({
+    description: 'Code shown by the authenticator app, or a recovery code',
+    example: '492039',
+  })
+  @IsNotEmpty({
+    message: i18nValidationMessage('translation.VALIDATION.MFA_CODE_NOT_EMPTY'),
+  })
+  @IsString()
+  readonly code: string;
+}
@@ -0,0 +1,64 @@
+// src/auth/dto/oauth-client-response.dto.ts
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+
+export class OAuthClientResponseDto {
+  @ApiProperty({
+    description: 'The unique identifier of the OAuth client record',
+    example: '60d21b4667d0d8992e610c85',
+  })
+  id: string;
+
+  @ApiProperty({
+    description: 'Client ID used to request tokens',
+    example: '3f2b9c1d8e7a6b5c4d3e2f1a0b9c8d7e',
+  })
+  clientId: string;
+
+  @ApiProperty({
+    description: 'Name of the service using the client',
+    example: 'Billing service',
+  })
+  name: string;
+
+  @ApiProperty({
+    description: 'Permissions the client may request as scopes',
+    example: ['users:read'],
+  })
+  scopes: string[];
+
+  @ApiPropertyOptional({
+    description: 'When the client last obtained a token',
+    example: '2025-01-01T12:00:00.000Z',
+    nullable: true,
+  })
+  lastUsedAt: Date | null;
+
+  @ApiProperty({
+    description: 'When the client was registered',
+    example: '2025-01-01T08:00:00.000Z',
+  })
+  createdAt: Date;
+}
+
+export class ClientCredentialsTokenResponseDto {
+  @ApiProperty({
+    description: 'Access token to send as `Authorization: Bearer <token>`',
+    example: 'eyJhbGciOiJIUzI1NiIsInR5cCI6IkpXVCJ9...',
+  })
+  access_token: string;
+
+  @ApiProperty({ description: 'Token type', example: 'Bearer' })
+  token_type: 'Bearer';
+
+  @ApiProperty({
+    description: 'Lifetime of the access token in seconds',
+    example: 3600,
+  })
+  expires_in: number;
+
+  @ApiProperty({
+    description: 'Space-delimited scopes granted to the token',
+    example: 'users:read',
+  })
+  scope: string;
+}
@@ -0,0 +1,70 @@
+import {
+  ArrayUnique,
+  IsArray,
+  IsIn,
+  IsNotEmpty,
+  IsString,
+  MaxLength,
+} from 'class-validator';
+import { i18nValidationMessage } from 'nestjs-i18n';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { Permission } from '../../permissions/constants';
+
+export class CreateOAuthClientDto {
+  @ApiProperty({
+    description: 'Name of the service using the client',
+    example: 'Billing service',
+    maxLength: 100,
+  })
+  @IsNotEmpty({
+    message: i18nValidationMessage('translation.VALIDATION.NAME_NOT_EMPTY'),
+  })
+  @IsString()
+  @MaxLength(100)
+  readonly name: string;
+
+  @ApiProperty({
+    description: 'Permissions the client may request as scopes',
+    example: ['users:read'],
+    enum: Permission,
+    isArray: true,
+  })
+  @IsArray()
+  @ArrayUnique()
+  @IsIn(Object.values(Permission), {
+    each: true,
+    message: i18nValidationMessage('translation.VALIDATION.SCOPE_INVALID'),
+  })
+  readonly scopes: string[];
+}
+
+/**
+ * Token request of the client credentials grant (RFC 6749, section 4.4.2)
+ * The body is checked by the token endpoint itself so that errors follow
+ * the OAuth2 error format; this class only documents it
+ */
+export class ClientCredentialsTokenDto {
+  @ApiProperty({
+    description: 'Grant type; only `client_credentials` is supported',
+    example: 'client_credentials',
+  })
+  readonly grant_type: string;
+
+  @ApiPropertyOptional({
+    description:
+      'Space-delimited scopes to request; defaults to all scopes of the client',
+    example: 'users:read',
+  })
+  readonly scope?: string;
+
+  @ApiPropertyOptional({
+    description: 'Client ID, when not sent with HTTP Basic authentication',
+    example: '3f2b9c1d8e7a6b5c4d3e2f1a0b9c8d7e',
+  })
+  readonly client_id?: string;
+
+  @ApiPropertyOptional({
+    description: 'Client secret, when not sent with HTTP Basic authentication',
+  })
+  readonly client_secret?: string;
+}
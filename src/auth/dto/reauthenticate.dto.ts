@@ -0,0 +1,28 @@
+import { IsNotEmpty, IsString, ValidateIf } from 'class-validator';
+import { i18nValidationMessage } from 'nestjs-i18n';
+import { ApiPropertyOptional } from '@nestjs/swagger';
+
+export class ReauthenticateDto {
+  @ApiPropertyOptional({
+    description: 'Password of the user; required unless a code is given',
+    example: 'Password123!',
+  })
+  @ValidateIf((dto: ReauthenticateDto) => dto.code === undefined)
+  @IsNotEmpty({
+    message: i18nValidationMessage('translation.VALIDATION.PASSWORD_NOT_EMPTY'),
+  })
+  @IsString()
+  readonly password?: string;
+
+  @ApiPropertyOptional({
+    description:
+      'Code shown by the authenticator app, or a recovery code, instead of the password',
+    example: '492039',
+  })
+  @ValidateIf((dto: ReauthenticateDto) => dto.password === undefined)
+  @IsNotEmpty({
+    message: i18nValidationMessage('translation.VALIDATION.MFA_CODE_NOT_EMPTY'),
+  })
+  @IsString()
+  readonly code?: string;
+}
@@ -0,0 +1,65 @@
+import { IsEmail, IsNotEmpty, IsString } from 'class-validator';
+import { i18nValidationMessage } from 'nestjs-i18n';
+import { ApiProperty } from '@nestjs/swagger';
+import { MeetsPasswordPolicy } from '../../users/validators';
+import { Match } from '../../common/validators';
+
+export class ForgotPasswordDto {
+  @ApiProperty({
+    description: 'The email of the user',
+    example: 'john.doe@example.com',
+  })
+  @IsNotEmpty({
+    message: i18nValidationMessage('translation.VALIDATION.EMAIL_NOT_EMPTY'),
+  })
+  @IsEmail(
+    {},
+    {
+      message: i18nValidationMessage(
+        'translation.VALIDATION.EMAIL_INVALID_FORMAT',
+      ),
+    },
+  )
+  readonly email: string;
+}
+
+export class ResetPasswordDto {
+  @ApiProperty({
+    description: 'Token from the password reset email',
+    example: 'Q2hlY2sgeW91ciBpbmJveCBmb3IgdGhlIHJlYWwgdG9rZW4',
+  })
+  @IsNotEmpty({
+    message: i18nValidationMessage('translation.VALIDATION.TOKEN_NOT_EMPTY'),
+  })
+  @IsString()
+  readonly token: string;
+
+  @ApiProperty({
+    description: 'The new password of the user',
+    example: 'newpassword123',
+    minLength: 8,
+    maxLength: 128,
+  })
+  @IsNotEmpty({
+    message: i18nValidationMessage('translation.VALIDATION.PASSWORD_NOT_EMPTY'),
+  })
+  @IsString()
+  @MeetsPasswordPolicy()
+  readonly password: string;
+
+  @ApiProperty({
+    description: 'Password confirmation that must match the password',
+    example: 'newpassword123',
+  })
+  @IsNotEmpty({
+    message: i18nValidationMessage(
+      'translation.VALIDATION.PASSWORD_CONFIRMATION_NOT_EMPTY',
+    ),
+  })
+  @Match('password', {
+    message: i18nValidationMessage(
+      'translation.VALIDATION.PASSWORD_CONFIRMATION_MATCH',
+    ),
+  })
+  readonly password_confirmation: string;
+}
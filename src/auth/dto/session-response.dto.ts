@@ -0,0 +1,52 @@
+// src/auth/dto/session-response.dto.ts
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+
+export class SessionResponseDto {
+  @ApiProperty({
+    description: 'The unique identifier of the session',
+    example: '60d21b4667d0d8992e610c85',
+  })
+  id: string;
+
+  @ApiPropertyOptional({
+    description: 'Device the session was started from',
+    example: 'Chrome on Windows',
+  })
+  device?: string;
+
+  @ApiPropertyOptional({
+    description: 'User agent of the last request',
+    example: 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) ...',
+  })
+  userAgent?: string;
+
+  @ApiPropertyOptional({
+    description: 'IP address of the last request',
+    example: '203.0.113.10',
+  })
+  ipAddress?: string;
+
+  @ApiProperty({
+    description: 'When the session last refreshed its tokens',
+    example: '2025-01-01T12:00:00.000Z',
+  })
+  lastUsedAt: Date;
+
+  @ApiProperty({
+    description: 'When the session was started',
+    example: '2025-01-01T08:00:00.000Z',
+  })
+  createdAt: Date;
+
+  @ApiProperty({
+    description: 'When the session expires unless it is used',
+    example: '2025-01-08T12:00:00.000Z',
+  })
+  expiresAt: Date;
+
+  @ApiProperty({
+    description: 'Whether this is the session making the request',
+    example: true,
+  })
+  current: boolean;
+}
@@ -0,0 +1,34 @@
+import { IsEmail, IsNotEmpty, IsString } from 'class-validator';
+import { i18nValidationMessage } from 'nestjs-i18n';
+import { ApiProperty } from '@nestjs/swagger';
+
+export class VerifyEmailDto {
+  @ApiProperty({
+    description: 'Token from the verification email',
+    example: 'Q2hlY2sgeW91ciBpbmJveCBmb3IgdGhlIHJlYWwgdG9rZW4',
+  })
+  @IsNotEmpty({
+    message: i18nValidationMessage('translation.VALIDATION.TOKEN_NOT_EMPTY'),
+  })
+  @IsString()
+  readonly token: string;
+}
+
+export class ResendVerificationDto {
+  @ApiProperty({
+    description: 'The email of the user',
+    example: 'john.doe@example.com',
+  })
+  @IsNotEmpty({
+    message: i18nValidationMessage('translation.VALIDATION.EMAIL_NOT_EMPTY'),
+  })
+  @IsEmail(
+    {},
+    {
+      message: i18nValidationMessage(
+        'translation.VALIDATION.EMAIL_INVALID_FORMAT',
+      ),
+    },
+  )
+  readonly email: string;
+}
@@ -0,0 +1,2 @@
+export * from './session-revocation-reason.enum';
+export * from './verification-token-purpose.enum';
@@ -0,0 +1,13 @@
+/**
+ * Why a session stopped accepting refresh tokens
+ */
+export enum SessionRevocationReason {
+  LOGOUT = 'logout',
+  TOKEN_REUSE = 'token_reuse',
+  REVOKED_BY_USER = 'revoked_by_user',
+  REVOKED_BY_ADMIN = 'revoked_by_admin',
+  PASSWORD_RESET = 'password_reset',
+  PASSWORD_CHANGE = 'password_change',
+  ACCOUNT_SUSPENDED = 'account_suspended',
+  ACCOUNT_DELETED = 'account_deleted',
+}
@@ -0,0 +1,9 @@
+/**
+ * What a one-time verification token may be used for
+ */
+export enum VerificationTokenPurpose {
+  EMAIL_VERIFICATION = 'email_verification',
+  PASSWORD_RESET = 'password_reset',
+  MAGIC_LINK = 'magic_link',
+  EMAIL_CHANGE = 'email_change',
+}
@@ -0,0 +1,30 @@
+import { HttpException, HttpStatus } from '@nestjs/common';
+
+/**
+ * Error codes of the OAuth2 token endpoint (RFC 6749, section 5.2)
+ */
+export type OAuthErrorCode =
+  | 'invalid_request'
+  | 'invalid_client'
+  | 'invalid_grant'
+  | 'unauthorized_client'
+  | 'unsupported_grant_type'
+  | 'invalid_scope';
+
+/**
+ * Error answered by the OAuth2 token endpoint
+ * Rendered by OAuthExceptionFilter as `{ error, error_description }`
+ */
+export class OAuthException extends HttpException {
+  constructor(
+    readonly error: OAuthErrorCode,
+    readonly errorDescription: string,
+  ) {
+    super(
+      { error, error_description: errorDescription },
+      error === 'invalid_client'
+        ? HttpStatus.UNAUTHORIZED
+        : HttpStatus.BAD_REQUEST,
+    );
+  }
+}
@@ -0,0 +1 @@
+export * from './oauth-exception.filter';
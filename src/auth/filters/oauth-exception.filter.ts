@@ -0,0 +1,33 @@
+import {
+  ArgumentsHost,
+  Catch,
+  ExceptionFilter,
+  HttpStatus,
+} from '@nestjs/common';
+import { Response } from 'express';
+import { OAuthException } from '../exceptions';
+
+/**
+ * Renders OAuthException in the error format of RFC 6749, section 5.2,
+ * instead of the application's usual error body
+ */
+@Catch(OAuthException)
+export class OAuthExceptionFilter implements ExceptionFilter {
+  /**
+   * Write the OAuth2 error response
+   * @param exception The OAuth exception
+   * @param host The arguments host
+   */
+  catch(exception: OAuthException, host: ArgumentsHost): void {
+    const response = host.switchToHttp().getResponse<Response>();
+    const status = exception.getStatus();
+
+    response.setHeader('Cache-Control', 'no-store');
+    response.setHeader('Pragma', 'no-cache');
+    if (status === (HttpStatus.UNAUTHORIZED as number)) {
+      response.setHeader('WWW-Authenticate', 'Basic realm="oauth"');
+    }
+
+    response.status(status).json(exception.getResponse());
+  }
+}
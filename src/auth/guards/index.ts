@@ -1,3 +1,4 @@
 export * from './jwt-auth.guard';
 export * from './jwt-refresh.guard';
 export * from './local-auth.guard';
+export * from './jwt-or-api-key-auth.guard';
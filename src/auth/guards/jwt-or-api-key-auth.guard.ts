@@ -0,0 +1,10 @@
+// src/auth/jwt-or-api-key-auth.guard.ts
+import { Injectable } from '@nestjs/common';
+import { AuthGuard } from '@nestjs/passport';
+
+@Injectable()
+export class JwtOrApiKeyAuthGuard extends AuthGuard([
+  'jwt',
+  'oauth-client',
+  'api-key',
+]) {} // Accepts a user's or an OAuth client's access token, or an API key; use with PermissionsGuard so scopes apply
@@ -0,0 +1,107 @@
+// src/auth/impersonation.controller.ts
+import {
+  Body,
+  Controller,
+  HttpCode,
+  HttpStatus,
+  Param,
+  Post,
+  Request,
+  UseGuards,
+  ValidationPipe,
+} from '@nestjs/common';
+import {
+  ApiBadRequestResponse,
+  ApiBearerAuth,
+  ApiBody,
+  ApiForbiddenResponse,
+  ApiNotFoundResponse,
+  ApiOkResponse,
+  ApiOperation,
+  ApiParam,
+  ApiTags,
+  ApiUnauthorizedResponse,
+} from '@nestjs/swagger';
+import { AuthService } from './auth.service';
+import { AuthenticatedRequest } from './auth.controller';
+import { ImpersonateUserDto } from './dto';
+import { JwtAuthGuard } from './guards';
+import {
+  NoImpersonationGuard,
+  PermissionsGuard,
+  RequirePermissions,
+} from '../common';
+import { Permission } from '../permissions/constants';
+
+/**
+ * Lets administrators act as another user, e.g. to reproduce a support issue
+ * Only available to users logged in with their own access token, not to API
+ * keys or OAuth clients
+ */
+@ApiTags('Authentication')
+@Controller('admin/users')
+export class ImpersonationController {
+  constructor(private readonly authService: AuthService) {}
+
+  @ApiOperation({
+    summary: 'Impersonate a user',
+    description:
+      'Issues a short-lived access token for the user that also names the administrator. It cannot be refreshed, and password, MFA, session and credential changes are refused while it is used. Logging out with it ends the impersonation.',
+  })
+  @ApiParam({ name: 'id', description: 'ID of the user to impersonate' })
+  @ApiBody({ type: ImpersonateUserDto })
+  @ApiOkResponse({
+    description: 'Returns the impersonation access token',
+    schema: {
+      type: 'object',
+      properties: {
+        message: {
+          type: 'string',
+          example: 'You are now acting as jane.doe@example.com.',
+        },
+        access_token: {
+          type: 'string',
+          example: 'eyJhbGciOiJIUzI1NiIsInR5cCI6IkpXVCJ9...',
+        },
+        token_type: { type: 'string', example: 'Bearer' },
+        expires_in: { type: 'number', example: 900 },
+        user: {
+          type: 'object',
+          properties: {
+            id: { type: 'string', example: '60d21b4667d0d8992e610c85' },
+            email: { type: 'string', example: 'jane.doe@example.com' },
+            name: { type: 'string', example: 'Jane Doe' },
+          },
+        },
+      },
+    },
+  })
+  @ApiBadRequestResponse({ description: 'Users cannot impersonate themselves' })
+  @ApiNotFoundResponse({ description: 'User not found' })
+  @ApiUnauthorizedResponse({ description: 'Unauthorized' })
+  @ApiForbiddenResponse({
+    description:
+      'Insufficient permissions, already impersonating, or the user has a role the administrator lacks',
+  })
+  @ApiBearerAuth()
+  @UseGuards(JwtAuthGuard, NoImpersonationGuard, PermissionsGuard)
+  @RequirePermissions(Permission.USERS_IMPERSONATE)
+  @Post(':id/impersonate')
+  @HttpCode(HttpStatus.OK)
+  async impersonate(
+    @Param('id') id: string,
+    @Body(new ValidationPipe({ transform: true, whitelist: true }))
+    impersonateUserDto: ImpersonateUserDto,
+    @Request() req: AuthenticatedRequest,
+  ) {
+    return this.authService.impersonate(
+      {
+        userId: req.user.userId,
+        email: req.user.email,
+        roles: req.user.roles,
+      },
+      id,
+      impersonateUserDto.reason,
+    );
+  }
+}
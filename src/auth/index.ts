@@ -4,8 +4,10 @@ export * from './auth.module';
 // Export the service
 export * from './auth.service';
 
-// Export the controller
+// Export the controllers
 export * from './auth.controller';
+export * from './jwks.controller';
+export * from './impersonation.controller';
 
 // Export guards
 export * from './guards';
@@ -16,5 +18,24 @@ export * from './strategies';
 // Export services
 export * from './services';
 
+// Export schemas
+export * from './schemas';
+
+// Export enums
+export * from './enums';
+
+// Export constants
+export * from './constants';
+
+// Export interfaces
+export * from './interfaces';
+
+// Export exceptions and filters
+export * from './exceptions';
+export * from './filters';
+
+// Export denylist stores
+export * from './stores';
+
 // Export DTOs
 export * from './dto/login.dto';
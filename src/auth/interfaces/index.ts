@@ -0,0 +1,2 @@
+export * from './token-denylist-store.interface';
+export * from './service-principal.interface';
@@ -0,0 +1,11 @@
+/**
+ * The caller of a request authenticated with an access token issued to an
+ * OAuth client, set as `req.user` instead of a user
+ */
+export interface ServicePrincipal {
+  principalType: 'service';
+  clientId: string;
+  name: string;
+  /** Permissions granted to the token that the client still holds */
+  scopes: string[];
+}
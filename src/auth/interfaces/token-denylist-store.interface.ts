@@ -0,0 +1,24 @@
+/**
+ * Injection token for the access-token denylist store
+ */
+export const TOKEN_DENYLIST_STORE = 'TOKEN_DENYLIST_STORE';
+
+/**
+ * Storage for the IDs (`jti`) of revoked access tokens
+ * Entries only need to be kept until the token would have expired anyway
+ */
+export interface TokenDenylistStore {
+  /**
+   * Add a token ID to the denylist
+   * @param jti Token ID
+   * @param expiresAt When the token expires
+   */
+  add(jti: string, expiresAt: Date): Promise<void>;
+
+  /**
+   * Check whether a token ID is on the denylist
+   * @param jti Token ID
+   * @returns True if the token has been revoked
+   */
+  has(jti: string): Promise<boolean>;
+}
@@ -0,0 +1,51 @@
+// src/auth/jwks.controller.ts
+import { Controller, Get, HttpStatus, Res } from '@nestjs/common';
+import { ApiOkResponse, ApiOperation, ApiTags } from '@nestjs/swagger';
+import { Response as ExpressResponse } from 'express';
+import { JwtKeyService } from './services';
+
+/**
+ * Publishes the public keys access tokens are signed with, so that other
+ * services can verify them without sharing a secret
+ * Served outside the global API prefix, at `/.well-known/jwks.json`
+ */
+@ApiTags('Authentication')
+@Controller('.well-known')
+export class JwksController {
+  constructor(private readonly jwtKeyService: JwtKeyService) {}
+
+  @ApiOperation({
+    summary: 'JSON Web Key Set of the access token signing keys',
+    description:
+      'Lists the current signing key and the keys kept for rotation. Empty when tokens are signed with HS256.',
+  })
+  @ApiOkResponse({
+    description: 'Returns the JSON Web Key Set (RFC 7517)',
+    schema: {
+      type: 'object',
+      properties: {
+        keys: {
+          type: 'array',
+          items: { type: 'object' },
+          example: [
+            {
+              kty: 'EC',
+              crv: 'P-256',
+              x: 'f83OJ3D2xF1Bg8vub9tLe1gHMzV76e8Tus9uPHvRVEU',
+              y: 'x_FEzRu9m36HLN_tue659LNpXW6pCyStikYjKIWI5a0',
+              kid: 'NzbLsXh8uDCcd-6MNwXF4W_7noWXFZAfHkxZsRGC9Xs',
+              use: 'sig',
+              alg: 'ES256',
+            },
+          ],
+        },
+      },
+    },
+  })
+  @Get('jwks.json')
+  getJwks(@Res() res: ExpressResponse) {
+    // Written directly so the key set is not wrapped like other responses
+    res.setHeader('Cache-Control', 'public, max-age=300');
+    res.status(HttpStatus.OK).json(this.jwtKeyService.getJwks());
+  }
+}
@@ -0,0 +1,47 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { Document, Schema as MongooseSchema } from 'mongoose';
+
+export type ApiKeyDocument = ApiKey & Document;
+
+/**
+ * A personal access token used by machine clients instead of a login
+ * Only a keyed hash of the key and its visible prefix are stored
+ */
+@Schema({ collection: 'api_keys', timestamps: true })
+export class ApiKey {
+  @Prop({
+    type: MongooseSchema.Types.ObjectId,
+    required: true,
+    index: true,
+    ref: 'User',
+  })
+  userId: MongooseSchema.Types.ObjectId;
+
+  @Prop({ required: true, trim: true })
+  name: string;
+
+  @Prop({ required: true }) // Start of the key, shown so users can tell their keys apart
+  prefix: string;
+
+  @Prop({ required: true, unique: true }) // HMAC-SHA256 of the key
+  keyHash: string;
+
+  @Prop({ type: [String], default: [] }) // Permissions the key may use
+  scopes: string[];
+
+  @Prop({ type: Date, default: null })
+  expiresAt: Date | null;
+
+  @Prop({ type: Date, default: null })
+  lastUsedAt: Date | null;
+
+  @Prop()
+  lastUsedIp?: string;
+
+  @Prop({ type: Date, default: null })
+  revokedAt: Date | null;
+
+  createdAt: Date; // Set by the timestamps option
+}
+
+export const ApiKeySchema = SchemaFactory.createForClass(ApiKey);
@@ -0,0 +1,39 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { Document, Schema as MongooseSchema } from 'mongoose';
+
+export type ExternalIdentityDocument = ExternalIdentity & Document;
+
+/**
+ * An account at an external OpenID Connect provider linked to a user
+ * A user may have several of these in addition to their password
+ */
+@Schema({ collection: 'external_identities', timestamps: true })
+export class ExternalIdentity {
+  @Prop({
+    type: MongooseSchema.Types.ObjectId,
+    required: true,
+    index: true,
+    ref: 'User',
+  })
+  userId: MongooseSchema.Types.ObjectId;
+
+  @Prop({ required: true }) // Provider name, as configured in OIDC_PROVIDERS
+  provider: string;
+
+  @Prop({ required: true }) // `sub` claim, unique within the provider
+  subject: string;
+
+  @Prop() // Email claim at the time the identity was linked
+  email?: string;
+
+  @Prop({ type: Date, default: null })
+  lastLoginAt: Date | null;
+
+  createdAt: Date; // Set by the timestamps option
+}
+
+export const ExternalIdentitySchema =
+  SchemaFactory.createForClass(ExternalIdentity);
+
+// An account at a provider can only be linked to one user
+ExternalIdentitySchema.index({ provider: 1, subject: 1 }, { unique: true });
@@ -0,0 +1,9 @@
+export * from './session.schema';
+export * from './revoked-token.schema';
+export * from './verification-token.schema';
+export * from './login-attempt.schema';
+export * from './mfa-credential.schema';
+export * from './api-key.schema';
+export * from './oauth-client.schema';
+export * from './oidc-login-state.schema';
+export * from './external-identity.schema';
@@ -0,0 +1,24 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { Document } from 'mongoose';
+
+export type LoginAttemptDocument = LoginAttempt & Document;
+
+@Schema({ collection: 'login_attempts', timestamps: true })
+export class LoginAttempt {
+  @Prop({ required: true, unique: true }) // `account:<email>` or `ip:<address>`
+  key: string;
+
+  @Prop({ type: Number, default: 0 }) // Consecutive failures within the attempt window
+  failures: number;
+
+  @Prop({ type: Date })
+  lockedUntil?: Date;
+
+  @Prop({ required: true })
+  expiresAt: Date;
+}
+
+export const LoginAttemptSchema = SchemaFactory.createForClass(LoginAttempt);
+
+// Forget the failures once the attempt window is over
+LoginAttemptSchema.index({ expiresAt: 1 }, { expireAfterSeconds: 0 });
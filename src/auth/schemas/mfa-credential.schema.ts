@@ -0,0 +1,35 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { Document, Schema as MongooseSchema } from 'mongoose';
+
+export type MfaCredentialDocument = MfaCredential & Document;
+
+/**
+ * TOTP second factor of a user
+ */
+@Schema({ collection: 'mfa_credentials', timestamps: true })
+export class MfaCredential {
+  @Prop({
+    type: MongooseSchema.Types.ObjectId,
+    required: true,
+    unique: true,
+    ref: 'User',
+  })
+  userId: MongooseSchema.Types.ObjectId;
+
+  @Prop({ required: true }) // TOTP secret, encrypted with AES-256-GCM
+  secret: string;
+
+  @Prop({ type: Boolean, default: false }) // Set once enrollment is confirmed with a first code
+  enabled: boolean;
+
+  @Prop({ type: Date })
+  enabledAt?: Date;
+
+  @Prop({ type: [String], default: [] }) // Hashes of the unused recovery codes
+  recoveryCodeHashes: string[];
+
+  @Prop({ type: Number, default: -1 }) // Time step of the last accepted code, so a code works only once
+  lastUsedStep: number;
+}
+
+export const MfaCredentialSchema = SchemaFactory.createForClass(MfaCredential);
@@ -0,0 +1,36 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { Document } from 'mongoose';
+
+export type OAuthClientDocument = OAuthClient & Document;
+
+/**
+ * A service registered for the OAuth2 client credentials grant
+ * Only a keyed hash of the client secret is stored
+ */
+@Schema({ collection: 'oauth_clients', timestamps: true })
+export class OAuthClient {
+  @Prop({ required: true, unique: true })
+  clientId: string;
+
+  @Prop({ required: true, trim: true })
+  name: string;
+
+  @Prop({ required: true }) // HMAC-SHA256 of the client secret
+  secretHash: string;
+
+  @Prop({ type: [String], default: [] }) // Permissions the client may request
+  scopes: string[];
+
+  @Prop() // ID of the user or client that registered the client
+  createdBy?: string;
+
+  @Prop({ type: Date, default: null })
+  lastUsedAt: Date | null;
+
+  @Prop({ type: Date, default: null })
+  disabledAt: Date | null;
+
+  createdAt: Date; // Set by the timestamps option
+}
+
+export const OAuthClientSchema = SchemaFactory.createForClass(OAuthClient);
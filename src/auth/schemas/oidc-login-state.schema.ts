@@ -0,0 +1,32 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { Document } from 'mongoose';
+
+export type OidcLoginStateDocument = OidcLoginState & Document;
+
+/**
+ * An OpenID Connect login waiting for the user to return from the provider
+ * Removed when the callback uses it, so each state works only once
+ */
+@Schema({ collection: 'oidc_login_states', timestamps: true })
+export class OidcLoginState {
+  @Prop({ required: true, unique: true }) // `state` parameter of the authorization request
+  state: string;
+
+  @Prop({ required: true })
+  provider: string;
+
+  @Prop({ required: true }) // Expected `nonce` claim of the ID token
+  nonce: string;
+
+  @Prop({ required: true }) // PKCE code verifier (RFC 7636)
+  codeVerifier: string;
+
+  @Prop({ required: true })
+  expiresAt: Date;
+}
+
+export const OidcLoginStateSchema =
+  SchemaFactory.createForClass(OidcLoginState);
+
+// Let MongoDB remove logins that were never finished
+OidcLoginStateSchema.index({ expiresAt: 1 }, { expireAfterSeconds: 0 });
@@ -0,0 +1,18 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { Document } from 'mongoose';
+
+export type RevokedTokenDocument = RevokedToken & Document;
+
+@Schema({ collection: 'revoked_tokens' })
+export class RevokedToken {
+  @Prop({ required: true, unique: true }) // `jti` claim of the access token
+  jti: string;
+
+  @Prop({ required: true })
+  expiresAt: Date;
+}
+
+export const RevokedTokenSchema = SchemaFactory.createForClass(RevokedToken);
+
+// Let MongoDB remove entries once the token would have expired anyway
+RevokedTokenSchema.index({ expiresAt: 1 }, { expireAfterSeconds: 0 });
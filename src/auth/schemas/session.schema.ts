@@ -0,0 +1,57 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { Document, Schema as MongooseSchema } from 'mongoose';
+
+export type SessionDocument = Session & Document;
+
+/**
+ * A login session on one device
+ * Every refresh token issued for the session belongs to the same token family
+ */
+@Schema({ collection: 'sessions', timestamps: true })
+export class Session {
+  @Prop({
+    type: MongooseSchema.Types.ObjectId,
+    required: true,
+    index: true,
+    ref: 'User',
+  })
+  userId: MongooseSchema.Types.ObjectId;
+
+  @Prop({ required: true, unique: true }) // Carried in the `fam` claim of the refresh token
+  familyId: string;
+
+  @Prop({ required: true }) // `jti` of the only refresh token that may still be used
+  currentTokenId: string;
+
+  @Prop({ required: true })
+  refreshTokenHash: string;
+
+  @Prop()
+  userAgent?: string;
+
+  @Prop()
+  device?: string;
+
+  @Prop()
+  ipAddress?: string;
+
+  @Prop({ required: true, default: Date.now })
+  lastUsedAt: Date;
+
+  @Prop({ required: true })
+  expiresAt: Date;
+
+  @Prop({ type: Date, default: null })
+  revokedAt?: Date | null;
+
+  @Prop({ type: String, default: null })
+  revokedReason?: string | null;
+
+  createdAt: Date; // Set by the timestamps option
+}
+
+export const SessionSchema = SchemaFactory.createForClass(Session);
+
+// Let MongoDB remove sessions once their last refresh token has expired
+SessionSchema.index({ expiresAt: 1 }, { expireAfterSeconds: 0 });
+SessionSchema.index({ userId: 1, revokedAt: 1 });
@@ -0,0 +1,38 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { Document, Schema as MongooseSchema } from 'mongoose';
+import { VerificationTokenPurpose } from '../enums';
+
+export type VerificationTokenDocument = VerificationToken & Document;
+
+/**
+ * A single-use token sent to the user, e.g. in an email verification link
+ * Only a keyed hash of the token is stored
+ */
+@Schema({ collection: 'verification_tokens', timestamps: true })
+export class VerificationToken {
+  @Prop({
+    type: MongooseSchema.Types.ObjectId,
+    required: true,
+    index: true,
+    ref: 'User',
+  })
+  userId: MongooseSchema.Types.ObjectId;
+
+  @Prop({ type: String, required: true, enum: VerificationTokenPurpose })
+  purpose: VerificationTokenPurpose;
+
+  @Prop({ required: true, unique: true }) // HMAC-SHA256 of the token
+  tokenHash: string;
+
+  @Prop({ required: true })
+  expiresAt: Date;
+
+  @Prop({ type: Date, default: null }) // Set once the token has been used
+  usedAt: Date | null;
+}
+
+export const VerificationTokenSchema =
+  SchemaFactory.createForClass(VerificationToken);
+
+// Let MongoDB remove tokens once they have expired
+VerificationTokenSchema.index({ expiresAt: 1 }, { expireAfterSeconds: 0 });
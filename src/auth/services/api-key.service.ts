@@ -0,0 +1,230 @@
+import {
+  BadRequestException,
+  Injectable,
+  NotFoundException,
+} from '@nestjs/common';
+import { InjectModel } from '@nestjs/mongoose';
+import { ConfigService } from '@nestjs/config';
+import { Model, Types } from 'mongoose';
+import { createHmac, randomBytes } from 'crypto';
+import { I18nService, I18nContext } from 'nestjs-i18n';
+import { ActivityLogService } from '../../activity-log';
+import { ApiKey, ApiKeyDocument } from '../schemas';
+import { ApiKeyResponseDto } from '../dto';
+import { safeObjectIdToString } from '../../utils';
+import { API_KEY_PREFIX } from '../constants';
+
+/**
+ * Data of a new API key
+ */
+export interface CreateApiKeyData {
+  name: string;
+  scopes: string[];
+  expiresAt?: Date;
+}
+
+/**
+ * Service responsible for the API keys of machine clients
+ */
+@Injectable()
+export class ApiKeyService {
+  private readonly secret: string;
+
+  constructor(
+    @InjectModel(ApiKey.name) private apiKeyModel: Model<ApiKeyDocument>,
+    private readonly configService: ConfigService,
+    private readonly activityLogService: ActivityLogService,
+    private readonly i18n: I18nService,
+  ) {
+    const secret = configService.get<string>('API_KEY_SECRET');
+    if (!secret) {
+      throw new Error(
+        i18n.t('translation.API_KEY.SECRET_NOT_DEFINED', {
+          lang: I18nContext.current()?.lang,
+        }),
+      );
+    }
+    this.secret = secret;
+  }
+
+  /**
+   * Create an API key
+   * @param userId ID of the user the key acts as
+   * @param email Email of the user
+   * @param data Name, scopes and expiry of the key
+   * @returns Stored key and the full key, which cannot be retrieved later
+   * @throws BadRequestException if the expiry is in the past or the user has too many keys
+   */
+  async create(
+    userId: string,
+    email: string,
+    data: CreateApiKeyData,
+  ): Promise<{ apiKey: ApiKeyResponseDto; key: string }> {
+    if (data.expiresAt && data.expiresAt.getTime() <= Date.now()) {
+      throw new BadRequestException(
+        this.i18n.t('translation.API_KEY.EXPIRY_IN_PAST', {
+          lang: I18nContext.current()?.lang,
+        }),
+      );
+    }
+
+    const max = parseInt(
+      this.configService.get<string>('API_KEY_MAX_PER_USER', '20'),
+      10,
+    );
+    const active = await this.apiKeyModel
+      .countDocuments({ userId, ...this.activeFilter() })
+      .exec();
+    if (active >= max) {
+      throw new BadRequestException(
+        this.i18n.t('translation.API_KEY.LIMIT_REACHED', {
+          lang: I18nContext.current()?.lang,
+          args: { max },
+        }),
+      );
+    }
+
+    const prefix = `${API_KEY_PREFIX}${randomBytes(4).toString('hex')}`;
+    const key = `${prefix}_${randomBytes(32).toString('base64url')}`;
+    const apiKey = await this.apiKeyModel.create({
+      userId: new Types.ObjectId(userId),
+      name: data.name,
+      prefix,
+      keyHash: this.hashKey(key),
+      scopes: [...new Set(data.scopes)],
+      expiresAt: data.expiresAt ?? null,
+    });
+
+    await this.activityLogService.logEvent({
+      userId,
+      actionType: 'API_KEY_CREATED',
+      username: email,
+      resource: {
+        type: 'ApiKey',
+        id: safeObjectIdToString(apiKey._id),
+        displayName: data.name,
+      },
+      metadata: { prefix, scopes: apiKey.scopes },
+    });
+
+    return { apiKey: this.toResponse(apiKey), key };
+  }
+
+  /**
+   * List the API keys of a user that can still be used
+   * @param userId User ID
+   * @returns API keys, without their hashes
+   */
+  async findActiveByUser(userId: string): Promise<ApiKeyResponseDto[]> {
+    const apiKeys = await this.apiKeyModel
+      .find({ userId, ...this.activeFilter() })
+      .sort({ createdAt: -1 })
+      .exec();
+    return apiKeys.map((apiKey) => this.toResponse(apiKey));
+  }
+
+  /**
+   * Revoke one of the API keys of a user
+   * @param userId User ID
+   * @param email Email of the user
+   * @param apiKeyId API key ID
+   * @throws NotFoundException if the user has no active key with this ID
+   */
+  async revoke(userId: string, email: string, apiKeyId: string): Promise<void> {
+    const apiKey = Types.ObjectId.isValid(apiKeyId)
+      ? await this.apiKeyModel
+          .findOneAndUpdate(
+            { _id: apiKeyId, userId, revokedAt: null },
+            { $set: { revokedAt: new Date() } },
+            { new: true },
+          )
+          .exec()
+      : null;
+    if (!apiKey) {
+      throw new NotFoundException(
+        this.i18n.t('translation.API_KEY.NOT_FOUND', {
+          lang: I18nContext.current()?.lang,
+        }),
+      );
+    }
+
+    await this.activityLogService.logEvent({
+      userId,
+      actionType: 'API_KEY_REVOKED',
+      username: email,
+      resource: { type: 'ApiKey', id: apiKeyId, displayName: apiKey.name },
+      metadata: { prefix: apiKey.prefix },
+    });
+  }
+
+  /**
+   * Delete every API key of a user, e.g. when their data is erased
+   * @param userId User ID
+   * @returns Number of deleted keys
+   */
+  async deleteAllForUser(userId: string): Promise<number> {
+    const result = await this.apiKeyModel.deleteMany({ userId }).exec();
+    return result.deletedCount;
+  }
+
+  /**
+   * Find the API key presented by a client and record its use
+   * @param key Full API key
+   * @param ipAddress Client IP address
+   * @returns API key, or null if it is unknown, revoked or expired
+   */
+  async authenticate(
+    key: string,
+    ipAddress?: string,
+  ): Promise<ApiKeyDocument | null> {
+    if (!key.startsWith(API_KEY_PREFIX)) {
+      return null;
+    }
+
+    return this.apiKeyModel
+      .findOneAndUpdate(
+        { keyHash: this.hashKey(key), ...this.activeFilter() },
+        { $set: { lastUsedAt: new Date(), lastUsedIp: ipAddress } },
+        { new: true },
+      )
+      .exec();
+  }
+
+  /**
+   * Build the filter matching keys that are neither revoked nor expired
+   * @returns MongoDB filter
+   */
+  private activeFilter() {
+    return {
+      revokedAt: null,
+      $or: [{ expiresAt: null }, { expiresAt: { $gt: new Date() } }],
+    };
+  }
+
+  /**
+   * Compute the keyed hash stored for an API key
+   * @param key API key
+   * @returns Hex encoded HMAC-SHA256
+   */
+  private hashKey(key: string): string {
+    return createHmac('sha256', this.secret).update(key).digest('hex');
+  }
+
+  /**
+   * Convert an API key document to its public representation
+   * @param apiKey API key document
+   * @returns API key without its hash
+   */
+  private toResponse(apiKey: ApiKeyDocument): ApiKeyResponseDto {
+    return {
+      id: safeObjectIdToString(apiKey._id),
+      name: apiKey.name,
+      prefix: apiKey.prefix,
+      scopes: apiKey.scopes,
+      expiresAt: apiKey.expiresAt,
+      lastUsedAt: apiKey.lastUsedAt,
+      lastUsedIp: apiKey.lastUsedIp,
+      createdAt: apiKey.createdAt,
+    };
+  }
+}
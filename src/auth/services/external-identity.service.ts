@@ -0,0 +1,98 @@
+import { Injectable } from '@nestjs/common';
+import { InjectModel } from '@nestjs/mongoose';
+import { Model, Types } from 'mongoose';
+import { ActivityLogService } from '../../activity-log';
+import { ExternalIdentity, ExternalIdentityDocument } from '../schemas';
+
+/**
+ * Account at an external provider to link to a user
+ */
+export interface ExternalIdentityData {
+  provider: string;
+  subject: string;
+  email?: string;
+}
+
+/**
+ * Service responsible for the external identities linked to users
+ */
+@Injectable()
+export class ExternalIdentityService {
+  constructor(
+    @InjectModel(ExternalIdentity.name)
+    private externalIdentityModel: Model<ExternalIdentityDocument>,
+    private readonly activityLogService: ActivityLogService,
+  ) {}
+
+  /**
+   * Find the identity of an account at a provider
+   * @param provider Provider name
+   * @param subject Subject identifier at the provider
+   * @returns External identity, or null if the account is not linked
+   */
+  async findByProviderSubject(
+    provider: string,
+    subject: string,
+  ): Promise<ExternalIdentityDocument | null> {
+    return this.externalIdentityModel.findOne({ provider, subject }).exec();
+  }
+
+  /**
+   * Link an account at a provider to a user
+   * @param userId User ID
+   * @param email User email
+   * @param identity Provider, subject and email of the account
+   * @param provisioned Whether the user was created for this login
+   * @returns Created external identity
+   */
+  async link(
+    userId: string,
+    email: string,
+    identity: ExternalIdentityData,
+    provisioned = false,
+  ): Promise<ExternalIdentityDocument> {
+    const created = await this.externalIdentityModel.create({
+      userId: new Types.ObjectId(userId),
+      provider: identity.provider,
+      subject: identity.subject,
+      email: identity.email,
+      lastLoginAt: new Date(),
+    });
+
+    await this.activityLogService.logEvent({
+      userId,
+      actionType: 'EXTERNAL_IDENTITY_LINKED',
+      username: email,
+      resource: {
+        type: 'ExternalIdentity',
+        id: `${identity.provider}:${identity.subject}`,
+        displayName: identity.email,
+      },
+      metadata: { provider: identity.provider, provisioned },
+    });
+
+    return created;
+  }
+
+  /**
+   * Record a login with an external identity
+   * @param identity External identity
+   */
+  async recordLogin(identity: ExternalIdentityDocument): Promise<void> {
+    await this.externalIdentityModel
+      .updateOne({ _id: identity._id }, { $set: { lastLoginAt: new Date() } })
+      .exec();
+  }
+
+  /**
+   * Unlink every external identity of a user, e.g. when their data is erased
+   * @param userId User ID
+   * @returns Number of unlinked identities
+   */
+  async unlinkAllForUser(userId: string): Promise<number> {
+    const result = await this.externalIdentityModel
+      .deleteMany({ userId: new Types.ObjectId(userId) })
+      .exec();
+    return result.deletedCount;
+  }
+}
@@ -1 +1,11 @@
 export * from './token.service';
+export * from './session.service';
+export * from './token-revocation.service';
+export * from './verification-token.service';
+export * from './login-throttle.service';
+export * from './mfa.service';
+export * from './api-key.service';
+export * from './oauth-client.service';
+export * from './jwt-key.service';
+export * from './oidc.service';
+export * from './external-identity.service';
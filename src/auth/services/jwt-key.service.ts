@@ -0,0 +1,254 @@
+import { Injectable } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { JwtSignOptions, JwtVerifyOptions } from '@nestjs/jwt';
+import {
+  createHash,
+  createPrivateKey,
+  createPublicKey,
+  JsonWebKey,
+  KeyObject,
+} from 'crypto';
+import { readFileSync } from 'fs';
+import { I18nService, I18nContext } from 'nestjs-i18n';
+
+/**
+ * Algorithms access tokens can be signed with
+ */
+export type JwtAlgorithm = 'HS256' | 'RS256' | 'ES256';
+
+const SUPPORTED_ALGORITHMS: JwtAlgorithm[] = ['HS256', 'RS256', 'ES256'];
+
+/**
+ * Public key that access tokens may be verified with
+ */
+interface VerificationKey {
+  kid: string;
+  pem: string;
+  jwk: JsonWebKey;
+}
+
+/**
+ * Service holding the keys access tokens are signed and verified with
+ *
+ * With HS256 (the default) tokens are signed with JWT_ACCESS_SECRET. With
+ * RS256 or ES256 they are signed with the private key in
+ * JWT_PRIVATE_KEY_PATH and carry its `kid`; the public keys in
+ * JWT_PUBLIC_KEY_PATHS remain valid for verification so that keys can be
+ * rotated without invalidating tokens already issued.
+ */
+@Injectable()
+export class JwtKeyService {
+  private readonly algorithm: JwtAlgorithm;
+  private readonly secret?: string;
+  private readonly privateKey?: string;
+  private readonly verificationKeys: VerificationKey[] = [];
+
+  constructor(
+    configService: ConfigService,
+    private readonly i18n: I18nService,
+  ) {
+    const algorithm = (
+      configService.get<string>('JWT_ALGORITHM') || 'HS256'
+    ).toUpperCase() as JwtAlgorithm;
+    if (!SUPPORTED_ALGORITHMS.includes(algorithm)) {
+      throw this.configError('JWT_ALGORITHM_UNSUPPORTED', { algorithm });
+    }
+    this.algorithm = algorithm;
+
+    if (algorithm === 'HS256') {
+      this.secret = configService.get<string>('JWT_ACCESS_SECRET');
+      if (!this.secret) {
+        throw this.configError('JWT_ACCESS_SECRET_NOT_DEFINED');
+      }
+      return;
+    }
+
+    const privateKeyPath = configService.get<string>('JWT_PRIVATE_KEY_PATH');
+    if (!privateKeyPath) {
+      throw this.configError('JWT_PRIVATE_KEY_NOT_DEFINED', { algorithm });
+    }
+    const privateKey = createPrivateKey(readFileSync(privateKeyPath));
+    this.assertKeyType(privateKey, privateKeyPath);
+    this.privateKey = privateKey
+      .export({ type: 'pkcs8', format: 'pem' })
+      .toString();
+
+    // The signing key comes first so that it is used for tokens without a `kid`
+    const publicKeyPaths = configService
+      .get<string>('JWT_PUBLIC_KEY_PATHS', '')
+      .split(',')
+      .map((path) => path.trim())
+      .filter(Boolean);
+    const publicKeys = [
+      createPublicKey(privateKey),
+      ...publicKeyPaths.map((path) => {
+        const publicKey = createPublicKey(readFileSync(path));
+        this.assertKeyType(publicKey, path);
+        return publicKey;
+      }),
+    ];
+    for (const publicKey of publicKeys) {
+      const jwk = publicKey.export({ format: 'jwk' });
+      const kid = this.thumbprint(jwk);
+      if (!this.verificationKeys.some((key) => key.kid === kid)) {
+        this.verificationKeys.push({
+          kid,
+          pem: publicKey.export({ type: 'spki', format: 'pem' }).toString(),
+          jwk,
+        });
+      }
+    }
+  }
+
+  /**
+   * Get the algorithm access tokens are signed with
+   * @returns JWT algorithm
+   */
+  getAlgorithm(): JwtAlgorithm {
+    return this.algorithm;
+  }
+
+  /**
+   * Get the options to sign an access token with
+   * @returns Key, algorithm and, for asymmetric keys, the key ID
+   */
+  getSignOptions(): JwtSignOptions {
+    if (this.algorithm === 'HS256') {
+      return { secret: this.secret, algorithm: this.algorithm };
+    }
+
+    // Passed as `secret` because JwtService prefers the module-wide secret over `privateKey`
+    return {
+      secret: this.privateKey,
+      algorithm: this.algorithm,
+      keyid: this.verificationKeys[0].kid,
+    };
+  }
+
+  /**
+   * Get the options to verify an access token with
+   * @param token Access token
+   * @returns Key and accepted algorithm, or null if the token names an unknown key
+   */
+  getVerifyOptions(token: string): JwtVerifyOptions | null {
+    const key = this.getVerificationKey(this.readKeyId(token));
+    return key ? { secret: key, algorithms: [this.algorithm] } : null;
+  }
+
+  /**
+   * Find the key to verify an access token with
+   * @param kid Key ID from the token header
+   * @returns Secret or PEM encoded public key, or null if the key is unknown
+   */
+  getVerificationKey(kid?: string): string | null {
+    if (this.algorithm === 'HS256') {
+      return this.secret ?? null;
+    }
+
+    const key = kid
+      ? this.verificationKeys.find((candidate) => candidate.kid === kid)
+      : this.verificationKeys[0];
+    return key?.pem ?? null;
+  }
+
+  /**
+   * Key provider for passport-jwt, resolving the key from the `kid` header
+   * @param _request Incoming request
+   * @param rawJwtToken Access token
+   * @param done Callback receiving the key
+   */
+  readonly secretOrKeyProvider = (
+    _request: unknown,
+    rawJwtToken: string,
+    done: (error: Error | null, secretOrKey?: string) => void,
+  ): void => {
+    const key = this.getVerificationKey(this.readKeyId(rawJwtToken));
+    if (!key) {
+      done(new Error('Unknown signing key'));
+      return;
+    }
+    done(null, key);
+  };
+
+  /**
+   * Build the JSON Web Key Set of the keys access tokens may be verified with
+   * Empty with HS256, whose secret must not be published
+   * @returns JSON Web Key Set (RFC 7517)
+   */
+  getJwks(): { keys: JsonWebKey[] } {
+    return {
+      keys: this.verificationKeys.map(({ kid, jwk }) => ({
+        ...jwk,
+        kid,
+        use: 'sig',
+        alg: this.algorithm,
+      })),
+    };
+  }
+
+  /**
+   * Read the key ID from the header of a token
+   * @param token JWT
+   * @returns Key ID, or undefined if the header has none or cannot be read
+   */
+  private readKeyId(token: string): string | undefined {
+    try {
+      const header = JSON.parse(
+        Buffer.from(token.split('.')[0], 'base64url').toString('utf8'),
+      ) as { kid?: unknown };
+      return typeof header.kid === 'string' ? header.kid : undefined;
+    } catch {
+      return undefined;
+    }
+  }
+
+  /**
+   * Check that a key can be used with the configured algorithm
+   * @param key Private or public key
+   * @param path File the key was read from
+   * @throws Error if the key type does not match the algorithm
+   */
+  private assertKeyType(key: KeyObject, path: string): void {
+    const matches =
+      this.algorithm === 'RS256'
+        ? key.asymmetricKeyType === 'rsa'
+        : key.asymmetricKeyType === 'ec' &&
+          key.asymmetricKeyDetails?.namedCurve === 'prime256v1';
+    if (!matches) {
+      throw this.configError('JWT_KEY_TYPE_MISMATCH', {
+        path,
+        algorithm: this.algorithm,
+      });
+    }
+  }
+
+  /**
+   * Compute the JWK thumbprint of a public key (RFC 7638), used as its key ID
+   * @param jwk Public key as JWK
+   * @returns Base64url encoded SHA-256 thumbprint
+   */
+  private thumbprint(jwk: JsonWebKey): string {
+    const members =
+      jwk.kty === 'EC'
+        ? { crv: jwk.crv, kty: jwk.kty, x: jwk.x, y: jwk.y }
+        : { e: jwk.e, kty: jwk.kty, n: jwk.n };
+    return createHash('sha256')
+      .update(JSON.stringify(members))
+      .digest('base64url');
+  }
+
+  /**
+   * Build the error thrown for an invalid key configuration
+   * @param key Translation key, under `AUTH`
+   * @param args Translation arguments
+   * @returns Error
+   */
+  private configError(key: string, args?: Record<string, string>): Error {
+    return new Error(
+      this.i18n.t(`translation.AUTH.${key}`, {
+        lang: I18nContext.current()?.lang,
+        args,
+      }),
+    );
+  }
+}
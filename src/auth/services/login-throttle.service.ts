@@ -0,0 +1,187 @@
+import { HttpException, HttpStatus, Injectable } from '@nestjs/common';
+import { InjectModel } from '@nestjs/mongoose';
+import { ConfigService } from '@nestjs/config';
+import { Model } from 'mongoose';
+import { I18nService, I18nContext } from 'nestjs-i18n';
+import { LoginAttempt, LoginAttemptDocument } from '../schemas';
+
+/**
+ * Service responsible for slowing down password guessing
+ * Failed logins are counted per account and per client IP address. Once a
+ * counter reaches its threshold the account or address is locked, for a
+ * duration that doubles with every further failure.
+ */
+@Injectable()
+export class LoginThrottleService {
+  constructor(
+    @InjectModel(LoginAttempt.name)
+    private loginAttemptModel: Model<LoginAttemptDocument>,
+    private readonly configService: ConfigService,
+    private readonly i18n: I18nService,
+  ) {}
+
+  /**
+   * Refuse the login while the account or the client IP address is locked
+   * @param email Email the login is attempted for
+   * @param ipAddress Client IP address
+   * @throws HttpException 429 with the number of seconds to wait as `retryAfter`
+   */
+  async assertNotLocked(email: string, ipAddress?: string): Promise<void> {
+    const now = new Date();
+    const lockedAttempts = await this.loginAttemptModel
+      .find({
+        key: { $in: this.keysFor(email, ipAddress) },
+        lockedUntil: { $gt: now },
+      })
+      .exec();
+    if (lockedAttempts.length === 0) {
+      return;
+    }
+
+    const lockedUntil = Math.max(
+      ...lockedAttempts.map((attempt) => attempt.lockedUntil?.getTime() ?? 0),
+    );
+    const retryAfter = Math.ceil((lockedUntil - now.getTime()) / 1000);
+    throw new HttpException(
+      {
+        message: this.i18n.t('translation.AUTH.ACCOUNT_LOCKED', {
+          lang: I18nContext.current()?.lang,
+          args: { seconds: retryAfter },
+        }),
+        retryAfter,
+      },
+      HttpStatus.TOO_MANY_REQUESTS,
+    );
+  }
+
+  /**
+   * Count a failed login for the account and the client IP address
+   * @param email Email the login was attempted for
+   * @param ipAddress Client IP address
+   */
+  async recordFailure(email: string, ipAddress?: string): Promise<void> {
+    await this.registerFailure(
+      this.accountKey(email),
+      this.readNumber('LOGIN_MAX_ATTEMPTS', 5),
+    );
+    if (this.isKnownIp(ipAddress)) {
+      await this.registerFailure(
+        this.ipKey(ipAddress),
+        this.readNumber('LOGIN_IP_MAX_ATTEMPTS', 20),
+      );
+    }
+  }
+
+  /**
+   * Reset the failure counter of an account after a successful login
+   * The IP address counter keeps running, so that one valid account does not
+   * let an address guess the passwords of others
+   * @param email Email of the account
+   */
+  async recordSuccess(email: string): Promise<void> {
+    await this.loginAttemptModel
+      .deleteOne({ key: this.accountKey(email) })
+      .exec();
+  }
+
+  /**
+   * Lift the lockout of an account
+   * @param email Email of the account
+   * @returns True if the account had failed logins recorded
+   */
+  async unlock(email: string): Promise<boolean> {
+    const result = await this.loginAttemptModel
+      .deleteOne({ key: this.accountKey(email) })
+      .exec();
+    return result.deletedCount > 0;
+  }
+
+  /**
+   * Increment a failure counter and lock it once the threshold is reached
+   * @param key Counter key
+   * @param threshold Failures allowed before locking
+   */
+  private async registerFailure(key: string, threshold: number): Promise<void> {
+    const now = Date.now();
+    const windowMs = this.readNumber('LOGIN_ATTEMPT_WINDOW', 900) * 1000;
+
+    // The TTL monitor only runs every minute, so drop an expired counter here
+    await this.loginAttemptModel
+      .deleteOne({ key, expiresAt: { $lte: new Date(now) } })
+      .exec();
+    const attempt = await this.loginAttemptModel
+      .findOneAndUpdate(
+        { key },
+        {
+          $inc: { failures: 1 },
+          $max: { expiresAt: new Date(now + windowMs) },
+        },
+        { upsert: true, new: true },
+      )
+      .exec();
+    if (!attempt || attempt.failures < threshold) {
+      return;
+    }
+
+    const lockoutSeconds = Math.min(
+      this.readNumber('LOGIN_LOCKOUT_DURATION', 60) *
+        2 ** (attempt.failures - threshold),
+      this.readNumber('LOGIN_LOCKOUT_MAX_DURATION', 3600),
+    );
+    const lockedUntil = new Date(now + lockoutSeconds * 1000);
+    await this.loginAttemptModel
+      .updateOne(
+        { key },
+        {
+          $set: { lockedUntil },
+          // Keep counting after the lockout, so the next failure locks for longer
+          $max: { expiresAt: new Date(lockedUntil.getTime() + windowMs) },
+        },
+      )
+      .exec();
+  }
+
+  /**
+   * Build the counter keys of a login attempt
+   * @param email Email the login is attempted for
+   * @param ipAddress Client IP address
+   * @returns Counter keys
+   */
+  private keysFor(email: string, ipAddress?: string): string[] {
+    const keys = [this.accountKey(email)];
+    if (this.isKnownIp(ipAddress)) {
+      keys.push(this.ipKey(ipAddress));
+    }
+    return keys;
+  }
+
+  private accountKey(email: string): string {
+    return `account:${email.trim().toLowerCase()}`;
+  }
+
+  private ipKey(ipAddress: string): string {
+    return `ip:${ipAddress}`;
+  }
+
+  /**
+   * Check whether the client IP address could be determined
+   * @param ipAddress Client IP address
+   * @returns True if the address can be throttled
+   */
+  private isKnownIp(ipAddress?: string): ipAddress is string {
+    return !!ipAddress && ipAddress !== 'unknown';
+  }
+
+  /**
+   * Read a positive integer setting
+   * @param key Configuration key
+   * @param defaultValue Value used when the setting is missing or invalid
+   * @returns Setting value
+   */
+  private readNumber(key: string, defaultValue: number): number {
+    const value = Number(
+      this.configService.get<string>(key, String(defaultValue)),
+    );
+    return Number.isInteger(value) && value > 0 ? value : defaultValue;
+  }
+}
@@ -0,0 +1,343 @@
+import {
+  BadRequestException,
+  ConflictException,
+  Injectable,
+} from '@nestjs/common';
+import { InjectModel } from '@nestjs/mongoose';
+import { ConfigService } from '@nestjs/config';
+import { Model } from 'mongoose';
+import {
+  createCipheriv,
+  createDecipheriv,
+  createHash,
+  createHmac,
+  randomBytes,
+} from 'crypto';
+import { I18nService, I18nContext } from 'nestjs-i18n';
+import { ActivityLogService } from '../../activity-log';
+import { MfaCredential, MfaCredentialDocument } from '../schemas';
+import {
+  base32Encode,
+  buildOtpauthUri,
+  findTotpCounter,
+  generateTotpSecret,
+} from '../utils';
+
+/**
+ * Number of recovery codes issued when MFA is enabled
+ */
+const RECOVERY_CODE_COUNT = 10;
+
+/**
+ * How a second factor was verified
+ */
+export type MfaMethod = 'totp' | 'recovery_code';
+
+/**
+ * Service responsible for TOTP two-factor authentication
+ */
+@Injectable()
+export class MfaService {
+  constructor(
+    @InjectModel(MfaCredential.name)
+    private mfaCredentialModel: Model<MfaCredentialDocument>,
+    private readonly configService: ConfigService,
+    private readonly activityLogService: ActivityLogService,
+    private readonly i18n: I18nService,
+  ) {}
+
+  /**
+   * Check whether a user has MFA enabled
+   * @param userId User ID
+   * @returns True if logins of the user need a second factor
+   */
+  async isEnabled(userId: string): Promise<boolean> {
+    const credential = await this.mfaCredentialModel
+      .exists({ userId, enabled: true })
+      .exec();
+    return credential !== null;
+  }
+
+  /**
+   * Start enrolling a user, replacing any unconfirmed enrollment
+   * @param userId User ID
+   * @param email Email of the user, shown in the authenticator app
+   * @returns Secret and `otpauth://` URI to add to the authenticator app
+   * @throws ConflictException if MFA is already enabled
+   */
+  async startEnrollment(
+    userId: string,
+    email: string,
+  ): Promise<{ secret: string; otpauthUrl: string }> {
+    if (await this.isEnabled(userId)) {
+      throw new ConflictException(
+        this.i18n.t('translation.AUTH.MFA_ALREADY_ENABLED', {
+          lang: I18nContext.current()?.lang,
+        }),
+      );
+    }
+
+    const secret = generateTotpSecret();
+    await this.mfaCredentialModel
+      .updateOne(
+        { userId, enabled: false },
+        {
+          $set: {
+            secret: this.encrypt(secret),
+            recoveryCodeHashes: [],
+            lastUsedStep: -1,
+          },
+        },
+        { upsert: true },
+      )
+      .exec();
+    await this.logMfaEvent(userId, email, 'MFA_ENROLLMENT_STARTED');
+
+    const issuer = this.configService.get<string>('MFA_ISSUER', 'IntelliScope');
+    return { secret, otpauthUrl: buildOtpauthUri(issuer, email, secret) };
+  }
+
+  /**
+   * Finish the enrollment of a user with a first code from the authenticator app
+   * @param userId User ID
+   * @param email Email of the user
+   * @param code TOTP code
+   * @returns Recovery codes, shown to the user only this once
+   * @throws BadRequestException if no enrollment was started or the code is wrong
+   */
+  async confirmEnrollment(
+    userId: string,
+    email: string,
+    code: string,
+  ): Promise<string[]> {
+    const credential = await this.mfaCredentialModel
+      .findOne({ userId, enabled: false })
+      .exec();
+    if (!credential) {
+      throw new BadRequestException(
+        this.i18n.t('translation.AUTH.MFA_ENROLLMENT_NOT_STARTED', {
+          lang: I18nContext.current()?.lang,
+        }),
+      );
+    }
+
+    const step = findTotpCounter(this.decrypt(credential.secret), code.trim());
+    if (step === null) {
+      throw this.invalidCode();
+    }
+
+    const recoveryCodes = Array.from({ length: RECOVERY_CODE_COUNT }, () =>
+      this.generateRecoveryCode(),
+    );
+    await this.mfaCredentialModel
+      .updateOne(
+        { _id: credential._id },
+        {
+          $set: {
+            enabled: true,
+            enabledAt: new Date(),
+            lastUsedStep: step,
+            recoveryCodeHashes: recoveryCodes.map((recoveryCode) =>
+              this.hashRecoveryCode(recoveryCode),
+            ),
+          },
+        },
+      )
+      .exec();
+    await this.logMfaEvent(userId, email, 'MFA_ENABLED');
+
+    return recoveryCodes;
+  }
+
+  /**
+   * Verify the second factor of a login
+   * A TOTP code is accepted once; a recovery code is removed once used
+   * @param userId User ID
+   * @param email Email of the user
+   * @param code TOTP code or recovery code
+   * @returns How the factor was verified, or null if the code is invalid
+   */
+  async verify(
+    userId: string,
+    email: string,
+    code: string,
+  ): Promise<MfaMethod | null> {
+    const method = await this.checkCode(userId, code.trim());
+    if (method) {
+      await this.logMfaEvent(userId, email, 'MFA_VERIFIED', { method });
+    } else {
+      await this.logMfaEvent(userId, email, 'MFA_VERIFICATION_FAILED');
+    }
+    return method;
+  }
+
+  /**
+   * Remove the second factor of a user, e.g. after losing the device
+   * @param userId User ID
+   * @param email Email of the user
+   * @param resetBy ID of the administrator resetting MFA
+   * @returns True if the user had MFA set up
+   */
+  async reset(
+    userId: string,
+    email: string,
+    resetBy: string,
+  ): Promise<boolean> {
+    const result = await this.mfaCredentialModel.deleteOne({ userId }).exec();
+    if (result.deletedCount === 0) {
+      return false;
+    }
+
+    await this.logMfaEvent(userId, email, 'MFA_RESET', { resetBy });
+    return true;
+  }
+
+  /**
+   * Delete the secret and recovery codes of a user, e.g. when their data is erased
+   * @param userId User ID
+   * @returns True if the user had MFA set up
+   */
+  async deleteForUser(userId: string): Promise<boolean> {
+    const result = await this.mfaCredentialModel.deleteOne({ userId }).exec();
+    return result.deletedCount > 0;
+  }
+
+  /**
+   * Build the exception for a wrong enrollment code
+   * @returns BadRequestException
+   */
+  private invalidCode(): BadRequestException {
+    return new BadRequestException(
+      this.i18n.t('translation.AUTH.MFA_CODE_INVALID', {
+        lang: I18nContext.current()?.lang,
+      }),
+    );
+  }
+
+  /**
+   * Check a TOTP or recovery code
+   * @param userId User ID
+   * @param code Code entered by the user
+   * @returns How the factor was verified, or null if the code is invalid
+   */
+  private async checkCode(
+    userId: string,
+    code: string,
+  ): Promise<MfaMethod | null> {
+    const credential = await this.mfaCredentialModel
+      .findOne({ userId, enabled: true })
+      .exec();
+    if (!credential) {
+      return null;
+    }
+
+    const step = findTotpCounter(this.decrypt(credential.secret), code);
+    if (step !== null) {
+      // Only accept the code if no code of this or a later time step was used yet
+      const result = await this.mfaCredentialModel
+        .updateOne(
+          { _id: credential._id, lastUsedStep: { $lt: step } },
+          { $set: { lastUsedStep: step } },
+        )
+        .exec();
+      return result.modifiedCount > 0 ? 'totp' : null;
+    }
+
+    const result = await this.mfaCredentialModel
+      .updateOne(
+        { _id: credential._id },
+        { $pull: { recoveryCodeHashes: this.hashRecoveryCode(code) } },
+      )
+      .exec();
+    return result.modifiedCount > 0 ? 'recovery_code' : null;
+  }
+
+  /**
+   * Generate a recovery code such as `k7qxm-2vdpa`
+   * @returns Recovery code
+   */
+  private generateRecoveryCode(): string {
+    const code = base32Encode(randomBytes(7)).slice(0, 10).toLowerCase();
+    return `${code.slice(0, 5)}-${code.slice(5)}`;
+  }
+
+  /**
+   * Compute the keyed hash stored for a recovery code
+   * Dashes, spaces and case are ignored
+   * @param code Recovery code
+   * @returns Hex encoded HMAC-SHA256
+   */
+  private hashRecoveryCode(code: string): string {
+    const normalized = code.replace(/[\s-]/g, '').toLowerCase();
+    return createHmac('sha256', this.getKey()).update(normalized).digest('hex');
+  }
+
+  /**
+   * Encrypt a TOTP secret for storage
+   * @param secret Base32 encoded secret
+   * @returns `iv.tag.ciphertext`, each part base64url encoded
+   */
+  private encrypt(secret: string): string {
+    const iv = randomBytes(12);
+    const cipher = createCipheriv('aes-256-gcm', this.getKey(), iv);
+    const ciphertext = Buffer.concat([
+      cipher.update(secret, 'utf8'),
+      cipher.final(),
+    ]);
+    return [iv, cipher.getAuthTag(), ciphertext]
+      .map((part) => part.toString('base64url'))
+      .join('.');
+  }
+
+  /**
+   * Decrypt a stored TOTP secret
+   * @param stored Value produced by `encrypt`
+   * @returns Base32 encoded secret
+   */
+  private decrypt(stored: string): string {
+    const [iv, tag, ciphertext] = stored
+      .split('.')
+      .map((part) => Buffer.from(part, 'base64url'));
+    const decipher = createDecipheriv('aes-256-gcm', this.getKey(), iv);
+    decipher.setAuthTag(tag);
+    return Buffer.concat([
+      decipher.update(ciphertext),
+      decipher.final(),
+    ]).toString('utf8');
+  }
+
+  /**
+   * Derive the 256-bit key protecting the MFA secrets and recovery codes
+   * @returns Key
+   */
+  private getKey(): Buffer {
+    const secret =
+      this.configService.get<string>('MFA_ENCRYPTION_KEY') ??
+      this.configService.get<string>('JWT_ACCESS_SECRET', '');
+    return createHash('sha256').update(secret).digest();
+  }
+
+  /**
+   * Record an MFA event in the activity log
+   * @param userId User ID
+   * @param email Email of the user
+   * @param actionType Action type
+   * @param metadata Additional details
+   */
+  private async logMfaEvent(
+    userId: string,
+    email: string,
+    actionType: string,
+    metadata?: Record<string, unknown>,
+  ): Promise<void> {
+    await this.activityLogService.logEvent({
+      userId,
+      actionType,
+      username: email,
+      resource: { type: 'User', id: userId, displayName: email },
+      operationStatus:
+        actionType === 'MFA_VERIFICATION_FAILED' ? 'FAILURE' : 'SUCCESS',
+      metadata,
+    });
+  }
+}
@@ -0,0 +1,183 @@
+import { Injectable, NotFoundException } from '@nestjs/common';
+import { InjectModel } from '@nestjs/mongoose';
+import { ConfigService } from '@nestjs/config';
+import { Model } from 'mongoose';
+import { createHmac, randomBytes, timingSafeEqual } from 'crypto';
+import { I18nService, I18nContext } from 'nestjs-i18n';
+import { ActivityLogService } from '../../activity-log';
+import { OAuthClient, OAuthClientDocument } from '../schemas';
+import { OAuthClientResponseDto } from '../dto';
+import { safeObjectIdToString } from '../../utils';
+
+/**
+ * Data of a new OAuth client
+ */
+export interface CreateOAuthClientData {
+  name: string;
+  scopes: string[];
+}
+
+/**
+ * Service responsible for the OAuth clients allowed to use the client
+ * credentials grant
+ */
+@Injectable()
+export class OAuthClientService {
+  constructor(
+    @InjectModel(OAuthClient.name)
+    private oauthClientModel: Model<OAuthClientDocument>,
+    private readonly configService: ConfigService,
+    private readonly activityLogService: ActivityLogService,
+    private readonly i18n: I18nService,
+  ) {}
+
+  /**
+   * Register an OAuth client
+   * @param userId ID of the user registering the client
+   * @param email Email of the user
+   * @param data Name and allowed scopes of the client
+   * @returns Stored client and its secret, which cannot be retrieved later
+   */
+  async create(
+    userId: string,
+    email: string,
+    data: CreateOAuthClientData,
+  ): Promise<{ client: OAuthClientResponseDto; clientSecret: string }> {
+    const clientId = randomBytes(16).toString('hex');
+    const clientSecret = randomBytes(32).toString('base64url');
+    const client = await this.oauthClientModel.create({
+      clientId,
+      name: data.name,
+      secretHash: this.hashSecret(clientSecret),
+      scopes: [...new Set(data.scopes)],
+      createdBy: userId,
+    });
+
+    await this.activityLogService.logEvent({
+      userId,
+      actionType: 'OAUTH_CLIENT_CREATED',
+      username: email,
+      resource: { type: 'OAuthClient', id: clientId, displayName: data.name },
+      metadata: { scopes: client.scopes },
+    });
+
+    return { client: this.toResponse(client), clientSecret };
+  }
+
+  /**
+   * List the OAuth clients that can still obtain tokens
+   * @returns OAuth clients, without their secret hashes
+   */
+  async findAll(): Promise<OAuthClientResponseDto[]> {
+    const clients = await this.oauthClientModel
+      .find({ disabledAt: null })
+      .sort({ createdAt: -1 })
+      .exec();
+    return clients.map((client) => this.toResponse(client));
+  }
+
+  /**
+   * Find an OAuth client that has not been disabled
+   * @param clientId Client ID
+   * @returns OAuth client, or null if it is unknown or disabled
+   */
+  async findActiveByClientId(
+    clientId: string,
+  ): Promise<OAuthClientDocument | null> {
+    return this.oauthClientModel.findOne({ clientId, disabledAt: null }).exec();
+  }
+
+  /**
+   * Disable an OAuth client
+   * Tokens already issued to the client stop working as well
+   * @param userId ID of the user disabling the client
+   * @param email Email of the user
+   * @param clientId Client ID
+   * @throws NotFoundException if no active client has this ID
+   */
+  async disable(
+    userId: string,
+    email: string,
+    clientId: string,
+  ): Promise<void> {
+    const client = await this.oauthClientModel
+      .findOneAndUpdate(
+        { clientId, disabledAt: null },
+        { $set: { disabledAt: new Date() } },
+        { new: true },
+      )
+      .exec();
+    if (!client) {
+      throw new NotFoundException(
+        this.i18n.t('translation.OAUTH.CLIENT_NOT_FOUND', {
+          lang: I18nContext.current()?.lang,
+        }),
+      );
+    }
+
+    await this.activityLogService.logEvent({
+      userId,
+      actionType: 'OAUTH_CLIENT_DISABLED',
+      username: email,
+      resource: { type: 'OAuthClient', id: clientId, displayName: client.name },
+    });
+  }
+
+  /**
+   * Check the credentials presented by a client and record their use
+   * @param clientId Client ID
+   * @param clientSecret Client secret
+   * @returns OAuth client, or null if it is unknown, disabled or the secret is wrong
+   */
+  async authenticate(
+    clientId: string,
+    clientSecret: string,
+  ): Promise<OAuthClientDocument | null> {
+    const client = await this.findActiveByClientId(clientId);
+    if (!client) {
+      return null;
+    }
+
+    const expected = Buffer.from(client.secretHash, 'hex');
+    const actual = Buffer.from(this.hashSecret(clientSecret), 'hex');
+    if (
+      expected.length !== actual.length ||
+      !timingSafeEqual(expected, actual)
+    ) {
+      return null;
+    }
+
+    await this.oauthClientModel
+      .updateOne({ _id: client._id }, { $set: { lastUsedAt: new Date() } })
+      .exec();
+    return client;
+  }
+
+  /**
+   * Compute the keyed hash stored for a client secret
+   * @param clientSecret Client secret
+   * @returns Hex encoded HMAC-SHA256
+   */
+  private hashSecret(clientSecret: string): string {
+    const secret =
+      this.configService.get<string>('OAUTH_CLIENT_SECRET_KEY') ??
+      this.configService.get<string>('JWT_ACCESS_SECRET', '');
+    return createHmac('sha256', secret).update(clientSecret).digest('hex');
+  }
+
+  /**
+   * Convert an OAuth client document to its public representation
+   * @param client OAuth client document
+   * @returns OAuth client without its secret hash
+   */
+  private toResponse(client: OAuthClientDocument): OAuthClientResponseDto {
+    return {
+      id: safeObjectIdToString(client._id),
+      clientId: client.clientId,
+      name: client.name,
+      scopes: client.scopes,
+      lastUsedAt: client.lastUsedAt,
+      createdAt: client.createdAt,
+    };
+  }
+}
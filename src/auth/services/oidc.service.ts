@@ -0,0 +1,526 @@
+import {
+  BadGatewayException,
+  Injectable,
+  Logger,
+  NotFoundException,
+  UnauthorizedException,
+} from '@nestjs/common';
+import { InjectModel } from '@nestjs/mongoose';
+import { ConfigService } from '@nestjs/config';
+import { JwtService, JwtVerifyOptions } from '@nestjs/jwt';
+import { Model } from 'mongoose';
+import {
+  createHash,
+  createPublicKey,
+  JsonWebKey,
+  randomBytes,
+  timingSafeEqual,
+} from 'crypto';
+import { I18nService, I18nContext } from 'nestjs-i18n';
+import { OidcLoginState, OidcLoginStateDocument } from '../schemas';
+import { OIDC_LOGIN_STATE_TTL } from '../constants';
+
+// JWT signature algorithm names, as accepted by JwtService.verify
+type Algorithm = NonNullable<JwtVerifyOptions['algorithms']>[number];
+
+/**
+ * Algorithms accepted for ID token signatures; `none` and HMAC are never accepted
+ */
+const ID_TOKEN_ALGORITHMS: Algorithm[] = [
+  'RS256',
+  'RS384',
+  'RS512',
+  'PS256',
+  'PS384',
+  'PS512',
+  'ES256',
+  'ES384',
+  'ES512',
+];
+
+/**
+ * Configuration of an OpenID Connect provider
+ */
+export interface OidcProviderConfig {
+  name: string;
+  issuer: string;
+  clientId: string;
+  clientSecret: string;
+  redirectUri: string;
+  scopes: string[];
+}
+
+/**
+ * Parameters the provider sends to the callback
+ */
+export interface OidcCallbackParams {
+  code?: string;
+  state?: string;
+  error?: string;
+  /** Hash of the state, from the cookie set in the browser that started the login */
+  stateHash?: string;
+}
+
+/**
+ * Login started with a provider
+ */
+export interface OidcAuthorizationRequest {
+  /** URL of the provider's authorization endpoint to redirect the user to */
+  url: string;
+  /** Hash of the state, to keep in the browser until the callback */
+  stateHash: string;
+}
+
+/**
+ * Claims of a validated ID token
+ */
+export interface OidcIdTokenClaims {
+  sub: string;
+  email?: string;
+  email_verified?: boolean;
+  name?: string;
+  [claim: string]: unknown;
+}
+
+/**
+ * Part of the provider metadata used for the login (OpenID Connect Discovery 1.0)
+ */
+interface OidcProviderMetadata {
+  issuer: string;
+  authorization_endpoint: string;
+  token_endpoint: string;
+  jwks_uri: string;
+}
+
+/**
+ * Service responsible for logins with external OpenID Connect providers
+ *
+ * Uses the authorization code flow with PKCE. Providers are listed in
+ * OIDC_PROVIDERS and configured with OIDC_<NAME>_ISSUER, _CLIENT_ID,
+ * _CLIENT_SECRET, _REDIRECT_URI and optionally _SCOPES.
+ */
+@Injectable()
+export class OidcService {
+  private readonly logger = new Logger(OidcService.name);
+  private readonly metadataCache = new Map<string, OidcProviderMetadata>();
+  private readonly jwksCache = new Map<string, JsonWebKey[]>();
+
+  constructor(
+    @InjectModel(OidcLoginState.name)
+    private oidcLoginStateModel: Model<OidcLoginStateDocument>,
+    private readonly configService: ConfigService,
+    private readonly jwtService: JwtService,
+    private readonly i18n: I18nService,
+  ) {}
+
+  /**
+   * Get the configuration of a provider
+   * @param name Provider name
+   * @returns Provider configuration
+   * @throws NotFoundException if the provider is not configured
+   */
+  getProvider(name: string): OidcProviderConfig {
+    const providerName = name.toLowerCase();
+    const enabled = this.configService
+      .get<string>('OIDC_PROVIDERS', '')
+      .split(',')
+      .map((provider) => provider.trim().toLowerCase())
+      .filter(Boolean);
+
+    const prefix = `OIDC_${providerName.toUpperCase()}_`;
+    const setting = (key: string) =>
+      this.configService.get<string>(`${prefix}${key}`);
+    const issuer = setting('ISSUER');
+    const clientId = setting('CLIENT_ID');
+    const clientSecret = setting('CLIENT_SECRET');
+    const redirectUri = setting('REDIRECT_URI');
+    if (
+      !enabled.includes(providerName) ||
+      !issuer ||
+      !clientId ||
+      !clientSecret ||
+      !redirectUri
+    ) {
+      throw new NotFoundException(
+        this.i18n.t('translation.OIDC.PROVIDER_NOT_FOUND', {
+          lang: I18nContext.current()?.lang,
+          args: { provider: name },
+        }),
+      );
+    }
+
+    return {
+      name: providerName,
+      issuer: issuer.replace(/\/+$/, ''),
+      clientId,
+      clientSecret,
+      redirectUri,
+      scopes: (setting('SCOPES') || 'openid email profile')
+        .split(/[\s,]+/)
+        .filter(Boolean),
+    };
+  }
+
+  /**
+   * Start a login: remember the state, nonce and PKCE verifier and build the
+   * URL of the provider's authorization endpoint
+   * @param providerName Provider name
+   * @returns URL to redirect the user to and hash of the state
+   */
+  async createAuthorizationUrl(
+    providerName: string,
+  ): Promise<OidcAuthorizationRequest> {
+    const provider = this.getProvider(providerName);
+    const metadata = await this.getMetadata(provider);
+
+    const state = randomBytes(32).toString('base64url');
+    const nonce = randomBytes(32).toString('base64url');
+    const codeVerifier = randomBytes(32).toString('base64url');
+    await this.oidcLoginStateModel.create({
+      state,
+      provider: provider.name,
+      nonce,
+      codeVerifier,
+      expiresAt: new Date(Date.now() + OIDC_LOGIN_STATE_TTL * 1000),
+    });
+
+    const scopes = provider.scopes.includes('openid')
+      ? provider.scopes
+      : ['openid', ...provider.scopes];
+    const url = new URL(metadata.authorization_endpoint);
+    url.searchParams.set('response_type', 'code');
+    url.searchParams.set('client_id', provider.clientId);
+    url.searchParams.set('redirect_uri', provider.redirectUri);
+    url.searchParams.set('scope', scopes.join(' '));
+    url.searchParams.set('state', state);
+    url.searchParams.set('nonce', nonce);
+    url.searchParams.set(
+      'code_challenge',
+      createHash('sha256').update(codeVerifier).digest('base64url'),
+    );
+    url.searchParams.set('code_challenge_method', 'S256');
+    return { url: url.toString(), stateHash: this.hashState(state) };
+  }
+
+  /**
+   * Finish a login: check the state, exchange the code and validate the ID token
+   * @param providerName Provider name
+   * @param params Parameters the provider sent to the callback
+   * @returns Claims of the ID token
+   * @throws UnauthorizedException if the login was refused or cannot be verified
+   */
+  async handleCallback(
+    providerName: string,
+    params: OidcCallbackParams,
+  ): Promise<OidcIdTokenClaims> {
+    const provider = this.getProvider(providerName);
+
+    // A callback reaching another browser than the one that started the
+    // login, e.g. a link forged by an attacker, is refused
+    if (
+      !params.state ||
+      !params.stateHash ||
+      !this.matchesStateHash(params.state, params.stateHash)
+    ) {
+      throw this.loginFailed('STATE_INVALID');
+    }
+
+    // The state is removed here, so a callback URL cannot be replayed
+    const loginState = params.state
+      ? await this.oidcLoginStateModel
+          .findOneAndDelete({
+            state: params.state,
+            provider: provider.name,
+            expiresAt: { $gt: new Date() },
+          })
+          .exec()
+      : null;
+    if (!loginState) {
+      throw this.loginFailed('STATE_INVALID');
+    }
+    if (params.error) {
+      throw this.loginFailed('PROVIDER_ERROR', { error: params.error });
+    }
+    if (!params.code) {
+      throw this.loginFailed('CODE_MISSING');
+    }
+
+    const metadata = await this.getMetadata(provider);
+    const idToken = await this.exchangeCode(
+      provider,
+      metadata,
+      params.code,
+      loginState.codeVerifier,
+    );
+    return this.verifyIdToken(provider, metadata, idToken, loginState.nonce);
+  }
+
+  /**
+   * Exchange an authorization code for the ID token
+   * The client authenticates with HTTP Basic (`client_secret_basic`)
+   * @param provider Provider configuration
+   * @param metadata Provider metadata
+   * @param code Authorization code
+   * @param codeVerifier PKCE code verifier
+   * @returns ID token
+   */
+  private async exchangeCode(
+    provider: OidcProviderConfig,
+    metadata: OidcProviderMetadata,
+    code: string,
+    codeVerifier: string,
+  ): Promise<string> {
+    const credentials = Buffer.from(
+      `${encodeURIComponent(provider.clientId)}:${encodeURIComponent(provider.clientSecret)}`,
+    ).toString('base64');
+
+    let response: Response;
+    try {
+      response = await fetch(metadata.token_endpoint, {
+        method: 'POST',
+        headers: {
+          Authorization: `Basic ${credentials}`,
+          'Content-Type': 'application/x-www-form-urlencoded',
+          Accept: 'application/json',
+        },
+        body: new URLSearchParams({
+          grant_type: 'authorization_code',
+          code,
+          redirect_uri: provider.redirectUri,
+          code_verifier: codeVerifier,
+        }),
+      });
+    } catch (error: unknown) {
+      throw this.providerUnavailable(provider, error);
+    }
+
+    const body = (await response.json().catch(() => ({}))) as {
+      id_token?: unknown;
+      error?: unknown;
+    };
+    if (!response.ok || typeof body.id_token !== 'string') {
+      this.logger.warn(
+        `Code exchange with ${provider.name} failed: ${response.status} ${typeof body.error === 'string' ? body.error : ''}`,
+      );
+      throw this.loginFailed('CODE_EXCHANGE_FAILED');
+    }
+    return body.id_token;
+  }
+
+  /**
+   * Validate an ID token (OpenID Connect Core 1.0, section 3.1.3.7)
+   * @param provider Provider configuration
+   * @param metadata Provider metadata
+   * @param idToken ID token
+   * @param nonce Nonce sent with the authorization request
+   * @returns Claims of the ID token
+   */
+  private async verifyIdToken(
+    provider: OidcProviderConfig,
+    metadata: OidcProviderMetadata,
+    idToken: string,
+    nonce: string,
+  ): Promise<OidcIdTokenClaims> {
+    const decoded = this.jwtService.decode<{
+      header?: { alg?: string; kid?: string };
+    } | null>(idToken, { complete: true });
+    const alg = decoded?.header?.alg as Algorithm | undefined;
+    if (!alg || !ID_TOKEN_ALGORITHMS.includes(alg)) {
+      throw this.loginFailed('ID_TOKEN_INVALID');
+    }
+
+    const key = await this.getSigningKey(
+      provider,
+      metadata.jwks_uri,
+      decoded?.header?.kid,
+    );
+    if (!key) {
+      throw this.loginFailed('ID_TOKEN_INVALID');
+    }
+
+    let claims: OidcIdTokenClaims & { nonce?: unknown; azp?: unknown };
+    try {
+      claims = this.jwtService.verify<OidcIdTokenClaims>(idToken, {
+        secret: createPublicKey({ key, format: 'jwk' })
+          .export({ type: 'spki', format: 'pem' })
+          .toString(),
+        algorithms: [alg],
+        issuer: metadata.issuer,
+        audience: provider.clientId,
+        clockTolerance: 30,
+      });
+    } catch {
+      throw this.loginFailed('ID_TOKEN_INVALID');
+    }
+
+    // With several audiences the token must have been issued to this client
+    const audiences = Array.isArray(claims.aud) ? claims.aud : [claims.aud];
+    if (
+      typeof claims.sub !== 'string' ||
+      typeof claims.exp !== 'number' ||
+      claims.nonce !== nonce ||
+      (audiences.length > 1 && claims.azp !== provider.clientId)
+    ) {
+      throw this.loginFailed('ID_TOKEN_INVALID');
+    }
+    return claims;
+  }
+
+  /**
+   * Find the provider key an ID token was signed with
+   * The key set is fetched again once when the key is unknown, in case the
+   * provider rotated its keys
+   * @param provider Provider configuration
+   * @param jwksUri URL of the provider's JWK set
+   * @param kid Key ID from the token header
+   * @returns Public key, or undefined if the provider has no matching key
+   */
+  private async getSigningKey(
+    provider: OidcProviderConfig,
+    jwksUri: string,
+    kid?: string,
+  ): Promise<JsonWebKey | undefined> {
+    const findKey = (keys: JsonWebKey[]) => {
+      const signingKeys = keys.filter((key) => key.use !== 'enc');
+      return kid
+        ? signingKeys.find((key) => key.kid === kid)
+        : signingKeys.length === 1
+          ? signingKeys[0]
+          : undefined;
+    };
+
+    const cached = this.jwksCache.get(jwksUri);
+    const cachedKey = cached && findKey(cached);
+    if (cachedKey) {
+      return cachedKey;
+    }
+
+    const { keys } = await this.fetchJson<{ keys?: JsonWebKey[] }>(
+      provider,
+      jwksUri,
+    );
+    this.jwksCache.set(jwksUri, Array.isArray(keys) ? keys : []);
+    return findKey(this.jwksCache.get(jwksUri) ?? []);
+  }
+
+  /**
+   * Get the provider metadata from its discovery document, once per provider
+   * @param provider Provider configuration
+   * @returns Provider metadata
+   */
+  private async getMetadata(
+    provider: OidcProviderConfig,
+  ): Promise<OidcProviderMetadata> {
+    const cached = this.metadataCache.get(provider.issuer);
+    if (cached) {
+      return cached;
+    }
+
+    const metadata = await this.fetchJson<Partial<OidcProviderMetadata>>(
+      provider,
+      `${provider.issuer}/.well-known/openid-configuration`,
+    );
+    // The issuer must be exactly the configured one (OpenID Connect Discovery 1.0, section 4.3)
+    if (
+      metadata.issuer?.replace(/\/+$/, '') !== provider.issuer ||
+      !metadata.authorization_endpoint ||
+      !metadata.token_endpoint ||
+      !metadata.jwks_uri
+    ) {
+      throw this.providerUnavailable(
+        provider,
+        new Error('Invalid discovery document'),
+      );
+    }
+
+    this.metadataCache.set(provider.issuer, metadata as OidcProviderMetadata);
+    return metadata as OidcProviderMetadata;
+  }
+
+  /**
+   * Fetch a JSON document from the provider
+   * @param provider Provider configuration
+   * @param url Document URL
+   * @returns Parsed document
+   */
+  private async fetchJson<T>(
+    provider: OidcProviderConfig,
+    url: string,
+  ): Promise<T> {
+    try {
+      const response = await fetch(url, {
+        headers: { Accept: 'application/json' },
+      });
+      if (!response.ok) {
+        throw new Error(`${url} returned ${response.status}`);
+      }
+      return (await response.json()) as T;
+    } catch (error: unknown) {
+      throw this.providerUnavailable(provider, error);
+    }
+  }
+
+  /**
+   * Log why a provider could not be reached and build the exception returned to the client
+   * @param provider Provider configuration
+   * @param error Cause
+   * @returns BadGatewayException
+   */
+  private providerUnavailable(
+    provider: OidcProviderConfig,
+    error: unknown,
+  ): BadGatewayException {
+    const err = error as Error;
+    this.logger.error(
+      `OpenID Connect provider ${provider.name} is unavailable: ${err.message}`,
+      err.stack,
+    );
+    return new BadGatewayException(
+      this.i18n.t('translation.OIDC.PROVIDER_UNAVAILABLE', {
+        lang: I18nContext.current()?.lang,
+        args: { provider: provider.name },
+      }),
+    );
+  }
+
+  /**
+   * Hash a login state, for the cookie binding the login to the browser
+   * @param state Login state
+   * @returns SHA-256 hash of the state, base64url-encoded
+   */
+  private hashState(state: string): string {
+    return createHash('sha256').update(state).digest('base64url');
+  }
+
+  /**
+   * Check a login state against the hash kept by the browser
+   * @param state Login state sent back by the provider
+   * @param stateHash Hash of the state from the cookie
+   * @returns Whether the hash belongs to the state
+   */
+  private matchesStateHash(state: string, stateHash: string): boolean {
+    const expected = Buffer.from(this.hashState(state));
+    const actual = Buffer.from(stateHash);
+    return (
+      expected.length === actual.length && timingSafeEqual(expected, actual)
+    );
+  }
+
+  /**
+   * Build the exception for a login that cannot be completed
+   * @param key Translation key of the message, under `OIDC`
+   * @param args Translation arguments
+   * @returns UnauthorizedException
+   */
+  private loginFailed(
+    key: string,
+    args?: Record<string, unknown>,
+  ): UnauthorizedException {
+    return new UnauthorizedException(
+      this.i18n.t(`translation.OIDC.${key}`, {
+        lang: I18nContext.current()?.lang,
+        args,
+      }),
+    );
+  }
+}
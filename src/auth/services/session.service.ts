@@ -0,0 +1,292 @@
+import { Injectable, NotFoundException } from '@nestjs/common';
+import { InjectModel } from '@nestjs/mongoose';
+import { ConfigService } from '@nestjs/config';
+import { Model, Types } from 'mongoose';
+import { ClsService } from 'nestjs-cls';
+import { I18nService, I18nContext } from 'nestjs-i18n';
+import { Session, SessionDocument } from '../schemas';
+import { SessionRevocationReason } from '../enums';
+import { SessionResponseDto } from '../dto';
+import { describeDevice } from '../utils';
+import { safeObjectIdToString } from '../../utils';
+
+/**
+ * Refresh token issued for a session
+ */
+export interface IssuedRefreshToken {
+  tokenId: string;
+  refreshTokenHash: string;
+}
+
+/**
+ * Stored session of a user, as included in their data export
+ */
+export interface SessionRecord
+  extends Omit<SessionResponseDto, 'current'>,
+    Pick<Session, 'revokedAt' | 'revokedReason'> {}
+
+/**
+ * Service responsible for per-device login sessions
+ */
+@Injectable()
+export class SessionService {
+  constructor(
+    @InjectModel(Session.name) private sessionModel: Model<SessionDocument>,
+    private readonly configService: ConfigService,
+    private readonly clsService: ClsService,
+    private readonly i18n: I18nService,
+  ) {}
+
+  /**
+   * Create a session for the device making the current request
+   * @param userId User ID
+   * @param familyId Token family ID
+   * @param token First refresh token of the family
+   * @returns Created session
+   */
+  async create(
+    userId: string,
+    familyId: string,
+    token: IssuedRefreshToken,
+  ): Promise<SessionDocument> {
+    const session = new this.sessionModel({
+      userId: new Types.ObjectId(userId),
+      familyId,
+      currentTokenId: token.tokenId,
+      refreshTokenHash: token.refreshTokenHash,
+      ...this.getClientInfo(),
+      lastUsedAt: new Date(),
+      expiresAt: this.getExpiryDate(),
+    });
+    return session.save();
+  }
+
+  /**
+   * Find a session by token family ID
+   * @param familyId Token family ID
+   * @returns Session or null if not found
+   */
+  async findByFamilyId(familyId: string): Promise<SessionDocument | null> {
+    return this.sessionModel.findOne({ familyId }).exec();
+  }
+
+  /**
+   * List the active sessions of a user, most recently used first
+   * @param userId User ID
+   * @param currentFamilyId Token family ID of the session making the request
+   * @returns Active sessions
+   */
+  async findActiveByUser(
+    userId: string,
+    currentFamilyId?: string,
+  ): Promise<SessionResponseDto[]> {
+    const sessions = await this.sessionModel
+      .find({
+        userId,
+        revokedAt: null,
+        expiresAt: { $gt: new Date() },
+      })
+      .sort({ lastUsedAt: -1 })
+      .exec();
+
+    return sessions.map((session) => ({
+      id: safeObjectIdToString(session._id),
+      device: session.device,
+      userAgent: session.userAgent,
+      ipAddress: session.ipAddress,
+      lastUsedAt: session.lastUsedAt,
+      createdAt: session.createdAt,
+      expiresAt: session.expiresAt,
+      current: session.familyId === currentFamilyId,
+    }));
+  }
+
+  /**
+   * Replace the current refresh token of a session
+   *
+   * The update only succeeds if `expectedTokenId` is still the current token,
+   * so two requests presenting the same token cannot both rotate it.
+   *
+   * @param familyId Token family ID
+   * @param expectedTokenId ID of the refresh token being exchanged
+   * @param token Newly issued refresh token
+   * @returns Updated session, or null if the token was already rotated or the session revoked
+   */
+  async rotate(
+    familyId: string,
+    expectedTokenId: string,
+    token: IssuedRefreshToken,
+  ): Promise<SessionDocument | null> {
+    return this.sessionModel
+      .findOneAndUpdate(
+        { familyId, currentTokenId: expectedTokenId, revokedAt: null },
+        {
+          $set: {
+            currentTokenId: token.tokenId,
+            refreshTokenHash: token.refreshTokenHash,
+            ...this.getClientInfo(),
+            lastUsedAt: new Date(),
+            expiresAt: this.getExpiryDate(),
+          },
+        },
+        { new: true },
+      )
+      .exec();
+  }
+
+  /**
+   * Revoke a session and every refresh token of its family
+   * @param familyId Token family ID
+   * @param reason Revocation reason
+   */
+  async revokeFamily(
+    familyId: string,
+    reason: SessionRevocationReason,
+  ): Promise<void> {
+    await this.sessionModel
+      .updateOne(
+        { familyId, revokedAt: null },
+        { $set: { revokedAt: new Date(), revokedReason: reason } },
+      )
+      .exec();
+  }
+
+  /**
+   * Revoke one session of a user
+   * @param userId User ID
+   * @param sessionId Session ID
+   * @param reason Revocation reason
+   * @throws NotFoundException if the user has no such active session
+   */
+  async revokeById(
+    userId: string,
+    sessionId: string,
+    reason: SessionRevocationReason,
+  ): Promise<void> {
+    const result = Types.ObjectId.isValid(sessionId)
+      ? await this.sessionModel
+          .updateOne(
+            {
+              _id: new Types.ObjectId(sessionId),
+              userId,
+              revokedAt: null,
+            },
+            { $set: { revokedAt: new Date(), revokedReason: reason } },
+          )
+          .exec()
+      : null;
+
+    if (!result?.matchedCount) {
+      throw new NotFoundException(
+        this.i18n.t('translation.SESSION.NOT_FOUND', {
+          lang: I18nContext.current()?.lang,
+          args: { id: sessionId },
+        }),
+      );
+    }
+  }
+
+  /**
+   * Revoke all active sessions of a user except one
+   * @param userId User ID
+   * @param keepFamilyId Token family ID of the session to keep
+   * @param reason Revocation reason
+   * @returns Number of revoked sessions
+   */
+  async revokeOthers(
+    userId: string,
+    keepFamilyId: string,
+    reason: SessionRevocationReason,
+  ): Promise<number> {
+    const result = await this.sessionModel
+      .updateMany(
+        {
+          userId,
+          familyId: { $ne: keepFamilyId },
+          revokedAt: null,
+        },
+        { $set: { revokedAt: new Date(), revokedReason: reason } },
+      )
+      .exec();
+    return result.modifiedCount;
+  }
+
+  /**
+   * Revoke all active sessions of a user
+   * @param userId User ID
+   * @param reason Revocation reason
+   * @returns Number of revoked sessions
+   */
+  async revokeAllForUser(
+    userId: string,
+    reason: SessionRevocationReason,
+  ): Promise<number> {
+    const result = await this.sessionModel
+      .updateMany(
+        { userId, revokedAt: null },
+        { $set: { revokedAt: new Date(), revokedReason: reason } },
+      )
+      .exec();
+    return result.modifiedCount;
+  }
+
+  /**
+   * List every stored session of a user, including revoked ones, oldest first
+   * Refresh token details are left out
+   * @param userId User ID
+   * @returns Sessions
+   */
+  async findAllByUser(userId: string): Promise<SessionRecord[]> {
+    const sessions = await this.sessionModel
+      .find({ userId })
+      .sort({ createdAt: 1 })
+      .exec();
+
+    return sessions.map((session) => ({
+      id: safeObjectIdToString(session._id),
+      device: session.device,
+      userAgent: session.userAgent,
+      ipAddress: session.ipAddress,
+      lastUsedAt: session.lastUsedAt,
+      createdAt: session.createdAt,
+      expiresAt: session.expiresAt,
+      revokedAt: session.revokedAt,
+      revokedReason: session.revokedReason,
+    }));
+  }
+
+  /**
+   * Delete every session of a user, e.g. when their data is erased
+   * @param userId User ID
+   * @returns Number of deleted sessions
+   */
+  async deleteAllForUser(userId: string): Promise<number> {
+    const result = await this.sessionModel.deleteMany({ userId }).exec();
+    return result.deletedCount;
+  }
+
+  /**
+   * Read the client details of the current request
+   * @returns IP address, user agent and device label
+   */
+  private getClientInfo(): Pick<Session, 'ipAddress' | 'userAgent' | 'device'> {
+    const userAgent = this.clsService.get<string | undefined>('userAgent');
+    return {
+      ipAddress: this.clsService.get<string | undefined>('ipAddress'),
+      userAgent,
+      device: describeDevice(userAgent),
+    };
+  }
+
+  /**
+   * Compute when a refresh token issued now expires
+   * @returns Expiry date
+   */
+  private getExpiryDate(): Date {
+    const lifetimeSeconds = parseInt(
+      this.configService.get<string>('JWT_REFRESH_EXPIRATION_TIME', '604800'),
+      10,
+    );
+    return new Date(Date.now() + lifetimeSeconds * 1000);
+  }
+}
@@ -0,0 +1,35 @@
+import { Inject, Injectable } from '@nestjs/common';
+import { TOKEN_DENYLIST_STORE, TokenDenylistStore } from '../interfaces';
+
+/**
+ * Service responsible for revoking individual access tokens before they expire
+ */
+@Injectable()
+export class TokenRevocationService {
+  constructor(
+    @Inject(TOKEN_DENYLIST_STORE)
+    private readonly denylistStore: TokenDenylistStore,
+  ) {}
+
+  /**
+   * Revoke an access token
+   * @param jti Token ID (`jti` claim)
+   * @param exp Expiry of the token in seconds since the epoch (`exp` claim)
+   */
+  async revoke(jti: string, exp: number): Promise<void> {
+    const expiresAt = new Date(exp * 1000);
+    if (expiresAt.getTime() <= Date.now()) {
+      return; // Already unusable
+    }
+    await this.denylistStore.add(jti, expiresAt);
+  }
+
+  /**
+   * Check whether an access token has been revoked
+   * @param jti Token ID (`jti` claim)
+   * @returns True if the token has been revoked
+   */
+  async isRevoked(jti: string): Promise<boolean> {
+    return this.denylistStore.has(jti);
+  }
+}
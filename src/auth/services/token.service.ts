@@ -1,56 +1,217 @@
 import { Injectable } from '@nestjs/common';
+import { randomUUID } from 'crypto';
 import { JwtService } from '@nestjs/jwt';
 import { ConfigService } from '@nestjs/config';
+import { I18nService, I18nContext } from 'nestjs-i18n';
 import { UserDocument } from '../../users';
+import { JwtKeyService } from './jwt-key.service';
+
+/**
+ * Session a refresh token is issued for
+ */
+export interface RefreshTokenSession {
+  familyId: string;
+  tokenId: string;
+}
+
+/**
+ * Claims of a refresh token
+ */
+export interface RefreshTokenPayload {
+  username: string;
+  sub: string;
+  tokenType: 'refresh';
+  fam: string;
+  jti: string;
+}
+
+/**
+ * Claims of a token proving that a login passed the password check and
+ * still needs the second factor
+ */
+export interface MfaTokenPayload {
+  username: string;
+  sub: string;
+  tokenType: 'mfa';
+}
+
+/**
+ * Claims of an access token issued to an OAuth client with the
+ * client credentials grant
+ */
+export interface ClientAccessTokenPayload {
+  sub: string;
+  client_id: string;
+  scope: string;
+  jti: string;
+}
+
+/**
+ * Real user behind an impersonation token, carried in the `act` claim (RFC 8693)
+ */
+export interface ImpersonationActor {
+  userId: string;
+  email: string;
+}
 
 /**
  * Service responsible for JWT token operations
  */
 @Injectable()
 export class TokenService {
+  private readonly mfaTokenSecret: string;
+
   constructor(
     private readonly jwtService: JwtService,
     private readonly configService: ConfigService,
-  ) {}
+    private readonly jwtKeyService: JwtKeyService,
+    i18n: I18nService,
+  ) {
+    // Only an HS256 access token secret may double as the MFA token secret
+    const mfaTokenSecret =
+      configService.get<string>('MFA_TOKEN_SECRET') ||
+      (jwtKeyService.getAlgorithm() === 'HS256'
+        ? configService.get<string>('JWT_ACCESS_SECRET')
+        : undefined);
+    if (!mfaTokenSecret) {
+      throw new Error(
+        i18n.t('translation.AUTH.MFA_TOKEN_SECRET_NOT_DEFINED', {
+          lang: I18nContext.current()?.lang,
+        }),
+      );
+    }
+    this.mfaTokenSecret = mfaTokenSecret;
+  }
 
   /**
    * Generate an access token for a user
    *
-   * The access token is signed with JWT_ACCESS_SECRET and expires after
-   * JWT_ACCESS_EXPIRATION_TIME (default: 3600 seconds / 1 hour)
+   * The access token is signed with the key of JwtKeyService (JWT_ACCESS_SECRET
+   * unless an asymmetric JWT_ALGORITHM is configured) and expires after
+   * JWT_ACCESS_EXPIRATION_TIME (default: 3600 seconds / 1 hour).
+   * The user's roles are included in the `roles` claim and the token family
+   * of the session in the `sid` claim. Each token gets a unique `jti` so it
+   * can be revoked individually, and carries the user's token version in
+   * `ver` so that all tokens of a user can be revoked at once. The time the
+   * user last proved their identity is kept in `auth_time` (OpenID Connect).
+   *
+   * @param user User document
+   * @param sessionId Token family ID of the session
+   * @param authTime When the user last entered their credentials, defaults to now
+   * @returns Access token
+   */
+  generateAccessToken(
+    user: UserDocument,
+    sessionId: string,
+    authTime: Date = new Date(),
+  ): string {
+    return this.signAccessToken(
+      user,
+      sessionId,
+      authTime,
+      parseInt(
+        this.configService.get<string>('JWT_ACCESS_EXPIRATION_TIME', '3600'),
+        10,
+      ),
+    );
+  }
+
+  /**
+   * Generate an elevated access token for a user who just re-authenticated
+   *
+   * The token is a regular access token of the session with `auth_time` set
+   * to now, so that it passes RecentAuthGuard. It expires after
+   * ELEVATED_TOKEN_TTL (default: 300 seconds).
    *
    * @param user User document
+   * @param sessionId Token family ID of the session
    * @returns Access token
    */
-  generateAccessToken(user: UserDocument): string {
+  generateElevatedAccessToken(user: UserDocument, sessionId: string): string {
+    return this.signAccessToken(
+      user,
+      sessionId,
+      new Date(),
+      this.getElevatedTokenExpiresIn(),
+    );
+  }
+
+  /**
+   * Get the lifetime of elevated access tokens
+   * @returns Lifetime in seconds
+   */
+  getElevatedTokenExpiresIn(): number {
+    return parseInt(
+      this.configService.get<string>('ELEVATED_TOKEN_TTL', '300'),
+      10,
+    );
+  }
+
+  /**
+   * Generate an access token that lets an administrator act as a user
+   *
+   * The token carries the claims of a regular access token for the
+   * impersonated user, without a session, and the real actor in the `act`
+   * claim. It expires after IMPERSONATION_TOKEN_TTL (default: 900 seconds)
+   * and cannot be refreshed.
+   *
+   * @param user Impersonated user
+   * @param actor Administrator doing the impersonation
+   * @returns Access token
+   */
+  generateImpersonationToken(
+    user: Pick<UserDocument, 'email' | 'roles' | 'tokenVersion'> & {
+      _id: unknown;
+    },
+    actor: ImpersonationActor,
+  ): string {
     const payload = {
       username: user.email,
       sub: user._id,
+      roles: user.roles ?? [],
+      ver: user.tokenVersion ?? 0,
+      jti: randomUUID(),
+      act: { sub: actor.userId, username: actor.email },
     };
 
     return this.jwtService.sign(payload, {
-      secret: this.configService.get<string>('JWT_ACCESS_SECRET'),
-      expiresIn: parseInt(
-        this.configService.get<string>('JWT_ACCESS_EXPIRATION_TIME', '3600'),
-        10,
-      ),
+      ...this.jwtKeyService.getSignOptions(),
+      expiresIn: this.getImpersonationTokenExpiresIn(),
     });
   }
 
+  /**
+   * Get the lifetime of impersonation tokens
+   * @returns Lifetime in seconds
+   */
+  getImpersonationTokenExpiresIn(): number {
+    return parseInt(
+      this.configService.get<string>('IMPERSONATION_TOKEN_TTL', '900'),
+      10,
+    );
+  }
+
   /**
    * Generate a refresh token for a user
    *
    * The refresh token is signed with JWT_REFRESH_SECRET and expires after
-   * JWT_REFRESH_EXPIRATION_TIME (default: 7 days)
+   * JWT_REFRESH_EXPIRATION_TIME (default: 7 days).
+   * The token family is carried in the `fam` claim and the token ID in `jti`.
    *
    * @param user User document
+   * @param session Session the token is issued for
    * @returns Refresh token
    */
-  generateRefreshToken(user: UserDocument): string {
+  generateRefreshToken(
+    user: UserDocument,
+    session: RefreshTokenSession,
+  ): string {
     const payload = {
       username: user.email,
       sub: user._id,
       tokenType: 'refresh',
+      fam: session.familyId,
+      jti: session.tokenId,
     };
 
     return this.jwtService.sign(payload, {
@@ -62,19 +223,95 @@ export class TokenService {
     });
   }
 
+  /**
+   * Generate an MFA token for a user whose password was checked
+   *
+   * The MFA token is signed with MFA_TOKEN_SECRET (default: JWT_ACCESS_SECRET
+   * with HS256)
+   * and expires after MFA_TOKEN_EXPIRATION_TIME (default: 300 seconds).
+   * The `tokenType` claim keeps it from being accepted as an access token.
+   *
+   * @param user User document
+   * @returns MFA token
+   */
+  generateMfaToken(user: { _id: unknown; email: string }): string {
+    const payload = {
+      username: user.email,
+      sub: user._id,
+      tokenType: 'mfa',
+    };
+
+    return this.jwtService.sign(payload, {
+      secret: this.mfaTokenSecret,
+      expiresIn: this.getMfaTokenExpiresIn(),
+    });
+  }
+
+  /**
+   * Get the lifetime of MFA tokens
+   * @returns Lifetime in seconds
+   */
+  getMfaTokenExpiresIn(): number {
+    return parseInt(
+      this.configService.get<string>('MFA_TOKEN_EXPIRATION_TIME', '300'),
+      10,
+    );
+  }
+
+  /**
+   * Generate an access token for an OAuth client
+   *
+   * The token is signed with the same key as user access tokens and
+   * expires after OAUTH_TOKEN_EXPIRATION_TIME (default: 3600 seconds).
+   * The `client_id` claim marks it as issued to a service rather than a
+   * user, and the granted scopes are space-delimited in `scope` (RFC 8693).
+   *
+   * @param clientId Client ID
+   * @param scopes Granted scopes
+   * @returns Access token
+   */
+  generateClientAccessToken(clientId: string, scopes: string[]): string {
+    const payload: ClientAccessTokenPayload = {
+      sub: clientId,
+      client_id: clientId,
+      scope: scopes.join(' '),
+      jti: randomUUID(),
+    };
+
+    return this.jwtService.sign(payload, {
+      ...this.jwtKeyService.getSignOptions(),
+      expiresIn: this.getClientTokenExpiresIn(),
+    });
+  }
+
+  /**
+   * Get the lifetime of access tokens issued to OAuth clients
+   * @returns Lifetime in seconds
+   */
+  getClientTokenExpiresIn(): number {
+    return parseInt(
+      this.configService.get<string>('OAUTH_TOKEN_EXPIRATION_TIME', '3600'),
+      10,
+    );
+  }
+
   /**
    * Verify an access token
    *
-   * Verifies the token using JWT_ACCESS_SECRET
+   * Verifies the token with the key named by its `kid` header, or with
+   * JWT_ACCESS_SECRET in HS256 mode
    *
    * @param token Access token
    * @returns Decoded token payload or null if invalid
    */
   verifyAccessToken(token: string): any {
+    const verifyOptions = this.jwtKeyService.getVerifyOptions(token);
+    if (!verifyOptions) {
+      return null;
+    }
+
     try {
-      return this.jwtService.verify(token, {
-        secret: this.configService.get<string>('JWT_ACCESS_SECRET'),
-      });
+      return this.jwtService.verify(token, verifyOptions);
     } catch (_error) {
       return null;
     }
@@ -88,13 +325,63 @@ export class TokenService {
    * @param token Refresh token
    * @returns Decoded token payload or null if invalid
    */
-  verifyRefreshToken(token: string): any {
+  verifyRefreshToken(token: string): RefreshTokenPayload | null {
     try {
-      return this.jwtService.verify(token, {
+      return this.jwtService.verify<RefreshTokenPayload>(token, {
         secret: this.configService.get<string>('JWT_REFRESH_SECRET'),
       });
     } catch (_error) {
       return null;
     }
   }
+
+  /**
+   * Verify an MFA token
+   *
+   * Verifies the token using MFA_TOKEN_SECRET (default: JWT_ACCESS_SECRET
+   * with HS256)
+   *
+   * @param token MFA token
+   * @returns Decoded token payload or null if invalid
+   */
+  verifyMfaToken(token: string): MfaTokenPayload | null {
+    try {
+      const payload = this.jwtService.verify<MfaTokenPayload>(token, {
+        secret: this.mfaTokenSecret,
+      });
+      return payload.tokenType === 'mfa' ? payload : null;
+    } catch (_error) {
+      return null;
+    }
+  }
+
+  /**
+   * Sign an access token of a session
+   * @param user User document
+   * @param sessionId Token family ID of the session
+   * @param authTime When the user last entered their credentials
+   * @param expiresIn Lifetime in seconds
+   * @returns Access token
+   */
+  private signAccessToken(
+    user: UserDocument,
+    sessionId: string,
+    authTime: Date,
+    expiresIn: number,
+  ): string {
+    const payload = {
+      username: user.email,
+      sub: user._id,
+      roles: user.roles ?? [],
+      sid: sessionId,
+      ver: user.tokenVersion ?? 0,
+      jti: randomUUID(),
+      auth_time: Math.floor(authTime.getTime() / 1000),
+    };
+
+    return this.jwtService.sign(payload, {
+      ...this.jwtKeyService.getSignOptions(),
+      expiresIn,
+    });
+  }
 }
@@ -0,0 +1,123 @@
+import { Injectable } from '@nestjs/common';
+import { InjectModel } from '@nestjs/mongoose';
+import { ConfigService } from '@nestjs/config';
+import { Model, Types } from 'mongoose';
+import { createHmac, randomBytes } from 'crypto';
+import { VerificationToken, VerificationTokenDocument } from '../schemas';
+import { VerificationTokenPurpose } from '../enums';
+import { safeObjectIdToString } from '../../utils';
+
+/**
+ * Service responsible for single-use, expiring tokens sent to users
+ */
+@Injectable()
+export class VerificationTokenService {
+  constructor(
+    @InjectModel(VerificationToken.name)
+    private verificationTokenModel: Model<VerificationTokenDocument>,
+    private readonly configService: ConfigService,
+  ) {}
+
+  /**
+   * Issue a new token
+   * @param userId User ID
+   * @param purpose What the token may be used for
+   * @param ttlSeconds How long the token stays valid
+   * @returns Token to send to the user
+   */
+  async issue(
+    userId: string,
+    purpose: VerificationTokenPurpose,
+    ttlSeconds: number,
+  ): Promise<string> {
+    const token = randomBytes(32).toString('base64url');
+    await this.verificationTokenModel.create({
+      userId: new Types.ObjectId(userId),
+      purpose,
+      tokenHash: this.hashToken(token),
+      expiresAt: new Date(Date.now() + ttlSeconds * 1000),
+    });
+    return token;
+  }
+
+  /**
+   * Look up a token without using it
+   * @param token Token received from the user
+   * @param purpose What the token is being used for
+   * @returns ID of the user the token was issued to, or null if the token is invalid
+   */
+  async peek(
+    token: string,
+    purpose: VerificationTokenPurpose,
+  ): Promise<string | null> {
+    const found = await this.verificationTokenModel
+      .findOne({
+        tokenHash: this.hashToken(token),
+        purpose,
+        usedAt: null,
+        expiresAt: { $gt: new Date() },
+      })
+      .exec();
+    return found ? safeObjectIdToString(found.userId) : null;
+  }
+
+  /**
+   * Use a token
+   * The token is marked as used atomically, so it can only be consumed once
+   * @param token Token received from the user
+   * @param purpose What the token is being used for
+   * @returns ID of the user the token was issued to, or null if the token is invalid
+   */
+  async consume(
+    token: string,
+    purpose: VerificationTokenPurpose,
+  ): Promise<string | null> {
+    const consumed = await this.verificationTokenModel
+      .findOneAndUpdate(
+        {
+          tokenHash: this.hashToken(token),
+          purpose,
+          usedAt: null,
+          expiresAt: { $gt: new Date() },
+        },
+        { $set: { usedAt: new Date() } },
+        { new: true },
+      )
+      .exec();
+    return consumed ? safeObjectIdToString(consumed.userId) : null;
+  }
+
+  /**
+   * Invalidate the unused tokens of a user
+   * @param userId User ID
+   * @param purpose Purpose of the tokens to invalidate
+   */
+  async invalidateAll(
+    userId: string,
+    purpose: VerificationTokenPurpose,
+  ): Promise<void> {
+    await this.verificationTokenModel
+      .deleteMany({ userId, purpose, usedAt: null })
+      .exec();
+  }
+
+  /**
+   * Delete every token of a user, used or not, e.g. when their data is erased
+   * @param userId User ID
+   */
+  async deleteAllForUser(userId: string): Promise<void> {
+    await this.verificationTokenModel.deleteMany({ userId }).exec();
+  }
+
+  /**
+   * Compute the keyed hash stored for a token
+   * @param token Token
+   * @returns Hex encoded HMAC-SHA256
+   */
+  private hashToken(token: string): string {
+    const secret =
+      this.configService.get<string>('VERIFICATION_TOKEN_SECRET') ??
+      this.configService.get<string>('JWT_ACCESS_SECRET', '');
+    return createHmac('sha256', secret).update(token).digest('hex');
+  }
+}
@@ -0,0 +1,51 @@
+import { Injectable } from '@nestjs/common';
+import { TokenDenylistStore } from '../interfaces';
+
+/**
+ * Denylist kept in process memory
+ * Suitable for tests and single-instance deployments; entries are lost on restart
+ */
+@Injectable()
+export class InMemoryTokenDenylistStore implements TokenDenylistStore {
+  private readonly entries = new Map<string, number>();
+
+  /**
+   * Add a token ID to the denylist
+   * @param jti Token ID
+   * @param expiresAt When the token expires
+   */
+  add(jti: string, expiresAt: Date): Promise<void> {
+    this.purgeExpired();
+    this.entries.set(jti, expiresAt.getTime());
+    return Promise.resolve();
+  }
+
+  /**
+   * Check whether a token ID is on the denylist
+   * @param jti Token ID
+   * @returns True if the token has been revoked and has not expired yet
+   */
+  has(jti: string): Promise<boolean> {
+    const expiresAt = this.entries.get(jti);
+    if (expiresAt === undefined) {
+      return Promise.resolve(false);
+    }
+    if (expiresAt <= Date.now()) {
+      this.entries.delete(jti);
+      return Promise.resolve(false);
+    }
+    return Promise.resolve(true);
+  }
+
+  /**
+   * Remove entries whose tokens have expired
+   */
+  private purgeExpired(): void {
+    const now = Date.now();
+    for (const [jti, expiresAt] of this.entries) {
+      if (expiresAt <= now) {
+        this.entries.delete(jti);
+      }
+    }
+  }
+}
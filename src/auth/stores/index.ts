@@ -0,0 +1,2 @@
+export * from './in-memory-token-denylist.store';
+export * from './mongo-token-denylist.store';
@@ -0,0 +1,45 @@
+import { Injectable } from '@nestjs/common';
+import { InjectModel } from '@nestjs/mongoose';
+import { Model } from 'mongoose';
+import { RevokedToken, RevokedTokenDocument } from '../schemas';
+import { TokenDenylistStore } from '../interfaces';
+
+/**
+ * Denylist stored in a MongoDB collection with a TTL index
+ * Shared by all application instances
+ */
+@Injectable()
+export class MongoTokenDenylistStore implements TokenDenylistStore {
+  constructor(
+    @InjectModel(RevokedToken.name)
+    private revokedTokenModel: Model<RevokedTokenDocument>,
+  ) {}
+
+  /**
+   * Add a token ID to the denylist
+   * @param jti Token ID
+   * @param expiresAt When the token expires
+   */
+  async add(jti: string, expiresAt: Date): Promise<void> {
+    await this.revokedTokenModel
+      .updateOne(
+        { jti },
+        { $setOnInsert: { jti, expiresAt } },
+        { upsert: true },
+      )
+      .exec();
+  }
+
+  /**
+   * Check whether a token ID is on the denylist
+   * The TTL monitor only runs periodically, so the expiry is checked as well
+   * @param jti Token ID
+   * @returns True if the token has been revoked and has not expired yet
+   */
+  async has(jti: string): Promise<boolean> {
+    const entry = await this.revokedTokenModel
+      .exists({ jti, expiresAt: { $gt: new Date() } })
+      .exec();
+    return entry !== null;
+  }
+}
@@ -0,0 +1,83 @@
+// src/auth/strategies/api-key.strategy.ts
+import { Strategy } from 'passport-custom';
+import { PassportStrategy } from '@nestjs/passport';
+import { Injectable, UnauthorizedException } from '@nestjs/common';
+import { Request } from 'express';
+import { I18nService, I18nContext } from 'nestjs-i18n';
+import { UsersService, UserStatus } from '../../users';
+import { ApiKeyService } from '../services';
+import { RequestUtils } from '../../activity-log/utils/request.util';
+import { safeObjectIdToString } from '../../utils';
+
+/**
+ * Authenticates machine clients with an API key sent as
+ * `Authorization: ApiKey <key>` or in the `X-API-Key` header
+ */
+@Injectable()
+export class ApiKeyStrategy extends PassportStrategy(Strategy, 'api-key') {
+  constructor(
+    private apiKeyService: ApiKeyService,
+    private usersService: UsersService,
+    private readonly i18n: I18nService,
+  ) {
+    super();
+  }
+
+  async validate(request: Request): Promise<{
+    principalType: 'user';
+    userId: string;
+    email: string;
+    name: string;
+    roles: string[];
+    apiKeyId: string;
+    scopes: string[];
+  } | null> {
+    const key = this.extractKey(request);
+    if (!key) {
+      return null; // Let the next strategy try, or answer 401
+    }
+
+    const apiKey = await this.apiKeyService.authenticate(
+      key,
+      RequestUtils.getClientIp(request),
+    );
+    const user = apiKey
+      ? await this.usersService.findById(safeObjectIdToString(apiKey.userId))
+      : null;
+    if (!apiKey || !user || user.status === UserStatus.SUSPENDED) {
+      throw new UnauthorizedException(
+        this.i18n.t('translation.API_KEY.INVALID', {
+          lang: I18nContext.current()?.lang,
+        }),
+      );
+    }
+
+    // Roles are read from the database so that a revoked role takes effect immediately
+    return {
+      principalType: 'user',
+      userId: safeObjectIdToString(apiKey.userId),
+      email: user.email,
+      name: user.name,
+      roles: user.roles ?? [],
+      apiKeyId: safeObjectIdToString(apiKey._id),
+      scopes: apiKey.scopes,
+    };
+  }
+
+  /**
+   * Read the API key from the request headers
+   * @param request Express request
+   * @returns API key, or undefined if the request carries none
+   */
+  private extractKey(request: Request): string | undefined {
+    const header = request.headers['x-api-key'];
+    if (typeof header === 'string' && header.length > 0) {
+      return header.trim();
+    }
+
+    const [scheme, value] = (request.headers.authorization ?? '').split(' ');
+    return scheme?.toLowerCase() === 'apikey' && value
+      ? value.trim()
+      : undefined;
+  }
+}
@@ -1,3 +1,5 @@
 export * from './jwt.strategy';
 export * from './jwt-refresh.strategy';
 export * from './local.strategy';
+export * from './api-key.strategy';
+export * from './oauth-client.strategy';
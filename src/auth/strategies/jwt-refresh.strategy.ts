@@ -10,14 +10,7 @@ import { Request } from 'express';
 import { ConfigService } from '@nestjs/config';
 import { UsersService } from '../../users'; // Import UsersService
 import { I18nService, I18nContext } from 'nestjs-i18n';
-import * as bcrypt from 'bcrypt';
-
-interface RefreshTokenPayload {
-  sub: string; // User ID is stored in 'sub' claim
-  username: string; // Email is stored in 'username' claim
-  tokenType?: string;
-  // May include iat, exp
-}
+import { RefreshTokenPayload } from '../services';
 
 @Injectable()
 export class JwtRefreshTokenStrategy extends PassportStrategy(
@@ -67,36 +60,16 @@ export class JwtRefreshTokenStrategy extends PassportStrategy(
     }
 
     const user = await this.usersService.findUserByIdForAuth(payload.sub); // Get full user using 'sub' claim
-    // Type guard to ensure user is properly typed
-    if (!user || !user.hashedRefreshToken) {
+    if (!user) {
       throw new ForbiddenException(
         this.i18n.t('translation.AUTH.ACCESS_DENIED', {
           lang: I18nContext.current()?.lang,
-          args: { reason: 'User or stored token not found' },
+          args: { reason: 'User not found' },
         }),
       );
     }
 
-    // Use properly typed bcrypt compare
-    let isRefreshTokenMatching = false;
-    try {
-      // With our type definition, this is now properly typed
-      isRefreshTokenMatching = await bcrypt.compare(
-        refreshTokenFromBody,
-        user.hashedRefreshToken,
-      );
-    } catch (_error) {
-      console.error('Error comparing refresh tokens:', _error);
-      isRefreshTokenMatching = false;
-    }
-    if (!isRefreshTokenMatching) {
-      throw new ForbiddenException(
-        this.i18n.t('translation.AUTH.ACCESS_DENIED', {
-          lang: I18nContext.current()?.lang,
-          args: { reason: 'Refresh token mismatch' },
-        }),
-      );
-    }
+    // The token is checked against its session when AuthService rotates it
     // Return userId and refreshToken for AuthService to use
     // Return a properly typed object
     return {
@@ -2,38 +2,69 @@
 import { Injectable, UnauthorizedException } from '@nestjs/common';
 import { PassportStrategy } from '@nestjs/passport';
 import { ExtractJwt, Strategy } from 'passport-jwt';
-import { ConfigService } from '@nestjs/config';
-import { UsersService } from '../../users'; // Import UsersService
+import { UsersService, UserStatus } from '../../users'; // Import UsersService
 import { I18nService, I18nContext } from 'nestjs-i18n';
+import {
+  JwtKeyService,
+  SessionService,
+  TokenRevocationService,
+} from '../services';
 
 @Injectable()
 export class JwtStrategy extends PassportStrategy(Strategy, 'jwt') {
   constructor(
-    private configService: ConfigService,
+    jwtKeyService: JwtKeyService,
     private usersService: UsersService, // Inject UsersService
+    private tokenRevocationService: TokenRevocationService,
+    private readonly sessionService: SessionService,
     private readonly i18n: I18nService,
   ) {
-    const secretOrKey = configService.get<string>('JWT_ACCESS_SECRET');
-    if (!secretOrKey) {
-      throw new Error(
-        i18n.t('translation.AUTH.JWT_ACCESS_SECRET_NOT_DEFINED', {
-          lang: I18nContext.current()?.lang,
-        }),
-      );
-    }
-
+    // Keys and algorithm come from JwtKeyService so that rotated keys keep verifying
     super({
       jwtFromRequest: ExtractJwt.fromAuthHeaderAsBearerToken(),
       ignoreExpiration: false, // Important: This ensures expired tokens are rejected
-      secretOrKey,
+      secretOrKeyProvider: jwtKeyService.secretOrKeyProvider,
+      algorithms: [jwtKeyService.getAlgorithm()],
     });
   }
 
   async validate(payload: {
     sub: string;
     username: string;
+    sid?: string;
+    jti?: string;
+    ver?: number;
+    exp?: number;
+    act?: { sub?: string; username?: string };
+    auth_time?: number;
     [key: string]: unknown;
-  }): Promise<{ userId: string; email: string; name: string }> {
+  }): Promise<{
+    principalType: 'user';
+    userId: string;
+    email: string;
+    name: string;
+    roles: string[];
+    sessionId?: string;
+    tokenId?: string;
+    tokenExpiresAt?: number;
+    authTime?: number;
+    impersonatorId?: string;
+    impersonatorEmail?: string;
+  } | null> {
+    // MFA and refresh tokens carry a token type and must not be used as access tokens
+    if (payload.tokenType !== undefined) {
+      throw new UnauthorizedException(
+        this.i18n.t('translation.AUTH.ACCESS_DENIED', {
+          lang: I18nContext.current()?.lang,
+        }),
+      );
+    }
+
+    // Tokens issued to OAuth clients are handled by OAuthClientStrategy
+    if (payload.client_id !== undefined) {
+      return null;
+    }
+
     // Check if the user exists (important if the user was deleted after the token was issued)
     const userId = payload.sub; // Use 'sub' from JWT payload which contains the user ID
     const user = await this.usersService.findById(userId);
@@ -44,11 +75,67 @@ export class JwtStrategy extends PassportStrategy(Strategy, 'jwt') {
         }),
       );
     }
+    if (user.status === UserStatus.SUSPENDED) {
+      throw new UnauthorizedException(
+        this.i18n.t('translation.AUTH.ACCOUNT_SUSPENDED', {
+          lang: I18nContext.current()?.lang,
+        }),
+      );
+    }
+
+    // Reject tokens revoked individually (logout) or all at once (log out everywhere)
+    const isRevoked =
+      (payload.ver ?? 0) !== (user.tokenVersion ?? 0) ||
+      (payload.jti !== undefined &&
+        (await this.tokenRevocationService.isRevoked(payload.jti)));
+    if (isRevoked) {
+      throw new UnauthorizedException(
+        this.i18n.t('translation.AUTH.TOKEN_REVOKED', {
+          lang: I18nContext.current()?.lang,
+        }),
+      );
+    }
+
+    // Revoking a session ends the access tokens issued for it too
+    if (payload.sid !== undefined) {
+      const session = await this.sessionService.findByFamilyId(payload.sid);
+      if (!session || session.revokedAt) {
+        throw new UnauthorizedException(
+          this.i18n.t('translation.AUTH.TOKEN_REVOKED', {
+            lang: I18nContext.current()?.lang,
+          }),
+        );
+      }
+    }
+
+    // Impersonation tokens stop working as soon as the real actor is deleted or suspended
+    const impersonatorId = payload.act?.sub;
+    if (impersonatorId !== undefined) {
+      const impersonator = await this.usersService.findById(impersonatorId);
+      if (!impersonator || impersonator.status === UserStatus.SUSPENDED) {
+        throw new UnauthorizedException(
+          this.i18n.t('translation.AUTH.ACCESS_DENIED', {
+            lang: I18nContext.current()?.lang,
+          }),
+        );
+      }
+    }
+
     // Return basic user information, or the entire 'user' object if needed in req.user
+    // Roles are read from the database so that a revoked role takes effect immediately,
+    // and the email too, so that tokens issued before an email change carry the new one
     return {
+      principalType: 'user',
       userId: userId,
-      email: payload.username, // Use 'username' from JWT payload which contains the email
+      email: user.email,
       name: user.name,
+      roles: user.roles ?? [],
+      sessionId: payload.sid, // Token family of the session the token was issued for
+      tokenId: payload.jti,
+      tokenExpiresAt: payload.exp,
+      authTime: payload.auth_time, // When the user last entered their credentials
+      impersonatorId, // Set when an administrator is acting as the user
+      impersonatorEmail: payload.act?.username,
     };
   }
 }
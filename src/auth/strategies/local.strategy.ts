@@ -3,8 +3,10 @@ import { Strategy } from 'passport-local';
 import { PassportStrategy } from '@nestjs/passport';
 import { Injectable, UnauthorizedException } from '@nestjs/common';
 import { AuthService } from '../auth.service';
-import { UserDocument } from '../../users';
+import { UserDocument, UserStatus } from '../../users';
 import { I18nService, I18nContext } from 'nestjs-i18n';
+import { Request } from 'express';
+import { RequestUtils } from '../../activity-log/utils/request.util';
 
 @Injectable()
 export class LocalStrategy extends PassportStrategy(Strategy) {
@@ -16,15 +18,21 @@ export class LocalStrategy extends PassportStrategy(Strategy) {
     super({
       usernameField: 'email', // Field name used as username, default is 'username'
       // passwordField: 'password' // Default is 'password'
+      passReqToCallback: true, // The client IP address is needed for login throttling
     });
   }
 
   async validate(
+    request: Request,
     email: string,
     pass: string,
   ): Promise<Omit<UserDocument, 'password_hash' | 'hashedRefreshToken'>> {
     // AuthService.validateUser has returned a user without password_hash or thrown UnauthorizedException
-    const user = await this.authService.validateUser(email, pass);
+    const user = await this.authService.validateUser(
+      email,
+      pass,
+      RequestUtils.getClientIp(request),
+    );
     if (!user) {
       // AuthService.validateUser has already thrown an error, but just to be sure
       throw new UnauthorizedException(
@@ -33,6 +41,14 @@ export class LocalStrategy extends PassportStrategy(Strategy) {
         }),
       );
     }
+    // Checked after the password so that suspended accounts cannot be probed
+    if (user.status === UserStatus.SUSPENDED) {
+      throw new UnauthorizedException(
+        this.i18n.t('translation.AUTH.ACCOUNT_SUSPENDED', {
+          lang: I18nContext.current()?.lang,
+        }),
+      );
+    }
     return user; // This user object will be assigned to req.user
   }
 }
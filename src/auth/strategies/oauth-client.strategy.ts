@@ -0,0 +1,64 @@
+// src/auth/strategies/oauth-client.strategy.ts
+import { Injectable, UnauthorizedException } from '@nestjs/common';
+import { PassportStrategy } from '@nestjs/passport';
+import { ExtractJwt, Strategy } from 'passport-jwt';
+import { I18nService, I18nContext } from 'nestjs-i18n';
+import { JwtKeyService, OAuthClientService } from '../services';
+import { ServicePrincipal } from '../interfaces';
+
+/**
+ * Authenticates services with an access token obtained through the OAuth2
+ * client credentials grant
+ */
+@Injectable()
+export class OAuthClientStrategy extends PassportStrategy(
+  Strategy,
+  'oauth-client',
+) {
+  constructor(
+    jwtKeyService: JwtKeyService,
+    private oauthClientService: OAuthClientService,
+    private readonly i18n: I18nService,
+  ) {
+    super({
+      jwtFromRequest: ExtractJwt.fromAuthHeaderAsBearerToken(),
+      ignoreExpiration: false,
+      secretOrKeyProvider: jwtKeyService.secretOrKeyProvider,
+      algorithms: [jwtKeyService.getAlgorithm()],
+    });
+  }
+
+  async validate(payload: {
+    client_id?: string;
+    scope?: string;
+    [key: string]: unknown;
+  }): Promise<ServicePrincipal | null> {
+    if (typeof payload.client_id !== 'string') {
+      return null; // A user's access token; let the next strategy try
+    }
+
+    const client = await this.oauthClientService.findActiveByClientId(
+      payload.client_id,
+    );
+    if (!client) {
+      // Disabling the client also invalidates the tokens issued to it
+      throw new UnauthorizedException(
+        this.i18n.t('translation.OAUTH.TOKEN_INVALID', {
+          lang: I18nContext.current()?.lang,
+        }),
+      );
+    }
+
+    // Scopes removed from the client since the token was issued no longer apply
+    const scopes = (payload.scope ?? '')
+      .split(' ')
+      .filter((scope) => scope && client.scopes.includes(scope));
+
+    return {
+      principalType: 'service',
+      clientId: client.clientId,
+      name: client.name,
+      scopes,
+    };
+  }
+}
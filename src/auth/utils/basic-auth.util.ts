@@ -0,0 +1,42 @@
+/**
+ * Read client credentials sent with HTTP Basic authentication
+ *
+ * Per RFC 6749, section 2.3.1, the client ID and secret are form-encoded
+ * before being base64 encoded, so both are decoded again here.
+ *
+ * @param authorization - Authorization header value
+ * @returns The client ID and secret, or null if the header is not valid Basic credentials
+ */
+export function parseBasicCredentials(
+  authorization?: string,
+): { clientId: string; clientSecret: string } | null {
+  const [scheme, encoded] = (authorization ?? '').split(' ');
+  if (scheme?.toLowerCase() !== 'basic' || !encoded) {
+    return null;
+  }
+
+  const decoded = Buffer.from(encoded, 'base64').toString('utf8');
+  const separator = decoded.indexOf(':');
+  if (separator === -1) {
+    return null;
+  }
+
+  try {
+    return {
+      clientId: decodeFormComponent(decoded.slice(0, separator)),
+      clientSecret: decodeFormComponent(decoded.slice(separator + 1)),
+    };
+  } catch {
+    return null; // Malformed percent-encoding
+  }
+}
+
+/**
+ * Decode an application/x-www-form-urlencoded value
+ *
+ * @param value - Encoded value
+ * @returns Decoded value
+ */
+function decodeFormComponent(value: string): string {
+  return decodeURIComponent(value.replace(/\+/g, ' '));
+}
@@ -0,0 +1,3 @@
+export * from './user-agent.util';
+export * from './totp.util';
+export * from './basic-auth.util';
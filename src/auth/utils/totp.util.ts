@@ -0,0 +1,160 @@
+import { createHmac, randomBytes, timingSafeEqual } from 'crypto';
+
+const BASE32_ALPHABET = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ234567';
+
+/**
+ * Length of a TOTP time step in seconds
+ */
+export const TOTP_PERIOD = 30;
+
+/**
+ * Number of digits of a TOTP code
+ */
+export const TOTP_DIGITS = 6;
+
+/**
+ * Encode bytes as RFC 4648 base32 without padding
+ *
+ * @param buffer - Bytes to encode
+ * @returns Base32 string
+ */
+export function base32Encode(buffer: Buffer): string {
+  let bits = 0;
+  let value = 0;
+  let output = '';
+
+  for (const byte of buffer) {
+    value = (value << 8) | byte;
+    bits += 8;
+    while (bits >= 5) {
+      output += BASE32_ALPHABET[(value >>> (bits - 5)) & 31];
+      bits -= 5;
+    }
+  }
+  if (bits > 0) {
+    output += BASE32_ALPHABET[(value << (5 - bits)) & 31];
+  }
+
+  return output;
+}
+
+/**
+ * Decode an RFC 4648 base32 string, ignoring case, spaces and padding
+ *
+ * @param input - Base32 string
+ * @returns Decoded bytes
+ */
+export function base32Decode(input: string): Buffer {
+  const cleaned = input.toUpperCase().replace(/[\s=]/g, '');
+  let bits = 0;
+  let value = 0;
+  const bytes: number[] = [];
+
+  for (const char of cleaned) {
+    const index = BASE32_ALPHABET.indexOf(char);
+    if (index === -1) {
+      throw new Error(`Invalid base32 character: ${char}`);
+    }
+    value = (value << 5) | index;
+    bits += 5;
+    if (bits >= 8) {
+      bytes.push((value >>> (bits - 8)) & 255);
+      bits -= 8;
+    }
+  }
+
+  return Buffer.from(bytes);
+}
+
+/**
+ * Generate a random TOTP secret
+ *
+ * @returns Base32 encoded 160-bit secret, the size recommended by RFC 4226
+ */
+export function generateTotpSecret(): string {
+  return base32Encode(randomBytes(20));
+}
+
+/**
+ * Get the TOTP time step of a moment
+ *
+ * @param time - Unix time in milliseconds
+ * @returns Time step counter
+ */
+export function getTotpCounter(time: number = Date.now()): number {
+  return Math.floor(time / 1000 / TOTP_PERIOD);
+}
+
+/**
+ * Compute the TOTP code of a time step (RFC 6238, HMAC-SHA1)
+ *
+ * @param secret - Base32 encoded secret
+ * @param counter - Time step counter
+ * @returns Code padded to TOTP_DIGITS digits
+ */
+export function generateTotp(secret: string, counter: number): string {
+  const message = Buffer.alloc(8);
+  message.writeBigUInt64BE(BigInt(counter));
+  const hmac = createHmac('sha1', base32Decode(secret))
+    .update(message)
+    .digest();
+
+  // Dynamic truncation (RFC 4226, section 5.3)
+  const offset = hmac[hmac.length - 1] & 0xf;
+  const binary = hmac.readUInt32BE(offset) & 0x7fffffff;
+  return (binary % 10 ** TOTP_DIGITS).toString().padStart(TOTP_DIGITS, '0');
+}
+
+/**
+ * Find the time step a TOTP code belongs to
+ * Codes of the adjacent time steps are accepted to tolerate clock drift
+ *
+ * @param secret - Base32 encoded secret
+ * @param code - Code entered by the user
+ * @param window - Number of time steps accepted before and after the current one
+ * @param time - Unix time in milliseconds
+ * @returns Matching time step counter, or null if the code is invalid
+ */
+export function findTotpCounter(
+  secret: string,
+  code: string,
+  window = 1,
+  time: number = Date.now(),
+): number | null {
+  if (!/^\d+$/.test(code) || code.length !== TOTP_DIGITS) {
+    return null;
+  }
+
+  const current = getTotpCounter(time);
+  for (let counter = current - window; counter <= current + window; counter++) {
+    const expected = generateTotp(secret, counter);
+    if (timingSafeEqual(Buffer.from(expected), Buffer.from(code))) {
+      return counter;
+    }
+  }
+  return null;
+}
+
+/**
+ * Build the `otpauth://` URI understood by authenticator apps
+ *
+ * @param issuer - Name of the service shown in the app
+ * @param account - Account name shown in the app, usually the email
+ * @param secret - Base32 encoded secret
+ * @returns Key URI
+ */
+export function buildOtpauthUri(
+  issuer: string,
+  account: string,
+  secret: string,
+): string {
+  const label = `${encodeURIComponent(issuer)}:${encodeURIComponent(account)}`;
+  const params = new URLSearchParams({
+    secret,
+    issuer,
+    algorithm: 'SHA1',
+    digits: String(TOTP_DIGITS),
+    period: String(TOTP_PERIOD),
+  });
+  return `otpauth://totp/${label}?${params.toString()}`;
+}
@@ -23,6 +23,7 @@ interface MockRequest {
 interface MockResponse {
   status: jest.Mock;
   json: jest.Mock;
+  setHeader: jest.Mock;
 }
 
 // Define a more specific type for the HTTP context
@@ -48,6 +49,7 @@ function createMockContext(url = '/api/test', method = 'GET'): ArgumentsHost {
   const mockResponse: MockResponse = {
     status: statusMock,
     json: jsonMock,
+    setHeader: jest.fn(),
   };
 
   // Create the HTTP context with proper typing
@@ -170,6 +172,55 @@ describe('GlobalExceptionFilter', () => {
       );
     });
 
+    it('should expose the retry delay of a throttled request', () => {
+      // Arrange
+      const exception = new HttpException(
+        { message: 'Too many attempts', retryAfter: 120 },
+        HttpStatus.TOO_MANY_REQUESTS,
+      );
+      const mockContext = createMockContext('/api/auth/login', 'POST');
+      const response = mockContext.switchToHttp().getResponse<MockResponse>();
+
+      // Act
+      filter.catch(exception, mockContext);
+
+      // Assert
+      expect(response.setHeader).toHaveBeenCalledWith('Retry-After', '120');
+      expect(response.json).toHaveBeenCalledWith(
+        expect.objectContaining({
+          statusCode: HttpStatus.TOO_MANY_REQUESTS,
+          message: 'Too many attempts',
+          error: 'Too Many Requests',
+          retryAfter: 120,
+        }),
+      );
+    });
+
+    it('should expose the error code of an exception', () => {
+      // Arrange
+      const exception = new HttpException(
+        {
+          message: 'Please confirm your identity again to continue.',
+          code: 'REAUTHENTICATION_REQUIRED',
+        },
+        HttpStatus.FORBIDDEN,
+      );
+      const mockContext = createMockContext('/api/auth/api-keys', 'POST');
+      const response = mockContext.switchToHttp().getResponse<MockResponse>();
+
+      // Act
+      filter.catch(exception, mockContext);
+
+      // Assert
+      expect(response.json).toHaveBeenCalledWith(
+        expect.objectContaining({
+          statusCode: HttpStatus.FORBIDDEN,
+          error: 'Forbidden',
+          code: 'REAUTHENTICATION_REQUIRED',
+        }),
+      );
+    });
+
     it('should handle NotFoundException', () => {
       // Arrange
       const exception = new NotFoundException('Resource not found');
@@ -0,0 +1,61 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { ExecutionContext, ForbiddenException } from '@nestjs/common';
+import { I18nService, I18nContext } from 'nestjs-i18n';
+import { NoImpersonationGuard } from '../../guards/no-impersonation.guard';
+import { createMockI18nService } from '../test-utils';
+
+describe('NoImpersonationGuard', () => {
+  let guard: NoImpersonationGuard;
+
+  const createContext = (user?: Record<string, unknown>) =>
+    ({
+      switchToHttp: jest.fn().mockReturnValue({
+        getRequest: jest.fn().mockReturnValue({ user }),
+      }),
+    }) as unknown as ExecutionContext;
+
+  beforeEach(async () => {
+    jest
+      .spyOn(I18nContext, 'current')
+      .mockReturnValue({ lang: 'en' } as I18nContext<unknown>);
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        NoImpersonationGuard,
+        {
+          provide: I18nService,
+          useValue: createMockI18nService(),
+        },
+      ],
+    }).compile();
+
+    guard = module.get<NoImpersonationGuard>(NoImpersonationGuard);
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('should allow users acting for themselves', () => {
+    // Act
+    const result = guard.canActivate(createContext({ userId: 'user-id' }));
+
+    // Assert
+    expect(result).toBe(true);
+  });
+
+  it('should throw ForbiddenException while a user is impersonated', () => {
+    // Arrange
+    const context = createContext({
+      userId: 'user-id',
+      impersonatorId: 'admin-id',
+    });
+
+    // Act & Assert
+    expect(() => guard.canActivate(context)).toThrow(
+      new ForbiddenException(
+        'translated:translation.AUTH.IMPERSONATION_FORBIDDEN',
+      ),
+    );
+  });
+});
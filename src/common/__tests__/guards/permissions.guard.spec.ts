@@ -0,0 +1,221 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { ExecutionContext, ForbiddenException } from '@nestjs/common';
+import { Reflector } from '@nestjs/core';
+import { ClsService } from 'nestjs-cls';
+import { I18nService, I18nContext } from 'nestjs-i18n';
+import {
+  PermissionsGuard,
+  CLS_PERMISSIONS_KEY,
+} from '../../guards/permissions.guard';
+import { PERMISSIONS_RESOLVER } from '../../interfaces';
+import { createMockClsService, createMockI18nService } from '../test-utils';
+
+describe('PermissionsGuard', () => {
+  let guard: PermissionsGuard;
+  let reflector: Reflector;
+  let clsService: ClsService;
+
+  const mockPermissionsResolver = {
+    resolvePermissions: jest.fn(),
+  };
+
+  const createContext = (user?: Record<string, unknown>) =>
+    ({
+      getHandler: jest.fn(),
+      getClass: jest.fn(),
+      switchToHttp: jest.fn().mockReturnValue({
+        getRequest: jest.fn().mockReturnValue({ user }),
+      }),
+    }) as unknown as ExecutionContext;
+
+  beforeEach(async () => {
+    jest
+      .spyOn(I18nContext, 'current')
+      .mockReturnValue({ lang: 'en' } as I18nContext<unknown>);
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        PermissionsGuard,
+        Reflector,
+        {
+          provide: ClsService,
+          useValue: createMockClsService(),
+        },
+        {
+          provide: PERMISSIONS_RESOLVER,
+          useValue: mockPermissionsResolver,
+        },
+        {
+          provide: I18nService,
+          useValue: createMockI18nService(),
+        },
+      ],
+    }).compile();
+
+    guard = module.get<PermissionsGuard>(PermissionsGuard);
+    reflector = module.get<Reflector>(Reflector);
+    clsService = module.get<ClsService>(ClsService);
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('should be defined', () => {
+    expect(guard).toBeDefined();
+  });
+
+  it('should allow access when no permissions are required', async () => {
+    // Arrange
+    jest.spyOn(reflector, 'getAllAndOverride').mockReturnValue(undefined);
+
+    // Act
+    const result = await guard.canActivate(createContext());
+
+    // Assert
+    expect(result).toBe(true);
+    expect(mockPermissionsResolver.resolvePermissions).not.toHaveBeenCalled();
+  });
+
+  it('should throw ForbiddenException when there is no user', async () => {
+    // Arrange
+    jest.spyOn(reflector, 'getAllAndOverride').mockReturnValue(['users:read']);
+
+    // Act & Assert
+    await expect(guard.canActivate(createContext())).rejects.toThrow(
+      ForbiddenException,
+    );
+  });
+
+  it('should allow access when all permissions are granted and cache them', async () => {
+    // Arrange
+    jest
+      .spyOn(reflector, 'getAllAndOverride')
+      .mockReturnValue(['users:read', 'users:delete']);
+    mockPermissionsResolver.resolvePermissions.mockResolvedValue([
+      'users:read',
+      'users:delete',
+    ]);
+
+    // Act
+    const result = await guard.canActivate(
+      createContext({ userId: 'user-id', roles: ['support'] }),
+    );
+
+    // Assert
+    expect(result).toBe(true);
+    expect(mockPermissionsResolver.resolvePermissions).toHaveBeenCalledWith([
+      'support',
+    ]);
+    expect(clsService.get(CLS_PERMISSIONS_KEY)).toEqual([
+      'users:read',
+      'users:delete',
+    ]);
+  });
+
+  it('should reuse the permissions cached for the current request', async () => {
+    // Arrange
+    jest.spyOn(reflector, 'getAllAndOverride').mockReturnValue(['users:read']);
+    clsService.set(CLS_PERMISSIONS_KEY, ['users:read']);
+
+    // Act
+    const result = await guard.canActivate(
+      createContext({ userId: 'user-id', roles: ['support'] }),
+    );
+
+    // Assert
+    expect(result).toBe(true);
+    expect(mockPermissionsResolver.resolvePermissions).not.toHaveBeenCalled();
+  });
+
+  it('should honour resource and global wildcards', async () => {
+    // Arrange
+    jest
+      .spyOn(reflector, 'getAllAndOverride')
+      .mockReturnValue(['activity-logs:export']);
+    mockPermissionsResolver.resolvePermissions.mockResolvedValue([
+      'activity-logs:*',
+    ]);
+
+    // Act
+    const result = await guard.canActivate(
+      createContext({ userId: 'user-id', roles: ['auditor'] }),
+    );
+
+    // Assert
+    expect(result).toBe(true);
+  });
+
+  it('should throw ForbiddenException when a permission is missing', async () => {
+    // Arrange
+    jest
+      .spyOn(reflector, 'getAllAndOverride')
+      .mockReturnValue(['users:read', 'users:delete']);
+    mockPermissionsResolver.resolvePermissions.mockResolvedValue([
+      'users:read',
+    ]);
+
+    // Act & Assert
+    await expect(
+      guard.canActivate(createContext({ userId: 'user-id', roles: ['user'] })),
+    ).rejects.toThrow(ForbiddenException);
+  });
+
+  it('should limit API keys to the permissions in their scopes', async () => {
+    // Arrange
+    jest
+      .spyOn(reflector, 'getAllAndOverride')
+      .mockReturnValue(['users:delete']);
+    mockPermissionsResolver.resolvePermissions.mockResolvedValue(['*']);
+
+    // Act & Assert
+    await expect(
+      guard.canActivate(
+        createContext({
+          userId: 'user-id',
+          roles: ['admin'],
+          scopes: ['users:read'],
+        }),
+      ),
+    ).rejects.toThrow(ForbiddenException);
+  });
+
+  it('should allow API keys whose scopes and roles both grant the permission', async () => {
+    // Arrange
+    jest.spyOn(reflector, 'getAllAndOverride').mockReturnValue(['users:read']);
+    mockPermissionsResolver.resolvePermissions.mockResolvedValue(['users:*']);
+
+    // Act
+    const result = await guard.canActivate(
+      createContext({
+        userId: 'user-id',
+        roles: ['support'],
+        scopes: ['users:read'],
+      }),
+    );
+
+    // Assert
+    expect(result).toBe(true);
+  });
+
+  it('should grant service principals exactly the scopes of their token', async () => {
+    // Arrange
+    jest.spyOn(reflector, 'getAllAndOverride').mockReturnValue(['users:read']);
+    const context = (scopes: string[]) =>
+      createContext({
+        principalType: 'service',
+        clientId: 'client-id',
+        scopes,
+      });
+
+    // Act
+    const result = await guard.canActivate(context(['users:read']));
+
+    // Assert
+    expect(result).toBe(true);
+    expect(mockPermissionsResolver.resolvePermissions).not.toHaveBeenCalled();
+    await expect(guard.canActivate(context(['roles:read']))).rejects.toThrow(
+      ForbiddenException,
+    );
+  });
+});
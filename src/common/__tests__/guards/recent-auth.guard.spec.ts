@@ -0,0 +1,143 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { ExecutionContext, ForbiddenException } from '@nestjs/common';
+import { Reflector } from '@nestjs/core';
+import { I18nService, I18nContext } from 'nestjs-i18n';
+import {
+  RecentAuthGuard,
+  REAUTHENTICATION_REQUIRED,
+  INTERACTIVE_LOGIN_REQUIRED,
+} from '../../guards/recent-auth.guard';
+import { createMockI18nService } from '../test-utils';
+
+describe('RecentAuthGuard', () => {
+  let guard: RecentAuthGuard;
+  let reflector: Reflector;
+
+  const now = () => Math.floor(Date.now() / 1000);
+
+  const createContext = (user?: Record<string, unknown>) =>
+    ({
+      getHandler: jest.fn(),
+      getClass: jest.fn(),
+      switchToHttp: jest.fn().mockReturnValue({
+        getRequest: jest.fn().mockReturnValue({ user }),
+      }),
+    }) as unknown as ExecutionContext;
+
+  beforeEach(async () => {
+    jest
+      .spyOn(I18nContext, 'current')
+      .mockReturnValue({ lang: 'en' } as I18nContext<unknown>);
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        RecentAuthGuard,
+        Reflector,
+        {
+          provide: I18nService,
+          useValue: createMockI18nService(),
+        },
+      ],
+    }).compile();
+
+    guard = module.get<RecentAuthGuard>(RecentAuthGuard);
+    reflector = module.get<Reflector>(Reflector);
+    jest.spyOn(reflector, 'getAllAndOverride').mockReturnValue(300);
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('should allow access when no recent authentication is required', () => {
+    // Arrange
+    jest.spyOn(reflector, 'getAllAndOverride').mockReturnValue(undefined);
+
+    // Act
+    const result = guard.canActivate(createContext({ userId: 'user-id' }));
+
+    // Assert
+    expect(result).toBe(true);
+  });
+
+  it('should allow a user who authenticated recently enough', () => {
+    // Act
+    const result = guard.canActivate(
+      createContext({ userId: 'user-id', authTime: now() - 60 }),
+    );
+
+    // Assert
+    expect(result).toBe(true);
+  });
+
+  it('should ask a user who authenticated too long ago to re-authenticate', () => {
+    // Arrange
+    const context = createContext({
+      userId: 'user-id',
+      authTime: now() - 301,
+    });
+
+    // Act & Assert
+    let error: unknown;
+    try {
+      guard.canActivate(context);
+    } catch (e) {
+      error = e;
+    }
+    expect(error).toBeInstanceOf(ForbiddenException);
+    expect((error as ForbiddenException).getResponse()).toEqual({
+      message: 'translated:translation.AUTH.REAUTHENTICATION_REQUIRED',
+      code: REAUTHENTICATION_REQUIRED,
+    });
+  });
+
+  it('should ask for re-authentication when the token has no authentication time', () => {
+    // Act & Assert
+    expect(() =>
+      guard.canActivate(createContext({ userId: 'user-id' })),
+    ).toThrow(ForbiddenException);
+  });
+
+  it('should deny API keys, whatever their scopes', () => {
+    // Arrange
+    const context = createContext({
+      userId: 'user-id',
+      apiKeyId: 'api-key-id',
+      authTime: now(),
+    });
+
+    // Act & Assert
+    let error: unknown;
+    try {
+      guard.canActivate(context);
+    } catch (e) {
+      error = e;
+    }
+    expect(error).toBeInstanceOf(ForbiddenException);
+    expect((error as ForbiddenException).getResponse()).toEqual({
+      message: 'translated:translation.AUTH.INTERACTIVE_LOGIN_REQUIRED',
+      code: INTERACTIVE_LOGIN_REQUIRED,
+    });
+  });
+
+  it('should deny OAuth clients', () => {
+    // Act & Assert
+    expect(() =>
+      guard.canActivate(
+        createContext({ principalType: 'service', clientId: 'client-id' }),
+      ),
+    ).toThrow(ForbiddenException);
+  });
+
+  it('should leave API keys and OAuth clients alone on other routes', () => {
+    // Arrange
+    jest.spyOn(reflector, 'getAllAndOverride').mockReturnValue(undefined);
+
+    // Act & Assert
+    expect(
+      guard.canActivate(
+        createContext({ userId: 'user-id', apiKeyId: 'api-key-id' }),
+      ),
+    ).toBe(true);
+  });
+});
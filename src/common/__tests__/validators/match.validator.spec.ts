@@ -0,0 +1,43 @@
+import { validate } from 'class-validator';
+import { plainToInstance } from 'class-transformer';
+import { Match } from '../../validators/match.validator';
+
+class TestDto {
+  password: string;
+
+  @Match('password', { message: 'Passwords do not match' })
+  password_confirmation: string;
+}
+
+describe('Match', () => {
+  it('should accept a value equal to the related property', async () => {
+    // Arrange
+    const dto = plainToInstance(TestDto, {
+      password: 'password123',
+      password_confirmation: 'password123',
+    });
+
+    // Act
+    const errors = await validate(dto);
+
+    // Assert
+    expect(errors).toHaveLength(0);
+  });
+
+  it('should reject a value different from the related property', async () => {
+    // Arrange
+    const dto = plainToInstance(TestDto, {
+      password: 'password123',
+      password_confirmation: 'password124',
+    });
+
+    // Act
+    const errors = await validate(dto);
+
+    // Assert
+    expect(errors).toHaveLength(1);
+    expect(errors[0].constraints).toEqual({
+      match: 'Passwords do not match',
+    });
+  });
+});
@@ -1,4 +1,6 @@
 export * from './public.decorator';
 export * from './roles.decorator';
+export * from './permissions.decorator';
 export * from './user.decorator';
 export * from './api-pagination.decorator';
+export * from './recent-auth.decorator';
@@ -0,0 +1,14 @@
+import { SetMetadata } from '@nestjs/common';
+
+/**
+ * Key for the permissions metadata
+ */
+export const PERMISSIONS_KEY = 'permissions';
+
+/**
+ * Decorator to specify the permissions required for a route
+ * All listed permissions must be granted
+ * @param permissions Array of required permissions
+ */
+export const RequirePermissions = (...permissions: string[]) =>
+  SetMetadata(PERMISSIONS_KEY, permissions);
@@ -0,0 +1,14 @@
+import { SetMetadata } from '@nestjs/common';
+
+/**
+ * Key for the recent authentication metadata
+ */
+export const RECENT_AUTH_KEY = 'recentAuth';
+
+/**
+ * Decorator to require that the user entered their credentials recently
+ * Checked by RecentAuthGuard against the `auth_time` claim of the access token
+ * @param maxAgeSeconds Maximum age of the authentication in seconds
+ */
+export const RequireRecentAuth = (maxAgeSeconds: number) =>
+  SetMetadata(RECENT_AUTH_KEY, maxAgeSeconds);
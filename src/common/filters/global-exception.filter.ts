@@ -44,6 +44,8 @@ export class GlobalExceptionFilter implements ExceptionFilter {
     let message = 'Internal server error';
     let error = 'Internal Server Error';
     let errorDetails: null | string[] = null;
+    let retryAfter: number | null = null;
+    let code: string | null = null;
 
     // Handle different types of exceptions
     if (exception instanceof HttpException) {
@@ -63,6 +65,16 @@ export class GlobalExceptionFilter implements ExceptionFilter {
           error = exceptionObj.error as string;
         }
 
+        // Seconds the client has to wait before retrying, e.g. after a lockout
+        if (typeof exceptionObj.retryAfter === 'number') {
+          retryAfter = exceptionObj.retryAfter;
+        }
+
+        // Machine-readable reason clients can act on, e.g. to prompt for re-authentication
+        if (typeof exceptionObj.code === 'string') {
+          code = exceptionObj.code;
+        }
+
         // Check for validation errors
         if (exceptionObj.errors) {
           errorDetails = exceptionObj.errors as string[];
@@ -144,6 +156,15 @@ export class GlobalExceptionFilter implements ExceptionFilter {
       responseBody['details'] = errorDetails;
     }
 
+    if (code !== null) {
+      responseBody['code'] = code;
+    }
+
+    if (retryAfter !== null) {
+      responseBody['retryAfter'] = retryAfter;
+      response.setHeader('Retry-After', String(retryAfter));
+    }
+
     // Add stack trace in development mode
     if (this.isDevelopment && exception instanceof Error) {
       responseBody['stack'] = exception.stack;
@@ -172,6 +193,8 @@ export class GlobalExceptionFilter implements ExceptionFilter {
         return 'Conflict';
       case HttpStatus.UNPROCESSABLE_ENTITY:
         return 'Unprocessable Entity';
+      case HttpStatus.TOO_MANY_REQUESTS:
+        return 'Too Many Requests';
       case HttpStatus.INTERNAL_SERVER_ERROR:
         return 'Internal Server Error';
       default:
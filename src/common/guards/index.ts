@@ -1,2 +1,5 @@
 export * from './roles.guard';
+export * from './permissions.guard';
 export * from './jwt-auth.guard';
+export * from './no-impersonation.guard';
+export * from './recent-auth.guard';
@@ -0,0 +1,44 @@
+import {
+  Injectable,
+  CanActivate,
+  ExecutionContext,
+  ForbiddenException,
+} from '@nestjs/common';
+import { I18nService, I18nContext } from 'nestjs-i18n';
+
+// Type for a user that may be impersonated by an administrator
+type PossiblyImpersonatedUser = {
+  impersonatorId?: string;
+  [key: string]: unknown;
+};
+
+/**
+ * Guard refusing sensitive actions, such as changing the password or the
+ * second factor, while an administrator is impersonating the user
+ * Use after the authentication guard
+ */
+@Injectable()
+export class NoImpersonationGuard implements CanActivate {
+  constructor(private readonly i18n: I18nService) {}
+
+  /**
+   * Check that the request is not made with an impersonation token
+   * @param context Execution context
+   * @returns True if the user is acting for themselves
+   */
+  canActivate(context: ExecutionContext): boolean {
+    const request = context
+      .switchToHttp()
+      .getRequest<Request & { user?: PossiblyImpersonatedUser }>();
+
+    if (request.user?.impersonatorId) {
+      throw new ForbiddenException(
+        this.i18n.t('translation.AUTH.IMPERSONATION_FORBIDDEN', {
+          lang: I18nContext.current()?.lang,
+        }),
+      );
+    }
+
+    return true;
+  }
+}
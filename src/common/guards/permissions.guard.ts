@@ -0,0 +1,120 @@
+import {
+  Injectable,
+  CanActivate,
+  ExecutionContext,
+  ForbiddenException,
+  Inject,
+} from '@nestjs/common';
+import { Reflector } from '@nestjs/core';
+import { ClsService } from 'nestjs-cls';
+import { I18nService, I18nContext } from 'nestjs-i18n';
+import { PERMISSIONS_KEY } from '../decorators';
+import { PERMISSIONS_RESOLVER, PermissionsResolver } from '../interfaces';
+import { PermissionUtils } from '../utils/permission.util';
+
+// Type for user with roles, and scopes when authenticated with an API key or
+// as an OAuth client (a service principal, which has no roles)
+type UserWithRoles = {
+  principalType?: 'user' | 'service';
+  roles?: string[];
+  scopes?: string[];
+  [key: string]: unknown;
+};
+
+/**
+ * CLS key under which the effective permissions of the current request are cached
+ */
+export const CLS_PERMISSIONS_KEY = 'permissions';
+
+/**
+ * Guard to check if a user has the required permissions
+ */
+@Injectable()
+export class PermissionsGuard implements CanActivate {
+  constructor(
+    private reflector: Reflector,
+    private readonly clsService: ClsService,
+    @Inject(PERMISSIONS_RESOLVER)
+    private readonly permissionsResolver: PermissionsResolver,
+    private readonly i18n: I18nService,
+  ) {}
+
+  /**
+   * Check if the user has all the required permissions
+   * @param context Execution context
+   * @returns True if the user has the required permissions
+   */
+  async canActivate(context: ExecutionContext): Promise<boolean> {
+    // Get the required permissions from the route handler
+    const requiredPermissions = this.reflector.getAllAndOverride<string[]>(
+      PERMISSIONS_KEY,
+      [context.getHandler(), context.getClass()],
+    );
+
+    // If no permissions are required, allow access
+    if (!requiredPermissions || requiredPermissions.length === 0) {
+      return true;
+    }
+
+    // Get the user from the request
+    const request = context
+      .switchToHttp()
+      .getRequest<Request & { user?: UserWithRoles }>();
+    const user = request.user;
+
+    // If no user is present, deny access
+    if (!user) {
+      throw new ForbiddenException(
+        this.i18n.t('translation.AUTH.ACCESS_DENIED', {
+          lang: I18nContext.current()?.lang,
+        }),
+      );
+    }
+
+    // Service principals are granted exactly the scopes of their token
+    const grantedPermissions =
+      user.principalType === 'service'
+        ? (user.scopes ?? [])
+        : await this.getEffectivePermissions(user);
+
+    // API keys and OAuth clients may only use the permissions in their scopes
+    const scopes = Array.isArray(user.scopes) ? user.scopes : null;
+    const hasAllPermissions = requiredPermissions.every(
+      (permission) =>
+        PermissionUtils.grants(grantedPermissions, permission) &&
+        (!scopes || PermissionUtils.grants(scopes, permission)),
+    );
+
+    if (!hasAllPermissions) {
+      throw new ForbiddenException(
+        this.i18n.t('translation.AUTH.INSUFFICIENT_PERMISSIONS', {
+          lang: I18nContext.current()?.lang,
+        }),
+      );
+    }
+
+    return true;
+  }
+
+  /**
+   * Resolve the effective permissions of the user, once per request
+   * @param user User from the request
+   * @returns Effective permissions
+   */
+  private async getEffectivePermissions(
+    user: UserWithRoles,
+  ): Promise<string[]> {
+    const cached = this.clsService.get<string[] | undefined>(
+      CLS_PERMISSIONS_KEY,
+    );
+    if (cached) {
+      return cached;
+    }
+
+    const roles = Array.isArray(user.roles) ? user.roles : [];
+    const permissions =
+      await this.permissionsResolver.resolvePermissions(roles);
+    this.clsService.set(CLS_PERMISSIONS_KEY, permissions);
+    return permissions;
+  }
+}
@@ -0,0 +1,89 @@
+import {
+  Injectable,
+  CanActivate,
+  ExecutionContext,
+  ForbiddenException,
+} from '@nestjs/common';
+import { Reflector } from '@nestjs/core';
+import { I18nService, I18nContext } from 'nestjs-i18n';
+import { RECENT_AUTH_KEY } from '../decorators';
+
+// Type for a user authenticated with an access token, an API key or as an OAuth client
+type UserWithAuthTime = {
+  principalType?: 'user' | 'service';
+  apiKeyId?: string;
+  authTime?: number;
+  [key: string]: unknown;
+};
+
+/**
+ * Error code returned when the user has to re-authenticate, so that clients
+ * know to prompt for the password or a code
+ */
+export const REAUTHENTICATION_REQUIRED = 'REAUTHENTICATION_REQUIRED';
+
+/**
+ * Error code returned to API keys and OAuth clients, which cannot
+ * re-authenticate, on the routes that require a recent login
+ */
+export const INTERACTIVE_LOGIN_REQUIRED = 'INTERACTIVE_LOGIN_REQUIRED';
+
+/**
+ * Guard to check that the user entered their credentials recently enough
+ * API keys and OAuth clients have no interactive login and are denied, so that a
+ * leaked key cannot perform the sensitive actions this guard protects
+ * Use after the authentication guard
+ */
+@Injectable()
+export class RecentAuthGuard implements CanActivate {
+  constructor(
+    private reflector: Reflector,
+    private readonly i18n: I18nService,
+  ) {}
+
+  /**
+   * Check the `auth_time` claim against the maximum age of the route
+   * @param context Execution context
+   * @returns True if the user authenticated recently enough
+   */
+  canActivate(context: ExecutionContext): boolean {
+    const maxAgeSeconds = this.reflector.getAllAndOverride<number | undefined>(
+      RECENT_AUTH_KEY,
+      [context.getHandler(), context.getClass()],
+    );
+
+    // If no recent authentication is required, allow access
+    if (maxAgeSeconds === undefined) {
+      return true;
+    }
+
+    const request = context
+      .switchToHttp()
+      .getRequest<Request & { user?: UserWithAuthTime }>();
+    const user = request.user;
+
+    if (user && (user.principalType === 'service' || user.apiKeyId)) {
+      throw new ForbiddenException({
+        message: this.i18n.t('translation.AUTH.INTERACTIVE_LOGIN_REQUIRED', {
+          lang: I18nContext.current()?.lang,
+        }),
+        code: INTERACTIVE_LOGIN_REQUIRED,
+      });
+    }
+
+    const authAge =
+      typeof user?.authTime === 'number'
+        ? Date.now() / 1000 - user.authTime
+        : Infinity;
+    if (authAge > maxAgeSeconds) {
+      throw new ForbiddenException({
+        message: this.i18n.t('translation.AUTH.REAUTHENTICATION_REQUIRED', {
+          lang: I18nContext.current()?.lang,
+        }),
+        code: REAUTHENTICATION_REQUIRED,
+      });
+    }
+
+    return true;
+  }
+}
@@ -1 +1,2 @@
 export * from './pagination.interface';
+export * from './permissions-resolver.interface';
@@ -0,0 +1,11 @@
+/**
+ * Injection token for the permissions resolver used by PermissionsGuard
+ */
+export const PERMISSIONS_RESOLVER = 'PERMISSIONS_RESOLVER';
+
+/**
+ * Interface for resolving the effective permissions of a set of roles
+ */
+export interface PermissionsResolver {
+  resolvePermissions(roles: string[]): Promise<string[]>;
+}
@@ -1,2 +1,3 @@
 export * from './pagination.util';
 export * from './sanitizer.util';
+export * from './permission.util';
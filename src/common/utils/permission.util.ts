@@ -0,0 +1,36 @@
+/**
+ * Utility class for matching permission strings
+ */
+export class PermissionUtils {
+  /**
+   * Check whether a granted permission satisfies a required one
+   * Supports the `*` and `<resource>:*` wildcards
+   * @param granted Granted permission
+   * @param required Required permission
+   * @returns True if the granted permission covers the required one
+   */
+  static matches(granted: string, required: string): boolean {
+    if (granted === '*' || granted === required) {
+      return true;
+    }
+
+    if (granted.endsWith(':*')) {
+      const resource = granted.slice(0, -1); // Keep the trailing ':'
+      return required.startsWith(resource);
+    }
+
+    return false;
+  }
+
+  /**
+   * Check whether a set of granted permissions satisfies a required one
+   * @param granted Granted permissions
+   * @param required Required permission
+   * @returns True if one of the granted permissions covers the required one
+   */
+  static grants(granted: string[], required: string): boolean {
+    return granted.some((permission) =>
+      PermissionUtils.matches(permission, required),
+    );
+  }
+}
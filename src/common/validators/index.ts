@@ -1,2 +1,2 @@
 // Export validators
-export {};
+export * from './match.validator';
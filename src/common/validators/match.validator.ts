@@ -0,0 +1,32 @@
+import {
+  registerDecorator,
+  ValidationArguments,
+  ValidationOptions,
+} from 'class-validator';
+
+/**
+ * Check that a property has the same value as another property of the object
+ * Typically used for password confirmations
+ * @param property Name of the property to compare with
+ * @param validationOptions Validation options
+ * @returns Property decorator
+ */
+export function Match(property: string, validationOptions?: ValidationOptions) {
+  return (object: object, propertyName: string) => {
+    registerDecorator({
+      name: 'match',
+      target: object.constructor,
+      propertyName,
+      constraints: [property],
+      options: validationOptions,
+      validator: {
+        validate(value: unknown, args: ValidationArguments) {
+          const [relatedProperty] = args.constraints as [string];
+          return (
+            value === (args.object as Record<string, unknown>)[relatedProperty]
+          );
+        },
+      },
+    });
+  };
+}
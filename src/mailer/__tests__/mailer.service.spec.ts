@@ -0,0 +1,206 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { ConfigService } from '@nestjs/config';
+import { I18nContext } from 'nestjs-i18n';
+import { MailerService } from '../mailer.service';
+import { MAIL_TRANSPORT } from '../interfaces';
+import { MailTemplate } from '../enums';
+import { MailTemplateService } from '../services/mail-template.service';
+import { MailOutboxService } from '../services/mail-outbox.service';
+import { createMockConfigService } from '../../common/__tests__/test-utils';
+
+describe('MailerService', () => {
+  let service: MailerService;
+
+  const mockTransport = {
+    send: jest.fn(),
+  };
+
+  const mockTemplateService = {
+    render: jest.fn().mockReturnValue({
+      subject: 'Verify your email address',
+      text: 'Hello John',
+      html: '<p>Hello John</p>',
+    }),
+  };
+
+  const mockOutboxService = {
+    enqueue: jest.fn(),
+    deleteAllTo: jest.fn(),
+  };
+
+  beforeEach(async () => {
+    jest
+      .spyOn(I18nContext, 'current')
+      .mockReturnValue({ lang: 'ja' } as I18nContext<unknown>);
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        MailerService,
+        {
+          provide: MAIL_TRANSPORT,
+          useValue: mockTransport,
+        },
+        {
+          provide: MailTemplateService,
+          useValue: mockTemplateService,
+        },
+        {
+          provide: MailOutboxService,
+          useValue: mockOutboxService,
+        },
+        {
+          provide: ConfigService,
+          useValue: createMockConfigService({
+            MAIL_FROM: 'accounts@example.com',
+          }),
+        },
+      ],
+    }).compile();
+
+    service = module.get<MailerService>(MailerService);
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('send', () => {
+    it('should deliver the email from the configured sender', async () => {
+      // Act
+      await service.send({
+        to: 'john.doe@example.com',
+        subject: 'Hello',
+        text: 'Hi John',
+      });
+
+      // Assert
+      expect(mockTransport.send).toHaveBeenCalledWith({
+        from: 'accounts@example.com',
+        to: 'john.doe@example.com',
+        subject: 'Hello',
+        text: 'Hi John',
+      });
+      expect(mockOutboxService.enqueue).not.toHaveBeenCalled();
+    });
+
+    it('should keep an explicit sender', async () => {
+      // Act
+      await service.send({
+        from: 'security@example.com',
+        to: 'john.doe@example.com',
+        subject: 'Hello',
+        text: 'Hi John',
+      });
+
+      // Assert
+      expect(mockTransport.send).toHaveBeenCalledWith(
+        expect.objectContaining({ from: 'security@example.com' }),
+      );
+    });
+
+    it('should queue the email for retry when the transport fails', async () => {
+      // Arrange
+      const error = new Error('Connection refused');
+      mockTransport.send.mockRejectedValueOnce(error);
+
+      // Act
+      await service.send({
+        to: 'john.doe@example.com',
+        subject: 'Hello',
+        text: 'Hi John',
+      });
+
+      // Assert
+      expect(mockOutboxService.enqueue).toHaveBeenCalledWith(
+        expect.objectContaining({
+          from: 'accounts@example.com',
+          to: 'john.doe@example.com',
+        }),
+        error,
+        undefined,
+      );
+    });
+
+    it('should pass the expiry of the email to the outbox', async () => {
+      // Arrange
+      const error = new Error('Connection refused');
+      const expiresAt = new Date(Date.now() + 60 * 60 * 1000);
+      mockTransport.send.mockRejectedValueOnce(error);
+
+      // Act
+      await service.send(
+        {
+          to: 'john.doe@example.com',
+          subject: 'Reset your password',
+          text: 'Reset link',
+        },
+        { expiresAt },
+      );
+
+      // Assert
+      expect(mockOutboxService.enqueue).toHaveBeenCalledWith(
+        expect.objectContaining({ to: 'john.doe@example.com' }),
+        error,
+        expiresAt,
+      );
+    });
+  });
+
+  describe('sendTemplate', () => {
+    it('should render the template in the language of the request', async () => {
+      // Act
+      await service.sendTemplate(
+        'john.doe@example.com',
+        MailTemplate.EMAIL_VERIFICATION,
+        { name: 'John' },
+      );
+
+      // Assert
+      expect(mockTemplateService.render).toHaveBeenCalledWith(
+        MailTemplate.EMAIL_VERIFICATION,
+        { name: 'John' },
+        'ja',
+      );
+      expect(mockTransport.send).toHaveBeenCalledWith({
+        from: 'accounts@example.com',
+        to: 'john.doe@example.com',
+        subject: 'Verify your email address',
+        text: 'Hello John',
+        html: '<p>Hello John</p>',
+      });
+    });
+
+    it('should render the template in an explicit language', async () => {
+      // Act
+      await service.sendTemplate(
+        'john.doe@example.com',
+        MailTemplate.EMAIL_VERIFICATION,
+        { name: 'John' },
+        { lang: 'en' },
+      );
+
+      // Assert
+      expect(mockTemplateService.render).toHaveBeenCalledWith(
+        MailTemplate.EMAIL_VERIFICATION,
+        { name: 'John' },
+        'en',
+      );
+    });
+  });
+
+  describe('discardQueued', () => {
+    it('should delete the queued emails of the recipient', async () => {
+      // Arrange
+      mockOutboxService.deleteAllTo.mockResolvedValueOnce(1);
+
+      // Act
+      const discarded = await service.discardQueued('john.doe@example.com');
+
+      // Assert
+      expect(discarded).toBe(1);
+      expect(mockOutboxService.deleteAllTo).toHaveBeenCalledWith(
+        'john.doe@example.com',
+      );
+    });
+  });
+});
@@ -0,0 +1,295 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { getModelToken } from '@nestjs/mongoose';
+import { ConfigService } from '@nestjs/config';
+import { MailOutboxService } from '../../services/mail-outbox.service';
+import { Model } from 'mongoose';
+import {
+  MailOutbox,
+  MailOutboxDocument,
+} from '../../schemas/mail-outbox.schema';
+import { MailOutboxStatus } from '../../enums';
+import { MAIL_TRANSPORT } from '../../interfaces';
+import { I18nService } from 'nestjs-i18n';
+import {
+  createMockConfigService,
+  createMockI18nService,
+} from '../../../common/__tests__/test-utils';
+
+describe('MailOutboxService', () => {
+  let service: MailOutboxService;
+
+  const createQuery = (value: unknown) => ({
+    exec: jest.fn().mockResolvedValue(value),
+  });
+
+  const mockMailOutboxModel = {
+    create: jest.fn(),
+    findOneAndUpdate: jest.fn(),
+    updateOne: jest.fn().mockReturnValue(createQuery({})),
+    deleteMany: jest.fn(),
+  };
+
+  const mockTransport = {
+    send: jest.fn(),
+  };
+
+  let entry: Record<string, unknown>;
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        MailOutboxService,
+        {
+          provide: getModelToken(MailOutbox.name),
+          useValue: mockMailOutboxModel,
+        },
+        {
+          provide: MAIL_TRANSPORT,
+          useValue: mockTransport,
+        },
+        {
+          provide: ConfigService,
+          useValue: createMockConfigService({
+            MAIL_RETRY_INTERVAL: '60',
+            MAIL_MAX_ATTEMPTS: '3',
+            MAIL_OUTBOX_TTL: '3600',
+            MAIL_OUTBOX_ENCRYPTION_KEY: 'outbox-key',
+          }),
+        },
+        { provide: I18nService, useValue: createMockI18nService() },
+      ],
+    }).compile();
+
+    service = module.get<MailOutboxService>(MailOutboxService);
+
+    entry = {
+      _id: 'entry-id',
+      from: 'no-reply@example.com',
+      to: 'john.doe@example.com',
+      subject: 'Hello',
+      body: service['encrypt'](JSON.stringify({ text: 'Hi John' })),
+      attempts: 1,
+    };
+  });
+
+  afterEach(() => {
+    service.onModuleDestroy();
+    jest.clearAllMocks();
+  });
+
+  it('should refuse to start without MAIL_OUTBOX_ENCRYPTION_KEY', () => {
+    // Act & Assert
+    expect(
+      () =>
+        new MailOutboxService(
+          mockMailOutboxModel as unknown as Model<MailOutboxDocument>,
+          mockTransport,
+          createMockConfigService({
+            JWT_ACCESS_SECRET: 'access-secret',
+          }) as unknown as ConfigService,
+          createMockI18nService() as unknown as I18nService,
+        ),
+    ).toThrow('translated:translation.EMAIL.OUTBOX_ENCRYPTION_KEY_NOT_DEFINED');
+  });
+
+  describe('enqueue', () => {
+    it('should persist the email for a later attempt', async () => {
+      // Act
+      await service.enqueue(
+        { to: 'john.doe@example.com', subject: 'Hello', text: 'Hi John' },
+        new Error('Connection refused'),
+      );
+
+      // Assert
+      expect(mockMailOutboxModel.create).toHaveBeenCalledWith(
+        expect.objectContaining({
+          to: 'john.doe@example.com',
+          status: MailOutboxStatus.PENDING,
+          attempts: 1,
+          lastError: 'Connection refused',
+          nextAttemptAt: expect.any(Date) as Date,
+        }),
+      );
+    });
+
+    it('should encrypt the bodies of the email', async () => {
+      // Act
+      await service.enqueue(
+        {
+          to: 'john.doe@example.com',
+          subject: 'Reset your password',
+          text: 'https://example.com/reset?token=secret-token',
+        },
+        new Error('Connection refused'),
+      );
+
+      // Assert
+      const [doc] = mockMailOutboxModel.create.mock.calls[0] as [
+        { body: string; text?: string },
+      ];
+      expect(doc.text).toBeUndefined();
+      expect(doc.body).not.toContain('secret-token');
+      expect(JSON.parse(service['decrypt'](doc.body))).toEqual({
+        text: 'https://example.com/reset?token=secret-token',
+      });
+    });
+
+    it('should keep the email no longer than the outbox TTL', async () => {
+      // Arrange
+      const before = Date.now();
+
+      // Act
+      await service.enqueue(
+        { to: 'john.doe@example.com', subject: 'Hello', text: 'Hi John' },
+        new Error('Connection refused'),
+      );
+
+      // Assert
+      const [doc] = mockMailOutboxModel.create.mock.calls[0] as [
+        { expiresAt: Date },
+      ];
+      expect(doc.expiresAt.getTime()).toBeGreaterThanOrEqual(
+        before + 3600 * 1000,
+      );
+      expect(doc.expiresAt.getTime()).toBeLessThanOrEqual(
+        Date.now() + 3600 * 1000,
+      );
+    });
+
+    it('should expire the email with the token it carries', async () => {
+      // Arrange
+      const expiresAt = new Date(Date.now() + 15 * 60 * 1000);
+
+      // Act
+      await service.enqueue(
+        { to: 'john.doe@example.com', subject: 'Sign in', text: 'Magic link' },
+        new Error('Connection refused'),
+        expiresAt,
+      );
+
+      // Assert
+      expect(mockMailOutboxModel.create).toHaveBeenCalledWith(
+        expect.objectContaining({ expiresAt }),
+      );
+    });
+  });
+
+  describe('processDue', () => {
+    it('should deliver due emails and mark them as sent', async () => {
+      // Arrange
+      mockMailOutboxModel.findOneAndUpdate
+        .mockReturnValueOnce(createQuery(entry))
+        .mockReturnValueOnce(createQuery(null));
+
+      // Act
+      const delivered = await service.processDue();
+
+      // Assert
+      expect(delivered).toBe(1);
+      expect(mockTransport.send).toHaveBeenCalledWith(
+        expect.objectContaining({
+          to: 'john.doe@example.com',
+          text: 'Hi John',
+        }),
+      );
+      expect(mockMailOutboxModel.updateOne).toHaveBeenCalledWith(
+        { _id: 'entry-id' },
+        {
+          $set: {
+            status: MailOutboxStatus.SENT,
+            sentAt: expect.any(Date) as Date,
+          },
+          $unset: { body: 1 },
+        },
+      );
+    });
+
+    it('should skip expired emails', async () => {
+      // Arrange
+      mockMailOutboxModel.findOneAndUpdate.mockReturnValueOnce(
+        createQuery(null),
+      );
+
+      // Act
+      await service.processDue();
+
+      // Assert
+      expect(mockMailOutboxModel.findOneAndUpdate).toHaveBeenCalledWith(
+        expect.objectContaining({
+          expiresAt: { $gt: expect.any(Date) as Date },
+        }),
+        expect.anything(),
+        expect.anything(),
+      );
+    });
+
+    it('should schedule another attempt when delivery fails again', async () => {
+      // Arrange
+      mockMailOutboxModel.findOneAndUpdate
+        .mockReturnValueOnce(createQuery(entry))
+        .mockReturnValueOnce(createQuery(null));
+      mockTransport.send.mockRejectedValueOnce(new Error('Timeout'));
+
+      // Act
+      const delivered = await service.processDue();
+
+      // Assert
+      expect(delivered).toBe(0);
+      expect(mockMailOutboxModel.updateOne).toHaveBeenCalledWith(
+        { _id: 'entry-id' },
+        {
+          $set: expect.objectContaining({
+            status: MailOutboxStatus.PENDING,
+            attempts: 2,
+            lastError: 'Timeout',
+          }) as Record<string, unknown>,
+        },
+      );
+      expect(mockMailOutboxModel.updateOne).not.toHaveBeenCalledWith(
+        expect.anything(),
+        expect.objectContaining({ $unset: { body: 1 } }),
+      );
+    });
+
+    it('should give up after the maximum number of attempts', async () => {
+      // Arrange
+      mockMailOutboxModel.findOneAndUpdate
+        .mockReturnValueOnce(createQuery({ ...entry, attempts: 2 }))
+        .mockReturnValueOnce(createQuery(null));
+      mockTransport.send.mockRejectedValueOnce(new Error('Timeout'));
+
+      // Act
+      await service.processDue();
+
+      // Assert
+      expect(mockMailOutboxModel.updateOne).toHaveBeenCalledWith(
+        { _id: 'entry-id' },
+        {
+          $set: expect.objectContaining({
+            status: MailOutboxStatus.FAILED,
+            attempts: 3,
+          }) as Record<string, unknown>,
+          $unset: { body: 1 },
+        },
+      );
+    });
+  });
+
+  describe('deleteAllTo', () => {
+    it('should delete every entry addressed to the recipient', async () => {
+      // Arrange
+      mockMailOutboxModel.deleteMany.mockReturnValue(
+        createQuery({ deletedCount: 2 }),
+      );
+
+      // Act
+      const deleted = await service.deleteAllTo('john.doe@example.com');
+
+      // Assert
+      expect(deleted).toBe(2);
+      expect(mockMailOutboxModel.deleteMany).toHaveBeenCalledWith({
+        to: 'john.doe@example.com',
+      });
+    });
+  });
+});
@@ -0,0 +1,72 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { I18nService } from 'nestjs-i18n';
+import { MailTemplateService } from '../../services/mail-template.service';
+import { MailTemplate } from '../../enums';
+import { createMockI18nService } from '../../../common/__tests__/test-utils';
+
+describe('MailTemplateService', () => {
+  let service: MailTemplateService;
+  let i18nService: I18nService;
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        MailTemplateService,
+        {
+          provide: I18nService,
+          useValue: createMockI18nService(),
+        },
+      ],
+    }).compile();
+
+    service = module.get<MailTemplateService>(MailTemplateService);
+    i18nService = module.get<I18nService>(I18nService);
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('render', () => {
+    it('should translate the subject and body of the template', () => {
+      // Act
+      const result = service.render(
+        MailTemplate.EMAIL_VERIFICATION,
+        { name: 'John' },
+        'ja',
+      );
+
+      // Assert
+      const translateSpy = jest.spyOn(i18nService, 't');
+      expect(translateSpy).toHaveBeenCalledWith(
+        'translation.EMAIL.EMAIL_VERIFICATION.SUBJECT',
+        { lang: 'ja', args: { name: 'John' } },
+      );
+      expect(translateSpy).toHaveBeenCalledWith(
+        'translation.EMAIL.EMAIL_VERIFICATION.TEXT',
+        { lang: 'ja', args: { name: 'John' } },
+      );
+      expect(result.subject).toBe(
+        'translated:translation.EMAIL.EMAIL_VERIFICATION.SUBJECT',
+      );
+    });
+
+    it('should build an escaped HTML body from the text', () => {
+      // Arrange
+      jest
+        .spyOn(i18nService, 't')
+        .mockReturnValueOnce('Welcome')
+        .mockReturnValueOnce('Hello <John>,\n\nOpen:\nhttps://x.test/?a=1&b=2');
+
+      // Act
+      const result = service.render(MailTemplate.EMAIL_VERIFICATION, {});
+
+      // Assert
+      expect(result.html).toContain('<title>Welcome</title>');
+      expect(result.html).toContain('<p>Hello &lt;John&gt;,</p>');
+      expect(result.html).toContain(
+        '<p>Open:<br>https://x.test/?a=1&amp;b=2</p>',
+      );
+    });
+  });
+});
@@ -0,0 +1,43 @@
+import { promises as fs } from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { ConfigService } from '@nestjs/config';
+import { FileMailTransport } from '../../transports/file.transport';
+import { createMockConfigService } from '../../../common/__tests__/test-utils';
+
+describe('FileMailTransport', () => {
+  let directory: string;
+  let transport: FileMailTransport;
+
+  beforeEach(async () => {
+    directory = await fs.mkdtemp(path.join(os.tmpdir(), 'mail-outbox-'));
+    transport = new FileMailTransport(
+      createMockConfigService({
+        MAIL_OUTBOX_DIR: directory,
+      }) as unknown as ConfigService,
+    );
+  });
+
+  afterEach(async () => {
+    await fs.rm(directory, { recursive: true, force: true });
+  });
+
+  it('should write the email as an .eml file', async () => {
+    // Act
+    await transport.send({
+      from: 'no-reply@example.com',
+      to: 'john.doe@example.com',
+      subject: 'Verify your email address',
+      text: 'Hello John',
+    });
+
+    // Assert
+    const files = await fs.readdir(directory);
+    expect(files).toHaveLength(1);
+    expect(files[0]).toMatch(/\.eml$/);
+    const content = await fs.readFile(path.join(directory, files[0]), 'utf8');
+    expect(content).toContain('To: john.doe@example.com');
+    expect(content).toContain('Subject: Verify your email address');
+    expect(content).toContain('Hello John');
+  });
+});
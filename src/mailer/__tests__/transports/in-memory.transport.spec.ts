@@ -0,0 +1,36 @@
+import { InMemoryMailTransport } from '../../transports/in-memory.transport';
+
+describe('InMemoryMailTransport', () => {
+  let transport: InMemoryMailTransport;
+
+  beforeEach(() => {
+    transport = new InMemoryMailTransport();
+  });
+
+  it('should keep the delivered emails in order', async () => {
+    // Act
+    await transport.send({ to: 'a@example.com', subject: '1', text: 'one' });
+    await transport.send({ to: 'b@example.com', subject: '2', text: 'two' });
+    await transport.send({ to: 'a@example.com', subject: '3', text: 'three' });
+
+    // Assert
+    expect(transport.messages.map((message) => message.subject)).toEqual([
+      '1',
+      '2',
+      '3',
+    ]);
+    expect(transport.lastMessageTo('a@example.com')?.subject).toBe('3');
+  });
+
+  it('should forget the emails when cleared', async () => {
+    // Arrange
+    await transport.send({ to: 'a@example.com', subject: '1', text: 'one' });
+
+    // Act
+    transport.clear();
+
+    // Assert
+    expect(transport.messages).toHaveLength(0);
+    expect(transport.lastMessageTo('a@example.com')).toBeUndefined();
+  });
+});
@@ -0,0 +1,57 @@
+import { ConfigService } from '@nestjs/config';
+import * as nodemailer from 'nodemailer';
+import { SmtpMailTransport } from '../../transports/smtp.transport';
+import { createMockConfigService } from '../../../common/__tests__/test-utils';
+
+jest.mock('nodemailer');
+
+describe('SmtpMailTransport', () => {
+  const sendMail = jest.fn();
+
+  beforeEach(() => {
+    (nodemailer.createTransport as jest.Mock).mockReturnValue({ sendMail });
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('should connect to the configured SMTP server', () => {
+    // Act
+    new SmtpMailTransport(
+      createMockConfigService({
+        SMTP_HOST: 'smtp.example.com',
+        SMTP_PORT: '465',
+        SMTP_SECURE: 'true',
+        SMTP_USER: 'mailer',
+        SMTP_PASSWORD: 'secret',
+      }) as unknown as ConfigService,
+    );
+
+    // Assert
+    expect(nodemailer.createTransport).toHaveBeenCalledWith({
+      host: 'smtp.example.com',
+      port: 465,
+      secure: true,
+      auth: { user: 'mailer', pass: 'secret' },
+    });
+  });
+
+  it('should send the email through the SMTP transporter', async () => {
+    // Arrange
+    const transport = new SmtpMailTransport(
+      createMockConfigService() as unknown as ConfigService,
+    );
+    const message = {
+      to: 'john.doe@example.com',
+      subject: 'Hello',
+      text: 'Hi John',
+    };
+
+    // Act
+    await transport.send(message);
+
+    // Assert
+    expect(sendMail).toHaveBeenCalledWith(message);
+  });
+});
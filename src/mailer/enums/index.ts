@@ -0,0 +1,2 @@
+export * from './mail-template.enum';
+export * from './mail-outbox-status.enum';
@@ -0,0 +1,8 @@
+/**
+ * Delivery state of an email in the outbox
+ */
+export enum MailOutboxStatus {
+  PENDING = 'pending',
+  SENT = 'sent',
+  FAILED = 'failed',
+}
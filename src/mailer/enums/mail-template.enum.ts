@@ -0,0 +1,11 @@
+/**
+ * Emails the application knows how to render
+ * Each template reads `SUBJECT` and `TEXT` from `translation.EMAIL.<template>`
+ */
+export enum MailTemplate {
+  EMAIL_VERIFICATION = 'EMAIL_VERIFICATION',
+  PASSWORD_RESET = 'PASSWORD_RESET',
+  MAGIC_LINK = 'MAGIC_LINK',
+  EMAIL_CHANGE_CONFIRMATION = 'EMAIL_CHANGE_CONFIRMATION',
+  EMAIL_CHANGE_NOTICE = 'EMAIL_CHANGE_NOTICE',
+}
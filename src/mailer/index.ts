@@ -0,0 +1,20 @@
+// Export the module
+export * from './mailer.module';
+
+// Export the service
+export * from './mailer.service';
+
+// Export services
+export * from './services';
+
+// Export interfaces
+export * from './interfaces';
+
+// Export enums
+export * from './enums';
+
+// Export schemas
+export * from './schemas';
+
+// Export transports
+export * from './transports';
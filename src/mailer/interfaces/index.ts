@@ -0,0 +1 @@
+export * from './mail-transport.interface';
@@ -0,0 +1,39 @@
+/**
+ * Injection token of the transport used to deliver emails
+ */
+export const MAIL_TRANSPORT = 'MAIL_TRANSPORT';
+
+/**
+ * Email ready to be delivered
+ */
+export interface MailMessage {
+  from?: string;
+  to: string;
+  subject: string;
+  text: string;
+  html?: string;
+}
+
+/**
+ * How an email is handled when it cannot be delivered right away
+ */
+export interface MailSendOptions {
+  /**
+   * When the email becomes useless, such as when the link it carries
+   * expires; it is not retried after that
+   */
+  expiresAt?: Date;
+}
+
+/**
+ * Delivers emails
+ * Implementations may send them over the network or keep them locally
+ */
+export interface MailTransport {
+  /**
+   * Deliver an email
+   * Implementations throw when the email could not be delivered
+   * @param message Email to deliver
+   */
+  send(message: MailMessage): Promise<void>;
+}
@@ -0,0 +1,54 @@
+import { Module } from '@nestjs/common';
+import { ConfigModule, ConfigService } from '@nestjs/config';
+import { MongooseModule } from '@nestjs/mongoose';
+import { MailerService } from './mailer.service';
+import { MailTemplateService, MailOutboxService } from './services';
+import { MailOutbox, MailOutboxSchema } from './schemas';
+import { MAIL_TRANSPORT, MailTransport } from './interfaces';
+import {
+  LogMailTransport,
+  InMemoryMailTransport,
+  FileMailTransport,
+  SmtpMailTransport,
+} from './transports';
+
+/**
+ * Module for sending emails
+ * The transport is selected with `MAIL_TRANSPORT`: smtp, file, memory or log
+ */
+@Module({
+  imports: [
+    ConfigModule,
+    MongooseModule.forFeature([
+      { name: MailOutbox.name, schema: MailOutboxSchema },
+    ]),
+  ],
+  providers: [
+    // Main service
+    MailerService,
+
+    // Specialized services
+    MailTemplateService,
+    MailOutboxService,
+
+    // Transport
+    {
+      provide: MAIL_TRANSPORT,
+      useFactory: (configService: ConfigService): MailTransport => {
+        switch (configService.get<string>('MAIL_TRANSPORT', 'log')) {
+          case 'smtp':
+            return new SmtpMailTransport(configService);
+          case 'file':
+            return new FileMailTransport(configService);
+          case 'memory':
+            return new InMemoryMailTransport();
+          default:
+            return new LogMailTransport();
+        }
+      },
+      inject: [ConfigService],
+    },
+  ],
+  exports: [MailerService, MAIL_TRANSPORT],
+})
+export class MailerModule {}
@@ -0,0 +1,83 @@
+import { Inject, Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { I18nContext } from 'nestjs-i18n';
+import {
+  MAIL_TRANSPORT,
+  MailMessage,
+  MailSendOptions,
+  MailTransport,
+} from './interfaces';
+import { MailTemplate } from './enums';
+import { MailTemplateService, MailOutboxService } from './services';
+
+/**
+ * Service used by the other modules to send emails
+ * Delivery is delegated to the configured transport; emails that cannot be
+ * delivered right away are retried from the outbox
+ */
+@Injectable()
+export class MailerService {
+  private readonly logger = new Logger(MailerService.name);
+
+  constructor(
+    @Inject(MAIL_TRANSPORT) private readonly transport: MailTransport,
+    private readonly templateService: MailTemplateService,
+    private readonly outboxService: MailOutboxService,
+    private readonly configService: ConfigService,
+  ) {}
+
+  /**
+   * Send an email
+   * @param message Email to send; the sender defaults to `MAIL_FROM`
+   * @param options.expiresAt When to stop retrying the email
+   */
+  async send(
+    message: MailMessage,
+    options: MailSendOptions = {},
+  ): Promise<void> {
+    const mail: MailMessage = {
+      ...message,
+      from:
+        message.from ??
+        this.configService.get<string>('MAIL_FROM', 'no-reply@localhost'),
+    };
+
+    try {
+      await this.transport.send(mail);
+    } catch (error: unknown) {
+      const err = error as Error;
+      this.logger.warn(
+        `Failed to send email to ${mail.to}, queued for retry: ${err.message}`,
+      );
+      await this.outboxService.enqueue(mail, err, options.expiresAt);
+    }
+  }
+
+  /**
+   * Render a localized template and send it
+   * @param to Recipient
+   * @param template Template to render
+   * @param args Values interpolated into the template
+   * @param options.lang Language of the email; defaults to the language of the current request
+   * @param options.expiresAt When to stop retrying the email
+   */
+  async sendTemplate(
+    to: string,
+    template: MailTemplate,
+    args: Record<string, unknown>,
+    options: MailSendOptions & { lang?: string } = {},
+  ): Promise<void> {
+    const { lang = I18nContext.current()?.lang, ...sendOptions } = options;
+    const rendered = this.templateService.render(template, args, lang);
+    await this.send({ to, ...rendered }, sendOptions);
+  }
+
+  /**
+   * Drop the queued emails of a recipient, e.g. when their data is erased
+   * @param to Recipient
+   * @returns Number of emails dropped
+   */
+  async discardQueued(to: string): Promise<number> {
+    return this.outboxService.deleteAllTo(to);
+  }
+}
@@ -0,0 +1 @@
+export * from './mail-outbox.schema';
@@ -0,0 +1,54 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { Document } from 'mongoose';
+import { MailOutboxStatus } from '../enums';
+
+export type MailOutboxDocument = MailOutbox & Document;
+
+/**
+ * An email whose delivery failed and is retried in the background
+ * The bodies may carry login or reset links, so they are stored encrypted
+ * and dropped once the email is sent or given up
+ */
+@Schema({ collection: 'mail_outbox', timestamps: true })
+export class MailOutbox {
+  @Prop()
+  from?: string;
+
+  @Prop({ required: true })
+  to: string;
+
+  @Prop({ required: true })
+  subject: string;
+
+  @Prop() // Encrypted text and HTML bodies
+  body?: string;
+
+  @Prop({
+    type: String,
+    enum: MailOutboxStatus,
+    default: MailOutboxStatus.PENDING,
+  })
+  status: MailOutboxStatus;
+
+  @Prop({ type: Number, default: 1 }) // Including the failed first attempt
+  attempts: number;
+
+  @Prop({ required: true })
+  nextAttemptAt: Date;
+
+  @Prop()
+  lastError?: string;
+
+  @Prop({ type: Date })
+  sentAt?: Date;
+
+  @Prop({ required: true }) // Not retried after, and removed by MongoDB
+  expiresAt: Date;
+}
+
+export const MailOutboxSchema = SchemaFactory.createForClass(MailOutbox);
+
+// Used to pick up the emails that are due for another attempt
+MailOutboxSchema.index({ status: 1, nextAttemptAt: 1 });
+// Let MongoDB remove the emails once they are no longer worth delivering
+MailOutboxSchema.index({ expiresAt: 1 }, { expireAfterSeconds: 0 });
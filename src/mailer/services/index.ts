@@ -0,0 +1,2 @@
+export * from './mail-template.service';
+export * from './mail-outbox.service';
@@ -0,0 +1,280 @@
+import {
+  Inject,
+  Injectable,
+  Logger,
+  OnModuleDestroy,
+  OnModuleInit,
+} from '@nestjs/common';
+import { InjectModel } from '@nestjs/mongoose';
+import { ConfigService } from '@nestjs/config';
+import { Model } from 'mongoose';
+import { I18nService, I18nContext } from 'nestjs-i18n';
+import {
+  createCipheriv,
+  createDecipheriv,
+  createHash,
+  randomBytes,
+} from 'crypto';
+import { MailOutbox, MailOutboxDocument } from '../schemas';
+import { MailOutboxStatus } from '../enums';
+import { MAIL_TRANSPORT, MailMessage, MailTransport } from '../interfaces';
+
+/**
+ * How long an instance owns an email it picked up for delivery
+ */
+const CLAIM_LEASE_MS = 5 * 60 * 1000;
+
+/**
+ * Service responsible for retrying the emails that could not be delivered
+ *
+ * Failed emails are persisted and retried with an exponential backoff until
+ * they are delivered, `MAIL_MAX_ATTEMPTS` is reached or they expire. Their
+ * bodies are encrypted with `MAIL_OUTBOX_ENCRYPTION_KEY` while they wait.
+ */
+@Injectable()
+export class MailOutboxService implements OnModuleInit, OnModuleDestroy {
+  private readonly logger = new Logger(MailOutboxService.name);
+  private readonly retryIntervalMs: number;
+  private readonly maxAttempts: number;
+  private readonly ttlMs: number;
+  private readonly key: Buffer;
+  private timer?: NodeJS.Timeout;
+  private processing = false;
+
+  constructor(
+    @InjectModel(MailOutbox.name)
+    private mailOutboxModel: Model<MailOutboxDocument>,
+    @Inject(MAIL_TRANSPORT) private readonly transport: MailTransport,
+    configService: ConfigService,
+    i18n: I18nService,
+  ) {
+    this.retryIntervalMs =
+      parseInt(configService.get<string>('MAIL_RETRY_INTERVAL', '60'), 10) *
+      1000;
+    this.maxAttempts = parseInt(
+      configService.get<string>('MAIL_MAX_ATTEMPTS', '5'),
+      10,
+    );
+    this.ttlMs =
+      parseInt(configService.get<string>('MAIL_OUTBOX_TTL', '86400'), 10) *
+      1000;
+
+    const encryptionKey = configService.get<string>(
+      'MAIL_OUTBOX_ENCRYPTION_KEY',
+    );
+    if (!encryptionKey) {
+      throw new Error(
+        i18n.t('translation.EMAIL.OUTBOX_ENCRYPTION_KEY_NOT_DEFINED', {
+          lang: I18nContext.current()?.lang,
+        }),
+      );
+    }
+    // Derive the 256-bit key protecting the bodies of the queued emails
+    this.key = createHash('sha256').update(encryptionKey).digest();
+  }
+
+  /**
+   * Start retrying in the background
+   */
+  onModuleInit(): void {
+    if (this.retryIntervalMs > 0) {
+      this.timer = setInterval(() => {
+        void this.processDue();
+      }, this.retryIntervalMs);
+      this.timer.unref(); // Do not keep the process alive for retries
+    }
+  }
+
+  /**
+   * Stop retrying
+   */
+  onModuleDestroy(): void {
+    clearInterval(this.timer);
+  }
+
+  /**
+   * Persist an email whose first delivery attempt failed
+   * @param message Email to retry
+   * @param error Error raised by the transport
+   * @param expiresAt When to stop retrying; capped at `MAIL_OUTBOX_TTL`
+   */
+  async enqueue(
+    message: MailMessage,
+    error: Error,
+    expiresAt?: Date,
+  ): Promise<void> {
+    const now = Date.now();
+    await this.mailOutboxModel.create({
+      from: message.from,
+      to: message.to,
+      subject: message.subject,
+      body: this.encrypt(
+        JSON.stringify({ text: message.text, html: message.html }),
+      ),
+      status: MailOutboxStatus.PENDING,
+      attempts: 1,
+      nextAttemptAt: new Date(now + this.getRetryDelay(1)),
+      lastError: error.message,
+      expiresAt: new Date(
+        Math.min(expiresAt?.getTime() ?? Infinity, now + this.ttlMs),
+      ),
+    });
+  }
+
+  /**
+   * Delete every outbox entry addressed to a recipient, sent or not
+   * @param to Recipient
+   * @returns Number of deleted entries
+   */
+  async deleteAllTo(to: string): Promise<number> {
+    const result = await this.mailOutboxModel.deleteMany({ to }).exec();
+    return result.deletedCount;
+  }
+
+  /**
+   * Retry the emails that are due
+   * Each email is claimed atomically, so several instances can run this concurrently
+   * @param limit Maximum number of emails to retry
+   * @returns Number of emails delivered
+   */
+  async processDue(limit = 20): Promise<number> {
+    if (this.processing) {
+      return 0;
+    }
+    this.processing = true;
+
+    let delivered = 0;
+    try {
+      for (let i = 0; i < limit; i++) {
+        const now = Date.now();
+        const entry = await this.mailOutboxModel
+          .findOneAndUpdate(
+            {
+              status: MailOutboxStatus.PENDING,
+              nextAttemptAt: { $lte: new Date(now) },
+              // The TTL monitor only runs every minute
+              expiresAt: { $gt: new Date(now) },
+            },
+            { $set: { nextAttemptAt: new Date(now + CLAIM_LEASE_MS) } },
+            { sort: { nextAttemptAt: 1 }, new: true },
+          )
+          .exec();
+        if (!entry) {
+          break;
+        }
+        if (await this.attempt(entry)) {
+          delivered++;
+        }
+      }
+    } catch (error: unknown) {
+      const err = error as Error;
+      this.logger.error(`Failed to process mail outbox: ${err.message}`);
+    } finally {
+      this.processing = false;
+    }
+    return delivered;
+  }
+
+  /**
+   * Try to deliver an email from the outbox and record the outcome
+   * @param entry Outbox entry
+   * @returns True if the email was delivered
+   */
+  private async attempt(entry: MailOutboxDocument): Promise<boolean> {
+    try {
+      const { text, html } = JSON.parse(this.decrypt(entry.body ?? '')) as {
+        text: string;
+        html?: string;
+      };
+      await this.transport.send({
+        from: entry.from,
+        to: entry.to,
+        subject: entry.subject,
+        text,
+        html,
+      });
+      await this.mailOutboxModel
+        .updateOne(
+          { _id: entry._id },
+          {
+            $set: { status: MailOutboxStatus.SENT, sentAt: new Date() },
+            $unset: { body: 1 },
+          },
+        )
+        .exec();
+      return true;
+    } catch (error: unknown) {
+      const err = error as Error;
+      const attempts = entry.attempts + 1;
+      const giveUp = attempts >= this.maxAttempts;
+      if (giveUp) {
+        this.logger.error(
+          `Giving up on email to ${entry.to} after ${attempts} attempts: ${err.message}`,
+        );
+      }
+      await this.mailOutboxModel
+        .updateOne(
+          { _id: entry._id },
+          {
+            $set: {
+              status: giveUp
+                ? MailOutboxStatus.FAILED
+                : MailOutboxStatus.PENDING,
+              attempts,
+              nextAttemptAt: new Date(
+                Date.now() + this.getRetryDelay(attempts),
+              ),
+              lastError: err.message,
+            },
+            // Nobody needs the bodies of an email that will not be sent
+            ...(giveUp ? { $unset: { body: 1 } } : {}),
+          },
+        )
+        .exec();
+      return false;
+    }
+  }
+
+  /**
+   * Delay before the next attempt, doubling after every failure
+   * @param attempts Number of attempts made so far
+   * @returns Delay in milliseconds
+   */
+  private getRetryDelay(attempts: number): number {
+    return Math.max(this.retryIntervalMs, 1000) * 2 ** (attempts - 1);
+  }
+
+  /**
+   * Encrypt the bodies of an email for storage
+   * @param plaintext Serialized bodies
+   * @returns `iv.tag.ciphertext`, each part base64url encoded
+   */
+  private encrypt(plaintext: string): string {
+    const iv = randomBytes(12);
+    const cipher = createCipheriv('aes-256-gcm', this.key, iv);
+    const ciphertext = Buffer.concat([
+      cipher.update(plaintext, 'utf8'),
+      cipher.final(),
+    ]);
+    return [iv, cipher.getAuthTag(), ciphertext]
+      .map((part) => part.toString('base64url'))
+      .join('.');
+  }
+
+  /**
+   * Decrypt the stored bodies of an email
+   * @param stored Value produced by `encrypt`
+   * @returns Serialized bodies
+   */
+  private decrypt(stored: string): string {
+    const [iv, tag, ciphertext] = stored
+      .split('.')
+      .map((part) => Buffer.from(part, 'base64url'));
+    const decipher = createDecipheriv('aes-256-gcm', this.key, iv);
+    decipher.setAuthTag(tag);
+    return Buffer.concat([
+      decipher.update(ciphertext),
+      decipher.final(),
+    ]).toString('utf8');
+  }
+}
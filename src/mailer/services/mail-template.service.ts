@@ -0,0 +1,82 @@
+import { Injectable } from '@nestjs/common';
+import { I18nService } from 'nestjs-i18n';
+import { MailTemplate } from '../enums';
+
+/**
+ * Rendered email content
+ */
+export interface RenderedMail {
+  subject: string;
+  text: string;
+  html: string;
+}
+
+/**
+ * Service responsible for rendering localized email templates
+ * The templates live in the `EMAIL` section of the translation files
+ */
+@Injectable()
+export class MailTemplateService {
+  constructor(private readonly i18n: I18nService) {}
+
+  /**
+   * Render a template
+   * @param template Template to render
+   * @param args Values interpolated into the template
+   * @param lang Language to render the template in
+   * @returns Subject, plain text and HTML bodies
+   */
+  render(
+    template: MailTemplate,
+    args: Record<string, unknown>,
+    lang?: string,
+  ): RenderedMail {
+    const subject = this.i18n.t(`translation.EMAIL.${template}.SUBJECT`, {
+      lang,
+      args,
+    });
+    const text = this.i18n.t(`translation.EMAIL.${template}.TEXT`, {
+      lang,
+      args,
+    });
+
+    return { subject, text, html: this.toHtml(subject, text) };
+  }
+
+  /**
+   * Build the HTML body from the plain text body
+   * @param subject Email subject, used as the document title
+   * @param text Plain text body
+   * @returns HTML document
+   */
+  private toHtml(subject: string, text: string): string {
+    const paragraphs = text
+      .split(/\n{2,}/)
+      .map(
+        (paragraph) =>
+          `<p>${this.escapeHtml(paragraph).replace(/\n/g, '<br>')}</p>`,
+      )
+      .join('\n');
+    return [
+      '<!DOCTYPE html>',
+      '<html>',
+      `<head><meta charset="utf-8"><title>${this.escapeHtml(subject)}</title></head>`,
+      `<body>\n${paragraphs}\n</body>`,
+      '</html>',
+    ].join('\n');
+  }
+
+  /**
+   * Escape the characters that have a meaning in HTML
+   * @param value Text to escape
+   * @returns Escaped text
+   */
+  private escapeHtml(value: string): string {
+    return value
+      .replace(/&/g, '&amp;')
+      .replace(/</g, '&lt;')
+      .replace(/>/g, '&gt;')
+      .replace(/"/g, '&quot;')
+      .replace(/'/g, '&#39;');
+  }
+}
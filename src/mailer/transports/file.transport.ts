@@ -0,0 +1,40 @@
+import { Injectable } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { randomUUID } from 'crypto';
+import { promises as fs } from 'fs';
+import * as path from 'path';
+import * as nodemailer from 'nodemailer';
+import { MailMessage, MailTransport } from '../interfaces';
+
+/**
+ * Transport that writes every email as an `.eml` file to a directory
+ * The files can be opened with any mail client
+ */
+@Injectable()
+export class FileMailTransport implements MailTransport {
+  private readonly directory: string;
+  private readonly composer = nodemailer.createTransport({
+    streamTransport: true,
+    buffer: true,
+    newline: 'unix',
+  });
+
+  constructor(configService: ConfigService) {
+    this.directory = path.resolve(
+      configService.get<string>('MAIL_OUTBOX_DIR', 'mail-outbox'),
+    );
+  }
+
+  /**
+   * Write an email to the outbox directory
+   * @param message Email to write
+   */
+  async send(message: MailMessage): Promise<void> {
+    const info = await this.composer.sendMail(message);
+    await fs.mkdir(this.directory, { recursive: true });
+    await fs.writeFile(
+      path.join(this.directory, `${Date.now()}-${randomUUID()}.eml`),
+      info.message as Buffer,
+    );
+  }
+}
@@ -0,0 +1,42 @@
+import { Injectable } from '@nestjs/common';
+import { MailMessage, MailTransport } from '../interfaces';
+
+/**
+ * Transport that keeps emails in memory so that tests can inspect them
+ */
+@Injectable()
+export class InMemoryMailTransport implements MailTransport {
+  private readonly sent: MailMessage[] = [];
+
+  /**
+   * Keep an email
+   * @param message Email to keep
+   */
+  send(message: MailMessage): Promise<void> {
+    this.sent.push({ ...message });
+    return Promise.resolve();
+  }
+
+  /**
+   * Emails delivered so far, oldest first
+   */
+  get messages(): readonly MailMessage[] {
+    return this.sent;
+  }
+
+  /**
+   * Find the last email delivered to an address
+   * @param to Recipient
+   * @returns Email or undefined if none was delivered
+   */
+  lastMessageTo(to: string): MailMessage | undefined {
+    return [...this.sent].reverse().find((message) => message.to === to);
+  }
+
+  /**
+   * Forget the delivered emails
+   */
+  clear(): void {
+    this.sent.length = 0;
+  }
+}
@@ -0,0 +1,4 @@
+export * from './log.transport';
+export * from './in-memory.transport';
+export * from './file.transport';
+export * from './smtp.transport';
@@ -0,0 +1,22 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { MailMessage, MailTransport } from '../interfaces';
+
+/**
+ * Transport that writes emails to the application log instead of sending them
+ * Useful in development, where no mail server is available
+ */
+@Injectable()
+export class LogMailTransport implements MailTransport {
+  private readonly logger = new Logger(LogMailTransport.name);
+
+  /**
+   * Log an email
+   * @param message Email to log
+   */
+  send(message: MailMessage): Promise<void> {
+    this.logger.log(
+      `Email to ${message.to}: ${message.subject}\n${message.text}`,
+    );
+    return Promise.resolve();
+  }
+}
@@ -0,0 +1,32 @@
+import { Injectable } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import * as nodemailer from 'nodemailer';
+import { MailMessage, MailTransport } from '../interfaces';
+
+/**
+ * Transport that sends emails through an SMTP server
+ */
+@Injectable()
+export class SmtpMailTransport implements MailTransport {
+  private readonly transporter: nodemailer.Transporter;
+
+  constructor(configService: ConfigService) {
+    const user = configService.get<string>('SMTP_USER');
+    this.transporter = nodemailer.createTransport({
+      host: configService.get<string>('SMTP_HOST', 'localhost'),
+      port: parseInt(configService.get<string>('SMTP_PORT', '587'), 10),
+      secure: configService.get<string>('SMTP_SECURE', 'false') === 'true',
+      auth: user
+        ? { user, pass: configService.get<string>('SMTP_PASSWORD') }
+        : undefined,
+    });
+  }
+
+  /**
+   * Send an email
+   * @param message Email to send
+   */
+  async send(message: MailMessage): Promise<void> {
+    await this.transporter.sendMail(message);
+  }
+}
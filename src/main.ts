@@ -1,6 +1,6 @@
 import { NestFactory } from '@nestjs/core';
 import { AppModule } from './app.module';
-import { Logger } from '@nestjs/common';
+import { Logger, RequestMethod } from '@nestjs/common';
 import { SwaggerModule, DocumentBuilder } from '@nestjs/swagger';
 import { INestApplication } from '@nestjs/common';
 import * as fs from 'fs';
@@ -9,6 +9,8 @@ import helmet from 'helmet';
 import { ConfigService } from '@nestjs/config';
 import { NestExpressApplication } from '@nestjs/platform-express';
 import * as path from 'path';
+import { useContainer } from 'class-validator';
+import { API_KEY_SECURITY } from './auth/constants';
 
 /**
  * Bootstrap the application
@@ -19,6 +21,9 @@ async function bootstrap() {
     logger: ['error', 'warn', 'log', 'debug', 'verbose'],
   });
 
+  // Let class-validator resolve constraints that need injected services
+  useContainer(app.select(AppModule), { fallbackOnErrors: true });
+
   // Get the config service
   const configService = app.get(ConfigService);
 
@@ -54,7 +59,10 @@ async function bootstrap() {
 
   // Set global prefix
   const apiPrefix = configService.get<string>('API_PREFIX', 'api');
-  app.setGlobalPrefix(apiPrefix);
+  app.setGlobalPrefix(apiPrefix, {
+    // Well-known URIs must stay at the root (RFC 8615)
+    exclude: [{ path: '.well-known/jwks.json', method: RequestMethod.GET }],
+  });
 
   // Serve static files from the public directory
   app.useStaticAssets(path.join(__dirname, '..', 'public'));
@@ -66,6 +74,10 @@ async function bootstrap() {
       .setDescription('API documentation for IntelliScope')
       .setVersion('1.0')
       .addBearerAuth()
+      .addApiKey(
+        { type: 'apiKey', in: 'header', name: 'X-API-Key' },
+        API_KEY_SECURITY,
+      )
       .build();
 
     const document = SwaggerModule.createDocument(app, swaggerConfig);
@@ -0,0 +1,108 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { PermissionsService } from '../permissions.service';
+import { RoleCrudService } from '../services/role-crud.service';
+import { DEFAULT_ROLES, Permission } from '../constants';
+
+describe('PermissionsService', () => {
+  let service: PermissionsService;
+
+  const mockRoleCrudService = {
+    findAll: jest.fn(),
+    findByNames: jest.fn(),
+    findByName: jest.fn(),
+    create: jest.fn(),
+    update: jest.fn(),
+    remove: jest.fn(),
+    ensureExists: jest.fn(),
+  };
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        PermissionsService,
+        {
+          provide: RoleCrudService,
+          useValue: mockRoleCrudService,
+        },
+      ],
+    }).compile();
+
+    service = module.get<PermissionsService>(PermissionsService);
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('should be defined', () => {
+    expect(service).toBeDefined();
+  });
+
+  describe('onModuleInit', () => {
+    it('should seed every default role', async () => {
+      // Act
+      await service.onModuleInit();
+
+      // Assert
+      expect(mockRoleCrudService.ensureExists).toHaveBeenCalledTimes(
+        DEFAULT_ROLES.length,
+      );
+    });
+  });
+
+  describe('resolvePermissions', () => {
+    it('should return the union of the permissions of all roles', async () => {
+      // Arrange
+      mockRoleCrudService.findByNames.mockResolvedValue([
+        { name: 'auditor', permissions: ['activity-logs:read'] },
+        {
+          name: 'support',
+          permissions: ['users:read', 'activity-logs:read'],
+        },
+      ]);
+
+      // Act
+      const result = await service.resolvePermissions(['auditor', 'support']);
+
+      // Assert
+      expect(mockRoleCrudService.findByNames).toHaveBeenCalledWith([
+        'auditor',
+        'support',
+      ]);
+      expect(result.sort()).toEqual(['activity-logs:read', 'users:read']);
+    });
+
+    it('should not query the database when there are no roles', async () => {
+      // Act
+      const result = await service.resolvePermissions([]);
+
+      // Assert
+      expect(result).toEqual([]);
+      expect(mockRoleCrudService.findByNames).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('roleExists', () => {
+    it('should return true when the role is found', async () => {
+      // Arrange
+      mockRoleCrudService.findByName.mockResolvedValue({ name: 'auditor' });
+
+      // Act & Assert
+      await expect(service.roleExists('auditor')).resolves.toBe(true);
+    });
+
+    it('should return false when the role is not found', async () => {
+      // Arrange
+      mockRoleCrudService.findByName.mockResolvedValue(null);
+
+      // Act & Assert
+      await expect(service.roleExists('missing')).resolves.toBe(false);
+    });
+  });
+
+  describe('listPermissions', () => {
+    it('should list every known permission', () => {
+      expect(service.listPermissions()).toEqual(Object.values(Permission));
+    });
+  });
+});
@@ -0,0 +1,113 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { getModelToken } from '@nestjs/mongoose';
+import { BadRequestException } from '@nestjs/common';
+import { I18nService, I18nContext } from 'nestjs-i18n';
+import { RoleCrudService } from '../../services/role-crud.service';
+import { Role } from '../../schemas';
+import { createMockI18nService } from '../../../common/__tests__/test-utils';
+
+describe('RoleCrudService', () => {
+  let service: RoleCrudService;
+
+  const createQuery = (value: unknown) => ({
+    exec: jest.fn().mockResolvedValue(value),
+  });
+
+  const mockRoleModel = {
+    findOne: jest.fn(),
+    findOneAndUpdate: jest.fn(),
+  };
+
+  beforeEach(async () => {
+    jest
+      .spyOn(I18nContext, 'current')
+      .mockReturnValue({ lang: 'en' } as I18nContext<unknown>);
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        RoleCrudService,
+        { provide: getModelToken(Role.name), useValue: mockRoleModel },
+        { provide: I18nService, useValue: createMockI18nService() },
+      ],
+    }).compile();
+
+    service = module.get<RoleCrudService>(RoleCrudService);
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('update', () => {
+    it('should refuse to remove the wildcard from the admin role', async () => {
+      // Arrange
+      mockRoleModel.findOne.mockReturnValue(
+        createQuery({ name: 'admin', permissions: ['*'], isSystem: true }),
+      );
+
+      // Act & Assert
+      await expect(
+        service.update('admin', { permissions: [] }),
+      ).rejects.toThrow(BadRequestException);
+      expect(mockRoleModel.findOneAndUpdate).not.toHaveBeenCalled();
+    });
+
+    it('should let a system role gain permissions', async () => {
+      // Arrange
+      mockRoleModel.findOne.mockReturnValue(
+        createQuery({ name: 'user', permissions: [], isSystem: true }),
+      );
+      mockRoleModel.findOneAndUpdate.mockReturnValue(
+        createQuery({ name: 'user', permissions: ['users:read'] }),
+      );
+
+      // Act
+      await service.update('user', { permissions: ['users:read'] });
+
+      // Assert
+      expect(mockRoleModel.findOneAndUpdate).toHaveBeenCalledWith(
+        { name: 'user' },
+        { permissions: ['users:read'] },
+        { new: true },
+      );
+    });
+
+    it('should let a custom role lose every permission', async () => {
+      // Arrange
+      mockRoleModel.findOne.mockReturnValue(
+        createQuery({
+          name: 'editor',
+          permissions: ['users:update'],
+          isSystem: false,
+        }),
+      );
+      mockRoleModel.findOneAndUpdate.mockReturnValue(
+        createQuery({ name: 'editor', permissions: [] }),
+      );
+
+      // Act
+      await service.update('editor', { permissions: [] });
+
+      // Assert
+      expect(mockRoleModel.findOneAndUpdate).toHaveBeenCalled();
+    });
+
+    it('should update the description of a system role', async () => {
+      // Arrange
+      mockRoleModel.findOneAndUpdate.mockReturnValue(
+        createQuery({ name: 'admin', permissions: ['*'] }),
+      );
+
+      // Act
+      await service.update('admin', { description: 'Administrators' });
+
+      // Assert
+      expect(mockRoleModel.findOne).not.toHaveBeenCalled();
+      expect(mockRoleModel.findOneAndUpdate).toHaveBeenCalledWith(
+        { name: 'admin' },
+        { description: 'Administrators' },
+        { new: true },
+      );
+    });
+  });
+});
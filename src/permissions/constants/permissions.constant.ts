@@ -0,0 +1,50 @@
+import { UserRole } from '../../users/enums';
+
+/**
+ * Permission strings understood by the PermissionsGuard
+ * Format: `<resource>:<action>`
+ */
+export enum Permission {
+  USERS_CREATE = 'users:create',
+  USERS_READ = 'users:read',
+  USERS_UPDATE = 'users:update',
+  USERS_DELETE = 'users:delete',
+  USERS_MANAGE_ROLES = 'users:manage-roles',
+  USERS_MANAGE_SESSIONS = 'users:manage-sessions',
+  USERS_UNLOCK = 'users:unlock',
+  USERS_RESET_MFA = 'users:reset-mfa',
+  USERS_IMPERSONATE = 'users:impersonate',
+  USERS_SUSPEND = 'users:suspend',
+  USERS_ERASE = 'users:erase',
+  ROLES_READ = 'roles:read',
+  ROLES_MANAGE = 'roles:manage',
+  ACTIVITY_LOGS_READ = 'activity-logs:read',
+  ACTIVITY_LOGS_EXPORT = 'activity-logs:export',
+  OAUTH_CLIENTS_MANAGE = 'oauth-clients:manage',
+}
+
+/**
+ * Wildcard granting every permission
+ */
+export const ALL_PERMISSIONS_WILDCARD = '*';
+
+/**
+ * Roles created on startup when they do not exist yet
+ * System roles cannot be deleted through the admin API
+ */
+export const DEFAULT_ROLES: Array<{
+  name: string;
+  description: string;
+  permissions: string[];
+}> = [
+  {
+    name: UserRole.ADMIN,
+    description: 'Full access to every resource',
+    permissions: [ALL_PERMISSIONS_WILDCARD],
+  },
+  {
+    name: UserRole.USER,
+    description: 'Default role for registered users',
+    permissions: [],
+  },
+];
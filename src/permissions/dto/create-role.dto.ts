@@ -0,0 +1,50 @@
+import {
+  IsArray,
+  IsNotEmpty,
+  IsOptional,
+  IsString,
+  Matches,
+} from 'class-validator';
+import { i18nValidationMessage } from 'nestjs-i18n';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+
+/**
+ * Pattern for permission strings: `*`, `<resource>:*` or `<resource>:<action>`
+ */
+export const PERMISSION_PATTERN = /^(\*|[a-z-]+:(\*|[a-z-]+))$/;
+
+export class CreateRoleDto {
+  @ApiProperty({
+    description: 'Unique name of the role',
+    example: 'auditor',
+  })
+  @IsNotEmpty({
+    message: i18nValidationMessage('translation.VALIDATION.ROLE_NOT_EMPTY'),
+  })
+  @IsString()
+  @Matches(/^[a-z][a-z0-9-]*$/, {
+    message: i18nValidationMessage('translation.VALIDATION.ROLE_NAME_INVALID'),
+  })
+  readonly name: string;
+
+  @ApiPropertyOptional({
+    description: 'Human-readable description of the role',
+    example: 'Read-only access to activity logs',
+  })
+  @IsOptional()
+  @IsString()
+  readonly description?: string;
+
+  @ApiProperty({
+    description: 'Permissions granted by the role',
+    example: ['activity-logs:read', 'activity-logs:export'],
+    type: [String],
+  })
+  @IsArray()
+  @IsString({ each: true })
+  @Matches(PERMISSION_PATTERN, {
+    each: true,
+    message: i18nValidationMessage('translation.VALIDATION.PERMISSION_INVALID'),
+  })
+  readonly permissions: string[];
+}
@@ -0,0 +1,2 @@
+export * from './create-role.dto';
+export * from './update-role.dto';
@@ -0,0 +1,28 @@
+import { IsArray, IsOptional, IsString, Matches } from 'class-validator';
+import { i18nValidationMessage } from 'nestjs-i18n';
+import { ApiPropertyOptional } from '@nestjs/swagger';
+import { PERMISSION_PATTERN } from './create-role.dto';
+
+export class UpdateRoleDto {
+  @ApiPropertyOptional({
+    description: 'Human-readable description of the role',
+    example: 'Read-only access to activity logs',
+  })
+  @IsOptional()
+  @IsString()
+  readonly description?: string;
+
+  @ApiPropertyOptional({
+    description: 'Permissions granted by the role (replaces the current set)',
+    example: ['activity-logs:read'],
+    type: [String],
+  })
+  @IsOptional()
+  @IsArray()
+  @IsString({ each: true })
+  @Matches(PERMISSION_PATTERN, {
+    each: true,
+    message: i18nValidationMessage('translation.VALIDATION.PERMISSION_INVALID'),
+  })
+  readonly permissions?: string[];
+}
@@ -0,0 +1,21 @@
+// Export the module
+export * from './permissions.module';
+
+// Export the service
+export * from './permissions.service';
+
+// Export the controller
+export * from './permissions.controller';
+
+// Export services
+export * from './services';
+
+// Export schemas
+export * from './schemas/role.schema';
+
+// Export constants
+export * from './constants';
+
+// Export DTOs
+export * from './dto/create-role.dto';
+export * from './dto/update-role.dto';
@@ -0,0 +1,169 @@
+// src/permissions/permissions.controller.ts
+import {
+  Controller,
+  Get,
+  Post,
+  Body,
+  Patch,
+  Param,
+  Delete,
+  UseGuards,
+  ValidationPipe,
+  HttpCode,
+  HttpStatus,
+} from '@nestjs/common';
+import { I18n, I18nContext } from 'nestjs-i18n';
+import {
+  ApiTags,
+  ApiOperation,
+  ApiParam,
+  ApiBody,
+  ApiBearerAuth,
+  ApiCreatedResponse,
+  ApiUnauthorizedResponse,
+  ApiForbiddenResponse,
+  ApiNotFoundResponse,
+  ApiNoContentResponse,
+  ApiOkResponse,
+  ApiSecurity,
+  ApiBadRequestResponse,
+} from '@nestjs/swagger';
+import { PermissionsService } from './permissions.service';
+import { CreateRoleDto, UpdateRoleDto } from './dto';
+import { Permission } from './constants';
+import { JwtOrApiKeyAuthGuard } from '../auth/guards/jwt-or-api-key-auth.guard';
+import { API_KEY_SECURITY } from '../auth/constants';
+import { PermissionsGuard, RequirePermissions } from '../common';
+
+const roleSchema = {
+  type: 'object',
+  properties: {
+    _id: { type: 'string', example: '60d21b4667d0d8992e610c85' },
+    name: { type: 'string', example: 'auditor' },
+    description: {
+      type: 'string',
+      example: 'Read-only access to activity logs',
+    },
+    permissions: {
+      type: 'array',
+      items: { type: 'string' },
+      example: ['activity-logs:read'],
+    },
+    isSystem: { type: 'boolean', example: false },
+  },
+};
+
+@ApiTags('Roles & Permissions')
+@ApiBearerAuth()
+@ApiSecurity(API_KEY_SECURITY)
+@ApiUnauthorizedResponse({ description: 'Unauthorized' })
+@ApiForbiddenResponse({ description: 'Insufficient permissions' })
+@UseGuards(JwtOrApiKeyAuthGuard, PermissionsGuard)
+@Controller('roles')
+export class PermissionsController {
+  constructor(private readonly permissionsService: PermissionsService) {}
+
+  @ApiOperation({ summary: 'List all roles and their permissions' })
+  @ApiOkResponse({
+    description: 'Returns all roles',
+    schema: { type: 'array', items: roleSchema },
+  })
+  @RequirePermissions(Permission.ROLES_READ)
+  @Get()
+  findAll() {
+    return this.permissionsService.findAllRoles();
+  }
+
+  @ApiOperation({ summary: 'List the permissions known to the application' })
+  @ApiOkResponse({
+    description: 'Returns all permission strings',
+    schema: {
+      type: 'array',
+      items: { type: 'string' },
+      example: ['users:read', 'users:delete', 'activity-logs:export'],
+    },
+  })
+  @RequirePermissions(Permission.ROLES_READ)
+  @Get('permissions')
+  listPermissions() {
+    return this.permissionsService.listPermissions();
+  }
+
+  @ApiOperation({ summary: 'Create a new role' })
+  @ApiBody({ type: CreateRoleDto })
+  @ApiCreatedResponse({
+    description: 'The role has been successfully created',
+    schema: {
+      type: 'object',
+      properties: {
+        message: { type: 'string', example: 'Role created successfully' },
+        role: roleSchema,
+      },
+    },
+  })
+  @RequirePermissions(Permission.ROLES_MANAGE)
+  @Post()
+  @HttpCode(HttpStatus.CREATED)
+  async create(
+    @Body(new ValidationPipe({ transform: true, whitelist: true }))
+    createRoleDto: CreateRoleDto,
+    @I18n() i18n: I18nContext,
+  ) {
+    const role = await this.permissionsService.createRole(createRoleDto);
+    return {
+      message: i18n.t('translation.ROLE.CREATED_SUCCESS'),
+      role,
+    };
+  }
+
+  @ApiOperation({ summary: 'Update the description or permissions of a role' })
+  @ApiParam({ name: 'name', description: 'Role name', example: 'auditor' })
+  @ApiBody({ type: UpdateRoleDto })
+  @ApiOkResponse({
+    description: 'The role has been successfully updated',
+    schema: {
+      type: 'object',
+      properties: {
+        message: { type: 'string', example: 'Role updated successfully' },
+        role: roleSchema,
+      },
+    },
+  })
+  @ApiBadRequestResponse({
+    description: 'A system role would lose one of its default permissions',
+  })
+  @ApiNotFoundResponse({ description: 'Role not found' })
+  @RequirePermissions(Permission.ROLES_MANAGE)
+  @Patch(':name')
+  async update(
+    @Param('name') name: string,
+    @Body(
+      new ValidationPipe({
+        transform: true,
+        whitelist: true,
+        skipMissingProperties: true,
+      }),
+    )
+    updateRoleDto: UpdateRoleDto,
+    @I18n() i18n: I18nContext,
+  ) {
+    const role = await this.permissionsService.updateRole(name, updateRoleDto);
+    return {
+      message: i18n.t('translation.ROLE.UPDATED_SUCCESS'),
+      role,
+    };
+  }
+
+  @ApiOperation({ summary: 'Delete a role' })
+  @ApiParam({ name: 'name', description: 'Role name', example: 'auditor' })
+  @ApiNoContentResponse({
+    description: 'The role has been successfully deleted',
+  })
+  @ApiNotFoundResponse({ description: 'Role not found' })
+  @RequirePermissions(Permission.ROLES_MANAGE)
+  @Delete(':name')
+  @HttpCode(HttpStatus.NO_CONTENT)
+  async remove(@Param('name') name: string) {
+    await this.permissionsService.removeRole(name);
+  }
+}
@@ -0,0 +1,35 @@
+import { Global, Module } from '@nestjs/common';
+import { MongooseModule } from '@nestjs/mongoose';
+import { Role, RoleSchema } from './schemas';
+import { PermissionsService } from './permissions.service';
+import { PermissionsController } from './permissions.controller';
+import { RoleCrudService } from './services';
+import { PERMISSIONS_RESOLVER } from '../common/interfaces';
+
+/**
+ * Module for role-based permissions
+ * This is a global module so that PermissionsGuard can resolve permissions
+ * from any controller
+ */
+@Global()
+@Module({
+  imports: [
+    MongooseModule.forFeature([{ name: Role.name, schema: RoleSchema }]),
+  ],
+  controllers: [PermissionsController],
+  providers: [
+    // Main service (facade)
+    PermissionsService,
+
+    // Specialized services
+    RoleCrudService,
+
+    // Resolver used by PermissionsGuard
+    {
+      provide: PERMISSIONS_RESOLVER,
+      useExisting: PermissionsService,
+    },
+  ],
+  exports: [PermissionsService, PERMISSIONS_RESOLVER],
+})
+export class PermissionsModule {}
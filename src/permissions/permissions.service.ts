@@ -0,0 +1,111 @@
+import { Injectable, Logger, OnModuleInit } from '@nestjs/common';
+import { PermissionsResolver } from '../common/interfaces';
+import { RoleCrudService } from './services';
+import { CreateRoleDto, UpdateRoleDto } from './dto';
+import { RoleDocument } from './schemas';
+import { DEFAULT_ROLES, Permission } from './constants';
+
+/**
+ * Main service for permission operations
+ * Acts as a facade for the role services and resolves effective permissions
+ */
+@Injectable()
+export class PermissionsService implements OnModuleInit, PermissionsResolver {
+  private readonly logger = new Logger(PermissionsService.name);
+
+  constructor(private readonly roleCrudService: RoleCrudService) {}
+
+  /**
+   * Seed the default roles
+   */
+  async onModuleInit(): Promise<void> {
+    try {
+      for (const role of DEFAULT_ROLES) {
+        await this.roleCrudService.ensureExists(role);
+      }
+    } catch (error: unknown) {
+      const err = error as Error;
+      this.logger.error(
+        `Failed to seed default roles: ${err.message}`,
+        err.stack,
+      );
+    }
+  }
+
+  /**
+   * Resolve the effective permissions of a set of roles
+   * @param roles Role names
+   * @returns Union of the permissions granted by the roles
+   */
+  async resolvePermissions(roles: string[]): Promise<string[]> {
+    if (roles.length === 0) {
+      return [];
+    }
+
+    const roleDocuments = await this.roleCrudService.findByNames(roles);
+    const permissions = new Set<string>();
+    for (const role of roleDocuments) {
+      for (const permission of role.permissions ?? []) {
+        permissions.add(permission);
+      }
+    }
+    return [...permissions];
+  }
+
+  /**
+   * Check whether a role exists
+   * @param name Role name
+   * @returns True if the role exists
+   */
+  async roleExists(name: string): Promise<boolean> {
+    const role = await this.roleCrudService.findByName(name);
+    return role !== null;
+  }
+
+  /**
+   * List the permissions known to the application
+   * @returns Permission strings
+   */
+  listPermissions(): string[] {
+    return Object.values(Permission);
+  }
+
+  /**
+   * Find all roles
+   * @returns List of roles
+   */
+  async findAllRoles(): Promise<RoleDocument[]> {
+    return this.roleCrudService.findAll();
+  }
+
+  /**
+   * Create a new role
+   * @param createRoleDto Role creation data
+   * @returns Created role
+   */
+  async createRole(createRoleDto: CreateRoleDto): Promise<RoleDocument> {
+    return this.roleCrudService.create(createRoleDto);
+  }
+
+  /**
+   * Update a role
+   * @param name Role name
+   * @param updateRoleDto Role update data
+   * @returns Updated role
+   */
+  async updateRole(
+    name: string,
+    updateRoleDto: UpdateRoleDto,
+  ): Promise<RoleDocument> {
+    return this.roleCrudService.update(name, updateRoleDto);
+  }
+
+  /**
+   * Remove a role
+   * @param name Role name
+   * @returns Deletion result
+   */
+  async removeRole(name: string): Promise<{ deleted: boolean }> {
+    return this.roleCrudService.remove(name);
+  }
+}
@@ -0,0 +1,21 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { Document } from 'mongoose';
+
+export type RoleDocument = Role & Document;
+
+@Schema({ collection: 'roles', timestamps: true })
+export class Role {
+  @Prop({ required: true, unique: true, trim: true, lowercase: true })
+  name: string;
+
+  @Prop({ trim: true })
+  description?: string;
+
+  @Prop({ type: [String], default: [] })
+  permissions: string[];
+
+  @Prop({ default: false }) // System roles cannot be deleted
+  isSystem: boolean;
+}
+
+export const RoleSchema = SchemaFactory.createForClass(Role);
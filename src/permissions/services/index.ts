@@ -0,0 +1 @@
+export * from './role-crud.service';
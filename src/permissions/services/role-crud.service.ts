@@ -0,0 +1,194 @@
+import {
+  Injectable,
+  ConflictException,
+  NotFoundException,
+  BadRequestException,
+} from '@nestjs/common';
+import { InjectModel } from '@nestjs/mongoose';
+import { Model } from 'mongoose';
+import { I18nService, I18nContext } from 'nestjs-i18n';
+import { Role, RoleDocument } from '../schemas';
+import { CreateRoleDto, UpdateRoleDto } from '../dto';
+import { DEFAULT_ROLES } from '../constants';
+
+/**
+ * Service responsible for role CRUD operations
+ */
+@Injectable()
+export class RoleCrudService {
+  constructor(
+    @InjectModel(Role.name) private roleModel: Model<RoleDocument>,
+    private readonly i18n: I18nService,
+  ) {}
+
+  /**
+   * Find all roles
+   * @returns List of roles
+   */
+  async findAll(): Promise<RoleDocument[]> {
+    return this.roleModel.find().sort({ name: 1 }).exec();
+  }
+
+  /**
+   * Find roles by name
+   * @param names Role names
+   * @returns Matching roles
+   */
+  async findByNames(names: string[]): Promise<RoleDocument[]> {
+    return this.roleModel.find({ name: { $in: names } }).exec();
+  }
+
+  /**
+   * Find a role by name
+   * @param name Role name
+   * @returns Role or null if not found
+   */
+  async findByName(name: string): Promise<RoleDocument | null> {
+    return this.roleModel.findOne({ name: name.toLowerCase() }).exec();
+  }
+
+  /**
+   * Create a new role
+   * @param createRoleDto Role creation data
+   * @returns Created role
+   */
+  async create(createRoleDto: CreateRoleDto): Promise<RoleDocument> {
+    const existingRole = await this.findByName(createRoleDto.name);
+    if (existingRole) {
+      throw new ConflictException(
+        this.i18n.t('translation.ROLE.ALREADY_EXISTS', {
+          lang: I18nContext.current()?.lang,
+          args: { name: createRoleDto.name },
+        }),
+      );
+    }
+
+    const createdRole = new this.roleModel({
+      name: createRoleDto.name,
+      description: createRoleDto.description,
+      permissions: [...new Set(createRoleDto.permissions)],
+      isSystem: false,
+    });
+    return createdRole.save();
+  }
+
+  /**
+   * Update a role
+   * System roles may gain permissions but keep their default ones, so the
+   * admin role cannot lose the wildcard
+   * @param name Role name
+   * @param updateRoleDto Role update data
+   * @returns Updated role
+   * @throws BadRequestException if a default permission of a system role would be removed
+   */
+  async update(
+    name: string,
+    updateRoleDto: UpdateRoleDto,
+  ): Promise<RoleDocument> {
+    const updateData: Partial<Role> = {};
+    if (updateRoleDto.description !== undefined) {
+      updateData.description = updateRoleDto.description;
+    }
+    if (updateRoleDto.permissions !== undefined) {
+      updateData.permissions = [...new Set(updateRoleDto.permissions)];
+
+      const role = await this.findByName(name);
+      if (!role) {
+        throw this.notFound(name);
+      }
+      if (role.isSystem) {
+        this.assertKeepsDefaultPermissions(role.name, updateData.permissions);
+      }
+    }
+
+    const updatedRole = await this.roleModel
+      .findOneAndUpdate({ name: name.toLowerCase() }, updateData, {
+        new: true,
+      })
+      .exec();
+    if (!updatedRole) {
+      throw this.notFound(name);
+    }
+    return updatedRole;
+  }
+
+  /**
+   * Remove a role
+   * @param name Role name
+   * @returns Deletion result
+   */
+  async remove(name: string): Promise<{ deleted: boolean }> {
+    const role = await this.findByName(name);
+    if (!role) {
+      throw this.notFound(name);
+    }
+    if (role.isSystem) {
+      throw new BadRequestException(
+        this.i18n.t('translation.ROLE.SYSTEM_ROLE_PROTECTED', {
+          lang: I18nContext.current()?.lang,
+          args: { name },
+        }),
+      );
+    }
+
+    await this.roleModel.deleteOne({ _id: role._id }).exec();
+    return { deleted: true };
+  }
+
+  /**
+   * Create a role if it does not exist yet
+   * @param role Role definition
+   */
+  async ensureExists(role: {
+    name: string;
+    description: string;
+    permissions: string[];
+  }): Promise<void> {
+    await this.roleModel
+      .updateOne(
+        { name: role.name },
+        { $setOnInsert: { ...role, isSystem: true } },
+        { upsert: true },
+      )
+      .exec();
+  }
+
+  /**
+   * Make sure a system role keeps the permissions it was seeded with
+   * @param name Role name
+   * @param permissions New permissions of the role
+   * @throws BadRequestException if a default permission is missing
+   */
+  private assertKeepsDefaultPermissions(
+    name: string,
+    permissions: string[],
+  ): void {
+    const defaults =
+      DEFAULT_ROLES.find((role) => role.name === name)?.permissions ?? [];
+    const missing = defaults.filter(
+      (permission) => !permissions.includes(permission),
+    );
+    if (missing.length > 0) {
+      throw new BadRequestException(
+        this.i18n.t('translation.ROLE.SYSTEM_PERMISSIONS_PROTECTED', {
+          lang: I18nContext.current()?.lang,
+          args: { name, permissions: missing.join(', ') },
+        }),
+      );
+    }
+  }
+
+  /**
+   * Build a not found exception for a role
+   * @param name Role name
+   * @returns NotFoundException
+   */
+  private notFound(name: string): NotFoundException {
+    return new NotFoundException(
+      this.i18n.t('translation.ROLE.NOT_FOUND', {
+        lang: I18nContext.current()?.lang,
+        args: { name },
+      }),
+    );
+  }
+}
@@ -0,0 +1,125 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { ConfigService } from '@nestjs/config';
+import { PasswordHasherService } from '../../services/password-hasher.service';
+import { createMockConfigService } from '../../../common/__tests__/test-utils';
+
+describe('PasswordHasherService', () => {
+  // Low costs keep the tests fast
+  const lowCosts = {
+    ARGON2_MEMORY_COST: '1024',
+    ARGON2_TIME_COST: '1',
+    ARGON2_PARALLELISM: '1',
+    BCRYPT_COST: '4',
+  };
+
+  const createService = async (config: Record<string, string> = {}) => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        PasswordHasherService,
+        {
+          provide: ConfigService,
+          useValue: createMockConfigService({ ...lowCosts, ...config }),
+        },
+      ],
+    }).compile();
+
+    return module.get<PasswordHasherService>(PasswordHasherService);
+  };
+
+  describe('hash', () => {
+    it('should hash with argon2id by default', async () => {
+      // Arrange
+      const service = await createService();
+
+      // Act
+      const hash = await service.hash('password');
+
+      // Assert
+      expect(hash).toMatch(/^\$argon2id\$v=19\$m=1024,t=1,p=1\$/);
+      await expect(service.verify('password', hash)).resolves.toBe(true);
+      await expect(service.verify('wrong', hash)).resolves.toBe(false);
+    });
+
+    it('should hash with bcrypt when configured', async () => {
+      // Arrange
+      const service = await createService({
+        PASSWORD_HASH_ALGORITHM: 'bcrypt',
+      });
+
+      // Act
+      const hash = await service.hash('password');
+
+      // Assert
+      expect(hash).toMatch(/^\$2b\$04\$/);
+      await expect(service.verify('password', hash)).resolves.toBe(true);
+    });
+  });
+
+  describe('verify', () => {
+    it('should verify hashes of every supported algorithm', async () => {
+      // Arrange
+      const bcryptHash = await (
+        await createService({ PASSWORD_HASH_ALGORITHM: 'bcrypt' })
+      ).hash('password');
+      const service = await createService();
+
+      // Act & Assert
+      await expect(service.verify('password', bcryptHash)).resolves.toBe(true);
+    });
+
+    it('should return false for a hash of an unknown algorithm', async () => {
+      // Arrange
+      const service = await createService();
+
+      // Act & Assert
+      await expect(service.verify('password', 'plain-md5')).resolves.toBe(
+        false,
+      );
+    });
+  });
+
+  describe('needsRehash', () => {
+    it('should not rehash a hash made with the configured parameters', async () => {
+      // Arrange
+      const service = await createService();
+      const hash = await service.hash('password');
+
+      // Act & Assert
+      expect(service.needsRehash(hash)).toBe(false);
+    });
+
+    it('should rehash a hash of another algorithm', async () => {
+      // Arrange
+      const bcryptHash = await (
+        await createService({ PASSWORD_HASH_ALGORITHM: 'bcrypt' })
+      ).hash('password');
+      const service = await createService();
+
+      // Act & Assert
+      expect(service.needsRehash(bcryptHash)).toBe(true);
+    });
+
+    it('should rehash an argon2id hash with a lower cost than configured', async () => {
+      // Arrange
+      const hash = await (await createService()).hash('password');
+      const service = await createService({ ARGON2_TIME_COST: '2' });
+
+      // Act & Assert
+      expect(service.needsRehash(hash)).toBe(true);
+    });
+
+    it('should rehash a bcrypt hash with a lower cost than configured', async () => {
+      // Arrange
+      const hash = await (
+        await createService({ PASSWORD_HASH_ALGORITHM: 'bcrypt' })
+      ).hash('password');
+      const service = await createService({
+        PASSWORD_HASH_ALGORITHM: 'bcrypt',
+        BCRYPT_COST: '5',
+      });
+
+      // Act & Assert
+      expect(service.needsRehash(hash)).toBe(true);
+    });
+  });
+});
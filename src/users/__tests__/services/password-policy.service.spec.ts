@@ -0,0 +1,132 @@
+import { ConfigService } from '@nestjs/config';
+import { PasswordPolicyService } from '../../services/password-policy.service';
+import { createMockConfigService } from '../../../common/__tests__/test-utils';
+
+describe('PasswordPolicyService', () => {
+  const createService = (values: Record<string, string> = {}) =>
+    new PasswordPolicyService(
+      createMockConfigService(values) as unknown as ConfigService,
+    );
+
+  it('should use the defaults when nothing is configured', () => {
+    // Act
+    const policy = createService().getPolicy();
+
+    // Assert
+    expect(policy).toEqual({
+      minLength: 8,
+      maxBytes: 128,
+      requireUppercase: false,
+      requireLowercase: false,
+      requireDigit: false,
+      requireSymbol: false,
+      rejectCommon: true,
+      historySize: 5,
+    });
+  });
+
+  it('should never allow more than the 72 bytes bcrypt hashes', () => {
+    // Act
+    const policy = createService({
+      PASSWORD_HASH_ALGORITHM: 'bcrypt',
+      PASSWORD_MAX_LENGTH: '128',
+    }).getPolicy();
+
+    // Assert
+    expect(policy.maxBytes).toBe(72);
+  });
+
+  it('should default to the 72 bytes bcrypt hashes with bcrypt', () => {
+    // Act
+    const policy = createService({
+      PASSWORD_HASH_ALGORITHM: 'bcrypt',
+    }).getPolicy();
+
+    // Assert
+    expect(policy.maxBytes).toBe(72);
+  });
+
+  it('should allow more than 72 bytes with argon2id', () => {
+    // Act
+    const policy = createService({
+      PASSWORD_HASH_ALGORITHM: 'argon2id',
+      PASSWORD_MAX_LENGTH: '256',
+    }).getPolicy();
+
+    // Assert
+    expect(policy.maxBytes).toBe(256);
+  });
+
+  it('should accept a password that follows the policy', () => {
+    // Act
+    const violation = createService().check('correct-horse-42');
+
+    // Assert
+    expect(violation).toBeNull();
+  });
+
+  it('should reject a password that is too short', () => {
+    // Act
+    const violation = createService({ PASSWORD_MIN_LENGTH: '10' }).check(
+      'short-pw1',
+    );
+
+    // Assert
+    expect(violation).toEqual({
+      key: 'PASSWORD_MIN_LENGTH',
+      constraints: [10],
+    });
+  });
+
+  it('should count the length in bytes against the maximum', () => {
+    // Arrange
+    const password = 'パスワード'.repeat(5); // 25 characters, 75 bytes
+
+    // Act
+    const violation = createService({
+      PASSWORD_HASH_ALGORITHM: 'bcrypt',
+    }).check(password);
+
+    // Assert
+    expect(violation).toEqual({
+      key: 'PASSWORD_MAX_LENGTH',
+      constraints: [72],
+    });
+  });
+
+  it.each([
+    ['PASSWORD_REQUIRE_UPPERCASE', 'lowercase-only-1', 'UPPERCASE'],
+    ['PASSWORD_REQUIRE_LOWERCASE', 'UPPERCASE-ONLY-1', 'LOWERCASE'],
+    ['PASSWORD_REQUIRE_DIGIT', 'no-digits-here', 'DIGIT'],
+    ['PASSWORD_REQUIRE_SYMBOL', 'NoSymbols123', 'SYMBOL'],
+  ])(
+    'should enforce %s',
+    (setting: string, password: string, characterClass: string) => {
+      // Act
+      const violation = createService({ [setting]: 'true' }).check(password);
+
+      // Assert
+      expect(violation).toEqual({
+        key: `PASSWORD_${characterClass}_REQUIRED`,
+      });
+    },
+  );
+
+  it('should reject a common password regardless of case', () => {
+    // Act
+    const violation = createService().check('Password123');
+
+    // Assert
+    expect(violation).toEqual({ key: 'PASSWORD_TOO_COMMON' });
+  });
+
+  it('should allow common passwords when the check is disabled', () => {
+    // Act
+    const violation = createService({ PASSWORD_REJECT_COMMON: 'false' }).check(
+      'password123',
+    );
+
+    // Assert
+    expect(violation).toBeNull();
+  });
+});
@@ -1,30 +1,39 @@
 import { Test, TestingModule } from '@nestjs/testing';
 import { getModelToken } from '@nestjs/mongoose';
-import { Model, Query } from 'mongoose';
-import { InternalServerErrorException } from '@nestjs/common';
+import {
+  InternalServerErrorException,
+  BadRequestException,
+  ConflictException,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
 import { I18nService, I18nContext } from 'nestjs-i18n';
 import { UserAuthenticationService } from '../../services/user-authentication.service';
-import { User, UserDocument } from '../../schemas/user.schema';
+import { PasswordPolicyService } from '../../services/password-policy.service';
+import { PasswordHasherService } from '../../services/password-hasher.service';
+import { User } from '../../schemas/user.schema';
 import {
   createMockI18nService,
   createMockModel,
+  createMockConfigService,
 } from '../../../common/__tests__/test-utils';
 import * as bcrypt from 'bcrypt';
 
 jest.mock('bcrypt');
 
 describe('UserAuthenticationService', () => {
+  let module: TestingModule;
   let service: UserAuthenticationService;
-  let userModel: Model<UserDocument>;
   // Unused variable prefixed with underscore to indicate it's intentionally unused
   let _i18nService: I18nService;
 
+  const bcryptHash =
+    '$2b$10$abcdefghijklmnopqrstuuvwxyzABCDEFGHIJKLMNOPQRSTUVWXYZ0';
+
   const mockUser = {
     _id: 'user-id',
     email: 'test@example.com',
     name: 'Test User',
     password_hash: 'hashed_password',
-    hashedRefreshToken: 'hashed_refresh_token',
   };
 
   // Using _MockUser with underscore prefix to indicate it's used for type checking only
@@ -42,7 +51,7 @@ describe('UserAuthenticationService', () => {
       validate: jest.fn(),
     } as unknown as I18nContext<unknown>);
 
-    const module: TestingModule = await Test.createTestingModule({
+    module = await Test.createTestingModule({
       providers: [
         UserAuthenticationService,
         {
@@ -53,11 +62,21 @@ describe('UserAuthenticationService', () => {
           provide: I18nService,
           useValue: createMockI18nService(),
         },
+        PasswordPolicyService,
+        PasswordHasherService,
+        {
+          provide: ConfigService,
+          useValue: createMockConfigService({
+            PASSWORD_HISTORY_SIZE: '3',
+            PASSWORD_HASH_ALGORITHM: 'bcrypt',
+            BCRYPT_COST: '10',
+            JWT_REFRESH_SECRET: 'refresh-secret',
+          }),
+        },
       ],
     }).compile();
 
     service = module.get<UserAuthenticationService>(UserAuthenticationService);
-    userModel = module.get<Model<UserDocument>>(getModelToken(User.name));
     _i18nService = module.get<I18nService>(I18nService);
   });
 
@@ -113,14 +132,11 @@ describe('UserAuthenticationService', () => {
       compareMock.mockResolvedValueOnce(true);
 
       // Act
-      const result = await service.comparePasswords(
-        'password',
-        'hashed_password',
-      );
+      const result = await service.comparePasswords('password', bcryptHash);
 
       // Assert
       const compareSpy = jest.spyOn(bcrypt, 'compare');
-      expect(compareSpy).toHaveBeenCalledWith('password', 'hashed_password');
+      expect(compareSpy).toHaveBeenCalledWith('password', bcryptHash);
       expect(result).toBe(true);
     });
 
@@ -132,15 +148,12 @@ describe('UserAuthenticationService', () => {
       // Act
       const result = await service.comparePasswords(
         'wrong_password',
-        'hashed_password',
+        bcryptHash,
       );
 
       // Assert
       const compareSpy = jest.spyOn(bcrypt, 'compare');
-      expect(compareSpy).toHaveBeenCalledWith(
-        'wrong_password',
-        'hashed_password',
-      );
+      expect(compareSpy).toHaveBeenCalledWith('wrong_password', bcryptHash);
       expect(result).toBe(false);
     });
 
@@ -155,252 +168,405 @@ describe('UserAuthenticationService', () => {
 
       // Act & Assert
       await expect(
-        service.comparePasswords('password', 'hashed_password'),
+        service.comparePasswords('password', bcryptHash),
       ).rejects.toThrow(InternalServerErrorException);
 
       const compareSpy = jest.spyOn(bcrypt, 'compare');
-      expect(compareSpy).toHaveBeenCalledWith('password', 'hashed_password');
+      expect(compareSpy).toHaveBeenCalledWith('password', bcryptHash);
 
       // Clean up
       consoleSpy.mockRestore();
     });
   });
 
-  describe('setCurrentRefreshToken', () => {
-    it('should hash and store refresh token', async () => {
-      // Arrange
-      const hashMock = bcrypt.hash as jest.Mock;
-      hashMock.mockResolvedValueOnce('hashed_refresh_token');
+  describe('upgradePasswordHash', () => {
+    let userModel: Record<string, jest.Mock>;
+    let passwordHasherService: PasswordHasherService;
 
-      const findByIdAndUpdateSpy = jest
-        .spyOn(userModel, 'findByIdAndUpdate')
-        .mockResolvedValueOnce(mockUser as unknown as UserDocument);
+    beforeEach(() => {
+      userModel = module.get<Record<string, jest.Mock>>(
+        getModelToken(User.name),
+      );
+      userModel.updateOne = jest.fn().mockReturnValue({
+        exec: jest.fn().mockResolvedValue({ modifiedCount: 1 }),
+      });
+      passwordHasherService = module.get<PasswordHasherService>(
+        PasswordHasherService,
+      );
+      jest.spyOn(service, 'hashPassword').mockResolvedValue('new_hash');
+    });
+
+    it('should replace a hash that needs rehashing if it did not change', async () => {
+      // Arrange
+      jest.spyOn(passwordHasherService, 'needsRehash').mockReturnValue(true);
 
       // Act
-      await service.setCurrentRefreshToken('user-id', 'refresh_token');
+      const result = await service.upgradePasswordHash(
+        'user-id',
+        'password',
+        'old_hash',
+      );
 
       // Assert
-      const hashSpy = jest.spyOn(bcrypt, 'hash');
-      expect(hashSpy).toHaveBeenCalledWith('refresh_token', 10);
-      expect(findByIdAndUpdateSpy).toHaveBeenCalledWith('user-id', {
-        hashedRefreshToken: 'hashed_refresh_token',
-      });
+      expect(result).toBe(true);
+      expect(userModel.updateOne).toHaveBeenCalledWith(
+        { _id: 'user-id', password_hash: 'old_hash' },
+        { $set: { password_hash: 'new_hash' } },
+      );
     });
 
-    it('should clear refresh token when null is provided', async () => {
+    it('should keep a hash that is up to date', async () => {
       // Arrange
-      const findByIdAndUpdateSpy = jest
-        .spyOn(userModel, 'findByIdAndUpdate')
-        .mockResolvedValueOnce(mockUser as unknown as UserDocument);
+      jest.spyOn(passwordHasherService, 'needsRehash').mockReturnValue(false);
 
       // Act
-      await service.setCurrentRefreshToken('user-id', null);
+      const result = await service.upgradePasswordHash(
+        'user-id',
+        'password',
+        'current_hash',
+      );
 
       // Assert
-      const hashSpy = jest.spyOn(bcrypt, 'hash');
-      expect(hashSpy).not.toHaveBeenCalled();
-      expect(findByIdAndUpdateSpy).toHaveBeenCalledWith('user-id', {
-        hashedRefreshToken: null,
-      });
+      expect(result).toBe(false);
+      expect(userModel.updateOne).not.toHaveBeenCalled();
     });
+  });
 
-    it('should throw InternalServerErrorException when bcrypt.hash fails', async () => {
-      // Arrange
-      const hashMock = bcrypt.hash as jest.Mock;
-      hashMock.mockRejectedValueOnce(new Error('Bcrypt error'));
+  describe('hashRefreshToken', () => {
+    it('should hash a refresh token with a keyed HMAC', () => {
+      // Act
+      const result = service.hashRefreshToken('refresh_token');
 
-      const consoleSpy = jest
-        .spyOn(console, 'error')
-        .mockImplementation(() => {});
-      const findByIdAndUpdateSpy = jest.spyOn(userModel, 'findByIdAndUpdate');
+      // Assert
+      expect(result).toMatch(/^[0-9a-f]{64}$/);
+      expect(service.hashRefreshToken('refresh_token')).toBe(result);
+      expect(service.hashRefreshToken('other_token')).not.toBe(result);
+      expect(bcrypt.hash).not.toHaveBeenCalled();
+    });
+  });
 
-      // Act & Assert
-      await expect(
-        service.setCurrentRefreshToken('user-id', 'refresh_token'),
-      ).rejects.toThrow(InternalServerErrorException);
+  describe('compareRefreshToken', () => {
+    it('should return true when the token matches the hash', async () => {
+      // Arrange
+      const hash = service.hashRefreshToken('refresh_token');
 
-      const hashSpy = jest.spyOn(bcrypt, 'hash');
-      expect(hashSpy).toHaveBeenCalledWith('refresh_token', 10);
-      expect(findByIdAndUpdateSpy).not.toHaveBeenCalled();
+      // Act
+      const result = await service.compareRefreshToken('refresh_token', hash);
 
-      // Clean up
-      consoleSpy.mockRestore();
+      // Assert
+      expect(result).toBe(true);
     });
-  });
 
-  describe('validateRefreshToken', () => {
-    it('should return true when refresh token is valid', async () => {
+    it('should return false when the token does not match the hash', async () => {
       // Arrange
-      // Create a properly typed mock query
-      const mockExecFn = jest.fn().mockResolvedValueOnce(mockUser);
-      const mockQuery = { exec: mockExecFn } as unknown as Query<
-        unknown,
-        unknown,
-        {},
-        UserDocument
-      >;
-
-      const findByIdSpy = jest
-        .spyOn(userModel, 'findById')
-        .mockReturnValueOnce(mockQuery);
+      const hash = service.hashRefreshToken('other_token');
+
+      // Act
+      const result = await service.compareRefreshToken('refresh_token', hash);
 
+      // Assert
+      expect(result).toBe(false);
+    });
+
+    it('should check a bcrypt hash of a session created before HMAC hashing', async () => {
+      // Arrange
       const compareMock = bcrypt.compare as jest.Mock;
       compareMock.mockResolvedValueOnce(true);
 
       // Act
-      const result = await service.validateRefreshToken(
+      const result = await service.compareRefreshToken(
         'refresh_token',
-        'user-id',
+        bcryptHash,
       );
 
       // Assert
-      expect(findByIdSpy).toHaveBeenCalledWith('user-id');
-
-      const compareSpy = jest.spyOn(bcrypt, 'compare');
-      expect(compareSpy).toHaveBeenCalledWith(
-        'refresh_token',
-        'hashed_refresh_token',
-      );
+      expect(compareMock).toHaveBeenCalledWith('refresh_token', bcryptHash);
       expect(result).toBe(true);
     });
 
-    it('should return false when user is not found', async () => {
+    it('should return false when bcrypt.compare fails', async () => {
       // Arrange
-      // Create a properly typed mock query
-      const mockExecFn = jest.fn().mockResolvedValueOnce(null);
-      const mockQuery = { exec: mockExecFn } as unknown as Query<
-        unknown,
-        unknown,
-        {},
-        UserDocument
-      >;
-
-      const findByIdSpy = jest
-        .spyOn(userModel, 'findById')
-        .mockReturnValueOnce(mockQuery);
+      const compareMock = bcrypt.compare as jest.Mock;
+      compareMock.mockRejectedValueOnce(new Error('Bcrypt error'));
 
-      const compareSpy = jest.spyOn(bcrypt, 'compare');
+      const consoleSpy = jest
+        .spyOn(console, 'error')
+        .mockImplementation(() => {});
 
       // Act
-      const result = await service.validateRefreshToken(
+      const result = await service.compareRefreshToken(
         'refresh_token',
-        'nonexistent-id',
+        bcryptHash,
       );
 
       // Assert
-      expect(findByIdSpy).toHaveBeenCalledWith('nonexistent-id');
-      expect(compareSpy).not.toHaveBeenCalled();
       expect(result).toBe(false);
+
+      // Clean up
+      consoleSpy.mockRestore();
     });
+  });
 
-    it('should return false when user has no stored refresh token', async () => {
+  describe('incrementTokenVersion', () => {
+    it('should increment the token version of the user', async () => {
       // Arrange
-      const userWithoutRefreshToken = { ...mockUser, hashedRefreshToken: null };
+      const userModel = module.get<Record<string, jest.Mock>>(
+        getModelToken(User.name),
+      );
+      userModel.updateOne = jest
+        .fn()
+        .mockReturnValue({ exec: jest.fn().mockResolvedValue({}) });
+
+      // Act
+      await service.incrementTokenVersion('user-id');
 
-      // Create a properly typed mock query
-      const mockExecFn = jest
+      // Assert
+      expect(userModel.updateOne).toHaveBeenCalledWith(
+        { _id: 'user-id' },
+        { $inc: { tokenVersion: 1 } },
+      );
+    });
+  });
+
+  describe('password history', () => {
+    let userModel: Record<string, jest.Mock>;
+
+    beforeEach(() => {
+      userModel = module.get<Record<string, jest.Mock>>(
+        getModelToken(User.name),
+      );
+      userModel.findById = jest.fn().mockReturnValue({
+        select: jest.fn().mockReturnValue({
+          exec: jest.fn().mockResolvedValue({
+            ...mockUser,
+            password_history: ['old_hash_1', 'old_hash_2', 'old_hash_3'],
+          }),
+        }),
+      });
+      userModel.updateOne = jest
         .fn()
-        .mockResolvedValueOnce(userWithoutRefreshToken);
-      const mockQuery = { exec: mockExecFn } as unknown as Query<
-        unknown,
-        unknown,
-        {},
-        UserDocument
-      >;
-
-      const findByIdSpy = jest
-        .spyOn(userModel, 'findById')
-        .mockReturnValueOnce(mockQuery);
+        .mockReturnValue({ exec: jest.fn().mockResolvedValue({}) });
+    });
 
-      const compareSpy = jest.spyOn(bcrypt, 'compare');
+    it('should store the hash of the new password and keep the previous one', async () => {
+      // Arrange
+      jest.spyOn(service, 'hashPassword').mockResolvedValue('new_hash');
 
       // Act
-      const result = await service.validateRefreshToken(
-        'refresh_token',
-        'user-id',
-      );
+      await service.updatePassword('user-id', 'newpassword');
 
       // Assert
-      expect(findByIdSpy).toHaveBeenCalledWith('user-id');
-      expect(compareSpy).not.toHaveBeenCalled();
-      expect(result).toBe(false);
+      expect(userModel.updateOne).toHaveBeenCalledWith(
+        { _id: 'user-id' },
+        {
+          $set: {
+            password_hash: 'new_hash',
+            password_history: ['hashed_password', 'old_hash_1'],
+          },
+        },
+      );
     });
 
-    it('should return false when refresh token does not match', async () => {
+    it('should reject one of the recent passwords', async () => {
       // Arrange
-      // Create a properly typed mock query
-      const mockExecFn = jest.fn().mockResolvedValueOnce(mockUser);
-      const mockQuery = { exec: mockExecFn } as unknown as Query<
-        unknown,
-        unknown,
-        {},
-        UserDocument
-      >;
-
-      const findByIdSpy = jest
-        .spyOn(userModel, 'findById')
-        .mockReturnValueOnce(mockQuery);
+      jest
+        .spyOn(service, 'comparePasswords')
+        .mockImplementation((_password, hash) =>
+          Promise.resolve(hash === 'old_hash_2'),
+        );
 
-      const compareMock = bcrypt.compare as jest.Mock;
-      compareMock.mockResolvedValueOnce(false);
+      // Act & Assert
+      await expect(
+        service.assertPasswordNotReused('user-id', 'oldpassword'),
+      ).rejects.toThrow(BadRequestException);
+    });
+
+    it('should accept a password older than the history size', async () => {
+      // Arrange
+      const compareSpy = jest
+        .spyOn(service, 'comparePasswords')
+        .mockImplementation((_password, hash) =>
+          Promise.resolve(hash === 'old_hash_3'),
+        );
 
       // Act
-      const result = await service.validateRefreshToken(
-        'invalid_refresh_token',
-        'user-id',
+      await service.assertPasswordNotReused('user-id', 'ancientpassword');
+
+      // Assert
+      expect(compareSpy).toHaveBeenCalledTimes(3);
+    });
+  });
+
+  describe('markEmailVerified', () => {
+    it('should flag the email of the user as verified', async () => {
+      // Arrange
+      const userModel = module.get<Record<string, jest.Mock>>(
+        getModelToken(User.name),
       );
+      userModel.updateOne = jest
+        .fn()
+        .mockReturnValue({ exec: jest.fn().mockResolvedValue({}) });
+
+      // Act
+      await service.markEmailVerified('user-id');
 
       // Assert
-      expect(findByIdSpy).toHaveBeenCalledWith('user-id');
+      expect(userModel.updateOne).toHaveBeenCalledWith(
+        { _id: 'user-id' },
+        {
+          $set: {
+            emailVerified: true,
+            emailVerifiedAt: expect.any(Date) as Date,
+          },
+        },
+      );
+    });
+  });
 
-      const compareSpy = jest.spyOn(bcrypt, 'compare');
-      expect(compareSpy).toHaveBeenCalledWith(
-        'invalid_refresh_token',
-        'hashed_refresh_token',
+  describe('email change', () => {
+    let userModel: Record<string, jest.Mock>;
+
+    const mockOwnerQuery = (owner: unknown) => {
+      const query = {
+        setOptions: jest.fn().mockReturnThis(),
+        select: jest.fn().mockReturnThis(),
+        exec: jest.fn().mockResolvedValue(owner),
+      };
+      userModel.findOne = jest.fn().mockReturnValue(query);
+      return query;
+    };
+
+    beforeEach(() => {
+      userModel = module.get<Record<string, jest.Mock>>(
+        getModelToken(User.name),
       );
-      expect(result).toBe(false);
+      userModel.findById = jest.fn().mockReturnValue({
+        select: jest.fn().mockReturnValue({
+          exec: jest.fn().mockResolvedValue({
+            ...mockUser,
+            pendingEmail: 'new@example.com',
+          }),
+        }),
+      });
+      userModel.updateOne = jest.fn().mockReturnValue({
+        exec: jest.fn().mockResolvedValue({ modifiedCount: 1 }),
+      });
     });
 
-    it('should return false when bcrypt.compare fails', async () => {
+    it('should record the pending address when nobody else has it', async () => {
       // Arrange
-      // Create a properly typed mock query
-      const mockExecFn = jest.fn().mockResolvedValueOnce(mockUser);
-      const mockQuery = { exec: mockExecFn } as unknown as Query<
-        unknown,
-        unknown,
-        {},
-        UserDocument
-      >;
-
-      const findByIdSpy = jest
-        .spyOn(userModel, 'findById')
-        .mockReturnValueOnce(mockQuery);
+      const query = mockOwnerQuery(null);
 
-      const compareMock = bcrypt.compare as jest.Mock;
-      compareMock.mockRejectedValueOnce(new Error('Bcrypt error'));
+      // Act
+      await service.setPendingEmail('user-id', 'New@Example.com');
 
-      const consoleSpy = jest
-        .spyOn(console, 'error')
-        .mockImplementation(() => {});
+      // Assert
+      expect(userModel.findOne).toHaveBeenCalledWith({
+        email: 'new@example.com',
+        _id: { $ne: 'user-id' },
+      });
+      // Soft-deleted users still hold their address in the unique index
+      expect(query.setOptions).toHaveBeenCalledWith({ withDeleted: true });
+      expect(userModel.updateOne).toHaveBeenCalledWith(
+        { _id: 'user-id' },
+        { $set: { pendingEmail: 'new@example.com' } },
+      );
+    });
+
+    it('should refuse an address another user has', async () => {
+      // Arrange
+      mockOwnerQuery({ _id: 'other-user-id' });
+
+      // Act & Assert
+      await expect(
+        service.setPendingEmail('user-id', 'taken@example.com'),
+      ).rejects.toThrow(ConflictException);
+      expect(userModel.updateOne).not.toHaveBeenCalled();
+    });
+
+    it('should replace the address with the pending one', async () => {
+      // Arrange
+      mockOwnerQuery(null);
 
       // Act
-      const result = await service.validateRefreshToken(
-        'refresh_token',
-        'user-id',
+      const result = await service.applyPendingEmail('user-id');
+
+      // Assert
+      expect(result).toEqual({
+        previousEmail: 'test@example.com',
+        email: 'new@example.com',
+      });
+      expect(userModel.updateOne).toHaveBeenCalledWith(
+        { _id: 'user-id', pendingEmail: 'new@example.com' },
+        {
+          $set: {
+            email: 'new@example.com',
+            emailVerified: true,
+            emailVerifiedAt: expect.any(Date) as Date,
+          },
+          $unset: { pendingEmail: 1 },
+        },
       );
+    });
+
+    it('should return null when the change was dropped in the meantime', async () => {
+      // Arrange
+      mockOwnerQuery(null);
+      userModel.updateOne = jest.fn().mockReturnValue({
+        exec: jest.fn().mockResolvedValue({ modifiedCount: 0 }),
+      });
+
+      // Act
+      const result = await service.applyPendingEmail('user-id');
 
       // Assert
-      expect(findByIdSpy).toHaveBeenCalledWith('user-id');
+      expect(result).toBeNull();
+    });
 
-      const compareSpy = jest.spyOn(bcrypt, 'compare');
-      expect(compareSpy).toHaveBeenCalledWith(
-        'refresh_token',
-        'hashed_refresh_token',
+    it('should report a duplicate key from the unique index as a conflict', async () => {
+      // Arrange
+      mockOwnerQuery(null);
+      userModel.updateOne = jest.fn().mockReturnValue({
+        exec: jest.fn().mockRejectedValue({ code: 11000 }),
+      });
+
+      // Act & Assert
+      await expect(service.applyPendingEmail('user-id')).rejects.toThrow(
+        ConflictException,
       );
-      expect(result).toBe(false);
+    });
 
-      // Clean up
-      consoleSpy.mockRestore();
+    it('should return null when no change is pending', async () => {
+      // Arrange
+      userModel.findById = jest.fn().mockReturnValue({
+        select: jest.fn().mockReturnValue({
+          exec: jest.fn().mockResolvedValue(mockUser),
+        }),
+      });
+
+      // Act
+      const result = await service.applyPendingEmail('user-id');
+
+      // Assert
+      expect(result).toBeNull();
+      expect(userModel.updateOne).not.toHaveBeenCalled();
+    });
+
+    it('should tell whether a pending change was dropped', async () => {
+      // Arrange
+      userModel.updateOne = jest.fn().mockReturnValue({
+        exec: jest.fn().mockResolvedValue({ modifiedCount: 1 }),
+      });
+
+      // Act
+      const cleared = await service.clearPendingEmail('user-id');
+
+      // Assert
+      expect(cleared).toBe(true);
+      expect(userModel.updateOne).toHaveBeenCalledWith(
+        { _id: 'user-id', pendingEmail: { $exists: true } },
+        { $unset: { pendingEmail: 1 } },
+      );
     });
   });
 });
@@ -0,0 +1,82 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { UserCleanupService } from '../../services/user-cleanup.service';
+import { SessionService } from '../../../auth/services/session.service';
+import { ExternalIdentityService } from '../../../auth/services/external-identity.service';
+import { MfaService } from '../../../auth/services/mfa.service';
+import { ApiKeyService } from '../../../auth/services/api-key.service';
+import { VerificationTokenService } from '../../../auth/services/verification-token.service';
+import { LoginThrottleService } from '../../../auth/services/login-throttle.service';
+import { MailerService } from '../../../mailer';
+
+describe('UserCleanupService', () => {
+  let service: UserCleanupService;
+
+  const userId = '507f1f77bcf86cd799439011';
+  const email = 'john.doe@example.com';
+
+  const mockSessionService = { deleteAllForUser: jest.fn() };
+  const mockExternalIdentityService = { unlinkAllForUser: jest.fn() };
+  const mockMfaService = { deleteForUser: jest.fn() };
+  const mockApiKeyService = { deleteAllForUser: jest.fn() };
+  const mockVerificationTokenService = { deleteAllForUser: jest.fn() };
+  const mockLoginThrottleService = { unlock: jest.fn() };
+  const mockMailerService = { discardQueued: jest.fn() };
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        UserCleanupService,
+        { provide: SessionService, useValue: mockSessionService },
+        {
+          provide: ExternalIdentityService,
+          useValue: mockExternalIdentityService,
+        },
+        { provide: MfaService, useValue: mockMfaService },
+        { provide: ApiKeyService, useValue: mockApiKeyService },
+        {
+          provide: VerificationTokenService,
+          useValue: mockVerificationTokenService,
+        },
+        { provide: LoginThrottleService, useValue: mockLoginThrottleService },
+        { provide: MailerService, useValue: mockMailerService },
+      ],
+    }).compile();
+
+    service = module.get<UserCleanupService>(UserCleanupService);
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('deleteAccountData', () => {
+    it('should delete the credentials and linked data of the user', async () => {
+      // Act
+      await service.deleteAccountData(userId, email);
+
+      // Assert
+      expect(mockSessionService.deleteAllForUser).toHaveBeenCalledWith(userId);
+      expect(mockExternalIdentityService.unlinkAllForUser).toHaveBeenCalledWith(
+        userId,
+      );
+      expect(mockMfaService.deleteForUser).toHaveBeenCalledWith(userId);
+      expect(mockApiKeyService.deleteAllForUser).toHaveBeenCalledWith(userId);
+      expect(
+        mockVerificationTokenService.deleteAllForUser,
+      ).toHaveBeenCalledWith(userId);
+      expect(mockLoginThrottleService.unlock).toHaveBeenCalledWith(email);
+      expect(mockMailerService.discardQueued).toHaveBeenCalledWith(email);
+    });
+
+    it('should discard the emails queued for the pending address', async () => {
+      // Act
+      await service.deleteAccountData(userId, email, 'john@example.org');
+
+      // Assert
+      expect(mockMailerService.discardQueued).toHaveBeenCalledWith(email);
+      expect(mockMailerService.discardQueued).toHaveBeenCalledWith(
+        'john@example.org',
+      );
+    });
+  });
+});
@@ -13,6 +13,7 @@ import { UserAuthenticationService } from '../../services/user-authentication.se
 import { User, UserDocument } from '../../schemas/user.schema';
 import { CreateUserDto } from '../../dto/create-user.dto';
 import { UpdateUserDto } from '../../dto/update-user.dto';
+import { UserStatus } from '../../enums';
 import {
   createMockDocument,
   createMockI18nService,
@@ -267,28 +268,142 @@ describe('UserCrudService', () => {
   });
 
   describe('findAll', () => {
-    it('should return all users without sensitive fields', async () => {
-      // Arrange
-      const mockUsers = [mockUser, mockUser];
-      jest.spyOn(userModel, 'find').mockReturnValueOnce({
+    let query: Record<string, jest.Mock>;
+
+    beforeEach(() => {
+      query = {
         select: jest.fn().mockReturnThis(),
-        exec: jest.fn().mockResolvedValueOnce(mockUsers),
-      } as unknown as Query<unknown[], UserDocument>);
+        sort: jest.fn().mockReturnThis(),
+        skip: jest.fn().mockReturnThis(),
+        limit: jest.fn().mockReturnThis(),
+        exec: jest.fn().mockResolvedValueOnce([mockUser, mockUser]),
+      };
+      jest
+        .spyOn(userModel, 'find')
+        .mockReturnValueOnce(
+          query as unknown as Query<unknown[], UserDocument>,
+        );
+      jest.spyOn(userModel, 'countDocuments').mockReturnValueOnce({
+        exec: jest.fn().mockResolvedValueOnce(42),
+      } as unknown as ReturnType<typeof userModel.countDocuments>);
+    });
 
+    it('should return the first page of users without sensitive fields', async () => {
       // Act
       const result = await service.findAll();
 
       // Assert
-      const findSpy = jest.spyOn(userModel, 'find');
-      expect(findSpy).toHaveBeenCalled();
-      expect(result).toHaveLength(2);
-      expect(result[0]).toEqual(
+      expect(jest.spyOn(userModel, 'find')).toHaveBeenCalledWith({});
+      expect(query.select).toHaveBeenCalledWith(
+        '-password_hash -hashedRefreshToken',
+      );
+      expect(query.sort).toHaveBeenCalledWith({ createdAt: -1 });
+      expect(query.skip).toHaveBeenCalledWith(0);
+      expect(query.limit).toHaveBeenCalledWith(20);
+      expect(result.data).toHaveLength(2);
+      expect(result.data[0]).toEqual(
         expect.objectContaining<Record<string, unknown>>(
           mockUserWithoutSensitiveFields,
         ),
       );
-      expect(result[0]).not.toHaveProperty('hashed_password');
-      expect(result[0]).not.toHaveProperty('hashedRefreshToken');
+      expect(result.data[0]).not.toHaveProperty('hashed_password');
+      expect(result.data[0]).not.toHaveProperty('hashedRefreshToken');
+      expect(result.meta).toEqual({ total: 42, page: 1, limit: 20, pages: 3 });
+    });
+
+    it('should apply the page, limit and sort', async () => {
+      // Act
+      const result = await service.findAll({
+        page: 3,
+        limit: 10,
+        sort: 'name,-createdAt',
+      });
+
+      // Assert
+      expect(query.sort).toHaveBeenCalledWith({ name: 1, createdAt: -1 });
+      expect(query.skip).toHaveBeenCalledWith(20);
+      expect(query.limit).toHaveBeenCalledWith(10);
+      expect(result.meta).toEqual({ total: 42, page: 3, limit: 10, pages: 5 });
+    });
+
+    it('should ignore sort fields that are not whitelisted', async () => {
+      // Act
+      await service.findAll({ sort: 'password_hash' });
+
+      // Assert
+      expect(query.sort).toHaveBeenCalledWith({ createdAt: -1 });
+    });
+
+    it('should build the filter from the query', async () => {
+      // Act
+      await service.findAll({
+        search: 'jo.n',
+        email: 'John@Example.com',
+        name: 'doe',
+        role: 'admin',
+        status: UserStatus.SUSPENDED,
+        email_verified: 'false',
+        created_from: '2026-01-01T00:00:00.000Z',
+        created_to: '2026-02-01T00:00:00.000Z',
+      });
+
+      // Assert
+      const filter = {
+        $or: [{ name: /jo\.n/i }, { email: /jo\.n/i }],
+        email: 'john@example.com',
+        name: /doe/i,
+        roles: 'admin',
+        status: UserStatus.SUSPENDED,
+        emailVerified: false,
+        createdAt: {
+          $gte: new Date('2026-01-01T00:00:00.000Z'),
+          $lte: new Date('2026-02-01T00:00:00.000Z'),
+        },
+      };
+      expect(jest.spyOn(userModel, 'find')).toHaveBeenCalledWith(filter);
+      expect(jest.spyOn(userModel, 'countDocuments')).toHaveBeenCalledWith(
+        filter,
+      );
+    });
+
+    it('should count users without the flag as verified', async () => {
+      // Act
+      await service.findAll({ email_verified: 'true' });
+
+      // Assert
+      expect(jest.spyOn(userModel, 'find')).toHaveBeenCalledWith({
+        emailVerified: { $ne: false },
+      });
+    });
+
+    it('should list deleted users for the deactivated status', async () => {
+      // Act
+      await service.findAll({ status: UserStatus.DEACTIVATED });
+
+      // Assert
+      expect(jest.spyOn(userModel, 'find')).toHaveBeenCalledWith({
+        deletedAt: { $ne: null },
+      });
+    });
+
+    it('should leave erased users out of the active status', async () => {
+      // Act
+      await service.findAll({ status: UserStatus.ACTIVE });
+
+      // Assert
+      expect(jest.spyOn(userModel, 'find')).toHaveBeenCalledWith({
+        status: { $nin: [UserStatus.SUSPENDED, UserStatus.ERASED] },
+      });
+    });
+
+    it('should list erased users for the erased status', async () => {
+      // Act
+      await service.findAll({ status: UserStatus.ERASED });
+
+      // Assert
+      expect(jest.spyOn(userModel, 'find')).toHaveBeenCalledWith({
+        status: UserStatus.ERASED,
+      });
     });
   });
 
@@ -446,12 +561,12 @@ describe('UserCrudService', () => {
       expect(result).not.toHaveProperty('hashedRefreshToken');
     });
 
-    it('should update a user with password successfully', async () => {
+    it('should not change the password through a generic update', async () => {
       // Arrange
-      const updateUserDto: UpdateUserDto = {
+      const updateUserDto = {
         name: 'Updated User',
         password: 'new_password',
-      };
+      } as UpdateUserDto;
 
       // Create a properly updated user object with toObject method
       const updatedUser = {
@@ -466,10 +581,6 @@ describe('UserCrudService', () => {
         }),
       };
 
-      jest
-        .spyOn(authService, 'hashPassword')
-        .mockResolvedValueOnce('new_hashed_password');
-
       jest.spyOn(userModel, 'findByIdAndUpdate').mockReturnValueOnce({
         select: jest.fn().mockReturnThis(),
         exec: jest.fn().mockResolvedValueOnce(updatedUser),
@@ -480,14 +591,11 @@ describe('UserCrudService', () => {
 
       // Assert
       const hashPasswordSpy = jest.spyOn(authService, 'hashPassword');
-      expect(hashPasswordSpy).toHaveBeenCalledWith('new_password');
+      expect(hashPasswordSpy).not.toHaveBeenCalled();
       const findByIdAndUpdateSpy = jest.spyOn(userModel, 'findByIdAndUpdate');
       expect(findByIdAndUpdateSpy).toHaveBeenCalledWith(
         'user-id',
-        expect.objectContaining<Record<string, unknown>>({
-          name: 'Updated User',
-          password_hash: 'new_hashed_password',
-        }),
+        { name: 'Updated User' },
         { new: true },
       );
       expect(result).toEqual(
@@ -524,35 +632,4 @@ describe('UserCrudService', () => {
       );
     });
   });
-
-  describe('remove', () => {
-    it('should remove a user successfully', async () => {
-      // Arrange
-      jest.spyOn(userModel, 'findByIdAndDelete').mockReturnValueOnce({
-        exec: jest.fn().mockResolvedValueOnce(mockUser),
-      } as unknown as Query<unknown, UserDocument>);
-
-      // Act
-      const result = await service.remove('user-id');
-
-      // Assert
-      const findByIdAndDeleteSpy = jest.spyOn(userModel, 'findByIdAndDelete');
-      expect(findByIdAndDeleteSpy).toHaveBeenCalledWith('user-id');
-      expect(result).toEqual({ deleted: true });
-    });
-
-    it('should throw NotFoundException when user is not found', async () => {
-      // Arrange
-      jest.spyOn(userModel, 'findByIdAndDelete').mockReturnValueOnce({
-        exec: jest.fn().mockResolvedValueOnce(null),
-      } as unknown as Query<unknown, UserDocument>);
-
-      // Act & Assert
-      await expect(service.remove('nonexistent-id')).rejects.toThrow(
-        NotFoundException,
-      );
-      const findByIdAndDeleteSpy = jest.spyOn(userModel, 'findByIdAndDelete');
-      expect(findByIdAndDeleteSpy).toHaveBeenCalledWith('nonexistent-id');
-    });
-  });
 });
@@ -0,0 +1,430 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { getModelToken } from '@nestjs/mongoose';
+import { ConfigService } from '@nestjs/config';
+import { ConflictException, Logger, NotFoundException } from '@nestjs/common';
+import { I18nService, I18nContext } from 'nestjs-i18n';
+import { Types } from 'mongoose';
+import { UserDataService } from '../../services/user-data.service';
+import { UserCleanupService } from '../../services/user-cleanup.service';
+import { User } from '../../schemas/user.schema';
+import { UserDataRequest } from '../../schemas/user-data-request.schema';
+import {
+  UserDataRequestStatus,
+  UserDataRequestType,
+  UserStatus,
+} from '../../enums';
+import {
+  ActivityLogService,
+  ActivityLogQueryService,
+} from '../../../activity-log';
+import { SessionService } from '../../../auth/services/session.service';
+import {
+  createMockConfigService,
+  createMockI18nService,
+} from '../../../common/__tests__/test-utils';
+
+describe('UserDataService', () => {
+  let service: UserDataService;
+
+  const userId = '507f1f77bcf86cd799439011';
+  const requestId = '507f1f77bcf86cd799439022';
+  const actor = { userId, username: 'john.doe@example.com' };
+
+  const createQuery = (value: unknown) => ({
+    select: jest.fn().mockReturnThis(),
+    setOptions: jest.fn().mockReturnThis(),
+    exec: jest.fn().mockResolvedValue(value),
+  });
+
+  const createRequest = (fields: Record<string, unknown> = {}) => ({
+    _id: requestId,
+    userId: new Types.ObjectId(userId),
+    type: UserDataRequestType.EXPORT,
+    status: UserDataRequestStatus.PENDING,
+    createdAt: new Date(),
+    ...fields,
+  });
+
+  const mockUserDataRequestModel = {
+    create: jest.fn(),
+    findOne: jest.fn(),
+    findOneAndUpdate: jest.fn(),
+    updateOne: jest.fn(),
+    updateMany: jest.fn(),
+    deleteMany: jest.fn(),
+  };
+
+  const mockUserModel = {
+    findById: jest.fn(),
+    updateOne: jest.fn(),
+  };
+
+  const mockActivityLogService = {
+    logEvent: jest.fn(),
+    pseudonymizeUser: jest.fn(),
+  };
+
+  const mockActivityLogQueryService = {
+    queryLogs: jest.fn(),
+  };
+
+  const mockSessionService = {
+    findAllByUser: jest.fn(),
+  };
+
+  const mockUserCleanupService = {
+    deleteAccountData: jest.fn(),
+  };
+
+  beforeEach(async () => {
+    jest
+      .spyOn(I18nContext, 'current')
+      .mockReturnValue({ lang: 'en' } as I18nContext<unknown>);
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        UserDataService,
+        {
+          provide: getModelToken(UserDataRequest.name),
+          useValue: mockUserDataRequestModel,
+        },
+        { provide: getModelToken(User.name), useValue: mockUserModel },
+        { provide: ActivityLogService, useValue: mockActivityLogService },
+        {
+          provide: ActivityLogQueryService,
+          useValue: mockActivityLogQueryService,
+        },
+        { provide: SessionService, useValue: mockSessionService },
+        { provide: UserCleanupService, useValue: mockUserCleanupService },
+        { provide: I18nService, useValue: createMockI18nService() },
+        {
+          provide: ConfigService,
+          useValue: createMockConfigService({
+            USER_DATA_REQUEST_INTERVAL: '30',
+            USER_DATA_EXPORT_TTL: '3600',
+          }),
+        },
+      ],
+    }).compile();
+
+    service = module.get<UserDataService>(UserDataService);
+  });
+
+  afterEach(() => {
+    service.onModuleDestroy();
+    jest.clearAllMocks();
+  });
+
+  describe('requestExport', () => {
+    it('should queue an export and log the request', async () => {
+      // Arrange
+      mockUserModel.findById.mockReturnValue(
+        createQuery({ _id: userId, email: 'john.doe@example.com' }),
+      );
+      mockUserDataRequestModel.findOne.mockReturnValue(createQuery(null));
+      mockUserDataRequestModel.create.mockResolvedValue(createRequest());
+
+      // Act
+      const result = await service.requestExport(userId, actor);
+
+      // Assert
+      expect(result).toEqual(
+        expect.objectContaining({
+          id: requestId,
+          type: UserDataRequestType.EXPORT,
+          status: UserDataRequestStatus.PENDING,
+        }),
+      );
+      expect(mockUserDataRequestModel.create).toHaveBeenCalledWith(
+        expect.objectContaining({
+          type: UserDataRequestType.EXPORT,
+          status: UserDataRequestStatus.PENDING,
+          requestedBy: actor,
+        }),
+      );
+      expect(mockActivityLogService.logEvent).toHaveBeenCalledWith(
+        expect.objectContaining({
+          actionType: 'USER_DATA_EXPORT_REQUESTED',
+          userId,
+          resource: {
+            type: 'User',
+            id: userId,
+            displayName: 'john.doe@example.com',
+          },
+        }),
+      );
+    });
+
+    it('should return an export still pending instead of queuing another', async () => {
+      // Arrange
+      mockUserModel.findById.mockReturnValue(createQuery({ _id: userId }));
+      mockUserDataRequestModel.findOne.mockReturnValue(
+        createQuery(createRequest()),
+      );
+
+      // Act
+      const result = await service.requestExport(userId, actor);
+
+      // Assert
+      expect(result.id).toBe(requestId);
+      expect(mockUserDataRequestModel.create).not.toHaveBeenCalled();
+      expect(mockActivityLogService.logEvent).not.toHaveBeenCalled();
+    });
+
+    it('should throw NotFoundException for an unknown user', async () => {
+      // Arrange
+      mockUserModel.findById.mockReturnValue(createQuery(null));
+
+      // Act & Assert
+      await expect(service.requestExport(userId, actor)).rejects.toThrow(
+        NotFoundException,
+      );
+      expect(mockUserDataRequestModel.create).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('requestErasure', () => {
+    it('should find soft-deleted users too', async () => {
+      // Arrange
+      const query = createQuery({ _id: userId, email: 'john.doe@example.com' });
+      mockUserModel.findById.mockReturnValue(query);
+      mockUserDataRequestModel.findOne.mockReturnValue(createQuery(null));
+      mockUserDataRequestModel.create.mockResolvedValue(
+        createRequest({ type: UserDataRequestType.ERASURE }),
+      );
+
+      // Act
+      const result = await service.requestErasure(userId, actor);
+
+      // Assert
+      expect(query.setOptions).toHaveBeenCalledWith({ withDeleted: true });
+      expect(result.type).toBe(UserDataRequestType.ERASURE);
+      expect(mockActivityLogService.logEvent).toHaveBeenCalledWith(
+        expect.objectContaining({ actionType: 'USER_ERASURE_REQUESTED' }),
+      );
+    });
+  });
+
+  describe('getExport', () => {
+    it('should return a completed export and log the download', async () => {
+      // Arrange
+      const bundle = { profile: { email: 'john.doe@example.com' } };
+      mockUserDataRequestModel.findOne.mockReturnValue(
+        createQuery(
+          createRequest({
+            status: UserDataRequestStatus.COMPLETED,
+            result: bundle,
+          }),
+        ),
+      );
+
+      // Act
+      const result = await service.getExport(userId, requestId, actor);
+
+      // Assert
+      expect(result).toEqual(bundle);
+      expect(mockActivityLogService.logEvent).toHaveBeenCalledWith(
+        expect.objectContaining({
+          actionType: 'USER_DATA_EXPORT_DOWNLOADED',
+          metadata: { requestId },
+        }),
+      );
+    });
+
+    it('should throw NotFoundException once the export expired', async () => {
+      // Arrange
+      mockUserDataRequestModel.findOne.mockReturnValue(
+        createQuery(
+          createRequest({
+            status: UserDataRequestStatus.COMPLETED,
+            result: { profile: { email: 'john.doe@example.com' } },
+            expiresAt: new Date(Date.now() - 1000),
+          }),
+        ),
+      );
+
+      // Act & Assert
+      await expect(service.getExport(userId, requestId, actor)).rejects.toThrow(
+        NotFoundException,
+      );
+      expect(mockActivityLogService.logEvent).not.toHaveBeenCalled();
+    });
+
+    it('should throw ConflictException while the export is pending', async () => {
+      // Arrange
+      mockUserDataRequestModel.findOne.mockReturnValue(
+        createQuery(createRequest()),
+      );
+
+      // Act & Assert
+      await expect(service.getExport(userId, requestId, actor)).rejects.toThrow(
+        ConflictException,
+      );
+    });
+
+    it('should throw NotFoundException for an erasure', async () => {
+      // Arrange
+      mockUserDataRequestModel.findOne.mockReturnValue(
+        createQuery(createRequest({ type: UserDataRequestType.ERASURE })),
+      );
+
+      // Act & Assert
+      await expect(service.getExport(userId, requestId, actor)).rejects.toThrow(
+        NotFoundException,
+      );
+    });
+
+    it('should throw NotFoundException for a request of another user', async () => {
+      // Arrange
+      mockUserDataRequestModel.findOne.mockReturnValue(createQuery(null));
+
+      // Act & Assert
+      await expect(service.getExport(userId, requestId, actor)).rejects.toThrow(
+        NotFoundException,
+      );
+    });
+  });
+
+  describe('processDue', () => {
+    it('should build an export from every page of activity logs', async () => {
+      // Arrange
+      mockUserDataRequestModel.findOneAndUpdate
+        .mockReturnValueOnce(createQuery(createRequest()))
+        .mockReturnValueOnce(createQuery(null));
+      mockUserDataRequestModel.updateOne.mockReturnValue(createQuery({}));
+      mockUserModel.findById.mockReturnValue(
+        createQuery({ toObject: () => ({ email: 'john.doe@example.com' }) }),
+      );
+      mockSessionService.findAllByUser.mockResolvedValue([{ id: 'session' }]);
+      mockActivityLogQueryService.queryLogs
+        .mockResolvedValueOnce({
+          data: [{ toObject: () => ({ actionType: 'LOGIN_SUCCESS' }) }],
+          meta: { pages: 2 },
+        })
+        .mockResolvedValueOnce({
+          data: [{ toObject: () => ({ actionType: 'LOGOUT' }) }],
+          meta: { pages: 2 },
+        });
+
+      // Act
+      const completed = await service.processDue();
+
+      // Assert
+      expect(completed).toBe(1);
+      expect(mockActivityLogQueryService.queryLogs).toHaveBeenCalledTimes(2);
+      expect(mockActivityLogQueryService.queryLogs).toHaveBeenLastCalledWith(
+        { userId: new Types.ObjectId(userId) },
+        { page: 2, limit: 100, sort: { timestamp: 1 } },
+      );
+      expect(mockUserDataRequestModel.updateOne).toHaveBeenCalledWith(
+        { _id: requestId },
+        {
+          $set: {
+            status: UserDataRequestStatus.COMPLETED,
+            result: {
+              exportedAt: expect.any(Date) as Date,
+              profile: { email: 'john.doe@example.com' },
+              sessions: [{ id: 'session' }],
+              activityLogs: [
+                { actionType: 'LOGIN_SUCCESS' },
+                { actionType: 'LOGOUT' },
+              ],
+            },
+            completedAt: expect.any(Date) as Date,
+            expiresAt: expect.any(Date) as Date,
+          },
+        },
+      );
+      expect(mockActivityLogService.logEvent).toHaveBeenCalledWith(
+        expect.objectContaining({ actionType: 'USER_DATA_EXPORTED' }),
+      );
+    });
+
+    it('should anonymize the user and pseudonymize their activity logs', async () => {
+      // Arrange
+      mockUserDataRequestModel.findOneAndUpdate
+        .mockReturnValueOnce(
+          createQuery(createRequest({ type: UserDataRequestType.ERASURE })),
+        )
+        .mockReturnValueOnce(createQuery(null));
+      mockUserDataRequestModel.updateOne.mockReturnValue(createQuery({}));
+      mockUserDataRequestModel.updateMany.mockReturnValue(createQuery({}));
+      mockUserDataRequestModel.deleteMany.mockReturnValue(createQuery({}));
+      mockUserModel.findById.mockReturnValue(
+        createQuery({
+          email: 'john.doe@example.com',
+          pendingEmail: 'john@example.org',
+        }),
+      );
+      mockUserModel.updateOne.mockReturnValue(createQuery({}));
+      const pseudonym = `erased-user-${userId}`;
+
+      // Act
+      const completed = await service.processDue();
+
+      // Assert
+      expect(completed).toBe(1);
+      expect(mockUserModel.updateOne).toHaveBeenCalledWith(
+        { _id: userId },
+        expect.objectContaining({
+          $set: expect.objectContaining({
+            email: `${pseudonym}@erased.invalid`,
+            name: pseudonym,
+            status: UserStatus.ERASED,
+          }) as Record<string, unknown>,
+          $unset: {
+            emailVerifiedAt: 1,
+            pendingEmail: 1,
+            deletedAt: 1,
+            statusBeforeDeletion: 1,
+          },
+          $inc: { tokenVersion: 1 },
+        }),
+      );
+      expect(mockUserCleanupService.deleteAccountData).toHaveBeenCalledWith(
+        userId,
+        'john.doe@example.com',
+        'john@example.org',
+      );
+      expect(mockActivityLogService.pseudonymizeUser).toHaveBeenCalledWith(
+        userId,
+        pseudonym,
+      );
+      expect(mockUserDataRequestModel.deleteMany).toHaveBeenCalledWith({
+        userId: new Types.ObjectId(userId),
+        type: UserDataRequestType.EXPORT,
+      });
+      expect(mockActivityLogService.logEvent).toHaveBeenCalledWith(
+        expect.objectContaining({
+          actionType: 'USER_ERASED',
+          resource: { type: 'User', id: userId, displayName: pseudonym },
+        }),
+      );
+    });
+
+    it('should mark a request that cannot be processed as failed', async () => {
+      // Arrange
+      jest.spyOn(Logger.prototype, 'error').mockImplementation(() => {});
+      mockUserDataRequestModel.findOneAndUpdate
+        .mockReturnValueOnce(createQuery(createRequest()))
+        .mockReturnValueOnce(createQuery(null));
+      mockUserDataRequestModel.updateOne.mockReturnValue(createQuery({}));
+      mockUserModel.findById.mockReturnValue(createQuery(null));
+
+      // Act
+      const completed = await service.processDue();
+
+      // Assert
+      expect(completed).toBe(0);
+      expect(mockUserDataRequestModel.updateOne).toHaveBeenCalledWith(
+        { _id: requestId },
+        {
+          $set: {
+            status: UserDataRequestStatus.FAILED,
+            lastError: 'User no longer exists',
+          },
+        },
+      );
+    });
+  });
+});
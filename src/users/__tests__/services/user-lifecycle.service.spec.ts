@@ -0,0 +1,389 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { getModelToken } from '@nestjs/mongoose';
+import { ConfigService } from '@nestjs/config';
+import { BadRequestException, NotFoundException } from '@nestjs/common';
+import { I18nService, I18nContext } from 'nestjs-i18n';
+import { UserLifecycleService } from '../../services/user-lifecycle.service';
+import { UserCleanupService } from '../../services/user-cleanup.service';
+import { User } from '../../schemas/user.schema';
+import { UserStatus } from '../../enums';
+import { ActivityLogService } from '../../../activity-log';
+import {
+  createMockConfigService,
+  createMockI18nService,
+} from '../../../common/__tests__/test-utils';
+
+describe('UserLifecycleService', () => {
+  let service: UserLifecycleService;
+
+  const createQuery = (value: unknown) => ({
+    select: jest.fn().mockReturnThis(),
+    exec: jest.fn().mockResolvedValue(value),
+  });
+
+  const userDocument = (fields: Record<string, unknown>) => ({
+    email: 'john.doe@example.com',
+    ...fields,
+    toObject: () => ({ email: 'john.doe@example.com', ...fields }),
+  });
+
+  const mockUserModel = {
+    findOneAndUpdate: jest.fn(),
+    findOne: jest.fn(),
+    find: jest.fn(),
+    deleteOne: jest.fn(),
+  };
+
+  const mockActivityLogService = {
+    logEvent: jest.fn(),
+  };
+
+  const mockUserCleanupService = {
+    deleteAccountData: jest.fn(),
+  };
+
+  const actor = { userId: 'admin-id', username: 'admin@example.com' };
+
+  const notErased = { $nor: [{ status: UserStatus.ERASED }] };
+
+  beforeEach(async () => {
+    jest
+      .spyOn(I18nContext, 'current')
+      .mockReturnValue({ lang: 'en' } as I18nContext<unknown>);
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        UserLifecycleService,
+        { provide: getModelToken(User.name), useValue: mockUserModel },
+        { provide: ActivityLogService, useValue: mockActivityLogService },
+        { provide: UserCleanupService, useValue: mockUserCleanupService },
+        { provide: I18nService, useValue: createMockI18nService() },
+        {
+          provide: ConfigService,
+          useValue: createMockConfigService({
+            USER_DELETION_GRACE_DAYS: '30',
+            USER_PURGE_INTERVAL: '3600',
+          }),
+        },
+      ],
+    }).compile();
+
+    service = module.get<UserLifecycleService>(UserLifecycleService);
+  });
+
+  afterEach(() => {
+    service.onModuleDestroy();
+    jest.clearAllMocks();
+  });
+
+  describe('suspend', () => {
+    it('should suspend the user, invalidate the tokens and log the change', async () => {
+      // Arrange
+      mockUserModel.findOneAndUpdate.mockReturnValue(
+        createQuery(userDocument({ status: UserStatus.SUSPENDED })),
+      );
+
+      // Act
+      const user = await service.suspend('user-id', actor);
+
+      // Assert
+      expect(mockUserModel.findOneAndUpdate).toHaveBeenCalledWith(
+        {
+          _id: 'user-id',
+          status: { $ne: UserStatus.SUSPENDED },
+          ...notErased,
+        },
+        { $set: { status: UserStatus.SUSPENDED }, $inc: { tokenVersion: 1 } },
+        { new: true },
+      );
+      expect(user).toEqual(
+        expect.objectContaining({ status: UserStatus.SUSPENDED }),
+      );
+      expect(mockActivityLogService.logEvent).toHaveBeenCalledWith({
+        userId: 'admin-id',
+        actionType: 'USER_SUSPENDED',
+        username: 'admin@example.com',
+        clientId: undefined,
+        resource: {
+          type: 'User',
+          id: 'user-id',
+          displayName: 'john.doe@example.com',
+        },
+      });
+    });
+
+    it('should return a user already suspended without logging again', async () => {
+      // Arrange
+      mockUserModel.findOneAndUpdate.mockReturnValue(createQuery(null));
+      mockUserModel.findOne.mockReturnValue(
+        createQuery(userDocument({ status: UserStatus.SUSPENDED })),
+      );
+
+      // Act
+      const user = await service.suspend('user-id', actor);
+
+      // Assert
+      expect(user).toEqual(
+        expect.objectContaining({ status: UserStatus.SUSPENDED }),
+      );
+      expect(mockActivityLogService.logEvent).not.toHaveBeenCalled();
+    });
+
+    it('should refuse to suspend the acting user', async () => {
+      // Act & Assert
+      await expect(service.suspend('admin-id', actor)).rejects.toThrow(
+        BadRequestException,
+      );
+      expect(mockUserModel.findOneAndUpdate).not.toHaveBeenCalled();
+    });
+
+    it('should throw NotFoundException for an unknown user', async () => {
+      // Arrange
+      mockUserModel.findOneAndUpdate.mockReturnValue(createQuery(null));
+      mockUserModel.findOne.mockReturnValue(createQuery(null));
+
+      // Act & Assert
+      await expect(service.suspend('unknown-id', actor)).rejects.toThrow(
+        NotFoundException,
+      );
+    });
+  });
+
+  describe('reactivate', () => {
+    it('should only reactivate a suspended user', async () => {
+      // Arrange
+      mockUserModel.findOneAndUpdate.mockReturnValue(
+        createQuery(userDocument({ status: UserStatus.ACTIVE })),
+      );
+
+      // Act
+      await service.reactivate('user-id', actor);
+
+      // Assert
+      expect(mockUserModel.findOneAndUpdate).toHaveBeenCalledWith(
+        { _id: 'user-id', status: UserStatus.SUSPENDED, ...notErased },
+        { $set: { status: UserStatus.ACTIVE } },
+        { new: true },
+      );
+      expect(mockActivityLogService.logEvent).toHaveBeenCalledWith(
+        expect.objectContaining({ actionType: 'USER_REACTIVATED' }),
+      );
+    });
+  });
+
+  describe('remove', () => {
+    it('should deactivate the user and record when it was deleted', async () => {
+      // Arrange
+      mockUserModel.findOneAndUpdate.mockReturnValue(
+        createQuery(userDocument({ status: UserStatus.DEACTIVATED })),
+      );
+
+      // Act
+      await service.remove('user-id', actor);
+
+      // Assert
+      expect(mockUserModel.findOneAndUpdate).toHaveBeenCalledWith(
+        { _id: 'user-id', ...notErased },
+        [
+          {
+            $set: {
+              statusBeforeDeletion: '$status',
+              status: UserStatus.DEACTIVATED,
+              deletedAt: expect.any(Date) as Date,
+              tokenVersion: { $add: [{ $ifNull: ['$tokenVersion', 0] }, 1] },
+            },
+          },
+        ],
+        { new: true },
+      );
+      expect(mockActivityLogService.logEvent).toHaveBeenCalledWith(
+        expect.objectContaining({ actionType: 'USER_DELETED' }),
+      );
+    });
+
+    it('should throw NotFoundException for a user already deleted', async () => {
+      // Arrange
+      mockUserModel.findOneAndUpdate.mockReturnValue(createQuery(null));
+      mockUserModel.findOne.mockReturnValue(createQuery(null));
+
+      // Act & Assert
+      await expect(service.remove('user-id', actor)).rejects.toThrow(
+        NotFoundException,
+      );
+      expect(mockUserModel.findOne).toHaveBeenCalledWith({
+        _id: 'user-id',
+        deletedAt: null,
+        ...notErased,
+      });
+    });
+  });
+
+  describe('restore', () => {
+    it('should restore a deleted user with the status it had before', async () => {
+      // Arrange
+      mockUserModel.findOneAndUpdate.mockReturnValue(
+        createQuery(userDocument({ status: UserStatus.ACTIVE })),
+      );
+
+      // Act
+      const user = await service.restore('user-id', actor);
+
+      // Assert
+      expect(mockUserModel.findOneAndUpdate).toHaveBeenCalledWith(
+        { _id: 'user-id', deletedAt: { $ne: null }, ...notErased },
+        [
+          {
+            $set: {
+              status: {
+                $ifNull: ['$statusBeforeDeletion', UserStatus.ACTIVE],
+              },
+            },
+          },
+          { $unset: ['deletedAt', 'statusBeforeDeletion'] },
+        ],
+        { new: true },
+      );
+      expect(user).toEqual(
+        expect.objectContaining({ status: UserStatus.ACTIVE }),
+      );
+      expect(mockActivityLogService.logEvent).toHaveBeenCalledWith(
+        expect.objectContaining({ actionType: 'USER_RESTORED' }),
+      );
+    });
+
+    it('should throw NotFoundException when the user is not deleted', async () => {
+      // Arrange
+      mockUserModel.findOneAndUpdate.mockReturnValue(createQuery(null));
+      mockUserModel.findOne.mockReturnValue(createQuery(null));
+
+      // Act & Assert
+      await expect(service.restore('user-id', actor)).rejects.toThrow(
+        NotFoundException,
+      );
+    });
+
+    it('should refuse to restore an erased user', async () => {
+      // Arrange
+      mockUserModel.findOneAndUpdate.mockReturnValue(createQuery(null));
+      mockUserModel.findOne.mockReturnValue(createQuery(null));
+
+      // Act & Assert
+      await expect(service.restore('user-id', actor)).rejects.toThrow(
+        NotFoundException,
+      );
+      expect(mockUserModel.findOneAndUpdate).toHaveBeenCalledWith(
+        expect.objectContaining(notErased),
+        expect.anything(),
+        { new: true },
+      );
+      expect(mockActivityLogService.logEvent).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('purgeDeleted', () => {
+    it('should hard-delete the users deleted before the grace period and their account data', async () => {
+      // Arrange
+      mockUserModel.find.mockReturnValue(
+        createQuery([
+          {
+            _id: 'user-1',
+            email: 'john.doe@example.com',
+            pendingEmail: 'john@example.org',
+          },
+          { _id: 'user-2', email: 'jane.doe@example.com' },
+        ]),
+      );
+      mockUserModel.deleteOne.mockReturnValue(createQuery({ deletedCount: 1 }));
+      const now = Date.now();
+
+      // Act
+      const purged = await service.purgeDeleted();
+
+      // Assert
+      expect(purged).toBe(2);
+      const [[filter]] = mockUserModel.find.mock.calls as [
+        [{ deletedAt: { $lte: Date }; status: { $ne: UserStatus } }],
+      ];
+      expect(filter.deletedAt.$lte.getTime()).toBeGreaterThanOrEqual(
+        now - 30 * 24 * 60 * 60 * 1000,
+      );
+      expect(mockUserModel.deleteOne).toHaveBeenCalledWith({
+        _id: 'user-1',
+        deletedAt: filter.deletedAt,
+        status: { $ne: UserStatus.ERASED },
+      });
+      expect(mockUserCleanupService.deleteAccountData).toHaveBeenCalledWith(
+        'user-1',
+        'john.doe@example.com',
+        'john@example.org',
+      );
+      expect(mockUserCleanupService.deleteAccountData).toHaveBeenCalledWith(
+        'user-2',
+        'jane.doe@example.com',
+        undefined,
+      );
+      expect(mockActivityLogService.logEvent).toHaveBeenCalledTimes(2);
+      expect(mockActivityLogService.logEvent).toHaveBeenCalledWith({
+        actionType: 'USER_PURGED',
+        username: 'system',
+        resource: { type: 'User', id: 'user-1' },
+      });
+    });
+
+    it('should not delete anything when no user is due', async () => {
+      // Arrange
+      mockUserModel.find.mockReturnValue(createQuery([]));
+
+      // Act
+      const purged = await service.purgeDeleted();
+
+      // Assert
+      expect(purged).toBe(0);
+      expect(mockUserModel.deleteOne).not.toHaveBeenCalled();
+    });
+
+    it('should keep erased users', async () => {
+      // Arrange
+      mockUserModel.find.mockReturnValue(createQuery([]));
+
+      // Act
+      await service.purgeDeleted();
+
+      // Assert
+      expect(mockUserModel.find).toHaveBeenCalledWith({
+        deletedAt: { $lte: expect.any(Date) as Date },
+        status: { $ne: UserStatus.ERASED },
+      });
+      expect(mockUserCleanupService.deleteAccountData).not.toHaveBeenCalled();
+    });
+
+    it('should leave out the users restored in the meantime', async () => {
+      // Arrange
+      mockUserModel.find.mockReturnValue(
+        createQuery([
+          { _id: 'user-1', email: 'john.doe@example.com' },
+          { _id: 'user-2', email: 'jane.doe@example.com' },
+        ]),
+      );
+      mockUserModel.deleteOne
+        .mockReturnValueOnce(createQuery({ deletedCount: 0 }))
+        .mockReturnValueOnce(createQuery({ deletedCount: 1 }));
+
+      // Act
+      const purged = await service.purgeDeleted();
+
+      // Assert
+      expect(purged).toBe(1);
+      expect(mockUserCleanupService.deleteAccountData).toHaveBeenCalledTimes(1);
+      expect(mockUserCleanupService.deleteAccountData).toHaveBeenCalledWith(
+        'user-2',
+        'jane.doe@example.com',
+        undefined,
+      );
+      expect(mockActivityLogService.logEvent).toHaveBeenCalledTimes(1);
+      expect(mockActivityLogService.logEvent).toHaveBeenCalledWith(
+        expect.objectContaining({ resource: { type: 'User', id: 'user-2' } }),
+      );
+    });
+  });
+});
@@ -0,0 +1,259 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { getModelToken } from '@nestjs/mongoose';
+import {
+  BadRequestException,
+  ForbiddenException,
+  NotFoundException,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { I18nService, I18nContext } from 'nestjs-i18n';
+import { UserRolesService } from '../../services/user-roles.service';
+import { User } from '../../schemas/user.schema';
+import { UserRole } from '../../enums';
+import { PermissionsService } from '../../../permissions/permissions.service';
+import {
+  createMockConfigService,
+  createMockI18nService,
+} from '../../../common/__tests__/test-utils';
+
+describe('UserRolesService', () => {
+  let service: UserRolesService;
+
+  const createQuery = (value: unknown) => ({
+    select: jest.fn().mockReturnThis(),
+    exec: jest.fn().mockResolvedValue(value),
+  });
+
+  const mockUserModel = {
+    findById: jest.fn(),
+    findByIdAndUpdate: jest.fn(),
+    updateMany: jest.fn(),
+  };
+
+  const mockPermissionsService = {
+    roleExists: jest.fn(),
+    resolvePermissions: jest.fn(),
+  };
+
+  const admin = { userId: 'admin-id', permissions: ['*'] };
+  const delegate = {
+    userId: 'delegate-id',
+    permissions: ['users:read', 'users:manage-roles'],
+  };
+
+  const setup = async (config: Record<string, unknown> = {}) => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        UserRolesService,
+        {
+          provide: getModelToken(User.name),
+          useValue: mockUserModel,
+        },
+        {
+          provide: ConfigService,
+          useValue: createMockConfigService(config),
+        },
+        {
+          provide: PermissionsService,
+          useValue: mockPermissionsService,
+        },
+        {
+          provide: I18nService,
+          useValue: createMockI18nService(),
+        },
+      ],
+    }).compile();
+
+    service = module.get<UserRolesService>(UserRolesService);
+  };
+
+  beforeEach(async () => {
+    jest
+      .spyOn(I18nContext, 'current')
+      .mockReturnValue({ lang: 'en' } as I18nContext<unknown>);
+    await setup();
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('should be defined', () => {
+    expect(service).toBeDefined();
+  });
+
+  describe('onApplicationBootstrap', () => {
+    it('should promote the configured initial admins', async () => {
+      // Arrange
+      await setup({
+        INITIAL_ADMIN_EMAILS: 'Admin@Example.com, ops@example.com',
+      });
+      mockUserModel.updateMany.mockReturnValue(createQuery({}));
+
+      // Act
+      await service.onApplicationBootstrap();
+
+      // Assert
+      expect(mockUserModel.updateMany).toHaveBeenCalledWith(
+        { email: { $in: ['admin@example.com', 'ops@example.com'] } },
+        { $addToSet: { roles: UserRole.ADMIN } },
+      );
+    });
+
+    it('should do nothing when no initial admins are configured', async () => {
+      // Act
+      await service.onApplicationBootstrap();
+
+      // Assert
+      expect(mockUserModel.updateMany).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('grantRole', () => {
+    it('should add the role to the user', async () => {
+      // Arrange
+      mockPermissionsService.roleExists.mockResolvedValue(true);
+      mockPermissionsService.resolvePermissions.mockResolvedValue(['*']);
+      mockUserModel.findByIdAndUpdate.mockReturnValue(
+        createQuery({ roles: [UserRole.USER, UserRole.ADMIN] }),
+      );
+
+      // Act
+      const result = await service.grantRole('user-id', UserRole.ADMIN, admin);
+
+      // Assert
+      expect(mockUserModel.findByIdAndUpdate).toHaveBeenCalledWith(
+        'user-id',
+        { $addToSet: { roles: UserRole.ADMIN } },
+        { new: true },
+      );
+      expect(result).toEqual([UserRole.USER, UserRole.ADMIN]);
+    });
+
+    it('should throw NotFoundException when the role does not exist', async () => {
+      // Arrange
+      mockPermissionsService.roleExists.mockResolvedValue(false);
+
+      // Act & Assert
+      await expect(
+        service.grantRole('user-id', 'superuser', admin),
+      ).rejects.toThrow(NotFoundException);
+      expect(mockUserModel.findByIdAndUpdate).not.toHaveBeenCalled();
+    });
+
+    it('should not let a delegate grant admin', async () => {
+      // Arrange
+      mockPermissionsService.roleExists.mockResolvedValue(true);
+      mockPermissionsService.resolvePermissions.mockResolvedValue(['*']);
+
+      // Act & Assert
+      await expect(
+        service.grantRole('delegate-id', UserRole.ADMIN, delegate),
+      ).rejects.toThrow(ForbiddenException);
+      expect(mockPermissionsService.resolvePermissions).toHaveBeenCalledWith([
+        UserRole.ADMIN,
+      ]);
+      expect(mockUserModel.findByIdAndUpdate).not.toHaveBeenCalled();
+    });
+
+    it('should not let a delegate grant a role with permissions they lack', async () => {
+      // Arrange
+      mockPermissionsService.roleExists.mockResolvedValue(true);
+      mockPermissionsService.resolvePermissions.mockResolvedValue([
+        'users:read',
+        'users:delete',
+      ]);
+
+      // Act & Assert
+      await expect(
+        service.grantRole('user-id', 'moderator', delegate),
+      ).rejects.toThrow(ForbiddenException);
+      expect(mockUserModel.findByIdAndUpdate).not.toHaveBeenCalled();
+    });
+
+    it('should let a delegate grant a role whose permissions they hold', async () => {
+      // Arrange
+      mockPermissionsService.roleExists.mockResolvedValue(true);
+      mockPermissionsService.resolvePermissions.mockResolvedValue([
+        'users:read',
+      ]);
+      mockUserModel.findByIdAndUpdate.mockReturnValue(
+        createQuery({ roles: [UserRole.USER, 'viewer'] }),
+      );
+
+      // Act
+      const result = await service.grantRole('user-id', 'viewer', delegate);
+
+      // Assert
+      expect(result).toEqual([UserRole.USER, 'viewer']);
+    });
+
+    it('should hold an API key to its scopes', async () => {
+      // Arrange
+      mockPermissionsService.roleExists.mockResolvedValue(true);
+      mockPermissionsService.resolvePermissions.mockResolvedValue([
+        'users:read',
+      ]);
+
+      // Act & Assert
+      await expect(
+        service.grantRole('user-id', 'viewer', {
+          ...admin,
+          scopes: ['users:manage-roles'],
+        }),
+      ).rejects.toThrow(ForbiddenException);
+    });
+
+    it('should throw NotFoundException when the user does not exist', async () => {
+      // Arrange
+      mockPermissionsService.roleExists.mockResolvedValue(true);
+      mockPermissionsService.resolvePermissions.mockResolvedValue(['*']);
+      mockUserModel.findByIdAndUpdate.mockReturnValue(createQuery(null));
+
+      // Act & Assert
+      await expect(
+        service.grantRole('missing-id', UserRole.ADMIN, admin),
+      ).rejects.toThrow(NotFoundException);
+    });
+  });
+
+  describe('revokeRole', () => {
+    it('should remove the role from the user', async () => {
+      // Arrange
+      mockPermissionsService.resolvePermissions.mockResolvedValue(['*']);
+      mockUserModel.findByIdAndUpdate.mockReturnValue(
+        createQuery({ roles: [UserRole.USER] }),
+      );
+
+      // Act
+      const result = await service.revokeRole('user-id', UserRole.ADMIN, admin);
+
+      // Assert
+      expect(mockUserModel.findByIdAndUpdate).toHaveBeenCalledWith(
+        'user-id',
+        { $pull: { roles: UserRole.ADMIN } },
+        { new: true },
+      );
+      expect(result).toEqual([UserRole.USER]);
+    });
+
+    it('should refuse to let an admin revoke their own admin role', async () => {
+      // Act & Assert
+      await expect(
+        service.revokeRole('admin-id', UserRole.ADMIN, admin),
+      ).rejects.toThrow(BadRequestException);
+      expect(mockUserModel.findByIdAndUpdate).not.toHaveBeenCalled();
+    });
+
+    it('should not let a delegate revoke admin', async () => {
+      // Arrange
+      mockPermissionsService.resolvePermissions.mockResolvedValue(['*']);
+
+      // Act & Assert
+      await expect(
+        service.revokeRole('admin-id', UserRole.ADMIN, delegate),
+      ).rejects.toThrow(ForbiddenException);
+      expect(mockUserModel.findByIdAndUpdate).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -1,6 +1,7 @@
 import { Test, TestingModule } from '@nestjs/testing';
 import {
   NotFoundException,
+  ForbiddenException,
   ValidationPipe as _ValidationPipe,
 } from '@nestjs/common';
 import { I18nService, I18nContext } from 'nestjs-i18n';
@@ -8,8 +9,23 @@ import { UsersController } from '../users.controller';
 import { UsersService } from '../users.service';
 import { CreateUserDto } from '../dto/create-user.dto';
 import { UpdateUserDto } from '../dto/update-user.dto';
-import { createMockI18nService } from '../../common/__tests__/test-utils';
+import {
+  createMockClsService,
+  createMockI18nService,
+} from '../../common/__tests__/test-utils';
+import { PERMISSIONS_RESOLVER } from '../../common/interfaces';
+import { ClsService } from 'nestjs-cls';
 import { UserDocument } from '../schemas/user.schema';
+import { UserDataRequestStatus, UserDataRequestType, UserRole } from '../enums';
+import type {
+  AuthenticatedRequest,
+  PrincipalRequest,
+} from '../../auth/auth.controller';
+import { AuthService } from '../../auth/auth.service';
+import { SessionService } from '../../auth/services/session.service';
+import { LoginThrottleService } from '../../auth/services/login-throttle.service';
+import { MfaService } from '../../auth/services/mfa.service';
+import { SessionRevocationReason } from '../../auth/enums';
 
 describe('UsersController', () => {
   let controller: UsersController;
@@ -86,8 +102,60 @@ describe('UsersController', () => {
     findById: jest.fn(),
     update: jest.fn(),
     remove: jest.fn(),
+    restore: jest.fn(),
+    suspend: jest.fn(),
+    reactivate: jest.fn(),
+    requestDataExport: jest.fn(),
+    requestErasure: jest.fn(),
+    findDataRequest: jest.fn(),
+    getDataExport: jest.fn(),
+    grantRole: jest.fn(),
+    revokeRole: jest.fn(),
+    incrementTokenVersion: jest.fn(),
+  };
+
+  const mockSessionService = {
+    findActiveByUser: jest.fn(),
+    revokeById: jest.fn(),
+    revokeAllForUser: jest.fn(),
   };
 
+  const mockAuthService = {
+    requestEmailChange: jest.fn(),
+    confirmEmailChange: jest.fn(),
+  };
+
+  const mockLoginThrottleService = {
+    unlock: jest.fn(),
+  };
+
+  const mockMfaService = {
+    reset: jest.fn(),
+  };
+
+  // Admins hold the wildcard, and the `editor` role may update users
+  const rolePermissions: Record<string, string[]> = {
+    admin: ['*'],
+    editor: ['users:update'],
+  };
+  const mockPermissionsResolver = {
+    resolvePermissions: jest
+      .fn()
+      .mockImplementation((roles: string[]) =>
+        Promise.resolve(roles.flatMap((role) => rolePermissions[role] ?? [])),
+      ),
+  };
+
+  const createRequest = (userId: string, roles: string[] = ['user']) =>
+    ({
+      user: {
+        userId,
+        email: 'test@example.com',
+        name: 'Test User',
+        roles,
+      },
+    }) as AuthenticatedRequest;
+
   beforeEach(async () => {
     // Create a more complete mock I18nContext
     const mockContext = {
@@ -119,10 +187,34 @@ describe('UsersController', () => {
           provide: UsersService,
           useValue: mockUsersService,
         },
+        {
+          provide: AuthService,
+          useValue: mockAuthService,
+        },
+        {
+          provide: SessionService,
+          useValue: mockSessionService,
+        },
+        {
+          provide: LoginThrottleService,
+          useValue: mockLoginThrottleService,
+        },
+        {
+          provide: MfaService,
+          useValue: mockMfaService,
+        },
         {
           provide: I18nService,
           useValue: createMockI18nService(),
         },
+        {
+          provide: ClsService,
+          useValue: createMockClsService(),
+        },
+        {
+          provide: PERMISSIONS_RESOLVER,
+          useValue: mockPermissionsResolver,
+        },
       ],
     }).compile();
 
@@ -170,19 +262,63 @@ describe('UsersController', () => {
   });
 
   describe('findAll', () => {
-    it('should return all users', async () => {
+    it('should return a page of users matching the query', async () => {
       // Arrange
-      const mockUsers = [mockUser, mockUser];
+      const page = {
+        data: [mockUser, mockUser],
+        meta: { total: 2, page: 1, limit: 20, pages: 1 },
+      };
       const findAllSpy = jest
         .spyOn(usersService, 'findAll')
-        .mockResolvedValueOnce(mockUsers);
+        .mockResolvedValueOnce(page);
+      const query = { role: 'admin', sort: '-createdAt' };
 
       // Act
-      const result = await controller.findAll();
+      const result = await controller.findAll(query);
 
       // Assert
-      expect(findAllSpy).toHaveBeenCalled();
-      expect(result).toEqual(mockUsers);
+      expect(findAllSpy).toHaveBeenCalledWith(query);
+      expect(result).toEqual(page);
+    });
+  });
+
+  describe('email change', () => {
+    it('should start the email change of the current user', async () => {
+      // Arrange
+      const response = { message: 'translated:AUTH.EMAIL_CHANGE_REQUESTED' };
+      mockAuthService.requestEmailChange.mockResolvedValue(response);
+
+      // Act
+      const result = await controller.requestEmailChange(
+        { email: 'new@example.com' },
+        createRequest('user-id'),
+      );
+
+      // Assert
+      expect(mockAuthService.requestEmailChange).toHaveBeenCalledWith(
+        'user-id',
+        'new@example.com',
+      );
+      expect(result).toEqual(response);
+    });
+
+    it('should confirm the email change of the current user', async () => {
+      // Arrange
+      const response = { message: 'translated:AUTH.EMAIL_CHANGED' };
+      mockAuthService.confirmEmailChange.mockResolvedValue(response);
+
+      // Act
+      const result = await controller.confirmEmailChange(
+        { token: 'change-token' },
+        createRequest('user-id'),
+      );
+
+      // Assert
+      expect(mockAuthService.confirmEmailChange).toHaveBeenCalledWith(
+        'user-id',
+        'change-token',
+      );
+      expect(result).toEqual(response);
     });
   });
 
@@ -246,6 +382,7 @@ describe('UsersController', () => {
         'user-id',
         updateUserDto,
         i18nContext,
+        createRequest('user-id'),
       );
 
       // Assert
@@ -256,20 +393,551 @@ describe('UsersController', () => {
         user: updatedUser,
       });
     });
+
+    it('should allow an admin to update another user', async () => {
+      // Arrange
+      const updateUserDto: UpdateUserDto = { name: 'Updated User' };
+      const updateSpy = jest
+        .spyOn(usersService, 'update')
+        .mockResolvedValueOnce(mockUser);
+
+      // Act
+      await controller.update(
+        'user-id',
+        updateUserDto,
+        i18nContext,
+        createRequest('admin-id', [UserRole.USER, UserRole.ADMIN]),
+      );
+
+      // Assert
+      expect(updateSpy).toHaveBeenCalledWith('user-id', updateUserDto);
+    });
+
+    it('should allow a custom role granted users:update to update another user', async () => {
+      // Arrange
+      const updateSpy = jest
+        .spyOn(usersService, 'update')
+        .mockResolvedValueOnce(mockUser);
+
+      // Act
+      await controller.update(
+        'user-id',
+        { name: 'Updated User' },
+        i18nContext,
+        createRequest('editor-id', ['editor']),
+      );
+
+      // Assert
+      expect(updateSpy).toHaveBeenCalled();
+      expect(mockPermissionsResolver.resolvePermissions).toHaveBeenCalledWith([
+        'editor',
+      ]);
+    });
+
+    it('should go by the permissions of the roles rather than their names', async () => {
+      // Arrange
+      mockPermissionsResolver.resolvePermissions.mockResolvedValueOnce([]);
+      const updateSpy = jest.spyOn(usersService, 'update');
+
+      // Act & Assert
+      await expect(
+        controller.update(
+          'user-id',
+          { name: 'Updated User' },
+          i18nContext,
+          createRequest('admin-id', [UserRole.ADMIN]),
+        ),
+      ).rejects.toThrow(ForbiddenException);
+      expect(updateSpy).not.toHaveBeenCalled();
+    });
+
+    it('should throw ForbiddenException when a non-admin updates another user', async () => {
+      // Arrange
+      const updateSpy = jest.spyOn(usersService, 'update');
+
+      // Act & Assert
+      await expect(
+        controller.update(
+          'user-id',
+          { name: 'Updated User' },
+          i18nContext,
+          createRequest('other-user-id'),
+        ),
+      ).rejects.toThrow(ForbiddenException);
+      expect(updateSpy).not.toHaveBeenCalled();
+    });
   });
 
   describe('remove', () => {
-    it('should remove a user successfully', async () => {
+    it('should soft-delete the user and revoke the sessions', async () => {
       // Arrange
       const removeSpy = jest
         .spyOn(usersService, 'remove')
-        .mockResolvedValueOnce({ deleted: true });
+        .mockResolvedValueOnce(undefined);
+
+      // Act
+      await controller.remove('user-id', createRequest('admin-id'));
+
+      // Assert
+      expect(removeSpy).toHaveBeenCalledWith('user-id', {
+        userId: 'admin-id',
+        username: 'test@example.com',
+      });
+      expect(mockSessionService.revokeAllForUser).toHaveBeenCalledWith(
+        'user-id',
+        SessionRevocationReason.ACCOUNT_DELETED,
+      );
+    });
+  });
+
+  describe('restore', () => {
+    it('should restore a deleted user', async () => {
+      // Arrange
+      const restoreSpy = jest
+        .spyOn(usersService, 'restore')
+        .mockResolvedValueOnce(mockUser);
+
+      // Act
+      const result = await controller.restore(
+        'user-id',
+        createRequest('admin-id'),
+        i18nContext,
+      );
+
+      // Assert
+      expect(restoreSpy).toHaveBeenCalledWith('user-id', {
+        userId: 'admin-id',
+        username: 'test@example.com',
+      });
+      expect(result).toEqual({
+        message: 'translated:translation.USER.RESTORED',
+        user: mockUser,
+      });
+    });
+
+    it('should name an OAuth client as the actor', async () => {
+      // Arrange
+      const restoreSpy = jest
+        .spyOn(usersService, 'restore')
+        .mockResolvedValueOnce(mockUser);
+      const req = {
+        user: {
+          principalType: 'service',
+          clientId: 'client-id',
+          name: 'Provisioning',
+          scopes: ['users:delete'],
+        },
+      } as PrincipalRequest;
+
+      // Act
+      await controller.restore('user-id', req, i18nContext);
+
+      // Assert
+      expect(restoreSpy).toHaveBeenCalledWith('user-id', {
+        username: 'Provisioning',
+        clientId: 'client-id',
+      });
+    });
+  });
+
+  describe('suspend', () => {
+    it('should suspend the user and revoke the sessions', async () => {
+      // Arrange
+      const suspendSpy = jest
+        .spyOn(usersService, 'suspend')
+        .mockResolvedValueOnce(mockUser);
+
+      // Act
+      const result = await controller.suspend(
+        'user-id',
+        createRequest('admin-id'),
+        i18nContext,
+      );
+
+      // Assert
+      expect(suspendSpy).toHaveBeenCalledWith('user-id', {
+        userId: 'admin-id',
+        username: 'test@example.com',
+      });
+      expect(mockSessionService.revokeAllForUser).toHaveBeenCalledWith(
+        'user-id',
+        SessionRevocationReason.ACCOUNT_SUSPENDED,
+      );
+      expect(result).toEqual({
+        message: 'translated:translation.USER.SUSPENDED',
+        user: mockUser,
+      });
+    });
+  });
+
+  describe('reactivate', () => {
+    it('should lift the suspension of the user', async () => {
+      // Arrange
+      const reactivateSpy = jest
+        .spyOn(usersService, 'reactivate')
+        .mockResolvedValueOnce(mockUser);
+
+      // Act
+      const result = await controller.reactivate(
+        'user-id',
+        createRequest('admin-id'),
+        i18nContext,
+      );
+
+      // Assert
+      expect(reactivateSpy).toHaveBeenCalledWith('user-id', {
+        userId: 'admin-id',
+        username: 'test@example.com',
+      });
+      expect(result).toEqual({
+        message: 'translated:translation.USER.REACTIVATED',
+        user: mockUser,
+      });
+    });
+  });
+
+  describe('data requests', () => {
+    const request = {
+      id: 'request-id',
+      type: UserDataRequestType.EXPORT,
+      status: UserDataRequestStatus.PENDING,
+      createdAt: new Date(),
+    };
+
+    it('should queue an export of the user making the request', async () => {
+      // Arrange
+      const requestSpy = jest
+        .spyOn(usersService, 'requestDataExport')
+        .mockResolvedValueOnce(request);
+
+      // Act
+      const result = await controller.requestDataExport(
+        'user-id',
+        createRequest('user-id'),
+        i18nContext,
+      );
+
+      // Assert
+      expect(requestSpy).toHaveBeenCalledWith('user-id', {
+        userId: 'user-id',
+        username: 'test@example.com',
+      });
+      expect(result).toEqual({
+        message: 'translated:translation.USER.EXPORT_REQUESTED',
+        request,
+      });
+    });
+
+    it('should let an admin export another user', async () => {
+      // Arrange
+      jest
+        .spyOn(usersService, 'requestDataExport')
+        .mockResolvedValueOnce(request);
 
       // Act
-      await controller.remove('user-id');
+      const result = await controller.requestDataExport(
+        'user-id',
+        createRequest('admin-id', [UserRole.ADMIN]),
+        i18nContext,
+      );
 
       // Assert
-      expect(removeSpy).toHaveBeenCalledWith('user-id');
+      expect(result.request).toEqual(request);
+    });
+
+    it('should throw ForbiddenException when a non-admin exports another user', async () => {
+      // Act & Assert
+      await expect(
+        controller.requestDataExport(
+          'user-id',
+          createRequest('other-id'),
+          i18nContext,
+        ),
+      ).rejects.toThrow(ForbiddenException);
+      expect(mockUsersService.requestDataExport).not.toHaveBeenCalled();
+    });
+
+    it('should queue the erasure of a user', async () => {
+      // Arrange
+      const erasure = { ...request, type: UserDataRequestType.ERASURE };
+      const requestSpy = jest
+        .spyOn(usersService, 'requestErasure')
+        .mockResolvedValueOnce(erasure);
+
+      // Act
+      const result = await controller.requestErasure(
+        'user-id',
+        createRequest('admin-id', [UserRole.ADMIN]),
+        i18nContext,
+      );
+
+      // Assert
+      expect(requestSpy).toHaveBeenCalledWith('user-id', {
+        userId: 'admin-id',
+        username: 'test@example.com',
+      });
+      expect(result).toEqual({
+        message: 'translated:translation.USER.ERASURE_REQUESTED',
+        request: erasure,
+      });
+    });
+
+    it('should throw ForbiddenException when a non-admin reads the requests of another user', async () => {
+      // Act & Assert
+      await expect(
+        controller.findDataRequest(
+          'user-id',
+          'request-id',
+          createRequest('other-id'),
+          i18nContext,
+        ),
+      ).rejects.toThrow(ForbiddenException);
+    });
+
+    it('should send a completed export as a file', async () => {
+      // Arrange
+      const bundle = {
+        exportedAt: new Date(),
+        profile: { email: 'test@example.com' },
+        sessions: [],
+        activityLogs: [],
+      };
+      jest.spyOn(usersService, 'getDataExport').mockResolvedValueOnce(bundle);
+      const res = {
+        setHeader: jest.fn(),
+        status: jest.fn().mockReturnThis(),
+        json: jest.fn(),
+      };
+
+      // Act
+      await controller.downloadDataExport(
+        'user-id',
+        'request-id',
+        createRequest('user-id'),
+        i18nContext,
+        res as unknown as Parameters<typeof controller.downloadDataExport>[4],
+      );
+
+      // Assert
+      expect(res.setHeader).toHaveBeenCalledWith(
+        'Content-Disposition',
+        'attachment; filename="user-user-id-export.json"',
+      );
+      expect(res.status).toHaveBeenCalledWith(200);
+      expect(res.json).toHaveBeenCalledWith(bundle);
+    });
+  });
+
+  describe('grantRole', () => {
+    it('should grant a role and return the updated roles', async () => {
+      // Arrange
+      const grantRoleSpy = jest
+        .spyOn(usersService, 'grantRole')
+        .mockResolvedValueOnce([UserRole.USER, UserRole.ADMIN]);
+
+      // Act
+      const result = await controller.grantRole(
+        'user-id',
+        { role: UserRole.ADMIN },
+        i18nContext,
+        createRequest('admin-id', [UserRole.ADMIN]),
+      );
+
+      // Assert
+      expect(grantRoleSpy).toHaveBeenCalledWith('user-id', UserRole.ADMIN, {
+        userId: 'admin-id',
+        permissions: ['*'],
+        scopes: undefined,
+      });
+      expect(result).toEqual({
+        message: 'translated:translation.USER.ROLE_GRANTED',
+        roles: [UserRole.USER, UserRole.ADMIN],
+      });
+    });
+
+    it('should pass the scopes of an OAuth client as its permissions', async () => {
+      // Arrange
+      const grantRoleSpy = jest
+        .spyOn(usersService, 'grantRole')
+        .mockResolvedValueOnce([UserRole.USER, 'viewer']);
+      const req = {
+        user: {
+          principalType: 'service',
+          clientId: 'client-id',
+          name: 'Provisioning',
+          scopes: ['users:manage-roles', 'users:read'],
+        },
+      } as PrincipalRequest;
+
+      // Act
+      await controller.grantRole(
+        'user-id',
+        { role: 'viewer' },
+        i18nContext,
+        req,
+      );
+
+      // Assert
+      expect(grantRoleSpy).toHaveBeenCalledWith('user-id', 'viewer', {
+        permissions: ['users:manage-roles', 'users:read'],
+        scopes: ['users:manage-roles', 'users:read'],
+      });
+    });
+  });
+
+  describe('revokeRole', () => {
+    it('should revoke a role and pass the acting user', async () => {
+      // Arrange
+      const revokeRoleSpy = jest
+        .spyOn(usersService, 'revokeRole')
+        .mockResolvedValueOnce([UserRole.USER]);
+
+      // Act
+      const result = await controller.revokeRole(
+        'user-id',
+        UserRole.ADMIN,
+        i18nContext,
+        createRequest('admin-id', [UserRole.ADMIN]),
+      );
+
+      // Assert
+      expect(revokeRoleSpy).toHaveBeenCalledWith('user-id', UserRole.ADMIN, {
+        userId: 'admin-id',
+        permissions: ['*'],
+        scopes: undefined,
+      });
+      expect(result).toEqual({
+        message: 'translated:translation.USER.ROLE_REVOKED',
+        roles: [UserRole.USER],
+      });
+    });
+  });
+
+  describe('sessions', () => {
+    it('should list the active sessions of a user', async () => {
+      // Arrange
+      const sessions = [{ id: 'session-id', current: false }];
+      mockSessionService.findActiveByUser.mockResolvedValue(sessions);
+
+      // Act
+      const result = await controller.findSessions('user-id');
+
+      // Assert
+      expect(mockSessionService.findActiveByUser).toHaveBeenCalledWith(
+        'user-id',
+      );
+      expect(result).toBe(sessions);
+    });
+
+    it('should revoke one session of a user', async () => {
+      // Act
+      await controller.revokeSession('user-id', 'session-id');
+
+      // Assert
+      expect(mockSessionService.revokeById).toHaveBeenCalledWith(
+        'user-id',
+        'session-id',
+        SessionRevocationReason.REVOKED_BY_ADMIN,
+      );
+    });
+
+    it('should revoke all sessions of a user', async () => {
+      // Arrange
+      mockSessionService.revokeAllForUser.mockResolvedValue(3);
+
+      // Act
+      const result = await controller.revokeAllSessions('user-id', i18nContext);
+
+      // Assert
+      expect(mockUsersService.incrementTokenVersion).toHaveBeenCalledWith(
+        'user-id',
+      );
+      expect(mockSessionService.revokeAllForUser).toHaveBeenCalledWith(
+        'user-id',
+        SessionRevocationReason.REVOKED_BY_ADMIN,
+      );
+      expect(result).toEqual({
+        message: 'translated:translation.SESSION.ALL_REVOKED',
+        revoked: 3,
+      });
+    });
+  });
+
+  describe('unlock', () => {
+    it('should clear the failed logins of the account', async () => {
+      // Arrange
+      mockUsersService.findById.mockResolvedValue({
+        _id: 'user-id',
+        email: 'locked@example.com',
+      });
+      mockLoginThrottleService.unlock.mockResolvedValue(true);
+
+      // Act
+      const result = await controller.unlock('user-id', i18nContext);
+
+      // Assert
+      expect(mockLoginThrottleService.unlock).toHaveBeenCalledWith(
+        'locked@example.com',
+      );
+      expect(result).toEqual({
+        message: 'translated:translation.AUTH.ACCOUNT_UNLOCKED',
+        unlocked: true,
+      });
+    });
+
+    it('should throw NotFoundException for an unknown user', async () => {
+      // Arrange
+      mockUsersService.findById.mockResolvedValue(null);
+
+      // Act & Assert
+      await expect(
+        controller.unlock('missing-id', i18nContext),
+      ).rejects.toThrow(NotFoundException);
+      expect(mockLoginThrottleService.unlock).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('resetMfa', () => {
+    it('should reset the second factor of the user', async () => {
+      // Arrange
+      mockUsersService.findById.mockResolvedValue({
+        _id: 'user-id',
+        email: 'test@example.com',
+      });
+      mockMfaService.reset.mockResolvedValue(true);
+
+      // Act
+      const result = await controller.resetMfa(
+        'user-id',
+        createRequest('admin-id', ['admin']),
+        i18nContext,
+      );
+
+      // Assert
+      expect(mockMfaService.reset).toHaveBeenCalledWith(
+        'user-id',
+        'test@example.com',
+        'admin-id',
+      );
+      expect(result).toEqual({
+        message: 'translated:translation.AUTH.MFA_RESET',
+        reset: true,
+      });
+    });
+
+    it('should throw NotFoundException for an unknown user', async () => {
+      // Arrange
+      mockUsersService.findById.mockResolvedValue(null);
+
+      // Act & Assert
+      await expect(
+        controller.resetMfa(
+          'missing-id',
+          createRequest('admin-id', ['admin']),
+          i18nContext,
+        ),
+      ).rejects.toThrow(NotFoundException);
+      expect(mockMfaService.reset).not.toHaveBeenCalled();
     });
   });
 });
@@ -1,15 +1,18 @@
 import { Test, TestingModule } from '@nestjs/testing';
 import { UsersService } from '../users.service';
 import { UserCrudService } from '../services/user-crud.service';
+import { UserRolesService } from '../services/user-roles.service';
 import { UserAuthenticationService } from '../services/user-authentication.service';
+import { UserLifecycleService } from '../services/user-lifecycle.service';
+import { UserDataService } from '../services/user-data.service';
 import { CreateUserDto } from '../dto/create-user.dto';
 import { UpdateUserDto } from '../dto/update-user.dto';
 import { UserDocument } from '../schemas/user.schema';
+import { UserDataRequestStatus, UserDataRequestType, UserRole } from '../enums';
 
 describe('UsersService', () => {
   let service: UsersService;
   let userCrudService: UserCrudService;
-  let userAuthService: UserAuthenticationService;
 
   // Create a mock user that includes the necessary Document properties
   const mockUser = {
@@ -82,11 +85,31 @@ describe('UsersService', () => {
     findOneByEmail: jest.fn(),
     findUserByIdForAuth: jest.fn(),
     update: jest.fn(),
+  };
+
+  const mockUserLifecycleService = {
     remove: jest.fn(),
+    restore: jest.fn(),
+    suspend: jest.fn(),
+    reactivate: jest.fn(),
+  };
+
+  const mockUserDataService = {
+    requestExport: jest.fn(),
+    requestErasure: jest.fn(),
+    findRequest: jest.fn(),
+    getExport: jest.fn(),
+  };
+
+  const mockUserRolesService = {
+    grantRole: jest.fn(),
+    revokeRole: jest.fn(),
   };
 
   const mockUserAuthService = {
-    setCurrentRefreshToken: jest.fn(),
+    incrementTokenVersion: jest.fn(),
+    markEmailVerified: jest.fn(),
+    updatePassword: jest.fn(),
   };
 
   beforeEach(async () => {
@@ -97,18 +120,27 @@ describe('UsersService', () => {
           provide: UserCrudService,
           useValue: mockUserCrudService,
         },
+        {
+          provide: UserRolesService,
+          useValue: mockUserRolesService,
+        },
         {
           provide: UserAuthenticationService,
           useValue: mockUserAuthService,
         },
+        {
+          provide: UserLifecycleService,
+          useValue: mockUserLifecycleService,
+        },
+        {
+          provide: UserDataService,
+          useValue: mockUserDataService,
+        },
       ],
     }).compile();
 
     service = module.get<UsersService>(UsersService);
     userCrudService = module.get<UserCrudService>(UserCrudService);
-    userAuthService = module.get<UserAuthenticationService>(
-      UserAuthenticationService,
-    );
   });
 
   afterEach(() => {
@@ -142,16 +174,22 @@ describe('UsersService', () => {
   });
 
   describe('findAll', () => {
-    it('should call userCrudService.findAll', async () => {
+    it('should call userCrudService.findAll with the query', async () => {
       // Arrange
-      jest.spyOn(userCrudService, 'findAll').mockResolvedValue([mockUser]);
+      const page = {
+        data: [mockUser],
+        meta: { total: 1, page: 1, limit: 20, pages: 1 },
+      };
+      jest.spyOn(userCrudService, 'findAll').mockResolvedValue(page);
 
       // Act
-      const result = await service.findAll();
+      const result = await service.findAll({ search: 'test' });
 
       // Assert
-      expect(jest.spyOn(userCrudService, 'findAll')).toHaveBeenCalled();
-      expect(result).toEqual([mockUser]);
+      expect(jest.spyOn(userCrudService, 'findAll')).toHaveBeenCalledWith({
+        search: 'test',
+      });
+      expect(result).toEqual(page);
     });
   });
 
@@ -232,48 +270,231 @@ describe('UsersService', () => {
     });
   });
 
-  describe('remove', () => {
-    it('should call userCrudService.remove with id', async () => {
+  describe('lifecycle', () => {
+    const actor = { userId: 'admin-id', username: 'admin@example.com' };
+
+    it('should call userLifecycleService.remove with id and actor', async () => {
+      // Act
+      await service.remove('user-id', actor);
+
+      // Assert
+      expect(mockUserLifecycleService.remove).toHaveBeenCalledWith(
+        'user-id',
+        actor,
+      );
+    });
+
+    it('should call userLifecycleService.suspend with id and actor', async () => {
+      // Arrange
+      mockUserLifecycleService.suspend.mockResolvedValue(mockUser);
+
+      // Act
+      const result = await service.suspend('user-id', actor);
+
+      // Assert
+      expect(mockUserLifecycleService.suspend).toHaveBeenCalledWith(
+        'user-id',
+        actor,
+      );
+      expect(result).toEqual(mockUser);
+    });
+
+    it('should call userLifecycleService.reactivate with id and actor', async () => {
       // Arrange
-      const deleteResult = { deleted: true };
-      jest.spyOn(userCrudService, 'remove').mockResolvedValue(deleteResult);
+      mockUserLifecycleService.reactivate.mockResolvedValue(mockUser);
 
       // Act
-      const result = await service.remove('user-id');
+      const result = await service.reactivate('user-id', actor);
 
       // Assert
-      expect(jest.spyOn(userCrudService, 'remove')).toHaveBeenCalledWith(
+      expect(mockUserLifecycleService.reactivate).toHaveBeenCalledWith(
         'user-id',
+        actor,
       );
-      expect(result).toEqual(deleteResult);
+      expect(result).toEqual(mockUser);
+    });
+
+    it('should call userLifecycleService.restore with id and actor', async () => {
+      // Arrange
+      mockUserLifecycleService.restore.mockResolvedValue(mockUser);
+
+      // Act
+      const result = await service.restore('user-id', actor);
+
+      // Assert
+      expect(mockUserLifecycleService.restore).toHaveBeenCalledWith(
+        'user-id',
+        actor,
+      );
+      expect(result).toEqual(mockUser);
     });
   });
 
-  describe('setCurrentRefreshToken', () => {
-    it('should call userAuthService.setCurrentRefreshToken with userId and refreshToken', async () => {
+  describe('data requests', () => {
+    const actor = { userId: 'user-id', username: 'test@example.com' };
+    const request = {
+      id: 'request-id',
+      type: UserDataRequestType.EXPORT,
+      status: UserDataRequestStatus.PENDING,
+      createdAt: new Date(),
+    };
+
+    it('should call userDataService.requestExport with id and actor', async () => {
       // Arrange
-      jest.spyOn(userAuthService, 'setCurrentRefreshToken').mockResolvedValue();
+      mockUserDataService.requestExport.mockResolvedValue(request);
 
       // Act
-      await service.setCurrentRefreshToken('user-id', 'refresh_token');
+      const result = await service.requestDataExport('user-id', actor);
 
       // Assert
-      expect(
-        jest.spyOn(userAuthService, 'setCurrentRefreshToken'),
-      ).toHaveBeenCalledWith('user-id', 'refresh_token');
+      expect(mockUserDataService.requestExport).toHaveBeenCalledWith(
+        'user-id',
+        actor,
+      );
+      expect(result).toEqual(request);
     });
 
-    it('should call userAuthService.setCurrentRefreshToken with userId and null', async () => {
+    it('should call userDataService.requestErasure with id and actor', async () => {
       // Arrange
-      jest.spyOn(userAuthService, 'setCurrentRefreshToken').mockResolvedValue();
+      const erasure = { ...request, type: UserDataRequestType.ERASURE };
+      mockUserDataService.requestErasure.mockResolvedValue(erasure);
 
       // Act
-      await service.setCurrentRefreshToken('user-id', null);
+      const result = await service.requestErasure('user-id', actor);
 
       // Assert
-      expect(
-        jest.spyOn(userAuthService, 'setCurrentRefreshToken'),
-      ).toHaveBeenCalledWith('user-id', null);
+      expect(mockUserDataService.requestErasure).toHaveBeenCalledWith(
+        'user-id',
+        actor,
+      );
+      expect(result).toEqual(erasure);
+    });
+
+    it('should call userDataService.getExport with ids and actor', async () => {
+      // Arrange
+      const bundle = {
+        exportedAt: new Date(),
+        profile: {},
+        sessions: [],
+        activityLogs: [],
+      };
+      mockUserDataService.getExport.mockResolvedValue(bundle);
+
+      // Act
+      const result = await service.getDataExport(
+        'user-id',
+        'request-id',
+        actor,
+      );
+
+      // Assert
+      expect(mockUserDataService.getExport).toHaveBeenCalledWith(
+        'user-id',
+        'request-id',
+        actor,
+      );
+      expect(result).toEqual(bundle);
+    });
+  });
+
+  describe('grantRole', () => {
+    const actor = { userId: 'admin-id', permissions: ['*'] };
+
+    it('should delegate to userRolesService.grantRole', async () => {
+      // Arrange
+      mockUserRolesService.grantRole.mockResolvedValue(['user', 'admin']);
+
+      // Act
+      const result = await service.grantRole('user-id', UserRole.ADMIN, actor);
+
+      // Assert
+      expect(mockUserRolesService.grantRole).toHaveBeenCalledWith(
+        'user-id',
+        UserRole.ADMIN,
+        actor,
+      );
+      expect(result).toEqual(['user', 'admin']);
+    });
+  });
+
+  describe('revokeRole', () => {
+    const actor = { userId: 'admin-id', permissions: ['*'] };
+
+    it('should delegate to userRolesService.revokeRole', async () => {
+      // Arrange
+      mockUserRolesService.revokeRole.mockResolvedValue(['user']);
+
+      // Act
+      const result = await service.revokeRole('user-id', UserRole.ADMIN, actor);
+
+      // Assert
+      expect(mockUserRolesService.revokeRole).toHaveBeenCalledWith(
+        'user-id',
+        UserRole.ADMIN,
+        actor,
+      );
+      expect(result).toEqual(['user']);
+    });
+  });
+
+  describe('register', () => {
+    it('should create the user with an unverified email', async () => {
+      // Arrange
+      const createUserDto: CreateUserDto = {
+        name: 'Test User',
+        email: 'test@example.com',
+        password: 'password123',
+        password_confirmation: 'password123',
+      };
+      jest
+        .spyOn(userCrudService, 'create')
+        .mockResolvedValue(mockUser as unknown as UserDocument);
+
+      // Act
+      await service.register(createUserDto);
+
+      // Assert
+      expect(jest.spyOn(userCrudService, 'create')).toHaveBeenCalledWith(
+        createUserDto,
+        { emailVerified: false },
+      );
+    });
+  });
+
+  describe('updatePassword', () => {
+    it('should delegate to userAuthService.updatePassword', async () => {
+      // Act
+      await service.updatePassword('user-id', 'newpassword');
+
+      // Assert
+      expect(mockUserAuthService.updatePassword).toHaveBeenCalledWith(
+        'user-id',
+        'newpassword',
+      );
+    });
+  });
+
+  describe('markEmailVerified', () => {
+    it('should delegate to userAuthService.markEmailVerified', async () => {
+      // Act
+      await service.markEmailVerified('user-id');
+
+      // Assert
+      expect(mockUserAuthService.markEmailVerified).toHaveBeenCalledWith(
+        'user-id',
+      );
+    });
+  });
+
+  describe('incrementTokenVersion', () => {
+    it('should delegate to userAuthService.incrementTokenVersion', async () => {
+      // Act
+      await service.incrementTokenVersion('user-id');
+
+      // Assert
+      expect(mockUserAuthService.incrementTokenVersion).toHaveBeenCalledWith(
+        'user-id',
+      );
     });
   });
 });
@@ -0,0 +1,48 @@
+import { validate } from 'class-validator';
+import { plainToInstance } from 'class-transformer';
+import { MeetsPasswordPolicy } from '../../validators/password-policy.validator';
+
+class TestDto {
+  @MeetsPasswordPolicy()
+  password: string;
+}
+
+describe('MeetsPasswordPolicy', () => {
+  it('should accept a password that follows the policy', async () => {
+    // Arrange
+    const dto = plainToInstance(TestDto, { password: 'correct-horse-42' });
+
+    // Act
+    const errors = await validate(dto);
+
+    // Assert
+    expect(errors).toHaveLength(0);
+  });
+
+  it('should report the rule the password breaks', async () => {
+    // Arrange
+    const dto = plainToInstance(TestDto, { password: 'short' });
+
+    // Act
+    const errors = await validate(dto);
+
+    // Assert
+    expect(errors).toHaveLength(1);
+    expect(errors[0].constraints?.passwordPolicy).toMatch(
+      /^translation\.VALIDATION\.PASSWORD_MIN_LENGTH\|/,
+    );
+  });
+
+  it('should reject a common password', async () => {
+    // Arrange
+    const dto = plainToInstance(TestDto, { password: 'qwerty123' });
+
+    // Act
+    const errors = await validate(dto);
+
+    // Assert
+    expect(errors[0].constraints?.passwordPolicy).toMatch(
+      /^translation\.VALIDATION\.PASSWORD_TOO_COMMON\|/,
+    );
+  });
+});
@@ -0,0 +1,550 @@
+/**
+ * Bundled list of the most common passwords
+ * Compiled from public breach corpora; compared case-insensitively so the
+ * list only holds lowercase entries
+ */
+export const COMMON_PASSWORDS: ReadonlySet<string> = new Set([
+  '123456',
+  'password',
+  '12345678',
+  'qwerty',
+  '123456789',
+  '12345',
+  '1234',
+  '111111',
+  '1234567',
+  'dragon',
+  '123123',
+  'baseball',
+  'abc123',
+  'football',
+  'monkey',
+  'letmein',
+  '696969',
+  'shadow',
+  'master',
+  '666666',
+  'qwertyuiop',
+  '123321',
+  'mustang',
+  '1234567890',
+  'michael',
+  '654321',
+  'superman',
+  '1qaz2wsx',
+  '7777777',
+  '121212',
+  '000000',
+  'qazwsx',
+  '123qwe',
+  'killer',
+  'trustno1',
+  'jordan',
+  'jennifer',
+  'zxcvbnm',
+  'asdfgh',
+  'hunter',
+  'buster',
+  'soccer',
+  'harley',
+  'batman',
+  'andrew',
+  'tigger',
+  'sunshine',
+  'iloveyou',
+  '2000',
+  'charlie',
+  'robert',
+  'thomas',
+  'hockey',
+  'ranger',
+  'daniel',
+  'starwars',
+  'klaster',
+  '112233',
+  'george',
+  'computer',
+  'michelle',
+  'jessica',
+  'pepper',
+  '1111',
+  'zxcvbn',
+  '555555',
+  '11111111',
+  '131313',
+  'freedom',
+  '777777',
+  'pass',
+  'maggie',
+  '159753',
+  'aaaaaa',
+  'ginger',
+  'princess',
+  'joshua',
+  'cheese',
+  'amanda',
+  'summer',
+  'love',
+  'ashley',
+  'nicole',
+  'chelsea',
+  'matthew',
+  'access',
+  'yankees',
+  '987654321',
+  'dallas',
+  'austin',
+  'thunder',
+  'taylor',
+  'matrix',
+  'minecraft',
+  'william',
+  'corvette',
+  'hello',
+  'martin',
+  'heather',
+  'secret',
+  'merlin',
+  'diamond',
+  '1234qwer',
+  'gfhjkm',
+  'hammer',
+  'silver',
+  '222222',
+  '88888888',
+  'anthony',
+  'justin',
+  'test',
+  'bailey',
+  'q1w2e3r4t5',
+  'patrick',
+  'internet',
+  'scooter',
+  'orange',
+  '11111',
+  'golfer',
+  'cookie',
+  'richard',
+  'samantha',
+  'bigdog',
+  'guitar',
+  'jackson',
+  'whatever',
+  'mickey',
+  'chicken',
+  'sparky',
+  'snoopy',
+  'maverick',
+  'phoenix',
+  'camaro',
+  'peanut',
+  'morgan',
+  'welcome',
+  'falcon',
+  'cowboy',
+  'ferrari',
+  'samsung',
+  'andrea',
+  'smokey',
+  'steelers',
+  'joseph',
+  'mercedes',
+  'dakota',
+  'arsenal',
+  'eagles',
+  'melissa',
+  'boomer',
+  'booboo',
+  'spider',
+  'nascar',
+  'monster',
+  'tigers',
+  'yellow',
+  'xxxxxx',
+  '123123123',
+  'gateway',
+  'marina',
+  'diablo',
+  'bulldog',
+  'qwer1234',
+  'compaq',
+  'purple',
+  'hardcore',
+  'banana',
+  'junior',
+  'hannah',
+  '123654',
+  'porsche',
+  'lakers',
+  'iceman',
+  'money',
+  'cowboys',
+  '987654',
+  'london',
+  'tennis',
+  '999999',
+  'ncc1701',
+  'coffee',
+  'scooby',
+  '0000',
+  'miller',
+  'boston',
+  'q1w2e3r4',
+  'brandon',
+  'yamaha',
+  'chester',
+  'mother',
+  'forever',
+  'johnny',
+  'edward',
+  '333333',
+  'oliver',
+  'redsox',
+  'player',
+  'nikita',
+  'knight',
+  'fender',
+  'barney',
+  'midnight',
+  'please',
+  'brandy',
+  'chicago',
+  'badboy',
+  'slayer',
+  'rangers',
+  'charles',
+  'angel',
+  'flower',
+  'rabbit',
+  'wizard',
+  'jasper',
+  'enter',
+  'rachel',
+  'chris',
+  'steven',
+  'winner',
+  'adidas',
+  'victoria',
+  'natasha',
+  '1q2w3e4r',
+  'jasmine',
+  'winter',
+  'prince',
+  'marine',
+  'ghbdtn',
+  'fishing',
+  'cocacola',
+  'casper',
+  'james',
+  '232323',
+  'raiders',
+  '888888',
+  'marlboro',
+  'gandalf',
+  'asdfasdf',
+  'crystal',
+  '87654321',
+  '12344321',
+  'golden',
+  '8675309',
+  'panther',
+  'lauren',
+  'angela',
+  'thx1138',
+  'angels',
+  'madison',
+  'winston',
+  'shannon',
+  'mike',
+  'toyota',
+  'jordan23',
+  'canada',
+  'sophie',
+  'apples',
+  'tiger',
+  'razz',
+  '123abc',
+  'pokemon',
+  'qazxsw',
+  '55555',
+  'qwaszx',
+  'muffin',
+  'johnson',
+  'murphy',
+  'cooper',
+  'jonathan',
+  'liverpoo',
+  'david',
+  'danielle',
+  '159357',
+  'jackie',
+  '1990',
+  '123456a',
+  '789456',
+  'turtle',
+  'abcd1234',
+  'scorpion',
+  'qazwsxedc',
+  '101010',
+  'butter',
+  'carlos',
+  'password1',
+  'dennis',
+  'slipknot',
+  'qwerty123',
+  'booger',
+  'asdf',
+  '1991',
+  'black',
+  'startrek',
+  '12341234',
+  'cameron',
+  'newyork',
+  'rainbow',
+  'nathan',
+  'john',
+  '1992',
+  'rocket',
+  'viking',
+  'redskins',
+  'asdfghjkl',
+  '1212',
+  'sierra',
+  'peaches',
+  'gemini',
+  'doctor',
+  'wilson',
+  'sandra',
+  'helpme',
+  'qwertyui',
+  'victor',
+  'florida',
+  'dolphin',
+  'pookie',
+  'captain',
+  'tucker',
+  'blue',
+  'liverpool',
+  'theman',
+  'bandit',
+  'dolphins',
+  'maddog',
+  'packers',
+  'jaguar',
+  'lovers',
+  'nicholas',
+  'united',
+  'tiffany',
+  'maxwell',
+  'zzzzzz',
+  'nirvana',
+  'jeremy',
+  'monica',
+  'elephant',
+  'giants',
+  'hotdog',
+  'rosebud',
+  'success',
+  'debbie',
+  'mountain',
+  '444444',
+  'xxxxxxxx',
+  'warrior',
+  '1q2w3e4r5t',
+  'q1w2e3',
+  '123456q',
+  'albert',
+  'metallic',
+  'lucky',
+  'azerty',
+  '7777',
+  'alex',
+  'bond007',
+  'alexis',
+  '1111111',
+  'samson',
+  '5150',
+  'willie',
+  'scorpio',
+  'bonnie',
+  'gators',
+  'benjamin',
+  'voodoo',
+  'driver',
+  'dexter',
+  '2112',
+  'jason',
+  'calvin',
+  'freddy',
+  '212121',
+  'creative',
+  '12345a',
+  'sydney',
+  'rush2112',
+  '1989',
+  'asdfghjk',
+  'red123',
+  'bubba',
+  '4815162342',
+  'passw0rd',
+  'trouble',
+  'gunner',
+  'happy',
+  'loveme',
+  'gordon',
+  'legend',
+  'jessie',
+  'stella',
+  'qwert',
+  'eminem',
+  'arthur',
+  'apple',
+  'nissan',
+  'bear',
+  'america',
+  '1qazxsw2',
+  'nothing',
+  'parker',
+  '4444',
+  'rebecca',
+  'qweqwe',
+  'garfield',
+  '01012011',
+  'beavis',
+  '69696969',
+  'jack',
+  'asdasd',
+  'december',
+  '2222',
+  '102030',
+  '252525',
+  '11223344',
+  'magic',
+  'apollo',
+  'skippy',
+  '315475',
+  'kitten',
+  'golf',
+  'copper',
+  'braves',
+  'shelby',
+  'godzilla',
+  'beaver',
+  'fred',
+  'tomcat',
+  'august',
+  'buddy',
+  'airborne',
+  '1993',
+  '1988',
+  'lifehack',
+  'qqqqqq',
+  'brooklyn',
+  'animal',
+  'platinum',
+  'phantom',
+  'online',
+  'xavier',
+  'darkness',
+  'blink182',
+  'power',
+  'fish',
+  'green',
+  '789456123',
+  'voyager',
+  'police',
+  'travis',
+  '12qwaszx',
+  'heaven',
+  'snowball',
+  'lover',
+  'abcdef',
+  '00000',
+  'pakistan',
+  '007007',
+  'walter',
+  'blazer',
+  'cricket',
+  'sniper',
+  'donkey',
+  'willow',
+  'loveyou',
+  'jimmy',
+  '1122',
+  'password123',
+  'admin',
+  'admin123',
+  'administrator',
+  'root',
+  'toor',
+  'changeme',
+  'changeit',
+  'default',
+  'guest',
+  'login',
+  'welcome1',
+  'welcome123',
+  'letmein1',
+  'passwd',
+  'p@ssw0rd',
+  'p@ssword',
+  'pa55word',
+  'pa$$word',
+  'password12',
+  'password1234',
+  'iloveyou1',
+  'qwerty1',
+  'qwerty12',
+  'abc12345',
+  'abcdefg',
+  'abcdefgh',
+  '1q2w3e',
+  '1qaz2wsx3edc',
+  'zaq12wsx',
+  'zaq1zaq1',
+  'aa123456',
+  'a123456',
+  'a12345678',
+  '123456789a',
+  '1234567890a',
+  'football1',
+  'baseball1',
+  'superman1',
+  'monkey1',
+  'dragon1',
+  'sunshine1',
+  'princess1',
+  'shadow1',
+  'master1',
+  'trustno1!',
+  'letmein!',
+  'welcome!',
+  'secret1',
+  'test123',
+  'test1234',
+  'testing',
+  'demo',
+  'demo123',
+  'user',
+  'user123',
+  'temp',
+  'temp123',
+  'temporary',
+  'summer2024',
+  'winter2024',
+  'spring2024',
+  'autumn2024',
+  'summer2025',
+  'winter2025',
+  'spring2025',
+  'autumn2025',
+  'qwertyuiop123',
+  'asdfghjkl123',
+  'zxcvbnm123',
+  '11111111111',
+  '00000000',
+  '12121212',
+  '123456789012',
+  '1234512345',
+  '987654321a',
+]);
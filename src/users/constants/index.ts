@@ -0,0 +1,2 @@
+export * from './common-passwords.constant';
+export * from './user-query.constant';
@@ -0,0 +1,10 @@
+/**
+ * Fields users can be sorted on
+ * Anything else, such as `password_hash`, is refused
+ */
+export const USER_SORT_FIELDS = [
+  'name',
+  'email',
+  'createdAt',
+  'updatedAt',
+] as const;
@@ -0,0 +1,16 @@
+import { IsNotEmpty, IsString } from 'class-validator';
+import { i18nValidationMessage } from 'nestjs-i18n';
+import { ApiProperty } from '@nestjs/swagger';
+import { UserRole } from '../enums';
+
+export class AssignRoleDto {
+  @ApiProperty({
+    description: 'The name of the role to grant to the user',
+    example: UserRole.ADMIN,
+  })
+  @IsNotEmpty({
+    message: i18nValidationMessage('translation.VALIDATION.ROLE_NOT_EMPTY'),
+  })
+  @IsString()
+  readonly role: string;
+}
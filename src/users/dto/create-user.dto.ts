@@ -2,12 +2,12 @@ import {
   IsString,
   IsEmail,
   IsNotEmpty,
-  MinLength,
   Matches,
   ValidateIf,
 } from 'class-validator';
 import { i18nValidationMessage } from 'nestjs-i18n';
 import { ApiProperty } from '@nestjs/swagger';
+import { MeetsPasswordPolicy } from '../validators';
 
 export class CreateUserDto {
   @ApiProperty({
@@ -39,23 +39,19 @@ export class CreateUserDto {
 
   @ApiProperty({
     description: 'The password of the user',
-    example: 'password123',
-    minLength: 6,
+    example: 'correct-horse-42',
+    minLength: 8,
+    maxLength: 128,
   })
   @IsNotEmpty({
     message: i18nValidationMessage('translation.VALIDATION.PASSWORD_NOT_EMPTY'),
   })
-  @MinLength(6, {
-    message: i18nValidationMessage(
-      'translation.VALIDATION.PASSWORD_MIN_LENGTH',
-      { constraints: [6] },
-    ),
-  })
+  @MeetsPasswordPolicy()
   readonly password: string;
 
   @ApiProperty({
     description: 'Password confirmation that must match the password',
-    example: 'password123',
+    example: 'correct-horse-42',
   })
   @IsNotEmpty({
     message: i18nValidationMessage(
@@ -0,0 +1,34 @@
+import { IsEmail, IsNotEmpty, IsString } from 'class-validator';
+import { i18nValidationMessage } from 'nestjs-i18n';
+import { ApiProperty } from '@nestjs/swagger';
+
+export class RequestEmailChangeDto {
+  @ApiProperty({
+    description: 'The new email address, which must confirm the change',
+    example: 'john.doe@example.org',
+  })
+  @IsNotEmpty({
+    message: i18nValidationMessage('translation.VALIDATION.EMAIL_NOT_EMPTY'),
+  })
+  @IsEmail(
+    {},
+    {
+      message: i18nValidationMessage(
+        'translation.VALIDATION.EMAIL_INVALID_FORMAT',
+      ),
+    },
+  )
+  readonly email: string;
+}
+
+export class ConfirmEmailChangeDto {
+  @ApiProperty({
+    description: 'Token from the confirmation email',
+    example: 'Q2hlY2sgeW91ciBpbmJveCBmb3IgdGhlIHJlYWwgdG9rZW4',
+  })
+  @IsNotEmpty({
+    message: i18nValidationMessage('translation.VALIDATION.TOKEN_NOT_EMPTY'),
+  })
+  @IsString()
+  readonly token: string;
+}
@@ -0,0 +1,139 @@
+import {
+  IsDateString,
+  IsIn,
+  IsInt,
+  IsOptional,
+  IsString,
+  Matches,
+  Max,
+  MaxLength,
+  Min,
+} from 'class-validator';
+import { Type } from 'class-transformer';
+import { i18nValidationMessage } from 'nestjs-i18n';
+import { ApiHideProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { USER_SORT_FIELDS } from '../constants';
+import { UserStatus } from '../enums';
+
+const sortField = `-?(${USER_SORT_FIELDS.join('|')})`;
+const SORT_PATTERN = new RegExp(`^${sortField}(,${sortField})*$`);
+
+export class FindUsersQueryDto {
+  // page, limit and sort are documented by @ApiPagination()
+  @ApiHideProperty()
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt({
+    message: i18nValidationMessage('translation.VALIDATION.PAGE_INVALID'),
+  })
+  @Min(1, {
+    message: i18nValidationMessage('translation.VALIDATION.PAGE_INVALID'),
+  })
+  readonly page?: number;
+
+  @ApiHideProperty()
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt({
+    message: i18nValidationMessage('translation.VALIDATION.LIMIT_INVALID'),
+  })
+  @Min(1, {
+    message: i18nValidationMessage('translation.VALIDATION.LIMIT_INVALID'),
+  })
+  @Max(100, {
+    message: i18nValidationMessage('translation.VALIDATION.LIMIT_INVALID'),
+  })
+  readonly limit?: number;
+
+  @ApiHideProperty()
+  @IsOptional()
+  @Matches(SORT_PATTERN, {
+    message: i18nValidationMessage('translation.VALIDATION.SORT_INVALID'),
+  })
+  readonly sort?: string;
+
+  @ApiPropertyOptional({
+    description: 'Case-insensitive search over the name and the email',
+    example: 'john',
+    maxLength: 100,
+  })
+  @IsOptional()
+  @IsString()
+  @MaxLength(100)
+  readonly search?: string;
+
+  @ApiPropertyOptional({
+    description: 'Exact email address',
+    example: 'john.doe@example.com',
+  })
+  @IsOptional()
+  @IsString()
+  readonly email?: string;
+
+  @ApiPropertyOptional({
+    description: 'Part of the name, case-insensitive',
+    example: 'Doe',
+    maxLength: 100,
+  })
+  @IsOptional()
+  @IsString()
+  @MaxLength(100)
+  readonly name?: string;
+
+  @ApiPropertyOptional({
+    description: 'Name of a role the users hold',
+    example: 'admin',
+  })
+  @IsOptional()
+  @IsString()
+  readonly role?: string;
+
+  @ApiPropertyOptional({
+    description:
+      'Status of the users; only `deactivated` lists deleted users, until they are purged, and `erased` lists erased users',
+    enum: UserStatus,
+  })
+  @IsOptional()
+  @IsIn(Object.values(UserStatus), {
+    message: i18nValidationMessage('translation.VALIDATION.STATUS_INVALID'),
+  })
+  readonly status?: UserStatus;
+
+  @ApiPropertyOptional({
+    description: 'Whether the users have verified their email address',
+    enum: ['true', 'false'],
+  })
+  @IsOptional()
+  @IsIn(['true', 'false'], {
+    message: i18nValidationMessage('translation.VALIDATION.BOOLEAN_INVALID'),
+  })
+  readonly email_verified?: string;
+
+  @ApiPropertyOptional({
+    description: 'Only users created at or after this date',
+    example: '2026-01-01T00:00:00.000Z',
+    format: 'date-time',
+  })
+  @IsOptional()
+  @IsDateString(
+    {},
+    {
+      message: i18nValidationMessage('translation.VALIDATION.DATE_INVALID'),
+    },
+  )
+  readonly created_from?: string;
+
+  @ApiPropertyOptional({
+    description: 'Only users created at or before this date',
+    example: '2026-12-31T23:59:59.999Z',
+    format: 'date-time',
+  })
+  @IsOptional()
+  @IsDateString(
+    {},
+    {
+      message: i18nValidationMessage('translation.VALIDATION.DATE_INVALID'),
+    },
+  )
+  readonly created_to?: string;
+}
@@ -1,2 +1,5 @@
 export * from './create-user.dto';
 export * from './update-user.dto';
+export * from './assign-role.dto';
+export * from './find-users-query.dto';
+export * from './email-change.dto';
@@ -1,4 +1,4 @@
-import { IsString, MinLength, IsOptional, IsNotEmpty } from 'class-validator';
+import { IsString, IsOptional, IsNotEmpty } from 'class-validator';
 import { i18nValidationMessage } from 'nestjs-i18n';
 import { ApiPropertyOptional } from '@nestjs/swagger';
 
@@ -14,26 +14,7 @@ export class UpdateUserDto {
   })
   readonly name?: string;
 
-  // Usually not allowing email updates through this endpoint, or requiring verification
-  // @ApiPropertyOptional({
-  //   description: 'The email of the user',
-  //   example: 'john.doe@example.com',
-  // })
-  // @IsOptional()
-  // @IsEmail({}, { message: i18nValidationMessage('translation.VALIDATION.EMAIL_INVALID_FORMAT') })
-  // readonly email?: string;
+  // The email is changed through POST /users/me/email-change, which has the new address confirm it
 
-  @ApiPropertyOptional({
-    description: 'The new password of the user',
-    example: 'newpassword123',
-    minLength: 6,
-  })
-  @IsOptional()
-  @MinLength(6, {
-    message: i18nValidationMessage(
-      'translation.VALIDATION.PASSWORD_MIN_LENGTH',
-      { constraints: [6] },
-    ),
-  })
-  readonly password?: string; // If you want to update the password
+  // The password is changed through POST /auth/change-password, which checks the current one
 }
@@ -0,0 +1,3 @@
+export * from './user-role.enum';
+export * from './user-status.enum';
+export * from './user-data-request.enum';
@@ -0,0 +1,16 @@
+/**
+ * What a data-subject request asks for
+ */
+export enum UserDataRequestType {
+  EXPORT = 'export',
+  ERASURE = 'erasure',
+}
+
+/**
+ * Processing state of a data-subject request
+ */
+export enum UserDataRequestStatus {
+  PENDING = 'pending',
+  COMPLETED = 'completed',
+  FAILED = 'failed',
+}
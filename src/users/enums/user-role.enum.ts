@@ -0,0 +1,7 @@
+/**
+ * Roles that can be assigned to a user
+ */
+export enum UserRole {
+  USER = 'user',
+  ADMIN = 'admin',
+}
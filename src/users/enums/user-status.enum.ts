@@ -0,0 +1,11 @@
+/**
+ * Whether a user can log in
+ * Deactivated users are soft-deleted and purged after a grace period; erased
+ * users are anonymized and kept for good
+ */
+export enum UserStatus {
+  ACTIVE = 'active',
+  SUSPENDED = 'suspended',
+  DEACTIVATED = 'deactivated',
+  ERASED = 'erased',
+}
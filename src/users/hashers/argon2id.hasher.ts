@@ -0,0 +1,89 @@
+import { ConfigService } from '@nestjs/config';
+import * as argon2 from 'argon2';
+import { PasswordHasher } from '../interfaces';
+
+/**
+ * Encoded argon2id hash: version, memory cost, time cost and parallelism
+ */
+const ARGON2ID_HASH_PATTERN = /^\$argon2id\$v=(\d+)\$m=(\d+),t=(\d+),p=(\d+)\$/;
+
+/**
+ * Version 1.3 of Argon2, the current one
+ */
+const ARGON2_VERSION = 0x13;
+
+/**
+ * Hashes passwords with argon2id
+ * Costs are read from ARGON2_MEMORY_COST (KiB), ARGON2_TIME_COST and
+ * ARGON2_PARALLELISM, and default to the OWASP recommendation
+ */
+export class Argon2idPasswordHasher implements PasswordHasher {
+  readonly algorithm = 'argon2id';
+  private readonly memoryCost: number;
+  private readonly timeCost: number;
+  private readonly parallelism: number;
+
+  constructor(configService: ConfigService) {
+    const read = (key: string, defaultValue: number) =>
+      parseInt(configService.get<string>(key, String(defaultValue)), 10);
+
+    this.memoryCost = read('ARGON2_MEMORY_COST', 19456);
+    this.timeCost = read('ARGON2_TIME_COST', 2);
+    this.parallelism = read('ARGON2_PARALLELISM', 1);
+  }
+
+  /**
+   * Tell whether a stored hash is an argon2id hash
+   * @param hash Stored hash
+   * @returns True if the hash can be verified
+   */
+  canVerify(hash: string): boolean {
+    return ARGON2ID_HASH_PATTERN.test(hash);
+  }
+
+  /**
+   * Hash a password with the configured cost
+   * @param password Plain text password
+   * @returns Encoded hash
+   */
+  hash(password: string): Promise<string> {
+    return argon2.hash(password, {
+      type: argon2.argon2id,
+      memoryCost: this.memoryCost,
+      timeCost: this.timeCost,
+      parallelism: this.parallelism,
+    });
+  }
+
+  /**
+   * Check a password against a stored hash
+   * @param password Plain text password
+   * @param hash Stored hash
+   * @returns True if the password matches
+   */
+  verify(password: string, hash: string): Promise<boolean> {
+    return argon2.verify(hash, password);
+  }
+
+  /**
+   * Tell whether a hash uses an older version or lower costs than configured
+   * @param hash Stored hash
+   * @returns True if the hash should be replaced
+   */
+  needsRehash(hash: string): boolean {
+    const match = ARGON2ID_HASH_PATTERN.exec(hash);
+    if (!match) {
+      return true;
+    }
+
+    const [version, memoryCost, timeCost, parallelism] = match
+      .slice(1)
+      .map((value) => parseInt(value, 10));
+    return (
+      version < ARGON2_VERSION ||
+      memoryCost < this.memoryCost ||
+      timeCost < this.timeCost ||
+      parallelism < this.parallelism
+    );
+  }
+}
@@ -0,0 +1,58 @@
+import { ConfigService } from '@nestjs/config';
+import * as bcrypt from 'bcrypt';
+import { PasswordHasher } from '../interfaces';
+
+/**
+ * Encoded bcrypt hash, in any of its variants
+ */
+const BCRYPT_HASH_PATTERN = /^\$2[aby]?\$\d{2}\$/;
+
+/**
+ * Hashes passwords with bcrypt
+ * The cost factor is read from BCRYPT_COST
+ */
+export class BcryptPasswordHasher implements PasswordHasher {
+  readonly algorithm = 'bcrypt';
+  private readonly cost: number;
+
+  constructor(configService: ConfigService) {
+    this.cost = parseInt(configService.get<string>('BCRYPT_COST', '12'), 10);
+  }
+
+  /**
+   * Tell whether a stored hash is a bcrypt hash
+   * @param hash Stored hash
+   * @returns True if the hash can be verified
+   */
+  canVerify(hash: string): boolean {
+    return BCRYPT_HASH_PATTERN.test(hash);
+  }
+
+  /**
+   * Hash a password with the configured cost
+   * @param password Plain text password
+   * @returns Encoded hash
+   */
+  hash(password: string): Promise<string> {
+    return bcrypt.hash(password, this.cost);
+  }
+
+  /**
+   * Check a password against a stored hash
+   * @param password Plain text password
+   * @param hash Stored hash
+   * @returns True if the password matches
+   */
+  verify(password: string, hash: string): Promise<boolean> {
+    return bcrypt.compare(password, hash);
+  }
+
+  /**
+   * Tell whether a hash uses a lower cost factor than configured
+   * @param hash Stored hash
+   * @returns True if the hash should be replaced
+   */
+  needsRehash(hash: string): boolean {
+    return bcrypt.getRounds(hash) < this.cost;
+  }
+}
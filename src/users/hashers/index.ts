@@ -0,0 +1,2 @@
+export * from './argon2id.hasher';
+export * from './bcrypt.hasher';
@@ -10,6 +10,13 @@ export * from './users.controller';
 // Export schemas
 export * from './schemas/user.schema';
 
+// Export enums
+export * from './enums';
+
+// Export validators
+export * from './validators';
+
 // Export DTOs
 export * from './dto/create-user.dto';
 export * from './dto/update-user.dto';
+export * from './dto/assign-role.dto';
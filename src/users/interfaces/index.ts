@@ -0,0 +1,5 @@
+export * from './password-policy.interface';
+export * from './password-hasher.interface';
+export * from './user-lifecycle.interface';
+export * from './user-data-request.interface';
+export * from './user-roles.interface';
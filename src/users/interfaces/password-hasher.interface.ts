@@ -0,0 +1,41 @@
+/**
+ * Algorithms passwords can be hashed with
+ */
+export type PasswordHashAlgorithm = 'argon2id' | 'bcrypt';
+
+/**
+ * Hashes passwords with one algorithm and checks the hashes it produced
+ */
+export interface PasswordHasher {
+  /** Algorithm of the hashes produced */
+  readonly algorithm: PasswordHashAlgorithm;
+
+  /**
+   * Tell whether a stored hash was produced with this algorithm
+   * @param hash Stored hash
+   * @returns True if this hasher can verify the hash
+   */
+  canVerify(hash: string): boolean;
+
+  /**
+   * Hash a password with the configured parameters
+   * @param password Plain text password
+   * @returns Encoded hash, including the algorithm, parameters and salt
+   */
+  hash(password: string): Promise<string>;
+
+  /**
+   * Check a password against a hash produced with this algorithm
+   * @param password Plain text password
+   * @param hash Stored hash
+   * @returns True if the password matches
+   */
+  verify(password: string, hash: string): Promise<boolean>;
+
+  /**
+   * Tell whether a hash was produced with weaker parameters than configured
+   * @param hash Stored hash
+   * @returns True if the hash should be replaced
+   */
+  needsRehash(hash: string): boolean;
+}
@@ -0,0 +1,27 @@
+/**
+ * Password rules enforced when a password is set
+ */
+export interface PasswordPolicy {
+  /** Minimum number of characters */
+  minLength: number;
+  /** Maximum size in UTF-8 bytes; at most 72 with bcrypt, which ignores the rest */
+  maxBytes: number;
+  requireUppercase: boolean;
+  requireLowercase: boolean;
+  requireDigit: boolean;
+  requireSymbol: boolean;
+  /** Reject passwords found in the bundled common-password list */
+  rejectCommon: boolean;
+  /** Number of recent passwords, including the current one, that cannot be reused */
+  historySize: number;
+}
+
+/**
+ * First rule a password breaks
+ */
+export interface PasswordPolicyViolation {
+  /** Translation key under `translation.VALIDATION` */
+  key: string;
+  /** Values of the rule, exposed to the message as `{constraints.0}` */
+  constraints?: (string | number)[];
+}
@@ -0,0 +1,25 @@
+import { UserDataRequestStatus, UserDataRequestType } from '../enums';
+import type { SessionRecord } from '../../auth/services/session.service';
+
+/**
+ * Data-subject request as returned by the API, without the export bundle
+ */
+export interface UserDataRequestSummary {
+  id: string;
+  type: UserDataRequestType;
+  status: UserDataRequestStatus;
+  createdAt: Date;
+  completedAt?: Date;
+  /** When a completed export can no longer be downloaded */
+  expiresAt?: Date;
+}
+
+/**
+ * Personal data of a user, as downloaded from a completed export
+ */
+export interface UserDataExport {
+  exportedAt: Date;
+  profile: Record<string, unknown>;
+  sessions: SessionRecord[];
+  activityLogs: Record<string, unknown>[];
+}
@@ -0,0 +1,12 @@
+/**
+ * Principal suspending, reactivating, deleting or restoring a user, or
+ * asking for the export or erasure of their data
+ */
+export interface UserLifecycleActor {
+  /** Missing when the actor is an OAuth client */
+  userId?: string;
+  /** Email of the user, or name of the OAuth client */
+  username: string;
+  /** Set when the actor is an OAuth client */
+  clientId?: string;
+}
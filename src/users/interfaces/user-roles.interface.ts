@@ -0,0 +1,12 @@
+/**
+ * Principal granting or revoking a role, who may only hand out or take away
+ * the permissions they hold themselves
+ */
+export interface RoleActor {
+  /** Missing when the actor is an OAuth client */
+  userId?: string;
+  /** Permissions granted by the roles of the user, or the scopes of an OAuth client */
+  permissions: string[];
+  /** Set when the actor is limited to the scopes of an API key or a token */
+  scopes?: string[];
+}
@@ -1 +1,2 @@
 export * from './user.schema';
+export * from './user-data-request.schema';
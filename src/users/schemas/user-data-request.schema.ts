@@ -0,0 +1,69 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { Document, Schema as MongooseSchema } from 'mongoose';
+import { UserDataRequestStatus, UserDataRequestType } from '../enums';
+
+export type UserDataRequestDocument = UserDataRequest & Document;
+
+@Schema({ _id: false })
+class Requester {
+  @Prop() // Missing when an OAuth client made the request
+  userId?: string;
+
+  @Prop({ required: true })
+  username: string;
+
+  @Prop()
+  clientId?: string;
+}
+
+/**
+ * Export or erasure of the personal data of a user, processed in the background
+ */
+@Schema({ collection: 'user_data_requests', timestamps: true })
+export class UserDataRequest {
+  @Prop({
+    type: MongooseSchema.Types.ObjectId,
+    required: true,
+    index: true,
+    ref: 'User',
+  })
+  userId: MongooseSchema.Types.ObjectId;
+
+  @Prop({ type: String, enum: UserDataRequestType, required: true })
+  type: UserDataRequestType;
+
+  @Prop({
+    type: String,
+    enum: UserDataRequestStatus,
+    default: UserDataRequestStatus.PENDING,
+  })
+  status: UserDataRequestStatus;
+
+  @Prop({ type: Requester, required: true })
+  requestedBy: Requester;
+
+  @Prop({ required: true }) // Pushed back while an instance processes the request
+  nextAttemptAt: Date;
+
+  @Prop({ type: MongooseSchema.Types.Mixed }) // Bundle of a completed export
+  result?: Record<string, any>;
+
+  @Prop()
+  lastError?: string;
+
+  @Prop({ type: Date })
+  completedAt?: Date;
+
+  @Prop({ type: Date }) // Set once an export is ready, to discard the bundle
+  expiresAt?: Date;
+
+  createdAt: Date; // Set by the timestamps option
+}
+
+export const UserDataRequestSchema =
+  SchemaFactory.createForClass(UserDataRequest);
+
+// Used to pick up the requests that are due
+UserDataRequestSchema.index({ status: 1, nextAttemptAt: 1 });
+// Let MongoDB remove exports once they can no longer be downloaded
+UserDataRequestSchema.index({ expiresAt: 1 }, { expireAfterSeconds: 0 });
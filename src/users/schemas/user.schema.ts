@@ -1,5 +1,6 @@
 import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
 import { Document } from 'mongoose';
+import { UserRole, UserStatus } from '../enums';
 // import * as bcrypt from 'bcrypt';
 
 export type UserDocument = User & Document;
@@ -12,17 +13,63 @@ export class User {
   @Prop({ required: true })
   password_hash: string; // Will store hashed password
 
+  @Prop({ type: [String], default: [], select: false }) // Hashes of the previous passwords, newest first
+  password_history: string[];
+
   @Prop({ required: true, trim: true })
   name: string;
 
-  @Prop({ type: String, required: false, default: null }) // Stores hashed refresh token
-  hashedRefreshToken?: string | null;
+  @Prop({ type: [String], default: [UserRole.USER] }) // Names of roles defined in the roles collection
+  roles: string[];
+
+  @Prop({ type: Boolean, default: true }) // Only self-registered accounts start unverified
+  emailVerified: boolean;
+
+  @Prop({ type: Date })
+  emailVerifiedAt?: Date;
+
+  @Prop({ trim: true, lowercase: true, select: false }) // New address waiting for confirmation
+  pendingEmail?: string;
 
-  // You can add other fields like role, isActive, etc.
+  @Prop({ type: Number, default: 0 }) // Incremented to invalidate all outstanding access tokens
+  tokenVersion: number;
+
+  @Prop({
+    type: String,
+    enum: Object.values(UserStatus),
+    default: UserStatus.ACTIVE,
+    index: true,
+  })
+  status: UserStatus;
+
+  @Prop({ type: Date, index: true }) // Set when the user is soft-deleted
+  deletedAt?: Date;
+
+  @Prop({ type: String, enum: Object.values(UserStatus), select: false }) // Status given back when a deleted user is restored
+  statusBeforeDeletion?: UserStatus;
 }
 
 export const UserSchema = SchemaFactory.createForClass(User);
 
+// Hide soft-deleted users from every query that does not ask for them by
+// filtering on deletedAt itself or with the `withDeleted` query option
+UserSchema.pre(
+  [
+    'find',
+    'findOne',
+    'findOneAndUpdate',
+    'findOneAndDelete',
+    'countDocuments',
+    'updateOne',
+    'updateMany',
+  ],
+  function () {
+    if (!('deletedAt' in this.getFilter()) && !this.getOptions().withDeleted) {
+      this.where({ deletedAt: null });
+    }
+  },
+);
+
 // Middleware to hash password before saving
 UserSchema.pre<UserDocument>('save', function (next) {
   // Only hash password if it has been modified (or is a new user)
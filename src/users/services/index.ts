@@ -1,2 +1,8 @@
 export * from './user-authentication.service';
 export * from './user-crud.service';
+export * from './user-roles.service';
+export * from './password-policy.service';
+export * from './password-hasher.service';
+export * from './user-lifecycle.service';
+export * from './user-data.service';
+export * from './user-cleanup.service';
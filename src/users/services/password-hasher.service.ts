@@ -0,0 +1,64 @@
+import { Injectable } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { Argon2idPasswordHasher, BcryptPasswordHasher } from '../hashers';
+import { PasswordHasher } from '../interfaces';
+
+/**
+ * Service responsible for hashing passwords and checking them against stored hashes
+ *
+ * New hashes use PASSWORD_HASH_ALGORITHM (argon2id or bcrypt, default:
+ * argon2id). Stored hashes are checked with the algorithm they were produced
+ * with, so hashes of every supported algorithm keep working after a change.
+ */
+@Injectable()
+export class PasswordHasherService {
+  private readonly hashers: PasswordHasher[];
+  private readonly preferredHasher: PasswordHasher;
+
+  constructor(configService: ConfigService) {
+    this.hashers = [
+      new Argon2idPasswordHasher(configService),
+      new BcryptPasswordHasher(configService),
+    ];
+    const algorithm = configService.get<string>(
+      'PASSWORD_HASH_ALGORITHM',
+      'argon2id',
+    );
+    this.preferredHasher =
+      this.hashers.find((hasher) => hasher.algorithm === algorithm) ??
+      this.hashers[0];
+  }
+
+  /**
+   * Hash a password with the configured algorithm
+   * @param password Plain text password
+   * @returns Encoded hash
+   */
+  hash(password: string): Promise<string> {
+    return this.preferredHasher.hash(password);
+  }
+
+  /**
+   * Check a password against a stored hash of any supported algorithm
+   * @param password Plain text password
+   * @param hash Stored hash
+   * @returns True if the password matches; false for hashes of unknown algorithms
+   */
+  async verify(password: string, hash: string): Promise<boolean> {
+    const hasher = this.hashers.find((candidate) => candidate.canVerify(hash));
+    return hasher ? hasher.verify(password, hash) : false;
+  }
+
+  /**
+   * Tell whether a stored hash should be replaced, because it was produced
+   * with another algorithm or weaker parameters than configured
+   * @param hash Stored hash
+   * @returns True if the password should be hashed again
+   */
+  needsRehash(hash: string): boolean {
+    return (
+      !this.preferredHasher.canVerify(hash) ||
+      this.preferredHasher.needsRehash(hash)
+    );
+  }
+}
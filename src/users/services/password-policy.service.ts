@@ -0,0 +1,110 @@
+import { Injectable } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { COMMON_PASSWORDS } from '../constants';
+import { PasswordPolicy, PasswordPolicyViolation } from '../interfaces';
+
+/**
+ * bcrypt only hashes the first 72 bytes of a password
+ */
+const BCRYPT_MAX_BYTES = 72;
+
+/**
+ * Default maximum with argon2id, which hashes the whole password; the limit
+ * only keeps hashing huge passwords from tying up the server
+ */
+const DEFAULT_MAX_BYTES = 128;
+
+/**
+ * Service responsible for the password rules configured for the application
+ */
+@Injectable()
+export class PasswordPolicyService {
+  constructor(private readonly configService: ConfigService) {}
+
+  /**
+   * Get the configured password policy
+   * @returns Password policy
+   */
+  getPolicy(): PasswordPolicy {
+    const flag = (key: string, defaultValue: boolean) =>
+      this.configService.get<string>(key, String(defaultValue)) === 'true';
+    // New hashes use the algorithm of PasswordHasherService
+    const bcrypt =
+      this.configService.get<string>('PASSWORD_HASH_ALGORITHM') === 'bcrypt';
+
+    return {
+      minLength: this.readNumber('PASSWORD_MIN_LENGTH', 8),
+      maxBytes: bcrypt
+        ? Math.min(
+            this.readNumber('PASSWORD_MAX_LENGTH', BCRYPT_MAX_BYTES),
+            BCRYPT_MAX_BYTES,
+          )
+        : this.readNumber('PASSWORD_MAX_LENGTH', DEFAULT_MAX_BYTES),
+      requireUppercase: flag('PASSWORD_REQUIRE_UPPERCASE', false),
+      requireLowercase: flag('PASSWORD_REQUIRE_LOWERCASE', false),
+      requireDigit: flag('PASSWORD_REQUIRE_DIGIT', false),
+      requireSymbol: flag('PASSWORD_REQUIRE_SYMBOL', false),
+      rejectCommon: flag('PASSWORD_REJECT_COMMON', true),
+      historySize: this.readNumber('PASSWORD_HISTORY_SIZE', 5),
+    };
+  }
+
+  /**
+   * Check a password against the policy
+   * Reuse of previous passwords is checked separately, as it needs the user
+   * @param password Plain text password
+   * @returns First rule the password breaks, or null if it is acceptable
+   */
+  check(password: string): PasswordPolicyViolation | null {
+    const policy = this.getPolicy();
+
+    if (password.length < policy.minLength) {
+      return {
+        key: 'PASSWORD_MIN_LENGTH',
+        constraints: [policy.minLength],
+      };
+    }
+    if (Buffer.byteLength(password, 'utf8') > policy.maxBytes) {
+      return { key: 'PASSWORD_MAX_LENGTH', constraints: [policy.maxBytes] };
+    }
+    if (policy.requireUppercase && !/\p{Lu}/u.test(password)) {
+      return { key: 'PASSWORD_UPPERCASE_REQUIRED' };
+    }
+    if (policy.requireLowercase && !/\p{Ll}/u.test(password)) {
+      return { key: 'PASSWORD_LOWERCASE_REQUIRED' };
+    }
+    if (policy.requireDigit && !/\p{Nd}/u.test(password)) {
+      return { key: 'PASSWORD_DIGIT_REQUIRED' };
+    }
+    if (policy.requireSymbol && !/[^\p{L}\p{Nd}\s]/u.test(password)) {
+      return { key: 'PASSWORD_SYMBOL_REQUIRED' };
+    }
+    if (policy.rejectCommon && this.isCommon(password)) {
+      return { key: 'PASSWORD_TOO_COMMON' };
+    }
+
+    return null;
+  }
+
+  /**
+   * Check whether a password is in the bundled common-password list
+   * @param password Plain text password
+   * @returns True if the password is too common to be used
+   */
+  isCommon(password: string): boolean {
+    return COMMON_PASSWORDS.has(password.toLowerCase());
+  }
+
+  /**
+   * Read a non-negative integer setting
+   * @param key Configuration key
+   * @param defaultValue Value used when the setting is missing or invalid
+   * @returns Setting value
+   */
+  private readNumber(key: string, defaultValue: number): number {
+    const value = Number(
+      this.configService.get<string>(key, String(defaultValue)),
+    );
+    return Number.isInteger(value) && value >= 0 ? value : defaultValue;
+  }
+}
@@ -1,13 +1,19 @@
 import {
   Injectable,
   InternalServerErrorException,
+  BadRequestException,
+  ConflictException,
+  NotFoundException,
   Logger,
 } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
 import { InjectModel } from '@nestjs/mongoose';
 import { Model } from 'mongoose';
+import { createHmac, timingSafeEqual } from 'crypto';
 import { User, UserDocument } from '../schemas';
-import * as bcrypt from 'bcrypt';
 import { I18nService, I18nContext } from 'nestjs-i18n';
+import { PasswordPolicyService } from './password-policy.service';
+import { PasswordHasherService } from './password-hasher.service';
 
 /**
  * Service responsible for user-authentication-related operations
@@ -15,11 +21,13 @@ import { I18nService, I18nContext } from 'nestjs-i18n';
 @Injectable()
 export class UserAuthenticationService {
   private readonly logger = new Logger(UserAuthenticationService.name);
-  private readonly saltRounds = 10;
 
   constructor(
     @InjectModel(User.name) private userModel: Model<UserDocument>,
     private readonly i18n: I18nService,
+    private readonly passwordPolicyService: PasswordPolicyService,
+    private readonly passwordHasherService: PasswordHasherService,
+    private readonly configService: ConfigService,
   ) {}
 
   /**
@@ -29,7 +37,7 @@ export class UserAuthenticationService {
    */
   async hashPassword(password: string): Promise<string> {
     try {
-      return await bcrypt.hash(password, this.saltRounds);
+      return await this.passwordHasherService.hash(password);
     } catch (error) {
       this.logger.error('Error hashing password:', error);
       throw new InternalServerErrorException(
@@ -51,7 +59,10 @@ export class UserAuthenticationService {
     hashedPassword: string,
   ): Promise<boolean> {
     try {
-      return await bcrypt.compare(plainPassword, hashedPassword);
+      return await this.passwordHasherService.verify(
+        plainPassword,
+        hashedPassword,
+      );
     } catch (error) {
       this.logger.error('Error comparing passwords:', error);
       throw new InternalServerErrorException(
@@ -63,55 +74,309 @@ export class UserAuthenticationService {
   }
 
   /**
-   * Set the current refresh token for a user
+   * Replace the stored hash of a password that was hashed with another
+   * algorithm or weaker parameters than configured
+   * The hash is only replaced if it did not change in the meantime
    * @param userId User ID
-   * @param refreshToken Refresh token (or null to clear)
+   * @param password Plain text password, already checked against the hash
+   * @param currentHash Stored hash the password was checked against
+   * @returns True if the hash was replaced
    */
-  async setCurrentRefreshToken(
+  async upgradePasswordHash(
     userId: string,
-    refreshToken: string | null,
+    password: string,
+    currentHash: string,
+  ): Promise<boolean> {
+    if (!this.passwordHasherService.needsRehash(currentHash)) {
+      return false;
+    }
+
+    const passwordHash = await this.hashPassword(password);
+    const result = await this.userModel
+      .updateOne(
+        { _id: userId, password_hash: currentHash },
+        { $set: { password_hash: passwordHash } },
+      )
+      .exec();
+    return result.modifiedCount > 0;
+  }
+
+  /**
+   * Hash a refresh token for storage
+   * Refresh tokens are long random values, so a keyed HMAC-SHA256 is enough
+   * and avoids a slow password hash on every refresh
+   * @param refreshToken Refresh token
+   * @returns Hex encoded HMAC of the refresh token
+   */
+  hashRefreshToken(refreshToken: string): string {
+    return createHmac('sha256', this.getRefreshTokenHashSecret())
+      .update(refreshToken)
+      .digest('hex');
+  }
+
+  /**
+   * Compare a refresh token with a stored hash
+   * @param refreshToken Refresh token to verify
+   * @param hashedRefreshToken Stored hash
+   * @returns True if the token matches the hash
+   */
+  async compareRefreshToken(
+    refreshToken: string,
+    hashedRefreshToken: string,
+  ): Promise<boolean> {
+    try {
+      const expected = Buffer.from(this.hashRefreshToken(refreshToken), 'hex');
+      const stored = Buffer.from(hashedRefreshToken, 'hex');
+      if (stored.length === expected.length) {
+        return timingSafeEqual(stored, expected);
+      }
+
+      // Sessions created before refresh tokens were hashed with an HMAC
+      return await this.passwordHasherService.verify(
+        refreshToken,
+        hashedRefreshToken,
+      );
+    } catch (error) {
+      this.logger.error('Error validating refresh token:', error);
+      return false;
+    }
+  }
+
+  /**
+   * Increment the token version of a user
+   * Access tokens issued with an older version are rejected
+   * @param userId User ID
+   */
+  async incrementTokenVersion(userId: string): Promise<void> {
+    await this.userModel
+      .updateOne({ _id: userId }, { $inc: { tokenVersion: 1 } })
+      .exec();
+  }
+
+  /**
+   * Check that a password is not one of the recent passwords of a user
+   * @param userId User ID
+   * @param password New plain text password
+   * @throws BadRequestException if the password was used recently
+   */
+  async assertPasswordNotReused(
+    userId: string,
+    password: string,
   ): Promise<void> {
-    if (refreshToken) {
-      try {
-        const hashedToken = await bcrypt.hash(refreshToken, this.saltRounds);
-        await this.userModel.findByIdAndUpdate(userId, {
-          hashedRefreshToken: hashedToken,
-        });
-      } catch (error) {
-        this.logger.error('Error hashing refresh token:', error);
-        throw new InternalServerErrorException(
-          this.i18n.t('translation.AUTH.TOKEN_PROCESSING_ERROR', {
+    const { historySize } = this.passwordPolicyService.getPolicy();
+    if (historySize === 0) {
+      return;
+    }
+
+    const user = await this.findWithPasswordHistory(userId);
+    const recentHashes = [
+      user.password_hash,
+      ...(user.password_history ?? []),
+    ].slice(0, historySize);
+    for (const hash of recentHashes) {
+      if (await this.comparePasswords(password, hash)) {
+        throw new BadRequestException(
+          this.i18n.t('translation.AUTH.PASSWORD_REUSED', {
             lang: I18nContext.current()?.lang,
+            args: { count: historySize },
           }),
         );
       }
-    } else {
-      await this.userModel.findByIdAndUpdate(userId, {
-        hashedRefreshToken: null,
-      });
     }
   }
 
   /**
-   * Verify if a refresh token is valid for a user
-   * @param refreshToken Refresh token to verify
+   * Replace the password of a user
+   * The previous password is kept in the password history
    * @param userId User ID
-   * @returns True if the token is valid
+   * @param password New plain text password
    */
-  async validateRefreshToken(
-    refreshToken: string,
+  async updatePassword(userId: string, password: string): Promise<void> {
+    const { historySize } = this.passwordPolicyService.getPolicy();
+    const user = await this.findWithPasswordHistory(userId);
+    const passwordHash = await this.hashPassword(password);
+    // The current password counts towards the history size
+    const passwordHistory = [
+      user.password_hash,
+      ...(user.password_history ?? []),
+    ].slice(0, Math.max(historySize - 1, 0));
+
+    await this.userModel
+      .updateOne(
+        { _id: userId },
+        {
+          $set: {
+            password_hash: passwordHash,
+            password_history: passwordHistory,
+          },
+        },
+      )
+      .exec();
+  }
+
+  /**
+   * Mark the email address of a user as verified
+   * @param userId User ID
+   */
+  async markEmailVerified(userId: string): Promise<void> {
+    await this.userModel
+      .updateOne(
+        { _id: userId },
+        { $set: { emailVerified: true, emailVerifiedAt: new Date() } },
+      )
+      .exec();
+  }
+
+  /**
+   * Record the address a user wants to switch to, until it is confirmed
+   * Replaces any change already pending
+   * @param userId User ID
+   * @param email New email address
+   * @throws ConflictException if another user has the address
+   */
+  async setPendingEmail(userId: string, email: string): Promise<void> {
+    await this.assertEmailAvailable(userId, email);
+    await this.userModel
+      .updateOne(
+        { _id: userId },
+        { $set: { pendingEmail: email.toLowerCase() } },
+      )
+      .exec();
+  }
+
+  /**
+   * Replace the email address of a user with the pending one
+   * The new address counts as verified, since its owner confirmed the change
+   * @param userId User ID
+   * @returns Previous and new addresses, or null if no change is pending or
+   * it was dropped or replaced in the meantime
+   * @throws ConflictException if another user took the address in the meantime
+   */
+  async applyPendingEmail(
     userId: string,
-  ): Promise<boolean> {
-    const user = await this.userModel.findById(userId).exec();
-    if (!user || !user.hashedRefreshToken) {
-      return false;
+  ): Promise<{ previousEmail: string; email: string } | null> {
+    const user = await this.userModel
+      .findById(userId)
+      .select('+pendingEmail')
+      .exec();
+    if (!user?.pendingEmail) {
+      return null;
     }
 
+    const email = user.pendingEmail;
+    await this.assertEmailAvailable(userId, email);
+    let result: { modifiedCount: number };
     try {
-      return await bcrypt.compare(refreshToken, user.hashedRefreshToken);
-    } catch (error) {
-      this.logger.error('Error validating refresh token:', error);
-      return false;
+      result = await this.userModel
+        .updateOne(
+          { _id: userId, pendingEmail: email },
+          {
+            $set: { email, emailVerified: true, emailVerifiedAt: new Date() },
+            $unset: { pendingEmail: 1 },
+          },
+        )
+        .exec();
+    } catch (error: unknown) {
+      // The unique index settles a race with another user claiming the address
+      if ((error as { code?: unknown })?.code === 11000) {
+        throw this.emailExists();
+      }
+      throw error;
+    }
+    if (result.modifiedCount === 0) {
+      return null;
     }
+
+    return { previousEmail: user.email, email };
+  }
+
+  /**
+   * Drop the email change pending for a user, if any
+   * @param userId User ID
+   * @returns Whether a change was pending
+   */
+  async clearPendingEmail(userId: string): Promise<boolean> {
+    const result = await this.userModel
+      .updateOne(
+        { _id: userId, pendingEmail: { $exists: true } },
+        { $unset: { pendingEmail: 1 } },
+      )
+      .exec();
+    return result.modifiedCount > 0;
+  }
+
+  /**
+   * Get the key refresh tokens are hashed with
+   * Uses REFRESH_TOKEN_HASH_SECRET, or JWT_REFRESH_SECRET if it is not set
+   * @returns HMAC key
+   * @throws InternalServerErrorException if neither secret is configured
+   */
+  private getRefreshTokenHashSecret(): string {
+    const secret =
+      this.configService.get<string>('REFRESH_TOKEN_HASH_SECRET') ||
+      this.configService.get<string>('JWT_REFRESH_SECRET');
+    if (!secret) {
+      throw new InternalServerErrorException(
+        this.i18n.t('translation.AUTH.TOKEN_PROCESSING_ERROR', {
+          lang: I18nContext.current()?.lang,
+        }),
+      );
+    }
+    return secret;
+  }
+
+  /**
+   * Find a user together with the password history
+   * @param userId User ID
+   * @returns User document
+   * @throws NotFoundException if the user does not exist
+   */
+  private async findWithPasswordHistory(userId: string): Promise<UserDocument> {
+    const user = await this.userModel
+      .findById(userId)
+      .select('+password_history')
+      .exec();
+    if (!user) {
+      throw new NotFoundException(
+        this.i18n.t('translation.USER.NOT_FOUND', {
+          lang: I18nContext.current()?.lang,
+          args: { id: userId },
+        }),
+      );
+    }
+    return user;
+  }
+
+  /**
+   * Make sure no other user has an email address
+   * Soft-deleted users keep their address until they are purged
+   * @param userId User ID
+   * @param email Email address
+   * @throws ConflictException if another user has the address
+   */
+  private async assertEmailAvailable(
+    userId: string,
+    email: string,
+  ): Promise<void> {
+    const owner = await this.userModel
+      .findOne({ email: email.toLowerCase(), _id: { $ne: userId } })
+      .setOptions({ withDeleted: true })
+      .select('_id')
+      .exec();
+    if (owner) {
+      throw this.emailExists();
+    }
+  }
+
+  /**
+   * Build the error returned when an email address is taken
+   * @returns Conflict exception
+   */
+  private emailExists(): ConflictException {
+    return new ConflictException(
+      this.i18n.t('translation.USER.EMAIL_EXISTS', {
+        lang: I18nContext.current()?.lang,
+      }),
+    );
   }
 }
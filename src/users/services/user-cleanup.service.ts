@@ -0,0 +1,51 @@
+import { Injectable } from '@nestjs/common';
+import { SessionService } from '../../auth/services/session.service';
+import { ExternalIdentityService } from '../../auth/services/external-identity.service';
+import { MfaService } from '../../auth/services/mfa.service';
+import { ApiKeyService } from '../../auth/services/api-key.service';
+import { VerificationTokenService } from '../../auth/services/verification-token.service';
+import { LoginThrottleService } from '../../auth/services/login-throttle.service';
+import { MailerService } from '../../mailer';
+
+/**
+ * Service responsible for deleting the data other modules keep about a user
+ *
+ * Shared by erasures and purges, so that neither leaves credentials or
+ * personal data behind.
+ */
+@Injectable()
+export class UserCleanupService {
+  constructor(
+    private readonly sessionService: SessionService,
+    private readonly externalIdentityService: ExternalIdentityService,
+    private readonly mfaService: MfaService,
+    private readonly apiKeyService: ApiKeyService,
+    private readonly verificationTokenService: VerificationTokenService,
+    private readonly loginThrottleService: LoginThrottleService,
+    private readonly mailerService: MailerService,
+  ) {}
+
+  /**
+   * Delete the sessions, linked provider accounts, second factor, API keys,
+   * verification tokens, failed logins and queued emails of a user
+   * @param userId User ID
+   * @param email Email address of the user, before any anonymization
+   * @param pendingEmail Address the user was moving to, if any
+   */
+  async deleteAccountData(
+    userId: string,
+    email: string,
+    pendingEmail?: string,
+  ): Promise<void> {
+    await this.sessionService.deleteAllForUser(userId);
+    await this.externalIdentityService.unlinkAllForUser(userId);
+    await this.mfaService.deleteForUser(userId);
+    await this.apiKeyService.deleteAllForUser(userId);
+    await this.verificationTokenService.deleteAllForUser(userId);
+    await this.loginThrottleService.unlock(email);
+    await this.mailerService.discardQueued(email);
+    if (pendingEmail) {
+      await this.mailerService.discardQueued(pendingEmail);
+    }
+  }
+}
@@ -5,10 +5,14 @@ import {
   InternalServerErrorException,
 } from '@nestjs/common';
 import { InjectModel } from '@nestjs/mongoose';
-import { Model } from 'mongoose';
+import { FilterQuery, Model } from 'mongoose';
 import { User, UserDocument } from '../schemas';
-import { CreateUserDto } from '../dto';
+import { CreateUserDto, FindUsersQueryDto } from '../dto';
 import { UpdateUserDto } from '../dto';
+import { USER_SORT_FIELDS } from '../constants';
+import { UserStatus } from '../enums';
+import { PaginatedResult } from '../../common/interfaces';
+import { PaginationUtils } from '../../common/utils';
 import { I18nService, I18nContext } from 'nestjs-i18n';
 // We can't use index.ts here because it would create a circular dependency
 import { UserAuthenticationService } from './user-authentication.service';
@@ -27,10 +31,12 @@ export class UserCrudService {
   /**
    * Create a new user
    * @param createUserDto User creation data
+   * @param options.emailVerified Whether the email address is already trusted
    * @returns Created user without sensitive fields
    */
   async create(
     createUserDto: CreateUserDto,
+    options: { emailVerified?: boolean } = {},
   ): Promise<Omit<UserDocument, 'password_hash' | 'hashedRefreshToken'>> {
     const { email, password, name } = createUserDto;
 
@@ -52,16 +58,13 @@ export class UserCrudService {
       email: email.toLowerCase(),
       password_hash: hashedPassword,
       name,
+      emailVerified: options.emailVerified ?? true,
     });
 
     try {
       const savedUser = await createdUser.save();
       // Destructure and ignore unused variables with underscore prefix
-      const {
-        password_hash: _ph,
-        hashedRefreshToken: _hrt,
-        ...result
-      } = savedUser.toObject();
+      const { password_hash: _ph, ...result } = savedUser.toObject();
       // We need to cast to unknown first to avoid TypeScript error
       return result as unknown as Omit<
         UserDocument,
@@ -92,22 +95,40 @@ export class UserCrudService {
   }
 
   /**
-   * Find all users
-   * @returns List of users without sensitive fields
+   * Find a page of users matching the query
+   * @param query Filters, search, sort and page
+   * @returns Page of users without sensitive fields
    */
-  async findAll(): Promise<
-    Omit<UserDocument, 'password_hash' | 'hashedRefreshToken'>[]
+  async findAll(
+    query: FindUsersQueryDto = {},
+  ): Promise<
+    PaginatedResult<Omit<UserDocument, 'password_hash' | 'hashedRefreshToken'>>
   > {
-    const users = await this.userModel
-      .find()
-      .select('-password_hash -hashedRefreshToken')
-      .exec();
-    return users.map(
-      (user) =>
-        user.toObject() as Omit<
-          UserDocument,
-          'password_hash' | 'hashedRefreshToken'
-        >,
+    const options = PaginationUtils.createPaginationOptions({ ...query });
+    const { page = 1, limit = 20 } = options;
+    const filter = this.buildFilter(query);
+
+    const [users, total] = await Promise.all([
+      this.userModel
+        .find(filter)
+        .select('-password_hash -hashedRefreshToken')
+        .sort(this.buildSort(options.sort))
+        .skip((page - 1) * limit)
+        .limit(limit)
+        .exec(),
+      this.userModel.countDocuments(filter).exec(),
+    ]);
+
+    return PaginationUtils.createPaginatedResult(
+      users.map(
+        (user) =>
+          user.toObject() as Omit<
+            UserDocument,
+            'password_hash' | 'hashedRefreshToken'
+          >,
+      ),
+      total,
+      options,
     );
   }
 
@@ -166,21 +187,10 @@ export class UserCrudService {
     UserDocument,
     'password_hash' | 'hashedRefreshToken'
   > | null> {
-    const updateData: Partial<UserDocument> = {
-      ...updateUserDto,
-    } as Partial<UserDocument>;
-
-    if (updateUserDto.password) {
-      // Hash the new password
-      updateData.password_hash = await this.authService.hashPassword(
-        updateUserDto.password,
-      );
-
-      // Remove password from updateData if it exists
-      const anyUpdateData = updateData as Record<string, unknown>;
-      if ('password' in anyUpdateData) {
-        delete anyUpdateData.password;
-      }
+    // Only copy profile fields; credentials are changed through the auth endpoints
+    const updateData: Partial<User> = {};
+    if (updateUserDto.name !== undefined) {
+      updateData.name = updateUserDto.name;
     }
 
     const updatedUser = await this.userModel
@@ -203,20 +213,71 @@ export class UserCrudService {
   }
 
   /**
-   * Remove a user
-   * @param id User ID
-   * @returns Deletion result
+   * Build the MongoDB filter of a user list query
+   * @param query Filters and search
+   * @returns Filter query
    */
-  async remove(id: string): Promise<{ deleted: boolean; message?: string }> {
-    const result = await this.userModel.findByIdAndDelete(id).exec();
-    if (!result) {
-      throw new NotFoundException(
-        this.i18n.t('translation.USER.NOT_FOUND', {
-          lang: I18nContext.current()?.lang,
-          args: { id },
-        }),
-      );
+  private buildFilter(query: FindUsersQueryDto): FilterQuery<UserDocument> {
+    const filter: FilterQuery<UserDocument> = {};
+
+    if (query.search) {
+      const pattern = new RegExp(this.escapeRegex(query.search), 'i');
+      filter.$or = [{ name: pattern }, { email: pattern }];
+    }
+    if (query.email) {
+      filter.email = query.email.toLowerCase();
     }
-    return { deleted: true };
+    if (query.name) {
+      filter.name = new RegExp(this.escapeRegex(query.name), 'i');
+    }
+    if (query.role) {
+      filter.roles = query.role;
+    }
+    if (query.status === UserStatus.DEACTIVATED) {
+      // Filtering on deletedAt lifts the default filter hiding deleted users
+      filter.deletedAt = { $ne: null };
+    } else if (
+      query.status === UserStatus.SUSPENDED ||
+      query.status === UserStatus.ERASED
+    ) {
+      filter.status = query.status;
+    } else if (query.status === UserStatus.ACTIVE) {
+      // Users created before statuses were introduced have none and are active
+      filter.status = { $nin: [UserStatus.SUSPENDED, UserStatus.ERASED] };
+    }
+    if (query.email_verified !== undefined) {
+      // Users created before email verification have no flag and count as verified
+      filter.emailVerified =
+        query.email_verified === 'true' ? { $ne: false } : false;
+    }
+    if (query.created_from || query.created_to) {
+      filter.createdAt = {
+        ...(query.created_from && { $gte: new Date(query.created_from) }),
+        ...(query.created_to && { $lte: new Date(query.created_to) }),
+      };
+    }
+
+    return filter;
+  }
+
+  /**
+   * Keep the sort fields users can be sorted on
+   * @param sort Requested sort
+   * @returns Sort on whitelisted fields, newest first by default
+   */
+  private buildSort(sort?: Record<string, 1 | -1>): Record<string, 1 | -1> {
+    const allowed = Object.entries(sort ?? {}).filter(([field]) =>
+      (USER_SORT_FIELDS as readonly string[]).includes(field),
+    );
+    return allowed.length > 0 ? Object.fromEntries(allowed) : { createdAt: -1 };
+  }
+
+  /**
+   * Escape the characters that have a meaning in regular expressions
+   * @param value Text to match literally
+   * @returns Escaped text
+   */
+  private escapeRegex(value: string): string {
+    return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
   }
 }
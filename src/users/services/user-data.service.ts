@@ -0,0 +1,525 @@
+import {
+  ConflictException,
+  Injectable,
+  Logger,
+  NotFoundException,
+  OnModuleDestroy,
+  OnModuleInit,
+} from '@nestjs/common';
+import { InjectModel } from '@nestjs/mongoose';
+import { ConfigService } from '@nestjs/config';
+import { Model, Types } from 'mongoose';
+import { I18nService, I18nContext } from 'nestjs-i18n';
+import {
+  User,
+  UserDocument,
+  UserDataRequest,
+  UserDataRequestDocument,
+} from '../schemas';
+import {
+  UserDataRequestStatus,
+  UserDataRequestType,
+  UserStatus,
+} from '../enums';
+import {
+  UserDataExport,
+  UserDataRequestSummary,
+  UserLifecycleActor,
+} from '../interfaces';
+import {
+  ActivityLogService,
+  ActivityLogQueryService,
+} from '../../activity-log';
+import { SessionService } from '../../auth/services/session.service';
+import { safeObjectIdToString } from '../../utils';
+import { UserCleanupService } from './user-cleanup.service';
+
+/**
+ * How long an instance owns a request it picked up for processing
+ */
+const CLAIM_LEASE_MS = 10 * 60 * 1000;
+
+/**
+ * Activity log entries read at once while building an export
+ */
+const EXPORT_PAGE_SIZE = 100;
+
+/**
+ * Service responsible for the data-subject requests of users
+ *
+ * Exports bundle the profile, sessions and activity log entries of a user;
+ * erasures anonymize the user and pseudonymize their activity logs. Both are
+ * queued and processed in the background every `USER_DATA_REQUEST_INTERVAL`
+ * seconds, and exports can be downloaded for `USER_DATA_EXPORT_TTL` seconds.
+ */
+@Injectable()
+export class UserDataService implements OnModuleInit, OnModuleDestroy {
+  private readonly logger = new Logger(UserDataService.name);
+  private readonly intervalMs: number;
+  private readonly exportTtlMs: number;
+  private timer?: NodeJS.Timeout;
+  private processing = false;
+
+  constructor(
+    @InjectModel(UserDataRequest.name)
+    private userDataRequestModel: Model<UserDataRequestDocument>,
+    @InjectModel(User.name) private userModel: Model<UserDocument>,
+    private readonly activityLogService: ActivityLogService,
+    private readonly activityLogQueryService: ActivityLogQueryService,
+    private readonly sessionService: SessionService,
+    private readonly userCleanupService: UserCleanupService,
+    private readonly i18n: I18nService,
+    configService: ConfigService,
+  ) {
+    this.intervalMs =
+      parseInt(
+        configService.get<string>('USER_DATA_REQUEST_INTERVAL', '30'),
+        10,
+      ) * 1000;
+    this.exportTtlMs =
+      parseInt(
+        configService.get<string>('USER_DATA_EXPORT_TTL', '604800'),
+        10,
+      ) * 1000;
+  }
+
+  /**
+   * Start processing requests in the background
+   */
+  onModuleInit(): void {
+    if (this.intervalMs > 0) {
+      this.timer = setInterval(() => {
+        void this.processDue();
+      }, this.intervalMs);
+      this.timer.unref(); // Do not keep the process alive for requests
+    }
+  }
+
+  /**
+   * Stop processing requests
+   */
+  onModuleDestroy(): void {
+    clearInterval(this.timer);
+  }
+
+  /**
+   * Queue an export of the personal data of a user
+   * An export of the user that is still pending is returned instead of queuing another
+   * @param userId User ID
+   * @param actor Principal asking for the export
+   * @returns Queued request
+   * @throws NotFoundException if the user does not exist
+   */
+  async requestExport(
+    userId: string,
+    actor: UserLifecycleActor,
+  ): Promise<UserDataRequestSummary> {
+    return this.enqueue(
+      userId,
+      UserDataRequestType.EXPORT,
+      'USER_DATA_EXPORT_REQUESTED',
+      actor,
+    );
+  }
+
+  /**
+   * Queue the erasure of the personal data of a user
+   * Soft-deleted users can be erased until they are purged
+   * @param userId User ID
+   * @param actor Principal asking for the erasure
+   * @returns Queued request
+   * @throws NotFoundException if the user does not exist
+   */
+  async requestErasure(
+    userId: string,
+    actor: UserLifecycleActor,
+  ): Promise<UserDataRequestSummary> {
+    return this.enqueue(
+      userId,
+      UserDataRequestType.ERASURE,
+      'USER_ERASURE_REQUESTED',
+      actor,
+    );
+  }
+
+  /**
+   * Get a data-subject request of a user
+   * @param userId User ID
+   * @param requestId Request ID
+   * @returns Request
+   * @throws NotFoundException if the user has no such request
+   */
+  async findRequest(
+    userId: string,
+    requestId: string,
+  ): Promise<UserDataRequestSummary> {
+    return this.toSummary(await this.getRequest(userId, requestId));
+  }
+
+  /**
+   * Get the bundle of a completed export and record its download
+   * @param userId User ID
+   * @param requestId Request ID
+   * @param actor Principal downloading the export
+   * @returns Personal data of the user
+   * @throws NotFoundException if the user has no such export, or it expired
+   * @throws ConflictException if the export is not completed
+   */
+  async getExport(
+    userId: string,
+    requestId: string,
+    actor: UserLifecycleActor,
+  ): Promise<UserDataExport> {
+    const request = await this.getRequest(userId, requestId);
+    if (request.type !== UserDataRequestType.EXPORT) {
+      throw this.requestNotFound(requestId);
+    }
+    // The TTL monitor only runs every minute
+    if (request.expiresAt && request.expiresAt <= new Date()) {
+      throw this.requestNotFound(requestId);
+    }
+    if (request.status !== UserDataRequestStatus.COMPLETED || !request.result) {
+      throw new ConflictException(
+        this.i18n.t('translation.USER.EXPORT_NOT_READY', {
+          lang: I18nContext.current()?.lang,
+        }),
+      );
+    }
+
+    await this.activityLogService.logEvent({
+      userId: actor.userId,
+      actionType: 'USER_DATA_EXPORT_DOWNLOADED',
+      username: actor.username,
+      clientId: actor.clientId,
+      resource: { type: 'User', id: userId },
+      metadata: { requestId },
+    });
+    return request.result as UserDataExport;
+  }
+
+  /**
+   * Process the requests that are due
+   * Each request is claimed atomically, so several instances can run this concurrently
+   * @param limit Maximum number of requests to process
+   * @returns Number of requests completed
+   */
+  async processDue(limit = 5): Promise<number> {
+    if (this.processing) {
+      return 0;
+    }
+    this.processing = true;
+
+    let completed = 0;
+    try {
+      for (let i = 0; i < limit; i++) {
+        const now = Date.now();
+        const request = await this.userDataRequestModel
+          .findOneAndUpdate(
+            {
+              status: UserDataRequestStatus.PENDING,
+              nextAttemptAt: { $lte: new Date(now) },
+            },
+            { $set: { nextAttemptAt: new Date(now + CLAIM_LEASE_MS) } },
+            { sort: { nextAttemptAt: 1 }, new: true },
+          )
+          .exec();
+        if (!request) {
+          break;
+        }
+        if (await this.process(request)) {
+          completed++;
+        }
+      }
+    } catch (error: unknown) {
+      const err = error as Error;
+      this.logger.error(`Failed to process data requests: ${err.message}`);
+    } finally {
+      this.processing = false;
+    }
+    return completed;
+  }
+
+  /**
+   * Carry out a request and record the outcome
+   * @param request Claimed request
+   * @returns True if the request was completed
+   */
+  private async process(request: UserDataRequestDocument): Promise<boolean> {
+    const userId = safeObjectIdToString(request.userId);
+    try {
+      if (request.type === UserDataRequestType.EXPORT) {
+        const result = await this.buildExport(userId);
+        await this.userDataRequestModel
+          .updateOne(
+            { _id: request._id },
+            {
+              $set: {
+                status: UserDataRequestStatus.COMPLETED,
+                result,
+                completedAt: new Date(),
+                expiresAt: new Date(Date.now() + this.exportTtlMs),
+              },
+            },
+          )
+          .exec();
+        await this.activityLogService.logEvent({
+          userId,
+          actionType: 'USER_DATA_EXPORTED',
+          username: 'system',
+          resource: { type: 'User', id: userId },
+          metadata: { requestId: safeObjectIdToString(request._id) },
+        });
+      } else {
+        await this.erase(userId);
+        await this.userDataRequestModel
+          .updateOne(
+            { _id: request._id },
+            {
+              $set: {
+                status: UserDataRequestStatus.COMPLETED,
+                completedAt: new Date(),
+              },
+            },
+          )
+          .exec();
+      }
+      return true;
+    } catch (error: unknown) {
+      const err = error as Error;
+      this.logger.error(
+        `Failed to process ${request.type} of user ${userId}: ${err.message}`,
+      );
+      await this.userDataRequestModel
+        .updateOne(
+          { _id: request._id },
+          {
+            $set: {
+              status: UserDataRequestStatus.FAILED,
+              lastError: err.message,
+            },
+          },
+        )
+        .exec();
+      return false;
+    }
+  }
+
+  /**
+   * Gather the personal data of a user
+   * @param userId User ID
+   * @returns Profile, sessions and activity log entries of the user
+   */
+  private async buildExport(userId: string): Promise<UserDataExport> {
+    const user = await this.userModel
+      .findById(userId)
+      .select('-password_hash -hashedRefreshToken')
+      .setOptions({ withDeleted: true })
+      .exec();
+    if (!user) {
+      throw new Error('User no longer exists');
+    }
+
+    const activityLogs: Record<string, unknown>[] = [];
+    for (let page = 1; ; page++) {
+      const { data, meta } = await this.activityLogQueryService.queryLogs(
+        { userId: new Types.ObjectId(userId) },
+        { page, limit: EXPORT_PAGE_SIZE, sort: { timestamp: 1 } },
+      );
+      activityLogs.push(
+        ...data.map((entry) => entry.toObject<Record<string, unknown>>()),
+      );
+      if (page >= meta.pages) {
+        break;
+      }
+    }
+
+    return {
+      exportedAt: new Date(),
+      profile: user.toObject<Record<string, unknown>>(),
+      sessions: await this.sessionService.findAllByUser(userId),
+      activityLogs,
+    };
+  }
+
+  /**
+   * Anonymize a user and remove their personal data
+   * The user document and activity log entries are kept, so that references
+   * to the user and the audit trail survive: erased users are listed with the
+   * `erased` status and can be neither restored nor purged
+   * @param userId User ID
+   */
+  private async erase(userId: string): Promise<void> {
+    const pseudonym = `erased-user-${userId}`;
+
+    const user = await this.userModel
+      .findById(userId)
+      .select('email pendingEmail')
+      .setOptions({ withDeleted: true })
+      .exec();
+    if (!user) {
+      throw new Error('User no longer exists');
+    }
+
+    await this.userModel
+      .updateOne(
+        { _id: userId },
+        {
+          $set: {
+            email: `${pseudonym}@erased.invalid`,
+            name: pseudonym,
+            password_hash: '!', // Matches no password
+            password_history: [],
+            status: UserStatus.ERASED,
+          },
+          // Erased users are kept for good, so neither restored nor purged
+          $unset: {
+            emailVerifiedAt: 1,
+            pendingEmail: 1,
+            deletedAt: 1,
+            statusBeforeDeletion: 1,
+          },
+          $inc: { tokenVersion: 1 },
+        },
+      )
+      .setOptions({ withDeleted: true })
+      .exec();
+    await this.userCleanupService.deleteAccountData(
+      userId,
+      user.email,
+      user.pendingEmail,
+    );
+    await this.activityLogService.pseudonymizeUser(userId, pseudonym);
+
+    // Exports hold the same data, and requesters may be the user themselves
+    await this.userDataRequestModel
+      .deleteMany({
+        userId: new Types.ObjectId(userId),
+        type: UserDataRequestType.EXPORT,
+      })
+      .exec();
+    await this.userDataRequestModel
+      .updateMany(
+        { 'requestedBy.userId': userId },
+        { $set: { 'requestedBy.username': pseudonym } },
+      )
+      .exec();
+
+    await this.activityLogService.logEvent({
+      actionType: 'USER_ERASED',
+      username: 'system',
+      resource: { type: 'User', id: userId, displayName: pseudonym },
+    });
+  }
+
+  /**
+   * Queue a request unless the same one is already pending
+   * @param userId User ID
+   * @param type Request type
+   * @param actionType Activity log action type
+   * @param actor Principal making the request
+   * @returns Queued or pending request
+   * @throws NotFoundException if the user does not exist
+   */
+  private async enqueue(
+    userId: string,
+    type: UserDataRequestType,
+    actionType: string,
+    actor: UserLifecycleActor,
+  ): Promise<UserDataRequestSummary> {
+    const user = Types.ObjectId.isValid(userId)
+      ? await this.userModel
+          .findById(userId)
+          .setOptions({ withDeleted: type === UserDataRequestType.ERASURE })
+          .exec()
+      : null;
+    if (!user) {
+      throw new NotFoundException(
+        this.i18n.t('translation.USER.NOT_FOUND', {
+          lang: I18nContext.current()?.lang,
+          args: { id: userId },
+        }),
+      );
+    }
+
+    const pending = await this.userDataRequestModel
+      .findOne({
+        userId: new Types.ObjectId(userId),
+        type,
+        status: UserDataRequestStatus.PENDING,
+      })
+      .exec();
+    if (pending) {
+      return this.toSummary(pending);
+    }
+
+    const request = await this.userDataRequestModel.create({
+      userId: new Types.ObjectId(userId),
+      type,
+      status: UserDataRequestStatus.PENDING,
+      requestedBy: actor,
+      nextAttemptAt: new Date(),
+    });
+    await this.activityLogService.logEvent({
+      userId: actor.userId,
+      actionType,
+      username: actor.username,
+      clientId: actor.clientId,
+      resource: { type: 'User', id: userId, displayName: user.email },
+      metadata: { requestId: safeObjectIdToString(request._id) },
+    });
+    return this.toSummary(request);
+  }
+
+  /**
+   * Find a request of a user
+   * @param userId User ID
+   * @param requestId Request ID
+   * @returns Request
+   * @throws NotFoundException if the user has no such request
+   */
+  private async getRequest(
+    userId: string,
+    requestId: string,
+  ): Promise<UserDataRequestDocument> {
+    const request =
+      Types.ObjectId.isValid(userId) && Types.ObjectId.isValid(requestId)
+        ? await this.userDataRequestModel
+            .findOne({ _id: requestId, userId: new Types.ObjectId(userId) })
+            .exec()
+        : null;
+    if (!request) {
+      throw this.requestNotFound(requestId);
+    }
+    return request;
+  }
+
+  /**
+   * Build the error for a request that does not exist
+   * @param requestId Request ID
+   * @returns Not found exception
+   */
+  private requestNotFound(requestId: string): NotFoundException {
+    return new NotFoundException(
+      this.i18n.t('translation.USER.DATA_REQUEST_NOT_FOUND', {
+        lang: I18nContext.current()?.lang,
+        args: { id: requestId },
+      }),
+    );
+  }
+
+  /**
+   * Describe a request without its export bundle
+   * @param request Request
+   * @returns Request summary
+   */
+  private toSummary(request: UserDataRequestDocument): UserDataRequestSummary {
+    return {
+      id: safeObjectIdToString(request._id),
+      type: request.type,
+      status: request.status,
+      createdAt: request.createdAt,
+      completedAt: request.completedAt,
+      expiresAt: request.expiresAt,
+    };
+  }
+}
@@ -0,0 +1,275 @@
+import {
+  BadRequestException,
+  Injectable,
+  Logger,
+  NotFoundException,
+  OnModuleDestroy,
+  OnModuleInit,
+} from '@nestjs/common';
+import { InjectModel } from '@nestjs/mongoose';
+import { ConfigService } from '@nestjs/config';
+import {
+  FilterQuery,
+  Model,
+  UpdateQuery,
+  UpdateWithAggregationPipeline,
+} from 'mongoose';
+import { I18nService, I18nContext } from 'nestjs-i18n';
+import { User, UserDocument } from '../schemas';
+import { UserStatus } from '../enums';
+import { UserLifecycleActor } from '../interfaces';
+import { ActivityLogService } from '../../activity-log';
+import { safeObjectIdToString } from '../../utils';
+import { UserCleanupService } from './user-cleanup.service';
+
+type SafeUser = Omit<UserDocument, 'password_hash' | 'hashedRefreshToken'>;
+
+/**
+ * Service responsible for suspending, soft-deleting and restoring users
+ *
+ * Deleted users are kept, deactivated, for `USER_DELETION_GRACE_DAYS` days so
+ * that they can be restored with their previous status, then purged with
+ * their account data in the background every `USER_PURGE_INTERVAL` seconds.
+ */
+@Injectable()
+export class UserLifecycleService implements OnModuleInit, OnModuleDestroy {
+  private readonly logger = new Logger(UserLifecycleService.name);
+  private readonly gracePeriodMs: number;
+  private readonly purgeIntervalMs: number;
+  private timer?: NodeJS.Timeout;
+
+  constructor(
+    @InjectModel(User.name) private userModel: Model<UserDocument>,
+    private readonly activityLogService: ActivityLogService,
+    private readonly userCleanupService: UserCleanupService,
+    private readonly i18n: I18nService,
+    configService: ConfigService,
+  ) {
+    this.gracePeriodMs =
+      parseInt(
+        configService.get<string>('USER_DELETION_GRACE_DAYS', '30'),
+        10,
+      ) *
+      24 *
+      60 *
+      60 *
+      1000;
+    this.purgeIntervalMs =
+      parseInt(configService.get<string>('USER_PURGE_INTERVAL', '3600'), 10) *
+      1000;
+  }
+
+  /**
+   * Start purging in the background
+   */
+  onModuleInit(): void {
+    if (this.purgeIntervalMs > 0) {
+      this.timer = setInterval(() => {
+        void this.purgeDeleted();
+      }, this.purgeIntervalMs);
+      this.timer.unref(); // Do not keep the process alive for purges
+    }
+  }
+
+  /**
+   * Stop purging
+   */
+  onModuleDestroy(): void {
+    clearInterval(this.timer);
+  }
+
+  /**
+   * Suspend a user, who can no longer log in or use issued tokens
+   * @param id User ID
+   * @param actor Principal suspending the user
+   * @returns Suspended user without sensitive fields
+   * @throws BadRequestException if users try to suspend themselves
+   * @throws NotFoundException if the user does not exist
+   */
+  async suspend(id: string, actor: UserLifecycleActor): Promise<SafeUser> {
+    if (actor.userId === id) {
+      throw new BadRequestException(
+        this.i18n.t('translation.USER.CANNOT_SUSPEND_SELF', {
+          lang: I18nContext.current()?.lang,
+        }),
+      );
+    }
+
+    return this.changeStatus(
+      { _id: id, status: { $ne: UserStatus.SUSPENDED } },
+      { $set: { status: UserStatus.SUSPENDED }, $inc: { tokenVersion: 1 } },
+      'USER_SUSPENDED',
+      id,
+      actor,
+    );
+  }
+
+  /**
+   * Lift the suspension of a user
+   * @param id User ID
+   * @param actor Principal reactivating the user
+   * @returns Reactivated user without sensitive fields
+   * @throws NotFoundException if the user does not exist
+   */
+  async reactivate(id: string, actor: UserLifecycleActor): Promise<SafeUser> {
+    return this.changeStatus(
+      { _id: id, status: UserStatus.SUSPENDED },
+      { $set: { status: UserStatus.ACTIVE } },
+      'USER_REACTIVATED',
+      id,
+      actor,
+    );
+  }
+
+  /**
+   * Soft-delete a user
+   * The user is hidden from every query until restored or purged
+   * @param id User ID
+   * @param actor Principal deleting the user
+   * @throws NotFoundException if the user does not exist
+   */
+  async remove(id: string, actor: UserLifecycleActor): Promise<void> {
+    await this.changeStatus(
+      { _id: id },
+      [
+        {
+          $set: {
+            statusBeforeDeletion: '$status',
+            status: UserStatus.DEACTIVATED,
+            deletedAt: new Date(),
+            tokenVersion: { $add: [{ $ifNull: ['$tokenVersion', 0] }, 1] },
+          },
+        },
+      ],
+      'USER_DELETED',
+      id,
+      actor,
+    );
+  }
+
+  /**
+   * Restore a soft-deleted user that was not purged yet
+   * A user suspended before the deletion stays suspended
+   * @param id User ID
+   * @param actor Principal restoring the user
+   * @returns Restored user without sensitive fields
+   * @throws NotFoundException if no deleted user has this ID
+   */
+  async restore(id: string, actor: UserLifecycleActor): Promise<SafeUser> {
+    return this.changeStatus(
+      { _id: id, deletedAt: { $ne: null } },
+      [
+        {
+          $set: {
+            status: { $ifNull: ['$statusBeforeDeletion', UserStatus.ACTIVE] },
+          },
+        },
+        { $unset: ['deletedAt', 'statusBeforeDeletion'] },
+      ],
+      'USER_RESTORED',
+      id,
+      actor,
+    );
+  }
+
+  /**
+   * Hard-delete the users deleted longer ago than the grace period, with
+   * their sessions, linked accounts, second factor, API keys and tokens
+   * @returns Number of users purged
+   */
+  async purgeDeleted(): Promise<number> {
+    try {
+      const cutoff = new Date(Date.now() - this.gracePeriodMs);
+      const users = await this.userModel
+        .find({
+          deletedAt: { $lte: cutoff },
+          status: { $ne: UserStatus.ERASED },
+        })
+        .select('_id email pendingEmail')
+        .exec();
+
+      let purged = 0;
+      for (const user of users) {
+        const id = safeObjectIdToString(user._id);
+        // Skip users restored or erased since they were found
+        const result = await this.userModel
+          .deleteOne({
+            _id: id,
+            deletedAt: { $lte: cutoff },
+            status: { $ne: UserStatus.ERASED },
+          })
+          .exec();
+        if (result.deletedCount === 0) {
+          continue;
+        }
+        await this.userCleanupService.deleteAccountData(
+          id,
+          user.email,
+          user.pendingEmail,
+        );
+        await this.activityLogService.logEvent({
+          actionType: 'USER_PURGED',
+          username: 'system',
+          resource: { type: 'User', id },
+        });
+        purged++;
+      }
+      return purged;
+    } catch (error: unknown) {
+      const err = error as Error;
+      this.logger.error(`Failed to purge deleted users: ${err.message}`);
+      return 0;
+    }
+  }
+
+  /**
+   * Update the status of a user and log the change
+   * Users already in the target state are returned unchanged; erased users
+   * cannot change and are reported as missing
+   * @param filter Filter matching the user if the change applies
+   * @param update Update to apply
+   * @param actionType Activity log action type
+   * @param id User ID
+   * @param actor Principal making the change
+   * @returns User without sensitive fields
+   * @throws NotFoundException if the user does not exist
+   */
+  private async changeStatus(
+    filter: FilterQuery<UserDocument>,
+    update: UpdateQuery<UserDocument> | UpdateWithAggregationPipeline,
+    actionType: string,
+    id: string,
+    actor: UserLifecycleActor,
+  ): Promise<SafeUser> {
+    const notErased = { $nor: [{ status: UserStatus.ERASED }] };
+    const user = await this.userModel
+      .findOneAndUpdate({ ...filter, ...notErased }, update, { new: true })
+      .select('-password_hash -hashedRefreshToken')
+      .exec();
+    if (!user) {
+      // Tell a user already in the target state from a missing one
+      const unchanged = await this.userModel
+        .findOne({ _id: id, deletedAt: filter.deletedAt ?? null, ...notErased })
+        .select('-password_hash -hashedRefreshToken')
+        .exec();
+      if (!unchanged) {
+        throw new NotFoundException(
+          this.i18n.t('translation.USER.NOT_FOUND', {
+            lang: I18nContext.current()?.lang,
+            args: { id },
+          }),
+        );
+      }
+      return unchanged.toObject() as SafeUser;
+    }
+
+    await this.activityLogService.logEvent({
+      userId: actor.userId,
+      actionType,
+      username: actor.username,
+      clientId: actor.clientId,
+      resource: { type: 'User', id, displayName: user.email },
+    });
+    return user.toObject() as SafeUser;
+  }
+}
@@ -0,0 +1,186 @@
+import {
+  Injectable,
+  Logger,
+  NotFoundException,
+  BadRequestException,
+  ForbiddenException,
+  OnApplicationBootstrap,
+} from '@nestjs/common';
+import { InjectModel } from '@nestjs/mongoose';
+import { ConfigService } from '@nestjs/config';
+import { Model } from 'mongoose';
+import { I18nService, I18nContext } from 'nestjs-i18n';
+import { User, UserDocument } from '../schemas';
+import { UserRole } from '../enums';
+import { RoleActor } from '../interfaces';
+import { PermissionsService } from '../../permissions/permissions.service';
+import { PermissionUtils } from '../../common/utils';
+
+/**
+ * Service responsible for granting and revoking user roles
+ */
+@Injectable()
+export class UserRolesService implements OnApplicationBootstrap {
+  private readonly logger = new Logger(UserRolesService.name);
+
+  constructor(
+    @InjectModel(User.name) private userModel: Model<UserDocument>,
+    private readonly configService: ConfigService,
+    private readonly permissionsService: PermissionsService,
+    private readonly i18n: I18nService,
+  ) {}
+
+  /**
+   * Promote the accounts listed in INITIAL_ADMIN_EMAILS to admin
+   *
+   * Without this there would be no way to obtain the first admin, since
+   * granting roles is itself an admin-only operation.
+   */
+  async onApplicationBootstrap(): Promise<void> {
+    const emails = this.configService
+      .get<string>('INITIAL_ADMIN_EMAILS', '')
+      .split(',')
+      .map((email) => email.trim().toLowerCase())
+      .filter((email) => email.length > 0);
+
+    if (emails.length === 0) {
+      return;
+    }
+
+    try {
+      await this.userModel
+        .updateMany(
+          { email: { $in: emails } },
+          { $addToSet: { roles: UserRole.ADMIN } },
+        )
+        .exec();
+    } catch (error: unknown) {
+      const err = error as Error;
+      this.logger.error(
+        `Failed to promote initial admins: ${err.message}`,
+        err.stack,
+      );
+    }
+  }
+
+  /**
+   * Get the roles of a user
+   * @param userId User ID
+   * @returns List of roles
+   */
+  async getRoles(userId: string): Promise<string[]> {
+    const user = await this.userModel.findById(userId).select('roles').exec();
+    if (!user) {
+      throw this.notFound(userId);
+    }
+    return user.roles ?? [];
+  }
+
+  /**
+   * Grant a role to a user
+   * @param userId User ID
+   * @param role Name of the role to grant
+   * @param actor Principal granting the role
+   * @returns Updated list of roles
+   * @throws ForbiddenException if the actor lacks a permission of the role
+   */
+  async grantRole(
+    userId: string,
+    role: string,
+    actor: RoleActor,
+  ): Promise<string[]> {
+    // Only roles defined in the roles collection can be granted
+    const roleExists = await this.permissionsService.roleExists(role);
+    if (!roleExists) {
+      throw new NotFoundException(
+        this.i18n.t('translation.ROLE.NOT_FOUND', {
+          lang: I18nContext.current()?.lang,
+          args: { name: role },
+        }),
+      );
+    }
+    await this.assertHoldsRole(role, actor);
+
+    const user = await this.userModel
+      .findByIdAndUpdate(userId, { $addToSet: { roles: role } }, { new: true })
+      .select('roles')
+      .exec();
+    if (!user) {
+      throw this.notFound(userId);
+    }
+    return user.roles;
+  }
+
+  /**
+   * Revoke a role from a user
+   * @param userId User ID
+   * @param role Name of the role to revoke
+   * @param actor Principal revoking the role
+   * @returns Updated list of roles
+   * @throws ForbiddenException if the actor lacks a permission of the role
+   */
+  async revokeRole(
+    userId: string,
+    role: string,
+    actor: RoleActor,
+  ): Promise<string[]> {
+    // Prevent admins from locking themselves out
+    if (role === (UserRole.ADMIN as string) && actor.userId === userId) {
+      throw new BadRequestException(
+        this.i18n.t('translation.USER.CANNOT_REVOKE_OWN_ADMIN', {
+          lang: I18nContext.current()?.lang,
+        }),
+      );
+    }
+    await this.assertHoldsRole(role, actor);
+
+    const user = await this.userModel
+      .findByIdAndUpdate(userId, { $pull: { roles: role } }, { new: true })
+      .select('roles')
+      .exec();
+    if (!user) {
+      throw this.notFound(userId);
+    }
+    return user.roles;
+  }
+
+  /**
+   * Check that the actor holds every permission of a role, within their scopes
+   * Otherwise a delegate could hand out, e.g., the admin wildcard
+   * @param role Role name
+   * @param actor Principal granting or revoking the role
+   * @throws ForbiddenException if the actor lacks a permission of the role
+   */
+  private async assertHoldsRole(role: string, actor: RoleActor): Promise<void> {
+    const permissions = await this.permissionsService.resolvePermissions([
+      role,
+    ]);
+    const holdsAll = permissions.every(
+      (permission) =>
+        PermissionUtils.grants(actor.permissions, permission) &&
+        (!actor.scopes || PermissionUtils.grants(actor.scopes, permission)),
+    );
+    if (!holdsAll) {
+      throw new ForbiddenException(
+        this.i18n.t('translation.ROLE.PERMISSIONS_NOT_HELD', {
+          lang: I18nContext.current()?.lang,
+          args: { name: role },
+        }),
+      );
+    }
+  }
+
+  /**
+   * Build a not found exception for a user
+   * @param userId User ID
+   * @returns NotFoundException
+   */
+  private notFound(userId: string): NotFoundException {
+    return new NotFoundException(
+      this.i18n.t('translation.USER.NOT_FOUND', {
+        lang: I18nContext.current()?.lang,
+        args: { id: userId },
+      }),
+    );
+  }
+}
@@ -12,10 +12,56 @@ import {
   HttpCode,
   HttpStatus,
   NotFoundException,
+  ForbiddenException,
+  Request,
+  Query,
+  Res,
+  Inject,
 } from '@nestjs/common';
+import { ClsService } from 'nestjs-cls';
+import { Response as ExpressResponse } from 'express';
 import { UsersService } from './users.service';
-import { CreateUserDto, UpdateUserDto } from './dto';
+import {
+  CreateUserDto,
+  UpdateUserDto,
+  AssignRoleDto,
+  FindUsersQueryDto,
+  RequestEmailChangeDto,
+  ConfirmEmailChangeDto,
+} from './dto';
+import {
+  UserDataRequestStatus,
+  UserDataRequestType,
+  UserRole,
+  UserStatus,
+} from './enums';
+import { RoleActor, UserLifecycleActor } from './interfaces';
 import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
+import { JwtOrApiKeyAuthGuard } from '../auth/guards/jwt-or-api-key-auth.guard';
+import { API_KEY_SECURITY, RECENT_AUTH_MAX_AGE } from '../auth/constants';
+import type {
+  AuthenticatedRequest,
+  PrincipalRequest,
+} from '../auth/auth.controller';
+import { AuthService } from '../auth/auth.service';
+import { SessionService } from '../auth/services/session.service';
+import { LoginThrottleService } from '../auth/services/login-throttle.service';
+import { MfaService } from '../auth/services/mfa.service';
+import { SessionRevocationReason } from '../auth/enums';
+import { SessionResponseDto } from '../auth/dto';
+import {
+  PermissionsGuard,
+  RequirePermissions,
+  NoImpersonationGuard,
+  RecentAuthGuard,
+  RequireRecentAuth,
+  ApiPagination,
+  CLS_PERMISSIONS_KEY,
+  PERMISSIONS_RESOLVER,
+  PermissionUtils,
+} from '../common';
+import type { PermissionsResolver } from '../common';
+import { Permission } from '../permissions/constants';
 import { I18n, I18nContext } from 'nestjs-i18n';
 import {
   ApiTags,
@@ -28,14 +74,104 @@ import {
   ApiNotFoundResponse,
   ApiNoContentResponse,
   ApiOkResponse,
+  ApiForbiddenResponse,
+  ApiSecurity,
+  ApiBadRequestResponse,
+  ApiAcceptedResponse,
+  ApiConflictResponse,
 } from '@nestjs/swagger';
 
+/**
+ * Response schema of the endpoints changing the status of a user
+ * @param message Example message
+ * @param status Example status
+ * @returns Swagger schema
+ */
+const userStatusResponseSchema = (message: string, status: UserStatus) => ({
+  type: 'object' as const,
+  properties: {
+    message: { type: 'string', example: message },
+    user: {
+      type: 'object',
+      properties: {
+        _id: { type: 'string', example: '60d21b4667d0d8992e610c85' },
+        name: { type: 'string', example: 'John Doe' },
+        email: { type: 'string', example: 'john.doe@example.com' },
+        status: {
+          type: 'string',
+          enum: Object.values(UserStatus),
+          example: status,
+        },
+      },
+    },
+  },
+});
+
+/**
+ * Schema of a data-subject request
+ * @param type Example request type
+ * @param status Example request status
+ * @returns Swagger schema
+ */
+const dataRequestSchema = (
+  type: UserDataRequestType,
+  status: UserDataRequestStatus,
+) => ({
+  type: 'object' as const,
+  properties: {
+    id: { type: 'string', example: '60d21b4667d0d8992e610c87' },
+    type: {
+      type: 'string',
+      enum: Object.values(UserDataRequestType),
+      example: type,
+    },
+    status: {
+      type: 'string',
+      enum: Object.values(UserDataRequestStatus),
+      example: status,
+    },
+    createdAt: { type: 'string', format: 'date-time' },
+    completedAt: { type: 'string', format: 'date-time' },
+    expiresAt: { type: 'string', format: 'date-time' },
+  },
+});
+
+/**
+ * Response schema of the endpoints queuing a data-subject request
+ * @param message Example message
+ * @param type Example request type
+ * @returns Swagger schema
+ */
+const dataRequestResponseSchema = (
+  message: string,
+  type: UserDataRequestType,
+) => ({
+  type: 'object' as const,
+  properties: {
+    message: { type: 'string', example: message },
+    request: dataRequestSchema(type, UserDataRequestStatus.PENDING),
+  },
+});
+
 @ApiTags('Users')
 @Controller('users')
 export class UsersController {
-  constructor(private readonly usersService: UsersService) {}
+  constructor(
+    private readonly usersService: UsersService,
+    private readonly authService: AuthService,
+    private readonly sessionService: SessionService,
+    private readonly loginThrottleService: LoginThrottleService,
+    private readonly mfaService: MfaService,
+    private readonly clsService: ClsService,
+    @Inject(PERMISSIONS_RESOLVER)
+    private readonly permissionsResolver: PermissionsResolver,
+  ) {}
 
-  @ApiOperation({ summary: 'Create a new user' })
+  @ApiOperation({
+    summary: 'Create a new user',
+    description:
+      'Administrative creation; the email address is trusted. Use POST /auth/register for self-service sign-up.',
+  })
   @ApiBody({ type: CreateUserDto })
   @ApiCreatedResponse({
     description: 'The user has been successfully created',
@@ -54,6 +190,12 @@ export class UsersController {
       },
     },
   })
+  @ApiUnauthorizedResponse({ description: 'Unauthorized' })
+  @ApiForbiddenResponse({ description: 'Insufficient permissions' })
+  @ApiBearerAuth()
+  @ApiSecurity(API_KEY_SECURITY)
+  @UseGuards(JwtOrApiKeyAuthGuard, PermissionsGuard)
+  @RequirePermissions(Permission.USERS_CREATE)
   @Post()
   @HttpCode(HttpStatus.CREATED)
   async create(
@@ -68,27 +210,132 @@ export class UsersController {
     };
   }
 
-  @ApiOperation({ summary: 'Get all users' })
+  @ApiOperation({ summary: 'List users, filtered, searched and paginated' })
+  @ApiPagination()
   @ApiOkResponse({
-    description: 'Returns all users',
+    description: 'Returns a page of users',
     schema: {
-      type: 'array',
-      items: {
-        type: 'object',
-        properties: {
-          _id: { type: 'string', example: '60d21b4667d0d8992e610c85' },
-          name: { type: 'string', example: 'John Doe' },
-          email: { type: 'string', example: 'john.doe@example.com' },
+      type: 'object',
+      properties: {
+        data: {
+          type: 'array',
+          items: {
+            type: 'object',
+            properties: {
+              _id: { type: 'string', example: '60d21b4667d0d8992e610c85' },
+              name: { type: 'string', example: 'John Doe' },
+              email: { type: 'string', example: 'john.doe@example.com' },
+            },
+          },
+        },
+        meta: {
+          type: 'object',
+          properties: {
+            total: { type: 'number', example: 42 },
+            page: { type: 'number', example: 1 },
+            limit: { type: 'number', example: 20 },
+            pages: { type: 'number', example: 3 },
+          },
         },
       },
     },
   })
+  @ApiBadRequestResponse({ description: 'Invalid query parameters' })
   @ApiUnauthorizedResponse({ description: 'Unauthorized' })
+  @ApiForbiddenResponse({ description: 'Insufficient permissions' })
   @ApiBearerAuth()
-  @UseGuards(JwtAuthGuard)
+  @ApiSecurity(API_KEY_SECURITY)
+  @UseGuards(JwtOrApiKeyAuthGuard, PermissionsGuard)
+  @RequirePermissions(Permission.USERS_READ)
   @Get()
-  findAll() {
-    return this.usersService.findAll();
+  findAll(
+    @Query(new ValidationPipe({ transform: true, whitelist: true }))
+    query: FindUsersQueryDto,
+  ) {
+    return this.usersService.findAll(query);
+  }
+
+  @ApiOperation({
+    summary: 'Change the email address of the logged in user',
+    description:
+      'Sends a confirmation link to the new address and a notice to the current one. The address changes once the link is confirmed; resetting the password cancels the change.',
+  })
+  @ApiBody({ type: RequestEmailChangeDto })
+  @ApiOkResponse({
+    description: 'The confirmation link has been sent',
+    schema: {
+      type: 'object',
+      properties: {
+        message: {
+          type: 'string',
+          example:
+            'A confirmation link has been sent to the new email address.',
+        },
+      },
+    },
+  })
+  @ApiBadRequestResponse({
+    description: 'Invalid email, or the address is the current one',
+  })
+  @ApiConflictResponse({ description: 'Email already exists' })
+  @ApiUnauthorizedResponse({ description: 'Unauthorized' })
+  @ApiForbiddenResponse({
+    description:
+      'Impersonated session, or re-authentication required (`code`: `REAUTHENTICATION_REQUIRED`)',
+  })
+  @ApiBearerAuth()
+  @UseGuards(JwtAuthGuard, NoImpersonationGuard, RecentAuthGuard)
+  @RequireRecentAuth(RECENT_AUTH_MAX_AGE)
+  @Post('me/email-change')
+  @HttpCode(HttpStatus.OK)
+  async requestEmailChange(
+    @Body() requestEmailChangeDto: RequestEmailChangeDto,
+    @Request() req: AuthenticatedRequest,
+  ) {
+    return this.authService.requestEmailChange(
+      req.user.userId,
+      requestEmailChangeDto.email,
+    );
+  }
+
+  @ApiOperation({
+    summary: 'Confirm the email change of the logged in user',
+    description:
+      'Applies the pending change with the token from the confirmation email. The new address counts as verified.',
+  })
+  @ApiBody({ type: ConfirmEmailChangeDto })
+  @ApiOkResponse({
+    description: 'The email address has been changed',
+    schema: {
+      type: 'object',
+      properties: {
+        message: {
+          type: 'string',
+          example: 'Your email address has been changed.',
+        },
+      },
+    },
+  })
+  @ApiBadRequestResponse({
+    description: 'Invalid or expired token, or no change is pending',
+  })
+  @ApiConflictResponse({
+    description: 'Another user took the address in the meantime',
+  })
+  @ApiUnauthorizedResponse({ description: 'Unauthorized' })
+  @ApiForbiddenResponse({ description: 'Impersonated session' })
+  @ApiBearerAuth()
+  @UseGuards(JwtAuthGuard, NoImpersonationGuard)
+  @Post('me/email-change/confirm')
+  @HttpCode(HttpStatus.OK)
+  async confirmEmailChange(
+    @Body() confirmEmailChangeDto: ConfirmEmailChangeDto,
+    @Request() req: AuthenticatedRequest,
+  ) {
+    return this.authService.confirmEmailChange(
+      req.user.userId,
+      confirmEmailChangeDto.token,
+    );
   }
 
   @ApiOperation({ summary: 'Get a user by ID' })
@@ -159,9 +406,13 @@ export class UsersController {
   })
   @ApiNotFoundResponse({ description: 'User not found' })
   @ApiUnauthorizedResponse({ description: 'Unauthorized' })
+  @ApiForbiddenResponse({
+    description:
+      'Only the user themselves or a user with the `users:update` permission can update a user',
+  })
   @ApiBearerAuth()
-  @UseGuards(JwtAuthGuard) // Only the user updating themselves or an admin should be allowed (need to add role logic)
-  @Patch(':id') // In practice, you need to check if the user has permission to update this user
+  @UseGuards(JwtAuthGuard)
+  @Patch(':id')
   async update(
     @Param('id') id: string,
     @Body(
@@ -173,7 +424,10 @@ export class UsersController {
     )
     updateUserDto: UpdateUserDto,
     @I18n() i18n: I18nContext,
+    @Request() req: AuthenticatedRequest,
   ) {
+    await this.assertSelfOrPermitted(id, req, i18n, Permission.USERS_UPDATE);
+
     const updatedUser = await this.usersService.update(id, updateUserDto);
     return {
       message: i18n.t('translation.USER.UPDATED_SUCCESS'),
@@ -192,12 +446,696 @@ export class UsersController {
   })
   @ApiNotFoundResponse({ description: 'User not found' })
   @ApiUnauthorizedResponse({ description: 'Unauthorized' })
+  @ApiForbiddenResponse({
+    description:
+      'Insufficient permissions, re-authentication required (`code`: `REAUTHENTICATION_REQUIRED`), or called with an API key or as an OAuth client (`code`: `INTERACTIVE_LOGIN_REQUIRED`)',
+  })
   @ApiBearerAuth()
-  @UseGuards(JwtAuthGuard) // Only admin should be allowed (need to add role logic)
+  @UseGuards(JwtOrApiKeyAuthGuard, PermissionsGuard, RecentAuthGuard)
+  @RequirePermissions(Permission.USERS_DELETE)
+  @RequireRecentAuth(RECENT_AUTH_MAX_AGE)
   @Delete(':id')
   @HttpCode(HttpStatus.NO_CONTENT)
-  async remove(@Param('id') id: string) {
-    await this.usersService.remove(id);
+  async remove(@Param('id') id: string, @Request() req: PrincipalRequest) {
+    await this.usersService.remove(id, this.toLifecycleActor(req));
+    await this.sessionService.revokeAllForUser(
+      id,
+      SessionRevocationReason.ACCOUNT_DELETED,
+    );
     // No need to return a message because the status is 204 No Content
   }
+
+  @ApiOperation({
+    summary: 'Restore a deleted user',
+    description:
+      'Deleted users can be restored until they are purged, USER_DELETION_GRACE_DAYS days after the deletion.',
+  })
+  @ApiParam({
+    name: 'id',
+    description: 'User ID',
+    example: '60d21b4667d0d8992e610c85',
+  })
+  @ApiOkResponse({
+    description: 'The user has been restored',
+    schema: userStatusResponseSchema('User restored.', UserStatus.ACTIVE),
+  })
+  @ApiNotFoundResponse({ description: 'No deleted user has this ID' })
+  @ApiUnauthorizedResponse({ description: 'Unauthorized' })
+  @ApiForbiddenResponse({ description: 'Insufficient permissions' })
+  @ApiBearerAuth()
+  @ApiSecurity(API_KEY_SECURITY)
+  @UseGuards(JwtOrApiKeyAuthGuard, PermissionsGuard)
+  @RequirePermissions(Permission.USERS_DELETE)
+  @Post(':id/restore')
+  @HttpCode(HttpStatus.OK)
+  async restore(
+    @Param('id') id: string,
+    @Request() req: PrincipalRequest,
+    @I18n() i18n: I18nContext,
+  ) {
+    const user = await this.usersService.restore(
+      id,
+      this.toLifecycleActor(req),
+    );
+    return {
+      message: i18n.t('translation.USER.RESTORED'),
+      user,
+    };
+  }
+
+  @ApiOperation({
+    summary: 'Suspend a user',
+    description:
+      'Suspended users cannot log in, and their sessions and access tokens are revoked.',
+  })
+  @ApiParam({
+    name: 'id',
+    description: 'User ID',
+    example: '60d21b4667d0d8992e610c85',
+  })
+  @ApiOkResponse({
+    description: 'The user has been suspended',
+    schema: userStatusResponseSchema('User suspended.', UserStatus.SUSPENDED),
+  })
+  @ApiBadRequestResponse({ description: 'Users cannot suspend themselves' })
+  @ApiNotFoundResponse({ description: 'User not found' })
+  @ApiUnauthorizedResponse({ description: 'Unauthorized' })
+  @ApiForbiddenResponse({ description: 'Insufficient permissions' })
+  @ApiBearerAuth()
+  @ApiSecurity(API_KEY_SECURITY)
+  @UseGuards(JwtOrApiKeyAuthGuard, NoImpersonationGuard, PermissionsGuard)
+  @RequirePermissions(Permission.USERS_SUSPEND)
+  @Post(':id/suspend')
+  @HttpCode(HttpStatus.OK)
+  async suspend(
+    @Param('id') id: string,
+    @Request() req: PrincipalRequest,
+    @I18n() i18n: I18nContext,
+  ) {
+    const user = await this.usersService.suspend(
+      id,
+      this.toLifecycleActor(req),
+    );
+    await this.sessionService.revokeAllForUser(
+      id,
+      SessionRevocationReason.ACCOUNT_SUSPENDED,
+    );
+    return {
+      message: i18n.t('translation.USER.SUSPENDED'),
+      user,
+    };
+  }
+
+  @ApiOperation({ summary: 'Lift the suspension of a user' })
+  @ApiParam({
+    name: 'id',
+    description: 'User ID',
+    example: '60d21b4667d0d8992e610c85',
+  })
+  @ApiOkResponse({
+    description: 'The user has been reactivated',
+    schema: userStatusResponseSchema('User reactivated.', UserStatus.ACTIVE),
+  })
+  @ApiNotFoundResponse({ description: 'User not found' })
+  @ApiUnauthorizedResponse({ description: 'Unauthorized' })
+  @ApiForbiddenResponse({ description: 'Insufficient permissions' })
+  @ApiBearerAuth()
+  @ApiSecurity(API_KEY_SECURITY)
+  @UseGuards(JwtOrApiKeyAuthGuard, NoImpersonationGuard, PermissionsGuard)
+  @RequirePermissions(Permission.USERS_SUSPEND)
+  @Post(':id/reactivate')
+  @HttpCode(HttpStatus.OK)
+  async reactivate(
+    @Param('id') id: string,
+    @Request() req: PrincipalRequest,
+    @I18n() i18n: I18nContext,
+  ) {
+    const user = await this.usersService.reactivate(
+      id,
+      this.toLifecycleActor(req),
+    );
+    return {
+      message: i18n.t('translation.USER.REACTIVATED'),
+      user,
+    };
+  }
+
+  @ApiOperation({
+    summary: 'Export the personal data of a user',
+    description:
+      'Queues a JSON bundle of the profile, sessions and activity log entries of the user. Poll GET /users/:id/data-requests/:requestId until it is completed, then download it. An export still pending is returned instead of queuing another.',
+  })
+  @ApiParam({
+    name: 'id',
+    description: 'User ID',
+    example: '60d21b4667d0d8992e610c85',
+  })
+  @ApiAcceptedResponse({
+    description: 'The export has been queued',
+    schema: dataRequestResponseSchema(
+      'Your data export is being prepared.',
+      UserDataRequestType.EXPORT,
+    ),
+  })
+  @ApiNotFoundResponse({ description: 'User not found' })
+  @ApiUnauthorizedResponse({ description: 'Unauthorized' })
+  @ApiForbiddenResponse({
+    description:
+      'Only the user themselves or a user with the `users:read` permission can export a user',
+  })
+  @ApiBearerAuth()
+  @UseGuards(JwtAuthGuard)
+  @Get(':id/export')
+  @HttpCode(HttpStatus.ACCEPTED)
+  async requestDataExport(
+    @Param('id') id: string,
+    @Request() req: AuthenticatedRequest,
+    @I18n() i18n: I18nContext,
+  ) {
+    await this.assertSelfOrPermitted(id, req, i18n, Permission.USERS_READ);
+    const request = await this.usersService.requestDataExport(
+      id,
+      this.toLifecycleActor(req),
+    );
+    return {
+      message: i18n.t('translation.USER.EXPORT_REQUESTED'),
+      request,
+    };
+  }
+
+  @ApiOperation({
+    summary: 'Erase the personal data of a user',
+    description:
+      'Queues the anonymization of the user, who can no longer log in. Their sessions, linked provider accounts and exports are deleted, and their activity log entries are kept with the personal data replaced by a pseudonym.',
+  })
+  @ApiParam({
+    name: 'id',
+    description: 'User ID',
+    example: '60d21b4667d0d8992e610c85',
+  })
+  @ApiAcceptedResponse({
+    description: 'The erasure has been queued',
+    schema: dataRequestResponseSchema(
+      'The erasure of the user data has been scheduled.',
+      UserDataRequestType.ERASURE,
+    ),
+  })
+  @ApiNotFoundResponse({ description: 'User not found' })
+  @ApiUnauthorizedResponse({ description: 'Unauthorized' })
+  @ApiForbiddenResponse({
+    description:
+      'Insufficient permissions, re-authentication required (`code`: `REAUTHENTICATION_REQUIRED`), or called with an API key or as an OAuth client (`code`: `INTERACTIVE_LOGIN_REQUIRED`)',
+  })
+  @ApiBearerAuth()
+  @UseGuards(
+    JwtOrApiKeyAuthGuard,
+    NoImpersonationGuard,
+    PermissionsGuard,
+    RecentAuthGuard,
+  )
+  @RequirePermissions(Permission.USERS_ERASE)
+  @RequireRecentAuth(RECENT_AUTH_MAX_AGE)
+  @Post(':id/erase')
+  @HttpCode(HttpStatus.ACCEPTED)
+  async requestErasure(
+    @Param('id') id: string,
+    @Request() req: PrincipalRequest,
+    @I18n() i18n: I18nContext,
+  ) {
+    const request = await this.usersService.requestErasure(
+      id,
+      this.toLifecycleActor(req),
+    );
+    return {
+      message: i18n.t('translation.USER.ERASURE_REQUESTED'),
+      request,
+    };
+  }
+
+  @ApiOperation({ summary: 'Get the status of an export or erasure' })
+  @ApiParam({
+    name: 'id',
+    description: 'User ID',
+    example: '60d21b4667d0d8992e610c85',
+  })
+  @ApiParam({
+    name: 'requestId',
+    description: 'Data request ID',
+    example: '60d21b4667d0d8992e610c87',
+  })
+  @ApiOkResponse({
+    description: 'Returns the request',
+    schema: dataRequestSchema(
+      UserDataRequestType.EXPORT,
+      UserDataRequestStatus.COMPLETED,
+    ),
+  })
+  @ApiNotFoundResponse({ description: 'Data request not found' })
+  @ApiUnauthorizedResponse({ description: 'Unauthorized' })
+  @ApiForbiddenResponse({
+    description:
+      'Only the user themselves or a user with the `users:read` permission can see the requests of a user',
+  })
+  @ApiBearerAuth()
+  @UseGuards(JwtAuthGuard)
+  @Get(':id/data-requests/:requestId')
+  async findDataRequest(
+    @Param('id') id: string,
+    @Param('requestId') requestId: string,
+    @Request() req: AuthenticatedRequest,
+    @I18n() i18n: I18nContext,
+  ) {
+    await this.assertSelfOrPermitted(id, req, i18n, Permission.USERS_READ);
+    return this.usersService.findDataRequest(id, requestId);
+  }
+
+  @ApiOperation({
+    summary: 'Download a completed export',
+    description:
+      'Available for USER_DATA_EXPORT_TTL seconds after the export is completed.',
+  })
+  @ApiParam({
+    name: 'id',
+    description: 'User ID',
+    example: '60d21b4667d0d8992e610c85',
+  })
+  @ApiParam({
+    name: 'requestId',
+    description: 'Data request ID of the export',
+    example: '60d21b4667d0d8992e610c87',
+  })
+  @ApiOkResponse({
+    description: 'JSON bundle of the personal data of the user, as a file',
+    schema: {
+      type: 'object',
+      properties: {
+        exportedAt: { type: 'string', format: 'date-time' },
+        profile: { type: 'object' },
+        sessions: { type: 'array', items: { type: 'object' } },
+        activityLogs: { type: 'array', items: { type: 'object' } },
+      },
+    },
+  })
+  @ApiConflictResponse({ description: 'The export is not completed yet' })
+  @ApiNotFoundResponse({ description: 'Export not found or expired' })
+  @ApiUnauthorizedResponse({ description: 'Unauthorized' })
+  @ApiForbiddenResponse({
+    description:
+      'Only the user themselves or a user with the `users:read` permission can download an export',
+  })
+  @ApiBearerAuth()
+  @UseGuards(JwtAuthGuard)
+  @Get(':id/data-requests/:requestId/download')
+  async downloadDataExport(
+    @Param('id') id: string,
+    @Param('requestId') requestId: string,
+    @Request() req: AuthenticatedRequest,
+    @I18n() i18n: I18nContext,
+    @Res() res: ExpressResponse,
+  ) {
+    await this.assertSelfOrPermitted(id, req, i18n, Permission.USERS_READ);
+    const bundle = await this.usersService.getDataExport(
+      id,
+      requestId,
+      this.toLifecycleActor(req),
+    );
+    // Written directly so the bundle is not wrapped like other responses
+    res.setHeader(
+      'Content-Disposition',
+      `attachment; filename="user-${id}-export.json"`,
+    );
+    res.setHeader('Cache-Control', 'no-store');
+    res.status(HttpStatus.OK).json(bundle);
+  }
+
+  @ApiOperation({ summary: 'Grant a role to a user' })
+  @ApiParam({
+    name: 'id',
+    description: 'User ID',
+    example: '60d21b4667d0d8992e610c85',
+  })
+  @ApiBody({ type: AssignRoleDto })
+  @ApiOkResponse({
+    description: 'The role has been granted',
+    schema: {
+      type: 'object',
+      properties: {
+        message: { type: 'string', example: 'Role granted successfully' },
+        roles: {
+          type: 'array',
+          items: { type: 'string' },
+          example: ['user', 'admin'],
+        },
+      },
+    },
+  })
+  @ApiNotFoundResponse({ description: 'User or role not found' })
+  @ApiUnauthorizedResponse({ description: 'Unauthorized' })
+  @ApiForbiddenResponse({
+    description:
+      'Insufficient permissions, or the role has a permission the caller lacks',
+  })
+  @ApiBearerAuth()
+  @ApiSecurity(API_KEY_SECURITY)
+  @UseGuards(JwtOrApiKeyAuthGuard, NoImpersonationGuard, PermissionsGuard)
+  @RequirePermissions(Permission.USERS_MANAGE_ROLES)
+  @Post(':id/roles')
+  @HttpCode(HttpStatus.OK)
+  async grantRole(
+    @Param('id') id: string,
+    @Body(new ValidationPipe({ transform: true, whitelist: true }))
+    assignRoleDto: AssignRoleDto,
+    @I18n() i18n: I18nContext,
+    @Request() req: PrincipalRequest,
+  ) {
+    const roles = await this.usersService.grantRole(
+      id,
+      assignRoleDto.role,
+      await this.toRoleActor(req),
+    );
+    return {
+      message: i18n.t('translation.USER.ROLE_GRANTED'),
+      roles,
+    };
+  }
+
+  @ApiOperation({ summary: 'Revoke a role from a user' })
+  @ApiParam({
+    name: 'id',
+    description: 'User ID',
+    example: '60d21b4667d0d8992e610c85',
+  })
+  @ApiParam({
+    name: 'role',
+    description: 'Name of the role to revoke',
+    example: UserRole.ADMIN,
+  })
+  @ApiOkResponse({
+    description: 'The role has been revoked',
+    schema: {
+      type: 'object',
+      properties: {
+        message: { type: 'string', example: 'Role revoked successfully' },
+        roles: {
+          type: 'array',
+          items: { type: 'string' },
+          example: ['user'],
+        },
+      },
+    },
+  })
+  @ApiNotFoundResponse({ description: 'User not found' })
+  @ApiUnauthorizedResponse({ description: 'Unauthorized' })
+  @ApiForbiddenResponse({
+    description:
+      'Insufficient permissions, or the role has a permission the caller lacks',
+  })
+  @ApiBearerAuth()
+  @ApiSecurity(API_KEY_SECURITY)
+  @UseGuards(JwtOrApiKeyAuthGuard, NoImpersonationGuard, PermissionsGuard)
+  @RequirePermissions(Permission.USERS_MANAGE_ROLES)
+  @Delete(':id/roles/:role')
+  async revokeRole(
+    @Param('id') id: string,
+    @Param('role') role: string,
+    @I18n() i18n: I18nContext,
+    @Request() req: PrincipalRequest,
+  ) {
+    const roles = await this.usersService.revokeRole(
+      id,
+      role,
+      await this.toRoleActor(req),
+    );
+    return {
+      message: i18n.t('translation.USER.ROLE_REVOKED'),
+      roles,
+    };
+  }
+
+  @ApiOperation({ summary: 'List the active sessions of a user' })
+  @ApiParam({
+    name: 'id',
+    description: 'User ID',
+    example: '60d21b4667d0d8992e610c85',
+  })
+  @ApiOkResponse({
+    description: 'Returns the active sessions, most recently used first',
+    type: [SessionResponseDto],
+  })
+  @ApiUnauthorizedResponse({ description: 'Unauthorized' })
+  @ApiForbiddenResponse({ description: 'Insufficient permissions' })
+  @ApiBearerAuth()
+  @ApiSecurity(API_KEY_SECURITY)
+  @UseGuards(JwtOrApiKeyAuthGuard, PermissionsGuard)
+  @RequirePermissions(Permission.USERS_MANAGE_SESSIONS)
+  @Get(':id/sessions')
+  async findSessions(@Param('id') id: string) {
+    return this.sessionService.findActiveByUser(id);
+  }
+
+  @ApiOperation({ summary: 'Revoke one session of a user' })
+  @ApiParam({
+    name: 'id',
+    description: 'User ID',
+    example: '60d21b4667d0d8992e610c85',
+  })
+  @ApiParam({
+    name: 'sessionId',
+    description: 'Session ID',
+    example: '60d21b4667d0d8992e610c86',
+  })
+  @ApiNoContentResponse({ description: 'The session has been revoked' })
+  @ApiNotFoundResponse({ description: 'Session not found' })
+  @ApiUnauthorizedResponse({ description: 'Unauthorized' })
+  @ApiForbiddenResponse({ description: 'Insufficient permissions' })
+  @ApiBearerAuth()
+  @ApiSecurity(API_KEY_SECURITY)
+  @UseGuards(JwtOrApiKeyAuthGuard, PermissionsGuard)
+  @RequirePermissions(Permission.USERS_MANAGE_SESSIONS)
+  @Delete(':id/sessions/:sessionId')
+  @HttpCode(HttpStatus.NO_CONTENT)
+  async revokeSession(
+    @Param('id') id: string,
+    @Param('sessionId') sessionId: string,
+  ) {
+    await this.sessionService.revokeById(
+      id,
+      sessionId,
+      SessionRevocationReason.REVOKED_BY_ADMIN,
+    );
+  }
+
+  @ApiOperation({ summary: 'Revoke all sessions of a user' })
+  @ApiParam({
+    name: 'id',
+    description: 'User ID',
+    example: '60d21b4667d0d8992e610c85',
+  })
+  @ApiOkResponse({
+    description: 'The sessions have been revoked',
+    schema: {
+      type: 'object',
+      properties: {
+        message: { type: 'string', example: '3 session(s) revoked.' },
+        revoked: { type: 'number', example: 3 },
+      },
+    },
+  })
+  @ApiUnauthorizedResponse({ description: 'Unauthorized' })
+  @ApiForbiddenResponse({ description: 'Insufficient permissions' })
+  @ApiBearerAuth()
+  @ApiSecurity(API_KEY_SECURITY)
+  @UseGuards(JwtOrApiKeyAuthGuard, PermissionsGuard)
+  @RequirePermissions(Permission.USERS_MANAGE_SESSIONS)
+  @Delete(':id/sessions')
+  async revokeAllSessions(@Param('id') id: string, @I18n() i18n: I18nContext) {
+    await this.usersService.incrementTokenVersion(id); // Invalidate issued access tokens too
+    const revoked = await this.sessionService.revokeAllForUser(
+      id,
+      SessionRevocationReason.REVOKED_BY_ADMIN,
+    );
+    return {
+      message: i18n.t('translation.SESSION.ALL_REVOKED', {
+        args: { count: revoked },
+      }),
+      revoked,
+    };
+  }
+
+  @ApiOperation({
+    summary: 'Unlock a user locked out after failed logins',
+    description:
+      'Clears the failed login counter of the account. Lockouts of client IP addresses are not affected.',
+  })
+  @ApiParam({
+    name: 'id',
+    description: 'User ID',
+    example: '60d21b4667d0d8992e610c85',
+  })
+  @ApiOkResponse({
+    description: 'The account has been unlocked',
+    schema: {
+      type: 'object',
+      properties: {
+        message: { type: 'string', example: 'Account unlocked.' },
+        unlocked: { type: 'boolean', example: true },
+      },
+    },
+  })
+  @ApiNotFoundResponse({ description: 'User not found' })
+  @ApiUnauthorizedResponse({ description: 'Unauthorized' })
+  @ApiForbiddenResponse({ description: 'Insufficient permissions' })
+  @ApiBearerAuth()
+  @ApiSecurity(API_KEY_SECURITY)
+  @UseGuards(JwtOrApiKeyAuthGuard, PermissionsGuard)
+  @RequirePermissions(Permission.USERS_UNLOCK)
+  @Post(':id/unlock')
+  @HttpCode(HttpStatus.OK)
+  async unlock(@Param('id') id: string, @I18n() i18n: I18nContext) {
+    const user = await this.usersService.findById(id);
+    if (!user) {
+      throw new NotFoundException(
+        i18n.t('translation.USER.NOT_FOUND', { args: { id } }),
+      );
+    }
+    const unlocked = await this.loginThrottleService.unlock(user.email);
+    return {
+      message: i18n.t('translation.AUTH.ACCOUNT_UNLOCKED'),
+      unlocked,
+    };
+  }
+
+  @ApiOperation({
+    summary: 'Reset the two-factor authentication of a user',
+    description:
+      'For users who lost their authenticator app and recovery codes. The user logs in with the password only until MFA is set up again.',
+  })
+  @ApiParam({
+    name: 'id',
+    description: 'User ID',
+    example: '60d21b4667d0d8992e610c85',
+  })
+  @ApiOkResponse({
+    description: 'Two-factor authentication has been reset',
+    schema: {
+      type: 'object',
+      properties: {
+        message: {
+          type: 'string',
+          example: 'Two-factor authentication has been reset.',
+        },
+        reset: { type: 'boolean', example: true },
+      },
+    },
+  })
+  @ApiNotFoundResponse({ description: 'User not found' })
+  @ApiUnauthorizedResponse({ description: 'Unauthorized' })
+  @ApiForbiddenResponse({
+    description:
+      'Insufficient permissions, re-authentication required (`code`: `REAUTHENTICATION_REQUIRED`), or called with an API key or as an OAuth client (`code`: `INTERACTIVE_LOGIN_REQUIRED`)',
+  })
+  @ApiBearerAuth()
+  @UseGuards(
+    JwtOrApiKeyAuthGuard,
+    NoImpersonationGuard,
+    PermissionsGuard,
+    RecentAuthGuard,
+  )
+  @RequirePermissions(Permission.USERS_RESET_MFA)
+  @RequireRecentAuth(RECENT_AUTH_MAX_AGE)
+  @Delete(':id/mfa')
+  async resetMfa(
+    @Param('id') id: string,
+    @Request() req: PrincipalRequest,
+    @I18n() i18n: I18nContext,
+  ) {
+    const user = await this.usersService.findById(id);
+    if (!user) {
+      throw new NotFoundException(
+        i18n.t('translation.USER.NOT_FOUND', { args: { id } }),
+      );
+    }
+    const reset = await this.mfaService.reset(
+      id,
+      user.email,
+      req.user.principalType === 'service'
+        ? req.user.clientId
+        : req.user.userId,
+    );
+    return {
+      message: i18n.t('translation.AUTH.MFA_RESET'),
+      reset,
+    };
+  }
+
+  /**
+   * Only let users act on themselves, unless their roles grant a permission
+   * @param id User ID
+   * @param req Request
+   * @param i18n I18n context
+   * @param permission Permission needed to act on another user
+   * @throws ForbiddenException for another user without the permission
+   */
+  private async assertSelfOrPermitted(
+    id: string,
+    req: AuthenticatedRequest,
+    i18n: I18nContext,
+    permission: Permission,
+  ): Promise<void> {
+    if (req.user.userId === id) {
+      return;
+    }
+
+    const permissions = await this.getEffectivePermissions(req.user.roles);
+    if (!PermissionUtils.grants(permissions, permission)) {
+      throw new ForbiddenException(
+        i18n.t('translation.AUTH.INSUFFICIENT_PERMISSIONS'),
+      );
+    }
+  }
+
+  /**
+   * Resolve the permissions granted by the roles of the user
+   * Shares the permissions PermissionsGuard may already have resolved
+   * @param roles Roles of the user
+   * @returns Effective permissions
+   */
+  private async getEffectivePermissions(roles?: string[]): Promise<string[]> {
+    let permissions = this.clsService.get<string[] | undefined>(
+      CLS_PERMISSIONS_KEY,
+    );
+    if (!permissions) {
+      permissions = await this.permissionsResolver.resolvePermissions(
+        roles ?? [],
+      );
+      this.clsService.set(CLS_PERMISSIONS_KEY, permissions);
+    }
+    return permissions;
+  }
+
+  /**
+   * Describe the principal of the request for granting or revoking roles
+   * @param req Request
+   * @returns Actor with their permissions and scopes
+   */
+  private async toRoleActor(req: PrincipalRequest): Promise<RoleActor> {
+    return req.user.principalType === 'service'
+      ? { permissions: req.user.scopes, scopes: req.user.scopes }
+      : {
+          userId: req.user.userId,
+          permissions: await this.getEffectivePermissions(req.user.roles),
+          scopes: req.user.scopes,
+        };
+  }
+
+  /**
+   * Describe the principal of the request for the activity log
+   * @param req Request
+   * @returns Actor of a lifecycle change
+   */
+  private toLifecycleActor(req: PrincipalRequest): UserLifecycleActor {
+    return req.user.principalType === 'service'
+      ? { username: req.user.name, clientId: req.user.clientId }
+      : { userId: req.user.userId, username: req.user.email };
+  }
 }
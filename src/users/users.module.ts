@@ -1,16 +1,38 @@
-import { Module } from '@nestjs/common';
+import { Module, forwardRef } from '@nestjs/common';
 import { MongooseModule } from '@nestjs/mongoose';
 import { UsersService } from './users.service';
 import { UsersController } from './users.controller';
-import { User, UserSchema } from './schemas';
-import { UserCrudService, UserAuthenticationService } from './services';
+import {
+  User,
+  UserSchema,
+  UserDataRequest,
+  UserDataRequestSchema,
+} from './schemas';
+import {
+  UserCrudService,
+  UserAuthenticationService,
+  UserRolesService,
+  PasswordPolicyService,
+  PasswordHasherService,
+  UserLifecycleService,
+  UserDataService,
+  UserCleanupService,
+} from './services';
+import { PasswordPolicyConstraint } from './validators';
+import { AuthModule } from '../auth/auth.module';
+import { MailerModule } from '../mailer';
 
 /**
  * Module for user management functionality
  */
 @Module({
   imports: [
-    MongooseModule.forFeature([{ name: User.name, schema: UserSchema }]),
+    MongooseModule.forFeature([
+      { name: User.name, schema: UserSchema },
+      { name: UserDataRequest.name, schema: UserDataRequestSchema },
+    ]),
+    forwardRef(() => AuthModule), // For the session endpoints
+    MailerModule, // For the queued emails of erased users
   ],
   controllers: [UsersController],
   providers: [
@@ -20,12 +42,27 @@ import { UserCrudService, UserAuthenticationService } from './services';
     // Specialized services
     UserCrudService,
     UserAuthenticationService,
+    UserRolesService,
+    PasswordPolicyService,
+    PasswordHasherService,
+    UserLifecycleService,
+    UserDataService,
+    UserCleanupService,
+
+    // Validation constraints resolved through the Nest container
+    PasswordPolicyConstraint,
   ],
   exports: [
     // Export services that other modules might need
     UsersService,
     UserCrudService,
     UserAuthenticationService,
+    UserRolesService,
+    PasswordPolicyService,
+    PasswordHasherService,
+    UserLifecycleService,
+    UserDataService,
+    PasswordPolicyConstraint,
   ],
 })
 export class UsersModule {}
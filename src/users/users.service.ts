@@ -1,8 +1,21 @@
 // src/users/users.service.ts
 import { Injectable } from '@nestjs/common';
-import { UserCrudService, UserAuthenticationService } from './services';
-import { CreateUserDto, UpdateUserDto } from './dto';
+import {
+  UserCrudService,
+  UserAuthenticationService,
+  UserRolesService,
+  UserLifecycleService,
+  UserDataService,
+} from './services';
+import { CreateUserDto, UpdateUserDto, FindUsersQueryDto } from './dto';
 import { UserDocument } from './schemas';
+import {
+  UserDataExport,
+  UserDataRequestSummary,
+  UserLifecycleActor,
+  RoleActor,
+} from './interfaces';
+import { PaginatedResult } from '../common/interfaces';
 
 /**
  * Main service for user operations
@@ -13,6 +26,9 @@ export class UsersService {
   constructor(
     private readonly userCrudService: UserCrudService,
     private readonly userAuthService: UserAuthenticationService,
+    private readonly userRolesService: UserRolesService,
+    private readonly userLifecycleService: UserLifecycleService,
+    private readonly userDataService: UserDataService,
   ) {}
 
   /**
@@ -27,13 +43,28 @@ export class UsersService {
   }
 
   /**
-   * Find all users
-   * @returns List of users without sensitive fields
+   * Register a new user through self-service sign-up
+   * The email address must be verified before it is trusted
+   * @param createUserDto User creation data
+   * @returns Created user without sensitive fields
+   */
+  async register(
+    createUserDto: CreateUserDto,
+  ): Promise<Omit<UserDocument, 'password_hash' | 'hashedRefreshToken'>> {
+    return this.userCrudService.create(createUserDto, { emailVerified: false });
+  }
+
+  /**
+   * Find a page of users matching the query
+   * @param query Filters, search, sort and page
+   * @returns Page of users without sensitive fields
    */
-  async findAll(): Promise<
-    Omit<UserDocument, 'password_hash' | 'hashedRefreshToken'>[]
+  async findAll(
+    query: FindUsersQueryDto = {},
+  ): Promise<
+    PaginatedResult<Omit<UserDocument, 'password_hash' | 'hashedRefreshToken'>>
   > {
-    return this.userCrudService.findAll();
+    return this.userCrudService.findAll(query);
   }
 
   /**
@@ -85,23 +116,200 @@ export class UsersService {
   }
 
   /**
-   * Remove a user
+   * Soft-delete a user
+   * @param id User ID
+   * @param actor Principal deleting the user
+   */
+  async remove(id: string, actor: UserLifecycleActor): Promise<void> {
+    return this.userLifecycleService.remove(id, actor);
+  }
+
+  /**
+   * Restore a soft-deleted user
+   * @param id User ID
+   * @param actor Principal restoring the user
+   * @returns Restored user without sensitive fields
+   */
+  async restore(
+    id: string,
+    actor: UserLifecycleActor,
+  ): Promise<Omit<UserDocument, 'password_hash' | 'hashedRefreshToken'>> {
+    return this.userLifecycleService.restore(id, actor);
+  }
+
+  /**
+   * Suspend a user
+   * @param id User ID
+   * @param actor Principal suspending the user
+   * @returns Suspended user without sensitive fields
+   */
+  async suspend(
+    id: string,
+    actor: UserLifecycleActor,
+  ): Promise<Omit<UserDocument, 'password_hash' | 'hashedRefreshToken'>> {
+    return this.userLifecycleService.suspend(id, actor);
+  }
+
+  /**
+   * Lift the suspension of a user
+   * @param id User ID
+   * @param actor Principal reactivating the user
+   * @returns Reactivated user without sensitive fields
+   */
+  async reactivate(
+    id: string,
+    actor: UserLifecycleActor,
+  ): Promise<Omit<UserDocument, 'password_hash' | 'hashedRefreshToken'>> {
+    return this.userLifecycleService.reactivate(id, actor);
+  }
+
+  /**
+   * Queue an export of the personal data of a user
+   * @param id User ID
+   * @param actor Principal asking for the export
+   * @returns Queued request
+   */
+  async requestDataExport(
+    id: string,
+    actor: UserLifecycleActor,
+  ): Promise<UserDataRequestSummary> {
+    return this.userDataService.requestExport(id, actor);
+  }
+
+  /**
+   * Queue the erasure of the personal data of a user
+   * @param id User ID
+   * @param actor Principal asking for the erasure
+   * @returns Queued request
+   */
+  async requestErasure(
+    id: string,
+    actor: UserLifecycleActor,
+  ): Promise<UserDataRequestSummary> {
+    return this.userDataService.requestErasure(id, actor);
+  }
+
+  /**
+   * Get a data-subject request of a user
+   * @param id User ID
+   * @param requestId Request ID
+   * @returns Request
+   */
+  async findDataRequest(
+    id: string,
+    requestId: string,
+  ): Promise<UserDataRequestSummary> {
+    return this.userDataService.findRequest(id, requestId);
+  }
+
+  /**
+   * Get the bundle of a completed export
    * @param id User ID
-   * @returns Deletion result
+   * @param requestId Request ID
+   * @param actor Principal downloading the export
+   * @returns Personal data of the user
+   */
+  async getDataExport(
+    id: string,
+    requestId: string,
+    actor: UserLifecycleActor,
+  ): Promise<UserDataExport> {
+    return this.userDataService.getExport(id, requestId, actor);
+  }
+
+  /**
+   * Invalidate all outstanding access tokens of a user
+   * @param userId User ID
    */
-  async remove(id: string): Promise<{ deleted: boolean; message?: string }> {
-    return this.userCrudService.remove(id);
+  async incrementTokenVersion(userId: string): Promise<void> {
+    return this.userAuthService.incrementTokenVersion(userId);
   }
 
   /**
-   * Set the current refresh token for a user
+   * Check that a password is not one of the recent passwords of a user
    * @param userId User ID
-   * @param refreshToken Refresh token (or null to clear)
+   * @param password New plain text password
    */
-  async setCurrentRefreshToken(
+  async assertPasswordNotReused(
     userId: string,
-    refreshToken: string | null,
+    password: string,
   ): Promise<void> {
-    return this.userAuthService.setCurrentRefreshToken(userId, refreshToken);
+    return this.userAuthService.assertPasswordNotReused(userId, password);
+  }
+
+  /**
+   * Replace the password of a user
+   * @param userId User ID
+   * @param password New plain text password
+   */
+  async updatePassword(userId: string, password: string): Promise<void> {
+    return this.userAuthService.updatePassword(userId, password);
+  }
+
+  /**
+   * Mark the email address of a user as verified
+   * @param userId User ID
+   */
+  async markEmailVerified(userId: string): Promise<void> {
+    return this.userAuthService.markEmailVerified(userId);
+  }
+
+  /**
+   * Record the address a user wants to switch to, until it is confirmed
+   * @param userId User ID
+   * @param email New email address
+   */
+  async setPendingEmail(userId: string, email: string): Promise<void> {
+    return this.userAuthService.setPendingEmail(userId, email);
+  }
+
+  /**
+   * Replace the email address of a user with the pending one
+   * @param userId User ID
+   * @returns Previous and new addresses, or null if no change is pending
+   */
+  async applyPendingEmail(
+    userId: string,
+  ): Promise<{ previousEmail: string; email: string } | null> {
+    return this.userAuthService.applyPendingEmail(userId);
+  }
+
+  /**
+   * Drop the email change pending for a user, if any
+   * @param userId User ID
+   * @returns Whether a change was pending
+   */
+  async clearPendingEmail(userId: string): Promise<boolean> {
+    return this.userAuthService.clearPendingEmail(userId);
+  }
+
+  /**
+   * Grant a role to a user
+   * @param userId User ID
+   * @param role Role to grant
+   * @param actor Principal granting the role
+   * @returns Updated list of roles
+   */
+  async grantRole(
+    userId: string,
+    role: string,
+    actor: RoleActor,
+  ): Promise<string[]> {
+    return this.userRolesService.grantRole(userId, role, actor);
+  }
+
+  /**
+   * Revoke a role from a user
+   * @param userId User ID
+   * @param role Role to revoke
+   * @param actor Principal revoking the role
+   * @returns Updated list of roles
+   */
+  async revokeRole(
+    userId: string,
+    role: string,
+    actor: RoleActor,
+  ): Promise<string[]> {
+    return this.userRolesService.revokeRole(userId, role, actor);
   }
 }
@@ -0,0 +1,77 @@
+import { Injectable, Optional } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import {
+  registerDecorator,
+  ValidationArguments,
+  ValidationOptions,
+  ValidatorConstraint,
+  ValidatorConstraintInterface,
+} from 'class-validator';
+import { i18nValidationMessage } from 'nestjs-i18n';
+import { PasswordPolicyService } from '../services/password-policy.service';
+
+/**
+ * Constraint checking a password against the configured password policy
+ * Resolved from the Nest container when `useContainer` is set up, otherwise the
+ * policy is read straight from the environment
+ */
+@ValidatorConstraint({ name: 'passwordPolicy', async: false })
+@Injectable()
+export class PasswordPolicyConstraint implements ValidatorConstraintInterface {
+  private readonly passwordPolicyService: PasswordPolicyService;
+
+  constructor(@Optional() passwordPolicyService?: PasswordPolicyService) {
+    this.passwordPolicyService =
+      passwordPolicyService ?? new PasswordPolicyService(new ConfigService());
+  }
+
+  /**
+   * Check the password
+   * @param value Password
+   * @returns True if the password follows the policy
+   */
+  validate(value: unknown): boolean {
+    return (
+      typeof value === 'string' &&
+      this.passwordPolicyService.check(value) === null
+    );
+  }
+
+  /**
+   * Build the message for the first rule the password breaks
+   * @param args Validation arguments
+   * @returns Translation key and arguments
+   */
+  defaultMessage(args: ValidationArguments): string {
+    const violation =
+      typeof args.value === 'string'
+        ? this.passwordPolicyService.check(args.value)
+        : null;
+    if (!violation) {
+      return i18nValidationMessage('translation.VALIDATION.PASSWORD_NOT_EMPTY')(
+        args,
+      );
+    }
+
+    return i18nValidationMessage(`translation.VALIDATION.${violation.key}`, {
+      constraints: violation.constraints ?? [],
+    })(args);
+  }
+}
+
+/**
+ * Check that a password follows the configured password policy
+ * @param validationOptions Validation options
+ * @returns Property decorator
+ */
+export function MeetsPasswordPolicy(validationOptions?: ValidationOptions) {
+  return (object: object, propertyName: string) => {
+    registerDecorator({
+      name: 'passwordPolicy',
+      target: object.constructor,
+      propertyName,
+      options: validationOptions,
+      validator: PasswordPolicyConstraint,
+    });
+  };
+}